@@ -0,0 +1,48 @@
+// Extraction eval CLI - scores the chat pipeline on the golden chats and diffs against the saved baseline
+// Usage: npm run eval -- [--mode offline|mocked-llm|all] [--update-baseline]
+// Exits 1 when any field's F1 drops below the baseline.
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { runnerImport } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const baselinePath = (mode) => new URL(`../src/services/ai/eval/fixtures/baseline.${mode}.json`, import.meta.url);
+
+const args = process.argv.slice(2);
+const modeArg = args.includes('--mode') ? args[args.indexOf('--mode') + 1] : 'all';
+const updateBaseline = args.includes('--update-baseline');
+const modes = modeArg === 'all' ? ['offline', 'mocked-llm'] : [modeArg];
+
+async function readBaseline(mode) {
+  try {
+    return JSON.parse(await readFile(baselinePath(mode), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Pipeline logging is noise here; the report is the output
+const log = console.log;
+console.log = () => {};
+console.warn = () => {};
+
+const { module: evalModule } = await runnerImport('/src/services/ai/eval/index.ts', { root, logLevel: 'error' });
+const { runExtractionEval, compareReports, formatEvalReport } = evalModule;
+
+let regressed = false;
+for (const mode of modes) {
+  const report = await runExtractionEval(mode);
+  const baseline = updateBaseline ? null : await readBaseline(mode);
+  const comparison = baseline ? compareReports(baseline, report) : undefined;
+
+  log(formatEvalReport(report, comparison));
+  log('');
+
+  if (comparison?.regressions.length) regressed = true;
+  if (updateBaseline || !baseline) {
+    await writeFile(baselinePath(mode), JSON.stringify(report, null, 2) + '\n');
+    log(`Baseline written for ${mode}\n`);
+  }
+}
+
+process.exit(regressed ? 1 : 0);
@@ -10,6 +10,7 @@ import TripPlanner from './pages/TripPlanner';
 import HampiExperience from './pages/HampiExperience';
 import TajMahalAR from './pages/TajMahalAR';
 import TripChat from './pages/TripChat';
+import SharedItinerary from './pages/SharedItinerary';
 import Login from './pages/Login';
 import Signup from './pages/Signup';
 import VerifyOTP from './pages/VerifyOTP';
@@ -25,6 +26,7 @@ function App() {
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
           <Route path="/verify-otp" element={<VerifyOTP />} />
+          <Route path="/shared/:token" element={<SharedItinerary />} />
 
           {/* Protected routes */}
           <Route path="/dashboard" element={
@@ -0,0 +1,263 @@
+// ============================================================
+// CHAT EXPENSES PANEL
+// Group ledger, settle-up and actual vs planned spend
+// ============================================================
+
+import { useEffect, useMemo, useState } from 'react';
+import { Receipt, Plus, Trash2, ArrowRight, Download, Loader2 } from 'lucide-react';
+import { useChatStore } from '../../stores/chat.store';
+import { useItineraryStore } from '../../stores/itinerary.store';
+import {
+  getExpenses,
+  addExpense,
+  deleteExpense,
+  importExtractedExpenses,
+} from '../../services/chat';
+import {
+  CURRENCIES,
+  compareSpendToPlan,
+  computeBalances,
+  dominantCurrency,
+  formatMoney,
+  isCurrencyCode,
+  settleUp,
+} from '../../services/money';
+import type { CurrencyCode } from '../../services/money';
+
+interface Props {
+  groupId: string;
+  memberId: string;
+}
+
+export function ChatExpensesPanel({ groupId, memberId }: Props) {
+  const expenses = useChatStore((state) => state.expenses);
+  const members = useChatStore((state) => state.members);
+  const extraction = useChatStore((state) => state.liveExtraction?.extraction ?? null);
+  const setExpenses = useChatStore((state) => state.setExpenses);
+  const upsertExpense = useChatStore((state) => state.upsertExpense);
+  const removeExpense = useChatStore((state) => state.removeExpense);
+  const itinerary = useItineraryStore((state) => state.generatedItinerary);
+
+  const budgetCurrency = extraction?.budget?.currency;
+  const fallbackCurrency: CurrencyCode =
+    budgetCurrency && isCurrencyCode(budgetCurrency) ? budgetCurrency : 'INR';
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(fallbackCurrency);
+  const [paidBy, setPaidBy] = useState(memberId);
+
+  useEffect(() => {
+    getExpenses(groupId).then(setExpenses);
+  }, [groupId, setExpenses]);
+
+  const memberName = (id: string) => members.find((m) => m.id === id)?.name ?? 'Someone';
+
+  // Everything is settled in the currency most expenses were paid in
+  const ledgerCurrency = useMemo(
+    () => dominantCurrency(expenses.map((e) => e.money), fallbackCurrency),
+    [expenses, fallbackCurrency]
+  );
+
+  const transfers = useMemo(() => {
+    const balances = computeBalances(expenses, ledgerCurrency, members.map((m) => m.id));
+    return settleUp(balances, ledgerCurrency);
+  }, [expenses, members, ledgerCurrency]);
+
+  const spend = useMemo(() => {
+    if (!itinerary) return null;
+    return compareSpendToPlan(
+      expenses,
+      {
+        days: itinerary.days,
+        currency: itinerary.summary.currency ?? 'INR',
+        members: members.length,
+      },
+      ledgerCurrency
+    );
+  }, [expenses, itinerary, members.length, ledgerCurrency]);
+
+  const canImport = (extraction?.budget?.breakdown.length ?? 0) > 0;
+
+  const handleAdd = async () => {
+    const value = parseFloat(amount);
+    if (!description.trim() || !(value > 0)) return;
+
+    const expense = await addExpense(
+      groupId,
+      {
+        description,
+        paidBy,
+        money: { amount: value, currency },
+        splitMode: 'equal',
+        splits: members.map((m) => ({ memberId: m.id })),
+      },
+      memberId
+    );
+    if (expense) {
+      upsertExpense(expense);
+      setDescription('');
+      setAmount('');
+      setIsAdding(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!extraction) return;
+    setIsImporting(true);
+    try {
+      const added = await importExtractedExpenses(groupId, extraction, members, memberId);
+      added.forEach(upsertExpense);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (expenseId: string) => {
+    if (await deleteExpense(expenseId)) {
+      removeExpense(expenseId);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Receipt className="w-4 h-4 text-journey-success" />
+          <span className="text-sm font-medium text-gray-300">Expenses ({expenses.length})</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {canImport && (
+            <button
+              onClick={handleImport}
+              disabled={isImporting}
+              title="Import from chat"
+              className="p-1 hover:bg-dark-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isImporting ? (
+                <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 text-gray-400" />
+              )}
+            </button>
+          )}
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            title="Add expense"
+            className="p-1 hover:bg-dark-700 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="pl-6 space-y-3">
+        {isAdding && (
+          <div className="space-y-2 bg-dark-700/50 p-2 rounded-lg">
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What was it for?"
+              className="w-full bg-dark-800 text-sm text-white rounded px-2 py-1 outline-none"
+            />
+            <div className="flex gap-2">
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                className="bg-dark-800 text-sm text-white rounded px-1 py-1 outline-none"
+              >
+                {Object.values(CURRENCIES).map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.code}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount"
+                inputMode="decimal"
+                className="flex-1 min-w-0 bg-dark-800 text-sm text-white rounded px-2 py-1 outline-none"
+              />
+            </div>
+            <select
+              value={paidBy}
+              onChange={(e) => setPaidBy(e.target.value)}
+              className="w-full bg-dark-800 text-sm text-white rounded px-1 py-1 outline-none"
+            >
+              {members.map((m) => (
+                <option key={m.id} value={m.id}>
+                  Paid by {m.id === memberId ? 'me' : m.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              className="w-full py-1 text-sm bg-journey-success/20 text-journey-success rounded hover:bg-journey-success/30 transition-colors"
+            >
+              Split equally
+            </button>
+          </div>
+        )}
+
+        {expenses.length === 0 && !isAdding && (
+          <p className="text-xs text-gray-500">Nothing spent yet.</p>
+        )}
+
+        {expenses.map((expense) => (
+          <div key={expense.id} className="group flex items-start justify-between text-xs">
+            <div>
+              <span className="text-white">{expense.description}</span>
+              <span className="text-gray-500 block">{memberName(expense.paidBy)} paid</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="text-gray-300">{formatMoney(expense.money)}</span>
+              <button
+                onClick={() => handleDelete(expense.id)}
+                className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-red-400 text-gray-500 transition-opacity"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {/* Settle up */}
+        {transfers.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-white/5">
+            <span className="text-xs text-gray-400">Settle up</span>
+            {transfers.map((t, i) => (
+              <div key={i} className="flex items-center gap-1 text-xs text-gray-300">
+                <span>{memberName(t.from)}</span>
+                <ArrowRight className="w-3 h-3 text-gray-500" />
+                <span>{memberName(t.to)}</span>
+                <span className="ml-auto text-white">{formatMoney(t.money, { compact: false })}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Actual vs planned */}
+        {spend && spend.planned > 0 && (
+          <div className="space-y-1 pt-2 border-t border-white/5">
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-400">Spent vs plan</span>
+              <span className={spend.actual > spend.planned ? 'text-red-400' : 'text-journey-success'}>
+                {formatMoney({ amount: spend.actual, currency: spend.currency })} /{' '}
+                {formatMoney({ amount: spend.planned, currency: spend.currency })}
+              </span>
+            </div>
+            <div className="h-1.5 bg-dark-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${spend.actual > spend.planned ? 'bg-red-400' : 'bg-journey-success'}`}
+                style={{ width: `${Math.min(100, (spend.actual / spend.planned) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,6 @@ import {
   Calendar,
   Wallet,
   MapPin,
-  CheckSquare,
   MessageSquare,
   Sparkles,
   Loader2,
@@ -21,6 +20,9 @@ import {
 import { useChatStore } from '../../stores/chat.store';
 import { forceExtraction, finalizeExtraction } from '../../services/chat';
 import { useItineraryStore } from '../../stores/itinerary.store';
+import type { MessageReference } from '../../services/ai/types';
+import { ChatExpensesPanel } from './ChatExpensesPanel';
+import { ChatTaskBoard } from './ChatTaskBoard';
 
 interface Props {
   groupId: string;
@@ -32,13 +34,18 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
   const navigate = useNavigate();
   const liveExtraction = useChatStore((state) => state.liveExtraction);
   const setExtractionSource = useItineraryStore((state) => state.setExtractionSource);
+  const groupName = useChatStore((state) => state.session?.groupName);
+  const highlightedSources = useChatStore((state) => state.highlightedSources);
+  const setHighlightedSources = useChatStore((state) => state.setHighlightedSources);
 
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isFinalizing, setIsFinalizing] = useState(false);
 
-  const extraction = liveExtraction?.extraction ?? null;
-  const confidence = liveExtraction?.confidence ?? 0;
   const isExtracting = liveExtraction?.isExtracting ?? false;
+  // While a run streams, show what has arrived so far instead of a bare spinner
+  const partialExtraction = isExtracting ? liveExtraction?.partialExtraction ?? null : null;
+  const extraction = partialExtraction ?? liveExtraction?.extraction ?? null;
+  const confidence = liveExtraction?.confidence ?? 0;
   const messagesSinceExtraction = liveExtraction?.messagesSinceExtraction ?? 0;
 
   // Compute hasExtraction and summary without creating new objects
@@ -57,6 +64,19 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
     };
   }, [extraction]);
 
+  // Clicking an item jumps to the messages it came from; clicking again clears
+  const showSources = (sources?: MessageReference[]) => {
+    if (!sources || sources.length === 0) return;
+    setHighlightedSources(sources === highlightedSources ? null : sources);
+  };
+
+  const sourceClass = (sources?: MessageReference[]): string => {
+    if (!sources || sources.length === 0) return '';
+    return sources === highlightedSources
+      ? 'cursor-pointer ring-1 ring-journey-dreamGold'
+      : 'cursor-pointer hover:ring-1 hover:ring-white/20';
+  };
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -73,8 +93,8 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
     try {
       const snapshot = await finalizeExtraction(groupId, memberId);
       if (snapshot) {
-        // Pass to itinerary store
-        setExtractionSource(extraction);
+        // Pass to itinerary store; the trip is saved to the group's itinerary document
+        setExtractionSource(extraction, { id: groupId, name: groupName ?? 'Group trip' });
 
         // Navigate to trip planner
         navigate('/itinerary');
@@ -120,7 +140,7 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {isExtracting ? (
+        {isExtracting && !partialExtraction ? (
           // Extracting state
           <div className="flex flex-col items-center justify-center py-8 space-y-3">
             <Loader2 className="w-8 h-8 text-accent-purple animate-spin" />
@@ -142,6 +162,13 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
         ) : (
           // Show extraction
           <>
+            {partialExtraction && (
+              <div className="flex items-center gap-2 text-xs text-accent-purple">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>Streaming trip details...</span>
+              </div>
+            )}
+
             {/* Confidence badge */}
             <div className="flex items-center justify-between text-sm">
               <span className="text-gray-400">Confidence</span>
@@ -166,7 +193,11 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
                 color="text-accent-cyan"
               >
                 {extraction.dates.map((date, i) => (
-                  <div key={i} className="text-sm text-white">
+                  <div
+                    key={i}
+                    onClick={() => showSources(date.sources)}
+                    className={`text-sm text-white rounded-lg ${sourceClass(date.sources)}`}
+                  >
                     {date.date}
                     {date.context && (
                       <span className="text-gray-400 text-xs block">
@@ -185,7 +216,10 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
                 title="Budget"
                 color="text-journey-dreamGold"
               >
-                <div className="text-sm text-white">
+                <div
+                  onClick={() => showSources(extraction.budget?.sources)}
+                  className={`text-sm text-white rounded-lg ${sourceClass(extraction.budget.sources)}`}
+                >
                   {extraction.budget.total || 'TBD'} {extraction.budget.currency}
                   {extraction.budget.perPerson && (
                     <span className="text-gray-400 text-xs"> / person</span>
@@ -196,7 +230,8 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
                     {extraction.budget.breakdown.map((item, i) => (
                       <div
                         key={i}
-                        className="flex justify-between text-xs text-gray-400"
+                        onClick={() => showSources(item.sources)}
+                        className={`flex justify-between text-xs text-gray-400 rounded ${sourceClass(item.sources)}`}
                       >
                         <span>{item.item}</span>
                         <span>{item.amount}</span>
@@ -220,11 +255,12 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
                     .map((place, i) => (
                       <span
                         key={i}
+                        onClick={() => showSources(place.sources)}
                         className={`px-2 py-1 rounded-full text-xs ${
                           place.status === 'confirmed'
                             ? 'bg-journey-success/20 text-journey-success'
                             : 'bg-gray-600/50 text-gray-300'
-                        }`}
+                        } ${sourceClass(place.sources)}`}
                       >
                         {place.name}
                         {place.votes > 1 && (
@@ -236,37 +272,6 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
               </ExtractedSection>
             )}
 
-            {/* Tasks */}
-            {extraction?.tasks && extraction.tasks.length > 0 && (
-              <ExtractedSection
-                icon={CheckSquare}
-                title={`Tasks (${summary.tasks})`}
-                color="text-accent-orange"
-              >
-                <div className="space-y-2">
-                  {extraction.tasks.map((task, i) => (
-                    <div key={i} className="flex items-start gap-2">
-                      <div
-                        className={`w-4 h-4 rounded border flex-shrink-0 mt-0.5 ${
-                          task.status === 'done'
-                            ? 'bg-journey-success border-journey-success'
-                            : 'border-gray-600'
-                        }`}
-                      />
-                      <div className="text-sm">
-                        <span className="text-white">{task.task}</span>
-                        {task.assignee && (
-                          <span className="text-gray-400 text-xs block">
-                            {task.assignee}
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </ExtractedSection>
-            )}
-
             {/* Decisions */}
             {extraction?.decisions && summary.decisions > 0 && (
               <ExtractedSection
@@ -280,7 +285,8 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
                     .map((decision, i) => (
                       <div
                         key={i}
-                        className="text-sm text-white bg-dark-700/50 p-2 rounded-lg"
+                        onClick={() => showSources(decision.sources)}
+                        className={`text-sm text-white bg-dark-700/50 p-2 rounded-lg ${sourceClass(decision.sources)}`}
                       >
                         {decision.decision}
                       </div>
@@ -290,6 +296,12 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
             )}
           </>
         )}
+
+        {/* Task board - extracted tasks land here and persist across runs */}
+        <ChatTaskBoard groupId={groupId} memberId={memberId} />
+
+        {/* Expenses - recorded spend, independent of what's been extracted */}
+        <ChatExpensesPanel groupId={groupId} memberId={memberId} />
       </div>
 
       {/* Finalize button */}
@@ -297,7 +309,7 @@ export function ChatExtractionPreview({ groupId, memberId, onClose }: Props) {
         <div className="p-4 border-t border-white/10">
           <button
             onClick={handleFinalize}
-            disabled={isFinalizing}
+            disabled={isFinalizing || isExtracting}
             className="w-full py-3 bg-gradient-to-r from-accent-purple to-accent-cyan text-white font-semibold rounded-xl hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
           >
             {isFinalizing ? (
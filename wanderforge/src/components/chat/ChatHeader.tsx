@@ -1,13 +1,25 @@
 // ============================================================
 // CHAT HEADER
-// Group name, members, and actions
+// Group name, members, actions and the pre-trip open-question digest
 // ============================================================
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Users, Copy, Check, Share2, MoreVertical, LogOut, Sparkles } from 'lucide-react';
+import {
+  ArrowLeft,
+  Users,
+  Copy,
+  Check,
+  Share2,
+  MoreVertical,
+  LogOut,
+  Sparkles,
+  HelpCircle,
+  ChevronDown,
+} from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useChatStore } from '../../stores/chat.store';
+import { pickTripDateRange, questionDigest } from '../../services/ai/heuristics';
 
 interface Props {
   onToggleExtraction: () => void;
@@ -24,9 +36,20 @@ export function ChatHeader({ onToggleExtraction, showExtractionPanel }: Props) {
   // Use primitive selectors - NOT array/object selectors
   const memberCount = useChatStore((state) => state.members.length);
   const onlineCount = useChatStore((state) => state.members.filter((m) => m.isOnline).length);
+  const extraction = useChatStore((state) => state.liveExtraction?.extraction);
+  const highlightedSources = useChatStore((state) => state.highlightedSources);
+  const setHighlightedSources = useChatStore((state) => state.setHighlightedSources);
 
   const [showMenu, setShowMenu] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [showQuestions, setShowQuestions] = useState(false);
+
+  // Unanswered questions, raised once the trip is close
+  const digest = useMemo(() => {
+    if (!extraction) return null;
+    const trip = pickTripDateRange(extraction.dates);
+    return questionDigest(extraction.openQuestions, trip?.startDate ?? null);
+  }, [extraction]);
 
   if (!session) return null;
 
@@ -186,6 +209,55 @@ export function ChatHeader({ onToggleExtraction, showExtractionPanel }: Props) {
           </div>
         </div>
       </div>
+
+      {/* Open-question digest */}
+      {digest && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowQuestions(!showQuestions)}
+            className="w-full flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 border border-amber-500/20 rounded-lg text-sm text-amber-300 hover:bg-amber-500/15 transition-colors"
+          >
+            <HelpCircle className="w-4 h-4" />
+            <span>
+              {digest.questions.length} open question{digest.questions.length === 1 ? '' : 's'} ·{' '}
+              {digest.daysUntilTrip === 0 ? 'trip starts today' : `trip in ${digest.daysUntilTrip} day${digest.daysUntilTrip === 1 ? '' : 's'}`}
+            </span>
+            <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${showQuestions ? 'rotate-180' : ''}`} />
+          </button>
+
+          <AnimatePresence>
+            {showQuestions && (
+              <motion.ul
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden mt-2 space-y-1"
+              >
+                {digest.questions.map((q) => (
+                  <li
+                    key={q.question}
+                    onClick={() => q.sources?.length && setHighlightedSources(q.sources === highlightedSources ? null : q.sources)}
+                    className={`px-3 py-1.5 bg-dark-700/50 rounded-lg text-xs ${q.sources?.length ? 'cursor-pointer' : ''} ${
+                      q.sources && q.sources === highlightedSources ? 'ring-1 ring-journey-dreamGold' : ''
+                    }`}
+                  >
+                    <p className="text-white">{q.question}</p>
+                    <p className="text-gray-500 mt-0.5">
+                      {q.askedBy && `Asked by ${q.askedBy}`}
+                      {q.status === 'conditional' && q.answer && (
+                        <span className="text-amber-400">
+                          {q.askedBy && ' · '}
+                          {q.answer.sender ?? 'Someone'}: “{q.answer.text}”
+                        </span>
+                      )}
+                    </p>
+                  </li>
+                ))}
+              </motion.ul>
+            )}
+          </AnimatePresence>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,17 +1,19 @@
 // ============================================================
 // CHAT INPUT
-// Text input with image upload and reply preview
+// Text input with image upload, polls and reply preview
 // ============================================================
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Image, X, Loader2 } from 'lucide-react';
-import type { ChatMessage } from '../../services/chat/types';
+import { Send, Image, X, Loader2, BarChart3 } from 'lucide-react';
+import type { ChatMessage, CreatePollInput } from '../../services/chat/types';
 import { sendTypingIndicator, isValidImageFile, compressImage } from '../../services/chat';
+import { ChatPollComposer } from './ChatPollComposer';
 
 interface Props {
   onSend: (content: string, imageFile?: File) => void;
   onImageSelect: (file: File) => Promise<void>;
+  onCreatePoll?: (input: CreatePollInput) => Promise<boolean>;
   replyingTo: ChatMessage | null;
   onCancelReply: () => void;
   disabled?: boolean;
@@ -20,11 +22,13 @@ interface Props {
 export function ChatInput({
   onSend,
   onImageSelect,
+  onCreatePoll,
   replyingTo,
   onCancelReply,
   disabled = false,
 }: Props) {
   const [message, setMessage] = useState('');
+  const [isComposingPoll, setIsComposingPoll] = useState(false);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -172,6 +176,20 @@ export function ChatInput({
         )}
       </AnimatePresence>
 
+      {/* Poll composer */}
+      <AnimatePresence>
+        {isComposingPoll && onCreatePoll && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="mb-3 overflow-hidden"
+          >
+            <ChatPollComposer onCreate={onCreatePoll} onCancel={() => setIsComposingPoll(false)} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Image preview */}
       <AnimatePresence>
         {imagePreview && (
@@ -211,6 +229,18 @@ export function ChatInput({
           >
             <Image className="w-5 h-5 text-gray-400 group-hover:text-accent-cyan transition-colors" />
           </motion.button>
+          {onCreatePoll && (
+            <motion.button
+              onClick={() => setIsComposingPoll(!isComposingPoll)}
+              disabled={disabled}
+              title="Create poll"
+              className="p-3 bg-dark-700/50 hover:bg-dark-600 rounded-xl transition-all disabled:opacity-50 group"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <BarChart3 className="w-5 h-5 text-gray-400 group-hover:text-accent-cyan transition-colors" />
+            </motion.button>
+          )}
         </div>
         <input
           ref={fileInputRef}
@@ -3,14 +3,16 @@
 // Single message bubble with reactions and reply support
 // ============================================================
 
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
 import { motion } from 'framer-motion';
 import { Reply, MoreHorizontal, Smile, Check, CheckCheck } from 'lucide-react';
 import type { ChatMessage as ChatMessageType } from '../../services/chat/types';
+import type { SourceSpan } from '../../services/ai/types';
 import { ChatReactionPicker } from './ChatReactionPicker';
 import { ChatReactionDisplay } from './ChatReactionDisplay';
 import { ChatImagePreview } from './ChatImagePreview';
 import { ChatRecommendationCard } from './ChatRecommendationCard';
+import { ChatPollCard } from './ChatPollCard';
 import { useChatStore } from '../../stores/chat.store';
 
 interface Props {
@@ -18,9 +20,43 @@ interface Props {
   onReply: (message: ChatMessageType) => void;
   onReact: (messageId: string, emoji: string) => void;
   showAvatar?: boolean;
+  isHighlighted?: boolean;       // Message is a source of the selected extracted item
+  highlightSpans?: SourceSpan[]; // Character ranges to mark inside the content
 }
 
-export function ChatMessage({ message, onReply, onReact, showAvatar = true }: Props) {
+/**
+ * Wrap provenance spans of the content in <mark>
+ */
+function renderHighlightedContent(content: string, spans: SourceSpan[] = []): ReactNode {
+  const valid = spans
+    .filter((s) => s.start >= 0 && s.end <= content.length && s.start < s.end)
+    .sort((a, b) => a.start - b.start);
+  if (valid.length === 0) return content;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  valid.forEach((span, i) => {
+    if (span.start < cursor) return;
+    if (span.start > cursor) parts.push(content.slice(cursor, span.start));
+    parts.push(
+      <mark key={i} className="bg-journey-dreamGold/40 text-white rounded px-0.5">
+        {content.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  if (cursor < content.length) parts.push(content.slice(cursor));
+  return parts;
+}
+
+export function ChatMessage({
+  message,
+  onReply,
+  onReact,
+  showAvatar = true,
+  isHighlighted = false,
+  highlightSpans,
+}: Props) {
   const [showReactionPicker, setShowReactionPicker] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const addRecommendedPlace = useChatStore((state) => state.addRecommendedPlace);
@@ -102,7 +138,7 @@ export function ChatMessage({ message, onReply, onReact, showAvatar = true }: Pr
             isOwn
               ? 'bg-gradient-to-r from-accent-cyan to-accent-purple text-white rounded-br-md'
               : 'bg-dark-700 text-white rounded-bl-md'
-          }`}
+          } ${isHighlighted ? 'ring-2 ring-journey-dreamGold' : ''}`}
         >
           {/* Image */}
           {message.type === 'image' && message.mediaUrl && (
@@ -112,8 +148,14 @@ export function ChatMessage({ message, onReply, onReact, showAvatar = true }: Pr
             />
           )}
 
-          {/* Text content */}
-          <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+          {/* Poll, or text content */}
+          {message.type === 'poll' && message.poll ? (
+            <ChatPollCard poll={message.poll} />
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {isHighlighted ? renderHighlightedContent(message.content, highlightSpans) : message.content}
+            </p>
+          )}
 
           {/* Time and status */}
           <div
@@ -9,6 +9,7 @@ import { Loader2, MessageSquare, Sparkles } from 'lucide-react';
 import { ChatMessage } from './ChatMessage';
 import { ChatTypingIndicator } from './ChatTypingIndicator';
 import type { ChatMessage as ChatMessageType } from '../../services/chat/types';
+import type { MessageReference } from '../../services/ai/types';
 import { useChatStore } from '../../stores/chat.store';
 
 interface Props {
@@ -16,9 +17,18 @@ interface Props {
   onReply: (message: ChatMessageType) => void;
   onReact: (messageId: string, emoji: string) => void;
   onLoadMore: () => void;
+  highlightedSources?: MessageReference[] | null; // Scrolls to and marks these messages
+  followNewMessages?: boolean; // Auto-scroll to the bottom as messages arrive
 }
 
-export function ChatMessageList({ messages, onReply, onReact, onLoadMore }: Props) {
+export function ChatMessageList({
+  messages,
+  onReply,
+  onReact,
+  onLoadMore,
+  highlightedSources,
+  followNewMessages = true,
+}: Props) {
   // Select primitives directly to avoid store subscription issues
   const isLoadingMessages = useChatStore((state) => state.isLoadingMessages);
   const hasMoreMessages = useChatStore((state) => state.hasMoreMessages);
@@ -28,10 +38,26 @@ export function ChatMessageList({ messages, onReply, onReact, onLoadMore }: Prop
 
   // Scroll to bottom on new messages
   useEffect(() => {
-    if (isAtBottomRef.current && bottomRef.current) {
+    if (followNewMessages && isAtBottomRef.current && bottomRef.current) {
       bottomRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages.length]);
+  }, [messages.length, followNewMessages]);
+
+  // Jump to the first source message of the selected extracted item
+  useEffect(() => {
+    const first = highlightedSources?.[0];
+    if (!first || !containerRef.current) return;
+
+    const target = containerRef.current.querySelector<HTMLElement>(
+      `[data-message-id="${CSS.escape(first.messageId)}"]`
+    );
+    if (target) {
+      isAtBottomRef.current = false;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      console.log('[ChatMessageList] Source message not loaded:', first.messageId);
+    }
+  }, [highlightedSources]);
 
   // Check if user is at bottom
   const handleScroll = useCallback(() => {
@@ -63,6 +89,10 @@ export function ChatMessageList({ messages, onReply, onReact, onLoadMore }: Prop
     return false;
   };
 
+  const highlightMap = new Map(
+    (highlightedSources || []).map((ref) => [ref.messageId, ref.spans])
+  );
+
   // Group messages by date
   const getDateLabel = (date: Date): string | null => {
     const today = new Date();
@@ -132,7 +162,7 @@ export function ChatMessageList({ messages, onReply, onReact, onLoadMore }: Prop
       {/* Messages */}
       <AnimatePresence mode="popLayout">
         {messages.map((message, index) => (
-          <div key={message.id}>
+          <div key={message.id} data-message-id={message.id}>
             {/* Date separator */}
             {shouldShowDate(index) && (
               <motion.div
@@ -153,6 +183,8 @@ export function ChatMessageList({ messages, onReply, onReact, onLoadMore }: Prop
               onReply={onReply}
               onReact={onReact}
               showAvatar={shouldShowAvatar(index)}
+              isHighlighted={highlightMap.has(message.id)}
+              highlightSpans={highlightMap.get(message.id)}
             />
           </div>
         ))}
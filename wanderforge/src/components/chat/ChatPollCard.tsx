@@ -0,0 +1,153 @@
+// ============================================================
+// CHAT POLL CARD
+// Options, live results and closing for an in-chat poll
+// ============================================================
+
+import { useState } from 'react';
+import { BarChart3, Check, Clock, Lock, EyeOff } from 'lucide-react';
+import type { ChatPoll } from '../../services/chat/types';
+import { votePoll, closePoll, getPoll, refreshPollDecisions } from '../../services/chat';
+import { useChatStore } from '../../stores/chat.store';
+
+interface Props {
+  poll: ChatPoll;
+}
+
+const KIND_LABELS: Record<ChatPoll['kind'], string> = {
+  general: 'Poll',
+  place: 'Place poll',
+  dates: 'Dates poll',
+  budget: 'Budget poll',
+};
+
+function formatDeadline(deadline: Date): string {
+  return deadline.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function ChatPollCard({ poll }: Props) {
+  const session = useChatStore((state) => state.session);
+  const members = useChatStore((state) => state.members);
+  const updateMessage = useChatStore((state) => state.updateMessage);
+  const [isBusy, setIsBusy] = useState(false);
+  const [votedElsewhere, setVotedElsewhere] = useState(false);
+
+  const isClosed = poll.isClosed || (poll.deadline !== null && poll.deadline.getTime() <= Date.now());
+  const canClose =
+    !isClosed && !!session && (poll.createdBy === session.myMemberId || session.isAdmin);
+  const topVotes = Math.max(0, ...poll.options.map((o) => o.votes));
+
+  const memberName = (id: string) => members.find((m) => m.id === id)?.name ?? 'Someone';
+
+  // Don't wait for the realtime echo to show our own vote
+  const reload = async () => {
+    if (!session) return;
+    const updated = await getPoll(poll.id, session.myMemberId);
+    if (updated) updateMessage(poll.messageId, { poll: updated });
+  };
+
+  const handleVote = async (optionId: string) => {
+    if (!session || isClosed || isBusy) return;
+    setIsBusy(true);
+    try {
+      const outcome = await votePoll(poll.id, session.myMemberId, optionId);
+      if (outcome === 'voted-elsewhere') {
+        setVotedElsewhere(true);
+      } else if (outcome !== 'failed') {
+        await reload();
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!session || isBusy) return;
+    setIsBusy(true);
+    try {
+      if (await closePoll(poll.id, session.myMemberId, session.isAdmin)) {
+        await reload();
+        await refreshPollDecisions(session.groupId);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-w-[220px] space-y-2">
+      <div className="flex items-center gap-1.5 text-[11px] text-white/70">
+        <BarChart3 className="w-3.5 h-3.5" />
+        <span>{KIND_LABELS[poll.kind]}</span>
+        {poll.multiChoice && <span>• pick any</span>}
+        {poll.anonymous && <EyeOff className="w-3 h-3" />}
+      </div>
+
+      <p className="text-sm font-medium">{poll.question}</p>
+
+      <div className="space-y-1.5">
+        {poll.options.map((option) => {
+          const picked = poll.myVotes.includes(option.id);
+          const share = poll.totalVoters > 0 ? (option.votes / poll.totalVoters) * 100 : 0;
+          const isWinner = isClosed && option.votes > 0 && option.votes === topVotes;
+
+          return (
+            <button
+              key={option.id}
+              onClick={() => handleVote(option.id)}
+              disabled={isClosed || isBusy}
+              title={option.voterIds.map(memberName).join(', ')}
+              className={`relative w-full text-left rounded-lg overflow-hidden border transition-colors ${
+                picked ? 'border-white/60' : 'border-white/15 hover:border-white/30'
+              } disabled:cursor-default`}
+            >
+              <div
+                className={`absolute inset-y-0 left-0 ${isWinner ? 'bg-journey-success/40' : 'bg-white/15'}`}
+                style={{ width: `${share}%` }}
+              />
+              <div className="relative flex items-center justify-between gap-2 px-2.5 py-1.5 text-xs">
+                <span className="flex items-center gap-1.5">
+                  {picked && <Check className="w-3 h-3" />}
+                  {option.label}
+                </span>
+                <span className="text-white/70">{option.votes}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-[11px] text-white/60">
+        <span>
+          {poll.totalVoters} {poll.totalVoters === 1 ? 'vote' : 'votes'}
+          {votedElsewhere && ' • you already voted on another device'}
+        </span>
+        {isClosed ? (
+          <span className="flex items-center gap-1">
+            <Lock className="w-3 h-3" />
+            Closed
+          </span>
+        ) : poll.deadline ? (
+          <span className="flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            Until {formatDeadline(poll.deadline)}
+          </span>
+        ) : null}
+      </div>
+
+      {canClose && (
+        <button
+          onClick={handleClose}
+          disabled={isBusy}
+          className="w-full py-1 text-xs bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Close poll
+        </button>
+      )}
+    </div>
+  );
+}
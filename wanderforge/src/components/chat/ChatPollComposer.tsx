@@ -0,0 +1,153 @@
+// ============================================================
+// CHAT POLL COMPOSER
+// Question, options and settings for a new poll
+// ============================================================
+
+import { useState } from 'react';
+import { Plus, X, Loader2 } from 'lucide-react';
+import type { CreatePollInput, PollKind } from '../../services/chat/types';
+import { validatePoll } from '../../services/chat';
+
+interface Props {
+  onCreate: (input: CreatePollInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const MAX_OPTIONS = 6;
+
+const KIND_OPTIONS: Array<{ value: PollKind; label: string }> = [
+  { value: 'general', label: 'General' },
+  { value: 'place', label: 'Where to go' },
+  { value: 'dates', label: 'When to go' },
+  { value: 'budget', label: 'Budget' },
+];
+
+export function ChatPollComposer({ onCreate, onCancel }: Props) {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [kind, setKind] = useState<PollKind>('general');
+  const [multiChoice, setMultiChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [deadline, setDeadline] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateOption = (index: number, value: string) => {
+    setOptions(options.map((o, i) => (i === index ? value : o)));
+  };
+
+  const handleSubmit = async () => {
+    const input: CreatePollInput = {
+      question,
+      options,
+      kind,
+      multiChoice,
+      anonymous,
+      deadline: deadline ? new Date(deadline) : null,
+    };
+
+    const problems = validatePoll(input);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      if (await onCreate(input)) {
+        onCancel();
+      } else {
+        setErrors(['Could not post the poll. Try again.']);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 bg-dark-700/50 rounded-xl border border-white/10">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-accent-cyan font-semibold">New poll</span>
+        <button onClick={onCancel} className="p-1 hover:bg-white/10 rounded-lg transition-colors">
+          <X className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+
+      <input
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        placeholder="Ask the group..."
+        className="w-full bg-dark-800 text-sm text-white rounded-lg px-3 py-2 outline-none"
+      />
+
+      {options.map((option, i) => (
+        <div key={i} className="flex gap-2">
+          <input
+            value={option}
+            onChange={(e) => updateOption(i, e.target.value)}
+            placeholder={`Option ${i + 1}`}
+            className="flex-1 min-w-0 bg-dark-800 text-sm text-white rounded-lg px-3 py-1.5 outline-none"
+          />
+          {options.length > 2 && (
+            <button
+              onClick={() => setOptions(options.filter((_, j) => j !== i))}
+              className="p-1 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <X className="w-3 h-3 text-gray-500" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {options.length < MAX_OPTIONS && (
+        <button
+          onClick={() => setOptions([...options, ''])}
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add option
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as PollKind)}
+          className="bg-dark-800 text-white rounded px-1 py-1 outline-none"
+        >
+          {KIND_OPTIONS.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={multiChoice} onChange={(e) => setMultiChoice(e.target.checked)} />
+          Multiple choice
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={anonymous} onChange={(e) => setAnonymous(e.target.checked)} />
+          Anonymous
+        </label>
+        <label className="flex items-center gap-1">
+          Closes
+          <input
+            type="datetime-local"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="bg-dark-800 text-white rounded px-1 py-0.5 outline-none"
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && <p className="text-xs text-red-400">{errors[0]}</p>}
+
+      <button
+        onClick={handleSubmit}
+        disabled={isSubmitting}
+        className="w-full py-1.5 text-sm bg-gradient-to-r from-accent-cyan to-accent-purple text-white rounded-lg disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        Post poll
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+// ============================================================
+// CHAT TASK BOARD
+// Kanban of the group's to-dos: claim, move along, finish
+// ============================================================
+
+import { useEffect, useState } from 'react';
+import { CheckSquare, Plus, Trash2, ChevronLeft, ChevronRight, Hand, Clock } from 'lucide-react';
+import { useChatStore } from '../../stores/chat.store';
+import { getTasks, addTask, moveTask, claimTask, deleteTask } from '../../services/chat';
+import type { ChatTask, ChatTaskStatus } from '../../services/chat/types';
+
+interface Props {
+  groupId: string;
+  memberId: string;
+}
+
+const COLUMNS: Array<{ status: ChatTaskStatus; label: string }> = [
+  { status: 'pending', label: 'To do' },
+  { status: 'in-progress', label: 'In progress' },
+  { status: 'done', label: 'Done' },
+];
+
+export function ChatTaskBoard({ groupId, memberId }: Props) {
+  const tasks = useChatStore((state) => state.tasks);
+  const members = useChatStore((state) => state.members);
+  const setTasks = useChatStore((state) => state.setTasks);
+  const upsertTask = useChatStore((state) => state.upsertTask);
+  const removeTask = useChatStore((state) => state.removeTask);
+  const highlightedSources = useChatStore((state) => state.highlightedSources);
+  const setHighlightedSources = useChatStore((state) => state.setHighlightedSources);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  useEffect(() => {
+    getTasks(groupId).then(setTasks);
+  }, [groupId, setTasks]);
+
+  const today = new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD, local
+
+  const assigneeLabel = (task: ChatTask): string | null => {
+    if (task.assigneeId === memberId) return 'Me';
+    return members.find((m) => m.id === task.assigneeId)?.name ?? task.assigneeName;
+  };
+
+  const handleAdd = async () => {
+    if (!title.trim()) return;
+    const task = await addTask(groupId, { title, dueDate: dueDate || null }, memberId);
+    if (task) {
+      upsertTask(task);
+      setTitle('');
+      setDueDate('');
+      setIsAdding(false);
+    }
+  };
+
+  const handleMove = async (task: ChatTask, direction: -1 | 1) => {
+    const index = COLUMNS.findIndex((c) => c.status === task.status);
+    const target = COLUMNS[index + direction];
+    if (!target) return;
+    const updated = await moveTask(task.id, target.status, memberId);
+    if (updated) upsertTask(updated);
+  };
+
+  const handleClaim = async (task: ChatTask) => {
+    const updated = await claimTask(task, memberId);
+    if (updated) upsertTask(updated);
+  };
+
+  const handleDelete = async (taskId: string) => {
+    if (await deleteTask(taskId)) {
+      removeTask(taskId);
+    }
+  };
+
+  const showSources = (task: ChatTask) => {
+    if (task.sources.length === 0) return;
+    setHighlightedSources(task.sources === highlightedSources ? null : task.sources);
+  };
+
+  const openCount = tasks.filter((t) => t.status !== 'done').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CheckSquare className="w-4 h-4 text-accent-orange" />
+          <span className="text-sm font-medium text-gray-300">Tasks ({openCount} open)</span>
+        </div>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          title="Add task"
+          className="p-1 hover:bg-dark-700 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+
+      <div className="pl-6 space-y-3">
+        {isAdding && (
+          <div className="space-y-2 bg-dark-700/50 p-2 rounded-lg">
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="What needs doing?"
+              className="w-full bg-dark-800 text-sm text-white rounded px-2 py-1 outline-none"
+            />
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="flex-1 min-w-0 bg-dark-800 text-sm text-white rounded px-2 py-1 outline-none"
+              />
+              <button
+                onClick={handleAdd}
+                className="px-3 py-1 text-sm bg-accent-orange/20 text-accent-orange rounded hover:bg-accent-orange/30 transition-colors"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+
+        {tasks.length === 0 && !isAdding && (
+          <p className="text-xs text-gray-500">
+            No tasks yet. Type <span className="font-mono text-gray-400">/task</span> in the chat to add one.
+          </p>
+        )}
+
+        {tasks.length > 0 &&
+          COLUMNS.map((column, columnIndex) => {
+            const columnTasks = tasks.filter((t) => t.status === column.status);
+            return (
+              <div key={column.status} className="space-y-1">
+                <span className="text-xs text-gray-400">
+                  {column.label} ({columnTasks.length})
+                </span>
+                {columnTasks.map((task) => {
+                  const assignee = assigneeLabel(task);
+                  const isOverdue = task.status !== 'done' && task.dueDate !== null && task.dueDate < today;
+                  return (
+                    <div
+                      key={task.id}
+                      className={`group bg-dark-700/50 rounded-lg p-2 text-xs ${
+                        task.sources.length > 0 ? 'cursor-pointer' : ''
+                      } ${task.sources === highlightedSources ? 'ring-1 ring-journey-dreamGold' : ''}`}
+                      onClick={() => showSources(task)}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span className={task.status === 'done' ? 'text-gray-500 line-through' : 'text-white'}>
+                          {task.title}
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(task.id);
+                          }}
+                          className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-red-400 text-gray-500 transition-opacity"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <div className="flex items-center gap-2 mt-1 text-gray-400">
+                        {assignee ? (
+                          <span>{assignee}</span>
+                        ) : (
+                          task.status !== 'done' && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleClaim(task);
+                              }}
+                              className="flex items-center gap-1 text-accent-orange hover:underline"
+                            >
+                              <Hand className="w-3 h-3" />
+                              Claim
+                            </button>
+                          )
+                        )}
+                        {task.dueDate && (
+                          <span className={`flex items-center gap-0.5 ${isOverdue ? 'text-red-400' : ''}`}>
+                            <Clock className="w-3 h-3" />
+                            {task.dueDate}
+                          </span>
+                        )}
+                        <div className="ml-auto flex items-center">
+                          {columnIndex > 0 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleMove(task, -1);
+                              }}
+                              className="p-0.5 hover:text-white transition-colors"
+                            >
+                              <ChevronLeft className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                          {columnIndex < COLUMNS.length - 1 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleMove(task, 1);
+                              }}
+                              className="p-0.5 hover:text-white transition-colors"
+                            >
+                              <ChevronRight className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
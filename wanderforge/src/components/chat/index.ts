@@ -12,4 +12,8 @@ export { ChatReactionPicker } from './ChatReactionPicker';
 export { ChatReactionDisplay } from './ChatReactionDisplay';
 export { ChatImagePreview } from './ChatImagePreview';
 export { ChatExtractionPreview } from './ChatExtractionPreview';
+export { ChatExpensesPanel } from './ChatExpensesPanel';
+export { ChatTaskBoard } from './ChatTaskBoard';
+export { ChatPollCard } from './ChatPollCard';
+export { ChatPollComposer } from './ChatPollComposer';
 export { ChatRecommendationCard, QuickTipCard } from './ChatRecommendationCard';
@@ -0,0 +1,113 @@
+// Provider Usage Panel - which LLM providers are burning quota (from the usage ledger)
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, AlertTriangle, Cpu, RotateCcw } from 'lucide-react';
+import { LLMProviderManager } from '../../services/ai/providers';
+import { clearUsageLedger } from '../../services/ai/routing';
+import type { LLMProviderName, ProviderHealth } from '../../services/ai/types';
+
+const llmManager = new LLMProviderManager();
+
+const PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  gemini: 'Gemini',
+  openrouter: 'OpenRouter',
+  groq: 'Groq Llama',
+  local: 'Local Model',
+  offline: 'Offline Heuristics',
+};
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function failureRate(health: ProviderHealth): number {
+  return health.usage.calls > 0 ? Math.round((health.usage.failures / health.usage.calls) * 100) : 0;
+}
+
+export default function ProviderUsagePanel() {
+  const [health, setHealth] = useState<ProviderHealth[]>(() => llmManager.getProviderHealth());
+
+  // Biggest spenders today first; offline costs nothing so it sits at the bottom
+  const sorted = [...health].sort((a, b) =>
+    b.usage.tokensToday - a.usage.tokensToday || b.usage.totalTokens - a.usage.totalTokens
+  );
+  const maxTokensToday = Math.max(1, ...health.map(h => h.usage.tokensToday));
+  const totalCalls = health.reduce((sum, h) => sum + h.usage.calls, 0);
+
+  const handleReset = () => {
+    clearUsageLedger();
+    setHealth(llmManager.getProviderHealth());
+  };
+
+  return (
+    <div className="bg-dark-800 border border-dark-600 rounded-3xl p-6">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-journey-solution/20 flex items-center justify-center">
+            <Activity className="w-5 h-5 text-journey-solution" />
+          </div>
+          <div>
+            <h3 className="text-white font-semibold">AI Provider Usage</h3>
+            <p className="text-gray-500 text-xs">Tokens today, across all features on this device</p>
+          </div>
+        </div>
+        {totalCalls > 0 && (
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset
+          </button>
+        )}
+      </div>
+
+      {totalCalls === 0 ? (
+        <p className="text-gray-500 text-sm">No AI calls recorded yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {sorted.map((h, index) => {
+            const rate = failureRate(h);
+            return (
+              <div key={h.name}>
+                <div className="flex items-center justify-between text-sm mb-1.5">
+                  <div className="flex items-center gap-2">
+                    <Cpu className="w-4 h-4 text-gray-400" />
+                    <span className="text-white font-medium">{PROVIDER_LABELS[h.name]}</span>
+                    {h.circuit !== 'closed' && (
+                      <span className="flex items-center gap-1 text-xs text-red-400" title={h.usage.lastError}>
+                        <AlertTriangle className="w-3 h-3" />
+                        {h.circuit === 'open' && h.retryAt
+                          ? `Paused until ${h.retryAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                          : 'Recovering'}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-gray-300">
+                    {formatTokens(h.usage.tokensToday)} <span className="text-gray-500">tokens today</span>
+                  </span>
+                </div>
+                <div className="h-2 bg-dark-700 rounded-full overflow-hidden">
+                  <motion.div
+                    className="h-full bg-gradient-to-r from-journey-solution to-journey-memory rounded-full"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(h.usage.tokensToday / maxTokensToday) * 100}%` }}
+                    transition={{ duration: 0.6, delay: index * 0.05 }}
+                  />
+                </div>
+                <div className="flex gap-4 mt-1.5 text-xs text-gray-500">
+                  <span>{h.usage.callsToday} calls today</span>
+                  <span>{formatTokens(h.usage.totalTokens)} total</span>
+                  <span>~{h.usage.avgLatencyMs}ms avg</span>
+                  {rate > 0 && <span className={rate >= 25 ? 'text-red-400' : 'text-amber-400'}>{rate}% failed</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+// Dashboard Components - Main Export
+
+export { default as ProviderUsagePanel } from './ProviderUsagePanel';
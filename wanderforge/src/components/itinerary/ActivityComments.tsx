@@ -0,0 +1,67 @@
+// Group comments on one activity of a shared itinerary
+import { useState } from 'react';
+import { MessageSquare, Send, X } from 'lucide-react';
+import { commentKey } from '../../services/itinerary/itinerary-sync';
+import { useItineraryCollabStore } from '../../stores/itinerary-collab.store';
+
+interface ActivityCommentsProps {
+  placeName: string;
+}
+
+export function ActivityComments({ placeName }: ActivityCommentsProps) {
+  const key = commentKey(placeName);
+  const allComments = useItineraryCollabStore((state) => state.comments);
+  const addComment = useItineraryCollabStore((state) => state.addComment);
+  const deleteComment = useItineraryCollabStore((state) => state.deleteComment);
+  const [draft, setDraft] = useState('');
+
+  const comments = allComments.filter((c) => c.place_key === key);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    await addComment(key, draft);
+    setDraft('');
+  };
+
+  return (
+    // Clicks here shouldn't collapse the activity card
+    <div className="mt-4 pt-3 border-t border-dark-700" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2 mb-2 text-xs text-dark-400">
+        <MessageSquare className="w-3 h-3" />
+        {comments.length === 0 ? 'No comments yet' : `${comments.length} comment${comments.length === 1 ? '' : 's'}`}
+      </div>
+      <ul className="space-y-2 mb-2">
+        {comments.map((c) => (
+          <li key={c.id} className="group flex items-start gap-2 text-sm">
+            <span className="text-white font-medium flex-shrink-0">{c.member_name}</span>
+            <span className="text-dark-300 flex-1">{c.content}</span>
+            <button
+              onClick={() => deleteComment(c.id)}
+              className="opacity-0 group-hover:opacity-100 text-dark-500 hover:text-red-400"
+              aria-label="Delete comment"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Comment for the group..."
+          className="flex-1 px-3 py-1.5 text-sm bg-dark-800 border border-dark-600 rounded-lg text-white placeholder-dark-500 focus:outline-none focus:border-primary-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="p-1.5 rounded-lg bg-primary-500/20 text-primary-400 hover:bg-primary-500/30 disabled:opacity-40"
+          aria-label="Post comment"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
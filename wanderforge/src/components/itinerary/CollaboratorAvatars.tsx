@@ -0,0 +1,40 @@
+// Avatars of group members looking at a day or activity
+import type { CollaboratorCursor } from '../../services/itinerary/types';
+
+// Same member always gets the same colour
+const AVATAR_COLORS = ['bg-pink-500', 'bg-sky-500', 'bg-amber-500', 'bg-emerald-500', 'bg-violet-500', 'bg-orange-500'];
+
+function avatarColor(memberId: string): string {
+  let hash = 0;
+  for (const ch of memberId) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+interface CollaboratorAvatarsProps {
+  collaborators: CollaboratorCursor[];
+  max?: number;
+}
+
+export function CollaboratorAvatars({ collaborators, max = 3 }: CollaboratorAvatarsProps) {
+  if (collaborators.length === 0) return null;
+
+  const shown = collaborators.slice(0, max);
+  return (
+    <div className="flex -space-x-2" aria-label={`${collaborators.map(c => c.name).join(', ')} viewing`}>
+      {shown.map((c) => (
+        <span
+          key={c.memberId}
+          className={`w-6 h-6 rounded-full ring-2 ring-dark-900 flex items-center justify-center text-[10px] font-semibold text-white ${avatarColor(c.memberId)}`}
+          title={c.name}
+        >
+          {c.avatar}
+        </span>
+      ))}
+      {collaborators.length > max && (
+        <span className="w-6 h-6 rounded-full ring-2 ring-dark-900 bg-dark-600 flex items-center justify-center text-[10px] text-white">
+          +{collaborators.length - max}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// A day's weather (forecast or seasonal average) and what it means for the plan
+import { AlertTriangle, Cloud, CloudFog, CloudLightning, CloudRain, Snowflake, Sun } from 'lucide-react';
+import type { DayItinerary, WeatherCondition } from '../../services/itinerary/types';
+
+const CONDITION_ICONS: Record<WeatherCondition, typeof Sun> = {
+  clear: Sun,
+  cloudy: Cloud,
+  fog: CloudFog,
+  rain: CloudRain,
+  storm: CloudLightning,
+  snow: Snowflake,
+};
+
+interface DayWeatherSummaryProps {
+  day: DayItinerary;
+  className?: string;
+}
+
+export function DayWeatherSummary({ day, className = '' }: DayWeatherSummaryProps) {
+  const { weather, weatherWarnings = [] } = day;
+  if (!weather) return null;
+
+  const Icon = CONDITION_ICONS[weather.condition];
+  const label = weather.source === 'forecast' ? 'Forecast' : 'Typical';
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <span
+        className="inline-flex items-center gap-1 text-xs text-dark-300"
+        title={`${label}: ${Math.round(weather.rainChance * 100)}% chance of rain`}
+      >
+        <Icon className="w-3.5 h-3.5" />
+        {weather.tempMin}–{weather.tempMax}°C
+        <span className="text-dark-500">· {label}</span>
+      </span>
+      {weatherWarnings.map((warning) => (
+        <p key={warning} className="flex items-start gap-1.5 text-xs text-amber-400">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { MapContainer, TileLayer, Marker, Polyline, Popup, useMap } from 'react-
 import L from 'leaflet';
 import type { GeneratedItinerary, DayItinerary, Coords } from '../../services/itinerary/types';
 import { getRouteBounds } from '../../services/itinerary/route-optimizer';
+import { dayTrack } from '../../services/itinerary/travel-routing';
 import { getFatigueLevel } from '../../services/itinerary/fatigue-scheduler';
 
 // Fix Leaflet default marker icon issue
@@ -115,19 +116,12 @@ export function ItineraryMap({
     return itinerary.days;
   }, [itinerary.days, selectedDay]);
 
-  // Build polylines for each day
+  // Build polylines for each day, following the road where a travel leg has geometry
   const polylines = useMemo(() => {
     return daysToShow.map(day => {
-      const dayCoords = day.activities
-        .filter(a => a.type === 'visit' && a.place.coordinates)
-        .map(a => ({
-          lat: a.place.coordinates!.lat,
-          lng: a.place.coordinates!.lng,
-        }));
-
       return {
         day: day.day,
-        coords: dayCoords,
+        coords: dayTrack(day),
         color: DAY_COLORS[(day.day - 1) % DAY_COLORS.length],
       };
     });
@@ -0,0 +1,208 @@
+// Version history for a saved itinerary: what changed, compare, restore and share
+import { useEffect, useMemo, useState } from 'react';
+import { History, Save, RotateCcw, GitCompare, Link2, Copy, Check, Loader2 } from 'lucide-react';
+import type { GeneratedItinerary } from '../../services/itinerary/types';
+import { describeItineraryDiff, diffItineraries } from '../../services/itinerary/itinerary-diff';
+import { defaultItineraryTitle, shareUrl } from '../../services/itinerary/itinerary-documents';
+import { isSupabaseConfigured } from '../../lib/supabase';
+import { useItineraryDocumentsStore } from '../../stores/itinerary-documents.store';
+
+interface ItineraryVersionsPanelProps {
+  documentKey: string;
+  itinerary: GeneratedItinerary;  // What's on screen now, including unsaved edits
+  title?: string;
+  groupId?: string | null;
+  onRestore: (itinerary: GeneratedItinerary) => void;
+  onSave?: () => void;  // Replaces the default save, e.g. to fold in the group's edits
+  className?: string;
+}
+
+const SOURCE_LABELS = {
+  generated: 'Generated',
+  edited: 'Edited',
+  imported: 'Imported',
+  restored: 'Restored',
+} as const;
+
+export function ItineraryVersionsPanel({
+  documentKey,
+  itinerary,
+  title,
+  groupId,
+  onRestore,
+  onSave,
+  className = '',
+}: ItineraryVersionsPanelProps) {
+  const versions = useItineraryDocumentsStore((state) => state.versions[documentKey]);
+  const shareToken = useItineraryDocumentsStore((state) => state.shareTokens[documentKey] ?? null);
+  const isSaving = useItineraryDocumentsStore((state) => state.isSaving);
+  const error = useItineraryDocumentsStore((state) => state.error);
+  const loadDocument = useItineraryDocumentsStore((state) => state.loadDocument);
+  const saveVersion = useItineraryDocumentsStore((state) => state.saveVersion);
+  const restoreVersion = useItineraryDocumentsStore((state) => state.restoreVersion);
+  const share = useItineraryDocumentsStore((state) => state.share);
+  const unshare = useItineraryDocumentsStore((state) => state.unshare);
+
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (isSupabaseConfigured()) loadDocument(documentKey, groupId);
+  }, [documentKey, groupId, loadDocument]);
+
+  const compared = versions?.find((v) => v.version === comparing);
+  const comparison = useMemo(
+    () => compared
+      ? describeItineraryDiff(diffItineraries(compared.itinerary_data, itinerary), itinerary.summary.currency)
+      : [],
+    [compared, itinerary]
+  );
+
+  if (!isSupabaseConfigured()) {
+    return null;
+  }
+
+  const latest = versions?.[0];
+
+  const handleSave = () => {
+    if (onSave) {
+      onSave();
+      return;
+    }
+    saveVersion(documentKey, itinerary, {
+      title: title || defaultItineraryTitle(itinerary),
+      groupId,
+      source: 'edited',
+    });
+  };
+
+  const handleRestore = async (version: number) => {
+    const restored = await restoreVersion(documentKey, version);
+    if (restored) {
+      onRestore(restored);
+      setComparing(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareToken) return;
+    await navigator.clipboard.writeText(shareUrl(shareToken));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className={`glass-card p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary-400" />
+          <h3 className="font-display font-semibold text-white">Versions</h3>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-2 py-1 rounded-lg text-xs flex items-center gap-1 bg-dark-800 text-dark-200 hover:bg-dark-700 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+          Save version
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+      {/* Share link */}
+      {latest && (
+        <div className="mb-4 p-3 rounded-lg bg-dark-800/50 text-sm">
+          {shareToken ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Link2 className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+                <span className="text-dark-300 truncate flex-1">{shareUrl(shareToken)}</span>
+                <button onClick={handleCopy} className="text-dark-300 hover:text-white">
+                  {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+              <button
+                onClick={() => unshare(documentKey)}
+                className="mt-2 text-xs text-dark-400 hover:text-red-400"
+              >
+                Stop sharing
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => share(documentKey)}
+              className="flex items-center gap-2 text-dark-200 hover:text-white"
+            >
+              <Link2 className="w-4 h-4" />
+              Create read-only share link
+            </button>
+          )}
+        </div>
+      )}
+
+      {!versions || versions.length === 0 ? (
+        <p className="text-sm text-dark-400">No saved versions yet</p>
+      ) : (
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {versions.map((v) => (
+            <li key={v.id} className="p-3 rounded-lg bg-dark-800/50 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-white font-medium">
+                  v{v.version}
+                  <span className="ml-2 text-xs text-dark-400 font-normal">
+                    {SOURCE_LABELS[v.source]}
+                    {v.restored_from !== null && ` from v${v.restored_from}`}
+                    {' · '}
+                    {new Date(v.created_at).toLocaleString()}
+                  </span>
+                </span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setComparing(comparing === v.version ? null : v.version)}
+                    className={`p-1 rounded ${comparing === v.version ? 'text-primary-400' : 'text-dark-400 hover:text-white'}`}
+                    aria-label={`Compare version ${v.version} with the current itinerary`}
+                  >
+                    <GitCompare className="w-4 h-4" />
+                  </button>
+                  {v !== latest && (
+                    <button
+                      onClick={() => handleRestore(v.version)}
+                      disabled={isSaving}
+                      className="p-1 rounded text-dark-400 hover:text-white disabled:opacity-50"
+                      aria-label={`Restore version ${v.version}`}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {v.change_summary.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-dark-300">
+                  {v.change_summary.slice(0, 5).map((line, i) => <li key={i}>{line}</li>)}
+                  {v.change_summary.length > 5 && (
+                    <li className="text-dark-500">+{v.change_summary.length - 5} more changes</li>
+                  )}
+                </ul>
+              )}
+
+              {comparing === v.version && (
+                <div className="mt-2 pt-2 border-t border-dark-700 text-xs">
+                  <p className="text-dark-400 mb-1">From v{v.version} to what's on screen:</p>
+                  {comparison.length === 0 ? (
+                    <p className="text-dark-300">No differences</p>
+                  ) : (
+                    <ul className="space-y-1 text-primary-300">
+                      {comparison.map((line, i) => <li key={i}>{line}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 // Selected Places List for Trip Planning
 import { AnimatePresence, Reorder } from 'framer-motion';
-import { MapPin, Star, Sparkles, X, GripVertical } from 'lucide-react';
+import { MapPin, Star, Sparkles, X, GripVertical, Clock } from 'lucide-react';
 import type { PlaceInput } from '../../services/itinerary/direct-input.types';
 
 interface SelectedPlacesListProps {
@@ -105,6 +105,13 @@ export function SelectedPlacesList({
                         {place.type}
                       </span>
                     )}
+                    {place.fixedTime && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-emerald-500/20
+                                       text-emerald-400 flex items-center gap-1 whitespace-nowrap">
+                        <Clock className="w-3 h-3" />
+                        {new Date(place.fixedTime.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, {place.fixedTime.startTime}
+                      </span>
+                    )}
                     {place.suggestedByAI && (
                       <span className="text-xs px-2 py-0.5 rounded-full bg-primary-500/20
                                        text-primary-400 flex items-center gap-1">
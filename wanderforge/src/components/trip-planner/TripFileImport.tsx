@@ -0,0 +1,44 @@
+// Trip File Import - bring in bookings and saved places (.ics, .gpx, .kml, shared itinerary .json)
+import { useRef } from 'react';
+import { Upload, Loader2 } from 'lucide-react';
+
+interface TripFileImportProps {
+  isImporting: boolean;
+  messages: string[];
+  onImport: (file: File) => void;
+}
+
+export function TripFileImport({ isImporting, messages, onImport }: TripFileImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".ics,.gpx,.kml,.json,text/calendar,application/gpx+xml,application/vnd.google-earth.kml+xml,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+        className="flex items-center gap-2 text-sm text-dark-300 hover:text-white transition-colors disabled:opacity-50"
+      >
+        {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+        Import from calendar (.ics), GPX/KML or a shared itinerary
+      </button>
+      {messages.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-dark-400">
+          {messages.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -9,3 +9,4 @@ export { SelectedPlacesList } from './SelectedPlacesList';
 export { AISuggestionChips } from './AISuggestionChips';
 export { RecommendationCard } from './RecommendationCard';
 export { RecommendationPanel } from './RecommendationPanel';
+export { TripFileImport } from './TripFileImport';
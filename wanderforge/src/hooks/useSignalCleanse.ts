@@ -1,8 +1,37 @@
 // Signal-Cleanse React Hook
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useSignalCleanseStore } from '../stores/signal-cleanse.store';
 import { ChatParserPipeline } from '../services/ai/pipelines';
-import type { ChatExtractionResult } from '../services/ai/types';
+import { importChat, importChatFile, formatChatTranscript } from '../services/ai/import';
+import type { ChatExtractionResult, ImportedChat, RawChatMessage } from '../services/ai/types';
+import type { ChatMessage } from '../services/chat/types';
+
+/**
+ * Present imported messages with the trip chat bubbles so provenance can be shown in place
+ */
+function toDisplayMessages(messages: RawChatMessage[]): ChatMessage[] {
+  return messages
+    .filter((m) => m.id)
+    .map((m, i) => ({
+      id: m.id as string,
+      senderId: m.sender || 'system',
+      senderName: m.sender || 'System',
+      senderAvatar: (m.sender || '?').substring(0, 2).toUpperCase(),
+      parentId: null,
+      parentPreview: null,
+      content: m.content,
+      type: m.isSystem ? 'system' : 'text',
+      mediaUrl: null,
+      mediaMetadata: null,
+      reactions: [],
+      readBy: [],
+      // Exports without timestamps still need a stable order for date separators
+      createdAt: m.timestamp ? new Date(m.timestamp) : new Date(i * 1000),
+      editedAt: null,
+      isDeleted: false,
+      isOwn: false,
+    }));
+}
 
 export function useSignalCleanse() {
   const store = useSignalCleanseStore();
@@ -20,15 +49,22 @@ export function useSignalCleanse() {
       onFallback: (provider) => {
         store.addFallback(provider);
       },
+      onPartialResult: (partial) => {
+        store.setPartialResult(partial);
+      },
     });
 
     try {
-      const result = await pipeline.process(chatText, {
+      // Prefer the uploaded export when the textarea still shows its transcript
+      const imported = store.importedChat && store.chatInput === chatText
+        ? store.importedChat
+        : importChat(chatText);
+      const result = await pipeline.process(imported, {
         enrichPlaces: true,
         maxPlacesToEnrich: 5,
       });
 
-      store.setResult(result);
+      store.setResult(result, imported.messages);
       return result;
     } catch (error) {
       console.error('Signal-Cleanse processing failed:', error);
@@ -37,19 +73,33 @@ export function useSignalCleanse() {
     }
   }, [store]);
 
+  const sourceMessages = useMemo(() => toDisplayMessages(store.sourceMessages), [store.sourceMessages]);
+
+  const importFile = useCallback(async (file: File): Promise<ImportedChat> => {
+    const imported = await importChatFile(file);
+    store.setImportedChat(imported, formatChatTranscript(imported.messages));
+    return imported;
+  }, [store]);
+
   return {
     // State
     chatInput: store.chatInput,
     setChatInput: store.setChatInput,
+    importedChat: store.importedChat,
     isProcessing: store.isProcessing,
     processingStage: store.processingStage,
     processingProgress: store.processingProgress,
+    partialResult: store.partialResult,
     extractionResult: store.extractionResult,
     activeProvider: store.activeProvider,
     fallbacksUsed: store.fallbacksUsed,
+    sourceMessages,
+    highlightedSources: store.highlightedSources,
 
     // Actions
     processChat,
+    importFile,
+    setHighlightedSources: store.setHighlightedSources,
     reset: store.reset,
   };
 }
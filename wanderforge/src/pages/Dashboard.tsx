@@ -26,6 +26,7 @@ import {
   Landmark,
 } from 'lucide-react';
 import Button from '../components/ui/Button';
+import { ProviderUsagePanel } from '../components/dashboard';
 import { useAuthStore } from '../stores/auth.store';
 
 gsap.registerPlugin(ScrollTrigger);
@@ -596,6 +597,11 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* AI provider quota burn */}
+      <div className="max-w-6xl mx-auto px-6 pb-24 bg-dark-900">
+        <ProviderUsagePanel />
+      </div>
+
       {/* Footer */}
       <footer className="border-t border-dark-700 py-10 px-6 bg-dark-950">
         <div className="max-w-6xl mx-auto text-center">
@@ -23,12 +23,33 @@ import {
   Shield,
   Trash2,
   TimerReset,
+  Undo2,
+  Redo2,
+  Lock,
+  Unlock,
+  Pin,
+  Sunset,
+  ArrowUp,
+  ArrowDown,
+  Download,
+  Printer,
+  UsersRound,
+  LogOut,
 } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useItineraryStore } from '../stores/itinerary.store';
 import { useSignalCleanseStore } from '../stores/signal-cleanse.store';
 import { ItineraryMap, DayLegend, MapStats } from '../components/itinerary/ItineraryMap';
+import { ItineraryVersionsPanel } from '../components/itinerary/ItineraryVersionsPanel';
+import { CollaboratorAvatars } from '../components/itinerary/CollaboratorAvatars';
+import { ActivityComments } from '../components/itinerary/ActivityComments';
+import { DayWeatherSummary } from '../components/itinerary/DayWeatherSummary';
+import { useItineraryCollabStore } from '../stores/itinerary-collab.store';
+import { itineraryDocumentKey } from '../stores/itinerary-documents.store';
 import { getFatigueLevel } from '../services/itinerary/fatigue-scheduler';
+import { formatMoney } from '../services/money';
+import { downloadTripExport, printTripBooklet } from '../services/itinerary/trip-export';
+import type { TripExportFormat } from '../services/itinerary/trip-export';
 import type { ScheduledActivity } from '../services/itinerary/types';
 
 // Import Leaflet CSS
@@ -38,6 +59,7 @@ export default function ElasticItinerary() {
   const navigate = useNavigate();
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
   const [showMap, setShowMap] = useState(true);
+  const [showExport, setShowExport] = useState(false);
 
   // Itinerary store
   const {
@@ -48,6 +70,7 @@ export default function ElasticItinerary() {
     selectedDay,
     selectDay,
     extractionSource,
+    sourceGroup,
     setExtractionSource,
     generateFromExtraction,
     isResearching,
@@ -55,8 +78,42 @@ export default function ElasticItinerary() {
     researchedPlaces,
     removeActivity,
     updateActivityDuration,
+    moveActivity,
+    pinActivity,
+    addConstraint,
+    removeConstraint,
+    lockDay,
+    editHistory,
+    editConflicts,
+    undo,
+    redo,
+    restoreItinerary,
   } = useItineraryStore();
 
+  // Editing together with the chat group the trip came from
+  const {
+    isCollaborating,
+    isJoining,
+    collaborators,
+    lastChange,
+    error: collabError,
+    join,
+    leave,
+    setCursor,
+    saveMerged,
+  } = useItineraryCollabStore();
+
+  useEffect(() => {
+    return () => {
+      leave();
+    };
+  }, [leave]);
+
+  // Show the group where this member is looking
+  useEffect(() => {
+    if (isCollaborating) setCursor({ day: selectedDay, activityId: expandedItem ?? undefined });
+  }, [isCollaborating, selectedDay, expandedItem, setCursor]);
+
   // Get extraction from Signal-Cleanse if not already set
   const { extractionResult } = useSignalCleanseStore();
 
@@ -116,6 +173,18 @@ export default function ElasticItinerary() {
       : generatedItinerary.days
     : [];
 
+  // Edit constraints on the current itinerary
+  const lockedDays = generatedItinerary?.constraints?.lockedDays ?? [];
+  const hasConstraint = (activityId: string, kind: 'pin' | 'before') =>
+    generatedItinerary?.constraints?.rules.some(r => r.activityId === activityId && r.kind === kind) ?? false;
+
+  // Index of the nearest neighbour that isn't a travel leg (those are regenerated after every edit)
+  const neighbourIndex = (activities: ScheduledActivity[], index: number, step: 1 | -1) => {
+    let i = index + step;
+    while (activities[i]?.type === 'travel') i += step;
+    return activities[i] ? i : null;
+  };
+
   // Loading state with research progress
   if (isGenerating) {
     return (
@@ -271,6 +340,75 @@ export default function ElasticItinerary() {
             </div>
 
             <div className="flex items-center gap-3">
+              {sourceGroup && (
+                isCollaborating ? (
+                  <div className="flex items-center gap-2">
+                    <CollaboratorAvatars collaborators={collaborators} max={4} />
+                    {lastChange && (
+                      <span className="hidden xl:inline text-xs text-dark-400">
+                        {lastChange.member_name} edited {new Date(lastChange.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={leave}>
+                      <LogOut className="w-4 h-4 mr-2" />
+                      Leave
+                    </Button>
+                  </div>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => join(sourceGroup.id)} disabled={isJoining}>
+                    {isJoining ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UsersRound className="w-4 h-4 mr-2" />}
+                    Edit with {sourceGroup.name}
+                  </Button>
+                )
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={undo}
+                disabled={editHistory.past.length === 0}
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={redo}
+                disabled={editHistory.future.length === 0}
+              >
+                <Redo2 className="w-4 h-4" />
+              </Button>
+              <div className="relative">
+                <Button variant="ghost" size="sm" onClick={() => setShowExport(!showExport)}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+                {showExport && (
+                  <div className="absolute right-0 mt-2 w-48 glass-card p-2 z-50 flex flex-col text-sm">
+                    {([['ics', 'Calendar (.ics)'], ['gpx', 'GPX track'], ['kml', 'KML (Google Earth)'], ['json', 'Shareable JSON']] as [TripExportFormat, string][]).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => {
+                          downloadTripExport(generatedItinerary, format);
+                          setShowExport(false);
+                        }}
+                        className="px-3 py-2 text-left text-dark-200 rounded hover:bg-dark-700 transition-colors"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => {
+                        if (!printTripBooklet(generatedItinerary)) alert('Allow popups to print the trip booklet');
+                        setShowExport(false);
+                      }}
+                      className="px-3 py-2 text-left text-dark-200 rounded hover:bg-dark-700 transition-colors flex items-center gap-2"
+                    >
+                      <Printer className="w-4 h-4" />
+                      Print / PDF booklet
+                    </button>
+                  </div>
+                )}
+              </div>
               <Button
                 variant="ghost"
                 size="sm"
@@ -336,13 +474,26 @@ export default function ElasticItinerary() {
                       <Calendar className="w-5 h-5" />
                     </div>
                     <div>
-                      <h2 className="text-xl font-display font-semibold text-white">
+                      <h2 className="text-xl font-display font-semibold text-white flex items-center gap-2">
                         Day {day.day}
+                        <CollaboratorAvatars collaborators={collaborators.filter((c) => c.day === day.day && !c.activityId)} />
                       </h2>
-                      <p className="text-dark-400 text-sm">{day.date}</p>
+                      <p className="text-dark-400 text-sm">
+                        {day.date}
+                        {day.transfer && ` · ${day.transfer.from} → ${day.transfer.to}`}
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => lockDay(day.day, !lockedDays.includes(day.day))}
+                      className={`flex items-center gap-1 text-xs transition-colors ${
+                        lockedDays.includes(day.day) ? 'text-amber-400' : 'text-dark-500 hover:text-dark-300'
+                      }`}
+                    >
+                      {lockedDays.includes(day.day) ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                      {lockedDays.includes(day.day) ? 'Locked' : 'Lock day'}
+                    </button>
                     <span className="text-dark-400 text-sm">
                       {day.activities.filter(a => a.type === 'visit').length} activities
                     </span>
@@ -356,6 +507,8 @@ export default function ElasticItinerary() {
                   </div>
                 </div>
 
+                <DayWeatherSummary day={day} className="-mt-3 mb-6 pl-[3.25rem]" />
+
                 <div className="relative">
                   {/* Timeline line */}
                   <div className="absolute left-6 top-0 bottom-0 w-0.5 bg-gradient-to-b from-primary-500 via-secondary-500 to-dark-700" />
@@ -416,7 +569,15 @@ export default function ElasticItinerary() {
                                   <h3 className="font-display font-semibold text-white mt-1">
                                     {activity.place.name}
                                   </h3>
-                                  {activity.type === 'travel' && activity.travelFromPrev && (
+                                  {activity.intercity ? (
+                                    <p className="text-dark-400 text-sm">
+                                      {[activity.intercity.carrier, activity.intercity.serviceNumber].filter(Boolean).join(' ') || activity.intercity.mode}
+                                      {' · '}
+                                      {activity.intercity.bookingReference
+                                        ? `Booking ${activity.intercity.bookingReference}`
+                                        : 'Not booked yet'}
+                                    </p>
+                                  ) : activity.type === 'travel' && activity.travelFromPrev && (
                                     <p className="text-dark-400 text-sm">
                                       {activity.travelFromPrev.distance.toFixed(1)} km via {activity.travelFromPrev.mode}
                                     </p>
@@ -425,6 +586,7 @@ export default function ElasticItinerary() {
                               </div>
 
                               <div className="flex flex-col items-end gap-2">
+                                <CollaboratorAvatars collaborators={collaborators.filter((c) => c.activityId === activity.id)} />
                                 <span className="text-dark-400 text-sm">{activity.duration} min</span>
                                 {expandedItem === activity.id ? (
                                   <ChevronUp className="w-4 h-4 text-dark-500" />
@@ -447,10 +609,10 @@ export default function ElasticItinerary() {
                                   {activity.fatigueImpact > 0 ? '+' : ''}{activity.fatigueImpact}
                                 </span>
                               )}
-                              {typeof activity.estimatedCost === 'number' && activity.estimatedCost > 0 && (
+                              {activity.estimatedCost && activity.estimatedCost.amount > 0 && (
                                 <span className="px-2 py-0.5 rounded-full text-xs bg-dark-700 text-dark-300">
                                   <DollarSign className="w-3 h-3 inline mr-1" />
-                                  {activity.estimatedCost}
+                                  {formatMoney(activity.estimatedCost)}
                                 </span>
                               )}
                             </div>
@@ -525,6 +687,66 @@ export default function ElasticItinerary() {
                                       ))}
                                     </div>
 
+                                    {/* Reorder and constrain */}
+                                    <div className="flex items-center gap-1">
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          const to = neighbourIndex(day.activities, index, -1);
+                                          if (to !== null) moveActivity(activity.id, day.day, to);
+                                        }}
+                                        disabled={neighbourIndex(day.activities, index, -1) === null}
+                                        className="p-1 text-dark-300 bg-dark-600 rounded hover:bg-dark-500 transition-colors disabled:opacity-40"
+                                      >
+                                        <ArrowUp className="w-3 h-3" />
+                                      </button>
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          const to = neighbourIndex(day.activities, index, 1);
+                                          if (to !== null) moveActivity(activity.id, day.day, to);
+                                        }}
+                                        disabled={neighbourIndex(day.activities, index, 1) === null}
+                                        className="p-1 text-dark-300 bg-dark-600 rounded hover:bg-dark-500 transition-colors disabled:opacity-40"
+                                      >
+                                        <ArrowDown className="w-3 h-3" />
+                                      </button>
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          pinActivity(activity.id, hasConstraint(activity.id, 'pin') ? null : activity.startTime);
+                                        }}
+                                        className={`px-2 py-1 text-xs rounded transition-colors flex items-center gap-1 ${
+                                          hasConstraint(activity.id, 'pin')
+                                            ? 'bg-amber-500/20 text-amber-400'
+                                            : 'bg-dark-600 text-dark-300 hover:bg-dark-500'
+                                        }`}
+                                      >
+                                        <Pin className="w-3 h-3" />
+                                        {hasConstraint(activity.id, 'pin') ? `Pinned ${activity.startTime}` : 'Pin time'}
+                                      </button>
+                                      {activity.type === 'visit' && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            if (hasConstraint(activity.id, 'before')) {
+                                              removeConstraint(activity.id, 'before');
+                                            } else {
+                                              addConstraint({ kind: 'before', activityId: activity.id, time: 'sunset' });
+                                            }
+                                          }}
+                                          className={`px-2 py-1 text-xs rounded transition-colors flex items-center gap-1 ${
+                                            hasConstraint(activity.id, 'before')
+                                              ? 'bg-amber-500/20 text-amber-400'
+                                              : 'bg-dark-600 text-dark-300 hover:bg-dark-500'
+                                          }`}
+                                        >
+                                          <Sunset className="w-3 h-3" />
+                                          Before sunset
+                                        </button>
+                                      )}
+                                    </div>
+
                                     {/* Remove Activity */}
                                     <button
                                       onClick={(e) => {
@@ -539,6 +761,8 @@ export default function ElasticItinerary() {
                                       Remove
                                     </button>
                                   </div>
+
+                                  {isCollaborating && <ActivityComments placeName={activity.place.name} />}
                                 </motion.div>
                               )}
                             </AnimatePresence>
@@ -641,13 +865,72 @@ export default function ElasticItinerary() {
                       <span className="text-dark-200">Est. Cost</span>
                     </div>
                     <span className="text-white font-medium">
-                      {generatedItinerary.summary.totalCost.toLocaleString()}
+                      {formatMoney({ amount: generatedItinerary.summary.totalCost, currency: generatedItinerary.summary.currency ?? 'INR' })}
                     </span>
                   </div>
                 )}
               </div>
             </motion.div>
 
+            {/* Group editing problems */}
+            {collabError && (
+              <div className="glass-card p-4 border border-red-500/30 text-sm text-red-400">
+                {collabError}
+              </div>
+            )}
+
+            {/* Edits that were rejected or couldn't meet every rule */}
+            {editConflicts.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="glass-card p-4 border border-amber-500/30"
+              >
+                <div className="flex items-center gap-2 mb-4">
+                  <AlertCircle className="w-5 h-5 text-amber-400" />
+                  <h3 className="font-display font-semibold text-white">Schedule Conflicts</h3>
+                </div>
+                <ul className="space-y-2 text-sm">
+                  {editConflicts.map((conflict, i) => (
+                    <li key={i} className="text-dark-300">{conflict}</li>
+                  ))}
+                </ul>
+              </motion.div>
+            )}
+
+            {/* Saved versions and share link */}
+            <ItineraryVersionsPanel
+              documentKey={itineraryDocumentKey('itinerary', sourceGroup?.id)}
+              itinerary={generatedItinerary}
+              title={sourceGroup?.name}
+              groupId={sourceGroup?.id}
+              onRestore={restoreItinerary}
+              onSave={isCollaborating ? saveMerged : undefined}
+            />
+
+            {/* Must-visits closed on every trip day */}
+            {generatedItinerary.violations && generatedItinerary.violations.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.05 }}
+                className="glass-card p-4 border border-red-500/30"
+              >
+                <div className="flex items-center gap-2 mb-4">
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                  <h3 className="font-display font-semibold text-white">Closed During Your Trip</h3>
+                </div>
+                <ul className="space-y-2 text-sm">
+                  {generatedItinerary.violations.map((violation) => (
+                    <li key={violation.place} className="text-dark-300">
+                      <span className="text-white">{violation.place}</span>
+                      <span className="text-dark-400"> · {violation.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </motion.div>
+            )}
+
             {/* Missing Categories */}
             {generatedItinerary.summary.missingCategories.length > 0 && (
               <motion.div
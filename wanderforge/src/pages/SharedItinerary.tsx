@@ -0,0 +1,132 @@
+// Shared Itinerary - public read-only view of a saved itinerary behind a share link
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Route, Map, MapPin, Clock, Download, Loader2 } from 'lucide-react';
+import Button from '../components/ui/Button';
+import { ItineraryMap, DayLegend, MapStats } from '../components/itinerary/ItineraryMap';
+import { getSharedItinerary } from '../services/itinerary/itinerary-documents';
+import { downloadTripExport } from '../services/itinerary/trip-export';
+import type { DbItineraryDocument, DbItineraryVersion } from '../services/itinerary/types';
+
+// Import Leaflet CSS
+import 'leaflet/dist/leaflet.css';
+
+export default function SharedItinerary() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [shared, setShared] = useState<{ document: DbItineraryDocument; version: DbItineraryVersion } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    getSharedItinerary(token).then((result) => {
+      if (cancelled) return;
+      setShared(result);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (isLoading && token) {
+    return (
+      <div className="min-h-screen bg-dark-900 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen bg-dark-900 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <div className="w-20 h-20 rounded-full bg-dark-800 flex items-center justify-center mx-auto mb-6">
+            <Map className="w-10 h-10 text-dark-500" />
+          </div>
+          <h2 className="text-xl font-display font-semibold text-white mb-2">
+            Link Not Available
+          </h2>
+          <p className="text-dark-400 mb-6">
+            This itinerary is no longer shared, or the link is wrong.
+          </p>
+          <Button variant="primary" onClick={() => navigate('/')}>
+            Go to WanderForge
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { document, version } = shared;
+  const itinerary = version.itinerary_data;
+  const days = selectedDay ? itinerary.days.filter((d) => d.day === selectedDay) : itinerary.days;
+
+  return (
+    <div className="min-h-screen bg-dark-900">
+      {/* Navigation */}
+      <nav className="border-b border-dark-800 bg-dark-900/80 backdrop-blur-xl sticky top-0 z-50">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-secondary-500 to-secondary-600 flex items-center justify-center">
+              <Route className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-display font-bold text-white">{document.title}</h1>
+              <p className="text-dark-400 text-sm">
+                Shared itinerary · version {version.version} · {new Date(version.created_at).toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => downloadTripExport(itinerary, 'ics', { tripName: document.title })}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Add to calendar
+          </Button>
+        </div>
+      </nav>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        <MapStats itinerary={itinerary} />
+        <DayLegend days={itinerary.days} selectedDay={selectedDay} onDaySelect={setSelectedDay} />
+        <ItineraryMap itinerary={itinerary} selectedDay={selectedDay} className="h-96 rounded-xl overflow-hidden" />
+
+        {days.map((day) => (
+          <motion.section
+            key={day.day}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-card p-5"
+          >
+            <h2 className="font-display font-semibold text-white mb-4">
+              Day {day.day}
+              <span className="ml-2 text-sm text-dark-400 font-normal">
+                {new Date(day.date).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+              </span>
+            </h2>
+            <ul className="space-y-2">
+              {day.activities.map((activity) => (
+                <li key={activity.id} className="flex items-start gap-3 text-sm">
+                  <span className="w-24 flex-shrink-0 text-dark-400 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {activity.startTime}–{activity.endTime}
+                  </span>
+                  <span className={activity.type === 'visit' ? 'text-white' : 'text-dark-300'}>
+                    {activity.type === 'visit' && <MapPin className="w-3 h-3 inline mr-1 text-primary-400" />}
+                    {activity.place.name}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </motion.section>
+        ))}
+      </main>
+    </div>
+  );
+}
@@ -25,7 +25,10 @@ import {
   ArrowRight,
 } from 'lucide-react';
 import Button from '../components/ui/Button';
+import { ChatMessageList } from '../components/chat';
 import { useSignalCleanse } from '../hooks/useSignalCleanse';
+import { detectChatFormat } from '../services/ai/import';
+import type { ChatImportFormat, MessageReference } from '../services/ai/types';
 
 // Register GSAP plugins
 gsap.registerPlugin(ScrollTrigger, ScrollToPlugin);
@@ -126,6 +129,15 @@ Shrajan: Coracle ride costs ₹500 - worth it?
 Naveen: Looks fun but expensive
 *More memes*`;
 
+const CHAT_FORMAT_LABELS: Record<ChatImportFormat, string> = {
+  'whatsapp-android': 'WhatsApp (Android)',
+  'whatsapp-ios': 'WhatsApp (iOS)',
+  'telegram-json': 'Telegram JSON',
+  'signal': 'Signal',
+  'plain-text': 'plain text',
+  'trip-chat': 'Trip Chat',
+};
+
 interface FloatingMessage {
   id: number;
   text: string;
@@ -337,10 +349,16 @@ export default function SignalCleanse() {
     isProcessing,
     processingStage,
     processingProgress,
+    partialResult,
     extractionResult,
     activeProvider,
     fallbacksUsed,
     processChat,
+    importFile,
+    importedChat,
+    sourceMessages,
+    highlightedSources,
+    setHighlightedSources,
     reset,
   } = useSignalCleanse();
 
@@ -352,6 +370,19 @@ export default function SignalCleanse() {
 
   const showResults = extractionResult !== null && !isProcessing;
 
+  // Result items link back to the chat messages they were extracted from
+  const showSources = (sources?: MessageReference[]) => {
+    if (!sources || sources.length === 0) return;
+    setHighlightedSources(sources === highlightedSources ? null : sources);
+  };
+
+  const sourceClass = (sources?: MessageReference[]): string => {
+    if (!sources || sources.length === 0) return '';
+    return sources === highlightedSources
+      ? 'cursor-pointer ring-1 ring-emerald-400'
+      : 'cursor-pointer hover:ring-1 hover:ring-white/20';
+  };
+
   // Track current section on scroll
   useEffect(() => {
     const handleScroll = () => {
@@ -418,31 +449,22 @@ export default function SignalCleanse() {
     setError(null);
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.endsWith('.txt') && !file.name.endsWith('.chat')) {
-      setError('Please upload a .txt or .chat file');
+    if (!/\.(txt|chat|json|md|zip)$/i.test(file.name)) {
+      setError('Please upload a .txt, .json, .md or .zip chat export');
       return;
     }
 
-    if (file.size > 1024 * 1024) {
-      setError('File too large. Maximum size is 1MB');
-      return;
+    try {
+      const imported = await importFile(file);
+      setError(imported.warnings.length > 0 ? imported.warnings.join(' ') : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      setChatInput(content);
-      setError(null);
-    };
-    reader.onerror = () => {
-      setError('Failed to read file');
-    };
-    reader.readAsText(file);
-
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -459,7 +481,7 @@ export default function SignalCleanse() {
     switch (provider) {
       case 'openrouter': return 'Grok AI';
       case 'groq': return 'Groq Llama';
-      case 'huggingface': return 'HuggingFace';
+      case 'local': return 'Local Model';
       case 'offline': return 'Offline Heuristics';
       default: return 'AI';
     }
@@ -639,7 +661,7 @@ export default function SignalCleanse() {
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileUpload}
-                  accept=".txt,.chat"
+                  accept=".txt,.chat,.json,.md,.zip"
                   className="hidden"
                 />
                 <Button
@@ -661,7 +683,7 @@ export default function SignalCleanse() {
               <textarea
                 value={chatInput}
                 onChange={(e) => setChatInput(e.target.value)}
-                placeholder="Paste your WhatsApp/Telegram chat export here..."
+                placeholder="Paste your WhatsApp/Telegram/Signal chat export here..."
                 className="w-full h-64 bg-dark-800/50 border border-dark-700 rounded-xl text-dark-200 p-4 resize-none focus:outline-none focus:border-blue-500/50 font-mono text-sm"
               />
               {!chatInput && (
@@ -671,7 +693,7 @@ export default function SignalCleanse() {
                 >
                   <Upload className="w-12 h-12 text-dark-500 mb-3" />
                   <p className="text-dark-400 text-sm">Click to upload or drag & drop</p>
-                  <p className="text-dark-500 text-xs mt-1">.txt or .chat files</p>
+                  <p className="text-dark-500 text-xs mt-1">WhatsApp .txt/.zip, Telegram result.json, Signal .md</p>
                 </div>
               )}
             </div>
@@ -690,7 +712,10 @@ export default function SignalCleanse() {
                 className="mt-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/20"
               >
                 <p className="text-blue-400 text-sm">
-                  {chatInput.split('\n').filter(m => m.trim()).length} messages detected
+                  {importedChat
+                    ? `${importedChat.stats.parsedMessages} messages from ${CHAT_FORMAT_LABELS[importedChat.format]}` +
+                      (importedChat.stats.attachments > 0 ? ` · ${importedChat.stats.attachments} attachments` : '')
+                    : `${chatInput.split('\n').filter(m => m.trim()).length} messages detected · ${CHAT_FORMAT_LABELS[detectChatFormat(chatInput).format]}`}
                 </p>
               </motion.div>
             )}
@@ -769,6 +794,34 @@ export default function SignalCleanse() {
                 </div>
               </div>
 
+              {/* Streamed results - appear as the model writes them */}
+              {partialResult && (partialResult.dates.length > 0 || partialResult.places.length > 0) && (
+                <div className="mb-6 flex flex-wrap gap-2">
+                  {partialResult.dates.map((d, i) => (
+                    <motion.span
+                      key={`date-${i}`}
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="px-3 py-1 rounded-full text-xs bg-cyan-500/20 text-cyan-300 flex items-center gap-1"
+                    >
+                      <Calendar className="w-3 h-3" />
+                      {d.date}
+                    </motion.span>
+                  ))}
+                  {partialResult.places.map((place, i) => (
+                    <motion.span
+                      key={`place-${i}`}
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="px-3 py-1 rounded-full text-xs bg-purple-500/20 text-purple-300 flex items-center gap-1"
+                    >
+                      <MapPin className="w-3 h-3" />
+                      {place.name}
+                    </motion.span>
+                  ))}
+                </div>
+              )}
+
               {/* Floating Messages Converging */}
               <div className="relative h-48 overflow-hidden rounded-xl bg-dark-800/30">
                 <AnimatePresence>
@@ -881,6 +934,14 @@ export default function SignalCleanse() {
                     <p className="text-dark-300">
                       {extractionResult.stats.totalMessages} messages → {extractionResult.stats.extractedItems || 0} actionable items
                     </p>
+                    {extractionResult.stats.importStats && (
+                      <p className="text-dark-500 text-xs mt-1">
+                        {CHAT_FORMAT_LABELS[extractionResult.stats.importStats.format]} ·{' '}
+                        {extractionResult.stats.importStats.senders} senders ·{' '}
+                        {extractionResult.stats.importStats.multilineMessages} multi-line ·{' '}
+                        {extractionResult.stats.importStats.systemMessages} system notices skipped
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex gap-8">
@@ -919,7 +980,11 @@ export default function SignalCleanse() {
                 <div className="space-y-3">
                   {extractionResult.dates.length > 0 ? (
                     extractionResult.dates.map((d, i) => (
-                      <div key={i} className="p-3 rounded-lg bg-dark-800/50">
+                      <div
+                        key={i}
+                        onClick={() => showSources(d.sources)}
+                        className={`p-3 rounded-lg bg-dark-800/50 ${sourceClass(d.sources)}`}
+                      >
                         <p className="text-white font-medium">{d.date}</p>
                         <p className="text-dark-400 text-sm mt-1">{d.context}</p>
                         <div className="mt-2 flex items-center gap-2">
@@ -955,7 +1020,10 @@ export default function SignalCleanse() {
                 </div>
                 {extractionResult.budget ? (
                   <>
-                    <div className="text-3xl font-display font-bold text-white mb-4">
+                    <div
+                      onClick={() => showSources(extractionResult.budget?.sources)}
+                      className={`text-3xl font-display font-bold text-white mb-4 rounded-lg ${sourceClass(extractionResult.budget.sources)}`}
+                    >
                       {extractionResult.budget.total}
                       {extractionResult.budget.perPerson && (
                         <span className="text-lg text-dark-400 font-normal"> per person</span>
@@ -963,7 +1031,11 @@ export default function SignalCleanse() {
                     </div>
                     <div className="space-y-2">
                       {extractionResult.budget.breakdown.map((item, i) => (
-                        <div key={i} className="flex items-center justify-between p-2 rounded-lg bg-dark-800/50">
+                        <div
+                          key={i}
+                          onClick={() => showSources(item.sources)}
+                          className={`flex items-center justify-between p-2 rounded-lg bg-dark-800/50 ${sourceClass(item.sources)}`}
+                        >
                           <div>
                             <p className="text-dark-200">{item.item}</p>
                             {item.notes && <p className="text-dark-500 text-xs">{item.notes}</p>}
@@ -995,7 +1067,11 @@ export default function SignalCleanse() {
                 <div className="space-y-2">
                   {extractionResult.places.length > 0 ? (
                     extractionResult.places.map((place, i) => (
-                      <div key={i} className="flex items-center justify-between p-2 rounded-lg bg-dark-800/50">
+                      <div
+                        key={i}
+                        onClick={() => showSources(place.sources)}
+                        className={`flex items-center justify-between p-2 rounded-lg bg-dark-800/50 ${sourceClass(place.sources)}`}
+                      >
                         <div className="flex items-center gap-2">
                           <span className={`w-2 h-2 rounded-full ${
                             place.status === 'confirmed' ? 'bg-emerald-500' : 'bg-amber-500'
@@ -1043,7 +1119,11 @@ export default function SignalCleanse() {
                 <div className="space-y-3">
                   {extractionResult.tasks.length > 0 ? (
                     extractionResult.tasks.map((task, i) => (
-                      <div key={i} className="flex items-center justify-between p-3 rounded-lg bg-dark-800/50">
+                      <div
+                        key={i}
+                        onClick={() => showSources(task.sources)}
+                        className={`flex items-center justify-between p-3 rounded-lg bg-dark-800/50 ${sourceClass(task.sources)}`}
+                      >
                         <div className="flex items-center gap-3">
                           <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${
                             task.status === 'done' ? 'bg-emerald-500/20 text-emerald-400' :
@@ -1093,7 +1173,11 @@ export default function SignalCleanse() {
                   <div className="space-y-2">
                     {extractionResult.decisions.length > 0 ? (
                       extractionResult.decisions.map((d, i) => (
-                        <div key={i} className="flex items-start gap-3 p-2">
+                        <div
+                          key={i}
+                          onClick={() => showSources(d.sources)}
+                          className={`flex items-start gap-3 p-2 rounded-lg ${sourceClass(d.sources)}`}
+                        >
                           <CheckCircle className="w-4 h-4 text-emerald-400 mt-1 flex-shrink-0" />
                           <div>
                             <p className="text-dark-200">{d.decision}</p>
@@ -1125,7 +1209,11 @@ export default function SignalCleanse() {
                   <div className="space-y-2">
                     {extractionResult.openQuestions.length > 0 ? (
                       extractionResult.openQuestions.map((q, i) => (
-                        <div key={i} className="flex items-start gap-3 p-2 rounded-lg bg-amber-500/5">
+                        <div
+                          key={i}
+                          onClick={() => showSources(q.sources)}
+                          className={`flex items-start gap-3 p-2 rounded-lg bg-amber-500/5 ${sourceClass(q.sources)}`}
+                        >
                           <span className="text-amber-400">?</span>
                           <p className="text-dark-300">{q.question}</p>
                         </div>
@@ -1138,6 +1226,37 @@ export default function SignalCleanse() {
               </div>
             </div>
 
+            {/* Source Messages */}
+            {sourceMessages.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.65 }}
+                viewport={{ once: true }}
+                className="glass-card p-6"
+              >
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="w-10 h-10 rounded-xl bg-pink-500/20 flex items-center justify-center">
+                    <MessageSquare className="w-5 h-5 text-pink-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-display font-semibold text-white">Source Messages</h3>
+                    <p className="text-dark-500 text-xs">Click any item above to see where it came from</p>
+                  </div>
+                </div>
+                <div className="h-96 flex flex-col rounded-xl bg-dark-900/40">
+                  <ChatMessageList
+                    messages={sourceMessages}
+                    onReply={() => {}}
+                    onReact={() => {}}
+                    onLoadMore={() => {}}
+                    highlightedSources={highlightedSources}
+                    followNewMessages={false}
+                  />
+                </div>
+              </motion.div>
+            )}
+
             {/* Action Buttons */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
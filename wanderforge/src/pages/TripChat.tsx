@@ -40,6 +40,16 @@ import {
   onMember,
   onReaction,
   onTyping,
+  onPoll,
+  onTask,
+  formatTask,
+  runTaskCommand,
+  sendDueReminders,
+  createPoll,
+  getPoll,
+  getPollsForMessages,
+  refreshPollDecisions,
+  trackQuestionAnswers,
   getGroupMembers,
   getReactionsBatch,
   initExtractionService,
@@ -48,7 +58,51 @@ import {
   stopChatSession,
   processMessageForRecommendations,
 } from '../services/chat';
-import type { DbChatMessage, DbChatMember, DbChatReaction, ChatMessage } from '../services/chat/types';
+import type {
+  DbChatMessage,
+  DbChatMember,
+  DbChatReaction,
+  ChatMessage,
+  CreatePollInput,
+} from '../services/chat/types';
+
+const REMINDER_CHECK_MS = 15 * 60 * 1000; // Check for tasks coming due every 15 minutes
+const MAX_TIMER_MS = 2 ** 31 - 1; // Longest delay setTimeout honours
+
+/**
+ * A system line only this member sees (e.g. a slash command that didn't work)
+ */
+function localNotice(content: string): ChatMessage {
+  return {
+    id: `local-${Date.now()}`,
+    senderId: 'system',
+    senderName: 'System',
+    senderAvatar: '',
+    parentId: null,
+    parentPreview: null,
+    content,
+    type: 'system',
+    mediaUrl: null,
+    mediaMetadata: null,
+    reactions: [],
+    readBy: [],
+    createdAt: new Date(),
+    editedAt: null,
+    isDeleted: false,
+    isOwn: true,
+  };
+}
+
+/**
+ * Attach poll data to poll messages
+ */
+async function withPolls(messages: ChatMessage[], myMemberId: string): Promise<ChatMessage[]> {
+  const pollMessageIds = messages.filter((m) => m.type === 'poll').map((m) => m.id);
+  if (pollMessageIds.length === 0) return messages;
+
+  const polls = await getPollsForMessages(pollMessageIds, myMemberId);
+  return messages.map((m) => (polls.has(m.id) ? { ...m, poll: polls.get(m.id) } : m));
+}
 
 export default function TripChat() {
   const {
@@ -59,6 +113,7 @@ export default function TripChat() {
     messages,
     replyingTo,
     showExtractionPanel,
+    highlightedSources,
     recentGroups,
     openSetupModal,
     closeSetupModal,
@@ -101,7 +156,12 @@ export default function TripChat() {
           session.myMemberId
         );
 
-        setMessages(formatted);
+        const withPollData = await withPolls(formatted, session.myMemberId);
+        setMessages(withPollData);
+        // Polls whose deadline passed while nobody was here still need settling
+        if (withPollData.some((m) => m.poll?.isClosed)) {
+          refreshPollDecisions(session.groupId);
+        }
         setMembers(
           members.map((m) => ({
             id: m.id,
@@ -143,9 +203,12 @@ export default function TripChat() {
           session.myMemberId
         );
 
-        addMessage(formatted);
+        // The poll row lands just after its message; onPoll fills it in if it isn't there yet
+        const [withPoll] = await withPolls([formatted], session.myMemberId);
+        useChatStore.getState().addMessage(withPoll);
 
         // Trigger extraction on new message
+        trackQuestionAnswers(withPoll);
         triggerExtraction(session.groupId);
 
         // Check for place mentions and generate AI recommendations
@@ -177,7 +240,7 @@ export default function TripChat() {
                   isDeleted: false,
                   isOwn: false,
                 };
-                addMessage(recommendationMessage);
+                useChatStore.getState().addMessage(recommendationMessage);
               }
             })
             .catch((error) => {
@@ -278,6 +341,26 @@ export default function TripChat() {
       }
     });
 
+    // Poll events (created, voted on, closed)
+    onPoll(async (pollId) => {
+      const poll = await getPoll(pollId, session.myMemberId);
+      if (!poll) return;
+      updateMessage(poll.messageId, { poll });
+      if (poll.isClosed) {
+        refreshPollDecisions(session.groupId);
+      }
+    });
+
+    // Task board events
+    onTask((dbTask) => {
+      const { upsertTask, removeTask } = useChatStore.getState();
+      if (dbTask.is_deleted) {
+        removeTask(dbTask.id);
+      } else {
+        upsertTask(formatTask(dbTask));
+      }
+    });
+
     // Cleanup on unmount
     return () => {
       // Unsubscribe handled by stopChatSession
@@ -301,6 +384,50 @@ export default function TripChat() {
     };
   }, [session?.groupId]);
 
+  // Due-date reminders for the task board
+  const reminderGroupId = session?.groupId;
+  useEffect(() => {
+    if (!reminderGroupId) return;
+
+    const checkReminders = () => {
+      const { tasks, members } = useChatStore.getState();
+      sendDueReminders(reminderGroupId, tasks, members);
+    };
+
+    const initial = setTimeout(checkReminders, 5000); // Let the board load first
+    const interval = setInterval(checkReminders, REMINDER_CHECK_MS);
+    return () => {
+      clearTimeout(initial);
+      clearInterval(interval);
+    };
+  }, [reminderGroupId]);
+
+  // A deadline passing sends no realtime event, so settle those polls when it does
+  const pollGroupId = session?.groupId;
+  const myMemberId = session?.myMemberId;
+  useEffect(() => {
+    if (!pollGroupId || !myMemberId) return;
+
+    const pending = messages.flatMap((m) =>
+      m.poll && !m.poll.isClosed && m.poll.deadline ? [m.poll] : []
+    );
+    if (pending.length === 0) return;
+
+    const next = Math.min(...pending.map((p) => p.deadline!.getTime()));
+    const timer = setTimeout(async () => {
+      const expired = pending.filter((p) => p.deadline!.getTime() <= Date.now());
+      for (const { id } of expired) {
+        const poll = await getPoll(id, myMemberId);
+        if (poll) useChatStore.getState().updateMessage(poll.messageId, { poll });
+      }
+      if (expired.length > 0) {
+        refreshPollDecisions(pollGroupId);
+      }
+    }, Math.min(Math.max(0, next - Date.now()), MAX_TIMER_MS));
+
+    return () => clearTimeout(timer);
+  }, [pollGroupId, myMemberId, messages]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -315,6 +442,18 @@ export default function TripChat() {
     async (content: string) => {
       if (!session) return;
 
+      // Task board slash commands (/task, /claim, /start, /done)
+      if (content.startsWith('/')) {
+        const { tasks, members } = useChatStore.getState();
+        const result = await runTaskCommand(session.groupId, session.myMemberId, content, tasks, members);
+        if (result.handled) {
+          if (result.error) {
+            addMessage(localNotice(result.error));
+          }
+          return;
+        }
+      }
+
       await sendMessage(
         session.groupId,
         session.myMemberId,
@@ -325,7 +464,16 @@ export default function TripChat() {
 
       setReplyingTo(null);
     },
-    [session, replyingTo]
+    [session, replyingTo, addMessage, setReplyingTo]
+  );
+
+  // Handle poll creation
+  const handleCreatePoll = useCallback(
+    async (input: CreatePollInput) => {
+      if (!session) return false;
+      return (await createPoll(session.groupId, session.myMemberId, input)) !== null;
+    },
+    [session]
   );
 
   // Handle image upload
@@ -347,7 +495,7 @@ export default function TripChat() {
         setReplyingTo(null);
       }
     },
-    [session, replyingTo]
+    [session, replyingTo, setReplyingTo]
   );
 
   // Handle reaction
@@ -380,7 +528,7 @@ export default function TripChat() {
         session.myMemberId
       );
 
-      prependMessages(formatted);
+      prependMessages(await withPolls(formatted, session.myMemberId));
       setHasMoreMessages(dbMessages.length >= 50);
     } finally {
       setLoadingMessages(false);
@@ -633,11 +781,13 @@ export default function TripChat() {
             onReply={(message) => setReplyingTo(message)}
             onReact={handleReaction}
             onLoadMore={handleLoadMore}
+            highlightedSources={highlightedSources}
           />
 
           <ChatInput
             onSend={handleSendMessage}
             onImageSelect={handleImageUpload}
+            onCreatePoll={handleCreatePoll}
             replyingTo={replyingTo}
             onCancelReply={() => setReplyingTo(null)}
           />
@@ -26,6 +26,12 @@ import {
   Check,
   Trash2,
   Clock,
+  Undo2,
+  Redo2,
+  Lock,
+  Unlock,
+  Download,
+  Printer,
 } from 'lucide-react';
 import Button from '../components/ui/Button';
 import {
@@ -37,9 +43,16 @@ import {
   SelectedPlacesList,
   AISuggestionChips,
   RecommendationPanel,
+  TripFileImport,
 } from '../components/trip-planner';
 import { useTripPlannerStore } from '../stores/trip-planner.store';
 import { TRAVEL_MODE_CONFIG } from '../services/itinerary/direct-input.types';
+import { formatMoney } from '../services/money';
+import { downloadTripExport, printTripBooklet } from '../services/itinerary/trip-export';
+import type { TripExportFormat } from '../services/itinerary/trip-export';
+import { ItineraryVersionsPanel } from '../components/itinerary/ItineraryVersionsPanel';
+import { DayWeatherSummary } from '../components/itinerary/DayWeatherSummary';
+import { itineraryDocumentKey } from '../stores/itinerary-documents.store';
 
 gsap.registerPlugin(ScrollTrigger, ScrollToPlugin);
 
@@ -577,6 +590,12 @@ export default function TripPlanner() {
                   onSelectPlace={store.addPlaceFromSuggestion}
                 />
 
+                <TripFileImport
+                  isImporting={store.isImporting}
+                  messages={store.importMessages}
+                  onImport={store.importPlaces}
+                />
+
                 <AISuggestionChips
                   suggestions={store.aiSuggestedPlaces}
                   isLoading={store.isLoadingAISuggestions}
@@ -637,7 +656,7 @@ export default function TripPlanner() {
                       <Wallet className="w-5 h-5 text-emerald-400" />
                       <span className="text-gray-300">Budget</span>
                     </div>
-                    <span className="text-white font-medium">₹{store.budget.amount.toLocaleString()}</span>
+                    <span className="text-white font-medium">{formatMoney(store.budget, { compact: false })}</span>
                   </div>
 
                   <div className="flex items-center justify-between p-4 bg-dark-700 rounded-xl">
@@ -1168,7 +1187,7 @@ export default function TripPlanner() {
                 {[
                   { icon: Calendar, label: 'Duration', value: `${store.generatedItinerary.summary.totalDays} days` },
                   { icon: MapPin, label: 'Places', value: `${store.generatedItinerary.summary.placesVisited} places` },
-                  { icon: Wallet, label: 'Est. Cost', value: `₹${store.generatedItinerary.summary.totalCost.toLocaleString()}` },
+                  { icon: Wallet, label: 'Est. Cost', value: formatMoney({ amount: store.generatedItinerary.summary.totalCost, currency: store.generatedItinerary.summary.currency ?? 'INR' }) },
                   { icon: Map, label: 'Distance', value: `${store.generatedItinerary.summary.distanceTraveled.toFixed(1)} km` },
                 ].map(({ icon: Icon, label, value }, i) => (
                   <motion.div
@@ -1185,6 +1204,34 @@ export default function TripPlanner() {
                 ))}
               </div>
 
+              {/* Undo / redo and edit conflicts */}
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="text-sm text-amber-400 space-y-1">
+                  {store.editConflicts.map((conflict, i) => (
+                    <p key={i} className="flex items-center gap-2">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                      {conflict}
+                    </p>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={store.undo}
+                    disabled={store.editHistory.past.length === 0}
+                    className="p-2 text-gray-400 bg-dark-800 rounded-lg hover:bg-dark-700 transition-colors disabled:opacity-40"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={store.redo}
+                    disabled={store.editHistory.future.length === 0}
+                    className="p-2 text-gray-400 bg-dark-800 rounded-lg hover:bg-dark-700 transition-colors disabled:opacity-40"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
               {/* Itinerary Days */}
               <div className="space-y-6">
                 {store.generatedItinerary.days.map((day, dayIndex) => (
@@ -1206,10 +1253,19 @@ export default function TripPlanner() {
                               day: 'numeric',
                             })}
                           </p>
+                          <DayWeatherSummary day={day} className="mt-1" />
                         </div>
                         <div className="flex items-center gap-4 text-sm text-gray-400">
+                          <button
+                            onClick={() => store.lockDay(day.day, !store.generatedItinerary?.constraints?.lockedDays.includes(day.day))}
+                            className="flex items-center gap-1 hover:text-white transition-colors"
+                          >
+                            {store.generatedItinerary?.constraints?.lockedDays.includes(day.day)
+                              ? <><Lock className="w-3 h-3 text-amber-400" /> Locked</>
+                              : <><Unlock className="w-3 h-3" /> Lock</>}
+                          </button>
                           <span>{day.activities.filter((a) => a.type === 'visit').length} activities</span>
-                          <span>₹{day.totalCost.toLocaleString()}</span>
+                          <span>{formatMoney({ amount: day.totalCost, currency: store.generatedItinerary?.summary.currency ?? 'INR' })}</span>
                         </div>
                       </div>
                     </div>
@@ -1315,6 +1371,43 @@ export default function TripPlanner() {
                   Plan Another
                 </Button>
               </div>
+
+              {/* Export */}
+              <div className="mt-4 flex flex-wrap justify-center items-center gap-2 text-sm">
+                <span className="text-gray-500 flex items-center gap-1">
+                  <Download className="w-4 h-4" /> Export:
+                </span>
+                {([['ics', 'Calendar (.ics)'], ['gpx', 'GPX'], ['kml', 'KML'], ['json', 'Shareable JSON']] as [TripExportFormat, string][]).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => store.generatedItinerary && downloadTripExport(store.generatedItinerary, format, { tripName: `${store.region} Trip` })}
+                    className="px-3 py-1 bg-dark-800 text-gray-300 rounded-lg hover:bg-dark-700 transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+                <button
+                  onClick={() => {
+                    if (store.generatedItinerary && !printTripBooklet(store.generatedItinerary, { tripName: `${store.region} Trip` })) {
+                      alert('Allow popups to print the trip booklet');
+                    }
+                  }}
+                  className="px-3 py-1 bg-dark-800 text-gray-300 rounded-lg hover:bg-dark-700 transition-colors flex items-center gap-1"
+                >
+                  <Printer className="w-4 h-4" /> Print / PDF
+                </button>
+              </div>
+
+              {/* Saved versions and share link */}
+              {store.generatedItinerary && (
+                <ItineraryVersionsPanel
+                  documentKey={itineraryDocumentKey('trip-planner')}
+                  itinerary={store.generatedItinerary}
+                  title={store.tripSummary?.title || `${store.region} Trip`}
+                  onRestore={store.restoreItinerary}
+                  className="mt-6 max-w-xl mx-auto text-left"
+                />
+              )}
             </div>
           </motion.div>
         )}
@@ -0,0 +1,139 @@
+// Eval Metrics - match extracted items against golden annotations, per field
+// Items are compared on normalized tokens (months, ordinals, "15k"), so wording
+// differences like "April 12-16" vs "April 12 to April 16" still count as a hit.
+import type { ChatExtractionResult, EvalField, FieldScore } from '../types';
+
+export const EVAL_FIELDS: EvalField[] = ['dates', 'budget', 'places', 'tasks', 'decisions', 'openQuestions'];
+
+// Dice coefficient on tokens needed to call two items the same
+const MATCH_THRESHOLD = 0.5;
+
+const MONTHS: Record<string, string> = {
+  january: 'jan', february: 'feb', march: 'mar', april: 'apr', may: 'may', june: 'jun',
+  july: 'jul', august: 'aug', september: 'sep', sept: 'sep', october: 'oct', november: 'nov', december: 'dec',
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'for', 'of', 'in', 'on', 'at', 'by', 'and', 'or', 'is', 'are', 'be',
+  'we', 'do', 'it', 'what', 'should', 'can', 'there', 'with', 'from', 'per',
+]);
+
+/**
+ * Parse an amount like "₹15,000", "15k", "2,000/night" (first number only)
+ */
+export function parseAmount(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|l|lakh)?\b/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const unit = match[2]?.toLowerCase();
+  if (unit === 'k') return value * 1000;
+  if (unit === 'l' || unit === 'lakh') return value * 100000;
+  return value;
+}
+
+function tokenize(text: string): Set<string> {
+  const tokens = text
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .replace(/(\d+)(st|nd|rd|th)\b/g, '$1')
+    .replace(/(\d+)k\b/g, (_, n) => String(Number(n) * 1000))
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(token => MONTHS[token] ?? token)
+    .filter(token => !STOPWORDS.has(token));
+  return new Set(tokens);
+}
+
+function similarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+function matchScore(field: EvalField, expected: string, actual: string): number {
+  if (field === 'budget') {
+    const a = parseAmount(expected);
+    return a !== null && a === parseAmount(actual) ? 1 : 0;
+  }
+  return similarity(expected, actual);
+}
+
+/**
+ * The strings a result contributes to each field. Budget proposals without consensus
+ * and resolved questions are left out - they aren't things the trip still has to act on.
+ */
+export function extractFieldValues(result: Pick<ChatExtractionResult, EvalField>, field: EvalField): string[] {
+  switch (field) {
+    case 'dates':
+      return result.dates.map(d => d.date);
+    case 'budget':
+      if (!result.budget) return [];
+      return [
+        ...(result.budget.total ? [result.budget.total] : []),
+        ...result.budget.breakdown.map(b => b.amount),
+      ].filter(amount => parseAmount(amount) !== null);
+    case 'places':
+      return result.places.map(p => p.name);
+    case 'tasks':
+      return result.tasks.map(t => t.task);
+    case 'decisions':
+      return result.decisions.map(d => d.decision);
+    case 'openQuestions':
+      return result.openQuestions.filter(q => q.status !== 'resolved').map(q => q.question);
+  }
+}
+
+export function toFieldScore(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number,
+  missed: string[] = [],
+  unexpected: string[] = []
+): FieldScore {
+  // Nothing extracted is perfectly precise; nothing expected is perfectly recalled
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1, missed, unexpected };
+}
+
+/**
+ * Greedy one-to-one matching, best pairs first, so one extracted item can't satisfy two expected ones
+ */
+export function scoreField(field: EvalField, expected: string[], actual: string[]): FieldScore {
+  const pairs: { e: number; a: number; score: number }[] = [];
+  expected.forEach((exp, e) => {
+    actual.forEach((act, a) => {
+      const score = matchScore(field, exp, act);
+      if (score >= MATCH_THRESHOLD) pairs.push({ e, a, score });
+    });
+  });
+  pairs.sort((x, y) => y.score - x.score);
+
+  const matchedExpected = new Set<number>();
+  const matchedActual = new Set<number>();
+  for (const { e, a } of pairs) {
+    if (matchedExpected.has(e) || matchedActual.has(a)) continue;
+    matchedExpected.add(e);
+    matchedActual.add(a);
+  }
+
+  const missed = expected.filter((_, i) => !matchedExpected.has(i));
+  const unexpected = actual.filter((_, i) => !matchedActual.has(i));
+  return toFieldScore(matchedExpected.size, unexpected.length, missed.length, missed, unexpected);
+}
+
+/**
+ * Micro-average: sum the counts, then compute the ratios
+ */
+export function sumFieldScores(scores: FieldScore[]): FieldScore {
+  const tp = scores.reduce((sum, s) => sum + s.truePositives, 0);
+  const fp = scores.reduce((sum, s) => sum + s.falsePositives, 0);
+  const fn = scores.reduce((sum, s) => sum + s.falseNegatives, 0);
+  return toFieldScore(tp, fp, fn);
+}
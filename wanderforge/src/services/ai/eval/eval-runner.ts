@@ -0,0 +1,144 @@
+// Extraction Eval Runner - score the chat pipeline against the golden chats
+// Runs fully offline: either the heuristics alone, or a mocked LLM whose canned answers
+// go through the real manager (schema coercion, provenance, reconciliation).
+import type {
+  ChatEvalResult,
+  EvalComparison,
+  EvalField,
+  EvalMode,
+  EvalReport,
+  FieldDelta,
+  FieldScore,
+  GoldenChat,
+} from '../types';
+import { ChatParserPipeline } from '../pipelines/chat-parser.pipeline';
+import { MockLLMProvider } from './mock-provider';
+import { GOLDEN_CHATS } from './fixtures/golden-chats';
+import { EVAL_FIELDS, extractFieldValues, scoreField, sumFieldScores } from './eval-metrics';
+
+// F1 drops smaller than this are rounding noise, not regressions
+const REGRESSION_TOLERANCE = 0.001;
+
+async function evaluateChat(chat: GoldenChat, mode: EvalMode): Promise<ChatEvalResult> {
+  const providers = mode === 'mocked-llm' ? [new MockLLMProvider(chat.llmResponse)] : [];
+  const pipeline = new ChatParserPipeline(undefined, { providers });
+  const result = await pipeline.process(chat.chat, { enrichPlaces: false, stream: false });
+
+  const fields = {} as Record<EvalField, FieldScore>;
+  for (const field of EVAL_FIELDS) {
+    fields[field] = scoreField(field, chat.expected[field], extractFieldValues(result, field));
+  }
+  return { id: chat.id, provider: result.stats.providersUsed.join(', '), fields };
+}
+
+export async function runExtractionEval(
+  mode: EvalMode,
+  chats: GoldenChat[] = GOLDEN_CHATS
+): Promise<EvalReport> {
+  const results: ChatEvalResult[] = [];
+  for (const chat of chats) {
+    results.push(await evaluateChat(chat, mode));
+  }
+
+  const totals = {} as Record<EvalField, FieldScore>;
+  for (const field of EVAL_FIELDS) {
+    totals[field] = sumFieldScores(results.map(r => r.fields[field]));
+  }
+
+  return { mode, generatedAt: new Date().toISOString(), chats: results, totals };
+}
+
+function delta(
+  chatId: string | null,
+  field: EvalField,
+  baseline: FieldScore,
+  current: FieldScore
+): FieldDelta {
+  return {
+    chatId,
+    field,
+    baselineF1: baseline.f1,
+    currentF1: current.f1,
+    newlyMissed: current.missed.filter(item => !baseline.missed.includes(item)),
+    newlyUnexpected: current.unexpected.filter(item => !baseline.unexpected.includes(item)),
+  };
+}
+
+/**
+ * Field-by-field F1 changes between a saved baseline and a fresh run.
+ * Chats missing from the baseline are new fixtures and are not compared.
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): EvalComparison {
+  const deltas: FieldDelta[] = [];
+
+  for (const field of EVAL_FIELDS) {
+    deltas.push(delta(null, field, baseline.totals[field], current.totals[field]));
+  }
+  for (const chat of current.chats) {
+    const before = baseline.chats.find(c => c.id === chat.id);
+    if (!before) continue;
+    for (const field of EVAL_FIELDS) {
+      deltas.push(delta(chat.id, field, before.fields[field], chat.fields[field]));
+    }
+  }
+
+  return {
+    regressions: deltas.filter(d => d.currentF1 < d.baselineF1 - REGRESSION_TOLERANCE),
+    improvements: deltas.filter(d => d.currentF1 > d.baselineF1 + REGRESSION_TOLERANCE),
+  };
+}
+
+function pct(value: number): string {
+  return `${Math.round(value * 100)}%`.padStart(5);
+}
+
+// Heuristic misfires can swallow several messages; keep the report one line per item
+function formatItem(item: string): string {
+  const flat = item.replace(/\s+/g, ' ').trim();
+  return flat.length > 80 ? `${flat.slice(0, 77)}...` : flat;
+}
+
+function formatDelta(d: FieldDelta): string[] {
+  const lines = [`  ${d.chatId ?? 'TOTAL'} / ${d.field}: F1 ${pct(d.baselineF1)} → ${pct(d.currentF1)}`];
+  for (const item of d.newlyMissed) lines.push(`    - missed: ${formatItem(item)}`);
+  for (const item of d.newlyUnexpected) lines.push(`    + unexpected: ${formatItem(item)}`);
+  return lines;
+}
+
+/**
+ * Plain-text report: totals table, per-chat misses, and the diff against a baseline when given
+ */
+export function formatEvalReport(report: EvalReport, comparison?: EvalComparison): string {
+  const lines: string[] = [`Extraction eval (${report.mode}, ${report.chats.length} chats)`, ''];
+
+  lines.push(`${'field'.padEnd(14)}${'P'.padStart(6)}${'R'.padStart(6)}${'F1'.padStart(6)}`);
+  for (const field of EVAL_FIELDS) {
+    const s = report.totals[field];
+    lines.push(`${field.padEnd(14)} ${pct(s.precision)} ${pct(s.recall)} ${pct(s.f1)}`);
+  }
+
+  for (const chat of report.chats) {
+    const misses = EVAL_FIELDS.flatMap(field => [
+      ...chat.fields[field].missed.map(item => `    - ${field} missed: ${formatItem(item)}`),
+      ...chat.fields[field].unexpected.map(item => `    + ${field} unexpected: ${formatItem(item)}`),
+    ]);
+    if (misses.length === 0) continue;
+    lines.push('', `  ${chat.id} (${chat.provider})`, ...misses);
+  }
+
+  if (comparison) {
+    lines.push('');
+    if (comparison.regressions.length === 0) {
+      lines.push('No regressions against baseline.');
+    } else {
+      lines.push(`REGRESSIONS (${comparison.regressions.length}):`);
+      comparison.regressions.forEach(d => lines.push(...formatDelta(d)));
+    }
+    if (comparison.improvements.length > 0) {
+      lines.push(`Improvements (${comparison.improvements.length}):`);
+      comparison.improvements.forEach(d => lines.push(...formatDelta(d)));
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,268 @@
+// Golden Chats - hand-annotated trip chats for the extraction eval
+// `expected` is what a careful human pulls out of the chat, not what the extractor currently returns.
+// `llmResponse` is a realistic model answer, used by the mocked-LLM mode to exercise everything
+// after the provider (schema coercion, provenance, window merge, reconciliation).
+import type { GoldenChat } from '../../types';
+
+const hampiChat: GoldenChat = {
+  id: 'hampi-plain-text',
+  description: 'Plain-text chat with memes, a consensus budget and several volunteers',
+  chat: `Yashas: Guys hampi trip pakka na? 🎉
+Naveen: Yesss been waiting!!!
+Jeeth: Same 😍😍
+Shrajan: Dates fix madi
+Yashas: December 15-18?
+Naveen: 14th night I reach actually
+Jeeth: works for me
+*Naveen sent a meme*
+Yashas: 😂😂😂
+Naveen: Budget discuss madi
+Yashas: 15k per head max?
+Jeeth: Can do 12-15k
+Shrajan: 15k is fine
+Naveen: Found this hostel - Gowri Resort ₹2k/night
+Yashas: Looks good! 4 beds?
+Naveen: Ya 4 bed dorm
+Shrajan: Book it
+Yashas: I'll book train tickets tomorrow
+Jeeth: What all places?
+Shrajan: Hampi ruins obviously
+Yashas: Virupaksha temple
+Naveen: Lotus mahal
+Jeeth: Hippie island!!
+Shrajan: Tungabhadra dam?
+Naveen: Maybe if time
+Shrajan: Train or bus?
+Yashas: Train - overnight = saves hotel
+Naveen: Smart 👍
+Jeeth: I'll make packing list
+Shrajan: I'll research guides
+Yashas: Rent bikes there for local travel
+Naveen: Ya that's cheapest
+Naveen: Guide needed for ruins?
+Shrajan: Researching...
+Shrajan: Coracle ride costs ₹500 - worth it?
+Naveen: Looks fun but expensive`,
+  expected: {
+    dates: ['December 15-18'],
+    budget: ['15000', '2000'],
+    places: ['Hampi', 'Gowri Resort', 'Virupaksha Temple', 'Lotus Mahal', 'Hippie Island', 'Tungabhadra Dam'],
+    tasks: ['Book train tickets', 'Make packing list', 'Research guides'],
+    decisions: ['Stay at Gowri Resort 4 bed dorm', 'Take the overnight train', 'Rent bikes for local travel'],
+    openQuestions: ['Is a guide needed for the ruins?', 'Is the coracle ride worth ₹500?'],
+  },
+  llmResponse: {
+    dates: [
+      { date: 'December 15-18', startDate: '2024-12-15', endDate: '2024-12-18', context: 'Yashas proposed, Jeeth agreed', confidence: 85, source: 'ai', proposedBy: 'Yashas', status: 'finalized' },
+    ],
+    budget: {
+      total: '₹15,000', currency: 'INR', perPerson: true, confidence: 80, source: 'ai', status: 'finalized',
+      breakdown: [{ item: 'Gowri Resort dorm', amount: '₹2,000/night' }],
+    },
+    places: [
+      { name: 'Hampi', type: 'destination', votes: 4, status: 'confirmed', mentionedBy: ['Yashas'], source: 'ai', confidence: 95 },
+      { name: 'Gowri Resort', type: 'hotel', votes: 2, status: 'confirmed', mentionedBy: ['Naveen'], source: 'ai', confidence: 85 },
+      { name: 'Virupaksha Temple', type: 'landmark', votes: 1, status: 'confirmed', mentionedBy: ['Yashas'], source: 'ai', confidence: 80 },
+      { name: 'Lotus Mahal', type: 'landmark', votes: 1, status: 'confirmed', mentionedBy: ['Naveen'], source: 'ai', confidence: 80 },
+      { name: 'Hippie Island', type: 'destination', votes: 1, status: 'confirmed', mentionedBy: ['Jeeth'], source: 'ai', confidence: 80 },
+      { name: 'Tungabhadra Dam', type: 'landmark', votes: 1, status: 'maybe', mentionedBy: ['Shrajan'], source: 'ai', confidence: 60 },
+    ],
+    tasks: [
+      { task: 'Book train tickets', assignee: 'Yashas', status: 'pending', deadline: 'tomorrow', source: 'ai' },
+      { task: 'Make packing list', assignee: 'Jeeth', status: 'pending', source: 'ai' },
+      { task: 'Research guides', assignee: 'Shrajan', status: 'in-progress', source: 'ai' },
+    ],
+    decisions: [
+      { decision: 'Stay at Gowri Resort (4 bed dorm)', participants: ['Naveen', 'Shrajan', 'Yashas'], confidence: 85, source: 'ai' },
+      { decision: 'Travel by overnight train', participants: ['Yashas', 'Naveen'], confidence: 80, source: 'ai' },
+      { decision: 'Rent bikes for local travel', participants: ['Yashas', 'Naveen'], confidence: 75, source: 'ai' },
+    ],
+    openQuestions: [
+      { question: 'Is a guide needed for the ruins?', participants: ['Naveen', 'Shrajan'], status: 'open' },
+      { question: 'Is the ₹500 coracle ride worth it?', participants: ['Shrajan', 'Naveen'], status: 'open' },
+    ],
+  },
+};
+
+const goaChat: GoldenChat = {
+  id: 'goa-whatsapp-android',
+  description: 'WhatsApp Android export with timestamps, media and competing budget proposals',
+  chat: `12/11/24, 9:02 pm - Priya: Goa plan for new year?? 🌴
+12/11/24, 9:03 pm - Arjun: YES
+12/11/24, 9:03 pm - Meera: in!!
+12/11/24, 9:05 pm - Priya: Dec 29 to Jan 2?
+12/11/24, 9:06 pm - Arjun: Dec 29 - Jan 2 works
+12/11/24, 9:06 pm - Meera: works for me too
+12/11/24, 9:08 pm - Rohan: <Media omitted>
+12/11/24, 9:10 pm - Arjun: budget? I was thinking 20k each
+12/11/24, 9:11 pm - Meera: 20k is too much for me, 12k?
+12/11/24, 9:12 pm - Rohan: somewhere in between, 15k
+12/11/24, 9:15 pm - Priya: North Goa for stay - Anjuna or Baga?
+12/11/24, 9:16 pm - Arjun: Anjuna, Baga is too crowded on NYE
+12/11/24, 9:16 pm - Meera: Anjuna 👍
+12/11/24, 9:17 pm - Rohan: Anjuna it is
+12/11/24, 9:20 pm - Priya: Must do Curlies for the party and Fort Aguada for sunset
+12/11/24, 9:21 pm - Meera: And Chapora Fort! Dil Chahta Hai vibes
+12/11/24, 9:25 pm - Arjun: I'll book the villa by Friday
+12/11/24, 9:26 pm - Rohan: I will check flight prices from Bangalore
+12/11/24, 9:28 pm - Meera: Should we rent scooters or a car?
+12/11/24, 9:30 pm - Priya: Who is handling the NYE party passes?
+12/11/24, 9:31 pm - Rohan: <Media omitted>`,
+  expected: {
+    dates: ['Dec 29 - Jan 2'],
+    budget: [],
+    places: ['Goa', 'Anjuna', 'Baga', 'Curlies', 'Fort Aguada', 'Chapora Fort'],
+    tasks: ['Book the villa', 'Check flight prices from Bangalore'],
+    decisions: ['Stay in Anjuna'],
+    openQuestions: ['Should we rent scooters or a car?', 'Who is handling the NYE party passes?', 'What is the budget per person?'],
+  },
+  llmResponse: {
+    dates: [
+      { date: 'Dec 29 - Jan 2', startDate: '2024-12-29', endDate: '2025-01-02', context: 'New year trip, everyone agreed', confidence: 90, source: 'ai', proposedBy: 'Priya', status: 'finalized' },
+    ],
+    budget: {
+      total: null, currency: 'INR', perPerson: true, breakdown: [], confidence: 40, source: 'ai', status: 'open',
+      proposals: [
+        { amount: '₹20,000', proposedBy: ['Arjun'] },
+        { amount: '₹12,000', proposedBy: ['Meera'] },
+        { amount: '₹15,000', proposedBy: ['Rohan'] },
+      ],
+    },
+    places: [
+      { name: 'Goa', type: 'destination', votes: 4, status: 'confirmed', mentionedBy: ['Priya'], source: 'ai', confidence: 95 },
+      { name: 'Anjuna', type: 'destination', votes: 3, status: 'confirmed', mentionedBy: ['Priya', 'Arjun', 'Meera', 'Rohan'], source: 'ai', confidence: 90 },
+      { name: 'Baga', type: 'destination', votes: 0, status: 'rejected', mentionedBy: ['Priya', 'Arjun'], source: 'ai', confidence: 70 },
+      // Stringly-typed votes and a "Maybe" status, as models often return
+      { name: 'Curlies', type: 'activity', votes: '1', status: 'Maybe', mentionedBy: 'Priya', source: 'ai', confidence: '75%' } as unknown as GoldenChat['llmResponse']['places'][number],
+      { name: 'Fort Aguada', type: 'landmark', votes: 1, status: 'maybe', mentionedBy: ['Priya'], source: 'ai', confidence: 75 },
+      { name: 'Chapora Fort', type: 'landmark', votes: 1, status: 'maybe', mentionedBy: ['Meera'], source: 'ai', confidence: 75 },
+    ],
+    tasks: [
+      { task: 'Book the villa', assignee: 'Arjun', status: 'pending', deadline: 'Friday', source: 'ai' },
+      { task: 'Check flight prices from Bangalore', assignee: 'Rohan', status: 'pending', source: 'ai' },
+    ],
+    decisions: [
+      { decision: 'Stay in Anjuna (Baga too crowded on NYE)', participants: ['Arjun', 'Meera', 'Rohan'], confidence: 90, source: 'ai' },
+    ],
+    openQuestions: [
+      { question: 'Rent scooters or a car?', participants: ['Meera'], status: 'open' },
+      { question: 'Who is handling the NYE party passes?', participants: ['Priya'], status: 'open' },
+      { question: 'Budget per person - 12k, 15k or 20k?', participants: ['Arjun', 'Meera', 'Rohan'], status: 'open' },
+    ],
+  },
+};
+
+const manaliChat: GoldenChat = {
+  id: 'manali-signal',
+  description: 'Signal export with an itemised budget, a deadline and a vote',
+  chat: `[2024-03-02 18:10] Kavya: Manali trip in April - April 12 to April 16
+[2024-03-02 18:11] Dev: 👍 works
+[2024-03-02 18:11] Ishaan: yes
+[2024-03-02 18:13] Kavya: Volvo bus from Delhi is 1500 per person one way
+[2024-03-02 18:14] Dev: Hotel in Old Manali around 2500 per night
+[2024-03-02 18:15] Ishaan: Solang valley paragliding is 3000
+[2024-03-02 18:16] Kavya: Total budget 18000 per person including everything
+[2024-03-02 18:16] Dev: 18k ok
+[2024-03-02 18:17] Ishaan: ok 18k
+[2024-03-02 18:20] Dev: Rohtang Pass needs a permit, I'll apply for it by March 20
+[2024-03-02 18:21] Kavya: I'll book the Volvo tickets
+[2024-03-02 18:22] Ishaan: Hadimba temple and Jogini falls also
+[2024-03-02 18:23] Kavya: Vote - cafe hopping in Old Manali on day 2?
+[2024-03-02 18:23] Dev: +1
+[2024-03-02 18:24] Ishaan: +1
+[2024-03-02 18:25] Dev: Do we need jackets or can we rent there?`,
+  expected: {
+    dates: ['April 12 to April 16'],
+    budget: ['18000', '1500', '2500', '3000'],
+    places: ['Manali', 'Old Manali', 'Solang Valley', 'Rohtang Pass', 'Hadimba Temple', 'Jogini Falls', 'Delhi'],
+    tasks: ['Apply for Rohtang Pass permit', 'Book the Volvo tickets'],
+    decisions: ['Total budget 18000 per person', 'Cafe hopping in Old Manali on day 2'],
+    openQuestions: ['Do we need jackets or can we rent there?'],
+  },
+  llmResponse: {
+    dates: [
+      { date: 'April 12-16', startDate: '2024-04-12', endDate: '2024-04-16', context: 'Kavya proposed, all agreed', confidence: 90, source: 'ai', proposedBy: 'Kavya', status: 'finalized' },
+    ],
+    budget: {
+      total: '₹18,000', currency: 'INR', perPerson: true, confidence: 90, source: 'ai', status: 'finalized',
+      breakdown: [
+        { item: 'Volvo bus Delhi-Manali (one way)', amount: '₹1,500' },
+        { item: 'Hotel in Old Manali per night', amount: '₹2,500' },
+        { item: 'Solang valley paragliding', amount: '₹3,000' },
+      ],
+    },
+    places: [
+      { name: 'Manali', type: 'destination', votes: 3, status: 'confirmed', mentionedBy: ['Kavya'], source: 'ai', confidence: 95 },
+      { name: 'Old Manali', type: 'destination', votes: 3, status: 'confirmed', mentionedBy: ['Dev', 'Kavya'], source: 'ai', confidence: 85 },
+      { name: 'Solang Valley', type: 'activity', votes: 1, status: 'confirmed', mentionedBy: ['Ishaan'], source: 'ai', confidence: 80 },
+      { name: 'Rohtang Pass', type: 'landmark', votes: 1, status: 'confirmed', mentionedBy: ['Dev'], source: 'ai', confidence: 80 },
+      { name: 'Hadimba Temple', type: 'landmark', votes: 1, status: 'maybe', mentionedBy: ['Ishaan'], source: 'ai', confidence: 70 },
+      { name: 'Jogini Falls', type: 'landmark', votes: 1, status: 'maybe', mentionedBy: ['Ishaan'], source: 'ai', confidence: 70 },
+    ],
+    tasks: [
+      { task: 'Apply for Rohtang Pass permit', assignee: 'Dev', status: 'pending', deadline: 'March 20', priority: 'high', source: 'ai' },
+      { task: 'Book the Volvo tickets', assignee: 'Kavya', status: 'pending', source: 'ai' },
+    ],
+    decisions: [
+      { decision: 'Budget: ₹18,000 per person', participants: ['Kavya', 'Dev', 'Ishaan'], confirmed: true, confidence: 90, source: 'ai' },
+      { decision: 'Cafe hopping in Old Manali on day 2', participants: ['Dev', 'Ishaan'], confirmed: true, confidence: 85, source: 'ai' },
+    ],
+    openQuestions: [
+      { question: 'Do we need jackets or can we rent there?', participants: ['Dev'], status: 'open' },
+    ],
+  },
+};
+
+const coorgChat: GoldenChat = {
+  id: 'coorg-ios-conditional',
+  description: 'WhatsApp iOS export with a conditional plan and a resolved question',
+  chat: `[05/01/25, 10:00:12] Ananya: Coorg weekend? 25th-26th January
+[05/01/25, 10:01:40] Vikram: I'm in if we leave Friday night
+[05/01/25, 10:02:05] Sneha: same
+[05/01/25, 10:04:33] Ananya: Homestay near Madikeri, 3000 per night for all of us
+[05/01/25, 10:05:10] Vikram: Abbey Falls and Raja's Seat for sure
+[05/01/25, 10:06:00] Sneha: Dubare elephant camp if it's open in January
+[05/01/25, 10:07:30] Ananya: It is open, I checked
+[05/01/25, 10:08:45] Vikram: I'll drive, Sneha can you share fuel cost?
+[05/01/25, 10:09:10] Sneha: yes I'll split fuel with you
+[05/01/25, 10:10:00] Ananya: I'll book the homestay tonight
+[05/01/25, 10:12:20] Vikram: Should we do the Tadiandamol trek if weather is good?`,
+  expected: {
+    dates: ['25th-26th January'],
+    budget: ['3000'],
+    places: ['Coorg', 'Madikeri', 'Abbey Falls', "Raja's Seat", 'Dubare Elephant Camp', 'Tadiandamol'],
+    tasks: ['Book the homestay', 'Split fuel cost'],
+    decisions: ['Leave Friday night and drive'],
+    openQuestions: ['Should we do the Tadiandamol trek if weather is good?'],
+  },
+  llmResponse: {
+    dates: [
+      { date: '25th-26th January', startDate: '2025-01-25', endDate: '2025-01-26', context: 'Weekend, leave Friday night', confidence: 85, source: 'ai', proposedBy: 'Ananya', status: 'finalized' },
+    ],
+    budget: {
+      total: null, currency: 'INR', perPerson: false, confidence: 60, source: 'ai', status: 'open',
+      breakdown: [{ item: 'Homestay near Madikeri per night', amount: '₹3,000', assignee: 'Ananya' }],
+    },
+    places: [
+      { name: 'Coorg', type: 'destination', votes: 3, status: 'confirmed', mentionedBy: ['Ananya'], source: 'ai', confidence: 95 },
+      { name: 'Madikeri', type: 'destination', votes: 1, status: 'confirmed', mentionedBy: ['Ananya'], source: 'ai', confidence: 80 },
+      { name: 'Abbey Falls', type: 'landmark', votes: 1, status: 'confirmed', mentionedBy: ['Vikram'], source: 'ai', confidence: 85 },
+      { name: "Raja's Seat", type: 'landmark', votes: 1, status: 'confirmed', mentionedBy: ['Vikram'], source: 'ai', confidence: 85 },
+      { name: 'Dubare Elephant Camp', type: 'activity', votes: 1, status: 'confirmed', mentionedBy: ['Sneha'], source: 'ai', confidence: 80 },
+      { name: 'Tadiandamol', type: 'activity', votes: 1, status: 'maybe', mentionedBy: ['Vikram'], source: 'ai', confidence: 60 },
+    ],
+    tasks: [
+      { task: 'Book the homestay', assignee: 'Ananya', status: 'pending', deadline: 'tonight', source: 'ai' },
+      { task: 'Split fuel cost', assignee: 'Sneha', status: 'pending', source: 'ai' },
+    ],
+    decisions: [
+      { decision: 'Leave Friday night, Vikram drives', participants: ['Vikram', 'Sneha'], confidence: 80, source: 'ai' },
+    ],
+    openQuestions: [
+      { question: 'Is Dubare elephant camp open in January?', participants: ['Sneha', 'Ananya'], status: 'resolved' },
+      { question: 'Tadiandamol trek if weather is good?', participants: ['Vikram'], status: 'conditional' },
+    ],
+  },
+};
+
+export const GOLDEN_CHATS: GoldenChat[] = [hampiChat, goaChat, manaliChat, coorgChat];
@@ -0,0 +1,5 @@
+// Eval exports
+export { runExtractionEval, compareReports, formatEvalReport } from './eval-runner';
+export { scoreField, extractFieldValues, sumFieldScores, parseAmount, EVAL_FIELDS } from './eval-metrics';
+export { MockLLMProvider } from './mock-provider';
+export { GOLDEN_CHATS } from './fixtures/golden-chats';
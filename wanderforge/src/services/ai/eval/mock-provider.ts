@@ -0,0 +1,28 @@
+// Mock LLM Provider - answers every prompt with a canned extraction
+// Registered under a real provider name so the manager routes, validates and records it like any other.
+import type { LLMProviderName, LLMPrompt, LLMResponse, ChatExtractionResult } from '../types';
+
+export class MockLLMProvider {
+  private response: Omit<ChatExtractionResult, 'stats'>;
+  private providerName: LLMProviderName;
+
+  constructor(response: Omit<ChatExtractionResult, 'stats'>, name: LLMProviderName = 'gemini') {
+    this.response = response;
+    this.providerName = name;
+  }
+
+  get name(): LLMProviderName {
+    return this.providerName;
+  }
+
+  async sendRequest<T>(_prompt: LLMPrompt): Promise<LLMResponse<T>> {
+    // A fresh copy each call; the schema coerces in place
+    return {
+      success: true,
+      data: JSON.parse(JSON.stringify(this.response)) as T,
+      provider: this.providerName,
+      latencyMs: 0,
+      model: 'mock',
+    };
+  }
+}
@@ -1,15 +1,26 @@
 // Heuristic Budget Extraction - V3.2 with Consensus Detection
+// Multi-currency: ₹/$/€/£ amounts, lakh/crore/k notation; bare "15k" takes the chat's usual currency.
 import type { ExtractedBudget, BudgetItem, BudgetProposal, RawChatMessage } from '../types';
+import type { CurrencyCode, Money } from '../../money';
+import {
+  convertMoney,
+  detectCurrency,
+  dominantCurrency,
+  formatMoney,
+  isCurrencyCode,
+  normalizeBudget,
+  parseMoney,
+} from '../../money';
+import { messageIndexAt, sourcesFor } from './message-source';
 
 interface CurrencyPattern {
   pattern: RegExp;
-  currency: string;
-  symbol: string;
+  currency: CurrencyCode | null;  // null: the chat's usual currency
 }
 
 // Money context signals - amount must have these in context to be valid
 const MONEY_CONTEXT_SIGNALS = [
-  'k', 'K', '₹', 'rs', 'inr', 'budget', 'cost', 'price',
+  'k', 'K', '₹', 'rs', 'inr', '$', '€', '£', 'usd', 'eur', 'lakh', 'crore', 'budget', 'cost', 'price',
   'per person', 'per night', 'per head', 'each', 'total',
   'stay', 'hotel', 'hostel', 'resort', 'room',
   'train', 'bus', 'flight', 'cab', 'taxi', 'travel', 'ticket',
@@ -34,18 +45,24 @@ function isMediaContext(context: string): boolean {
   return MEDIA_INDICATORS.some(m => lower.includes(m));
 }
 
-// Enhanced currency patterns for Indian informal chat
+// Enhanced currency patterns for Indian informal chat (and the odd dollar/euro trip)
 const CURRENCY_PATTERNS: CurrencyPattern[] = [
+  // Lakh/crore: "1.5 lakh", "₹2L", "₹2 L", "1 cr" (a bare "l" needs the number or a rupee sign: "5 l water" is litres)
+  { pattern: /(?:₹|rs\.?|inr)\s*(\d+(?:\.\d+)?)\s*l\b|(?:₹|rs\.?|inr)?\s*\b(\d+(?:\.\d+)?)(?:l|\s*(?:lakhs?|lacs?|crores?|cr))\b/gi, currency: 'INR' },
   // Indian Rupees with k notation: "10k", "15k", "1.8k"
-  { pattern: /(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d+)?)\s*k\b/gi, currency: 'INR', symbol: '₹' },
+  { pattern: /(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d+)?)\s*k\b/gi, currency: 'INR' },
   // Standard: ₹15,000 or Rs. 15000 or INR 15000
-  { pattern: /(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d{2})?)/gi, currency: 'INR', symbol: '₹' },
+  { pattern: /(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d{2})?)/gi, currency: 'INR' },
+  // Suffixed: "1,50,000 rs", "5000 rupees"
+  { pattern: /\b([\d,]+(?:\.\d+)?)\s*(?:rs|inr|rupees?)\b/gi, currency: 'INR' },
+  // US Dollars: "$400", "USD 1.2k", "400 dollars"
+  { pattern: /(?:us\$|\$|usd)\s*([\d,]+(?:\.\d+)?)(?:\s*k\b)?|\b([\d,]+(?:\.\d+)?)\s*(?:usd|dollars?|bucks)\b/gi, currency: 'USD' },
+  // Euros: "€300", "300 euros"
+  { pattern: /(?:€|eur)\s*([\d,]+(?:\.\d+)?)(?:\s*k\b)?|\b([\d,]+(?:\.\d+)?)\s*(?:eur|euros?)\b/gi, currency: 'EUR' },
+  // Pounds: "£250", "250 pounds"
+  { pattern: /(?:£|gbp)\s*([\d,]+(?:\.\d+)?)(?:\s*k\b)?|\b([\d,]+(?:\.\d+)?)\s*(?:gbp|pounds?)\b/gi, currency: 'GBP' },
   // Standalone k notation: "10-12k", "15k max"
-  { pattern: /\b([\d,]+(?:\.\d+)?)\s*k\b(?!\w)/gi, currency: 'INR', symbol: '₹' },
-  // US Dollars
-  { pattern: /(?:\$|usd)\s*([\d,]+(?:\.\d{2})?)/gi, currency: 'USD', symbol: '$' },
-  // Euros
-  { pattern: /(?:€|eur)\s*([\d,]+(?:\.\d{2})?)/gi, currency: 'EUR', symbol: '€' },
+  { pattern: /\b([\d,]+(?:\.\d+)?)\s*k\b(?!\w)/gi, currency: null },
 ];
 
 // Check if context has money-related signals
@@ -53,8 +70,8 @@ function hasMoneyContext(context: string, matchedText: string): boolean {
   const lower = context.toLowerCase();
   const matched = matchedText.toLowerCase();
 
-  // If it has currency symbol or k notation, it's definitely money
-  if (/₹|rs\.?|inr|\$|€/i.test(matched) || /\d+k\b/i.test(matched)) {
+  // If it has currency symbol, k or lakh/crore notation, it's definitely money
+  if (/₹|rs\.?|inr|\$|€|£|usd|eur|dollar|euro|pound|rupee/i.test(matched) || /\d+(?:l|\s*(?:k|lakhs?|lacs?|cr|crores?))\b/i.test(matched)) {
     return true;
   }
 
@@ -81,8 +98,8 @@ function isDateLike(matchedText: string, context: string): boolean {
   return false;
 }
 
-// Range pattern: "10-12k", "10k-15k", "₹10,000-15,000"
-const RANGE_PATTERN = /(?:₹|rs\.?|inr)?\s*([\d,]+(?:\.\d+)?)\s*k?\s*[-–to]+\s*([\d,]+(?:\.\d+)?)\s*k?/gi;
+// Range pattern: "10-12k", "10k-15k", "₹10,000-15,000", "$300-400", "1-1.5 lakh"
+const RANGE_PATTERN = /(?:₹|rs\.?|inr|\$|usd|€|eur|£)?\s*([\d,]+(?:\.\d+)?)(\s*(?:k|lakhs?)|l)?\s*[-–to]+\s*([\d,]+(?:\.\d+)?)(\s*(?:k|lakhs?)|l)?(?![a-z])/gi;
 
 // Per-person/night patterns
 const PER_PERSON_PATTERN = /per\s*(?:person|head|pax)|each|\/person|\/head|per\s*head/i;
@@ -103,26 +120,27 @@ function getContext(text: string, matchIndex: number, radius: number = 80): stri
   return text.slice(start, end).replace(/\n/g, ' ').trim();
 }
 
-function parseAmount(amountStr: string, hasKSuffix: boolean = false): number {
-  // Remove commas and parse
-  let amount = parseFloat(amountStr.replace(/,/g, ''));
-
-  // Handle 'k' suffix (e.g., 15k = 15000, 1.8k = 1800)
-  if (hasKSuffix || /k$/i.test(amountStr)) {
-    amount *= 1000;
-  }
+// Range ends share one multiplier: "10-12k" is 10000-12000
+function parseRangeAmount(amountStr: string, multiplier: string | undefined, currency: CurrencyCode): number {
+  return parseMoney(`${amountStr}${multiplier ?? ''}`, currency)?.amount ?? 0;
+}
 
-  return amount;
+// Below ~₹100 is bus fare or a time of day, not a budget, in any currency
+function isTooSmall(money: Money): boolean {
+  return convertMoney(money, 'INR').amount < 100;
 }
 
-function formatCurrency(amount: number, symbol: string): string {
-  if (amount >= 100000) {
-    return `${symbol}${(amount / 100000).toFixed(1)}L`;
+/**
+ * The currency this chat mostly talks in, from amounts that name one explicitly
+ */
+function chatCurrency(text: string): CurrencyCode {
+  const explicit: Money[] = [];
+  for (const { pattern, currency } of CURRENCY_PATTERNS) {
+    if (!currency) continue;
+    const count = text.match(new RegExp(pattern.source, pattern.flags))?.length ?? 0;
+    for (let i = 0; i < count; i++) explicit.push({ amount: 0, currency });
   }
-  if (amount >= 1000) {
-    return `${symbol}${amount.toLocaleString('en-IN')}`;
-  }
-  return `${symbol}${amount}`;
+  return dominantCurrency(explicit, 'INR');
 }
 
 function detectCategory(context: string): string {
@@ -156,6 +174,19 @@ function findProposer(context: string, messages: RawChatMessage[]): string | und
   return undefined;
 }
 
+// The message an amount was written in and who wrote it
+function attribution(
+  text: string,
+  offset: number,
+  context: string,
+  messages: RawChatMessage[]
+): { proposedBy?: string; message?: RawChatMessage } {
+  const message = messages[messageIndexAt(text, offset, messages)];
+  return message
+    ? { proposedBy: message.sender, message }
+    : { proposedBy: findProposer(context, messages) };  // V3.2
+}
+
 // V3.2: Normalize budget amount for grouping similar proposals
 function normalizeBudgetAmount(amount: number, maxAmount?: number): string {
   // Round to nearest 1000 for grouping
@@ -168,11 +199,11 @@ function normalizeBudgetAmount(amount: number, maxAmount?: number): string {
 }
 
 export function extractBudgetHeuristic(text: string, messages: RawChatMessage[] = []): ExtractedBudget | null {
+  const defaultCurrency = chatCurrency(text);
   const amounts: {
     amount: number;
     maxAmount?: number;
-    currency: string;
-    symbol: string;
+    currency: CurrencyCode;
     context: string;
     index: number;
     isRange: boolean;
@@ -180,6 +211,7 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
     perNight: boolean;
     category: string;
     proposedBy?: string;  // V3.2
+    message?: RawChatMessage;  // Where the amount was written
   }[] = [];
 
   // First, extract ranges (e.g., "10-12k", "₹10,000-15,000")
@@ -190,8 +222,10 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
     const context = getContext(text, match.index);
     const matchedText = match[0];
     const hasK = /k/i.test(matchedText);
-    const minAmount = parseAmount(match[1], hasK);
-    const maxAmount = parseAmount(match[2], hasK);
+    // "$300-400": the symbol may also trail the range ("300-400 euros")
+    const currency = detectCurrency(text.slice(match.index, match.index + matchedText.length + 10)) ?? defaultCurrency;
+    const minAmount = parseRangeAmount(match[1], match[2] ?? match[4], currency);
+    const maxAmount = parseRangeAmount(match[3], match[4] ?? match[2], currency);
 
     // V2 FIX: Skip if no money context or looks like a date
     if (!hasMoneyContext(context, matchedText)) continue;
@@ -201,34 +235,35 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
     if (isMediaContext(context)) continue;
 
     // V2+V3 FIX: Minimum amount threshold (100 INR) - strict enforcement
-    if (minAmount < 100 && !hasK) continue;
+    if (isTooSmall({ amount: minAmount, currency }) && !hasK) continue;
 
     if (minAmount > 0 && maxAmount > 0 && maxAmount >= minAmount) {
       amounts.push({
         amount: minAmount,
         maxAmount,
-        currency: 'INR',
-        symbol: '₹',
+        currency,
         context,
         index: match.index,
         isRange: true,
         perPerson: PER_PERSON_PATTERN.test(context),
         perNight: PER_NIGHT_PATTERN.test(context),
         category: detectCategory(context),
-        proposedBy: findProposer(context, messages),  // V3.2
+        ...attribution(text, match.index, context, messages),
       });
     }
   }
 
   // Then extract single amounts
-  for (const { pattern, currency, symbol } of CURRENCY_PATTERNS) {
-    const regex = new RegExp(pattern.source, pattern.flags);
+  for (const pattern of CURRENCY_PATTERNS) {
+    const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags);
+    const currency = pattern.currency ?? defaultCurrency;
 
     while ((match = regex.exec(text)) !== null) {
       const context = getContext(text, match.index);
       const matchedText = match[0];
-      const hasK = /k/i.test(matchedText);
-      const amount = parseAmount(match[1], hasK);
+      const matchStart = match.index;
+      const hasK = /\d\s*k\b/i.test(matchedText);
+      const amount = parseMoney(matchedText, currency)?.amount ?? 0;
 
       // V2 FIX: Skip if no money context or looks like a date
       if (!hasMoneyContext(context, matchedText)) continue;
@@ -239,26 +274,28 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
 
       // V2+V3 FIX: Minimum amount threshold (100 INR) - strict enforcement
       // Only allow amounts < 100 if they have explicit currency symbol AND k notation
-      if (amount < 100 && !hasK) continue;
+      if (isTooSmall({ amount, currency }) && !hasK) continue;
 
       // Skip if this is part of a range we already captured
       const isPartOfRange = amounts.some(a =>
         a.isRange &&
-        Math.abs(match!.index - a.index) < 30
+        Math.abs(matchStart - a.index) < 30
       );
 
-      if (amount > 0 && !isPartOfRange) {
+      // Same text already read by an earlier pattern ("₹2L" is not also "₹2")
+      const isDuplicate = amounts.some(a => Math.abs(matchStart - a.index) < matchedText.length);
+
+      if (amount > 0 && !isPartOfRange && !isDuplicate) {
         amounts.push({
           amount,
           currency,
-          symbol,
           context,
           index: match.index,
           isRange: false,
           perPerson: PER_PERSON_PATTERN.test(context),
           perNight: PER_NIGHT_PATTERN.test(context),
           category: detectCategory(context),
-          proposedBy: findProposer(context, messages),  // V3.2
+          ...attribution(text, match.index, context, messages),
         });
       }
     }
@@ -282,7 +319,7 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
     // Only group "Total" category for consensus checking
     if (a.category !== 'Total' && !a.perPerson) continue;
 
-    const key = normalizeBudgetAmount(a.amount, a.maxAmount);
+    const key = `${a.currency}:${normalizeBudgetAmount(a.amount, a.maxAmount)}`;
     if (!proposalGroups.has(key)) {
       proposalGroups.set(key, { proposers: new Set(), amounts: [] });
     }
@@ -296,11 +333,13 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
   // V3.2: Check if any budget has consensus (2+ different proposers)
   let hasConsensus = false;
   let consensusAmount: typeof amounts[0] | null = null;
+  let consensusGroup: typeof amounts = [];
 
   for (const [_, group] of proposalGroups) {
     if (group.proposers.size >= 2) {
       hasConsensus = true;
       consensusAmount = group.amounts[0];
+      consensusGroup = group.amounts;
       break;
     }
   }
@@ -308,9 +347,9 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
   // V3.2: Create proposals list for display when no consensus
   const proposals: BudgetProposal[] = [];
   for (const a of deduped.filter(x => x.category === 'Total' || x.perPerson)) {
-    let amountStr = formatCurrency(a.amount, a.symbol);
+    let amountStr = formatMoney({ amount: a.amount, currency: a.currency });
     if (a.isRange && a.maxAmount) {
-      amountStr = `${amountStr} - ${formatCurrency(a.maxAmount, a.symbol)}`;
+      amountStr = `${amountStr} - ${formatMoney({ amount: a.maxAmount, currency: a.currency })}`;
     }
 
     // Check if this amount is already in proposals
@@ -324,6 +363,7 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
         amount: amountStr,
         proposedBy: a.proposedBy ? [a.proposedBy] : [],
         context: cleanContext(a.context),
+        money: { amount: a.amount, currency: a.currency },
       });
     }
   }
@@ -334,10 +374,11 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
 
   if (hasConsensus && consensusAmount) {
     budgetEntry = consensusAmount;
+    const low = formatMoney({ amount: budgetEntry.amount, currency: budgetEntry.currency });
     if (budgetEntry.isRange && budgetEntry.maxAmount) {
-      totalStr = `${formatCurrency(budgetEntry.amount, budgetEntry.symbol)} - ${formatCurrency(budgetEntry.maxAmount, budgetEntry.symbol)}`;
+      totalStr = `${low} - ${formatMoney({ amount: budgetEntry.maxAmount, currency: budgetEntry.currency })}`;
     } else {
-      totalStr = formatCurrency(budgetEntry.amount, budgetEntry.symbol);
+      totalStr = low;
     }
   }
 
@@ -346,9 +387,9 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
     .filter(a => a.category !== 'Total' && !a.perPerson)
     .slice(0, 6)
     .map(a => {
-      let amountStr = formatCurrency(a.amount, a.symbol);
+      let amountStr = formatMoney({ amount: a.amount, currency: a.currency });
       if (a.isRange && a.maxAmount) {
-        amountStr = `${amountStr} - ${formatCurrency(a.maxAmount, a.symbol)}`;
+        amountStr = `${amountStr} - ${formatMoney({ amount: a.maxAmount, currency: a.currency })}`;
       }
       if (a.perNight) {
         amountStr += '/night';
@@ -358,6 +399,8 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
         item: a.category,
         amount: amountStr,
         notes: cleanContext(a.context),
+        money: { amount: a.amount, currency: a.currency },
+        sources: sourcesFor([a.message]),
       };
     });
 
@@ -371,10 +414,41 @@ export function extractBudgetHeuristic(text: string, messages: RawChatMessage[]
     total: totalStr,  // V3.2: null if no consensus
     currency: budgetEntry?.currency || 'INR',
     perPerson: budgetEntry?.perPerson || false,
+    // A range budgets for its low end
+    money: hasConsensus ? { amount: budgetEntry.amount, currency: budgetEntry.currency } : null,
     breakdown,
     confidence: Math.min(confidence, 90),
     source: 'heuristic',
     status: hasConsensus ? 'finalized' : 'open',  // V3.2
     proposals: hasConsensus ? undefined : proposals,  // V3.2: Only show proposals if no consensus
+    // The agreeing messages, or every proposal while it's still open
+    sources: sourcesFor((hasConsensus ? consensusGroup : deduped.filter(x => x.category === 'Total' || x.perPerson))
+      .map(a => a.message)),
+  };
+}
+
+/**
+ * Fill in `money` from the display strings where an LLM left it out, then express the
+ * agreed budget per person and for the group. Open budgets (no consensus) stay unnormalized.
+ */
+export function normalizeExtractedBudget(
+  budget: ExtractedBudget | null,
+  members: number = 1,
+  baseCurrency?: CurrencyCode
+): ExtractedBudget | null {
+  if (!budget) return null;
+
+  const stated = isCurrencyCode(budget.currency) ? budget.currency : 'INR';
+  const parse = (amount: string): Money | undefined => parseMoney(amount, stated) ?? undefined;
+
+  const money = budget.money ?? (budget.total ? parseMoney(budget.total, stated) : null);
+  return {
+    ...budget,
+    money,
+    breakdown: budget.breakdown.map(item => ({ ...item, money: item.money ?? parse(item.amount) })),
+    proposals: budget.proposals?.map(p => ({ ...p, money: p.money ?? parse(p.amount) })),
+    normalized: money
+      ? normalizeBudget(money, budget.perPerson, members, baseCurrency ?? money.currency)
+      : undefined,
   };
 }
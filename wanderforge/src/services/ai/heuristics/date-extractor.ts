@@ -1,7 +1,22 @@
 // Heuristic Date Extraction using Regex - V3.2 with Consensus Detection
 import type { ExtractedDate, RawChatMessage } from '../types';
+import { dateInContext, findMessageAnchor, getMessageAnchor, resolveDateExpression } from './date-resolver';
+import { addSource, messageIndexAt, sourcesFor } from './message-source';
 
+const MONTH_NAMES = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// Ranges come first; a shorter match inside an already-found range is skipped
 const DATE_PATTERNS = [
+  // "April 12 to April 16" or "Dec 29 - Jan 2"
+  {
+    pattern: new RegExp(`\\b(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\s*(?:-|–|to|till)\\s*(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'gi'),
+    confidence: 80,
+  },
+  // "25th-26th January" or "24 to 27th Jan"
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s*(?:-|–|to|till)\\s*(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\b`, 'gi'),
+    confidence: 80,
+  },
   // "December 15-18, 2024" or "Dec 15-18" or "Jan 24-26"
   {
     pattern: /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\s+(\d{1,2})(?:\s*[-–to]+\s*(\d{1,2}))?,?\s*(\d{4})?\b/gi,
@@ -17,14 +32,19 @@ const DATE_PATTERNS = [
     pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\s+(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\b/gi,
     confidence: 75,
   },
+  // "24 to 27th" or "24th-26th" (month comes from when it was said)
+  {
+    pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\s*(?:-|–|to|till)\s*(\d{1,2})(?:st|nd|rd|th)\b/gi,
+    confidence: 70,
+  },
   // "24th night" or "25th morning" (Indian informal)
   {
     pattern: /\b(\d{1,2})(?:st|nd|rd|th)\s*(?:night|morning|evening)?\b/gi,
     confidence: 70,
   },
-  // "next weekend", "this friday"
+  // "next weekend", "this friday", "long weekend"
   {
-    pattern: /\b(this|next)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday|week(?:end)?)\b/gi,
+    pattern: /\b(?:(?:this|next|coming)\s+)?long\s+weekend\b|\b(this|next|coming)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday|week(?:end)?)\b/gi,
     confidence: 60,
   },
 ];
@@ -43,12 +63,19 @@ function normalizeDateRange(dateStr: string): string {
   return numbers.join('-');
 }
 
+// Resolved calendar ranges compare exactly ("Dec 15-18" = "15th-18th December");
+// unresolvable text falls back to its digits
+function rangeKeyFor(dateStr: string, startDate?: string, endDate?: string): string {
+  return startDate ? `${startDate}|${endDate || startDate}` : normalizeDateRange(dateStr);
+}
+
 // V3.2: Find who proposed each date from messages
 function findProposer(text: string, dateStr: string, messages: RawChatMessage[]): string | undefined {
+  // Whoever wrote it exactly like this, even if someone mentioned the same numbers earlier
+  const exact = messages.find(msg => msg.sender && msg.content.includes(dateStr));
+  if (exact) return exact.sender;
+
   for (const msg of messages) {
-    if (msg.content.includes(dateStr) && msg.sender) {
-      return msg.sender;
-    }
     // Also check for partial matches (just the numbers)
     const numbers = dateStr.match(/\d+/g);
     if (numbers && numbers.some(n => msg.content.includes(n)) && msg.sender) {
@@ -65,7 +92,9 @@ function findProposer(text: string, dateStr: string, messages: RawChatMessage[])
 export function extractDatesHeuristic(text: string, messages: RawChatMessage[] = []): ExtractedDate[] {
   const dates: ExtractedDate[] = [];
   const seenDates = new Set<string>();
+  const matchedSpans: Array<[number, number]> = [];
   const dateProposals = new Map<string, Set<string>>(); // normalized range → proposers
+  const listed = new Map<string, ExtractedDate>(); // written form and range → item
 
   for (const { pattern, confidence } of DATE_PATTERNS) {
     const regex = new RegExp(pattern.source, pattern.flags);
@@ -74,37 +103,68 @@ export function extractDatesHeuristic(text: string, messages: RawChatMessage[] =
     while ((match = regex.exec(text)) !== null) {
       const dateStr = match[0].trim();
       const normalized = dateStr.toLowerCase();
+      const matchStart = match.index;
+      const matchEnd = matchStart + match[0].length;
+
+      // "26th January" inside "25th-26th January" is the same date, not another one
+      if (matchedSpans.some(([start, end]) => matchStart < end && matchEnd > start)) continue;
+      matchedSpans.push([matchStart, matchEnd]);
+
+      const messageIndex = messageIndexAt(text, matchStart, messages);
+      const message = messages[messageIndex];
 
       // Skip if we've already found this exact date
-      if (seenDates.has(normalized)) continue;
+      if (seenDates.has(normalized)) {
+        addSource(listed.get(normalized), message);
+        continue;
+      }
       seenDates.add(normalized);
 
       const context = getContext(text, match.index);
-      const proposedBy = findProposer(text, dateStr, messages);
+      const proposedBy = message ? message.sender : findProposer(text, dateStr, messages);
+      // Anchored to the message that said it, so "next weekend" becomes real dates
+      const resolved = resolveDateExpression(
+        dateInContext(text, matchStart, matchEnd),
+        message ? getMessageAnchor(messages, messageIndex) : findMessageAnchor(messages, dateStr)
+      );
 
       // V3.2: Track proposals by normalized range
-      const rangeKey = normalizeDateRange(dateStr);
-      if (!dateProposals.has(rangeKey)) {
+      const rangeKey = rangeKeyFor(dateStr, resolved?.startDate, resolved?.endDate);
+      const alreadyListed = dateProposals.has(rangeKey);
+      if (!alreadyListed) {
         dateProposals.set(rangeKey, new Set());
       }
       if (proposedBy) {
         dateProposals.get(rangeKey)!.add(proposedBy);
       }
+      // Same calendar range written differently ("Dec 29 to Jan 2" / "Dec 29 - Jan 2") is one date, two votes
+      if (alreadyListed && resolved) {
+        const existing = listed.get(rangeKey);
+        addSource(existing, message);
+        if (existing) listed.set(normalized, existing);
+        continue;
+      }
 
-      dates.push({
+      const date: ExtractedDate = {
         date: dateStr,
+        startDate: resolved?.startDate,
+        endDate: resolved?.endDate,
         context,
         confidence,
         source: 'heuristic',
         proposedBy,
         status: 'open', // Default to open, will update below
-      });
+        sources: sourcesFor([message]),
+      };
+      dates.push(date);
+      listed.set(normalized, date);
+      if (!listed.has(rangeKey)) listed.set(rangeKey, date);
     }
   }
 
   // V3.2: Check for consensus - mark as finalized only if 2+ DIFFERENT people proposed EXACT same range
   for (const date of dates) {
-    const rangeKey = normalizeDateRange(date.date);
+    const rangeKey = rangeKeyFor(date.date, date.startDate, date.endDate);
     const proposers = dateProposals.get(rangeKey);
 
     // Only mark as finalized if 2+ different people agree on exact same range
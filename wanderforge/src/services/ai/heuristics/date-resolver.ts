@@ -0,0 +1,372 @@
+// Date Resolver - turn chat date expressions into calendar dates
+// "next weekend", "24th night", "from 24 to 27th", "Dec 29 - Jan 2" only mean something relative to
+// when they were said, so every expression is anchored to its message's timestamp.
+// Dates are local calendar days (YYYY-MM-DD), matching how the importer reads export timestamps.
+import type { ExtractedDate, RawChatMessage } from '../types';
+
+export interface ResolvedDateRange {
+  startDate: string;  // YYYY-MM-DD
+  endDate: string;    // YYYY-MM-DD, same as startDate for a single day
+}
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const SEP = '\\s*(?:-|–|to|till|until)\\s*';
+const YEAR = '(?:,?\\s*(\\d{4}))?';
+
+const MONTH_INDEX: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// A day without an ordinal ("24 to 27") is only a date next to one of these: "from 24 to 27", "sat 24-26"
+const WEEKDAY = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tues?|wed|thu(?:rs?)?|fri|sat|sun)';
+const LEAD_IN = new RegExp(`\\b(?:on|from|till|until|by|since|${WEEKDAY})\\s+(?:the\\s+)?$`, 'i');
+const LEAD_OUT = new RegExp(`^\\s*(?:${WEEKDAY}|night|morning|afternoon|evening)\\b`, 'i');
+const WEEKDAY_BEFORE = new RegExp(`\\b(${WEEKDAY})\\s+(?:the\\s+)?$`, 'i');
+const WEEKDAY_AFTER = new RegExp(`^\\s*(${WEEKDAY})\\b`, 'i');
+
+// An ordinal is a date on its own ("24th"), unless it ranks something ("3rd floor", "2nd day")
+const RANKED = /^\s*(?:floor|time|place|row|round|gear|class|grade|attempt|stop|day)s?\b/i;
+const ORDINAL = /\d(?:st|nd|rd|th)\b/;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+function monthIndex(name: string): number {
+  return MONTH_INDEX[name.slice(0, 3).toLowerCase()];
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toISODate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function range(start: Date, end: Date = start): ResolvedDateRange {
+  return { startDate: toISODate(start), endDate: toISODate(end) };
+}
+
+/**
+ * A real date, or null for "31 Feb" style impossibilities. The month may run past either end
+ * of the year (anchor month + offset), and rolls into the next or previous year.
+ */
+function makeDate(year: number, month: number, day: number): Date | null {
+  if (day < 1 || day > 31) return null;
+  const date = new Date(year, month, day);
+  return date.getMonth() === ((month % 12) + 12) % 12 ? date : null;
+}
+
+/**
+ * A date as written, with a 1-12 month: "2024-13-01" is no date, not January 2025
+ */
+function calendarDate(year: number, month: number, day: number): Date | null {
+  return month >= 1 && month <= 12 ? makeDate(year, month - 1, day) : null;
+}
+
+/**
+ * "15/12/2024" is day first, but "12/25/2024" can only be month first
+ */
+function numericDate(first: number, second: number, year: number): Date | null {
+  if (second > 12 && first <= 12) return calendarDate(year, first, second);
+  return calendarDate(year, second, first);
+}
+
+/**
+ * Monday of the anchor's week (weeks start on Monday, so Sunday belongs to the week before)
+ */
+function weekStart(anchor: Date): Date {
+  return addDays(anchor, -((anchor.getDay() + 6) % 7));
+}
+
+/**
+ * Month + day without a year: the next occurrence on or after the anchor
+ */
+function inferYear(month: number, day: number, anchor: Date, year?: number): Date | null {
+  if (year) return makeDate(year, month, day);
+  const date = makeDate(anchor.getFullYear(), month, day);
+  if (date && date < anchor) return makeDate(anchor.getFullYear() + 1, month, day);
+  return date;
+}
+
+/**
+ * Bare day number ("24th"): this month if it hasn't passed yet, otherwise next month.
+ * With a weekday ("sat 24th") it is the first month where that day falls on it.
+ */
+function inferMonth(day: number, anchor: Date, weekday?: number): Date | null {
+  let first: Date | null = null;
+  for (let offset = 0; offset < 12; offset++) {
+    const date = makeDate(anchor.getFullYear(), anchor.getMonth() + offset, day);
+    if (!date || date < anchor) continue;
+    if (weekday === undefined || date.getDay() === weekday) return date;
+    first ??= date;
+  }
+  return first;
+}
+
+/**
+ * End of a range given only as a day ("15-18", "30 to 2nd"): same month, or the next one when it wraps
+ */
+function rangeEnd(start: Date, endDay: number): Date | null {
+  const sameMonth = makeDate(start.getFullYear(), start.getMonth(), endDay);
+  if (sameMonth && sameMonth >= start) return sameMonth;
+  return makeDate(start.getFullYear(), start.getMonth() + 1, endDay);
+}
+
+/**
+ * End given with its own month but no year ("Dec 29 - Jan 2"): never before the start
+ */
+function rollForward(start: Date, month: number, day: number, year?: number): Date | null {
+  if (year) return makeDate(year, month, day);
+  const end = makeDate(start.getFullYear(), month, day);
+  if (end && end < start) return makeDate(start.getFullYear() + 1, month, day);
+  return end;
+}
+
+/**
+ * A trailing year belongs to the end of the range; "Dec 29 - Jan 2, 2025" starts the year before
+ */
+function startYear(startMonth: number, endMonth: number, year?: number): number | undefined {
+  if (!year) return undefined;
+  return startMonth > endMonth ? year - 1 : year;
+}
+
+/**
+ * Whether a bare day is a date. An ordinal is ("24 to 27th") unless it ranks something ("3rd floor");
+ * plain numbers need the words around them ("from 24 to 27", not "2 to 3 days").
+ */
+function inDateContext(m: RegExpMatchArray): boolean {
+  const text = m.input ?? '';
+  const index = m.index ?? 0;
+  const after = text.slice(index + m[0].length);
+  if (ORDINAL.test(m[0])) return !RANKED.test(after);
+  return LEAD_IN.test(text.slice(0, index)) || LEAD_OUT.test(after);
+}
+
+/**
+ * The weekday named right next to a bare day ("sat 24th", "24th friday"), as a getDay() index
+ */
+function weekdayNear(m: RegExpMatchArray, includeAfter: boolean): number | undefined {
+  const text = m.input ?? '';
+  const index = m.index ?? 0;
+  const name = text.slice(0, index).match(WEEKDAY_BEFORE)?.[1]
+    ?? (includeAfter ? text.slice(index + m[0].length).match(WEEKDAY_AFTER)?.[1] : undefined);
+  if (!name) return undefined;
+  return WEEKDAYS.findIndex(w => w.startsWith(name.slice(0, 3).toLowerCase()));
+}
+
+function build(start: Date | null, end: Date | null = start): ResolvedDateRange | null {
+  return start && end ? range(start, end) : null;
+}
+
+/**
+ * this/next/coming + weekday, weekend, long weekend or week.
+ * "this X" is the coming one (today counts); "next X" is the one in next calendar week.
+ * A long weekend is taken as Friday-Sunday.
+ */
+function resolveRelative(text: string, anchor: Date): ResolvedDateRange | null {
+  if (/\bday after tomorrow\b/.test(text)) return range(addDays(anchor, 2));
+  if (/\btomorrow\b/.test(text)) return range(addDays(anchor, 1));
+  if (/\b(?:today|tonight)\b/.test(text)) return range(anchor);
+
+  const match = text.match(/\b(?:(this|next|coming)\s+)?(long\s+weekend|weekend|week|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/);
+  if (!match) return null;
+  const [, modifier, unit] = match;
+  // A bare weekday ("friday night") is too loose to resolve; a bare "long weekend" means the coming one
+  if (!modifier && !/^long\s+weekend$/.test(unit)) return null;
+
+  const isNext = modifier === 'next';
+  const week = isNext ? addDays(weekStart(anchor), 7) : weekStart(anchor);
+  const notBeforeAnchor = (date: Date) => (date < anchor ? anchor : date);
+
+  if (/long\s+weekend/.test(unit)) {
+    return range(notBeforeAnchor(addDays(week, 4)), addDays(week, 6));
+  }
+  if (unit === 'weekend') {
+    return range(notBeforeAnchor(addDays(week, 5)), addDays(week, 6));
+  }
+  if (unit === 'week') {
+    return range(notBeforeAnchor(week), addDays(week, 6));
+  }
+
+  const weekday = WEEKDAYS.indexOf(unit);
+  if (isNext) return range(addDays(week, (weekday + 6) % 7));
+  return range(addDays(anchor, (weekday - anchor.getDay() + 7) % 7));
+}
+
+// Most specific forms first: a full range must win over the single date inside it
+const ABSOLUTE_FORMS: Array<{ pattern: RegExp; resolve: (m: RegExpMatchArray, anchor: Date) => ResolvedDateRange | null }> = [
+  // 2024-12-15
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+    resolve: m => build(calendarDate(+m[1], +m[2], +m[3])),
+  },
+  // "April 12 to April 16", "Dec 29 - Jan 2, 2025"
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+${DAY}${SEP}${MONTH}\\s+${DAY}${YEAR}`),
+    resolve: (m, anchor) => {
+      const year = m[5] ? +m[5] : undefined;
+      const start = inferYear(monthIndex(m[1]), +m[2], anchor, startYear(monthIndex(m[1]), monthIndex(m[3]), year));
+      return build(start, start && rollForward(start, monthIndex(m[3]), +m[4], year));
+    },
+  },
+  // "29 Dec - 2 Jan"
+  {
+    pattern: new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH}${SEP}${DAY}\\s+(?:of\\s+)?${MONTH}${YEAR}`),
+    resolve: (m, anchor) => {
+      const year = m[5] ? +m[5] : undefined;
+      const start = inferYear(monthIndex(m[2]), +m[1], anchor, startYear(monthIndex(m[2]), monthIndex(m[4]), year));
+      return build(start, start && rollForward(start, monthIndex(m[4]), +m[3], year));
+    },
+  },
+  // "December 15-18", "Jan 24 to 26th, 2025"
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+${DAY}${SEP}${DAY}\\b${YEAR}`),
+    resolve: (m, anchor) => {
+      const start = inferYear(monthIndex(m[1]), +m[2], anchor, m[4] ? +m[4] : undefined);
+      return build(start, start && rangeEnd(start, +m[3]));
+    },
+  },
+  // "25th-26th January", "24 to 27th Jan"
+  {
+    pattern: new RegExp(`\\b${DAY}${SEP}${DAY}\\s+(?:of\\s+)?${MONTH}${YEAR}`),
+    resolve: (m, anchor) => {
+      const month = monthIndex(m[3]);
+      const year = m[4] ? +m[4] : undefined;
+      const end = inferYear(month, +m[2], anchor, year);
+      if (!end) return null;
+      // The start day belongs to the end's month unless it is later ("30 to 2nd Jan" starts in December)
+      const start = +m[1] <= +m[2] ? makeDate(end.getFullYear(), month, +m[1]) : makeDate(end.getFullYear(), month - 1, +m[1]);
+      return build(start, end);
+    },
+  },
+  // "December 15, 2024", "Dec 15th"
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+${DAY}\\b${YEAR}`),
+    resolve: (m, anchor) => build(inferYear(monthIndex(m[1]), +m[2], anchor, m[3] ? +m[3] : undefined)),
+  },
+  // "15th December", "15 of Dec 2024"
+  {
+    pattern: new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH}\\b${YEAR}`),
+    resolve: (m, anchor) => build(inferYear(monthIndex(m[2]), +m[1], anchor, m[3] ? +m[3] : undefined)),
+  },
+  // "15/12/2024", "15-12-24" (day first unless only month first fits, "12/25/2024")
+  {
+    pattern: /\b(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})\b/,
+    resolve: m => build(numericDate(+m[1], +m[2], m[3].length === 2 ? 2000 + +m[3] : +m[3])),
+  },
+  // "24 to 27th", "sat 24th-26th", "from 24 to 27" (month from the anchor)
+  {
+    pattern: /\b(\d{1,2})(?:st|nd|rd|th)?\s*(?:-|–|to|till|until)\s*(\d{1,2})(?:st|nd|rd|th)\b|\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:to|till|until)\s+(\d{1,2})\b/,
+    resolve: (m, anchor) => {
+      if (!inDateContext(m)) return null;
+      const start = inferMonth(+(m[1] ?? m[3]), anchor, weekdayNear(m, false));
+      return build(start, start && rangeEnd(start, +(m[2] ?? m[4])));
+    },
+  },
+  // "24th night", "on the 25th", "sat 24th"
+  {
+    pattern: /\b(\d{1,2})(?:st|nd|rd|th)\b/,
+    resolve: (m, anchor) => (inDateContext(m) ? build(inferMonth(+m[1], anchor, weekdayNear(m, true))) : null),
+  },
+];
+
+/**
+ * Resolve a date expression to a calendar range, relative to when it was said.
+ * Returns null when nothing in the text reads as a date.
+ */
+export function resolveDateExpression(text: string, anchor: Date = new Date()): ResolvedDateRange | null {
+  const normalized = text.toLowerCase();
+  const day = startOfDay(anchor);
+
+  for (const { pattern, resolve } of ABSOLUTE_FORMS) {
+    // A later match can still be a date when the first isn't ("3rd floor, on the 24th")
+    for (const match of normalized.matchAll(new RegExp(pattern.source, 'g'))) {
+      const resolved = resolve(match, day);
+      if (resolved) return resolved;
+    }
+  }
+  return resolveRelative(normalized, day);
+}
+
+/**
+ * A date found at `start`-`end` in a message, with the words next to it that make
+ * a bare day resolvable ("on the 24th", "sat 24th", "14th night")
+ */
+export function dateInContext(text: string, start: number, end: number): string {
+  const before = text.slice(0, start).match(LEAD_IN);
+  const after = text.slice(end).match(LEAD_OUT);
+  return text.slice(before ? start - before[0].length : start, after ? end + after[0].length : end);
+}
+
+/**
+ * When a message was sent: its own timestamp, else the closest earlier (then later) one.
+ * Chats without any timestamps fall back to now.
+ */
+export function getMessageAnchor(messages: RawChatMessage[], index: number): Date {
+  const parse = (m?: RawChatMessage) => {
+    const time = m?.timestamp ? Date.parse(m.timestamp) : NaN;
+    return isNaN(time) ? null : new Date(time);
+  };
+
+  for (let i = Math.min(index, messages.length - 1); i >= 0; i--) {
+    const date = parse(messages[i]);
+    if (date) return date;
+  }
+  for (let i = Math.max(index + 1, 0); i < messages.length; i++) {
+    const date = parse(messages[i]);
+    if (date) return date;
+  }
+  return new Date();
+}
+
+/**
+ * Anchor for an expression found somewhere in the chat: the first message that contains it
+ */
+export function findMessageAnchor(messages: RawChatMessage[], text: string): Date {
+  const needle = text.toLowerCase();
+  const index = messages.findIndex(m => m.content?.toLowerCase().includes(needle));
+  return getMessageAnchor(messages, index === -1 ? 0 : index);
+}
+
+/**
+ * Fill in missing ISO start/end dates. Items keep what they already have (e.g. the model's own
+ * dates); provenance references, when attached, pick the message to anchor to.
+ */
+export function resolveExtractedDates(dates: ExtractedDate[], messages: RawChatMessage[]): ExtractedDate[] {
+  return dates.map(date => {
+    if (date.startDate && ISO_DATE.test(date.startDate)) {
+      return date.endDate && ISO_DATE.test(date.endDate) ? date : { ...date, endDate: date.startDate };
+    }
+
+    const sourceId = date.sources?.[0]?.messageId;
+    const sourceIndex = sourceId ? messages.findIndex(m => m.id === sourceId) : -1;
+    const anchor = sourceIndex >= 0 ? getMessageAnchor(messages, sourceIndex) : findMessageAnchor(messages, date.date);
+
+    const resolved = resolveDateExpression(date.date, anchor);
+    return resolved ? { ...date, ...resolved } : date;
+  });
+}
+
+/**
+ * The trip's dates: the agreed range if there is one, otherwise the most confident resolved one
+ */
+export function pickTripDateRange(dates: ExtractedDate[]): ResolvedDateRange | null {
+  const resolved = dates.filter(d => d.startDate && ISO_DATE.test(d.startDate));
+  if (resolved.length === 0) return null;
+
+  const best = [...resolved].sort((a, b) =>
+    Number(b.status === 'finalized') - Number(a.status === 'finalized') || b.confidence - a.confidence
+  )[0];
+  const startDate = best.startDate!.slice(0, 10);
+  const endDate = best.endDate && ISO_DATE.test(best.endDate) ? best.endDate.slice(0, 10) : startDate;
+  return { startDate, endDate: endDate < startDate ? startDate : endDate };
+}
@@ -1,13 +1,18 @@
 // Dates Aggregator - Collect proposals, exceptions, and determine status
 import type { ExtractedDate, RawChatMessage } from '../types';
 import { normalizeVoters } from './decision-extractor';
+import { dateInContext, getMessageAnchor, resolveDateExpression } from './date-resolver';
 
 export interface DateProposal {
   range: string;
   proposedBy: string[];
   context?: string;
+  startDate?: string;  // Resolved against the proposing message's timestamp
+  endDate?: string;
 }
 
+type RawDateProposal = { range: string; by: string | string[]; context?: string; startDate?: string; endDate?: string };
+
 export interface AggregatedDates {
   status: 'open' | 'finalized';
   proposals: DateProposal[];
@@ -17,7 +22,7 @@ export interface AggregatedDates {
 
 // Collect date proposals and determine status
 export function aggregateDates(
-  proposalsRaw: Array<{ range: string; by: string | string[]; context?: string }>,
+  proposalsRaw: RawDateProposal[],
   exceptionsRaw: string[] = []
 ): AggregatedDates {
   // Normalize proposals
@@ -25,6 +30,8 @@ export function aggregateDates(
     range: p.range,
     proposedBy: normalizeVoters(p.by),
     context: p.context,
+    startDate: p.startDate,
+    endDate: p.endDate,
   }));
 
   const exceptions = exceptionsRaw || [];
@@ -40,6 +47,8 @@ export function aggregateDates(
     if (winningProposal) {
       finalDate = {
         date: winningProposal.range,
+        startDate: winningProposal.startDate,
+        endDate: winningProposal.endDate,
         context: winningProposal.context || 'Agreed by group',
         confidence: 85,
         source: 'heuristic',
@@ -53,9 +62,10 @@ export function aggregateDates(
 }
 
 // Extract date proposals from messages
-export function extractDateProposals(messages: RawChatMessage[]): Array<{ range: string; by: string | string[]; context?: string }> {
-  const proposals: Array<{ range: string; by: string | string[]; context?: string }> = [];
-  const seenRanges = new Set<string>();
+export function extractDateProposals(messages: RawChatMessage[]): RawDateProposal[] {
+  const proposals: RawDateProposal[] = [];
+  // Same calendar range = same proposal, however it was written ("Jan 24-26" vs "24th to 26th")
+  const byKey = new Map<string, RawDateProposal>();
 
   // Date range patterns
   const datePatterns = [
@@ -68,31 +78,37 @@ export function extractDateProposals(messages: RawChatMessage[]): Array<{ range:
     /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s*(\d{1,2})(?:st|nd|rd|th)?\b/gi,
   ];
 
-  for (const msg of messages) {
+  for (const [index, msg] of messages.entries()) {
     if (msg.isMedia || !msg.content) continue;
+    const anchor = getMessageAnchor(messages, index);
 
     for (const pattern of datePatterns) {
       const regex = new RegExp(pattern.source, pattern.flags);
       let match;
       while ((match = regex.exec(msg.content)) !== null) {
         const range = match[0].trim();
-        const normalizedRange = range.toLowerCase();
-
-        if (!seenRanges.has(normalizedRange)) {
-          seenRanges.add(normalizedRange);
-          proposals.push({
+        const resolved = resolveDateExpression(
+          dateInContext(msg.content, match.index, match.index + match[0].length),
+          anchor
+        );
+        const key = resolved ? `${resolved.startDate}|${resolved.endDate}` : range.toLowerCase();
+
+        const existing = byKey.get(key);
+        if (!existing) {
+          const proposal: RawDateProposal = {
             range,
             by: msg.sender || 'Unknown',
             context: msg.content.substring(0, 100),
-          });
-        } else {
+            startDate: resolved?.startDate,
+            endDate: resolved?.endDate,
+          };
+          byKey.set(key, proposal);
+          proposals.push(proposal);
+        } else if (msg.sender) {
           // Add voter to existing proposal
-          const existing = proposals.find(p => p.range.toLowerCase() === normalizedRange);
-          if (existing && msg.sender) {
-            const voters = normalizeVoters(existing.by);
-            if (!voters.includes(msg.sender)) {
-              existing.by = [...voters, msg.sender];
-            }
+          const voters = normalizeVoters(existing.by);
+          if (!voters.includes(msg.sender)) {
+            existing.by = [...voters, msg.sender];
           }
         }
       }
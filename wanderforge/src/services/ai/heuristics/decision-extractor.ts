@@ -1,5 +1,6 @@
 // Decision Extraction with Voter Normalization and Confirmation Logic
 import type { ExtractedDecision, RawChatMessage } from '../types';
+import { sourcesFor } from './message-source';
 
 // Helper: normalize raw voter strings into an array of distinct names
 export function normalizeVoters(raw: string | string[]): string[] {
@@ -99,6 +100,7 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
     voters: Set<string>;
     statement: string;
     originalSender: string;
+    statementMessage: RawChatMessage;
     agreements: RawChatMessage[];
   }>();
 
@@ -127,6 +129,7 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
               voters: new Set([originalSender]),
               statement: prevMsg.content,
               originalSender,
+              statementMessage: prevMsg,
               agreements: [],
             });
           }
@@ -152,10 +155,10 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
     if (voterResult.confirmed || data.voters.size >= 2) {
       const statement = data.statement.replace(/[.!,;:]+$/, '').trim();
       if (statement.length > 5) {
-        decisions.push(formatDecisionOutput(
-          statement.charAt(0).toUpperCase() + statement.slice(1),
-          voterResult
-        ));
+        decisions.push({
+          ...formatDecisionOutput(statement.charAt(0).toUpperCase() + statement.slice(1), voterResult),
+          sources: sourcesFor([data.statementMessage, ...data.agreements]),
+        });
       }
     }
   }
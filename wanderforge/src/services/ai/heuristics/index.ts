@@ -1,6 +1,6 @@
 // Re-export all heuristic extractors
 export { extractDatesHeuristic } from './date-extractor';
-export { extractBudgetHeuristic } from './budget-extractor';
+export { extractBudgetHeuristic, normalizeExtractedBudget } from './budget-extractor';
 export { extractPlacesHeuristic, mapPlaceType } from './place-extractor';
 export {
   extractTasksHeuristic,
@@ -29,3 +29,23 @@ export {
   extractDatesWithProposals,
 } from './dates-aggregator';
 export type { DateProposal, AggregatedDates } from './dates-aggregator';
+
+// Relative date resolution (anchored to message timestamps)
+export {
+  resolveDateExpression,
+  resolveExtractedDates,
+  pickTripDateRange,
+  getMessageAnchor,
+  findMessageAnchor,
+  dateInContext,
+} from './date-resolver';
+export type { ResolvedDateRange } from './date-resolver';
+
+// Open questions followed across later messages
+export {
+  followQuestions,
+  scoreAnswer,
+  classifyAnswer,
+  questionDigest,
+} from './question-tracker';
+export type { QuestionDigest } from './question-tracker';
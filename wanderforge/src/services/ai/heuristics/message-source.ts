@@ -0,0 +1,41 @@
+// Message lookup for heuristics - which chat message a match came from
+import type { MessageReference, RawChatMessage } from '../types';
+
+/**
+ * Index of the message a transcript offset falls in, or -1 when it can't be told.
+ * The transcript must come from formatChatTranscript(messages), which writes one line per message.
+ */
+export function messageIndexAt(text: string, offset: number, messages: RawChatMessage[]): number {
+  let line = 0;
+  let lines = 1;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    if (i < offset) line++;
+    lines++;
+  }
+  // A transcript that doesn't line up with the messages can't be mapped back
+  return lines === messages.length ? line : -1;
+}
+
+/**
+ * References to the messages an item was read from; provenance fills in the character spans
+ */
+export function sourcesFor(messages: Array<RawChatMessage | undefined>): MessageReference[] | undefined {
+  const byId = new Map<string, MessageReference>();
+  for (const message of messages) {
+    if (!message?.id || byId.has(message.id)) continue;
+    byId.set(message.id, { messageId: message.id, sender: message.sender, spans: [] });
+  }
+  return byId.size > 0 ? Array.from(byId.values()) : undefined;
+}
+
+/**
+ * Record another message that backs an item already found
+ */
+export function addSource<T extends { sources?: MessageReference[] }>(
+  item: T | undefined,
+  message: RawChatMessage | undefined
+): void {
+  const [ref] = sourcesFor([message]) ?? [];
+  if (!item || !ref || item.sources?.some(s => s.messageId === ref.messageId)) return;
+  item.sources = [...(item.sources || []), ref];
+}
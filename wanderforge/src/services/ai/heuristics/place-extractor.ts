@@ -1,5 +1,6 @@
 // Heuristic Place Extraction - Smart Validation
 import type { ExtractedPlace, RawChatMessage } from '../types';
+import { addSource } from './message-source';
 
 // V2 FIX: Verb patterns that should NOT be in place names
 const VERB_PHRASE_PATTERNS = [
@@ -422,10 +423,11 @@ export function extractPlacesHeuristic(text: string, messages: RawChatMessage[])
     }
   }
 
-  // Count mentions per sender for voting
+  // Count mentions per sender for voting; the mentioning messages are the place's sources
   for (const [key, place] of placesMap) {
     for (const msg of messages) {
       if (msg.content.toLowerCase().includes(key) && !msg.isMedia) {
+        addSource(place, msg);
         if (msg.sender && !place.mentionedBy.includes(msg.sender)) {
           place.mentionedBy.push(msg.sender);
           place.votes++;
@@ -0,0 +1,267 @@
+// Question Tracker - follow open questions across later chat messages
+// extractQuestionsHeuristic only looks at the text right after a question, once. The tracker
+// scores every later message as a possible answer (quoted reply, named option, shared words,
+// next in line), keeps the best candidates and settles the question when a reply agrees or
+// settles it, or when several people converge on the same option.
+import type { OpenQuestion, QuestionAnswer, RawChatMessage } from '../types';
+import { CONDITIONAL_RESPONSE_PATTERNS, RESOLVED_RESPONSE_PATTERNS } from './task-extractor';
+import { hasDecisionKeyword, isAgreementMessage } from './decision-extractor';
+
+const MAX_CANDIDATES = 5;
+const MIN_CANDIDATE_SCORE = 0.4;
+const RESOLVE_SCORE = 0.6;          // Enough when the reply itself reads as settled
+const CONVERGE_MEMBERS = 2;         // People naming the same option that settle an "X or Y?" question
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'have', 'will', 'should', 'would',
+  'what', 'when', 'where', 'which', 'there', 'their', 'about', 'into', 'then', 'than',
+  'trip', 'guys', 'also', 'just', 'like', 'going', 'does', 'anyone', 'everyone', 'know',
+]);
+
+function significantWords(text: string): string[] {
+  return Array.from(new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(w => w.length > 3 && !STOPWORDS.has(w))
+  ));
+}
+
+// Words that end an option's noun phrase ("rent | scooters", "a car | for the week")
+const PHRASE_BREAKS = new Set([
+  'a', 'an', 'the', 'some', 'we', 'i', 'you', 'us', 'should', 'shall', 'can', 'could', 'do', 'does',
+  'is', 'are', 'to', 'by', 'in', 'at', 'on', 'for', 'of', 'from', 'with', 'per', 'either',
+]);
+
+function words(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * The choices in an "X or Y?" question, as whole noun phrases:
+ * "rent scooters or a car" -> scooters, car; "North Goa or South Goa"; "12k, 15k or 20k"
+ */
+function questionOptions(question: string): string[] {
+  // Only the part after a topic label ("Budget per person - 12k, 15k or 20k?")
+  const body = question.replace(/[?!.\s]+$/, '').split(/\s+[-–:]\s+/).pop() || '';
+  const parts = body.split(/\s+or\s+/i);
+  if (parts.length < 2) return [];
+
+  // After "or": the phrase up to the first word that isn't part of it
+  const after = parts.slice(1).map(part => {
+    const phrase: string[] = [];
+    for (const word of words(part)) {
+      if (PHRASE_BREAKS.has(word.toLowerCase())) {
+        if (phrase.length > 0) break;
+        continue;
+      }
+      phrase.push(word);
+    }
+    return phrase;
+  });
+
+  // Before "or": as many trailing words as the longest phrase after it, stopping at a break word;
+  // earlier items of a comma list ("Goa, Gokarna or Hampi") are options too
+  const longest = Math.max(1, ...after.map(p => p.length));
+  const listed = parts[0].split(',');
+  const before: string[] = [];
+  for (const word of words(listed.pop() || '').reverse()) {
+    if (before.length >= longest || PHRASE_BREAKS.has(word.toLowerCase())) break;
+    before.unshift(word);
+  }
+  const earlier = listed.map(words).filter(item => item.length > 0 && item.length <= longest);
+
+  return [...earlier, before, ...after]
+    .map(phrase => phrase.join(' ').replace(/[^\p{L}\p{N}' ]+/gu, '').toLowerCase().trim())
+    .filter(option => option.length > 2 && !STOPWORDS.has(option));
+}
+
+/**
+ * Options of `question` a message names
+ */
+function namedOptions(question: string, text: string): string[] {
+  return questionOptions(question).filter(option =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${option.replace(/\s+/g, '\\s+')}($|[^\\p{L}\\p{N}])`, 'iu').test(text)
+  );
+}
+
+/**
+ * How a reply leaves the question: hedged, settled, or not an answer by itself
+ */
+export function classifyAnswer(text: string): QuestionAnswer['resolution'] {
+  const trimmed = text.trim().substring(0, 200);
+  if (CONDITIONAL_RESPONSE_PATTERNS.some(p => p.test(trimmed))) return 'conditional';
+  if (RESOLVED_RESPONSE_PATTERNS.some(p => p.test(trimmed))) return 'resolved';
+  if (isAgreementMessage(trimmed) || hasDecisionKeyword(trimmed)) return 'resolved';
+  return 'open';
+}
+
+/**
+ * Score how strongly `message` answers `question` (0-1)
+ * `isNext` marks the first message after the question from someone else.
+ */
+export function scoreAnswer(question: OpenQuestion, message: RawChatMessage, isNext: boolean = false): number {
+  const askedId = question.sources?.[0]?.messageId;
+  const content = message.content.toLowerCase();
+  let score = 0;
+
+  if (message.replyTo && (message.replyTo === askedId || message.replyTo.toLowerCase().includes(question.question.toLowerCase()))) {
+    score = 1;
+  }
+
+  if (namedOptions(question.question, content).length > 0) {
+    score = Math.max(score, 0.8);
+  }
+
+  const questionWords = significantWords(question.question);
+  if (questionWords.length > 0) {
+    const replyWords = new Set(significantWords(message.content));
+    const shared = questionWords.filter(w => replyWords.has(w)).length;
+    if (shared > 0) {
+      score = Math.max(score, Math.min(0.7, 0.3 + 0.4 * (shared / questionWords.length)));
+    }
+  }
+
+  if (isNext && classifyAnswer(message.content) !== 'open') {
+    score = Math.max(score, 0.5);
+  }
+
+  // Answering your own question usually means thinking out loud
+  if (question.askedBy && message.sender === question.askedBy) {
+    score *= 0.5;
+  }
+
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * A reply settles the question only when it reads as settled (agreement, "done", "decided")
+ */
+function isSettledBy(answer: QuestionAnswer): boolean {
+  return answer.score >= RESOLVE_SCORE && answer.resolution === 'resolved';
+}
+
+/**
+ * The latest reply naming the option most people picked, when several converge on it
+ * ("Anjuna or Baga?" - "Anjuna" / "Anjuna 👍" / "Anjuna it is")
+ */
+function convergedAnswer(question: OpenQuestion, candidates: QuestionAnswer[]): QuestionAnswer | undefined {
+  const backers = new Map<string, Set<string>>();
+  for (const answer of candidates) {
+    if (answer.resolution === 'conditional' || !answer.sender || answer.sender === question.askedBy) continue;
+    for (const option of namedOptions(question.question, answer.text)) {
+      backers.set(option, (backers.get(option) ?? new Set()).add(answer.sender));
+    }
+  }
+
+  const ranked = [...backers.entries()].sort((a, b) => b[1].size - a[1].size);
+  const [top, runnerUp] = ranked;
+  if (!top || top[1].size < CONVERGE_MEMBERS || (runnerUp && runnerUp[1].size === top[1].size)) {
+    return undefined;
+  }
+  return [...candidates].reverse().find(a => a.sender && top[1].has(a.sender) && namedOptions(question.question, a.text).includes(top[0]));
+}
+
+function followQuestion(question: OpenQuestion, messages: RawChatMessage[]): OpenQuestion {
+  if (question.status === 'resolved') return question;
+
+  const askedId = question.sources?.[0]?.messageId;
+  const askedIndex = askedId ? messages.findIndex(m => m.id === askedId) : -1;
+  const asked = askedIndex >= 0 ? messages[askedIndex] : undefined;
+  const tracked: OpenQuestion = {
+    ...question,
+    askedBy: question.askedBy ?? asked?.sender ?? question.sources?.[0]?.sender,
+    askedAt: question.askedAt ?? asked?.timestamp,
+  };
+
+  // Only messages said after the question can answer it
+  const later = askedIndex >= 0
+    ? messages.slice(askedIndex + 1)
+    : messages.filter(m => !tracked.askedAt || !m.timestamp || m.timestamp > tracked.askedAt);
+
+  const seen = new Set((tracked.candidateAnswers || []).map(a => a.messageId));
+  const candidates = [...(tracked.candidateAnswers || [])];
+  let firstReply = askedIndex >= 0;
+
+  for (const message of later) {
+    if (!message.id || seen.has(message.id) || message.isSystem || message.isMedia) continue;
+    // Another question is only an answer when it quotes this one ("Goa? I thought Hampi?")
+    if (message.content.trim().endsWith('?') && message.replyTo !== askedId) continue;
+
+    const isNext = firstReply && message.sender !== tracked.askedBy;
+    if (message.sender !== tracked.askedBy) firstReply = false;
+
+    const score = scoreAnswer(tracked, message, isNext);
+    if (score < MIN_CANDIDATE_SCORE) continue;
+
+    seen.add(message.id);
+    candidates.push({
+      messageId: message.id,
+      sender: message.sender,
+      text: message.content.substring(0, 200),
+      timestamp: message.timestamp,
+      resolution: classifyAnswer(message.content),
+      score,
+    });
+  }
+
+  if (candidates.length === 0) return tracked;
+
+  // Chat order, so the latest word on the question wins
+  const settling = candidates.filter(isSettledBy);
+  const hedging = candidates.filter(a => a.resolution === 'conditional' && a.score >= RESOLVE_SCORE);
+  const converged = convergedAnswer(tracked, candidates);
+  const resolving = [...settling, ...(converged ? [converged] : [])]
+    .sort((a, b) => candidates.indexOf(a) - candidates.indexOf(b));
+  const answer = resolving[resolving.length - 1] ?? hedging[hedging.length - 1];
+
+  tracked.candidateAnswers = [...candidates].sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+  if (answer) {
+    tracked.answer = answer;
+    tracked.status = resolving.includes(answer) ? 'resolved' : 'conditional';
+    if (answer.sender) {
+      tracked.participants = Array.from(new Set([...(tracked.participants || []), answer.sender]));
+    }
+  }
+  return tracked;
+}
+
+/**
+ * Follow each unresolved question through `messages` (oldest first) and record
+ * the messages that answer it. Resolved questions pass through untouched.
+ */
+export function followQuestions(questions: OpenQuestion[], messages: RawChatMessage[]): OpenQuestion[] {
+  if (messages.length === 0) return questions;
+  return questions.map(q => followQuestion(q, messages));
+}
+
+export interface QuestionDigest {
+  questions: OpenQuestion[];  // Still open or conditional, oldest first
+  daysUntilTrip: number;
+}
+
+/**
+ * Questions still unanswered within `windowDays` of the trip starting, or null when
+ * there is nothing to raise (no trip date yet, trip already started, or all answered)
+ */
+export function questionDigest(
+  questions: OpenQuestion[],
+  tripStartDate: string | null,
+  now: Date = new Date(),
+  windowDays: number = 14
+): QuestionDigest | null {
+  if (!tripStartDate) return null;
+
+  const [year, month, day] = tripStartDate.slice(0, 10).split('-').map(Number);
+  const start = new Date(year, month - 1, day);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysUntilTrip = Math.round((start.getTime() - today.getTime()) / 86_400_000);
+  if (daysUntilTrip < 0 || daysUntilTrip > windowDays) return null;
+
+  const unresolved = questions
+    .filter(q => q.status !== 'resolved')
+    .sort((a, b) => (a.askedAt || '').localeCompare(b.askedAt || ''));
+  if (unresolved.length === 0) return null;
+
+  return { questions: unresolved, daysUntilTrip };
+}
@@ -1,5 +1,6 @@
 // Heuristic Task and Decision Extraction - Enhanced for Indian informal chat
 import type { ExtractedTask, ExtractedDecision, OpenQuestion, RawChatMessage } from '../types';
+import { messageIndexAt, sourcesFor } from './message-source';
 
 // V3.3 FIX: Relative due-date patterns for task deadlines
 const RELATIVE_DUE_PATTERNS: Array<{ pattern: RegExp; resolver: () => string }> = [
@@ -287,7 +288,7 @@ const RHETORICAL_PATTERNS = [
 ];
 
 // V2 FIX: Patterns indicating conditional responses (not fully resolved)
-const CONDITIONAL_RESPONSE_PATTERNS = [
+export const CONDITIONAL_RESPONSE_PATTERNS = [
   /if\s+(?:budget|time|we\s+can|possible|affordable)/i,
   /depends\s+on/i,
   /maybe/i,
@@ -301,7 +302,7 @@ const CONDITIONAL_RESPONSE_PATTERNS = [
 ];
 
 // V2 FIX: Patterns indicating fully resolved responses
-const RESOLVED_RESPONSE_PATTERNS = [
+export const RESOLVED_RESPONSE_PATTERNS = [
   /^(?:yes|yeah|yep|done|booked|confirmed|ok|okay|sure|definitely)[\s!.]*$/i,
   /👍|✅|✔️|💯/,
   /it's\s+(?:done|booked|confirmed)/i,
@@ -359,6 +360,7 @@ export function extractTasksHeuristic(text: string, messages: RawChatMessage[]):
       let assignee: string | undefined;
       let taskDesc: string;
       let deadline: string | undefined;
+      const matchedIndex = messageIndexAt(text, match.index, messages);
 
       if (match.length >= 3 && match[2]) {
         const firstCapture = match[1].toLowerCase();
@@ -416,7 +418,7 @@ export function extractTasksHeuristic(text: string, messages: RawChatMessage[]):
         }
 
         // Try context stitching - look for object in previous messages
-        const msgIdx = messages.findIndex(m => m.content.includes(match[0]));
+        const msgIdx = matchedIndex >= 0 ? matchedIndex : messages.findIndex(m => m.content.includes(match[0]));
         if (msgIdx > 0) {
           const taskObject = findTaskObject(messages, msgIdx);
           if (taskObject) {
@@ -436,7 +438,7 @@ export function extractTasksHeuristic(text: string, messages: RawChatMessage[]):
       // V3.3 FIX: If status is 'done' but no assignee, try to attribute
       let finalAssignee = assignee;
       if (status === 'done' && !finalAssignee) {
-        const msgIdx = messages.findIndex(m => m.content.includes(match[0]));
+        const msgIdx = matchedIndex >= 0 ? matchedIndex : messages.findIndex(m => m.content.includes(match[0]));
         if (msgIdx >= 0) {
           finalAssignee = attributeTaskAssignee(messages, msgIdx);
         }
@@ -451,6 +453,7 @@ export function extractTasksHeuristic(text: string, messages: RawChatMessage[]):
         deadline: finalDeadline,
         status,
         source: 'heuristic',
+        sources: sourcesFor([messages[matchedIndex]]),
       });
     }
   }
@@ -479,6 +482,7 @@ export function extractTasksHeuristic(text: string, messages: RawChatMessage[]):
           deadline,
           status: 'pending',
           source: 'heuristic',
+          sources: sourcesFor([msg]),
         });
       }
     }
@@ -487,7 +491,7 @@ export function extractTasksHeuristic(text: string, messages: RawChatMessage[]):
   return tasks.slice(0, 10);
 }
 
-export function extractDecisionsHeuristic(text: string): ExtractedDecision[] {
+export function extractDecisionsHeuristic(text: string, messages: RawChatMessage[] = []): ExtractedDecision[] {
   const decisions: ExtractedDecision[] = [];
   const seenDecisions = new Set<string>();
 
@@ -509,6 +513,7 @@ export function extractDecisionsHeuristic(text: string): ExtractedDecision[] {
         decision: capitalize(decision),
         confidence: 65,
         source: 'heuristic',
+        sources: sourcesFor([messages[messageIndexAt(text, match.index, messages)]]),
       });
     }
   }
@@ -569,7 +574,7 @@ function extractImplicitQuestions(text: string): OpenQuestion[] {
   return implicitQuestions;
 }
 
-export function extractQuestionsHeuristic(text: string): OpenQuestion[] {
+export function extractQuestionsHeuristic(text: string, messages: RawChatMessage[] = []): OpenQuestion[] {
   const questions: OpenQuestion[] = [];
   const seenQuestions = new Set<string>();
 
@@ -600,6 +605,7 @@ export function extractQuestionsHeuristic(text: string): OpenQuestion[] {
       questions.push({
         question,
         status: resolution, // 'open' or 'conditional'
+        sources: sourcesFor([messages[messageIndexAt(text, match.index, messages)]]),
       });
     }
   }
@@ -671,6 +677,7 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
     statement: string;
     originalSender: string;
     agreements: string[];  // V3.3: Track agreement messages for confidence
+    messages: RawChatMessage[];  // The statement and the replies agreeing to it
   }>();
 
   // Track statements and who agreed
@@ -711,6 +718,7 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
               statement: prevMsg.content,
               originalSender,
               agreements: [],  // V3.3
+              messages: [prevMsg],
             });
           }
 
@@ -718,6 +726,7 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
           if (msg.sender !== originalSender) {
             statementVotes.get(key)!.voters.add(msg.sender);
             statementVotes.get(key)!.agreements.push(msg.content);  // V3.3: Track agreement
+            statementVotes.get(key)!.messages.push(msg);
           }
           break;
         }
@@ -742,6 +751,7 @@ export function extractConsensusDecisions(messages: RawChatMessage[]): Extracted
           participants: voterList,  // V3.3: Also provide as array
           confidence,
           source: 'heuristic',
+          sources: sourcesFor(data.messages),
         });
       }
     }
@@ -0,0 +1,219 @@
+// Chat Importer - auto-detects the export format and normalizes it into RawChatMessage[]
+import type {
+  ChatFormatParser,
+  ChatImportFormat,
+  ChatImportOptions,
+  ChatImportStats,
+  ChatParseOutput,
+  ImportedChat,
+  RawChatMessage,
+} from '../types';
+import { whatsAppAndroidParser, whatsAppIOSParser } from './whatsapp-parser';
+import { telegramJsonParser } from './telegram-parser';
+import { signalParser } from './signal-parser';
+import { plainTextParser } from './plain-text-parser';
+import { readZipEntries, type ZipEntry } from './zip-reader';
+
+export const MAX_CHAT_TEXT_BYTES = 5 * 1024 * 1024;   // 5MB of text/JSON
+export const MAX_CHAT_ARCHIVE_BYTES = 64 * 1024 * 1024; // 64MB zip with media
+
+// Minimum detection score before we trust a format-specific parser over plain text
+const MIN_DETECTION_CONFIDENCE = 0.3;
+
+const parsers: ChatFormatParser[] = [
+  whatsAppAndroidParser,
+  whatsAppIOSParser,
+  telegramJsonParser,
+  signalParser,
+  plainTextParser,
+];
+
+/**
+ * Register a parser for a new export format (or replace an existing one)
+ */
+export function registerChatParser(parser: ChatFormatParser): void {
+  const existing = parsers.findIndex(p => p.format === parser.format);
+  if (existing >= 0) {
+    parsers[existing] = parser;
+  } else {
+    // Keep plain text last so it stays the fallback
+    parsers.splice(parsers.length - 1, 0, parser);
+  }
+}
+
+/**
+ * Score every registered parser and return the best match
+ */
+export function detectChatFormat(input: string): { format: ChatImportFormat; confidence: number } {
+  let best: { format: ChatImportFormat; confidence: number } = { format: 'plain-text', confidence: 0 };
+
+  for (const parser of parsers) {
+    const confidence = parser.detect(input);
+    if (confidence > best.confidence) {
+      best = { format: parser.format, confidence };
+    }
+  }
+
+  if (best.format !== 'plain-text' && best.confidence < MIN_DETECTION_CONFIDENCE) {
+    return { format: 'plain-text', confidence: plainTextParser.detect(input) };
+  }
+
+  return best;
+}
+
+/**
+ * Parse chat text (any supported export) into normalized messages with stats
+ */
+export function importChat(input: string, options?: ChatImportOptions): ImportedChat {
+  const detected = options?.format
+    ? { format: options.format, confidence: 1 }
+    : detectChatFormat(input);
+
+  const parser = parsers.find(p => p.format === detected.format) || plainTextParser;
+  const output = parser.parse(input, options);
+
+  const imported = createImportedChat(output.messages, parser.format, {
+    ...output,
+    detectionConfidence: detected.confidence,
+  });
+
+  console.log(`[ChatImport] Parsed ${imported.stats.parsedMessages} messages as ${imported.format} (confidence ${imported.stats.detectionConfidence})`);
+  return imported;
+}
+
+/**
+ * Wrap already-structured messages (e.g. Trip Chat rows) as an ImportedChat with stats
+ */
+export function createImportedChat(
+  rawMessages: RawChatMessage[],
+  format: ChatImportFormat,
+  details?: Partial<Omit<ChatParseOutput, 'messages'>> & { detectionConfidence?: number }
+): ImportedChat {
+  // Give every message a stable id so later stages can point back at it
+  const messages: RawChatMessage[] = rawMessages.map((m, i) => ({
+    ...m,
+    id: m.id || `msg-${i}`,
+  }));
+
+  const stats: ChatImportStats = {
+    format,
+    detectionConfidence: Math.round((details?.detectionConfidence ?? 1) * 100) / 100,
+    totalLines: details?.totalLines ?? messages.length,
+    parsedMessages: messages.length,
+    multilineMessages: details?.multilineMessages ?? messages.filter(m => m.content.includes('\n')).length,
+    systemMessages: details?.systemMessages ?? 0,
+    mediaMessages: messages.filter(m => m.isMedia).length,
+    attachments: messages.reduce((sum, m) => sum + (m.attachments?.length || 0), 0),
+    replies: messages.filter(m => m.replyTo).length,
+    senders: new Set(messages.map(m => m.sender).filter(Boolean)).size,
+    skippedLines: details?.skippedLines ?? 0,
+    timestampsParsed: messages.filter(m => m.timestamp).length,
+  };
+
+  return {
+    format,
+    title: details?.title,
+    messages,
+    stats,
+    warnings: details?.warnings ?? [],
+  };
+}
+
+/**
+ * Render normalized messages as a single-line-per-message transcript for LLM prompts.
+ * The plain-text parser reads this shape back losslessly (minus attachments).
+ * With `includeIds`, each line starts with "{id}" so extracted items can cite their messages.
+ */
+export function formatChatTranscript(
+  messages: RawChatMessage[],
+  options?: { includeTimestamps?: boolean; includeIds?: boolean }
+): string {
+  const includeTimestamps = options?.includeTimestamps !== false;
+
+  return messages
+    .map(m => {
+      const id = options?.includeIds && m.id ? `{${m.id}} ` : '';
+      const prefix = id + (includeTimestamps && m.timestamp ? `[${m.timestamp}] ` : '');
+      const content = m.content.replace(/\s*\n\s*/g, ' ');
+      return m.sender ? `${prefix}${m.sender}: ${content}` : `${prefix}${content}`;
+    })
+    .join('\n');
+}
+
+// ==================== Files & Archives ====================
+
+/**
+ * Choose the transcript inside an export archive
+ */
+function pickTranscriptEntry(entries: ZipEntry[]): ZipEntry | undefined {
+  const files = entries.filter(e => !e.isDirectory && !e.name.startsWith('__MACOSX/'));
+  const byName = (pattern: RegExp) => files
+    .filter(e => pattern.test(e.name))
+    .sort((a, b) => b.size - a.size)[0];
+
+  return byName(/(?:^|\/)result\.json$/i)   // Telegram
+    || byName(/(?:^|\/)_chat\.txt$/i)        // WhatsApp iOS
+    || byName(/\.txt$/i)                      // WhatsApp Android ("WhatsApp Chat with X.txt")
+    || byName(/\.md$/i);                      // signal-export
+}
+
+/**
+ * Import a zipped chat export, linking attachments to the media files inside it
+ */
+export async function importChatArchive(buffer: ArrayBuffer, options?: ChatImportOptions): Promise<ImportedChat> {
+  const entries = readZipEntries(buffer);
+  const transcript = pickTranscriptEntry(entries);
+
+  if (!transcript) {
+    throw new Error('No chat transcript (.txt, result.json or .md) found in archive');
+  }
+
+  const text = new TextDecoder().decode(await transcript.read());
+  const imported = importChat(text, options);
+
+  const media = new Map<string, ZipEntry>();
+  for (const entry of entries) {
+    if (entry === transcript || entry.isDirectory) continue;
+    media.set(entry.name.split('/').pop()!.toLowerCase(), entry);
+  }
+
+  let linked = 0;
+  for (const message of imported.messages) {
+    for (const attachment of message.attachments || []) {
+      const entry = attachment.fileName ? media.get(attachment.fileName.toLowerCase()) : undefined;
+      if (entry) {
+        attachment.inArchive = true;
+        attachment.sizeBytes = attachment.sizeBytes ?? entry.size;
+        linked++;
+      }
+    }
+  }
+
+  const missing = imported.stats.attachments - linked;
+  if (missing > 0 && media.size > 0) {
+    imported.warnings.push(`${missing} attachment(s) referenced in the chat were not found in the archive.`);
+  }
+
+  console.log(`[ChatImport] Archive: ${media.size} media files, ${linked} linked to messages`);
+  return imported;
+}
+
+/**
+ * Import a user-selected file (.txt, .json, .md, .chat or .zip)
+ */
+export async function importChatFile(file: File, options?: ChatImportOptions): Promise<ImportedChat> {
+  const isArchive = /\.zip$/i.test(file.name) || file.type === 'application/zip';
+
+  if (isArchive) {
+    if (file.size > MAX_CHAT_ARCHIVE_BYTES) {
+      throw new Error('Archive too large. Maximum size is 64MB');
+    }
+    return importChatArchive(await file.arrayBuffer(), options);
+  }
+
+  if (file.size > MAX_CHAT_TEXT_BYTES) {
+    throw new Error('File too large. Maximum size is 5MB');
+  }
+
+  return importChat(await file.text(), options);
+}
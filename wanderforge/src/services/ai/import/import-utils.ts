@@ -0,0 +1,168 @@
+// Shared helpers for chat export parsers
+import type { ChatAttachment, ChatAttachmentKind } from '../types';
+
+// Invisible direction marks and non-breaking spaces WhatsApp sprinkles into exports
+const INVISIBLE_CHARS = /[\u200e\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g;
+const SPECIAL_SPACES = /[\u00a0\u2007\u202f]/g;
+
+/**
+ * Strip invisible unicode marks and normalize exotic spaces
+ */
+export function cleanLine(line: string): string {
+  return line.replace(INVISIBLE_CHARS, '').replace(SPECIAL_SPACES, ' ');
+}
+
+/**
+ * Split text into lines, handling \r\n and stray \r
+ */
+export function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * First N non-empty, cleaned lines (used by format detection)
+ */
+export function sampleLines(text: string, count: number = 40): string[] {
+  const lines: string[] = [];
+  for (const raw of splitLines(text)) {
+    const line = cleanLine(raw).trim();
+    if (line) lines.push(line);
+    if (lines.length >= count) break;
+  }
+  return lines;
+}
+
+// ==================== Timestamps ====================
+
+/**
+ * Infer day/month order from a set of numeric date tuples like ["14","12","24"]
+ * Returns 'DMY' unless some first component can only be a month
+ */
+export function inferDateOrder(dates: Array<[string, string]>): 'DMY' | 'MDY' {
+  let dayFirstEvidence = 0;
+  let monthFirstEvidence = 0;
+
+  for (const [first, second] of dates) {
+    if (parseInt(first, 10) > 12) dayFirstEvidence++;
+    if (parseInt(second, 10) > 12) monthFirstEvidence++;
+  }
+
+  // Indian exports are overwhelmingly day-first, so ties go to DMY
+  return monthFirstEvidence > dayFirstEvidence ? 'MDY' : 'DMY';
+}
+
+/**
+ * Build an ISO timestamp from numeric date/time parts (local time)
+ * `first`/`second` are the two leading numeric date fields, read per `order`
+ */
+export function buildTimestamp(
+  datePart: { first: string; second: string; year: string },
+  timePart: { hour: string; minute: string; second?: string; meridiem?: string },
+  order: 'DMY' | 'MDY'
+): string | undefined {
+  const day = parseInt(order === 'DMY' ? datePart.first : datePart.second, 10);
+  const month = parseInt(order === 'DMY' ? datePart.second : datePart.first, 10);
+
+  let year = parseInt(datePart.year, 10);
+  if (year < 100) year += 2000;
+
+  let hour = parseInt(timePart.hour, 10);
+  const minute = parseInt(timePart.minute, 10);
+  const second = timePart.second ? parseInt(timePart.second, 10) : 0;
+
+  if (timePart.meridiem) {
+    const isPM = /^p/i.test(timePart.meridiem);
+    if (isPM && hour < 12) hour += 12;
+    if (!isPM && hour === 12) hour = 0;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) {
+    return undefined;
+  }
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  if (isNaN(date.getTime()) || date.getDate() !== day) {
+    return undefined;
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Parse any timestamp string Date can handle (ISO, "2024-12-14 22:30")
+ */
+export function parseLooseTimestamp(value: string): string | undefined {
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}/.test(value)
+    ? value.replace(' ', 'T')
+    : value;
+  const time = Date.parse(normalized);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// ==================== Media ====================
+
+const MEDIA_PLACEHOLDER_PATTERNS = [
+  /^<media omitted>$/i,
+  /^(?:image|video|gif|sticker|audio|document|contact card|voice message) omitted$/i,
+  /(?:image|video|gif|sticker|audio|document|meme)\s*(?:omitted|sent)/i,
+  /^\*.*sent.*\*$/i,
+  /^<attached:\s*.+>$/i,
+  /\(file attached\)$/i,
+];
+
+/**
+ * Detect media placeholders and emoji-only noise
+ */
+export function isMediaContent(content: string): boolean {
+  return MEDIA_PLACEHOLDER_PATTERNS.some(p => p.test(content)) || isEmojiOnly(content);
+}
+
+/**
+ * True when text consists solely of emoji and whitespace
+ */
+export function isEmojiOnly(text: string): boolean {
+  // Remove all emoji characters and see if anything remains
+  const withoutEmoji = text.replace(/[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{1F900}-\u{1F9FF}]|[\u{1FA00}-\u{1FA6F}]|[\u{1FA70}-\u{1FAFF}]|[\u{231A}-\u{231B}]|[\u{23E9}-\u{23F3}]|[\u{23F8}-\u{23FA}]|[\u{25AA}-\u{25AB}]|[\u{25B6}]|[\u{25C0}]|[\u{25FB}-\u{25FE}]|[\u{2614}-\u{2615}]|[\u{2648}-\u{2653}]|[\u{267F}]|[\u{2693}]|[\u{26A1}]|[\u{26AA}-\u{26AB}]|[\u{26BD}-\u{26BE}]|[\u{26C4}-\u{26C5}]|[\u{26CE}]|[\u{26D4}]|[\u{26EA}]|[\u{26F2}-\u{26F3}]|[\u{26F5}]|[\u{26FA}]|[\u{26FD}]|[\u{2702}]|[\u{2705}]|[\u{2708}-\u{270D}]|[\u{270F}]|[\u{2712}]|[\u{2714}]|[\u{2716}]|[\u{271D}]|[\u{2721}]|[\u{2728}]|[\u{2733}-\u{2734}]|[\u{2744}]|[\u{2747}]|[\u{274C}]|[\u{274E}]|[\u{2753}-\u{2755}]|[\u{2757}]|[\u{2763}-\u{2764}]|[\u{2795}-\u{2797}]|[\u{27A1}]|[\u{27B0}]|[\u{27BF}]|[\u{2934}-\u{2935}]|[\u{2B05}-\u{2B07}]|[\u{2B1B}-\u{2B1C}]|[\u{2B50}]|[\u{2B55}]|[\u{3030}]|[\u{303D}]|[\u{3297}]|[\u{3299}]|[\u{FE0F}]|\s/gu, '');
+  return text.length > 0 && withoutEmoji.length === 0;
+}
+
+const EXTENSION_KINDS: Record<string, ChatAttachmentKind> = {
+  jpg: 'image', jpeg: 'image', png: 'image', heic: 'image', gif: 'image',
+  webp: 'sticker',
+  mp4: 'video', mov: 'video', '3gp': 'video', webm: 'video',
+  opus: 'audio', ogg: 'audio', m4a: 'audio', mp3: 'audio', aac: 'audio', wav: 'audio',
+  pdf: 'document', doc: 'document', docx: 'document', xls: 'document', xlsx: 'document',
+  txt: 'document', vcf: 'document',
+};
+
+const EXTENSION_MIME: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', heic: 'image/heic', gif: 'image/gif',
+  webp: 'image/webp', mp4: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm',
+  opus: 'audio/opus', ogg: 'audio/ogg', m4a: 'audio/mp4', mp3: 'audio/mpeg',
+  pdf: 'application/pdf', vcf: 'text/vcard',
+};
+
+/**
+ * Build an attachment descriptor from a file name
+ */
+export function attachmentFromFileName(fileName: string): ChatAttachment {
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+  return {
+    fileName,
+    kind: EXTENSION_KINDS[ext] || 'unknown',
+    mimeType: EXTENSION_MIME[ext],
+  };
+}
+
+/**
+ * Map a placeholder word ("image omitted", "sticker") to an attachment kind
+ */
+export function attachmentKindFromLabel(label: string): ChatAttachmentKind {
+  const lower = label.toLowerCase();
+  if (/image|photo|meme/.test(lower)) return 'image';
+  if (/video|gif/.test(lower)) return 'video';
+  if (/audio|voice/.test(lower)) return 'audio';
+  if (/sticker/.test(lower)) return 'sticker';
+  if (/document|file|contact/.test(lower)) return 'document';
+  return 'unknown';
+}
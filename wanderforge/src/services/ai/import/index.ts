@@ -0,0 +1,19 @@
+// Chat import subsystem - multi-format export parsing for Signal-Cleanse
+export {
+  importChat,
+  importChatFile,
+  importChatArchive,
+  createImportedChat,
+  detectChatFormat,
+  registerChatParser,
+  formatChatTranscript,
+  MAX_CHAT_TEXT_BYTES,
+  MAX_CHAT_ARCHIVE_BYTES,
+} from './chat-importer';
+export { whatsAppAndroidParser, whatsAppIOSParser } from './whatsapp-parser';
+export { telegramJsonParser } from './telegram-parser';
+export { signalParser } from './signal-parser';
+export { plainTextParser } from './plain-text-parser';
+export { readZipEntries } from './zip-reader';
+export type { ZipEntry } from './zip-reader';
+export { isMediaContent, isEmojiOnly } from './import-utils';
@@ -0,0 +1,62 @@
+// Plain text parser - "Name: message" lines with an optional "{id} [timestamp]" prefix
+// This is the shape the original Signal-Cleanse textarea expected, and the fallback for unknown exports.
+import type { ChatFormatParser, ChatParseOutput, RawChatMessage } from '../types';
+import { cleanLine, splitLines, sampleLines, parseLooseTimestamp, isMediaContent } from './import-utils';
+
+const LINE_PATTERN = /^(?:\{([^{}\s]+)\}\s*)?(?:\[(.*?)\]\s*)?([^:]{1,40}):\s*(.+)$/;
+// Message id written by formatChatTranscript({ includeIds: true }) on a line without a sender
+const ID_PREFIX = /^\{([^{}\s]+)\}\s*(.*)$/;
+
+export const plainTextParser: ChatFormatParser = {
+  format: 'plain-text',
+
+  detect(input: string): number {
+    const lines = sampleLines(input);
+    if (lines.length === 0) return 0;
+    // Always a candidate, but never beats a format-specific match
+    const matches = lines.filter(l => LINE_PATTERN.test(l)).length;
+    return 0.1 + 0.4 * (matches / lines.length);
+  },
+
+  parse(input: string): ChatParseOutput {
+    const messages: RawChatMessage[] = [];
+    let totalLines = 0;
+
+    for (const rawLine of splitLines(input)) {
+      const trimmed = cleanLine(rawLine).trim();
+      if (!trimmed) continue;
+      totalLines++;
+
+      const match = trimmed.match(LINE_PATTERN);
+
+      if (match) {
+        const content = match[4].trim();
+        messages.push({
+          id: match[1],
+          sender: match[3].trim(),
+          content,
+          timestamp: match[2] ? parseLooseTimestamp(match[2]) : undefined,
+          isMedia: isMediaContent(content),
+        });
+      } else {
+        // Line without sender (media marker like "*Naveen sent a meme*" or a system note)
+        const idMatch = trimmed.match(ID_PREFIX);
+        const content = idMatch ? idMatch[2] : trimmed;
+        messages.push({
+          id: idMatch?.[1],
+          content,
+          isMedia: /meme|gif/i.test(content) || isMediaContent(content),
+        });
+      }
+    }
+
+    return {
+      messages,
+      totalLines,
+      multilineMessages: 0,
+      systemMessages: 0,
+      skippedLines: 0,
+      warnings: [],
+    };
+  },
+};
@@ -0,0 +1,99 @@
+// Signal Desktop export parser (signal-export markdown: "[2024-12-14 22:30] Name: message")
+import type { ChatFormatParser, ChatParseOutput, RawChatMessage, ChatAttachment } from '../types';
+import { cleanLine, splitLines, sampleLines, parseLooseTimestamp, isMediaContent, attachmentFromFileName } from './import-utils';
+
+const SIGNAL_HEADER = /^\[(\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}(?::\d{2})?)\]\s+([^:]{1,60}?):\s?(.*)$/;
+// Markdown links to exported media: "![photo.jpg](./media/photo.jpg)" or "[file.pdf](./media/file.pdf)"
+const MEDIA_LINK = /!?\[([^\]]*)\]\(([^)]+)\)/g;
+
+interface PendingMessage {
+  timestamp: string;
+  sender: string;
+  lines: string[];
+}
+
+/**
+ * Split the leading "> quoted" block off a Signal message body
+ */
+function splitQuote(lines: string[]): { quote?: string; body: string[] } {
+  let i = 0;
+  const quoted: string[] = [];
+  while (i < lines.length && lines[i].startsWith('>')) {
+    quoted.push(lines[i].replace(/^>\s?/, ''));
+    i++;
+  }
+  const quote = quoted.join(' ').trim();
+  return { quote: quote || undefined, body: lines.slice(i) };
+}
+
+function extractMediaLinks(content: string): { content: string; attachments: ChatAttachment[] } {
+  const attachments: ChatAttachment[] = [];
+  const stripped = content.replace(MEDIA_LINK, (_match, label: string, path: string) => {
+    // Only treat local media paths as attachments; keep web links as text
+    if (/^https?:/i.test(path)) return label || path;
+    const fileName = decodeURIComponent(path.split('/').pop() || label);
+    attachments.push(attachmentFromFileName(fileName));
+    return '';
+  });
+  return { content: stripped.trim(), attachments };
+}
+
+export const signalParser: ChatFormatParser = {
+  format: 'signal',
+
+  detect(input: string): number {
+    const lines = sampleLines(input);
+    if (lines.length === 0) return 0;
+    const matches = lines.filter(l => SIGNAL_HEADER.test(l)).length;
+    return matches / lines.length;
+  },
+
+  parse(input: string): ChatParseOutput {
+    const pending: PendingMessage[] = [];
+    let totalLines = 0;
+    let skippedLines = 0;
+
+    for (const rawLine of splitLines(input)) {
+      if (!rawLine.trim()) continue;
+      totalLines++;
+
+      const line = cleanLine(rawLine);
+      const match = line.match(SIGNAL_HEADER);
+      if (match) {
+        pending.push({ timestamp: match[1], sender: match[2].trim(), lines: match[3] ? [match[3]] : [] });
+      } else if (pending.length > 0) {
+        pending[pending.length - 1].lines.push(line);
+      } else {
+        skippedLines++;
+      }
+    }
+
+    const messages: RawChatMessage[] = [];
+    let multilineMessages = 0;
+
+    for (const p of pending) {
+      const { quote, body } = splitQuote(p.lines);
+      if (body.length > 1) multilineMessages++;
+
+      const { content, attachments } = extractMediaLinks(body.join('\n'));
+
+      messages.push({
+        sender: p.sender,
+        content: content || (attachments.length > 0 ? `<${attachments[0].kind} omitted>` : ''),
+        timestamp: parseLooseTimestamp(p.timestamp),
+        isMedia: (attachments.length > 0 && !content) || isMediaContent(content),
+        attachments: attachments.length > 0 ? attachments : undefined,
+        replyTo: quote,
+      });
+    }
+
+    return {
+      messages: messages.filter(m => m.content || m.attachments),
+      totalLines,
+      multilineMessages,
+      systemMessages: 0,
+      skippedLines,
+      warnings: [],
+    };
+  },
+};
@@ -0,0 +1,159 @@
+// Telegram Desktop export parser ("Export chat history" → Machine-readable JSON / result.json)
+import type { ChatFormatParser, ChatImportOptions, ChatParseOutput, RawChatMessage, ChatAttachment } from '../types';
+import { attachmentFromFileName, isMediaContent } from './import-utils';
+
+type TelegramTextEntity = string | { type: string; text: string };
+
+interface TelegramMessage {
+  id: number;
+  type: 'message' | 'service' | string;
+  date: string;
+  date_unixtime?: string;
+  from?: string | null;
+  actor?: string | null;
+  action?: string;
+  text?: string | TelegramTextEntity[];
+  reply_to_message_id?: number;
+  photo?: string;
+  file?: string;
+  file_size?: number;
+  media_type?: string;
+  mime_type?: string;
+  sticker_emoji?: string;
+}
+
+interface TelegramChat {
+  name?: string;
+  type?: string;
+  messages?: TelegramMessage[];
+}
+
+interface TelegramExport extends TelegramChat {
+  chats?: { list?: TelegramChat[] };
+}
+
+const MEDIA_TYPE_KINDS: Record<string, ChatAttachment['kind']> = {
+  sticker: 'sticker',
+  animation: 'video',
+  video_file: 'video',
+  video_message: 'video',
+  voice_message: 'audio',
+  audio_file: 'audio',
+};
+
+/**
+ * Flatten Telegram's rich text (plain strings mixed with entity objects)
+ */
+function flattenText(text: TelegramMessage['text']): string {
+  if (!text) return '';
+  if (typeof text === 'string') return text;
+  return text.map(part => (typeof part === 'string' ? part : part.text)).join('');
+}
+
+function toAttachment(msg: TelegramMessage): ChatAttachment | null {
+  const path = msg.photo || msg.file;
+  if (!path && !msg.media_type) return null;
+
+  // Telegram writes this placeholder when media was excluded from the export
+  const excluded = path?.startsWith('(File not included');
+  const fileName = path && !excluded ? path.split('/').pop() : undefined;
+  const base: ChatAttachment = fileName ? attachmentFromFileName(fileName) : { kind: 'unknown' };
+
+  if (msg.photo) base.kind = 'image';
+  if (msg.media_type && MEDIA_TYPE_KINDS[msg.media_type]) base.kind = MEDIA_TYPE_KINDS[msg.media_type];
+  if (msg.mime_type) base.mimeType = msg.mime_type;
+  if (msg.file_size) base.sizeBytes = msg.file_size;
+
+  return base;
+}
+
+function toTimestamp(msg: TelegramMessage): string | undefined {
+  if (msg.date_unixtime) {
+    const seconds = parseInt(msg.date_unixtime, 10);
+    if (!isNaN(seconds)) return new Date(seconds * 1000).toISOString();
+  }
+  const time = Date.parse(msg.date);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Pick the chat to import; full-account exports contain many
+ */
+function selectChat(data: TelegramExport, warnings: string[]): TelegramChat {
+  if (Array.isArray(data.messages)) return data;
+
+  const list = data.chats?.list || [];
+  if (list.length === 0) return { messages: [] };
+
+  const largest = [...list].sort((a, b) => (b.messages?.length || 0) - (a.messages?.length || 0))[0];
+  if (list.length > 1) {
+    warnings.push(`Export contains ${list.length} chats; imported the largest ("${largest.name || 'unnamed'}").`);
+  }
+  return largest;
+}
+
+export const telegramJsonParser: ChatFormatParser = {
+  format: 'telegram-json',
+
+  detect(input: string): number {
+    const head = input.trimStart().slice(0, 4000);
+    if (!head.startsWith('{')) return 0;
+    if (!/"messages"\s*:/.test(head) && !/"chats"\s*:/.test(head)) return 0;
+    if (/"date_unixtime"|"from_id"|"personal_chat"|"private_group"|"private_supergroup"/.test(head)) return 0.95;
+    return 0.5;
+  },
+
+  parse(input: string, options?: ChatImportOptions): ChatParseOutput {
+    const warnings: string[] = [];
+    let data: TelegramExport;
+
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid Telegram JSON export: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+
+    const chat = selectChat(data, warnings);
+    const raw = chat.messages || [];
+    const messages: RawChatMessage[] = [];
+    let systemMessages = 0;
+    let multilineMessages = 0;
+
+    for (const msg of raw) {
+      const isSystem = msg.type === 'service';
+      if (isSystem) {
+        systemMessages++;
+        if (!options?.includeSystemMessages) continue;
+      }
+
+      const attachment = toAttachment(msg);
+      const caption = flattenText(msg.text).trim();
+      let content = caption;
+      if (!content && msg.sticker_emoji) content = msg.sticker_emoji;
+      if (!content && isSystem) content = `${msg.actor || 'Someone'} ${msg.action?.replace(/_/g, ' ') || 'updated the chat'}`;
+      if (!content && attachment) content = `<${attachment.kind} omitted>`;
+      if (content.includes('\n')) multilineMessages++;
+
+      messages.push({
+        id: String(msg.id),
+        sender: isSystem ? undefined : (msg.from || undefined),
+        content,
+        timestamp: toTimestamp(msg),
+        isMedia: (!!attachment && !caption) || isMediaContent(content),
+        isSystem: isSystem || undefined,
+        attachments: attachment ? [attachment] : undefined,
+        replyTo: msg.reply_to_message_id !== undefined ? String(msg.reply_to_message_id) : undefined,
+      });
+    }
+
+    return {
+      title: chat.name,
+      messages,
+      totalLines: raw.length,
+      multilineMessages,
+      systemMessages,
+      skippedLines: 0,
+      warnings,
+    };
+  },
+};
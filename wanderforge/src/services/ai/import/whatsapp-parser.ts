@@ -0,0 +1,181 @@
+// WhatsApp export parsers (Android "12/14/24, 10:30 PM - Name: msg" and iOS "[14/12/24, 22:30:15] Name: msg")
+import type { ChatFormatParser, ChatImportOptions, ChatParseOutput, RawChatMessage, ChatAttachment } from '../types';
+import {
+  cleanLine,
+  splitLines,
+  sampleLines,
+  inferDateOrder,
+  buildTimestamp,
+  isMediaContent,
+  attachmentFromFileName,
+  attachmentKindFromLabel,
+} from './import-utils';
+
+const DATE = String.raw`(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})`;
+const TIME = String.raw`(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*([AaPp]\.?\s?[Mm]\.?)?`;
+
+// Android: "14/12/2024, 22:30 - Name: message" (12h or 24h)
+const ANDROID_HEADER = new RegExp(`^${DATE},?\\s+${TIME}\\s+[-–]\\s+(.*)$`);
+// iOS: "[14/12/24, 10:30:15 PM] Name: message"
+const IOS_HEADER = new RegExp(`^\\[${DATE},?\\s+${TIME}\\]\\s+(.*)$`);
+
+const SYSTEM_PATTERNS = [
+  /messages and calls are end-to-end encrypted/i,
+  /created (?:this )?group/i,
+  /changed (?:the subject|this group's (?:icon|description|settings)|the group description)/i,
+  /\b(?:added|removed)\s+\S+/i,
+  /\bleft$/i,
+  /joined using this group's invite link/i,
+  /changed (?:their|his|her) phone number/i,
+  /security code (?:with .+ )?changed/i,
+  /^(?:this message was deleted|you deleted this message)$/i,
+  /disappearing messages/i,
+];
+
+// "IMG-20241214-WA0001.jpg (file attached)"
+const ANDROID_FILE_ATTACHED = /^(.+?\.\w{2,5})\s+\(file attached\)\s*/i;
+// "<attached: 00000012-PHOTO-2024-12-14-22-30-15.jpg>"
+const IOS_ATTACHED = /^<attached:\s*(.+?)>\s*/i;
+// "image omitted", "<Media omitted>", "GIF omitted"
+const OMITTED = /^<?(media|image|video|audio|sticker|gif|document|contact card|voice message)\s+omitted>?$/i;
+
+interface PendingMessage {
+  dateParts: { first: string; second: string; year: string };
+  timeParts: { hour: string; minute: string; second?: string; meridiem?: string };
+  sender?: string;
+  lines: string[];
+  rawStartsWithMark: boolean;
+}
+
+/**
+ * Extract attachments and caption from a WhatsApp message body
+ */
+function extractAttachments(content: string): { content: string; attachments: ChatAttachment[] } {
+  const attachments: ChatAttachment[] = [];
+  let body = content;
+
+  const androidMatch = body.match(ANDROID_FILE_ATTACHED);
+  if (androidMatch) {
+    attachments.push(attachmentFromFileName(androidMatch[1]));
+    body = body.slice(androidMatch[0].length);
+  }
+
+  const iosMatch = body.match(IOS_ATTACHED);
+  if (iosMatch) {
+    attachments.push(attachmentFromFileName(iosMatch[1]));
+    body = body.slice(iosMatch[0].length);
+  }
+
+  const omittedMatch = body.trim().match(OMITTED);
+  if (omittedMatch) {
+    attachments.push({ kind: attachmentKindFromLabel(omittedMatch[1]) });
+  }
+
+  return { content: body.trim(), attachments };
+}
+
+function createWhatsAppParser(format: 'whatsapp-android' | 'whatsapp-ios', header: RegExp): ChatFormatParser {
+  return {
+    format,
+
+    detect(input: string): number {
+      const lines = sampleLines(input);
+      if (lines.length === 0) return 0;
+      const matches = lines.filter(l => header.test(l)).length;
+      return matches / lines.length;
+    },
+
+    parse(input: string, options?: ChatImportOptions): ChatParseOutput {
+      const rawLines = splitLines(input);
+      const pending: PendingMessage[] = [];
+      const warnings: string[] = [];
+      let skippedLines = 0;
+      let totalLines = 0;
+
+      for (const rawLine of rawLines) {
+        if (!rawLine.trim()) continue;
+        totalLines++;
+
+        const line = cleanLine(rawLine);
+        const match = line.match(header);
+
+        if (!match) {
+          // Continuation of a multi-line message
+          if (pending.length > 0) {
+            pending[pending.length - 1].lines.push(line);
+          } else {
+            skippedLines++;
+          }
+          continue;
+        }
+
+        const [, d1, d2, year, hour, minute, second, meridiem, rest] = match;
+        const senderMatch = rest.match(/^([^:]{1,60}?):\s(.*)$/) || rest.match(/^([^:]{1,60}?):$/);
+        // iOS marks system and media bodies with a leading LRM after "Name: "
+        const afterSender = rawLine.split(': ').slice(1).join(': ');
+
+        pending.push({
+          dateParts: { first: d1, second: d2, year },
+          timeParts: { hour, minute, second, meridiem },
+          sender: senderMatch ? senderMatch[1].trim() : undefined,
+          lines: [senderMatch ? (senderMatch[2] || '') : rest],
+          rawStartsWithMark: afterSender.startsWith('\u200e'),
+        });
+      }
+
+      const order = options?.dateOrder
+        || inferDateOrder(pending.map(p => [p.dateParts.first, p.dateParts.second]));
+
+      const messages: RawChatMessage[] = [];
+      let multilineMessages = 0;
+      let systemMessages = 0;
+
+      for (const p of pending) {
+        const rawContent = p.lines.join('\n').trim();
+        const isSystem = !p.sender
+          || (format === 'whatsapp-ios' && p.rawStartsWithMark && SYSTEM_PATTERNS.some(r => r.test(rawContent)))
+          || /^(?:this message was deleted|you deleted this message)$/i.test(rawContent);
+
+        if (isSystem) {
+          systemMessages++;
+          if (!options?.includeSystemMessages) continue;
+        }
+
+        if (p.lines.length > 1) multilineMessages++;
+
+        const { content, attachments } = extractAttachments(rawContent);
+        const timestamp = buildTimestamp(p.dateParts, p.timeParts, order);
+
+        messages.push({
+          sender: isSystem ? undefined : p.sender,
+          content: content || rawContent,
+          timestamp,
+          isMedia: isMediaContent(rawContent) || (attachments.length > 0 && !content),
+          isSystem: isSystem || undefined,
+          attachments: attachments.length > 0 ? attachments : undefined,
+        });
+      }
+
+      if (
+        order === 'DMY' &&
+        !options?.dateOrder &&
+        pending.length > 0 &&
+        pending.every(p => parseInt(p.dateParts.first, 10) <= 12)
+      ) {
+        warnings.push('Day/month order was ambiguous; assumed day-first (DD/MM).');
+      }
+
+      return {
+        messages,
+        totalLines,
+        multilineMessages,
+        systemMessages,
+        skippedLines,
+        warnings,
+      };
+    },
+  };
+}
+
+export const whatsAppAndroidParser = createWhatsAppParser('whatsapp-android', ANDROID_HEADER);
+export const whatsAppIOSParser = createWhatsAppParser('whatsapp-ios', IOS_HEADER);
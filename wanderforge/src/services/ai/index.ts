@@ -4,4 +4,7 @@ export * from './providers';
 export * from './pipelines';
 export * from './search';
 export * from './heuristics';
+export * from './import';
+export * from './schema';
+export * from './routing';
 export { getAIServiceConfig, getAvailableProviders } from './utils/env-config';
@@ -1,63 +1,267 @@
 // Chat Parser Pipeline - Main Orchestrator
-import type { ChatExtractionResult, LLMProviderName, ChatParsingOptions } from '../types';
+import type {
+  ChatExtractionResult,
+  LLMPrompt,
+  LLMProviderName,
+  LLMStreamOptions,
+  ChatParsingOptions,
+  ImportedChat,
+  RawChatMessage,
+} from '../types';
 import { LLMProviderManager } from '../providers';
-import { CHAT_EXTRACTION_SYSTEM_PROMPT, createChatExtractionPrompt } from '../prompts/chat-parsing.prompts';
+import type { LLMProvider } from '../providers';
+import { CHAT_EXTRACTION_SYSTEM_PROMPT, CHAT_EXTRACTION_SCHEMA, createChatExtractionPrompt } from '../prompts/chat-parsing.prompts';
 import { enrichPlaces } from '../search';
+import { followQuestions, normalizeExtractedBudget, resolveExtractedDates } from '../heuristics';
+import { importChat, formatChatTranscript } from '../import';
+import { mergeExtractionResults, reconcileExtraction, countExtractedItems } from './extraction-merge';
+import { attachSourceReferences } from './provenance';
+
+// ~300 messages keeps a window comfortably inside free-tier context limits
+const DEFAULT_WINDOW_SIZE = 300;
+// Overlap so a proposal and its "+1"s don't straddle a window boundary unseen
+const DEFAULT_WINDOW_OVERLAP = 20;
+
+// Top-level sections the model writes in order; used to estimate streaming progress
+const RESULT_SECTIONS = ['dates', 'budget', 'places', 'tasks', 'decisions', 'openQuestions'] as const;
 
 interface PipelineCallbacks {
   onProgress?: (stage: string, progress: number) => void;
   onProviderChange?: (provider: LLMProviderName) => void;
   onFallback?: (provider: LLMProviderName) => void;
+  // Streaming: the best current picture (earlier windows + the part of this one received so far)
+  onPartialResult?: (partial: ChatExtractionResult) => void;
+}
+
+/**
+ * Fill in whatever the model left out so the result is safe to render
+ */
+function toExtractionResult(
+  data: Partial<ChatExtractionResult>,
+  provider: LLMProviderName,
+  latencyMs: number
+): ChatExtractionResult {
+  return {
+    dates: data.dates || [],
+    budget: data.budget || null,
+    places: data.places || [],
+    tasks: data.tasks || [],
+    decisions: data.decisions || [],
+    openQuestions: data.openQuestions || [],
+    stats: {
+      totalMessages: data.stats?.totalMessages ?? 0,
+      relevantMessages: data.stats?.relevantMessages ?? 0,
+      mediaFiltered: data.stats?.mediaFiltered ?? 0,
+      extractedItems: data.stats?.extractedItems ?? 0,
+      processingTimeMs: latencyMs,
+      providersUsed: [provider],
+    },
+  };
+}
+
+/**
+ * Split messages into overlapping windows
+ */
+function splitIntoWindows(messages: RawChatMessage[], size: number, overlap: number): RawChatMessage[][] {
+  if (messages.length <= size) return [messages];
+
+  const windows: RawChatMessage[][] = [];
+  const step = size - overlap;
+  for (let start = 0; start < messages.length; start += step) {
+    windows.push(messages.slice(start, start + size));
+    if (start + size >= messages.length) break;
+  }
+  return windows;
 }
 
 export class ChatParserPipeline {
   private providerManager: LLMProviderManager;
   private callbacks: PipelineCallbacks;
 
-  constructor(callbacks?: PipelineCallbacks) {
+  constructor(callbacks?: PipelineCallbacks, options?: { providers?: LLMProvider[] }) {
     this.callbacks = callbacks || {};
     this.providerManager = new LLMProviderManager({
       onProviderChange: callbacks?.onProviderChange,
       onFallback: callbacks?.onFallback,
+      providers: options?.providers,
     });
   }
 
+  /**
+   * Extract trip information from a chat.
+   * Accepts raw export text (any format the importer detects) or an already-imported chat.
+   * Chats longer than `windowSize` messages are extracted window by window and reconciled.
+   */
   async process(
-    chatText: string,
+    input: string | ImportedChat,
     options?: ChatParsingOptions
   ): Promise<ChatExtractionResult> {
     const startTime = Date.now();
 
-    // Stage 1: Pre-processing
+    // Stage 1: Pre-processing - normalize the export into messages
     this.callbacks.onProgress?.('Analyzing chat messages...', 10);
 
-    // Stage 2: AI Extraction
-    this.callbacks.onProgress?.('Extracting information with AI...', 30);
+    const imported = typeof input === 'string' ? importChat(input) : input;
+
+    // Stage 2: AI Extraction (windowed for long chats)
+    let result = await this.extractWindows(imported.messages, options);
+    result = this.applyImportStats(result, imported);
+    result.openQuestions = followQuestions(result.openQuestions, imported.messages);
+
+    return this.finalize(result, startTime, options);
+  }
+
+  /**
+   * Incremental extraction: only `newMessages` go to the LLM, and the output is
+   * merged into `previous` (e.g. the latest chat_extraction_snapshots row).
+   */
+  async processIncremental(
+    previous: ChatExtractionResult,
+    newMessages: string | ImportedChat,
+    options?: ChatParsingOptions
+  ): Promise<ChatExtractionResult> {
+    const startTime = Date.now();
+
+    this.callbacks.onProgress?.('Analyzing new messages...', 10);
+
+    const imported = typeof newMessages === 'string' ? importChat(newMessages) : newMessages;
+    if (imported.messages.length === 0) {
+      this.callbacks.onProgress?.('Complete!', 100);
+      return previous;
+    }
+
+    const delta = this.applyImportStats(await this.extractWindows(imported.messages, options, previous), imported);
+
+    this.callbacks.onProgress?.('Merging with previous extraction...', 65);
+    const merged = reconcileExtraction(mergeExtractionResults(previous, delta));
+    // Questions from earlier runs can be answered by the new messages
+    merged.openQuestions = followQuestions(merged.openQuestions, imported.messages);
+
+    return this.finalize(merged, startTime, options);
+  }
+
+  /**
+   * Run the LLM over message windows and merge them in chat order
+   */
+  private async extractWindows(
+    messages: RawChatMessage[],
+    options?: ChatParsingOptions,
+    base: ChatExtractionResult | null = null
+  ): Promise<ChatExtractionResult> {
+    const windowSize = options?.windowSize || DEFAULT_WINDOW_SIZE;
+    const overlap = Math.min(options?.windowOverlap ?? DEFAULT_WINDOW_OVERLAP, Math.floor(windowSize / 2));
+    const windows = splitIntoWindows(messages, windowSize, overlap);
+
+    let merged: ChatExtractionResult | null = null;
+
+    for (let i = 0; i < windows.length; i++) {
+      const label = windows.length > 1 ? ` (part ${i + 1}/${windows.length})` : '';
+      this.callbacks.onProgress?.(`Extracting information with AI...${label}`, 30 + Math.round((i / windows.length) * 30));
+
+      // What partial results are shown on top of: the previous run plus finished windows
+      const shownBefore = base && merged ? mergeExtractionResults(base, merged) : merged ?? base;
+      const stream = this.createStreamOptions(shownBefore, i, windows.length, label, options);
 
-    const prompt = {
+      const windowResult = await this.extractWindow(windows[i], stream);
+      merged = merged ? mergeExtractionResults(merged, windowResult) : windowResult;
+    }
+
+    if (!merged) {
+      return this.extractWindow([]);
+    }
+
+    // Final reconciliation across window boundaries
+    return windows.length > 1 ? reconcileExtraction(merged) : merged;
+  }
+
+  /**
+   * Stream handler for one window: moves the progress bar as sections arrive and
+   * reports partial results. Returns undefined when nobody is listening or streaming is off.
+   */
+  private createStreamOptions(
+    shownBefore: ChatExtractionResult | null,
+    windowIndex: number,
+    windowCount: number,
+    label: string,
+    options?: ChatParsingOptions
+  ): LLMStreamOptions<ChatExtractionResult> | undefined {
+    const { onPartialResult, onProgress } = this.callbacks;
+    if (options?.stream === false || (!onPartialResult && !onProgress)) return undefined;
+
+    let lastProgress = -1;
+
+    return {
+      onChunk: (chunk) => {
+        if (!chunk.partial) return;
+
+        const sectionsSeen = RESULT_SECTIONS.filter(key => key in (chunk.partial as object)).length;
+        const progress = 30 + Math.round(((windowIndex + sectionsSeen / RESULT_SECTIONS.length) / windowCount) * 30);
+        if (progress !== lastProgress) {
+          lastProgress = progress;
+          onProgress?.(`Extracting information with AI...${label}`, progress);
+        }
+
+        if (!onPartialResult) return;
+        const parsed = CHAT_EXTRACTION_SCHEMA.parse(chunk.partial);
+        if (!parsed.success) return;
+
+        const partial = this.addSourceAttribution(
+          toExtractionResult(parsed.data as Partial<ChatExtractionResult>, chunk.provider, 0),
+          chunk.provider
+        );
+        onPartialResult(shownBefore ? mergeExtractionResults(shownBefore, partial) : partial);
+      },
+    };
+  }
+
+  private async extractWindow(
+    messages: RawChatMessage[],
+    stream?: LLMStreamOptions<ChatExtractionResult>
+  ): Promise<ChatExtractionResult> {
+    const prompt: LLMPrompt = {
       system: CHAT_EXTRACTION_SYSTEM_PROMPT,
-      user: createChatExtractionPrompt(chatText),
+      user: createChatExtractionPrompt(formatChatTranscript(messages, { includeIds: true })),
+      schema: CHAT_EXTRACTION_SCHEMA,
+      task: 'extraction',
     };
 
-    const response = await this.providerManager.executeWithFallback<ChatExtractionResult>(prompt);
+    const response = await this.providerManager.executeWithFallback<ChatExtractionResult>(prompt, undefined, stream);
 
     if (!response.success || !response.data) {
       throw new Error(response.error || 'Failed to extract data from chat');
     }
 
-    let result = response.data;
+    const result = toExtractionResult(response.data, response.provider, response.latencyMs);
 
-    // Ensure stats are populated
-    result.stats = {
-      ...result.stats,
-      processingTimeMs: Date.now() - startTime,
-      providersUsed: [response.provider],
-    };
+    // Add source to all items if not present, then link items to the messages they came from
+    const attributed = attachSourceReferences(this.addSourceAttribution(result, response.provider), messages);
+    // Models often leave startDate/endDate empty for "next weekend"; resolve them against the source message
+    return { ...attributed, dates: resolveExtractedDates(attributed.dates, messages) };
+  }
 
-    // Add source to all items if not present
-    result = this.addSourceAttribution(result, response.provider);
+  /**
+   * Message counts come from the importer, not the model
+   */
+  private applyImportStats(result: ChatExtractionResult, imported: ImportedChat): ChatExtractionResult {
+    const mediaCount = imported.messages.filter(m => m.isMedia).length;
+    return {
+      ...result,
+      stats: {
+        ...result.stats,
+        totalMessages: imported.messages.length,
+        relevantMessages: imported.messages.length - mediaCount,
+        mediaFiltered: mediaCount,
+        importStats: imported.stats,
+      },
+    };
+  }
 
-    // Stage 3: Place Enrichment (optional)
+  private async finalize(
+    result: ChatExtractionResult,
+    startTime: number,
+    options?: ChatParsingOptions
+  ): Promise<ChatExtractionResult> {
+    // Stage 3: Place Enrichment (optional) - already-enriched places are skipped
     if (options?.enrichPlaces !== false && result.places.length > 0) {
       this.callbacks.onProgress?.('Enriching place data...', 70);
 
@@ -75,14 +279,14 @@ export class ChatParserPipeline {
     // Stage 4: Finalization
     this.callbacks.onProgress?.('Finalizing results...', 90);
 
-    // Calculate extracted items
-    result.stats.extractedItems =
-      result.dates.length +
-      (result.budget ? result.budget.breakdown.length + 1 : 0) +
-      result.places.length +
-      result.tasks.length +
-      result.decisions.length;
+    // Group size: as told, else everyone who spoke in the chat
+    result.budget = normalizeExtractedBudget(
+      result.budget,
+      options?.members ?? result.stats.importStats?.senders,
+      options?.baseCurrency
+    );
 
+    result.stats.extractedItems = countExtractedItems(result);
     result.stats.processingTimeMs = Date.now() - startTime;
 
     this.callbacks.onProgress?.('Complete!', 100);
@@ -0,0 +1,255 @@
+// Extraction Merge - combine extraction results from chat windows or incremental runs
+// Conflict rule of thumb: later messages win, but confirmed facts aren't downgraded by silence.
+import type {
+  ChatExtractionResult,
+  ExtractedBudget,
+  ExtractedDate,
+  ExtractedDecision,
+  ExtractedPlace,
+  ExtractedTask,
+  LLMProviderName,
+  OpenQuestion,
+  QuestionAnswer,
+} from '../types';
+import { mergeSourceReferences } from './provenance';
+
+const PLACE_STATUS_RANK: Record<ExtractedPlace['status'], number> = { rejected: 0, maybe: 1, confirmed: 2 };
+const TASK_STATUS_RANK: Record<ExtractedTask['status'], number> = { pending: 0, 'in-progress': 1, done: 2 };
+
+/**
+ * Normalize free text into a comparison key ("Book train tickets!" → "book train tickets")
+ */
+export function normalizeKey(text: string, maxLength: number = 60): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, maxLength);
+}
+
+function union<T>(a: T[] = [], b: T[] = []): T[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/**
+ * Merge two keyed lists, preserving the order items were first seen
+ */
+function mergeByKey<T>(prior: T[], next: T[], keyOf: (item: T) => string, combine: (older: T, newer: T) => T): T[] {
+  const merged = new Map<string, T>();
+  for (const item of prior) merged.set(keyOf(item), item);
+  for (const item of next) {
+    const key = keyOf(item);
+    const existing = merged.get(key);
+    merged.set(key, existing ? combine(existing, item) : item);
+  }
+  return Array.from(merged.values());
+}
+
+// ==================== Per-field merges ====================
+
+function dateKey(d: ExtractedDate): string {
+  if (d.startDate || d.endDate) return `${d.startDate || ''}|${d.endDate || ''}`;
+  return normalizeKey(d.date.replace(/(\d+)(?:st|nd|rd|th)/gi, '$1'));
+}
+
+function mergeDates(prior: ExtractedDate[], next: ExtractedDate[]): ExtractedDate[] {
+  const merged = mergeByKey<ExtractedDate>(prior, next, dateKey, (older, newer) => ({
+    ...older,
+    ...newer,
+    context: newer.context || older.context,
+    confidence: Math.max(older.confidence, newer.confidence),
+    proposedBy: union(
+      older.proposedBy?.split(/,\s*/).filter(Boolean),
+      newer.proposedBy?.split(/,\s*/).filter(Boolean)
+    ).join(', ') || undefined,
+    status: older.status === 'finalized' || newer.status === 'finalized' ? 'finalized' : newer.status ?? older.status,
+    sources: mergeSourceReferences(older.sources, newer.sources),
+  }));
+
+  // A newly finalized range supersedes earlier finalized ranges
+  const newlyFinal = next.filter(d => d.status === 'finalized').map(dateKey);
+  if (newlyFinal.length === 0) return merged;
+
+  return merged.map((d): ExtractedDate =>
+    d.status === 'finalized' && !newlyFinal.includes(dateKey(d)) ? { ...d, status: 'open' } : d
+  );
+}
+
+function mergeBudget(prior: ExtractedBudget | null, next: ExtractedBudget | null): ExtractedBudget | null {
+  if (!prior) return next;
+  if (!next) return prior;
+
+  // Newer total wins unless it's an unresolved proposal and we already had consensus
+  const keepPriorTotal = prior.status === 'finalized' && next.status !== 'finalized';
+  const primary = keepPriorTotal ? prior : next;
+
+  return {
+    ...primary,
+    breakdown: mergeByKey(prior.breakdown, next.breakdown, b => normalizeKey(b.item), (older, newer) => ({
+      ...older,
+      ...newer,
+      assignee: newer.assignee || older.assignee,
+      sources: mergeSourceReferences(older.sources, newer.sources),
+    })),
+    proposals: mergeByKey(prior.proposals || [], next.proposals || [], p => normalizeKey(p.amount), (older, newer) => ({
+      ...older,
+      proposedBy: union(older.proposedBy, newer.proposedBy),
+      context: newer.context || older.context,
+    })),
+    confidence: Math.max(prior.confidence, next.confidence),
+    sources: mergeSourceReferences(prior.sources, next.sources),
+  };
+}
+
+function mergePlaces(prior: ExtractedPlace[], next: ExtractedPlace[]): ExtractedPlace[] {
+  return mergeByKey(prior, next, p => normalizeKey(p.name), (older, newer) => {
+    const mentionedBy = union(older.mentionedBy, newer.mentionedBy);
+    // An explicit rejection or confirmation in newer messages wins; "maybe" never downgrades
+    const status = newer.status === 'maybe' && PLACE_STATUS_RANK[older.status] > PLACE_STATUS_RANK.maybe
+      ? older.status
+      : newer.status;
+
+    return {
+      ...older,
+      ...newer,
+      name: older.name,
+      status,
+      mentionedBy,
+      votes: Math.max(older.votes, newer.votes, mentionedBy.length),
+      coordinates: older.coordinates || newer.coordinates,
+      enrichedData: older.enrichedData || newer.enrichedData,
+      confidence: Math.max(older.confidence, newer.confidence),
+      sources: mergeSourceReferences(older.sources, newer.sources),
+    };
+  });
+}
+
+function mergeTasks(prior: ExtractedTask[], next: ExtractedTask[]): ExtractedTask[] {
+  return mergeByKey(prior, next, t => normalizeKey(t.task, 40), (older, newer) => ({
+    ...older,
+    ...newer,
+    task: older.task,
+    assignee: newer.assignee || older.assignee,
+    deadline: newer.deadline || older.deadline,
+    priority: newer.priority || older.priority,
+    // Progress only moves forward; chats rarely "un-book" tickets
+    status: TASK_STATUS_RANK[newer.status] >= TASK_STATUS_RANK[older.status] ? newer.status : older.status,
+    sources: mergeSourceReferences(older.sources, newer.sources),
+  }));
+}
+
+function mergeDecisions(prior: ExtractedDecision[], next: ExtractedDecision[]): ExtractedDecision[] {
+  return mergeByKey(prior, next, d => normalizeKey(d.decision, 40), (older, newer) => {
+    const participants = union(older.participants, newer.participants);
+    return {
+      ...older,
+      ...newer,
+      decision: older.decision,
+      participants,
+      madeBy: participants.length > 0 ? participants.join(', ') : newer.madeBy || older.madeBy,
+      confirmed: !!(older.confirmed || newer.confirmed),
+      confidence: Math.max(older.confidence, newer.confidence),
+      sources: mergeSourceReferences(older.sources, newer.sources),
+    };
+  });
+}
+
+function mergeAnswers(older?: QuestionAnswer[], newer?: QuestionAnswer[]): QuestionAnswer[] | undefined {
+  if (!older && !newer) return undefined;
+  return mergeByKey(older || [], newer || [], a => a.messageId, (_, a) => a)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5);
+}
+
+function mergeQuestions(prior: OpenQuestion[], next: OpenQuestion[]): OpenQuestion[] {
+  return mergeByKey(prior, next, q => normalizeKey(q.question), (older, newer) => ({
+    ...older,
+    ...newer,
+    question: older.question,
+    participants: union(older.participants, newer.participants),
+    // A tracked answer outlives a re-extraction that only saw the question again
+    status: older.answer && older.status === 'resolved' ? older.status : newer.status ?? older.status,
+    sources: mergeSourceReferences(older.sources, newer.sources),
+    askedBy: older.askedBy ?? newer.askedBy,
+    askedAt: older.askedAt ?? newer.askedAt,
+    candidateAnswers: mergeAnswers(older.candidateAnswers, newer.candidateAnswers),
+    answer: older.answer && older.status === 'resolved' ? older.answer : newer.answer ?? older.answer,
+  }));
+}
+
+// ==================== Public API ====================
+
+/**
+ * Count actionable items the same way the pipeline reports them
+ */
+export function countExtractedItems(result: ChatExtractionResult): number {
+  return result.dates.length +
+    (result.budget ? result.budget.breakdown.length + 1 : 0) +
+    result.places.length +
+    result.tasks.length +
+    result.decisions.length;
+}
+
+/**
+ * Merge a newer extraction into an older one.
+ * `next` must come from messages at or after the ones that produced `prior`.
+ */
+export function mergeExtractionResults(
+  prior: ChatExtractionResult,
+  next: ChatExtractionResult
+): ChatExtractionResult {
+  const merged: ChatExtractionResult = {
+    dates: mergeDates(prior.dates, next.dates),
+    budget: mergeBudget(prior.budget, next.budget),
+    places: mergePlaces(prior.places, next.places),
+    tasks: mergeTasks(prior.tasks, next.tasks),
+    decisions: mergeDecisions(prior.decisions, next.decisions),
+    openQuestions: mergeQuestions(prior.openQuestions, next.openQuestions),
+    stats: {
+      totalMessages: prior.stats.totalMessages + next.stats.totalMessages,
+      relevantMessages: prior.stats.relevantMessages + next.stats.relevantMessages,
+      mediaFiltered: prior.stats.mediaFiltered + next.stats.mediaFiltered,
+      extractedItems: 0,
+      processingTimeMs: prior.stats.processingTimeMs + next.stats.processingTimeMs,
+      providersUsed: union<LLMProviderName>(prior.stats.providersUsed, next.stats.providersUsed),
+      importStats: next.stats.importStats ?? prior.stats.importStats,
+    },
+  };
+
+  merged.stats.extractedItems = countExtractedItems(merged);
+  return merged;
+}
+
+/**
+ * Final reconciliation pass after merging windows:
+ * marks questions a confirmed decision already answers as resolved, promotes rejected
+ * places that a confirmed decision explicitly picked to confirmed, and sorts places by support.
+ */
+export function reconcileExtraction(result: ChatExtractionResult): ChatExtractionResult {
+  const confirmedDecisionText = result.decisions
+    .filter(d => d.confirmed)
+    .map(d => normalizeKey(d.decision, 200));
+
+  const answeredBy = (q: OpenQuestion): boolean => {
+    const words = normalizeKey(q.question, 200).split(' ').filter(w => w.length > 3);
+    if (words.length === 0) return false;
+    return confirmedDecisionText.some(text => words.filter(w => text.includes(w)).length >= Math.ceil(words.length / 2));
+  };
+
+  const openQuestions = result.openQuestions.map(q =>
+    q.status !== 'resolved' && answeredBy(q) ? { ...q, status: 'resolved' as const } : q
+  );
+
+  const places = result.places
+    .map(p => (p.status === 'rejected' && confirmedDecisionText.some(t => t.includes(normalizeKey(p.name))))
+      ? { ...p, status: 'confirmed' as const }
+      : p)
+    .sort((a, b) =>
+      PLACE_STATUS_RANK[b.status] - PLACE_STATUS_RANK[a.status] || b.votes - a.votes
+    );
+
+  const reconciled = { ...result, places, openQuestions };
+  reconciled.stats = { ...result.stats, extractedItems: countExtractedItems(reconciled) };
+  return reconciled;
+}
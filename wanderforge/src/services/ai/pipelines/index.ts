@@ -1,2 +1,9 @@
 // Re-export pipelines
 export { ChatParserPipeline } from './chat-parser.pipeline';
+export {
+  mergeExtractionResults,
+  reconcileExtraction,
+  countExtractedItems,
+  normalizeKey,
+} from './extraction-merge';
+export { attachSourceReferences, locateSources, mergeSourceReferences } from './provenance';
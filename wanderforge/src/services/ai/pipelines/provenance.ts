@@ -0,0 +1,244 @@
+// Provenance - link extracted items back to the chat messages that produced them
+// Runs after every provider (AI or offline heuristics), so all items are traceable the same way.
+import type {
+  BudgetItem,
+  ChatExtractionResult,
+  ExtractedBudget,
+  MessageReference,
+  RawChatMessage,
+  SourceSpan,
+} from '../types';
+
+const MAX_SOURCES_PER_ITEM = 5;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'have', 'will', 'should', 'would',
+  'what', 'when', 'where', 'which', 'there', 'their', 'about', 'into', 'then', 'than',
+  'book', 'trip', 'guys', 'also', 'just', 'like', 'going', 'decided', 'group', 'everyone',
+]);
+
+interface SearchSpec {
+  phrases: string[];           // Exact (case-insensitive) phrases, strongest evidence
+  keywordText?: string;        // Fallback: match significant words from this text
+  preferredSenders?: string[]; // Boost messages from these people
+}
+
+interface Candidate {
+  ref: MessageReference;
+  score: number;
+  order: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findSpans(content: string, needle: string): SourceSpan[] {
+  if (!needle.trim()) return [];
+  const spans: SourceSpan[] = [];
+  const regex = new RegExp(escapeRegExp(needle.trim()), 'gi');
+  let match;
+  while ((match = regex.exec(content)) !== null) {
+    spans.push({ start: match.index, end: match.index + match[0].length });
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return spans;
+}
+
+function significantWords(text: string): string[] {
+  return Array.from(new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(w => w.length > 3 && !STOPWORDS.has(w))
+  ));
+}
+
+function mergeSpans(spans: SourceSpan[]): SourceSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const merged: SourceSpan[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Find the messages that best support an item
+ */
+export function locateSources(messages: RawChatMessage[], spec: SearchSpec): MessageReference[] {
+  const candidates: Candidate[] = [];
+  const preferred = new Set((spec.preferredSenders || []).map(s => s.toLowerCase()));
+  const keywords = spec.keywordText ? significantWords(spec.keywordText) : [];
+  const keywordThreshold = Math.max(1, Math.ceil(keywords.length / 2));
+
+  messages.forEach((message, order) => {
+    if (message.isMedia || message.isSystem || !message.content || !message.id) return;
+
+    let spans: SourceSpan[] = [];
+    let score = 0;
+
+    for (const phrase of spec.phrases) {
+      const found = findSpans(message.content, phrase);
+      if (found.length > 0) {
+        spans.push(...found);
+        score += 10;
+      }
+    }
+
+    if (spans.length === 0 && keywords.length > 0) {
+      const keywordSpans = keywords.map(k => findSpans(message.content, k));
+      const hits = keywordSpans.filter(s => s.length > 0).length;
+      if (hits >= keywordThreshold) {
+        spans = keywordSpans.flat();
+        score += hits * 2;
+      }
+    }
+
+    if (spans.length === 0) return;
+    if (message.sender && preferred.has(message.sender.toLowerCase())) score += 3;
+
+    candidates.push({
+      ref: { messageId: message.id, sender: message.sender, spans: mergeSpans(spans) },
+      score,
+      order,
+    });
+  });
+
+  // Best evidence first, then keep chat order for display
+  return candidates
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, MAX_SOURCES_PER_ITEM)
+    .sort((a, b) => a.order - b.order)
+    .map(c => c.ref);
+}
+
+/**
+ * Forms an amount like "₹15,000" may take in chat: "15000", "15,000", "15k"
+ */
+function amountVariants(amount: string): string[] {
+  const variants = new Set<string>();
+  for (const raw of amount.match(/\d[\d,]*(?:\.\d+)?\s*k?/gi) || []) {
+    const hasK = /k$/i.test(raw.trim());
+    const value = parseFloat(raw.replace(/[,\sk]/gi, '')) * (hasK ? 1000 : 1);
+    if (!value || isNaN(value)) continue;
+    variants.add(String(value));
+    variants.add(value.toLocaleString('en-IN'));
+    variants.add(value.toLocaleString('en-US'));
+    if (value >= 1000 && value % 100 === 0) variants.add(`${value / 1000}k`);
+  }
+  return Array.from(variants);
+}
+
+// Message ids a model cited for an item (`sourceIds` in the extraction prompt; not validated)
+function citedIds(item: object): string[] {
+  const ids = (item as { sourceIds?: unknown }).sourceIds;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+}
+
+// A reference that names its message but not where in it the item was said
+function pinpoint(ref: MessageReference, messages: RawChatMessage[], spec: SearchSpec): MessageReference {
+  if (ref.spans.length > 0) return ref;
+  const message = messages.find(m => m.id === ref.messageId);
+  const [located] = message ? locateSources([message], spec) : [];
+  return located ? { ...ref, spans: located.spans } : ref;
+}
+
+function withSources<T extends { sources?: MessageReference[] }>(
+  item: T,
+  messages: RawChatMessage[],
+  spec: SearchSpec
+): T {
+  const byId = new Map(messages.filter(m => m.id).map(m => [m.id!, m]));
+  const cited = citedIds(item)
+    .filter(id => byId.has(id))
+    .map(id => ({ messageId: id, sender: byId.get(id)!.sender, spans: [] }));
+
+  const result = { ...item } as T & { sourceIds?: unknown };
+  delete result.sourceIds;
+
+  // Provenance the provider or model already gave only needs its spans filled in
+  const known = mergeSourceReferences(item.sources, cited);
+  if (known) {
+    return { ...result, sources: known.slice(0, MAX_SOURCES_PER_ITEM).map(ref => pinpoint(ref, messages, spec)) };
+  }
+
+  // Nothing says where the item came from: fall back to searching the text
+  const sources = locateSources(messages, spec);
+  return sources.length > 0 ? { ...result, sources } : result;
+}
+
+function budgetWithSources(budget: ExtractedBudget, messages: RawChatMessage[]): ExtractedBudget {
+  const breakdown = budget.breakdown.map((b: BudgetItem) => withSources(b, messages, {
+    phrases: amountVariants(b.amount),
+    keywordText: b.item,
+    preferredSenders: b.assignee ? [b.assignee] : [],
+  }));
+
+  // Without a consensus total, point at the competing proposals instead
+  const amounts = budget.total ? [budget.total] : (budget.proposals || []).map(p => p.amount);
+  return withSources({ ...budget, breakdown }, messages, {
+    phrases: amounts.flatMap(amountVariants),
+    preferredSenders: (budget.proposals || []).flatMap(p => p.proposedBy),
+  });
+}
+
+/**
+ * Attach message references (ids + character spans) to every extracted item
+ */
+export function attachSourceReferences(
+  result: ChatExtractionResult,
+  messages: RawChatMessage[]
+): ChatExtractionResult {
+  return {
+    ...result,
+    dates: result.dates.map(d => withSources(d, messages, {
+      phrases: [d.date],
+      keywordText: d.context,
+      preferredSenders: d.proposedBy?.split(/,\s*/),
+    })),
+    budget: result.budget ? budgetWithSources(result.budget, messages) : null,
+    places: result.places.map(p => withSources(p, messages, {
+      phrases: [p.name],
+      preferredSenders: p.mentionedBy,
+    })),
+    tasks: result.tasks.map(t => withSources(t, messages, {
+      phrases: [t.task],
+      keywordText: t.task,
+      preferredSenders: t.assignee ? [t.assignee] : [],
+    })),
+    decisions: result.decisions.map(d => withSources(d, messages, {
+      phrases: [d.decision],
+      keywordText: d.decision,
+      preferredSenders: d.participants,
+    })),
+    openQuestions: result.openQuestions.map(q => withSources(q, messages, {
+      phrases: [q.question],
+      keywordText: q.context ? `${q.question} ${q.context}` : q.question,
+      preferredSenders: q.participants,
+    })),
+  };
+}
+
+/**
+ * Union two reference lists (used when merging windows / incremental runs)
+ */
+export function mergeSourceReferences(
+  a: MessageReference[] = [],
+  b: MessageReference[] = []
+): MessageReference[] | undefined {
+  const byId = new Map<string, MessageReference>();
+  for (const ref of [...a, ...b]) {
+    const existing = byId.get(ref.messageId);
+    byId.set(ref.messageId, existing
+      ? { ...existing, spans: mergeSpans([...existing.spans, ...ref.spans]) }
+      : ref);
+  }
+  const merged = Array.from(byId.values());
+  return merged.length > 0 ? merged : undefined;
+}
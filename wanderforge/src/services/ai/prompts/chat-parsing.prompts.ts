@@ -1,4 +1,5 @@
 // Chat Parsing Prompts for LLM - Optimized for Indian informal chat
+import { s } from '../schema';
 
 export const CHAT_EXTRACTION_SYSTEM_PROMPT = `You are a travel planning assistant that extracts actionable information from INDIAN group chat conversations.
 
@@ -63,6 +64,8 @@ REMEMBER:
 - "madi", "macha", "guru", "bro" are NOT places - they're casual words
 - "10-12k" means ₹10,000 to ₹12,000
 - Look for CONSENSUS when detecting decisions
+- Each chat line starts with its message id in braces, e.g. {msg-12}. In "sourceIds", list the ids
+  (without braces) of the messages each item comes from
 
 Respond with JSON in this exact format (no markdown, just pure JSON):
 {
@@ -72,7 +75,8 @@ Respond with JSON in this exact format (no markdown, just pure JSON):
       "startDate": "ISO date or null",
       "endDate": "ISO date or null",
       "context": "brief context from chat",
-      "confidence": 85
+      "confidence": 85,
+      "sourceIds": ["msg-3"]
     }
   ],
   "budget": {
@@ -80,9 +84,10 @@ Respond with JSON in this exact format (no markdown, just pure JSON):
     "currency": "INR",
     "perPerson": true,
     "breakdown": [
-      {"item": "Stay/Transport/Food/Activity", "amount": "₹1,800/night", "notes": "context"}
+      {"item": "Stay/Transport/Food/Activity", "amount": "₹1,800/night", "notes": "context", "sourceIds": ["msg-7"]}
     ],
-    "confidence": 80
+    "confidence": 80,
+    "sourceIds": ["msg-5", "msg-6"]
   },
   "places": [
     {
@@ -90,7 +95,8 @@ Respond with JSON in this exact format (no markdown, just pure JSON):
       "type": "destination|restaurant|hotel|activity|landmark",
       "votes": 3,
       "status": "confirmed|maybe",
-      "mentionedBy": ["person1", "person2"]
+      "mentionedBy": ["person1", "person2"],
+      "sourceIds": ["msg-2", "msg-4"]
     }
   ],
   "tasks": [
@@ -98,19 +104,22 @@ Respond with JSON in this exact format (no markdown, just pure JSON):
       "task": "task description",
       "assignee": "person name or null",
       "status": "pending|in-progress|done",
-      "deadline": "by tonight|Dec 10|null"
+      "deadline": "by tonight|Dec 10|null",
+      "sourceIds": ["msg-9"]
     }
   ],
   "decisions": [
     {
       "decision": "what was decided",
       "madeBy": "people who agreed",
-      "confidence": 90
+      "confidence": 90,
+      "sourceIds": ["msg-10", "msg-11"]
     }
   ],
   "openQuestions": [
     {
-      "question": "only TRULY unresolved questions"
+      "question": "only TRULY unresolved questions",
+      "sourceIds": ["msg-14"]
     }
   ],
   "stats": {
@@ -121,6 +130,75 @@ Respond with JSON in this exact format (no markdown, just pure JSON):
 }`;
 };
 
+// Shape the extraction prompt asks for; used to validate and repair responses
+// Unknown keys pass through, so the `sourceIds` each item may cite reach provenance as the model wrote them
+const dateRange = s.object({
+  date: s.string(),
+  startDate: s.string().optional(),
+  endDate: s.string().optional(),
+  context: s.string().default(''),
+  confidence: s.number().default(70),
+  proposedBy: s.string().optional(),
+  status: s.enumOf(['open', 'finalized']).optional(),
+});
+
+const budget = s.object({
+  total: s.string().nullable(),
+  currency: s.string().default('INR'),
+  perPerson: s.boolean().default(true),
+  breakdown: s.array(s.object({
+    item: s.string(),
+    amount: s.string(),
+    assignee: s.string().optional(),
+    notes: s.string().optional(),
+  })),
+  confidence: s.number().default(70),
+  status: s.enumOf(['open', 'finalized']).optional(),
+  proposals: s.array(s.object({
+    amount: s.string(),
+    proposedBy: s.array(s.string()),
+    context: s.string().optional(),
+  })).optional(),
+});
+
+export const CHAT_EXTRACTION_SCHEMA = s.object({
+  dates: s.array(dateRange),
+  budget: budget.nullable(),
+  places: s.array(s.object({
+    name: s.string(),
+    type: s.enumOf(['destination', 'restaurant', 'hotel', 'activity', 'landmark'], { fallback: 'destination' }).optional(),
+    votes: s.number().default(1),
+    status: s.enumOf(['confirmed', 'maybe', 'rejected']).default('maybe'),
+    mentionedBy: s.array(s.string()),
+    confidence: s.number().optional(),
+  })),
+  tasks: s.array(s.object({
+    task: s.string(),
+    assignee: s.string().optional(),
+    status: s.enumOf(['pending', 'in-progress', 'done']).default('pending'),
+    deadline: s.string().optional(),
+    priority: s.enumOf(['low', 'medium', 'high']).optional(),
+  })),
+  decisions: s.array(s.object({
+    decision: s.string(),
+    madeBy: s.string().optional(),
+    participants: s.array(s.string()).optional(),
+    confirmed: s.boolean().optional(),
+    confidence: s.number().default(70),
+  })),
+  openQuestions: s.array(s.object({
+    question: s.string(),
+    participants: s.array(s.string()).optional(),
+    context: s.string().optional(),
+    status: s.enumOf(['open', 'conditional', 'resolved']).optional(),
+  })),
+  stats: s.object({
+    totalMessages: s.number().default(0),
+    relevantMessages: s.number().default(0),
+    mediaFiltered: s.number().default(0),
+  }).optional(),
+});
+
 export const ITINERARY_GENERATION_SYSTEM_PROMPT = `You are an expert travel planner that creates optimal day-by-day itineraries for Indian trips.
 
 Given extracted trip data (dates, places, budget, participants), create a detailed itinerary that:
@@ -1,9 +1,11 @@
 // Gemini Provider - Primary LLM with retry logic
-import type { LLMProviderName, LLMPrompt, LLMResponse } from '../types';
-import { retryWithBackoff } from '../utils/retry-utils';
+import type { LLMGenerationSettings, LLMProviderName, LLMPrompt, LLMResponse, LLMStreamOptions, LLMUsage } from '../types';
+import { retryWithBackoff, extractRetryDelay } from '../utils/retry-utils';
+import { collectStreamedText } from '../utils/sse-stream';
 
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
 // Updated to gemini-2.0-flash (gemini-1.5-flash is deprecated)
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
+const DEFAULT_MODEL = 'gemini-2.0-flash';
 
 // Retry configuration for Gemini
 const RETRY_CONFIG = {
@@ -14,6 +16,18 @@ const RETRY_CONFIG = {
   jitterMs: 500,
 };
 
+// Streamed generateContent chunk
+interface GeminiStreamChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+}
+
+// Token counts on a generateContent response
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
 export class GeminiProvider {
   private apiKey: string;
 
@@ -25,62 +39,12 @@ export class GeminiProvider {
     return 'gemini';
   }
 
-  async sendRequest<T>(prompt: LLMPrompt): Promise<LLMResponse<T>> {
+  async sendRequest<T>(prompt: LLMPrompt, settings: LLMGenerationSettings = {}): Promise<LLMResponse<T>> {
     const startTime = Date.now();
+    const model = settings.model || DEFAULT_MODEL;
 
     try {
-      const result = await retryWithBackoff(
-        async () => {
-          const response = await fetch(`${GEMINI_API_URL}?key=${this.apiKey}`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              contents: [
-                {
-                  parts: [
-                    { text: `${prompt.system}\n\n${prompt.user}` }
-                  ]
-                }
-              ],
-              generationConfig: {
-                temperature: 0.3,
-                maxOutputTokens: 4096,
-              }
-            }),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            const error = new Error(`Gemini API error: ${response.status} - ${errorText}`);
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            (error as any).status = response.status;
-
-            // Check for rate limit or quota errors
-            if (response.status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(errorText)) {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              (error as any).isRetryable = true;
-              // Try to extract retry delay from Google's error format
-              const retryMatch = errorText.match(/retryDelay["\s:]+(\d+)/i);
-              if (retryMatch) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (error as any).retryAfter = parseInt(retryMatch[1], 10);
-              }
-            }
-
-            throw error;
-          }
-
-          return response;
-        },
-        {
-          ...RETRY_CONFIG,
-          onRetry: (attempt, error, delayMs) => {
-            console.warn(`[Gemini] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
-          },
-        }
-      );
+      const result = await this.fetchGeneration(prompt, false, settings);
 
       const data = await result.json();
       const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
@@ -101,6 +65,8 @@ export class GeminiProvider {
         data: parsed,
         provider: 'gemini',
         latencyMs: Date.now() - startTime,
+        model,
+        usage: this.parseUsage(data.usageMetadata),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -111,10 +77,140 @@ export class GeminiProvider {
         error: errorMessage,
         provider: 'gemini',
         latencyMs: Date.now() - startTime,
+        retryAfterMs: extractRetryDelay(error) ?? undefined,
+      };
+    }
+  }
+
+  /**
+   * Same as sendRequest, but reports tokens and partial JSON while the answer streams in
+   */
+  async streamRequest<T>(
+    prompt: LLMPrompt,
+    options: LLMStreamOptions<T>,
+    settings: LLMGenerationSettings = {}
+  ): Promise<LLMResponse<T>> {
+    const startTime = Date.now();
+    const model = settings.model || DEFAULT_MODEL;
+
+    try {
+      const result = await this.fetchGeneration(prompt, true, settings);
+
+      const textContent = await collectStreamedText<T>(
+        result,
+        'gemini',
+        (event: unknown) => (event as GeminiStreamChunk).candidates?.[0]?.content?.parts?.[0]?.text,
+        options
+      );
+
+      if (!textContent) {
+        throw new Error('No content in Gemini stream');
+      }
+
+      const parsed = this.parseJSONResponse<T>(textContent);
+
+      if (!parsed) {
+        throw new Error('Failed to parse JSON from Gemini stream');
+      }
+
+      return {
+        success: true,
+        data: parsed,
+        provider: 'gemini',
+        latencyMs: Date.now() - startTime,
+        model,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Gemini] Stream failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        provider: 'gemini',
+        latencyMs: Date.now() - startTime,
+        retryAfterMs: extractRetryDelay(error) ?? undefined,
       };
     }
   }
 
+  /**
+   * POST the prompt (with retries on rate limits); streaming uses the SSE endpoint
+   */
+  private async fetchGeneration(
+    prompt: LLMPrompt,
+    stream: boolean,
+    settings: LLMGenerationSettings
+  ): Promise<Response> {
+    const modelUrl = `${GEMINI_API_BASE}/${settings.model || DEFAULT_MODEL}`;
+    const url = stream
+      ? `${modelUrl}:streamGenerateContent?alt=sse&key=${this.apiKey}`
+      : `${modelUrl}:generateContent?key=${this.apiKey}`;
+
+    return retryWithBackoff(
+      async () => {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            contents: [
+              {
+                parts: [
+                  { text: `${prompt.system}\n\n${prompt.user}` }
+                ]
+              }
+            ],
+            generationConfig: {
+              temperature: settings.temperature ?? 0.3,
+              maxOutputTokens: settings.maxTokens ?? 4096,
+            }
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          const error = new Error(`Gemini API error: ${response.status} - ${errorText}`);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (error as any).status = response.status;
+
+          // Check for rate limit or quota errors
+          if (response.status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(errorText)) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (error as any).isRetryable = true;
+            // Try to extract retry delay from Google's error format
+            const retryMatch = errorText.match(/retryDelay["\s:]+(\d+)/i);
+            if (retryMatch) {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              (error as any).retryAfter = parseInt(retryMatch[1], 10);
+            }
+          }
+
+          throw error;
+        }
+
+        return response;
+      },
+      {
+        ...RETRY_CONFIG,
+        onRetry: (attempt, error, delayMs) => {
+          console.warn(`[Gemini] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
+        },
+      }
+    );
+  }
+
+  private parseUsage(metadata?: GeminiUsageMetadata): LLMUsage | undefined {
+    if (!metadata?.totalTokenCount) return undefined;
+    return {
+      promptTokens: metadata.promptTokenCount ?? 0,
+      completionTokens: metadata.candidatesTokenCount ?? 0,
+      totalTokens: metadata.totalTokenCount,
+      estimated: false,
+    };
+  }
+
   private parseJSONResponse<T>(text: string): T | null {
     // Remove markdown code blocks if present
     let jsonStr = text.trim();
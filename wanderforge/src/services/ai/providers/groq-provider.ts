@@ -1,9 +1,11 @@
 // Groq Provider - Fast LLM using Llama 3.3 70B with retry logic
-import type { LLMProviderName, LLMPrompt, LLMResponse } from '../types';
-import { retryWithBackoff } from '../utils/retry-utils';
+import type { LLMGenerationSettings, LLMProviderName, LLMPrompt, LLMResponse, LLMStreamOptions, LLMUsage } from '../types';
+import { retryWithBackoff, extractRetryDelay } from '../utils/retry-utils';
+import { collectStreamedText } from '../utils/sse-stream';
 
 // Groq uses OpenAI-compatible API
 const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+const DEFAULT_MODEL = 'llama-3.3-70b-versatile';  // Latest Llama 3.3 - best for extraction
 
 // Retry configuration for Groq
 const RETRY_CONFIG = {
@@ -14,6 +16,18 @@ const RETRY_CONFIG = {
   jitterMs: 500,
 };
 
+// Streamed chat completion chunk (OpenAI-compatible)
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+// Token counts on a chat completion (OpenAI-compatible)
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
 export class GroqProvider {
   private apiKey: string;
 
@@ -25,60 +39,12 @@ export class GroqProvider {
     return 'groq';
   }
 
-  async sendRequest<T>(prompt: LLMPrompt): Promise<LLMResponse<T>> {
+  async sendRequest<T>(prompt: LLMPrompt, settings: LLMGenerationSettings = {}): Promise<LLMResponse<T>> {
     const startTime = Date.now();
+    const model = settings.model || DEFAULT_MODEL;
 
     try {
-      const result = await retryWithBackoff(
-        async () => {
-          const response = await fetch(GROQ_API_URL, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'llama-3.3-70b-versatile',  // Latest Llama 3.3 - best for extraction
-              messages: [
-                { role: 'system', content: prompt.system },
-                { role: 'user', content: prompt.user }
-              ],
-              temperature: 0.3,  // Low for precise extraction
-              max_tokens: 4096,
-              response_format: { type: 'json_object' },  // Force JSON output
-            }),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            const error = new Error(`Groq API error: ${response.status} - ${errorText}`);
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            (error as any).status = response.status;
-
-            // Check for rate limit errors
-            if (response.status === 429 || /rate.?limit|quota|too.?many/i.test(errorText)) {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              (error as any).isRetryable = true;
-              // Extract retry-after from headers if present
-              const retryAfter = response.headers.get('Retry-After');
-              if (retryAfter) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (error as any).retryAfter = parseInt(retryAfter, 10) * 1000;
-              }
-            }
-
-            throw error;
-          }
-
-          return response;
-        },
-        {
-          ...RETRY_CONFIG,
-          onRetry: (attempt, error, delayMs) => {
-            console.warn(`[Groq] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
-          },
-        }
-      );
+      const result = await this.fetchCompletion(prompt, false, model, settings);
 
       const data = await result.json();
       const textContent = data.choices?.[0]?.message?.content;
@@ -99,6 +65,8 @@ export class GroqProvider {
         data: parsed,
         provider: 'groq',
         latencyMs: Date.now() - startTime,
+        model,
+        usage: this.parseUsage(data.usage),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -109,10 +77,135 @@ export class GroqProvider {
         error: errorMessage,
         provider: 'groq',
         latencyMs: Date.now() - startTime,
+        retryAfterMs: extractRetryDelay(error) ?? undefined,
       };
     }
   }
 
+  /**
+   * Same as sendRequest, but reports tokens and partial JSON while the answer streams in
+   */
+  async streamRequest<T>(
+    prompt: LLMPrompt,
+    options: LLMStreamOptions<T>,
+    settings: LLMGenerationSettings = {}
+  ): Promise<LLMResponse<T>> {
+    const startTime = Date.now();
+    const model = settings.model || DEFAULT_MODEL;
+
+    try {
+      const result = await this.fetchCompletion(prompt, true, model, settings);
+
+      const textContent = await collectStreamedText<T>(
+        result,
+        'groq',
+        (event: unknown) => (event as ChatCompletionChunk).choices?.[0]?.delta?.content,
+        options
+      );
+
+      if (!textContent) {
+        throw new Error('No content in Groq stream');
+      }
+
+      const parsed = this.parseJSONResponse<T>(textContent);
+
+      if (!parsed) {
+        throw new Error('Failed to parse JSON from Groq stream');
+      }
+
+      return {
+        success: true,
+        data: parsed,
+        provider: 'groq',
+        latencyMs: Date.now() - startTime,
+        model,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Groq] Stream failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        provider: 'groq',
+        latencyMs: Date.now() - startTime,
+        retryAfterMs: extractRetryDelay(error) ?? undefined,
+      };
+    }
+  }
+
+  /**
+   * POST the chat completion (with retries on rate limits)
+   */
+  private async fetchCompletion(
+    prompt: LLMPrompt,
+    stream: boolean,
+    model: string,
+    settings: LLMGenerationSettings
+  ): Promise<Response> {
+    return retryWithBackoff(
+      async () => {
+        const response = await fetch(GROQ_API_URL, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: prompt.system },
+              { role: 'user', content: prompt.user }
+            ],
+            temperature: settings.temperature ?? 0.3,  // Low for precise extraction
+            max_tokens: settings.maxTokens ?? 4096,
+            response_format: { type: 'json_object' },  // Force JSON output
+            stream,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          const error = new Error(`Groq API error: ${response.status} - ${errorText}`);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (error as any).status = response.status;
+
+          // Check for rate limit errors
+          if (response.status === 429 || /rate.?limit|quota|too.?many/i.test(errorText)) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (error as any).isRetryable = true;
+            // Extract retry-after from headers if present
+            const retryAfter = response.headers.get('Retry-After');
+            if (retryAfter) {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              (error as any).retryAfter = parseInt(retryAfter, 10); // Seconds, as sent
+            }
+          }
+
+          throw error;
+        }
+
+        return response;
+      },
+      {
+        ...RETRY_CONFIG,
+        onRetry: (attempt, error, delayMs) => {
+          console.warn(`[Groq] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
+        },
+      }
+    );
+  }
+
+  private parseUsage(usage?: ChatCompletionUsage): LLMUsage | undefined {
+    if (!usage?.total_tokens) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens,
+      estimated: false,
+    };
+  }
+
   private parseJSONResponse<T>(text: string): T | null {
     // Remove markdown code blocks if present
     let jsonStr = text.trim();
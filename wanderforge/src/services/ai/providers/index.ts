@@ -1,34 +1,96 @@
 // LLM Provider Manager with Fallback Chain
 // Primary: Gemini | Fallback: OpenRouter, Groq, Offline
-import type { LLMProviderName, LLMPrompt, LLMResponse, ProviderHealth, ChatExtractionResult } from '../types';
+// An optional self-hosted model (Local) slots in at its configured priority
+import type {
+  LLMGenerationSettings,
+  LLMProviderName,
+  LLMPrompt,
+  LLMResponse,
+  LLMStreamOptions,
+  ProviderHealth,
+  ChatExtractionResult,
+} from '../types';
 import { GeminiProvider } from './gemini-provider';
 import { GroqProvider } from './groq-provider';
 import { OpenRouterProvider } from './openrouter-provider';
 import { OfflineProvider } from './offline-provider';
+import { LocalProvider } from './local-provider';
 import { getAIServiceConfig } from '../utils/env-config';
+import { validateResponse, createRepairPrompt } from '../schema';
+import { getTaskRoute, getGenerationSettings, recordUsage, resolveUsage, addUsage, summarizeUsage } from '../routing';
+import {
+  tryAcquireCircuit,
+  recordCircuitSuccess,
+  recordCircuitFailure,
+  getCircuitSnapshot,
+} from '../utils/circuit-breaker';
 
 // Fallback order: Gemini → OpenRouter → Groq → Offline
 // Using Gemini as primary LLM (free tier available)
 const FALLBACK_ORDER: LLMProviderName[] = ['gemini', 'openrouter', 'groq', 'offline'];
 
-interface Provider {
+/**
+ * Insert the local provider at its configured position; offline always stays last
+ */
+function buildFallbackOrder(localPriority: number): LLMProviderName[] {
+  const order = FALLBACK_ORDER.filter(p => p !== 'offline');
+  order.splice(Math.min(localPriority, order.length), 0, 'local');
+  return [...order, 'offline'];
+}
+
+export interface LLMProvider {
   name: LLMProviderName;
-  sendRequest<T>(prompt: LLMPrompt): Promise<LLMResponse<T>>;
+  sendRequest<T>(prompt: LLMPrompt, settings?: LLMGenerationSettings): Promise<LLMResponse<T>>;
+  streamRequest?<T>(
+    prompt: LLMPrompt,
+    options: LLMStreamOptions<T>,
+    settings?: LLMGenerationSettings
+  ): Promise<LLMResponse<T>>;
+}
+
+// Failures/availability come from the shared circuit breaker and usage from the ledger when health is read
+type HealthState = Pick<ProviderHealth, 'name' | 'lastChecked' | 'schemaFailures'>;
+
+// Breaker ids are shared by every manager instance (and persisted across reloads)
+function circuitId(provider: LLMProviderName): string {
+  return `llm:${provider}`;
 }
 
 export class LLMProviderManager {
-  private providers: Map<LLMProviderName, Provider> = new Map();
-  private healthStatus: Map<LLMProviderName, ProviderHealth> = new Map();
+  private providers: Map<LLMProviderName, LLMProvider> = new Map();
+  private healthStatus: Map<LLMProviderName, HealthState> = new Map();
+  private fallbackOrder: LLMProviderName[] = FALLBACK_ORDER;
   private onProviderChange?: (provider: LLMProviderName) => void;
   private onFallback?: (provider: LLMProviderName) => void;
 
   constructor(options?: {
     onProviderChange?: (provider: LLMProviderName) => void;
     onFallback?: (provider: LLMProviderName) => void;
+    providers?: LLMProvider[];  // Use these instead of the configured chain (e.g. a mocked LLM in evals)
   }) {
     this.onProviderChange = options?.onProviderChange;
     this.onFallback = options?.onFallback;
-    this.initializeProviders();
+    if (options?.providers) {
+      this.useProviders(options.providers);
+    } else {
+      this.initializeProviders();
+    }
+  }
+
+  /**
+   * Fixed provider chain in the given order; offline is still the final fallback
+   */
+  private useProviders(providers: LLMProvider[]): void {
+    const chain = providers.some(p => p.name === 'offline') ? providers : [...providers, new OfflineProvider()];
+    for (const provider of chain) {
+      this.providers.set(provider.name, provider);
+      this.healthStatus.set(provider.name, {
+        name: provider.name,
+        lastChecked: new Date(),
+        schemaFailures: 0,
+      });
+    }
+    this.fallbackOrder = [...chain.map(p => p.name).filter(name => name !== 'offline'), 'offline'];
   }
 
   private initializeProviders(): void {
@@ -39,9 +101,8 @@ export class LLMProviderManager {
       this.providers.set('gemini', new GeminiProvider(config.gemini.apiKey));
       this.healthStatus.set('gemini', {
         name: 'gemini',
-        available: true,
         lastChecked: new Date(),
-        consecutiveFailures: 0,
+        schemaFailures: 0,
       });
       console.log('[LLM] Gemini initialized as primary provider');
     }
@@ -51,9 +112,8 @@ export class LLMProviderManager {
       this.providers.set('openrouter', new OpenRouterProvider(config.openrouter.apiKey));
       this.healthStatus.set('openrouter', {
         name: 'openrouter',
-        available: true,
         lastChecked: new Date(),
-        consecutiveFailures: 0,
+        schemaFailures: 0,
       });
       console.log('[LLM] OpenRouter initialized as fallback provider');
     }
@@ -63,31 +123,49 @@ export class LLMProviderManager {
       this.providers.set('groq', new GroqProvider(config.groq.apiKey));
       this.healthStatus.set('groq', {
         name: 'groq',
-        available: true,
         lastChecked: new Date(),
-        consecutiveFailures: 0,
+        schemaFailures: 0,
       });
       console.log('[LLM] Groq initialized as fallback provider');
     }
 
+    // Initialize self-hosted model (Ollama, llama.cpp, vLLM) at its configured priority
+    if (config.local.baseUrl) {
+      this.providers.set('local', new LocalProvider({ ...config.local, baseUrl: config.local.baseUrl }));
+      this.healthStatus.set('local', {
+        name: 'local',
+        lastChecked: new Date(),
+        schemaFailures: 0,
+      });
+      this.fallbackOrder = buildFallbackOrder(config.local.priority);
+      console.log(`[LLM] Local model initialized at ${config.local.baseUrl} (fallback position ${this.fallbackOrder.indexOf('local')})`);
+    }
+
     // Offline provider is always available as final fallback
     this.providers.set('offline', new OfflineProvider());
     this.healthStatus.set('offline', {
       name: 'offline',
-      available: true,
       lastChecked: new Date(),
-      consecutiveFailures: 0,
+      schemaFailures: 0,
     });
   }
 
+  /**
+   * Run a prompt down the fallback chain.
+   * The prompt's task picks the routing policy: preferred provider first, plus its model and settings.
+   * With `stream`, providers that support SSE report partial output as it arrives;
+   * a stream that dies midway counts as a failure and the next provider starts over.
+   */
   async executeWithFallback<T = ChatExtractionResult>(
     prompt: LLMPrompt,
-    preferredProvider?: LLMProviderName
+    preferredProvider?: LLMProviderName,
+    stream?: LLMStreamOptions<T>
   ): Promise<LLMResponse<T>> {
-    // Build provider order
-    const providerOrder = preferredProvider
-      ? [preferredProvider, ...FALLBACK_ORDER.filter(p => p !== preferredProvider)]
-      : FALLBACK_ORDER;
+    // Build provider order (explicit preference wins over the task route)
+    const preferred = preferredProvider ?? getTaskRoute(prompt.task).preferredProvider;
+    const providerOrder = preferred
+      ? [preferred, ...this.fallbackOrder.filter(p => p !== preferred)]
+      : this.fallbackOrder;
 
     const errors: string[] = [];
     let isFirstAttempt = true;
@@ -96,9 +174,9 @@ export class LLMProviderManager {
       const provider = this.providers.get(providerName);
       if (!provider) continue;
 
-      // Skip providers with too many recent failures (except offline)
-      const health = this.healthStatus.get(providerName);
-      if (health && health.consecutiveFailures >= 3 && providerName !== 'offline') {
+      // Skip providers whose circuit is open (offline heuristics never trip)
+      if (providerName !== 'offline' && !tryAcquireCircuit(circuitId(providerName))) {
+        console.log(`[LLM] Skipping ${providerName}: circuit open`);
         continue;
       }
 
@@ -112,23 +190,33 @@ export class LLMProviderManager {
         this.onFallback(providerName);
       }
 
+      const startTime = Date.now();
       try {
         console.log(`[LLM] Trying provider: ${providerName}`);
-        const response = await provider.sendRequest<T>(prompt);
+        const settings = getGenerationSettings(prompt.task, providerName);
+        const response = await this.sendValidated<T>(provider, prompt, settings, stream);
+        const usage = resolveUsage(prompt, response);
+        this.recordLedger(prompt, { ...response, usage });
 
         if (response.success) {
           this.recordSuccess(providerName);
           console.log(`[LLM] Success with ${providerName} in ${response.latencyMs}ms`);
-          return response;
+          return { ...response, usage };
         }
 
         errors.push(`${providerName}: ${response.error}`);
-        this.recordFailure(providerName);
+        this.recordFailure(providerName, response.error, response.retryAfterMs ?? null, !!response.schemaIssues);
         console.warn(`[LLM] ${providerName} failed: ${response.error}`);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         errors.push(`${providerName}: ${errorMsg}`);
-        this.recordFailure(providerName);
+        this.recordFailure(providerName, error);
+        this.recordLedger(prompt, {
+          success: false,
+          error: errorMsg,
+          provider: providerName,
+          latencyMs: Date.now() - startTime,
+        });
         console.error(`[LLM] ${providerName} threw error:`, error);
       }
 
@@ -144,28 +232,103 @@ export class LLMProviderManager {
     };
   }
 
+  /**
+   * Send a prompt and, when it carries a schema, validate the answer.
+   * An invalid answer gets exactly one repair attempt on the same provider.
+   */
+  private async sendValidated<T>(
+    provider: LLMProvider,
+    prompt: LLMPrompt,
+    settings: LLMGenerationSettings,
+    stream?: LLMStreamOptions<T>
+  ): Promise<LLMResponse<T>> {
+    const response = stream && provider.streamRequest
+      ? await provider.streamRequest<T>(prompt, stream, settings)
+      : await provider.sendRequest<T>(prompt, settings);
+    if (!prompt.schema || !response.success) return response;
+
+    // An answer that fails the schema still cost tokens
+    const validated = { ...validateResponse(response, prompt.schema), usage: resolveUsage(prompt, response) };
+    // Heuristics are deterministic - asking again would return the same thing
+    if (validated.success || !validated.schemaIssues || provider.name === 'offline') {
+      return validated;
+    }
+
+    console.warn(`[LLM] ${provider.name} response failed schema (${validated.schemaIssues.length} issues), sending repair prompt`);
+    const repairPrompt = createRepairPrompt(prompt, response.data, validated.schemaIssues);
+    const repairResponse = await provider.sendRequest<T>(repairPrompt, settings);
+    const repaired = validateResponse(repairResponse, prompt.schema);
+
+    return {
+      ...repaired,
+      latencyMs: response.latencyMs + repairResponse.latencyMs,
+      usage: addUsage(validated.usage, resolveUsage(repairPrompt, repairResponse)),
+      repaired: repaired.success,
+      // A repair call that failed outright still leaves the original answer's issues
+      schemaIssues: repaired.success ? undefined : repaired.schemaIssues ?? validated.schemaIssues,
+    };
+  }
+
+  private recordLedger(prompt: LLMPrompt, response: LLMResponse<unknown>): void {
+    const usage = resolveUsage(prompt, response);
+    recordUsage({
+      timestamp: new Date().toISOString(),
+      provider: response.provider,
+      task: prompt.task,
+      model: response.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimatedTokens: usage.estimated,
+      latencyMs: response.latencyMs,
+      success: response.success,
+      schemaFailure: response.schemaIssues ? true : undefined,
+      error: response.error,
+    });
+  }
+
   private recordSuccess(provider: LLMProviderName): void {
+    if (provider !== 'offline') recordCircuitSuccess(circuitId(provider));
     const health = this.healthStatus.get(provider);
     if (health) {
-      health.consecutiveFailures = 0;
       health.lastChecked = new Date();
     }
   }
 
-  private recordFailure(provider: LLMProviderName): void {
+  private recordFailure(
+    provider: LLMProviderName,
+    error: unknown,
+    retryAfterMs?: number | null,
+    isSchemaFailure: boolean = false
+  ): void {
+    if (provider !== 'offline') recordCircuitFailure(circuitId(provider), error, retryAfterMs);
     const health = this.healthStatus.get(provider);
     if (health) {
-      health.consecutiveFailures++;
+      if (isSchemaFailure) health.schemaFailures++;
       health.lastChecked = new Date();
     }
   }
 
   getAvailableProviders(): LLMProviderName[] {
-    return Array.from(this.providers.keys());
+    return this.fallbackOrder.filter(p => this.providers.has(p));
   }
 
+  /**
+   * Health of this manager's providers: circuit state from the persisted breaker,
+   * usage totals from the persisted ledger
+   */
   getProviderHealth(): ProviderHealth[] {
-    return Array.from(this.healthStatus.values());
+    return Array.from(this.healthStatus.values()).map(health => {
+      const circuit = getCircuitSnapshot(circuitId(health.name));
+      return {
+        ...health,
+        available: circuit.status !== 'open',
+        consecutiveFailures: circuit.failures,
+        circuit: circuit.status,
+        retryAt: circuit.retryAt,
+        usage: summarizeUsage(health.name),
+      };
+    });
   }
 }
 
@@ -174,3 +337,4 @@ export { GeminiProvider } from './gemini-provider';
 export { GroqProvider } from './groq-provider';
 export { OpenRouterProvider } from './openrouter-provider';
 export { OfflineProvider } from './offline-provider';
+export { LocalProvider } from './local-provider';
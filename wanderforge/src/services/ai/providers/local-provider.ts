@@ -0,0 +1,239 @@
+// Local Provider - self-hosted model behind an OpenAI-compatible API (Ollama, llama.cpp server, vLLM)
+import type {
+  LLMGenerationSettings,
+  LLMProviderName,
+  LLMPrompt,
+  LLMResponse,
+  LLMStreamOptions,
+  LLMTask,
+  LLMUsage,
+} from '../types';
+import type { LocalLLMConfig } from '../utils/env-config';
+import { retryWithBackoff, extractRetryDelay } from '../utils/retry-utils';
+import { collectStreamedText } from '../utils/sse-stream';
+
+// Local servers don't rate limit, but return 503 while a model is still loading
+const RETRY_CONFIG = {
+  maxRetries: 2,
+  initialDelayMs: 2000,
+  maxDelayMs: 15000,
+  backoffFactor: 2,
+  jitterMs: 250,
+};
+
+// Prompts without a task (older call sites) use the extraction model
+const DEFAULT_TASK: LLMTask = 'extraction';
+
+// Streamed chat completion chunk (OpenAI-compatible)
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+// Token counts on a chat completion (OpenAI-compatible)
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export class LocalProvider {
+  private baseUrl: string;
+  private apiKey: string | null;
+  private models: Record<LLMTask, string>;
+
+  constructor(config: LocalLLMConfig & { baseUrl: string }) {
+    this.baseUrl = config.baseUrl;
+    this.apiKey = config.apiKey;
+    this.models = config.models;
+  }
+
+  get name(): LLMProviderName {
+    return 'local';
+  }
+
+  /**
+   * Model configured for a prompt's task
+   */
+  getModel(task: LLMTask = DEFAULT_TASK): string {
+    return this.models[task];
+  }
+
+  async sendRequest<T>(prompt: LLMPrompt, settings: LLMGenerationSettings = {}): Promise<LLMResponse<T>> {
+    const startTime = Date.now();
+    const model = settings.model || this.getModel(prompt.task);
+
+    try {
+      const result = await this.fetchCompletion(prompt, false, model, settings);
+
+      const data = await result.json();
+      const textContent = data.choices?.[0]?.message?.content;
+
+      if (!textContent) {
+        throw new Error('No content in local model response');
+      }
+
+      const parsed = this.parseJSONResponse<T>(textContent);
+
+      if (!parsed) {
+        throw new Error('Failed to parse JSON from local model response');
+      }
+
+      return {
+        success: true,
+        data: parsed,
+        provider: 'local',
+        latencyMs: Date.now() - startTime,
+        model,
+        usage: this.parseUsage(data.usage),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Local] Request failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        provider: 'local',
+        latencyMs: Date.now() - startTime,
+        retryAfterMs: extractRetryDelay(error) ?? undefined,
+      };
+    }
+  }
+
+  /**
+   * Same as sendRequest, but reports tokens and partial JSON while the answer streams in
+   */
+  async streamRequest<T>(
+    prompt: LLMPrompt,
+    options: LLMStreamOptions<T>,
+    settings: LLMGenerationSettings = {}
+  ): Promise<LLMResponse<T>> {
+    const startTime = Date.now();
+    const model = settings.model || this.getModel(prompt.task);
+
+    try {
+      const result = await this.fetchCompletion(prompt, true, model, settings);
+
+      const textContent = await collectStreamedText<T>(
+        result,
+        'local',
+        (event: unknown) => (event as ChatCompletionChunk).choices?.[0]?.delta?.content,
+        options
+      );
+
+      if (!textContent) {
+        throw new Error('No content in local model stream');
+      }
+
+      const parsed = this.parseJSONResponse<T>(textContent);
+
+      if (!parsed) {
+        throw new Error('Failed to parse JSON from local model stream');
+      }
+
+      return {
+        success: true,
+        data: parsed,
+        provider: 'local',
+        latencyMs: Date.now() - startTime,
+        model,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Local] Stream failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        provider: 'local',
+        latencyMs: Date.now() - startTime,
+        retryAfterMs: extractRetryDelay(error) ?? undefined,
+      };
+    }
+  }
+
+  /**
+   * POST /chat/completions with the model for the prompt's task
+   */
+  private async fetchCompletion(
+    prompt: LLMPrompt,
+    stream: boolean,
+    model: string,
+    settings: LLMGenerationSettings
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    return retryWithBackoff(
+      async () => {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: prompt.system },
+              { role: 'user', content: prompt.user }
+            ],
+            temperature: settings.temperature ?? 0.3,
+            max_tokens: settings.maxTokens ?? 4096,
+            response_format: { type: 'json_object' },  // Supported by Ollama, llama.cpp and vLLM
+            stream,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          const error = new Error(`Local model error (${model}): ${response.status} - ${errorText}`);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (error as any).status = response.status;
+          throw error;
+        }
+
+        return response;
+      },
+      {
+        ...RETRY_CONFIG,
+        onRetry: (attempt, error, delayMs) => {
+          console.warn(`[Local] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
+        },
+      }
+    );
+  }
+
+  private parseUsage(usage?: ChatCompletionUsage): LLMUsage | undefined {
+    if (!usage?.total_tokens) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens,
+      estimated: false,
+    };
+  }
+
+  private parseJSONResponse<T>(text: string): T | null {
+    // Small models often wrap JSON in markdown or add a sentence before it
+    let jsonStr = text.trim();
+
+    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonStr = jsonMatch[1].trim();
+    }
+
+    try {
+      return JSON.parse(jsonStr);
+    } catch {
+      const objectMatch = jsonStr.match(/\{[\s\S]*\}/);
+      if (objectMatch) {
+        try {
+          return JSON.parse(objectMatch[0]);
+        } catch {
+          return null;
+        }
+      }
+      return null;
+    }
+  }
+}
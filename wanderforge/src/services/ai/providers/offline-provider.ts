@@ -1,5 +1,5 @@
 // Offline Provider - Heuristic-based fallback (always works)
-import type { LLMProviderName, LLMPrompt, LLMResponse, ChatExtractionResult, RawChatMessage } from '../types';
+import type { LLMProviderName, LLMPrompt, LLMResponse, ChatExtractionResult } from '../types';
 import {
   extractDatesHeuristic,
   extractBudgetHeuristic,
@@ -12,6 +12,7 @@ import {
   // V3.3: Dates aggregator with proposals/exceptions
   extractDatesWithProposals,
 } from '../heuristics';
+import { importChat, formatChatTranscript } from '../import';
 
 export class OfflineProvider {
   get name(): LLMProviderName {
@@ -24,13 +25,17 @@ export class OfflineProvider {
     try {
       // Extract chat text from the prompt
       const chatMatch = prompt.user.match(/---CHAT START---\s*([\s\S]*?)\s*---CHAT END---/);
-      const chatText = chatMatch ? chatMatch[1] : prompt.user;
+      const rawChatText = chatMatch ? chatMatch[1] : prompt.user;
 
-      // Parse into messages
-      const messages = this.parseMessages(chatText);
+      // Parse into messages (auto-detects WhatsApp/Telegram/Signal/plain text); an id-bearing
+      // transcript keeps the original message ids, so heuristic sources point at real messages
+      const messages = importChat(rawChatText).messages;
+      // Heuristics scan text too; drop timestamps so "2024-12-14" isn't read as a trip date.
+      // One line per message, so a match's line tells the heuristics which message it came from
+      const chatText = formatChatTranscript(messages, { includeTimestamps: false });
 
       // Run all heuristic extractors
-      const patternDecisions = extractDecisionsHeuristic(chatText);
+      const patternDecisions = extractDecisionsHeuristic(chatText, messages);
       // V3.3: Use improved consensus decision extractor with voter normalization
       const consensusDecisions = extractConsensusDecisionsV2(messages);
 
@@ -55,7 +60,7 @@ export class OfflineProvider {
         places: extractPlacesHeuristic(chatText, messages),
         tasks: extractTasksHeuristic(chatText, messages),
         decisions: allDecisions.slice(0, 8),
-        openQuestions: extractQuestionsHeuristic(chatText),
+        openQuestions: extractQuestionsHeuristic(chatText, messages),
         stats: {
           totalMessages: messages.length,
           relevantMessages: messages.filter(m => !m.isMedia).length,
@@ -91,48 +96,4 @@ export class OfflineProvider {
       };
     }
   }
-
-  private parseMessages(text: string): RawChatMessage[] {
-    const lines = text.split('\n');
-    const messages: RawChatMessage[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      // WhatsApp format: "[timestamp] Name: message" or "Name: message"
-      const match = trimmed.match(/^(?:\[.*?\]\s*)?([^:]+):\s*(.+)$/);
-
-      if (match) {
-        const sender = match[1].trim();
-        const content = match[2].trim();
-
-        // Detect media messages
-        const isMedia =
-          /(?:image|video|gif|sticker|audio|document|meme)\s*(?:omitted|sent)/i.test(content) ||
-          /^\*.*sent.*\*$/i.test(content) ||
-          this.isEmojiOnly(content);
-
-        messages.push({
-          sender,
-          content,
-          isMedia,
-        });
-      } else if (trimmed.length > 0) {
-        // Line without sender (continuation or system message)
-        messages.push({
-          content: trimmed,
-          isMedia: /meme|gif/i.test(trimmed),
-        });
-      }
-    }
-
-    return messages;
-  }
-
-  private isEmojiOnly(text: string): boolean {
-    // Remove all emoji characters and see if anything remains
-    const withoutEmoji = text.replace(/[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]|[\u{1F600}-\u{1F64F}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{1F900}-\u{1F9FF}]|[\u{1FA00}-\u{1FA6F}]|[\u{1FA70}-\u{1FAFF}]|[\u{231A}-\u{231B}]|[\u{23E9}-\u{23F3}]|[\u{23F8}-\u{23FA}]|[\u{25AA}-\u{25AB}]|[\u{25B6}]|[\u{25C0}]|[\u{25FB}-\u{25FE}]|[\u{2614}-\u{2615}]|[\u{2648}-\u{2653}]|[\u{267F}]|[\u{2693}]|[\u{26A1}]|[\u{26AA}-\u{26AB}]|[\u{26BD}-\u{26BE}]|[\u{26C4}-\u{26C5}]|[\u{26CE}]|[\u{26D4}]|[\u{26EA}]|[\u{26F2}-\u{26F3}]|[\u{26F5}]|[\u{26FA}]|[\u{26FD}]|[\u{2702}]|[\u{2705}]|[\u{2708}-\u{270D}]|[\u{270F}]|[\u{2712}]|[\u{2714}]|[\u{2716}]|[\u{271D}]|[\u{2721}]|[\u{2728}]|[\u{2733}-\u{2734}]|[\u{2744}]|[\u{2747}]|[\u{274C}]|[\u{274E}]|[\u{2753}-\u{2755}]|[\u{2757}]|[\u{2763}-\u{2764}]|[\u{2795}-\u{2797}]|[\u{27A1}]|[\u{27B0}]|[\u{27BF}]|[\u{2934}-\u{2935}]|[\u{2B05}-\u{2B07}]|[\u{2B1B}-\u{2B1C}]|[\u{2B50}]|[\u{2B55}]|[\u{3030}]|[\u{303D}]|[\u{3297}]|[\u{3299}]|[\u{FE0F}]|\s/gu, '');
-    return text.length > 0 && withoutEmoji.length === 0;
-  }
 }
@@ -1,6 +1,7 @@
 // OpenRouter Provider - Access to Grok and other models via OpenRouter with retry logic
-import type { LLMProviderName, LLMPrompt, LLMResponse } from '../types';
-import { retryWithBackoff } from '../utils/retry-utils';
+import type { LLMGenerationSettings, LLMProviderName, LLMPrompt, LLMResponse, LLMStreamOptions, LLMUsage } from '../types';
+import { retryWithBackoff, extractRetryDelay } from '../utils/retry-utils';
+import { collectStreamedText } from '../utils/sse-stream';
 
 // OpenRouter API endpoint (OpenAI-compatible)
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
@@ -14,6 +15,18 @@ const RETRY_CONFIG = {
   jitterMs: 500,
 };
 
+// Streamed chat completion chunk (OpenAI-compatible)
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+// Token counts on a chat completion (OpenAI-compatible)
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
 // Model fallback chain for OpenRouter - Grok primary, no Gemini
 const MODEL_FALLBACK = [
   'x-ai/grok-3-mini-beta',             // Primary: Grok 3 Mini - fast and capable
@@ -22,6 +35,11 @@ const MODEL_FALLBACK = [
   'anthropic/claude-3-5-haiku',        // Fallback 3: Claude Haiku
 ];
 
+interface Completion {
+  text: string;
+  usage?: LLMUsage;
+}
+
 export class OpenRouterProvider {
   private apiKey: string;
   private currentModelIndex: number = 0;
@@ -34,78 +52,68 @@ export class OpenRouterProvider {
     return 'openrouter';
   }
 
-  async sendRequest<T>(prompt: LLMPrompt): Promise<LLMResponse<T>> {
-    const startTime = Date.now();
+  async sendRequest<T>(prompt: LLMPrompt, settings: LLMGenerationSettings = {}): Promise<LLMResponse<T>> {
+    return this.runWithModelFallback<T>('Request', settings.model, async (model) => {
+      const result = await this.fetchCompletion(model, prompt, false, settings);
 
-    // Try models in fallback order
-    for (let modelIdx = this.currentModelIndex; modelIdx < MODEL_FALLBACK.length; modelIdx++) {
-      const model = MODEL_FALLBACK[modelIdx];
+      const data = await result.json();
+      const textContent = data.choices?.[0]?.message?.content;
 
-      try {
-        const result = await retryWithBackoff(
-          async () => {
-            const response = await fetch(OPENROUTER_API_URL, {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${this.apiKey}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : 'https://wanderforge.app',
-                'X-Title': 'WanderForge',
-              },
-              body: JSON.stringify({
-                model: model,
-                messages: [
-                  { role: 'system', content: prompt.system },
-                  { role: 'user', content: prompt.user }
-                ],
-                temperature: 0.3,
-                max_tokens: 4096,
-                response_format: { type: 'json_object' },
-              }),
-            });
-
-            if (!response.ok) {
-              const errorText = await response.text();
-              const error = new Error(`OpenRouter API error (${model}): ${response.status} - ${errorText}`);
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              (error as any).status = response.status;
-
-              // Check for rate limit or model-specific errors
-              if (response.status === 429 || /rate.?limit|quota|too.?many|capacity/i.test(errorText)) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (error as any).isRetryable = true;
-                const retryAfter = response.headers.get('Retry-After');
-                if (retryAfter) {
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                  (error as any).retryAfter = parseInt(retryAfter, 10) * 1000;
-                }
-              }
-
-              // Model not available - try next model
-              if (response.status === 404 || /model.?not.?found|not.?available/i.test(errorText)) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (error as any).modelUnavailable = true;
-              }
-
-              throw error;
-            }
+      if (!textContent) {
+        throw new Error('No content in OpenRouter response');
+      }
 
-            return response;
-          },
-          {
-            ...RETRY_CONFIG,
-            onRetry: (attempt, error, delayMs) => {
-              console.warn(`[OpenRouter/${model}] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
-            },
-          }
-        );
+      return { text: textContent, usage: this.parseUsage(data.usage) };
+    });
+  }
+
+  /**
+   * Same as sendRequest, but reports tokens and partial JSON while the answer streams in
+   */
+  async streamRequest<T>(
+    prompt: LLMPrompt,
+    options: LLMStreamOptions<T>,
+    settings: LLMGenerationSettings = {}
+  ): Promise<LLMResponse<T>> {
+    return this.runWithModelFallback<T>('Stream', settings.model, async (model) => {
+      const result = await this.fetchCompletion(model, prompt, true, settings);
 
-        const data = await result.json();
-        const textContent = data.choices?.[0]?.message?.content;
+      const textContent = await collectStreamedText<T>(
+        result,
+        'openrouter',
+        (event: unknown) => (event as ChatCompletionChunk).choices?.[0]?.delta?.content,
+        options
+      );
 
-        if (!textContent) {
-          throw new Error('No content in OpenRouter response');
-        }
+      if (!textContent) {
+        throw new Error('No content in OpenRouter stream');
+      }
+
+      return { text: textContent };
+    });
+  }
+
+  /**
+   * Try models in fallback order until one returns parseable JSON.
+   * A routed model goes first, followed by the whole default chain.
+   */
+  private async runWithModelFallback<T>(
+    label: string,
+    routedModel: string | undefined,
+    complete: (model: string) => Promise<Completion>
+  ): Promise<LLMResponse<T>> {
+    const startTime = Date.now();
+    const models = routedModel
+      ? [routedModel, ...MODEL_FALLBACK.filter(m => m !== routedModel)]
+      : MODEL_FALLBACK;
+    const firstIndex = routedModel ? 0 : this.currentModelIndex;
+
+    // Try models in fallback order
+    for (let modelIdx = firstIndex; modelIdx < models.length; modelIdx++) {
+      const model = models[modelIdx];
+
+      try {
+        const { text: textContent, usage } = await complete(model);
 
         // Parse JSON from response
         const parsed = this.parseJSONResponse<T>(textContent);
@@ -114,16 +122,18 @@ export class OpenRouterProvider {
           throw new Error('Failed to parse JSON from OpenRouter response');
         }
 
-        // Success - remember this model worked
-        this.currentModelIndex = modelIdx;
+        // Success - remember this model worked (routed models don't move the default chain)
+        if (!routedModel) this.currentModelIndex = modelIdx;
 
-        console.log(`[OpenRouter] Success with model: ${model}`);
+        console.log(`[OpenRouter] ${label} succeeded with model: ${model}`);
 
         return {
           success: true,
           data: parsed,
           provider: 'openrouter',
           latencyMs: Date.now() - startTime,
+          model,
+          usage,
         };
       } catch (error) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -131,7 +141,7 @@ export class OpenRouterProvider {
         console.warn(`[OpenRouter] Model ${model} failed: ${err.message}`);
 
         // If model is unavailable, try next model
-        if (err.modelUnavailable || modelIdx < MODEL_FALLBACK.length - 1) {
+        if (err.modelUnavailable || modelIdx < models.length - 1) {
           console.log(`[OpenRouter] Trying next model in fallback chain...`);
           continue;
         }
@@ -142,6 +152,7 @@ export class OpenRouterProvider {
           error: err.message || 'Unknown error',
           provider: 'openrouter',
           latencyMs: Date.now() - startTime,
+          retryAfterMs: extractRetryDelay(err) ?? undefined,
         };
       }
     }
@@ -155,6 +166,85 @@ export class OpenRouterProvider {
     };
   }
 
+  /**
+   * POST the chat completion for one model (with retries on rate limits)
+   */
+  private async fetchCompletion(
+    model: string,
+    prompt: LLMPrompt,
+    stream: boolean,
+    settings: LLMGenerationSettings
+  ): Promise<Response> {
+    return retryWithBackoff(
+      async () => {
+        const response = await fetch(OPENROUTER_API_URL, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+            'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : 'https://wanderforge.app',
+            'X-Title': 'WanderForge',
+          },
+          body: JSON.stringify({
+            model: model,
+            messages: [
+              { role: 'system', content: prompt.system },
+              { role: 'user', content: prompt.user }
+            ],
+            temperature: settings.temperature ?? 0.3,
+            max_tokens: settings.maxTokens ?? 4096,
+            response_format: { type: 'json_object' },
+            stream,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          const error = new Error(`OpenRouter API error (${model}): ${response.status} - ${errorText}`);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (error as any).status = response.status;
+
+          // Check for rate limit or model-specific errors
+          if (response.status === 429 || /rate.?limit|quota|too.?many|capacity/i.test(errorText)) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (error as any).isRetryable = true;
+            const retryAfter = response.headers.get('Retry-After');
+            if (retryAfter) {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              (error as any).retryAfter = parseInt(retryAfter, 10); // Seconds, as sent
+            }
+          }
+
+          // Model not available - try next model
+          if (response.status === 404 || /model.?not.?found|not.?available/i.test(errorText)) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (error as any).modelUnavailable = true;
+          }
+
+          throw error;
+        }
+
+        return response;
+      },
+      {
+        ...RETRY_CONFIG,
+        onRetry: (attempt, error, delayMs) => {
+          console.warn(`[OpenRouter/${model}] Retry ${attempt} after ${Math.round(delayMs)}ms: ${error.message}`);
+        },
+      }
+    );
+  }
+
+  private parseUsage(usage?: ChatCompletionUsage): LLMUsage | undefined {
+    if (!usage?.total_tokens) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens,
+      estimated: false,
+    };
+  }
+
   private parseJSONResponse<T>(text: string): T | null {
     // Remove markdown code blocks if present
     let jsonStr = text.trim();
@@ -2,6 +2,7 @@
 // Provides intelligent place suggestions during and after trip planning
 
 import { LLMProviderManager } from '../providers';
+import type { Infer } from '../schema';
 import { searchPlace } from '../../itinerary/web-search';
 import { searchPlace as geocodePlace } from '../search/nominatim.service';
 import type {
@@ -15,6 +16,7 @@ import type { PlaceCategory } from '../../itinerary/types';
 import {
   getRegionSuggestionsPrompt,
   getPopularPlacesPrompt,
+  POPULAR_PLACES_SCHEMA,
   getMissedRecommendationsPrompt,
   getPlaceDetailsPrompt,
   getTripSummaryPrompt,
@@ -110,11 +112,10 @@ export async function getPopularPlacesInRegion(
 
     // Use LLM to extract and rank places
     const prompt = getPopularPlacesPrompt(region, interests, webResultsText);
-    const response = await llmManager.executeWithFallback(prompt);
+    const response = await llmManager.executeWithFallback<Infer<typeof POPULAR_PLACES_SCHEMA>>(prompt);
 
     if (response.success && response.data?.places) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const places: PlaceSuggestion[] = (response.data.places as any[]).map((p, _i) => ({
+      const places: PlaceSuggestion[] = response.data.places.map((p) => ({
         id: generatePlaceId(),
         name: p.name,
         type: mapToPlaceCategory(p.type),
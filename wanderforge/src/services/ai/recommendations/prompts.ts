@@ -1,10 +1,12 @@
 // AI Recommendation Prompts for Trip Planner
 // Prompts for region suggestions, place recommendations, and gap analysis
+import type { LLMPrompt } from '../types';
+import { s } from '../schema';
 
 /**
  * Prompt for suggesting regions based on partial input
  */
-export function getRegionSuggestionsPrompt(partialInput: string): { system: string; user: string } {
+export function getRegionSuggestionsPrompt(partialInput: string): LLMPrompt {
   return {
     system: `You are a travel expert specializing in Indian destinations.
 Given a partial region name, suggest matching travel destinations in India.
@@ -31,9 +33,20 @@ Return JSON format:
     }
   ]
 }`,
+    task: 'recommendations',
   };
 }
 
+export const POPULAR_PLACES_SCHEMA = s.object({
+  places: s.array(s.object({
+    name: s.string(),
+    type: s.string().default('landmark'),
+    reason: s.string().optional(),
+    description: s.string().optional(),
+    confidence: s.number().default(70),
+  })),
+});
+
 /**
  * Prompt for getting popular places in a region based on interests
  */
@@ -41,7 +54,7 @@ export function getPopularPlacesPrompt(
   region: string,
   interests: string[],
   webSearchResults?: string
-): { system: string; user: string } {
+): LLMPrompt {
   const interestsList = interests.length > 0 ? interests.join(', ') : 'general sightseeing';
 
   return {
@@ -73,6 +86,8 @@ Confidence scores:
 - 70-89: Highly recommended
 - 50-69: Good option
 - Below 50: Nice to have`,
+    schema: POPULAR_PLACES_SCHEMA,
+    task: 'recommendations',
   };
 }
 
@@ -83,7 +98,7 @@ export function getPlaceSearchPrompt(
   query: string,
   region: string,
   webSearchResults?: string
-): { system: string; user: string } {
+): LLMPrompt {
   return {
     system: `You are a travel search assistant. Help users find specific places in a region.
 Return ONLY valid JSON with no additional text.`,
@@ -105,6 +120,7 @@ Return JSON format:
     }
   ]
 }`,
+    task: 'recommendations',
   };
 }
 
@@ -116,7 +132,7 @@ export function getMissedRecommendationsPrompt(
   selectedPlaces: string[],
   interests: string[],
   webSearchResults?: string
-): { system: string; user: string } {
+): LLMPrompt {
   return {
     system: `You are a travel advisor helping travelers discover places they might have missed.
 Analyze their selected places and suggest hidden gems or must-visit spots they overlooked.
@@ -149,6 +165,7 @@ Return JSON format:
   ],
   "analysis": "Brief analysis of what categories/areas they're missing"
 }`,
+    task: 'recommendations',
   };
 }
 
@@ -159,7 +176,7 @@ export function getPlaceDetailsPrompt(
   placeName: string,
   region: string,
   webSearchResults?: string
-): { system: string; user: string } {
+): LLMPrompt {
   return {
     system: `You are a travel information assistant. Extract detailed information about a place.
 Return ONLY valid JSON with no additional text.`,
@@ -180,6 +197,7 @@ Return JSON format:
   "entryFee": "Free or approximate cost",
   "tips": ["Tip 1", "Tip 2"]
 }`,
+    task: 'recommendations',
   };
 }
 
@@ -191,7 +209,7 @@ export function getTripSummaryPrompt(
   days: number,
   interests: string[],
   places: string[]
-): { system: string; user: string } {
+): LLMPrompt {
   return {
     system: `You are a creative travel writer. Generate an engaging trip summary.
 Return ONLY valid JSON with no additional text.`,
@@ -208,5 +226,6 @@ Return JSON format:
   "tagline": "One-line tagline",
   "summary": "2-3 sentence trip summary highlighting the best parts"
 }`,
+    task: 'summary',
   };
 }
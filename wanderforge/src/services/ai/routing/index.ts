@@ -0,0 +1,18 @@
+// Re-export routing policy and usage ledger
+export {
+  DEFAULT_ROUTING_POLICY,
+  getRoutingPolicy,
+  getTaskRoute,
+  setTaskRoute,
+  resetRoutingPolicy,
+  getGenerationSettings,
+} from './routing-policy';
+export {
+  recordUsage,
+  getUsageLedger,
+  clearUsageLedger,
+  summarizeUsage,
+  resolveUsage,
+  addUsage,
+  estimateTokens,
+} from './usage-ledger';
@@ -0,0 +1,69 @@
+// Routing Policy - which provider, model and generation settings each task uses
+// Defaults below, overridable per deployment with VITE_LLM_ROUTING_POLICY (JSON) or at runtime.
+import type { LLMGenerationSettings, LLMProviderName, LLMTask, RoutingPolicy, TaskRoute } from '../types';
+
+const LLM_TASKS: LLMTask[] = ['extraction', 'recommendations', 'summary', 'safety', 'research'];
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  // Precise, long JSON - keep temperature low and leave room for big chats
+  extraction: { temperature: 0.3, maxTokens: 4096 },
+  recommendations: { temperature: 0.5, maxTokens: 4096 },
+  // Creative prose, short output
+  summary: { temperature: 0.8, maxTokens: 1024 },
+  safety: { temperature: 0.2, maxTokens: 4096 },
+  research: { temperature: 0.3, maxTokens: 2048 },
+};
+
+let policy: RoutingPolicy = loadPolicy();
+
+/**
+ * Defaults merged with the optional VITE_LLM_ROUTING_POLICY override, e.g.
+ * {"summary": {"preferredProvider": "local", "models": {"local": "llama3.1:8b"}}}
+ */
+function loadPolicy(): RoutingPolicy {
+  const merged: RoutingPolicy = { ...DEFAULT_ROUTING_POLICY };
+  const raw = import.meta.env.VITE_LLM_ROUTING_POLICY;
+  if (!raw) return merged;
+
+  try {
+    const overrides = JSON.parse(raw) as Partial<RoutingPolicy>;
+    for (const task of LLM_TASKS) {
+      if (overrides[task]) merged[task] = { ...merged[task], ...overrides[task] };
+    }
+    console.log('[Routing] Loaded routing policy overrides from VITE_LLM_ROUTING_POLICY');
+  } catch (error) {
+    console.warn('[Routing] Ignoring invalid VITE_LLM_ROUTING_POLICY:', error);
+  }
+  return merged;
+}
+
+export function getRoutingPolicy(): RoutingPolicy {
+  return policy;
+}
+
+export function getTaskRoute(task?: LLMTask): TaskRoute {
+  return task ? policy[task] : {};
+}
+
+/**
+ * Override part of a task's route at runtime (merged into the current route)
+ */
+export function setTaskRoute(task: LLMTask, route: TaskRoute): void {
+  policy = { ...policy, [task]: { ...policy[task], ...route } };
+}
+
+export function resetRoutingPolicy(): void {
+  policy = loadPolicy();
+}
+
+/**
+ * Settings a given provider should use for a task
+ */
+export function getGenerationSettings(task: LLMTask | undefined, provider: LLMProviderName): LLMGenerationSettings {
+  const route = getTaskRoute(task);
+  return {
+    model: route.models?.[provider],
+    temperature: route.temperature,
+    maxTokens: route.maxTokens,
+  };
+}
@@ -0,0 +1,150 @@
+// Usage Ledger - persisted record of every provider call (tokens, latency, failures)
+// Shared by all LLMProviderManager instances so the totals cover the whole app.
+import type {
+  LLMPrompt,
+  LLMProviderName,
+  LLMResponse,
+  LLMUsage,
+  ProviderUsageSummary,
+  UsageLedgerEntry,
+} from '../types';
+
+const LEDGER_KEY = 'wanderforge_llm_usage_ledger';
+const LEDGER_VERSION = 1; // Increment when entry shape changes
+const MAX_ENTRIES = 500;
+
+// Rough token count when the API doesn't report usage (~4 characters per token)
+const CHARS_PER_TOKEN = 4;
+
+interface StoredLedger {
+  version: number;
+  entries: UsageLedgerEntry[];
+}
+
+let entries: UsageLedgerEntry[] | null = null;
+
+function hasStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+function load(): UsageLedgerEntry[] {
+  if (entries) return entries;
+  entries = [];
+  if (!hasStorage()) return entries;
+
+  try {
+    const stored = localStorage.getItem(LEDGER_KEY);
+    if (stored) {
+      const parsed: StoredLedger = JSON.parse(stored);
+      if (parsed.version === LEDGER_VERSION) entries = parsed.entries;
+    }
+  } catch (error) {
+    console.warn('[Usage] Error reading ledger:', error);
+  }
+  return entries;
+}
+
+function save(): void {
+  if (!hasStorage() || !entries) return;
+  try {
+    const stored: StoredLedger = { version: LEDGER_VERSION, entries };
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn('[Usage] Error saving ledger:', error);
+  }
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Usage for a response: what the API reported, or an estimate from prompt and answer size
+ */
+export function resolveUsage(prompt: LLMPrompt, response: LLMResponse<unknown>): LLMUsage {
+  if (response.usage) return response.usage;
+  // Heuristics cost nothing; a failed call without reported usage is counted as a failure, not tokens
+  if (response.provider === 'offline' || !response.success) {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  }
+
+  const promptTokens = estimateTokens(prompt.system + prompt.user);
+  const completionTokens = estimateTokens(JSON.stringify(response.data) ?? '');
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+/**
+ * Add two usages (first answer + repair prompt)
+ */
+export function addUsage(a: LLMUsage | undefined, b: LLMUsage | undefined): LLMUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    estimated: a.estimated || b.estimated,
+  };
+}
+
+export function recordUsage(entry: UsageLedgerEntry): void {
+  const ledger = load();
+  ledger.push(entry);
+  if (ledger.length > MAX_ENTRIES) ledger.splice(0, ledger.length - MAX_ENTRIES);
+  save();
+}
+
+/**
+ * Ledger entries, oldest first
+ */
+export function getUsageLedger(provider?: LLMProviderName): UsageLedgerEntry[] {
+  const ledger = load();
+  return provider ? ledger.filter(e => e.provider === provider) : [...ledger];
+}
+
+export function clearUsageLedger(): void {
+  entries = [];
+  if (!hasStorage()) return;
+  try {
+    localStorage.removeItem(LEDGER_KEY);
+  } catch (error) {
+    console.warn('[Usage] Error clearing ledger:', error);
+  }
+}
+
+/**
+ * Totals for one provider; "today" is the local calendar day
+ */
+export function summarizeUsage(provider: LLMProviderName): ProviderUsageSummary {
+  const providerEntries = getUsageLedger(provider);
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const summary: ProviderUsageSummary = {
+    calls: providerEntries.length,
+    failures: 0,
+    totalTokens: 0,
+    callsToday: 0,
+    tokensToday: 0,
+    avgLatencyMs: 0,
+    lastUsedAt: null,
+  };
+
+  let latencyTotal = 0;
+  for (const entry of providerEntries) {
+    const time = new Date(entry.timestamp);
+    summary.totalTokens += entry.totalTokens;
+    latencyTotal += entry.latencyMs;
+    if (!entry.success) {
+      summary.failures++;
+      summary.lastError = entry.error;
+    }
+    if (time >= startOfDay) {
+      summary.callsToday++;
+      summary.tokensToday += entry.totalTokens;
+    }
+    summary.lastUsedAt = time;
+  }
+
+  summary.avgLatencyMs = providerEntries.length > 0 ? Math.round(latencyTotal / providerEntries.length) : 0;
+  return summary;
+}
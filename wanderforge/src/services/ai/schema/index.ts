@@ -0,0 +1,4 @@
+// Re-export schema utilities
+export { s, RuntimeSchema } from './schema-builder';
+export type { Infer } from './schema-builder';
+export { validateResponse, createRepairPrompt, formatIssues } from './schema-repair';
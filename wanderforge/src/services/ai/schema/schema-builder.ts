@@ -0,0 +1,253 @@
+// Schema Builder - small runtime schemas for LLM JSON responses
+// Lenient by design: near-misses models commonly produce (string numbers, null arrays,
+// "In Progress" for 'in-progress') are coerced and noted; anything else is an issue.
+import type { Schema, SchemaIssue, SchemaResult } from '../types';
+
+const INVALID: unique symbol = Symbol('invalid');
+type Parsed<T> = T | typeof INVALID;
+
+interface ParseContext {
+  issues: SchemaIssue[];
+  coercions: string[];
+}
+
+type Runner<T> = (value: unknown, path: string, ctx: ParseContext) => Parsed<T>;
+
+export type Infer<S> = S extends RuntimeSchema<infer T> ? T : never;
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function fail(ctx: ParseContext, path: string, message: string): typeof INVALID {
+  ctx.issues.push({ path, message });
+  return INVALID;
+}
+
+export class RuntimeSchema<T> implements Schema<T> {
+  readonly description: string;
+  readonly isOptional: boolean;
+  private runner: Runner<T>;
+
+  constructor(description: string, runner: Runner<T>, isOptional: boolean = false) {
+    this.description = description;
+    this.runner = runner;
+    this.isOptional = isOptional;
+  }
+
+  run(value: unknown, path: string, ctx: ParseContext): Parsed<T> {
+    return this.runner(value, path, ctx);
+  }
+
+  parse(value: unknown): SchemaResult<T> {
+    const ctx: ParseContext = { issues: [], coercions: [] };
+    const data = this.runner(value, '$', ctx);
+
+    if (data === INVALID || ctx.issues.length > 0) {
+      return { success: false, issues: ctx.issues };
+    }
+    return { success: true, data, coercions: ctx.coercions };
+  }
+
+  /**
+   * Missing or null → undefined
+   */
+  optional(): RuntimeSchema<T | undefined> {
+    return new RuntimeSchema<T | undefined>(
+      this.description,
+      (value, path, ctx) => (value === undefined || value === null ? undefined : this.runner(value, path, ctx)),
+      true
+    );
+  }
+
+  /**
+   * Missing or null → null
+   */
+  nullable(): RuntimeSchema<T | null> {
+    return new RuntimeSchema<T | null>(
+      `${this.description} | null`,
+      (value, path, ctx) => (value === undefined || value === null ? null : this.runner(value, path, ctx)),
+      true
+    );
+  }
+
+  /**
+   * Missing or null → fallback value (noted as a coercion)
+   */
+  default(fallback: T): RuntimeSchema<T> {
+    return new RuntimeSchema<T>(
+      this.description,
+      (value, path, ctx) => {
+        if (value === undefined || value === null) {
+          ctx.coercions.push(`${path}: missing, defaulted`);
+          return fallback;
+        }
+        return this.runner(value, path, ctx);
+      },
+      true
+    );
+  }
+}
+
+// ==================== Primitives ====================
+
+function string(): RuntimeSchema<string> {
+  return new RuntimeSchema('string', (value, path, ctx) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      ctx.coercions.push(`${path}: ${typeof value} → string`);
+      return String(value);
+    }
+    return fail(ctx, path, `expected string, got ${describeValue(value)}`);
+  });
+}
+
+function number(): RuntimeSchema<number> {
+  return new RuntimeSchema('number', (value, path, ctx) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+      // "85", "85%", "1,200"
+      const cleaned = value.trim().replace(/,/g, '').replace(/%$/, '');
+      if (/^-?\d*\.?\d+$/.test(cleaned)) {
+        ctx.coercions.push(`${path}: "${value}" → number`);
+        return parseFloat(cleaned);
+      }
+    }
+    return fail(ctx, path, `expected number, got ${describeValue(value)}`);
+  });
+}
+
+function boolean(): RuntimeSchema<boolean> {
+  return new RuntimeSchema('boolean', (value, path, ctx) => {
+    if (typeof value === 'boolean') return value;
+    const normalized = String(value).trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(normalized) || ['false', 'no', '0'].includes(normalized)) {
+      ctx.coercions.push(`${path}: ${JSON.stringify(value)} → boolean`);
+      return ['true', 'yes', '1'].includes(normalized);
+    }
+    return fail(ctx, path, `expected boolean, got ${describeValue(value)}`);
+  });
+}
+
+function unknownValue(): RuntimeSchema<unknown> {
+  return new RuntimeSchema('unknown', (value) => value);
+}
+
+function normalizeEnumValue(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+/**
+ * String enum; matching ignores case and "in progress"/"in_progress"/"in-progress" differences.
+ * With `fallback`, unknown values map to it instead of failing.
+ */
+function enumOf<const V extends string>(values: readonly V[], options?: { fallback?: V }): RuntimeSchema<V> {
+  const byNormalized = new Map(values.map(v => [normalizeEnumValue(v), v]));
+
+  return new RuntimeSchema(values.map(v => JSON.stringify(v)).join(' | '), (value, path, ctx) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) return value as V;
+
+    const match = typeof value === 'string' ? byNormalized.get(normalizeEnumValue(value)) : undefined;
+    if (match) {
+      ctx.coercions.push(`${path}: "${value}" → "${match}"`);
+      return match;
+    }
+    if (options?.fallback !== undefined) {
+      ctx.coercions.push(`${path}: ${JSON.stringify(value)} → "${options.fallback}" (unknown value)`);
+      return options.fallback;
+    }
+    return fail(ctx, path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+  });
+}
+
+// ==================== Composites ====================
+
+/**
+ * Array of items. Missing/null becomes [] and a lone value is wrapped.
+ */
+function array<T>(item: RuntimeSchema<T>): RuntimeSchema<T[]> {
+  const itemDescription = item.description.includes('|') ? `(${item.description})` : item.description;
+
+  return new RuntimeSchema(`${itemDescription}[]`, (value, path, ctx) => {
+    if (value === undefined || value === null) {
+      ctx.coercions.push(`${path}: missing array → []`);
+      return [];
+    }
+
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else {
+      ctx.coercions.push(`${path}: single value → array`);
+      items = [value];
+    }
+
+    const result: T[] = [];
+    let valid = true;
+    items.forEach((entry, i) => {
+      const parsed = item.run(entry, `${path}[${i}]`, ctx);
+      if (parsed === INVALID) {
+        valid = false;
+      } else {
+        result.push(parsed);
+      }
+    });
+    return valid ? result : INVALID;
+  });
+}
+
+type Shape = Record<string, RuntimeSchema<unknown>>;
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+/**
+ * Object with known keys. Unknown keys pass through untouched.
+ */
+function object<S extends Shape>(shape: S): RuntimeSchema<ObjectOf<S>> {
+  const fields = Object.entries(shape)
+    .map(([key, schema]) => `${key}${schema.isOptional ? '?' : ''}: ${schema.description}`)
+    .join('; ');
+
+  return new RuntimeSchema(`{ ${fields} }`, (value, path, ctx) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(ctx, path, `expected object, got ${describeValue(value)}`);
+    }
+
+    const input = value as Record<string, unknown>;
+    const keys = Object.keys(shape);
+    // Everything defaulted from nothing means the model answered a different question
+    if (keys.length > 0 && !keys.some(key => key in input)) {
+      return fail(ctx, path, `expected an object with ${keys.join(', ')}, got keys: ${Object.keys(input).join(', ') || 'none'}`);
+    }
+
+    const result: Record<string, unknown> = { ...input };
+    let valid = true;
+
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.run(input[key], `${path}.${key}`, ctx);
+      if (parsed === INVALID) {
+        valid = false;
+      } else if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+
+    return valid ? (result as ObjectOf<S>) : INVALID;
+  });
+}
+
+/**
+ * Schema builders: s.object({ name: s.string(), votes: s.number().default(1) })
+ */
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown: unknownValue,
+  enumOf,
+  array,
+  object,
+};
@@ -0,0 +1,62 @@
+// Schema Repair - validate provider responses and build the one-shot repair prompt
+import type { LLMPrompt, LLMResponse, Schema, SchemaIssue } from '../types';
+
+// Enough issues for the model to fix the pattern without flooding the prompt
+const MAX_ISSUES_IN_PROMPT = 15;
+const MAX_ECHOED_RESPONSE_CHARS = 6000;
+
+/**
+ * Validate a successful response against a schema.
+ * Returns the coerced data on success, or a failed response carrying the issues.
+ */
+export function validateResponse<T>(response: LLMResponse<T>, schema: Schema): LLMResponse<T> {
+  if (!response.success) return response;
+
+  const result = schema.parse(response.data);
+  if (result.success) {
+    if (result.coercions.length > 0) {
+      console.log(`[Schema] ${response.provider}: coerced ${result.coercions.length} value(s)`);
+    }
+    return { ...response, data: result.data as T, schemaIssues: undefined };
+  }
+
+  return {
+    ...response,
+    success: false,
+    error: `Response failed schema validation: ${formatIssues(result.issues, 3)}`,
+    schemaIssues: result.issues,
+  };
+}
+
+export function formatIssues(issues: SchemaIssue[], limit: number = MAX_ISSUES_IN_PROMPT): string {
+  const shown = issues.slice(0, limit).map(i => `${i.path}: ${i.message}`);
+  if (issues.length > limit) shown.push(`...and ${issues.length - limit} more`);
+  return shown.join('; ');
+}
+
+/**
+ * Ask the same provider to fix its own output
+ */
+export function createRepairPrompt(original: LLMPrompt, invalidData: unknown, issues: SchemaIssue[]): LLMPrompt {
+  let previous = JSON.stringify(invalidData, null, 2) ?? 'undefined';
+  if (previous.length > MAX_ECHOED_RESPONSE_CHARS) {
+    previous = `${previous.substring(0, MAX_ECHOED_RESPONSE_CHARS)}\n...(truncated)`;
+  }
+
+  return {
+    system: original.system,
+    user: `${original.user}
+
+---PREVIOUS RESPONSE---
+${previous}
+---END PREVIOUS RESPONSE---
+
+Your previous response did not match the required JSON structure:
+${issues.slice(0, MAX_ISSUES_IN_PROMPT).map(i => `- ${i.path}: ${i.message}`).join('\n')}
+
+Required structure (TypeScript notation, "?" = optional):
+${original.schema?.description ?? ''}
+
+Return the corrected JSON only, no markdown and no explanation.`,
+  };
+}
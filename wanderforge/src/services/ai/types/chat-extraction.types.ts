@@ -1,12 +1,30 @@
 // Chat Extraction Types
 import type { LLMProviderName } from './llm.types';
 import type { EnrichedPlaceData } from './place.types';
+import type { ChatAttachment, ChatImportStats } from './chat-import.types';
+import type { CurrencyCode, Money, NormalizedBudget } from '../../money';
 
 export interface RawChatMessage {
+  id?: string;
   sender?: string;
   content: string;
-  timestamp?: string;
+  timestamp?: string;  // ISO 8601 when the export carried a parseable timestamp
   isMedia?: boolean;
+  isSystem?: boolean;  // Group notices ("X added Y", encryption banners)
+  attachments?: ChatAttachment[];
+  replyTo?: string;    // id of the quoted message, or the quoted text when no id exists
+}
+
+// Provenance: which chat message (and which characters in it) produced an item
+export interface SourceSpan {
+  start: number;  // Character offset into RawChatMessage.content
+  end: number;    // Exclusive
+}
+
+export interface MessageReference {
+  messageId: string;
+  sender?: string;
+  spans: SourceSpan[];
 }
 
 export interface ExtractedDate {
@@ -15,9 +33,10 @@ export interface ExtractedDate {
   endDate?: string;
   context: string;
   confidence: number;
-  source: 'ai' | 'heuristic';
+  source: 'ai' | 'heuristic' | 'poll';
   proposedBy?: string;  // V3.2: Track who proposed this date
   status?: 'open' | 'finalized';  // V3.2: Consensus-based status
+  sources?: MessageReference[];
 }
 
 export interface ExtractedBudget {
@@ -26,9 +45,12 @@ export interface ExtractedBudget {
   perPerson: boolean;
   breakdown: BudgetItem[];
   confidence: number;
-  source: 'ai' | 'heuristic';
+  source: 'ai' | 'heuristic' | 'poll';
   status?: 'open' | 'finalized';  // V3.2: Consensus-based status
   proposals?: BudgetProposal[];   // V3.2: Individual proposals when no consensus
+  money?: Money | null;           // `total` parsed (null without consensus)
+  normalized?: NormalizedBudget;  // `money` per person and for the group, in the trip base currency
+  sources?: MessageReference[];
 }
 
 // V3.2: Track individual budget proposals
@@ -36,6 +58,7 @@ export interface BudgetProposal {
   amount: string;
   proposedBy: string[];
   context?: string;
+  money?: Money;
 }
 
 export interface BudgetItem {
@@ -43,6 +66,8 @@ export interface BudgetItem {
   amount: string;
   assignee?: string;
   source?: string;
+  money?: Money;
+  sources?: MessageReference[];
 }
 
 export interface ExtractedPlace {
@@ -53,8 +78,9 @@ export interface ExtractedPlace {
   mentionedBy: string[];
   coordinates?: { lat: number; lng: number };
   enrichedData?: EnrichedPlaceData;
-  source: 'ai' | 'heuristic';
+  source: 'ai' | 'heuristic' | 'poll';
   confidence: number;
+  sources?: MessageReference[];
 }
 
 export interface ExtractedTask {
@@ -64,6 +90,7 @@ export interface ExtractedTask {
   deadline?: string;
   priority?: 'low' | 'medium' | 'high';
   source: 'ai' | 'heuristic';
+  sources?: MessageReference[];
 }
 
 export interface ExtractedDecision {
@@ -73,7 +100,19 @@ export interface ExtractedDecision {
   madeBy?: string;  // V3.3: Comma-separated voter string
   confirmed?: boolean;  // V3.3: True if 2+ distinct voters confirmed
   confidence: number;
-  source: 'ai' | 'heuristic';
+  source: 'ai' | 'heuristic' | 'poll';
+  pollId?: string;  // Set when a closed chat poll made the decision
+  sources?: MessageReference[];
+}
+
+// A later message that looks like it answers an open question
+export interface QuestionAnswer {
+  messageId: string;
+  sender?: string;
+  text: string;
+  timestamp?: string;
+  resolution: 'open' | 'conditional' | 'resolved';
+  score: number;  // 0-1, how strongly the message is tied to the question
 }
 
 export interface OpenQuestion {
@@ -81,6 +120,11 @@ export interface OpenQuestion {
   participants?: string[];
   context?: string;
   status?: 'open' | 'conditional' | 'resolved'; // V2 FIX: 3-state model
+  sources?: MessageReference[];
+  askedBy?: string;
+  askedAt?: string;
+  candidateAnswers?: QuestionAnswer[];  // Best-scoring replies first
+  answer?: QuestionAnswer;              // The message that resolved (or conditioned) it
 }
 
 export interface ChatExtractionResult {
@@ -97,6 +141,7 @@ export interface ChatExtractionResult {
     extractedItems: number;
     processingTimeMs: number;
     providersUsed: LLMProviderName[];
+    importStats?: ChatImportStats;
   };
 }
 
@@ -105,4 +150,9 @@ export interface ChatParsingOptions {
   minConfidenceThreshold?: number;
   enrichPlaces?: boolean;
   maxPlacesToEnrich?: number;
+  windowSize?: number;     // Messages per LLM call for long chats (default 300)
+  windowOverlap?: number;  // Messages repeated between consecutive windows (default 20)
+  stream?: boolean;        // Stream from providers that support it (default true)
+  members?: number;        // Group size for per-person/group budget figures (default: chat senders)
+  baseCurrency?: CurrencyCode;  // Currency budgets are normalized to (default: the chat's most used)
 }
@@ -0,0 +1,67 @@
+// Chat Import Types
+import type { RawChatMessage } from './chat-extraction.types';
+
+export type ChatImportFormat =
+  | 'whatsapp-android'
+  | 'whatsapp-ios'
+  | 'telegram-json'
+  | 'signal'
+  | 'plain-text'
+  | 'trip-chat';  // Messages from in-app Trip Chat (already structured, no parser)
+
+export type ChatAttachmentKind = 'image' | 'video' | 'audio' | 'sticker' | 'document' | 'unknown';
+
+export interface ChatAttachment {
+  fileName?: string;
+  kind: ChatAttachmentKind;
+  mimeType?: string;
+  sizeBytes?: number;
+  inArchive?: boolean;  // True when the file was found inside an imported .zip
+}
+
+export interface ChatImportStats {
+  format: ChatImportFormat;
+  detectionConfidence: number;  // 0-1
+  totalLines: number;
+  parsedMessages: number;
+  multilineMessages: number;
+  systemMessages: number;
+  mediaMessages: number;
+  attachments: number;
+  replies: number;
+  senders: number;
+  skippedLines: number;
+  timestampsParsed: number;
+}
+
+export interface ImportedChat {
+  format: ChatImportFormat;
+  title?: string;
+  messages: RawChatMessage[];
+  stats: ChatImportStats;
+  warnings: string[];
+}
+
+export interface ChatParseOutput {
+  title?: string;
+  messages: RawChatMessage[];
+  totalLines: number;
+  multilineMessages: number;
+  systemMessages: number;
+  skippedLines: number;
+  warnings: string[];
+}
+
+export interface ChatImportOptions {
+  format?: ChatImportFormat;           // Skip auto-detection
+  dateOrder?: 'DMY' | 'MDY';           // Force day/month order for numeric dates
+  includeSystemMessages?: boolean;     // Keep "X added Y", encryption notices, etc.
+}
+
+// A pluggable parser for one export format
+export interface ChatFormatParser {
+  format: ChatImportFormat;
+  // Confidence 0-1 that the input is in this format
+  detect(input: string): number;
+  parse(input: string, options?: ChatImportOptions): ChatParseOutput;
+}
@@ -0,0 +1,53 @@
+// Extraction Eval Types
+import type { ChatExtractionResult } from './chat-extraction.types';
+
+export type EvalField = 'dates' | 'budget' | 'places' | 'tasks' | 'decisions' | 'openQuestions';
+
+// offline: heuristics only | mocked-llm: canned model answers through the full provider/schema path
+export type EvalMode = 'offline' | 'mocked-llm';
+
+export interface GoldenChat {
+  id: string;
+  description: string;
+  chat: string;                                      // Raw export text, any format the importer detects
+  expected: Record<EvalField, string[]>;             // Budget entries are amounts ("15000")
+  llmResponse: Omit<ChatExtractionResult, 'stats'>;  // What the mocked LLM answers
+}
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  missed: string[];      // Expected but not extracted
+  unexpected: string[];  // Extracted but not expected
+}
+
+export interface ChatEvalResult {
+  id: string;
+  provider: string;
+  fields: Record<EvalField, FieldScore>;
+}
+
+export interface EvalReport {
+  mode: EvalMode;
+  generatedAt: string;
+  chats: ChatEvalResult[];
+  totals: Record<EvalField, FieldScore>;  // Micro-averaged over all chats
+}
+
+export interface FieldDelta {
+  chatId: string | null;  // null for the totals row
+  field: EvalField;
+  baselineF1: number;
+  currentF1: number;
+  newlyMissed: string[];
+  newlyUnexpected: string[];
+}
+
+export interface EvalComparison {
+  regressions: FieldDelta[];
+  improvements: FieldDelta[];
+}
@@ -2,3 +2,6 @@
 export * from './llm.types';
 export * from './chat-extraction.types';
 export * from './place.types';
+export * from './chat-import.types';
+export * from './schema.types';
+export * from './eval.types';
@@ -1,6 +1,10 @@
 // LLM Provider Types
+import type { Schema, SchemaIssue } from './schema.types';
 
-export type LLMProviderName = 'gemini' | 'groq' | 'openrouter' | 'huggingface' | 'offline';
+export type LLMProviderName = 'gemini' | 'groq' | 'openrouter' | 'local' | 'offline';
+
+// What a prompt is for - lets providers pick a model suited to the job
+export type LLMTask = 'extraction' | 'recommendations' | 'summary' | 'safety' | 'research';
 
 export interface LLMConfig {
   name: LLMProviderName;
@@ -17,16 +21,94 @@ export interface LLMResponse<T = unknown> {
   error?: string;
   provider: LLMProviderName;
   latencyMs: number;
+  schemaIssues?: SchemaIssue[];  // Set when the JSON arrived but didn't match LLMPrompt.schema
+  repaired?: boolean;            // Data came from the repair prompt rather than the first answer
+  model?: string;                // Model that produced the answer
+  usage?: LLMUsage;
+  retryAfterMs?: number;         // Server's Retry-After / quota hint on failure
 }
 
 export interface LLMPrompt {
   system: string;
   user: string;
+  schema?: Schema;  // Validates (and coerces) the parsed JSON before it reaches the caller
+  task?: LLMTask;   // Selects the routing policy (provider, model, temperature, max tokens)
+}
+
+// Per-request overrides a provider applies on top of its own defaults
+export interface LLMGenerationSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Routing policy for one task; unset fields keep provider defaults
+export interface TaskRoute {
+  preferredProvider?: LLMProviderName;
+  models?: Partial<Record<LLMProviderName, string>>;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export type RoutingPolicy = Record<LLMTask, TaskRoute>;
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;  // true when the API didn't report usage (streams, local servers)
+}
+
+// Streaming: chunks are cumulative snapshots, so a restarted stream (retry or fallback) simply replaces earlier ones
+export interface LLMStreamChunk<T = unknown> {
+  provider: LLMProviderName;
+  delta: string;    // Text received in this chunk
+  text: string;     // All text received so far in this attempt
+  partial?: T;      // Completed part of the JSON so far (raw, not schema-validated)
 }
 
+export interface LLMStreamOptions<T = unknown> {
+  onChunk: (chunk: LLMStreamChunk<T>) => void;
+}
+
+export type CircuitStatus = 'closed' | 'open' | 'half-open';
+
 export interface ProviderHealth {
   name: LLMProviderName;
-  available: boolean;
+  available: boolean;         // false while the circuit is open
   lastChecked: Date;
   consecutiveFailures: number;
+  circuit: CircuitStatus;
+  retryAt: Date | null;       // When an open circuit lets a probe through
+  schemaFailures: number;  // Responses that stayed invalid even after the repair prompt
+  usage: ProviderUsageSummary;
+}
+
+// ==================== Usage Ledger ====================
+
+// One provider attempt (fallbacks record one entry each)
+export interface UsageLedgerEntry {
+  timestamp: string;       // ISO
+  provider: LLMProviderName;
+  task?: LLMTask;
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedTokens: boolean;
+  latencyMs: number;
+  success: boolean;
+  schemaFailure?: boolean;
+  error?: string;
+}
+
+export interface ProviderUsageSummary {
+  calls: number;
+  failures: number;
+  totalTokens: number;
+  callsToday: number;
+  tokensToday: number;
+  avgLatencyMs: number;
+  lastUsedAt: Date | null;
+  lastError?: string;
 }
@@ -0,0 +1,15 @@
+// Runtime Schema Types - validation of JSON produced by LLMs
+
+export interface SchemaIssue {
+  path: string;     // JSON path of the offending value, e.g. "$.places[2].status"
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T; coercions: string[] }  // coercions: near-misses that were fixed up
+  | { success: false; issues: SchemaIssue[] };
+
+export interface Schema<T = unknown> {
+  readonly description: string;  // TypeScript-like shape, quoted back to the model in repair prompts
+  parse(value: unknown): SchemaResult<T>;
+}
@@ -0,0 +1,212 @@
+// Circuit Breaker - stop calling a failing service, then probe it again after a cooldown
+// closed → (N failures or a Retry-After hint) → open → (cooldown over) → half-open → one probe
+// → success closes it, failure reopens it with a longer cooldown.
+// State is persisted so a rate-limited key isn't hammered again after a page refresh.
+import type { CircuitStatus } from '../types';
+import { extractRetryDelay } from './retry-utils';
+
+export interface CircuitSnapshot {
+  status: CircuitStatus;
+  failures: number;        // Consecutive failures since the last success
+  trips: number;           // Consecutive times the circuit opened without a successful probe
+  retryAt: Date | null;    // When the circuit moves to half-open (null when closed)
+  lastError?: string;
+}
+
+interface CircuitState {
+  status: CircuitStatus;
+  failures: number;
+  trips: number;
+  openUntil: number;
+  lastError?: string;
+}
+
+const STORAGE_KEY = 'wanderforge_circuit_breakers';
+
+const CIRCUIT_CONFIG = {
+  failureThreshold: 3,
+  baseCooldownMs: 60000,        // 1 minute, doubled for every failed probe
+  maxCooldownMs: 15 * 60000,    // 15 minutes
+  maxRetryAfterMs: 60 * 60000,  // Cap on server hints (daily quotas say "retry tomorrow")
+  probeTimeoutMs: 2 * 60000,    // A probe that never reported back frees the slot after this
+};
+
+let circuits: Map<string, CircuitState> | null = null;
+// In-flight probes are per page; never persisted
+const probesInFlight = new Map<string, number>();
+
+function hasStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+function load(): Map<string, CircuitState> {
+  if (circuits) return circuits;
+  circuits = new Map();
+  if (!hasStorage()) return circuits;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      circuits = new Map(Object.entries(JSON.parse(stored) as Record<string, CircuitState>));
+    }
+  } catch (error) {
+    console.warn('[CircuitBreaker] Error reading state:', error);
+  }
+  return circuits;
+}
+
+function save(): void {
+  if (!hasStorage() || !circuits) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(circuits)));
+  } catch (error) {
+    console.warn('[CircuitBreaker] Error saving state:', error);
+  }
+}
+
+function getState(serviceId: string): CircuitState {
+  const all = load();
+  let state = all.get(serviceId);
+  if (!state) {
+    state = { status: 'closed', failures: 0, trips: 0, openUntil: 0 };
+    all.set(serviceId, state);
+  }
+  // Cooldown over: let a probe through
+  if (state.status === 'open' && Date.now() >= state.openUntil) {
+    state.status = 'half-open';
+    save();
+  }
+  return state;
+}
+
+function open(serviceId: string, state: CircuitState, retryAfterMs: number | null): void {
+  const backoff = Math.min(
+    CIRCUIT_CONFIG.baseCooldownMs * Math.pow(2, state.trips),
+    CIRCUIT_CONFIG.maxCooldownMs
+  );
+  // The server knows its quota window better than our backoff does
+  const cooldown = retryAfterMs ? Math.min(retryAfterMs, CIRCUIT_CONFIG.maxRetryAfterMs) : backoff;
+
+  state.status = 'open';
+  state.trips++;
+  state.openUntil = Date.now() + cooldown;
+  console.warn(`[CircuitBreaker] Circuit opened for ${serviceId} for ${Math.round(cooldown / 1000)}s (${state.failures} failures)`);
+}
+
+/**
+ * Check if the circuit is letting requests through (no side effects)
+ */
+export function isCircuitClosed(serviceId: string): boolean {
+  return getState(serviceId).status !== 'open';
+}
+
+/**
+ * Ask to make a request. Closed circuits always allow it; a half-open circuit
+ * allows exactly one probe at a time until it reports success or failure.
+ */
+export function tryAcquireCircuit(serviceId: string): boolean {
+  const state = getState(serviceId);
+  if (state.status === 'closed') return true;
+  if (state.status === 'open') return false;
+
+  const probeStarted = probesInFlight.get(serviceId);
+  if (probeStarted && Date.now() - probeStarted < CIRCUIT_CONFIG.probeTimeoutMs) return false;
+
+  probesInFlight.set(serviceId, Date.now());
+  console.log(`[CircuitBreaker] Probing ${serviceId}`);
+  return true;
+}
+
+/**
+ * Record a success; closes the circuit
+ */
+export function recordCircuitSuccess(serviceId: string): void {
+  const state = getState(serviceId);
+  probesInFlight.delete(serviceId);
+  if (state.status !== 'closed') {
+    console.log(`[CircuitBreaker] Circuit closed for ${serviceId}`);
+  }
+  state.status = 'closed';
+  state.failures = 0;
+  state.trips = 0;
+  state.openUntil = 0;
+  state.lastError = undefined;
+  save();
+}
+
+/**
+ * Record a failure. Opens the circuit after the failure threshold, immediately when
+ * a half-open probe fails, or immediately when the error carries a retry delay.
+ * `error` may be the thrown error (Retry-After is read via extractRetryDelay) or a message.
+ */
+export function recordCircuitFailure(
+  serviceId: string,
+  error?: unknown,
+  retryAfterMs: number | null = extractRetryDelay(error)
+): void {
+  const state = getState(serviceId);
+  const wasProbe = state.status === 'half-open';
+  probesInFlight.delete(serviceId);
+
+  state.failures++;
+  if (error !== undefined) {
+    state.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  if (wasProbe || retryAfterMs || state.failures >= CIRCUIT_CONFIG.failureThreshold) {
+    open(serviceId, state, retryAfterMs);
+  }
+  save();
+}
+
+export function getCircuitSnapshot(serviceId: string): CircuitSnapshot {
+  const state = getState(serviceId);
+  return {
+    status: state.status,
+    failures: state.failures,
+    trips: state.trips,
+    retryAt: state.status === 'open' ? new Date(state.openUntil) : null,
+    lastError: state.lastError,
+  };
+}
+
+/**
+ * Forget a circuit (or all of them)
+ */
+export function resetCircuit(serviceId?: string): void {
+  const all = load();
+  if (serviceId) {
+    all.delete(serviceId);
+    probesInFlight.delete(serviceId);
+  } else {
+    all.clear();
+    probesInFlight.clear();
+  }
+  save();
+}
+
+/**
+ * Execute a function with circuit breaker protection
+ */
+export async function withCircuitBreaker<T>(
+  serviceId: string,
+  fn: () => Promise<T>,
+  fallback?: () => T | Promise<T>
+): Promise<T> {
+  if (!tryAcquireCircuit(serviceId)) {
+    console.warn(`[CircuitBreaker] Circuit is open for ${serviceId}`);
+    if (fallback) {
+      return fallback();
+    }
+    throw new Error(`Service ${serviceId} is temporarily unavailable (circuit open)`);
+  }
+
+  try {
+    const result = await fn();
+    recordCircuitSuccess(serviceId);
+    return result;
+  } catch (error) {
+    recordCircuitFailure(serviceId, error);
+    throw error;
+  }
+}
@@ -1,5 +1,5 @@
 // Environment Configuration for AI Services
-import type { LLMProviderName } from '../types';
+import type { LLMProviderName, LLMTask } from '../types';
 
 export interface AIServiceConfig {
   gemini: {
@@ -14,16 +14,46 @@ export interface AIServiceConfig {
     apiKey: string | null;
     available: boolean;
   };
-  huggingface: {
-    apiKey: string | null;
-    available: boolean;
-  };
+  local: LocalLLMConfig;
   foursquare: {
     apiKey: string | null;
     available: boolean;
   };
 }
 
+// Self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM)
+export interface LocalLLMConfig {
+  baseUrl: string | null;               // e.g. http://localhost:11434/v1
+  apiKey: string | null;                // Most local servers ignore it; vLLM can require one
+  models: Record<LLMTask, string>;      // Falls back to VITE_LOCAL_LLM_MODEL per task
+  priority: number;                     // Position in the fallback chain (0 = first, offline stays last)
+  available: boolean;
+}
+
+const DEFAULT_LOCAL_MODEL = 'llama3.1:8b';
+
+function getLocalLLMConfig(): LocalLLMConfig {
+  const env = import.meta.env;
+  const baseUrl = env.VITE_LOCAL_LLM_BASE_URL ? String(env.VITE_LOCAL_LLM_BASE_URL).replace(/\/+$/, '') : null;
+  const defaultModel = env.VITE_LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL;
+  const priority = parseInt(env.VITE_LOCAL_LLM_PRIORITY ?? '', 10);
+
+  return {
+    baseUrl,
+    apiKey: env.VITE_LOCAL_LLM_API_KEY || null,
+    models: {
+      extraction: env.VITE_LOCAL_LLM_MODEL_EXTRACTION || defaultModel,
+      recommendations: env.VITE_LOCAL_LLM_MODEL_RECOMMENDATIONS || defaultModel,
+      summary: env.VITE_LOCAL_LLM_MODEL_SUMMARY || defaultModel,
+      safety: env.VITE_LOCAL_LLM_MODEL_SAFETY || defaultModel,
+      research: env.VITE_LOCAL_LLM_MODEL_RESEARCH || defaultModel,
+    },
+    // Default: after the cloud providers, just before offline heuristics
+    priority: isNaN(priority) ? Number.MAX_SAFE_INTEGER : Math.max(0, priority),
+    available: !!baseUrl,
+  };
+}
+
 export function getAIServiceConfig(): AIServiceConfig {
   return {
     gemini: {
@@ -38,10 +68,7 @@ export function getAIServiceConfig(): AIServiceConfig {
       apiKey: import.meta.env.VITE_OPENROUTER_API_KEY || null,
       available: !!import.meta.env.VITE_OPENROUTER_API_KEY,
     },
-    huggingface: {
-      apiKey: import.meta.env.VITE_HUGGINGFACE_API_KEY || null,
-      available: !!import.meta.env.VITE_HUGGINGFACE_API_KEY,
-    },
+    local: getLocalLLMConfig(),
     foursquare: {
       apiKey: import.meta.env.VITE_FOURSQUARE_API_KEY || null,
       available: !!import.meta.env.VITE_FOURSQUARE_API_KEY,
@@ -56,7 +83,7 @@ export function getAvailableProviders(): LLMProviderName[] {
   if (config.gemini.available) providers.push('gemini');
   if (config.groq.available) providers.push('groq');
   if (config.openrouter.available) providers.push('openrouter');
-  if (config.huggingface.available) providers.push('huggingface');
+  if (config.local.available) providers.push('local');
   providers.push('offline'); // Always available
 
   return providers;
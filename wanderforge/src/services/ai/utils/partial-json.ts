@@ -0,0 +1,109 @@
+// Partial JSON Parser - read the completed part of a JSON document that is still streaming
+// Only cuts after complete values, so half-written strings ("Go" for "Goa") never surface.
+
+interface ScanResult {
+  cutPoints: number[];  // Prefix lengths that end right after a complete value
+  start: number;        // Index of the first '{' or '['
+}
+
+const MAX_CUT_ATTEMPTS = 12;
+
+/**
+ * Strip a leading markdown fence the model may open with
+ */
+function stripFence(text: string): string {
+  return text.replace(/^\s*```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+}
+
+function scan(text: string): ScanResult {
+  const cutPoints: number[] = [];
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (start === -1) {
+      if (ch === '{' || ch === '[') {
+        start = i;
+        depth = 1;
+      }
+      continue;
+    }
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+      cutPoints.push(i + 1);
+      if (depth === 0) break;
+    } else if (ch === ',') {
+      cutPoints.push(i);
+    }
+  }
+
+  return { cutPoints, start };
+}
+
+/**
+ * Close every bracket still open at the end of a prefix
+ */
+function closeBrackets(prefix: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of prefix) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+
+  return prefix + stack.reverse().join('');
+}
+
+/**
+ * Best-effort parse of an incomplete JSON document.
+ * Returns the largest complete prefix as a value, or null if nothing is usable yet.
+ */
+export function parsePartialJSON<T = unknown>(text: string): T | null {
+  const cleaned = stripFence(text);
+  const { cutPoints, start } = scan(cleaned);
+  if (start === -1) return null;
+
+  // Already complete?
+  try {
+    return JSON.parse(cleaned.substring(start)) as T;
+  } catch {
+    // Fall through to prefix attempts
+  }
+
+  const attempts = cutPoints.slice(-MAX_CUT_ATTEMPTS).reverse();
+  for (const end of attempts) {
+    try {
+      return JSON.parse(closeBrackets(cleaned.substring(start, end))) as T;
+    } catch {
+      // Try an earlier cut
+    }
+  }
+
+  return null;
+}
@@ -77,7 +77,7 @@ export function extractRetryDelay(error: unknown): number | null {
   const errorStr = String(error);
   const retryInfoMatch = errorStr.match(/retry.?delay["\s:]+(\d+)/i);
   if (retryInfoMatch) {
-    return parseInt(retryInfoMatch[1], 10);
+    return parseInt(retryInfoMatch[1], 10) * 1000;
   }
 
   return null;
@@ -195,7 +195,7 @@ export async function fetchWithRetry(
         error.isRetryable = true;
 
         if (retryAfter) {
-          error.retryAfter = parseInt(retryAfter, 10) * 1000;
+          error.retryAfter = parseInt(retryAfter, 10); // Seconds, as sent
         }
 
         throw error;
@@ -205,96 +205,3 @@ export async function fetchWithRetry(
     return response;
   }, retryConfig);
 }
-
-/**
- * Circuit breaker state for a service
- */
-interface CircuitState {
-  failures: number;
-  lastFailure: number;
-  isOpen: boolean;
-  halfOpenAttempts: number;
-}
-
-const circuitBreakers = new Map<string, CircuitState>();
-
-const CIRCUIT_CONFIG = {
-  failureThreshold: 5,
-  resetTimeoutMs: 60000, // 1 minute
-  halfOpenMaxAttempts: 2,
-};
-
-/**
- * Check if circuit is allowing requests
- */
-export function isCircuitClosed(serviceId: string): boolean {
-  const state = circuitBreakers.get(serviceId);
-
-  if (!state) return true;
-  if (!state.isOpen) return true;
-
-  // Check if reset timeout has passed (move to half-open)
-  if (Date.now() - state.lastFailure > CIRCUIT_CONFIG.resetTimeoutMs) {
-    return true;
-  }
-
-  return false;
-}
-
-/**
- * Record a success for circuit breaker
- */
-export function recordCircuitSuccess(serviceId: string): void {
-  const state = circuitBreakers.get(serviceId);
-  if (state) {
-    state.failures = 0;
-    state.isOpen = false;
-    state.halfOpenAttempts = 0;
-  }
-}
-
-/**
- * Record a failure for circuit breaker
- */
-export function recordCircuitFailure(serviceId: string): void {
-  let state = circuitBreakers.get(serviceId);
-
-  if (!state) {
-    state = { failures: 0, lastFailure: 0, isOpen: false, halfOpenAttempts: 0 };
-    circuitBreakers.set(serviceId, state);
-  }
-
-  state.failures++;
-  state.lastFailure = Date.now();
-
-  if (state.failures >= CIRCUIT_CONFIG.failureThreshold) {
-    state.isOpen = true;
-    console.warn(`[CircuitBreaker] Circuit opened for ${serviceId} after ${state.failures} failures`);
-  }
-}
-
-/**
- * Execute a function with circuit breaker protection
- */
-export async function withCircuitBreaker<T>(
-  serviceId: string,
-  fn: () => Promise<T>,
-  fallback?: () => T | Promise<T>
-): Promise<T> {
-  if (!isCircuitClosed(serviceId)) {
-    console.warn(`[CircuitBreaker] Circuit is open for ${serviceId}`);
-    if (fallback) {
-      return fallback();
-    }
-    throw new Error(`Service ${serviceId} is temporarily unavailable (circuit open)`);
-  }
-
-  try {
-    const result = await fn();
-    recordCircuitSuccess(serviceId);
-    return result;
-  } catch (error) {
-    recordCircuitFailure(serviceId);
-    throw error;
-  }
-}
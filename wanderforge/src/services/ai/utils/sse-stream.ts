@@ -0,0 +1,101 @@
+// SSE Stream Reader - consume server-sent events from a fetch Response
+// Gemini (alt=sse) and the OpenAI-compatible APIs (Groq, OpenRouter) all stream this way.
+import type { LLMProviderName, LLMStreamChunk, LLMStreamOptions } from '../types';
+import { parsePartialJSON } from './partial-json';
+
+// A stream with no bytes for this long is treated as dead so fallback can kick in
+const STREAM_IDLE_TIMEOUT_MS = 20000;
+
+/**
+ * Read `data:` payloads from an SSE response until the stream ends or sends [DONE]
+ */
+export async function readSSE(
+  response: Response,
+  onData: (data: string) => void,
+  idleTimeoutMs: number = STREAM_IDLE_TIMEOUT_MS
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming not supported: response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const readWithTimeout = (): Promise<ReadableStreamReadResult<Uint8Array>> => {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Stream stalled for ${idleTimeoutMs}ms`)), idleTimeoutMs);
+    });
+    return Promise.race([reader.read(), timeout]).finally(() => clearTimeout(timer));
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await readWithTimeout();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.substring(5).trimStart())
+          .join('\n');
+
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        onData(data);
+      }
+    }
+  } catch (error) {
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Accumulate text deltas from an SSE completion, reporting chunks (with partial JSON) as they arrive.
+ * Returns the full text once the stream completes.
+ */
+export async function collectStreamedText<T>(
+  response: Response,
+  provider: LLMProviderName,
+  extractDelta: (event: unknown) => string | undefined,
+  options: LLMStreamOptions<T>
+): Promise<string> {
+  let text = '';
+
+  await readSSE(response, (data) => {
+    let event: unknown;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return; // Keep-alive comments and malformed events are skipped
+    }
+
+    // Surface API errors sent mid-stream instead of waiting for the stall timeout
+    const apiError = (event as { error?: { message?: string } }).error;
+    if (apiError) {
+      throw new Error(`${provider} stream error: ${apiError.message || JSON.stringify(apiError)}`);
+    }
+
+    const delta = extractDelta(event);
+    if (!delta) return;
+
+    text += delta;
+    const chunk: LLMStreamChunk<T> = { provider, delta, text };
+    // Re-parse only when an item may have completed
+    if (/[}\]]/.test(delta)) {
+      chunk.partial = parsePartialJSON<T>(text) ?? undefined;
+    }
+    options.onChunk(chunk);
+  });
+
+  return text;
+}
@@ -0,0 +1,298 @@
+// ============================================================
+// TRIP CHAT - Expenses Service
+// Group expense ledger, seeded from what the chat already agreed
+// ============================================================
+
+import { supabase, isSupabaseConfigured } from '../../lib/supabase';
+import type { ChatExtractionResult, BudgetItem, ExtractedTask } from '../ai/types';
+import { pickTripDateRange } from '../ai/heuristics';
+import { parseMoney, isCurrencyCode, validateExpense } from '../money';
+import type { Expense } from '../money';
+import type { DbChatExpense, ChatExpense, ChatMember } from './types';
+import { findMemberByName } from './chat-groups.service';
+
+// ==================== Constants ====================
+
+// Task wording that says who is paying for a budget line ("Rahul books the hostel")
+const CATEGORY_TASK_KEYWORDS: Record<string, string[]> = {
+  Stay: ['book', 'hostel', 'hotel', 'stay', 'room', 'airbnb', 'homestay'],
+  Transport: ['train', 'bus', 'flight', 'cab', 'ticket', 'car', 'fuel', 'petrol', 'bike'],
+  Food: ['food', 'dinner', 'lunch', 'breakfast', 'restaurant', 'groceries'],
+  Activities: ['ticket', 'activity', 'tour', 'scuba', 'trek', 'guide', 'entry'],
+};
+
+type ExpenseDraft = Omit<ChatExpense, 'id' | 'createdBy' | 'createdAt'>;
+
+// ==================== Formatting ====================
+
+/**
+ * Convert a database row to the UI expense
+ */
+export function formatExpense(db: DbChatExpense): ChatExpense {
+  return {
+    id: db.id,
+    description: db.description,
+    paidBy: db.paid_by,
+    money: { amount: Number(db.amount), currency: isCurrencyCode(db.currency) ? db.currency : 'INR' },
+    splitMode: db.split_mode,
+    splits: db.splits ?? [],
+    category: db.category ?? undefined,
+    day: db.day,
+    source: db.source,
+    sourceItem: db.source_item,
+    createdBy: db.created_by,
+    createdAt: new Date(db.created_at),
+  };
+}
+
+// ==================== Expense CRUD ====================
+
+/**
+ * All live expenses for a group, oldest first
+ */
+export async function getExpenses(groupId: string): Promise<ChatExpense[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_expenses')
+      .select()
+      .eq('group_id', groupId)
+      .eq('is_deleted', false)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return (data as DbChatExpense[]).map(formatExpense);
+  } catch (error) {
+    console.error('[ChatExpenses] Error getting expenses:', error);
+    return [];
+  }
+}
+
+/**
+ * Record an expense. Invalid splits are rejected before they reach the ledger.
+ */
+export async function addExpense(
+  groupId: string,
+  expense: Omit<Expense, 'id'> & Partial<Pick<ChatExpense, 'source' | 'sourceItem'>>,
+  createdBy: string
+): Promise<ChatExpense | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error('[ChatExpenses] Supabase not configured');
+    return null;
+  }
+
+  const errors = validateExpense({ ...expense, id: '' });
+  if (errors.length > 0) {
+    console.warn('[ChatExpenses] Invalid expense:', errors.join('; '));
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_expenses')
+      .insert({
+        group_id: groupId,
+        description: expense.description.trim(),
+        paid_by: expense.paidBy,
+        amount: expense.money.amount,
+        currency: expense.money.currency,
+        split_mode: expense.splitMode,
+        splits: expense.splits,
+        category: expense.category ?? null,
+        day: expense.day ?? null,
+        source: expense.source ?? 'manual',
+        source_item: expense.sourceItem ?? null,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ChatExpenses] Failed to add expense:', error);
+      return null;
+    }
+
+    return formatExpense(data as DbChatExpense);
+  } catch (error) {
+    console.error('[ChatExpenses] Error adding expense:', error);
+    return null;
+  }
+}
+
+/**
+ * Edit an expense (amount, payer, split, day...)
+ */
+export async function updateExpense(expense: ChatExpense): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  const errors = validateExpense(expense);
+  if (errors.length > 0) {
+    console.warn('[ChatExpenses] Invalid expense:', errors.join('; '));
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('chat_expenses')
+      .update({
+        description: expense.description.trim(),
+        paid_by: expense.paidBy,
+        amount: expense.money.amount,
+        currency: expense.money.currency,
+        split_mode: expense.splitMode,
+        splits: expense.splits,
+        category: expense.category ?? null,
+        day: expense.day ?? null,
+      })
+      .eq('id', expense.id);
+
+    if (error) {
+      console.error('[ChatExpenses] Failed to update expense:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ChatExpenses] Error updating expense:', error);
+    return false;
+  }
+}
+
+/**
+ * Soft delete, so an imported item isn't imported again
+ */
+export async function deleteExpense(expenseId: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('chat_expenses')
+      .update({ is_deleted: true })
+      .eq('id', expenseId);
+
+    if (error) {
+      console.error('[ChatExpenses] Failed to delete expense:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ChatExpenses] Error deleting expense:', error);
+    return false;
+  }
+}
+
+// ==================== Seeding from Extraction ====================
+
+function findPayingTask(item: BudgetItem, tasks: ExtractedTask[]): ExtractedTask | undefined {
+  const itemName = item.item.toLowerCase();
+  const keywords = CATEGORY_TASK_KEYWORDS[item.item] ?? [];
+  return tasks.find(task => {
+    if (!task.assignee) return false;
+    const text = task.task.toLowerCase();
+    return text.includes(itemName) || keywords.some(kw => text.includes(kw));
+  });
+}
+
+function tripNights(extraction: ChatExtractionResult): number | null {
+  const range = pickTripDateRange(extraction.dates);
+  if (!range) return null;
+  const nights = Math.round(
+    (new Date(range.endDate).getTime() - new Date(range.startDate).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  return nights > 0 ? nights : null;
+}
+
+/**
+ * Expenses implied by the extracted budget breakdown: the payer is the item's assignee,
+ * or whoever took the matching task ("Priya - book hostel" pays for Stay). Items nobody
+ * is paying for are left out rather than guessed. Split equally among all members.
+ */
+export function draftExpensesFromExtraction(
+  extraction: ChatExtractionResult,
+  members: Pick<ChatMember, 'id' | 'name'>[]
+): ExpenseDraft[] {
+  if (!extraction.budget || members.length === 0) return [];
+
+  const currency = isCurrencyCode(extraction.budget.currency) ? extraction.budget.currency : 'INR';
+  const nights = tripNights(extraction);
+  const drafts: ExpenseDraft[] = [];
+
+  for (const item of extraction.budget.breakdown) {
+    const money = item.money ?? parseMoney(item.amount, currency);
+    if (!money || money.amount <= 0) continue;
+
+    const paidBy = findMemberByName(item.assignee, members)
+      ?? findMemberByName(findPayingTask(item, extraction.tasks)?.assignee, members);
+    if (!paidBy) continue;
+
+    // "₹2,000/night" is for the whole stay
+    const perNight = /\/\s*night/i.test(item.amount);
+    const amount = perNight && nights ? money.amount * nights : money.amount;
+
+    drafts.push({
+      description: perNight && nights ? `${item.item} (${nights} nights)` : item.item,
+      paidBy,
+      money: { amount, currency: money.currency },
+      splitMode: 'equal',
+      splits: members.map(m => ({ memberId: m.id })),
+      category: item.item,
+      day: null,
+      source: 'extracted',
+      sourceItem: `${item.item}: ${item.amount}`,
+    });
+  }
+
+  return drafts;
+}
+
+/**
+ * Add the extraction's expenses to the ledger, skipping items already imported
+ * (including ones someone imported and then deleted)
+ */
+export async function importExtractedExpenses(
+  groupId: string,
+  extraction: ChatExtractionResult,
+  members: Pick<ChatMember, 'id' | 'name'>[],
+  createdBy: string
+): Promise<ChatExpense[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  const drafts = draftExpensesFromExtraction(extraction, members);
+  if (drafts.length === 0) return [];
+
+  try {
+    const { data } = await supabase
+      .from('chat_expenses')
+      .select('source_item')
+      .eq('group_id', groupId)
+      .eq('source', 'extracted');
+
+    const imported = new Set((data ?? []).map(row => row.source_item as string));
+    const added: ChatExpense[] = [];
+
+    for (const draft of drafts) {
+      if (draft.sourceItem && imported.has(draft.sourceItem)) continue;
+      const expense = await addExpense(groupId, draft, createdBy);
+      if (expense) added.push(expense);
+    }
+
+    console.log(`[ChatExpenses] Imported ${added.length} of ${drafts.length} extracted expenses`);
+    return added;
+  } catch (error) {
+    console.error('[ChatExpenses] Error importing expenses:', error);
+    return [];
+  }
+}
@@ -5,16 +5,21 @@
 
 import { supabase, isSupabaseConfigured } from '../../lib/supabase';
 import { ChatParserPipeline } from '../ai/pipelines/chat-parser.pipeline';
-import type { ChatExtractionResult } from '../ai/types';
+import { createImportedChat } from '../ai/import';
+import { followQuestions } from '../ai/heuristics';
+import type { ChatExtractionResult, ImportedChat } from '../ai/types';
 import type {
+  ChatMessage,
   DbChatMessage,
   DbChatMember,
   DbChatExtractionSnapshot,
   LiveExtractionState,
   ExtractionProgress,
 } from './types';
-import { getAllMessages } from './chat-messages.service';
+import { getAllMessages, getMessagesAfter } from './chat-messages.service';
 import { getGroupMembers } from './chat-groups.service';
+import { applyPollResults, getClosedPollResults } from './chat-polls.service';
+import { syncExtractedTasks } from './chat-tasks.service';
 
 // ==================== Constants ====================
 
@@ -30,6 +35,9 @@ let currentExtraction: LiveExtractionState | null = null;
 let extractionCallback: ((state: LiveExtractionState) => void) | null = null;
 let progressCallback: ((progress: ExtractionProgress) => void) | null = null;
 let pipeline: ChatParserPipeline | null = null;
+// Last message covered by currentExtraction.extraction (drives incremental runs)
+let lastExtractedMessageId: string | null = null;
+let extractedMessageCount = 0;
 
 // ==================== Initialization ====================
 
@@ -54,6 +62,12 @@ export function initExtractionService(
         });
       }
     },
+    // Show dates/places as the model streams them, before the run finishes
+    onPartialResult: (partial) => {
+      if (!currentExtraction?.isExtracting) return;
+      currentExtraction.partialExtraction = partial;
+      emitExtractionState();
+    },
   });
 
   // Reset state
@@ -82,6 +96,8 @@ export function cleanupExtractionService(): void {
   pipeline = null;
   currentExtraction = null;
   lastExtractionTime = 0;
+  lastExtractedMessageId = null;
+  extractedMessageCount = 0;
 }
 
 // ==================== Trigger Extraction ====================
@@ -109,20 +125,40 @@ export function triggerExtraction(groupId: string): void {
 
 /**
  * Force immediate extraction (bypass debounce)
+ * Pass `{ full: true }` to re-read the whole chat instead of only new messages.
  */
-export async function forceExtraction(groupId: string): Promise<void> {
+export async function forceExtraction(
+  groupId: string,
+  options?: { full?: boolean }
+): Promise<void> {
   if (extractionDebounceTimer) {
     clearTimeout(extractionDebounceTimer);
     extractionDebounceTimer = null;
   }
 
-  await performExtraction(groupId);
+  await performExtraction(groupId, options?.full);
+}
+
+/**
+ * Seed incremental state from the latest finalized snapshot (first run after reload)
+ */
+async function loadBaseline(groupId: string): Promise<void> {
+  if (!currentExtraction || currentExtraction.extraction || lastExtractedMessageId) return;
+
+  const snapshot = await getLatestSnapshot(groupId);
+  if (!snapshot?.last_message_id) return;
+
+  currentExtraction.extraction = snapshot.extraction_data;
+  lastExtractedMessageId = snapshot.last_message_id;
+  extractedMessageCount = snapshot.message_count;
+  console.log('[ChatExtraction] Resuming from snapshot', snapshot.id);
 }
 
 /**
  * Perform the actual extraction
+ * Incremental by default: only messages after lastExtractedMessageId are sent to the LLM.
  */
-async function performExtraction(groupId: string): Promise<void> {
+async function performExtraction(groupId: string, full: boolean = false): Promise<void> {
   if (!currentExtraction || !pipeline) return;
 
   // Check cooldown
@@ -132,11 +168,34 @@ async function performExtraction(groupId: string): Promise<void> {
     return;
   }
 
-  // Get messages
-  const messages = await getAllMessages(groupId);
-  if (messages.length < MIN_MESSAGES_FOR_EXTRACTION) {
-    console.log('[ChatExtraction] Skipping - not enough messages');
-    return;
+  if (!full) {
+    await loadBaseline(groupId);
+  }
+
+  const previous = full ? null : currentExtraction.extraction;
+  const incremental = !!previous && !!lastExtractedMessageId;
+
+  // Get messages (only the new ones when we have a baseline)
+  let messages: DbChatMessage[];
+  if (incremental) {
+    const newer = await getMessagesAfter(groupId, lastExtractedMessageId!);
+    if (newer === null) {
+      // Baseline message was deleted - start over
+      lastExtractedMessageId = null;
+      await performExtraction(groupId, true);
+      return;
+    }
+    messages = newer;
+    if (messages.length === 0) {
+      console.log('[ChatExtraction] Skipping - no new messages');
+      return;
+    }
+  } else {
+    messages = await getAllMessages(groupId);
+    if (messages.length < MIN_MESSAGES_FOR_EXTRACTION) {
+      console.log('[ChatExtraction] Skipping - not enough messages');
+      return;
+    }
   }
 
   // Get members for sender names
@@ -144,27 +203,32 @@ async function performExtraction(groupId: string): Promise<void> {
 
   // Update state
   currentExtraction.isExtracting = true;
+  currentExtraction.partialExtraction = null;
   emitExtractionState();
 
   if (progressCallback) {
     progressCallback({
       stage: 'collecting',
       progress: 10,
-      message: 'Collecting messages...',
+      message: incremental ? `Collecting ${messages.length} new messages...` : 'Collecting messages...',
     });
   }
 
   try {
-    // Convert to chat text format
-    const chatText = formatMessagesForExtraction(messages, members);
+    const chat = toImportedChat(messages, members);
 
-    console.log('[ChatExtraction] Extracting from', messages.length, 'messages');
+    console.log('[ChatExtraction] Extracting from', messages.length, incremental ? 'new messages' : 'messages');
 
-    // Run extraction pipeline
-    const result = await pipeline.process(chatText, {
-      enrichPlaces: true,
-      maxPlacesToEnrich: 5,
-    });
+    const options = { enrichPlaces: true, maxPlacesToEnrich: 5 };
+    const extracted = incremental
+      ? await pipeline.processIncremental(previous!, chat, options)
+      : await pipeline.process(chat, options);
+
+    // Closed polls outrank whatever the chat text suggests
+    const result = await withPollResults(groupId, extracted, members);
+
+    extractedMessageCount = incremental ? extractedMessageCount + messages.length : messages.length;
+    lastExtractedMessageId = messages[messages.length - 1].id;
 
     // Calculate overall confidence
     const confidence = calculateConfidence(result);
@@ -190,10 +254,14 @@ async function performExtraction(groupId: string): Promise<void> {
 
     emitExtractionState();
     console.log('[ChatExtraction] Extraction complete, confidence:', confidence);
+
+    // Keep the task board in step; existing tasks are matched, not copied
+    await syncExtractedTasks(groupId, result.tasks, members);
   } catch (error) {
     console.error('[ChatExtraction] Extraction failed:', error);
 
     currentExtraction.isExtracting = false;
+    currentExtraction.partialExtraction = null;
     emitExtractionState();
 
     if (progressCallback) {
@@ -206,6 +274,75 @@ async function performExtraction(groupId: string): Promise<void> {
   }
 }
 
+/**
+ * Apply the group's closed polls to an extraction
+ */
+async function withPollResults(
+  groupId: string,
+  extraction: ChatExtractionResult,
+  members: DbChatMember[]
+): Promise<ChatExtractionResult> {
+  const polls = await getClosedPollResults(groupId);
+  if (polls.length === 0 && !extraction.decisions.some((d) => d.pollId)) {
+    return extraction;
+  }
+  return applyPollResults(extraction, polls, new Map(members.map((m) => [m.id, m.name])));
+}
+
+/**
+ * Re-apply closed polls to the current extraction without re-reading the chat
+ * (a poll was closed or its deadline passed)
+ */
+export async function refreshPollDecisions(groupId: string): Promise<void> {
+  if (!currentExtraction || currentExtraction.isExtracting) return;
+
+  await loadBaseline(groupId);
+  if (!currentExtraction?.extraction) return;
+
+  const members = await getGroupMembers(groupId);
+  const extraction = await withPollResults(groupId, currentExtraction.extraction, members);
+  if (!currentExtraction?.extraction) return;
+
+  currentExtraction = {
+    ...currentExtraction,
+    extraction,
+    confidence: calculateConfidence(extraction),
+  };
+  emitExtractionState();
+}
+
+/**
+ * Check a new chat message against the open questions right away, so an answer
+ * shows up without waiting for the next extraction run
+ */
+export function trackQuestionAnswers(message: ChatMessage): void {
+  const extraction = currentExtraction?.extraction;
+  if (!extraction || message.type !== 'text' || message.isDeleted) return;
+  if (!extraction.openQuestions.some((q) => q.status !== 'resolved')) return;
+
+  const openQuestions = followQuestions(extraction.openQuestions, [
+    {
+      id: message.id,
+      sender: message.senderName,
+      content: message.content,
+      timestamp: message.createdAt.toISOString(),
+      replyTo: message.parentId || undefined,
+    },
+  ]);
+
+  // Questions the message didn't touch keep their candidateAnswers array
+  const changed = openQuestions.some(
+    (q, i) => q.candidateAnswers !== extraction.openQuestions[i].candidateAnswers
+  );
+  if (!changed || !currentExtraction) return;
+
+  currentExtraction = {
+    ...currentExtraction,
+    extraction: { ...extraction, openQuestions },
+  };
+  emitExtractionState();
+}
+
 // ==================== Finalization ====================
 
 /**
@@ -220,17 +357,23 @@ export async function finalizeExtraction(
   }
 
   try {
-    // Get latest message for reference
-    const messages = await getAllMessages(groupId);
-    const lastMessage = messages[messages.length - 1];
+    // Reference the last message the extraction actually covered, so the next
+    // incremental run picks up exactly where this snapshot ends
+    let lastMessageId = lastExtractedMessageId;
+    let messageCount = extractedMessageCount;
+    if (!lastMessageId) {
+      const messages = await getAllMessages(groupId);
+      lastMessageId = messages[messages.length - 1]?.id || null;
+      messageCount = messages.length;
+    }
 
     const { data, error } = await supabase
       .from('chat_extraction_snapshots')
       .insert({
         group_id: groupId,
         extraction_data: currentExtraction.extraction,
-        message_count: messages.length,
-        last_message_id: lastMessage?.id || null,
+        message_count: messageCount,
+        last_message_id: lastMessageId,
         is_finalized: true,
         finalized_by: memberId,
       })
@@ -312,25 +455,26 @@ export async function getAllSnapshots(
 // ==================== Helpers ====================
 
 /**
- * Format messages for extraction pipeline
+ * Convert Trip Chat rows into normalized messages for the extraction pipeline
  */
-function formatMessagesForExtraction(
+function toImportedChat(
   messages: DbChatMessage[],
   members: DbChatMember[]
-): string {
+): ImportedChat {
   const memberMap = new Map(members.map((m) => [m.id, m.name]));
 
-  return messages
-    .filter((m) => m.message_type === 'text' && !m.is_deleted)
-    .map((m) => {
-      const senderName = memberMap.get(m.sender_id) || 'Unknown';
-      const timestamp = new Date(m.created_at).toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-      return `[${timestamp}] ${senderName}: ${m.content}`;
-    })
-    .join('\n');
+  return createImportedChat(
+    messages
+      .filter((m) => m.message_type === 'text' && !m.is_deleted)
+      .map((m) => ({
+        id: m.id,
+        sender: memberMap.get(m.sender_id) || 'Unknown',
+        content: m.content,
+        timestamp: new Date(m.created_at).toISOString(),
+        replyTo: m.parent_id || undefined,
+      })),
+    'trip-chat'
+  );
 }
 
 /**
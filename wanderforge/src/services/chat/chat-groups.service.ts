@@ -371,6 +371,24 @@ export async function getMemberById(memberId: string): Promise<DbChatMember | nu
   }
 }
 
+/**
+ * Match a name from the chat text to a group member's ID
+ */
+export function findMemberByName(
+  name: string | undefined,
+  members: Array<{ id: string; name: string }>
+): string | null {
+  if (!name) return null;
+  const wanted = name.trim().replace(/^@/, '').toLowerCase();
+  const exact = members.find((m) => m.name.trim().toLowerCase() === wanted);
+  if (exact) return exact.id;
+
+  // "Rahul" in the chat, "Rahul Sharma" in the group (or the other way round)
+  const firstName = (full: string) => full.trim().toLowerCase().split(/\s+/)[0];
+  const partial = members.find((m) => firstName(m.name) === firstName(wanted));
+  return partial?.id ?? null;
+}
+
 /**
  * Update member's last read timestamp
  */
@@ -275,6 +275,50 @@ export async function getAllMessages(groupId: string): Promise<DbChatMessage[]>
   }
 }
 
+/**
+ * Get messages created after a reference message (for incremental extraction)
+ * Returns null when the reference message no longer exists.
+ */
+export async function getMessagesAfter(
+  groupId: string,
+  afterId: string
+): Promise<DbChatMessage[] | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data: refMessage } = await supabase
+      .from('chat_messages')
+      .select('created_at')
+      .eq('id', afterId)
+      .single();
+
+    // Reference message gone - caller should fall back to a full run
+    if (!refMessage) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select()
+      .eq('group_id', groupId)
+      .eq('is_deleted', false)
+      .neq('message_type', 'system')
+      .gt('created_at', refMessage.created_at)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data as DbChatMessage[];
+  } catch (error) {
+    console.error('[ChatMessages] Error getting messages after reference:', error);
+    return [];
+  }
+}
+
 // ==================== Reactions ====================
 
 /**
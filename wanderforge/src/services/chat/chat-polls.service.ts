@@ -0,0 +1,602 @@
+// ============================================================
+// TRIP CHAT - Polls Service
+// Structured votes whose results settle decisions outright
+// ============================================================
+
+import { supabase, isSupabaseConfigured } from '../../lib/supabase';
+import type {
+  ChatExtractionResult,
+  ExtractedDate,
+  ExtractedDecision,
+  ExtractedPlace,
+} from '../ai/types';
+import { resolveDateExpression, normalizeExtractedBudget } from '../ai/heuristics';
+import { parseMoney, formatMoney, isCurrencyCode } from '../money';
+import type {
+  DbChatMessage,
+  DbChatPoll,
+  DbChatPollVote,
+  ChatPoll,
+  CreatePollInput,
+  PollOption,
+  PollResult,
+} from './types';
+import { sendMessage } from './chat-messages.service';
+
+// ==================== Constants ====================
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+
+// Same wording the budget extractor treats as per-person
+const PER_PERSON_PATTERN = /per\s*(?:person|head|pax)|each|\/person|\/head|per\s*head/i;
+
+// Never leaves this device, so nobody else can tie an anonymous vote back to its member.
+// Another device gets another key; the server's ballot check keeps it to one vote each.
+const VOTER_SECRET_KEY = 'wanderforge_poll_voter_secret';
+
+// What votePoll did: 'voted-elsewhere' means an anonymous poll this member already voted in
+// from another device (or before clearing this one)
+export type VoteOutcome = 'voted' | 'removed' | 'voted-elsewhere' | 'failed';
+
+// ==================== Voter Keys ====================
+
+function getVoterSecret(): string {
+  let secret = localStorage.getItem(VOTER_SECRET_KEY);
+  if (!secret) {
+    secret = crypto.randomUUID();
+    localStorage.setItem(VOTER_SECRET_KEY, secret);
+  }
+  return secret;
+}
+
+/**
+ * What a member's votes are stored under: their member ID, or in anonymous polls
+ * a hash of the poll, the member and this device's secret
+ */
+export async function getVoterKey(poll: DbChatPoll, memberId: string): Promise<string> {
+  if (!poll.anonymous) return memberId;
+
+  const input = new TextEncoder().encode(`${poll.id}:${memberId}:${getVoterSecret()}`);
+  const digest = await crypto.subtle.digest('SHA-256', input);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ==================== Formatting ====================
+
+/**
+ * A poll is closed once someone closes it or its deadline passes
+ */
+export function isPollClosed(poll: DbChatPoll, now: Date = new Date()): boolean {
+  if (poll.closed_at) return true;
+  return poll.deadline !== null && new Date(poll.deadline).getTime() <= now.getTime();
+}
+
+/**
+ * Convert a database poll and its votes to the UI poll; `voterKey` is the current
+ * member's (see getVoterKey)
+ */
+export function formatPoll(
+  db: DbChatPoll,
+  votes: DbChatPollVote[],
+  voterKey: string
+): ChatPoll {
+  const voters = new Set(votes.map((v) => v.voter_key));
+
+  return {
+    id: db.id,
+    messageId: db.message_id,
+    question: db.question,
+    kind: db.kind,
+    options: db.options.map((option) => {
+      const optionVotes = votes.filter((v) => v.option_id === option.id);
+      return {
+        ...option,
+        votes: optionVotes.length,
+        voterIds: db.anonymous ? [] : optionVotes.flatMap((v) => (v.member_id ? [v.member_id] : [])),
+      };
+    }),
+    multiChoice: db.multi_choice,
+    anonymous: db.anonymous,
+    deadline: db.deadline ? new Date(db.deadline) : null,
+    createdBy: db.created_by,
+    createdAt: new Date(db.created_at),
+    closedAt: db.closed_at ? new Date(db.closed_at) : null,
+    isClosed: isPollClosed(db),
+    totalVoters: voters.size,
+    myVotes: votes.filter((v) => v.voter_key === voterKey).map((v) => v.option_id),
+  };
+}
+
+// ==================== Poll CRUD ====================
+
+/**
+ * Problems with a poll before it is posted; empty when it is fine
+ */
+export function validatePoll(input: CreatePollInput): string[] {
+  const errors: string[] = [];
+  const labels = input.options.map((o) => o.trim()).filter(Boolean);
+
+  if (!input.question.trim()) {
+    errors.push('Please ask a question');
+  }
+  if (labels.length < MIN_OPTIONS) {
+    errors.push(`Add at least ${MIN_OPTIONS} options`);
+  }
+  if (labels.length > MAX_OPTIONS) {
+    errors.push(`Polls can have at most ${MAX_OPTIONS} options`);
+  }
+  if (new Set(labels.map((l) => l.toLowerCase())).size !== labels.length) {
+    errors.push('Options must be different');
+  }
+  if (input.deadline && input.deadline.getTime() <= Date.now()) {
+    errors.push('Deadline must be in the future');
+  }
+
+  return errors;
+}
+
+/**
+ * Post a poll: a 'poll' message in the chat plus the poll row that holds its options
+ */
+export async function createPoll(
+  groupId: string,
+  memberId: string,
+  input: CreatePollInput
+): Promise<{ message: DbChatMessage; poll: ChatPoll } | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error('[ChatPolls] Supabase not configured');
+    return null;
+  }
+
+  const errors = validatePoll(input);
+  if (errors.length > 0) {
+    console.warn('[ChatPolls] Invalid poll:', errors.join('; '));
+    return null;
+  }
+
+  try {
+    const question = input.question.trim();
+    const message = await sendMessage(groupId, memberId, question, 'poll');
+    if (!message) return null;
+
+    const options: PollOption[] = input.options
+      .map((o) => o.trim())
+      .filter(Boolean)
+      .map((label, i) => ({ id: `opt${i + 1}`, label }));
+
+    const { data, error } = await supabase
+      .from('chat_polls')
+      .insert({
+        group_id: groupId,
+        message_id: message.id,
+        question,
+        options,
+        kind: input.kind ?? 'general',
+        multi_choice: input.multiChoice ?? false,
+        anonymous: input.anonymous ?? false,
+        deadline: input.deadline ? input.deadline.toISOString() : null,
+        created_by: memberId,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ChatPolls] Failed to create poll:', error);
+      return null;
+    }
+
+    console.log('[ChatPolls] Created poll:', data.id);
+    const poll = data as DbChatPoll;
+    return { message, poll: formatPoll(poll, [], await getVoterKey(poll, memberId)) };
+  } catch (error) {
+    console.error('[ChatPolls] Error creating poll:', error);
+    return null;
+  }
+}
+
+/**
+ * Polls attached to the given messages, keyed by message ID
+ */
+export async function getPollsForMessages(
+  messageIds: string[],
+  currentMemberId: string
+): Promise<Map<string, ChatPoll>> {
+  const polls = new Map<string, ChatPoll>();
+
+  if (!isSupabaseConfigured() || !supabase || messageIds.length === 0) {
+    return polls;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_polls')
+      .select()
+      .in('message_id', messageIds);
+
+    if (error || !data || data.length === 0) {
+      return polls;
+    }
+
+    const votes = await getVotes((data as DbChatPoll[]).map((p) => p.id));
+    for (const poll of data as DbChatPoll[]) {
+      polls.set(
+        poll.message_id,
+        formatPoll(
+          poll,
+          votes.filter((v) => v.poll_id === poll.id),
+          await getVoterKey(poll, currentMemberId)
+        )
+      );
+    }
+
+    return polls;
+  } catch (error) {
+    console.error('[ChatPolls] Error getting polls:', error);
+    return polls;
+  }
+}
+
+/**
+ * A single poll with its current votes
+ */
+export async function getPoll(pollId: string, currentMemberId: string): Promise<ChatPoll | null> {
+  const result = await getPollResult(pollId);
+  if (!result) return null;
+  return formatPoll(result.poll, result.votes, await getVoterKey(result.poll, currentMemberId));
+}
+
+async function getPollResult(pollId: string): Promise<PollResult | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_polls')
+      .select()
+      .eq('id', pollId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return { poll: data as DbChatPoll, votes: await getVotes([pollId]) };
+  } catch (error) {
+    console.error('[ChatPolls] Error getting poll:', error);
+    return null;
+  }
+}
+
+async function getVotes(pollIds: string[]): Promise<DbChatPollVote[]> {
+  if (!supabase || pollIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('chat_poll_votes')
+    .select()
+    .in('poll_id', pollIds)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) {
+    return [];
+  }
+  return data as DbChatPollVote[];
+}
+
+// ==================== Voting ====================
+
+/**
+ * Vote for an option. Picking your current choice again takes the vote back;
+ * in single-choice polls a new pick replaces the old one. The server does this in one
+ * step (toggle_poll_vote), and in anonymous polls it also holds each member to one ballot.
+ */
+export async function votePoll(
+  pollId: string,
+  memberId: string,
+  optionId: string
+): Promise<VoteOutcome> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return 'failed';
+  }
+
+  try {
+    const result = await getPollResult(pollId);
+    if (!result) return 'failed';
+
+    const { poll } = result;
+    if (isPollClosed(poll)) {
+      console.warn('[ChatPolls] Poll is closed:', pollId);
+      return 'failed';
+    }
+
+    const { data, error } = await supabase.rpc('toggle_poll_vote', {
+      p_poll_id: pollId,
+      p_member_id: memberId,
+      p_voter_key: await getVoterKey(poll, memberId),
+      p_option_id: optionId,
+    });
+
+    if (error) {
+      console.error('[ChatPolls] Failed to vote:', error);
+      return 'failed';
+    }
+
+    switch (data as string) {
+      case 'voted':
+        return 'voted';
+      case 'removed':
+        return 'removed';
+      case 'voted_elsewhere':
+        console.warn('[ChatPolls] Already voted in this poll from another device:', pollId);
+        return 'voted-elsewhere';
+      default:
+        console.warn('[ChatPolls] Vote refused:', data);
+        return 'failed';
+    }
+  } catch (error) {
+    console.error('[ChatPolls] Error voting:', error);
+    return 'failed';
+  }
+}
+
+/**
+ * Close a poll early. Only its creator or a group admin can.
+ */
+export async function closePoll(
+  pollId: string,
+  memberId: string,
+  isAdmin: boolean = false
+): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  try {
+    const result = await getPollResult(pollId);
+    if (!result || result.poll.closed_at) return false;
+
+    if (result.poll.created_by !== memberId && !isAdmin) {
+      console.warn('[ChatPolls] Only the creator or an admin can close a poll');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('chat_polls')
+      .update({ closed_at: new Date().toISOString(), closed_by: memberId })
+      .eq('id', pollId);
+
+    if (error) {
+      console.error('[ChatPolls] Failed to close poll:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ChatPolls] Error closing poll:', error);
+    return false;
+  }
+}
+
+/**
+ * Every closed poll in the group with all of its votes
+ */
+export async function getClosedPollResults(groupId: string): Promise<PollResult[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_polls')
+      .select()
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    const closed = (data as DbChatPoll[]).filter((p) => isPollClosed(p));
+    const votes = await getVotes(closed.map((p) => p.id));
+    return closed.map((poll) => ({
+      poll,
+      votes: votes.filter((v) => v.poll_id === poll.id),
+    }));
+  } catch (error) {
+    console.error('[ChatPolls] Error getting closed polls:', error);
+    return [];
+  }
+}
+
+// ==================== Results ====================
+
+/**
+ * The option with the most votes. Ties and empty polls have no winner.
+ */
+export function pollWinner(result: PollResult): PollOption | null {
+  const counts = result.poll.options.map((option) => ({
+    option,
+    votes: result.votes.filter((v) => v.option_id === option.id).length,
+  }));
+  const top = Math.max(0, ...counts.map((c) => c.votes));
+  if (top === 0) return null;
+
+  const leaders = counts.filter((c) => c.votes === top);
+  return leaders.length === 1 ? leaders[0].option : null;
+}
+
+/**
+ * A closed poll's outcome as a confirmed decision. Participants are exactly the members
+ * who voted and madeBy names who backed the winner. Anonymous polls name nobody: their
+ * ballots, the only record of who voted, stay on the server so they can't be lined up
+ * against the votes.
+ */
+export function pollToDecision(
+  result: PollResult,
+  memberNames: Map<string, string>
+): ExtractedDecision | null {
+  const { poll, votes } = result;
+  if (!isPollClosed(poll)) return null;
+
+  const winner = pollWinner(result);
+  if (!winner) return null;
+
+  const nameOf = (memberId: string | null) => (memberId && memberNames.get(memberId)) ?? 'Unknown';
+  const participants = poll.anonymous ? [] : Array.from(new Set(votes.map((v) => v.member_id))).map(nameOf);
+  const backers = votes.filter((v) => v.option_id === winner.id).map((v) => nameOf(v.member_id));
+
+  return {
+    decision: `${poll.question.replace(/\?+\s*$/, '')}: ${winner.label}`,
+    timestamp: poll.closed_at ?? poll.deadline ?? undefined,
+    participants,
+    madeBy: poll.anonymous ? undefined : backers.join(', '),
+    confirmed: true,
+    confidence: 100,
+    source: 'poll',
+    pollId: poll.id,
+    sources: [{ messageId: poll.message_id, spans: [] }],
+  };
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function applyPlacePoll(
+  places: ExtractedPlace[],
+  result: PollResult,
+  winner: PollOption,
+  memberNames: Map<string, string>
+): ExtractedPlace[] {
+  const winnerVotes = result.votes.filter((v) => v.option_id === winner.id);
+  const losers = result.poll.options.filter((o) => o.id !== winner.id);
+
+  const updated = places.map((place): ExtractedPlace => {
+    if (sameName(place.name, winner.label)) {
+      return { ...place, status: 'confirmed', votes: Math.max(place.votes, winnerVotes.length) };
+    }
+    if (losers.some((o) => sameName(o.label, place.name))) {
+      return { ...place, status: 'rejected' };
+    }
+    return place;
+  });
+
+  if (!updated.some((p) => sameName(p.name, winner.label))) {
+    updated.push({
+      name: winner.label,
+      votes: winnerVotes.length,
+      status: 'confirmed',
+      mentionedBy: result.poll.anonymous
+        ? []
+        : winnerVotes.map((v) => (v.member_id && memberNames.get(v.member_id)) ?? 'Unknown'),
+      source: 'poll',
+      confidence: 100,
+      sources: [{ messageId: result.poll.message_id, spans: [] }],
+    });
+  }
+
+  return updated;
+}
+
+function applyDatesPoll(
+  extraction: ChatExtractionResult,
+  result: PollResult,
+  winner: PollOption
+): ChatExtractionResult {
+  // Every option of a dates poll is a date, even a bare "24th-26th"
+  const resolved = resolveDateExpression(`on ${winner.label}`, new Date(result.poll.created_at));
+  const dates = extraction.dates.map((d): ExtractedDate => ({ ...d, status: 'open' }));
+  const existing = dates.find((d) => sameName(d.date, winner.label));
+
+  if (existing) {
+    existing.status = 'finalized';
+    existing.confidence = 100;
+    if (resolved) {
+      existing.startDate = resolved.startDate;
+      existing.endDate = resolved.endDate;
+    }
+  } else {
+    dates.push({
+      date: winner.label,
+      startDate: resolved?.startDate,
+      endDate: resolved?.endDate,
+      context: result.poll.question,
+      confidence: 100,
+      source: 'poll',
+      status: 'finalized',
+      sources: [{ messageId: result.poll.message_id, spans: [] }],
+    });
+  }
+
+  return { ...extraction, dates };
+}
+
+function applyBudgetPoll(
+  extraction: ChatExtractionResult,
+  result: PollResult,
+  winner: PollOption,
+  members: number
+): ChatExtractionResult {
+  const current = extraction.budget;
+  const fallback = current && isCurrencyCode(current.currency) ? current.currency : 'INR';
+  const money = parseMoney(winner.label, fallback);
+  if (!money) return extraction;
+
+  const budget = normalizeExtractedBudget(
+    {
+      breakdown: [],
+      ...current,
+      total: formatMoney(money, { compact: false }),
+      currency: money.currency,
+      money,
+      perPerson: PER_PERSON_PATTERN.test(winner.label) || (current?.perPerson ?? false),
+      proposals: undefined,
+      status: 'finalized',
+      confidence: 100,
+      source: 'poll',
+      sources: [{ messageId: result.poll.message_id, spans: [] }],
+    },
+    members
+  );
+
+  return { ...extraction, budget };
+}
+
+/**
+ * Fold closed polls into an extraction. Each winning poll becomes a confirmed decision,
+ * and place, date and budget polls settle those items directly. Safe to run again after
+ * every extraction: decisions from earlier runs are replaced, not duplicated.
+ */
+export function applyPollResults(
+  extraction: ChatExtractionResult,
+  results: PollResult[],
+  memberNames: Map<string, string>
+): ChatExtractionResult {
+  let updated: ChatExtractionResult = {
+    ...extraction,
+    decisions: extraction.decisions.filter((d) => !d.pollId),
+  };
+
+  for (const result of results) {
+    const decision = pollToDecision(result, memberNames);
+    const winner = pollWinner(result);
+    if (!decision || !winner) continue;
+
+    switch (result.poll.kind) {
+      case 'place':
+        updated = { ...updated, places: applyPlacePoll(updated.places, result, winner, memberNames) };
+        break;
+      case 'dates':
+        updated = applyDatesPoll(updated, result, winner);
+        break;
+      case 'budget':
+        updated = applyBudgetPoll(updated, result, winner, Math.max(1, memberNames.size));
+        break;
+    }
+
+    updated.decisions = [...updated.decisions, decision];
+  }
+
+  return updated;
+}
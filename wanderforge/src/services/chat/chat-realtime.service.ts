@@ -9,6 +9,9 @@ import type {
   DbChatMessage,
   DbChatMember,
   DbChatReaction,
+  DbChatPoll,
+  DbChatPollVote,
+  DbChatTask,
   ChatSession,
   ChatMember,
   TypingEvent,
@@ -22,6 +25,8 @@ let messagesChannel: RealtimeChannel | null = null;
 let membersChannel: RealtimeChannel | null = null;
 let reactionsChannel: RealtimeChannel | null = null;
 let typingChannel: RealtimeChannel | null = null;
+let pollsChannel: RealtimeChannel | null = null;
+let tasksChannel: RealtimeChannel | null = null;
 
 // Callbacks
 let onMessageInsert: ((message: DbChatMessage) => void) | null = null;
@@ -31,6 +36,8 @@ let onMemberJoin: ((member: DbChatMember) => void) | null = null;
 let onMemberLeave: ((memberId: string) => void) | null = null;
 let onReactionChange: ((reaction: DbChatReaction, type: 'add' | 'remove') => void) | null = null;
 let onTypingChange: ((event: TypingEvent) => void) | null = null;
+let onPollChange: ((pollId: string) => void) | null = null;
+let onTaskChange: ((task: DbChatTask) => void) | null = null;
 
 // Typing state
 let typingTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -87,6 +94,8 @@ export async function startChatSession(
     await subscribeToMembers(groupId);
     await subscribeToReactions(groupId);
     await subscribeToTyping(groupId, memberId);
+    await subscribeToPolls(groupId);
+    await subscribeToTasks(groupId);
 
     console.log('[ChatRealtime] Session started with', members.size, 'members');
     return currentSession;
@@ -129,6 +138,16 @@ export async function stopChatSession(): Promise<void> {
     typingChannel = null;
   }
 
+  if (pollsChannel) {
+    await pollsChannel.unsubscribe();
+    pollsChannel = null;
+  }
+
+  if (tasksChannel) {
+    await tasksChannel.unsubscribe();
+    tasksChannel = null;
+  }
+
   // Clear session
   currentSession = null;
   onMessageInsert = null;
@@ -138,6 +157,8 @@ export async function stopChatSession(): Promise<void> {
   onMemberLeave = null;
   onReactionChange = null;
   onTypingChange = null;
+  onPollChange = null;
+  onTaskChange = null;
 }
 
 /**
@@ -336,6 +357,79 @@ async function subscribeToTyping(groupId: string, myMemberId: string): Promise<v
     });
 }
 
+/**
+ * Subscribe to poll changes (new polls, closes and votes)
+ */
+async function subscribeToPolls(groupId: string): Promise<void> {
+  if (!supabase) return;
+
+  pollsChannel = supabase
+    .channel(`chat_polls:${groupId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'chat_polls',
+        filter: `group_id=eq.${groupId}`,
+      },
+      (payload) => {
+        console.log('[ChatRealtime] Poll change:', payload.eventType);
+        const poll = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<DbChatPoll>;
+        if (poll.id && onPollChange) {
+          onPollChange(poll.id);
+        }
+      }
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'chat_poll_votes',
+        filter: `group_id=eq.${groupId}`,
+      },
+      (payload) => {
+        console.log('[ChatRealtime] Poll vote change:', payload.eventType);
+        const vote = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<DbChatPollVote>;
+        if (vote.poll_id && onPollChange) {
+          onPollChange(vote.poll_id);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log('[ChatRealtime] Polls channel status:', status);
+    });
+}
+
+/**
+ * Subscribe to task board changes (soft deletes arrive as updates)
+ */
+async function subscribeToTasks(groupId: string): Promise<void> {
+  if (!supabase) return;
+
+  tasksChannel = supabase
+    .channel(`chat_tasks:${groupId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'chat_tasks',
+        filter: `group_id=eq.${groupId}`,
+      },
+      (payload) => {
+        console.log('[ChatRealtime] Task change:', payload.eventType);
+        if (payload.eventType !== 'DELETE' && onTaskChange) {
+          onTaskChange(payload.new as DbChatTask);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log('[ChatRealtime] Tasks channel status:', status);
+    });
+}
+
 // ==================== Event Handlers ====================
 
 /**
@@ -378,6 +472,20 @@ export function onTyping(handler: (event: TypingEvent) => void): void {
   onTypingChange = handler;
 }
 
+/**
+ * Set poll change handler (called with the ID of the poll that changed)
+ */
+export function onPoll(handler: (pollId: string) => void): void {
+  onPollChange = handler;
+}
+
+/**
+ * Set task change handler
+ */
+export function onTask(handler: (task: DbChatTask) => void): void {
+  onTaskChange = handler;
+}
+
 // ==================== Typing Indicator ====================
 
 const TYPING_TIMEOUT = 3000; // 3 seconds
@@ -165,6 +165,7 @@ export async function getRecommendations(
     const response = await llmManager.executeWithFallback<TravelRecommendations>({
       system: 'You are a travel expert assistant for Indian travelers. Always respond with valid JSON only.',
       user: userPrompt,
+      task: 'recommendations',
     });
 
     if (!response.success || !response.data) {
@@ -208,6 +209,7 @@ export async function getQuickTip(placeName: string): Promise<string | null> {
     const response = await llmManager.executeWithFallback<{ tip: string }>({
       system: 'You are a travel expert. Respond with JSON only: {"tip": "your tip here"}',
       user: `Give me ONE useful insider tip for visiting "${placeName}" in India. Keep it under 100 characters. Just the tip, no introduction.`,
+      task: 'recommendations',
     });
     return response.success && response.data?.tip ? response.data.tip : null;
   } catch (error) {
@@ -0,0 +1,583 @@
+// ============================================================
+// TRIP CHAT - Task Board Service
+// Persistent to-dos with claiming, slash commands and reminders
+// ============================================================
+
+import { supabase, isSupabaseConfigured } from '../../lib/supabase';
+import type { ExtractedTask } from '../ai/types';
+import { normalizeKey } from '../ai/pipelines/extraction-merge';
+import { resolveDateExpression } from '../ai/heuristics';
+import type { DbChatTask, ChatTask, ChatTaskStatus, ChatMember } from './types';
+import { findMemberByName } from './chat-groups.service';
+import { sendSystemMessage } from './chat-messages.service';
+
+// ==================== Constants ====================
+
+// Same key length extraction-merge uses to treat two tasks as one
+const TASK_KEY_LENGTH = 40;
+const STATUS_RANK: Record<ChatTaskStatus, number> = { pending: 0, 'in-progress': 1, done: 2 };
+const REMINDER_WINDOW_DAYS = 1; // Remind on the day before and the day itself
+
+type TaskMember = Pick<ChatMember, 'id' | 'name'>;
+
+export type TaskCommand =
+  | { kind: 'add'; title: string; assignee?: string; due?: string }
+  | { kind: 'claim' | 'start' | 'done'; query: string };
+
+export interface TaskCommandResult {
+  handled: boolean; // False when the text isn't a task command at all
+  error?: string; // Shown only to the member who typed the command
+}
+
+export function taskKey(title: string): string {
+  return normalizeKey(title, TASK_KEY_LENGTH);
+}
+
+function toIsoDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Turn an extracted deadline ("tomorrow", "by Friday", "2026-12-01") into a due date
+ */
+export function resolveDueDate(deadline: string | undefined, anchor: Date = new Date()): string | null {
+  if (!deadline) return null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(deadline)) return deadline.slice(0, 10);
+  const text = deadline.trim().replace(/^(?:by|due)\s+/i, '');
+  // Trip dates leave a bare weekday unresolved, but "done by Friday" means the coming one;
+  // a bare day ("24th") is a date here too
+  const phrased = /^(?:mon|tues|wednes|thurs|fri|satur|sun)day\b/i.test(text) ? `this ${text}` : `on ${text}`;
+  return resolveDateExpression(phrased, anchor)?.startDate ?? null;
+}
+
+// ==================== Formatting ====================
+
+/**
+ * Convert a database row to the UI task
+ */
+export function formatTask(db: DbChatTask): ChatTask {
+  return {
+    id: db.id,
+    title: db.title,
+    status: db.status,
+    priority: db.priority,
+    assigneeId: db.assignee_id,
+    assigneeName: db.assignee_name,
+    dueDate: db.due_date,
+    source: db.source,
+    sources: db.sources ?? [],
+    remindedAt: db.reminded_at ? new Date(db.reminded_at) : null,
+    createdBy: db.created_by,
+    createdAt: new Date(db.created_at),
+    completedAt: db.completed_at ? new Date(db.completed_at) : null,
+    completedBy: db.completed_by,
+  };
+}
+
+// ==================== Task CRUD ====================
+
+/**
+ * All live tasks for a group, oldest first
+ */
+export async function getTasks(groupId: string): Promise<ChatTask[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_tasks')
+      .select()
+      .eq('group_id', groupId)
+      .eq('is_deleted', false)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return (data as DbChatTask[]).map(formatTask);
+  } catch (error) {
+    console.error('[ChatTasks] Error getting tasks:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a task by hand. A task with the same wording is returned instead of
+ * a copy (and brought back if it had been deleted).
+ */
+export async function addTask(
+  groupId: string,
+  task: { title: string; assigneeId?: string | null; dueDate?: string | null; priority?: ChatTask['priority'] },
+  createdBy: string
+): Promise<ChatTask | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error('[ChatTasks] Supabase not configured');
+    return null;
+  }
+
+  const title = task.title.trim();
+  const key = taskKey(title);
+  if (!key) return null;
+
+  try {
+    const { data: existing } = await supabase
+      .from('chat_tasks')
+      .select()
+      .eq('group_id', groupId)
+      .eq('task_key', key)
+      .maybeSingle();
+
+    if (existing) {
+      const row = existing as DbChatTask;
+      if (!row.is_deleted) return formatTask(row);
+
+      const { data, error } = await supabase
+        .from('chat_tasks')
+        .update({
+          is_deleted: false,
+          status: 'pending',
+          assignee_id: task.assigneeId ?? null,
+          due_date: task.dueDate ?? null,
+          reminded_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', row.id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('[ChatTasks] Failed to restore task:', error);
+        return null;
+      }
+      return formatTask(data as DbChatTask);
+    }
+
+    const { data, error } = await supabase
+      .from('chat_tasks')
+      .insert({
+        group_id: groupId,
+        title,
+        task_key: key,
+        status: 'pending',
+        priority: task.priority ?? null,
+        assignee_id: task.assigneeId ?? null,
+        assignee_name: null,
+        due_date: task.dueDate ?? null,
+        source: 'manual',
+        sources: null,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ChatTasks] Failed to add task:', error);
+      return null;
+    }
+
+    return formatTask(data as DbChatTask);
+  } catch (error) {
+    console.error('[ChatTasks] Error adding task:', error);
+    return null;
+  }
+}
+
+/**
+ * Edit a task. Moving it to done records who finished it; changing the due date
+ * re-arms its reminder. Renaming keeps the task's key, so the chat wording it was
+ * extracted from still finds it and a title another task has can't collide.
+ */
+export async function updateTask(
+  taskId: string,
+  updates: Partial<Pick<ChatTask, 'title' | 'status' | 'priority' | 'assigneeId' | 'dueDate'>>,
+  memberId: string
+): Promise<ChatTask | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (updates.title !== undefined) row.title = updates.title.trim();
+  if (updates.priority !== undefined) row.priority = updates.priority;
+  if (updates.assigneeId !== undefined) {
+    row.assignee_id = updates.assigneeId;
+    row.assignee_name = null;
+  }
+  if (updates.dueDate !== undefined) {
+    row.due_date = updates.dueDate;
+    row.reminded_at = null;
+  }
+  if (updates.status !== undefined) {
+    row.status = updates.status;
+    row.completed_at = updates.status === 'done' ? new Date().toISOString() : null;
+    row.completed_by = updates.status === 'done' ? memberId : null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_tasks')
+      .update(row)
+      .eq('id', taskId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ChatTasks] Failed to update task:', error);
+      return null;
+    }
+
+    return formatTask(data as DbChatTask);
+  } catch (error) {
+    console.error('[ChatTasks] Error updating task:', error);
+    return null;
+  }
+}
+
+/**
+ * Move a task to another column
+ */
+export async function moveTask(
+  taskId: string,
+  status: ChatTaskStatus,
+  memberId: string
+): Promise<ChatTask | null> {
+  return updateTask(taskId, { status }, memberId);
+}
+
+/**
+ * Take a task on: assign it to yourself and start it
+ */
+export async function claimTask(task: ChatTask, memberId: string): Promise<ChatTask | null> {
+  return updateTask(
+    task.id,
+    { assigneeId: memberId, status: task.status === 'pending' ? 'in-progress' : task.status },
+    memberId
+  );
+}
+
+/**
+ * Soft delete, so re-extraction doesn't bring the task back
+ */
+export async function deleteTask(taskId: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('chat_tasks')
+      .update({ is_deleted: true, updated_at: new Date().toISOString() })
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('[ChatTasks] Failed to delete task:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ChatTasks] Error deleting task:', error);
+    return false;
+  }
+}
+
+// ==================== Seeding from Extraction ====================
+
+/**
+ * When each of the given messages was sent, keyed by message ID
+ */
+async function getMessageTimes(messageIds: string[]): Promise<Map<string, Date>> {
+  const times = new Map<string, Date>();
+  if (!supabase || messageIds.length === 0) return times;
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id, created_at')
+    .in('id', messageIds);
+
+  if (error || !data) {
+    return times;
+  }
+  for (const message of data as Array<{ id: string; created_at: string }>) {
+    times.set(message.id, new Date(message.created_at));
+  }
+  return times;
+}
+
+/**
+ * Put extracted tasks on the board. Tasks already there (same wording, deleted ones
+ * included) aren't copied; they only pick up progress, an assignee or a due date
+ * the board doesn't have yet, so edits made on the board win. Deadlines are read
+ * relative to the message that set them ("by tomorrow" said last week is already due).
+ */
+export async function syncExtractedTasks(
+  groupId: string,
+  tasks: ExtractedTask[],
+  members: TaskMember[]
+): Promise<number> {
+  if (!isSupabaseConfigured() || !supabase || tasks.length === 0) {
+    return 0;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('chat_tasks')
+      .select()
+      .eq('group_id', groupId);
+
+    if (error || !data) {
+      return 0;
+    }
+
+    const existing = new Map((data as DbChatTask[]).map((row) => [row.task_key, row]));
+    const sentAt = await getMessageTimes(
+      Array.from(new Set(tasks.flatMap((t) => (t.deadline && t.sources?.[0] ? [t.sources[0].messageId] : []))))
+    );
+    const inserts = new Map<string, Record<string, unknown>>();
+    let changed = 0;
+
+    for (const task of tasks) {
+      const key = taskKey(task.task);
+      if (!key || inserts.has(key)) continue;
+
+      const assigneeId = findMemberByName(task.assignee, members);
+      const sourceId = task.sources?.[0]?.messageId;
+      const dueDate = resolveDueDate(task.deadline, sourceId ? sentAt.get(sourceId) : undefined);
+      const row = existing.get(key);
+
+      if (!row) {
+        inserts.set(key, {
+          group_id: groupId,
+          title: task.task.trim(),
+          task_key: key,
+          status: task.status,
+          priority: task.priority ?? null,
+          assignee_id: assigneeId,
+          assignee_name: assigneeId ? null : task.assignee ?? null,
+          due_date: dueDate,
+          source: 'extracted',
+          sources: task.sources ?? null,
+          created_by: null,
+        });
+        continue;
+      }
+
+      if (row.is_deleted) continue;
+
+      const update: Record<string, unknown> = {};
+      if (STATUS_RANK[task.status] > STATUS_RANK[row.status]) {
+        update.status = task.status;
+        if (task.status === 'done') update.completed_at = new Date().toISOString();
+      }
+      if (!row.assignee_id && !row.assignee_name && task.assignee) {
+        update.assignee_id = assigneeId;
+        update.assignee_name = assigneeId ? null : task.assignee;
+      }
+      if (!row.due_date && dueDate) update.due_date = dueDate;
+
+      if (Object.keys(update).length > 0) {
+        update.updated_at = new Date().toISOString();
+        const { error: updateError } = await supabase.from('chat_tasks').update(update).eq('id', row.id);
+        if (!updateError) changed++;
+      }
+    }
+
+    if (inserts.size > 0) {
+      // Another member's extraction may have just added the same task
+      const { data: inserted, error: insertError } = await supabase
+        .from('chat_tasks')
+        .upsert(Array.from(inserts.values()), { onConflict: 'group_id,task_key', ignoreDuplicates: true })
+        .select();
+
+      if (insertError) {
+        console.error('[ChatTasks] Failed to add extracted tasks:', insertError);
+      } else {
+        changed += inserted?.length ?? 0;
+      }
+    }
+
+    console.log(`[ChatTasks] Synced ${tasks.length} extracted tasks, ${changed} added or updated`);
+    return changed;
+  } catch (error) {
+    console.error('[ChatTasks] Error syncing extracted tasks:', error);
+    return 0;
+  }
+}
+
+// ==================== Slash Commands ====================
+
+/**
+ * Parse "/task Book hostel @Priya by Friday", "/claim hostel", "/start 2" or "/done hostel"
+ */
+export function parseTaskCommand(content: string): TaskCommand | null {
+  const match = content.trim().match(/^\/(task|todo|claim|start|done)\b\s*(.*)$/is);
+  if (!match) return null;
+
+  const command = match[1].toLowerCase();
+  let rest = match[2].trim();
+
+  if (command === 'task' || command === 'todo') {
+    let due: string | undefined;
+    const dueMatch = rest.match(/\s+(?:by|due)\s+(.+)$/i);
+    if (dueMatch) {
+      due = dueMatch[1].trim();
+      rest = rest.slice(0, dueMatch.index).trim();
+    }
+
+    let assignee: string | undefined;
+    const assigneeMatch = rest.match(/\s+@(\S+)$/);
+    if (assigneeMatch) {
+      assignee = assigneeMatch[1];
+      rest = rest.slice(0, assigneeMatch.index).trim();
+    }
+
+    return { kind: 'add', title: rest, assignee, due };
+  }
+
+  return { kind: command as 'claim' | 'start' | 'done', query: rest };
+}
+
+/**
+ * The open task a command refers to: its number on the board, its exact wording,
+ * or the task sharing the most words with the query
+ */
+export function findTaskByQuery(tasks: ChatTask[], query: string): ChatTask | null {
+  const open = tasks.filter((t) => t.status !== 'done');
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+
+  if (/^#?\d+$/.test(trimmed)) {
+    return open[parseInt(trimmed.replace('#', ''), 10) - 1] ?? null;
+  }
+
+  const key = taskKey(trimmed);
+  const exact = open.find((t) => taskKey(t.title) === key);
+  if (exact) return exact;
+
+  const words = key.split(' ').filter((w) => w.length > 2);
+  let best: ChatTask | null = null;
+  let bestScore = 0;
+  for (const task of open) {
+    const title = taskKey(task.title);
+    const score = words.filter((w) => title.includes(w)).length;
+    if (score > bestScore) {
+      best = task;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Run a task slash command typed in the chat and announce the result to the group
+ */
+export async function runTaskCommand(
+  groupId: string,
+  memberId: string,
+  content: string,
+  tasks: ChatTask[],
+  members: TaskMember[]
+): Promise<TaskCommandResult> {
+  const command = parseTaskCommand(content);
+  if (!command) return { handled: false };
+
+  const me = members.find((m) => m.id === memberId)?.name ?? 'Someone';
+
+  if (command.kind === 'add') {
+    if (!command.title) {
+      return { handled: true, error: 'Usage: /task Book hostel @Priya by Friday' };
+    }
+    const assigneeId = command.assignee ? findMemberByName(command.assignee, members) : null;
+    if (command.assignee && !assigneeId) {
+      return { handled: true, error: `No one called "${command.assignee}" in this group` };
+    }
+    const dueDate = resolveDueDate(command.due);
+    if (command.due && !dueDate) {
+      return { handled: true, error: `Couldn't work out the date "${command.due}"` };
+    }
+
+    const task = await addTask(groupId, { title: command.title, assigneeId, dueDate }, memberId);
+    if (!task) return { handled: true, error: 'Could not add the task' };
+
+    const assignee = members.find((m) => m.id === task.assigneeId)?.name;
+    await sendSystemMessage(
+      groupId,
+      `📋 ${me} added "${task.title}"${assignee ? ` for ${assignee}` : ''}${task.dueDate ? `, due ${task.dueDate}` : ''}`
+    );
+    return { handled: true };
+  }
+
+  const task = findTaskByQuery(tasks, command.query);
+  if (!task) {
+    return { handled: true, error: command.query ? `No open task matches "${command.query}"` : `Usage: /${command.kind} <task>` };
+  }
+
+  const updated =
+    command.kind === 'claim'
+      ? await claimTask(task, memberId)
+      : await moveTask(task.id, command.kind === 'done' ? 'done' : 'in-progress', memberId);
+  if (!updated) return { handled: true, error: 'Could not update the task' };
+
+  const verbs = { claim: 'is taking', start: 'started', done: 'finished' };
+  await sendSystemMessage(groupId, `${command.kind === 'done' ? '✅' : '👉'} ${me} ${verbs[command.kind]} "${task.title}"`);
+  return { handled: true };
+}
+
+// ==================== Reminders ====================
+
+/**
+ * Open tasks due within the reminder window (or overdue) that haven't been reminded
+ */
+export function dueReminders(tasks: ChatTask[], now: Date = new Date()): ChatTask[] {
+  const horizon = new Date(now);
+  horizon.setDate(horizon.getDate() + REMINDER_WINDOW_DAYS);
+  const lastDay = toIsoDay(horizon);
+
+  return tasks.filter((t) => t.status !== 'done' && !t.remindedAt && t.dueDate !== null && t.dueDate <= lastDay);
+}
+
+function reminderText(task: ChatTask, members: TaskMember[], now: Date): string {
+  const today = toIsoDay(now);
+  const when = task.dueDate! < today ? `was due ${task.dueDate}` : task.dueDate === today ? 'is due today' : 'is due tomorrow';
+  const who = members.find((m) => m.id === task.assigneeId)?.name ?? task.assigneeName;
+  return `⏰ "${task.title}" ${when}${who ? ` (${who})` : ' and nobody has claimed it'}`;
+}
+
+/**
+ * Post a reminder for each task coming due. Every member's client runs this, so a
+ * reminder is only sent by whoever marks the task as reminded first.
+ */
+export async function sendDueReminders(
+  groupId: string,
+  tasks: ChatTask[],
+  members: TaskMember[],
+  now: Date = new Date()
+): Promise<number> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return 0;
+  }
+
+  let sent = 0;
+  for (const task of dueReminders(tasks, now)) {
+    try {
+      const { data, error } = await supabase
+        .from('chat_tasks')
+        .update({ reminded_at: now.toISOString() })
+        .eq('id', task.id)
+        .is('reminded_at', null)
+        .select();
+
+      if (error || !data || data.length === 0) continue;
+
+      await sendSystemMessage(groupId, reminderText(task, members, now));
+      sent++;
+    } catch (error) {
+      console.error('[ChatTasks] Error sending reminder:', error);
+    }
+  }
+  return sent;
+}
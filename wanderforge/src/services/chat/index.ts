@@ -18,6 +18,7 @@ export {
   getGroupByCode,
   getGroupMembers,
   getMemberById,
+  findMemberByName,
   updateLastRead,
   updateGroupSettings,
   getMyGroups,
@@ -33,6 +34,7 @@ export {
   getMessages,
   getMessageById,
   getAllMessages,
+  getMessagesAfter,
   addReaction,
   removeReaction,
   getReactions,
@@ -54,6 +56,8 @@ export {
   onMember,
   onReaction,
   onTyping,
+  onPoll,
+  onTask,
   sendTypingIndicator,
   getTypingMembers,
   getSessionMembers,
@@ -86,8 +90,59 @@ export {
   getExtractionState,
   isExtracting,
   getExtractionSummary,
+  refreshPollDecisions,
+  trackQuestionAnswers,
 } from './chat-extraction.service';
 
+// Task Board
+export {
+  taskKey,
+  resolveDueDate,
+  formatTask,
+  getTasks,
+  addTask,
+  updateTask,
+  moveTask,
+  claimTask,
+  deleteTask,
+  syncExtractedTasks,
+  parseTaskCommand,
+  findTaskByQuery,
+  runTaskCommand,
+  dueReminders,
+  sendDueReminders,
+} from './chat-tasks.service';
+export type { TaskCommand, TaskCommandResult } from './chat-tasks.service';
+
+// Polls
+export {
+  isPollClosed,
+  formatPoll,
+  getVoterKey,
+  validatePoll,
+  createPoll,
+  getPoll,
+  getPollsForMessages,
+  votePoll,
+  closePoll,
+  getClosedPollResults,
+  pollWinner,
+  pollToDecision,
+  applyPollResults,
+} from './chat-polls.service';
+export type { VoteOutcome } from './chat-polls.service';
+
+// Expenses
+export {
+  formatExpense,
+  getExpenses,
+  addExpense,
+  updateExpense,
+  deleteExpense,
+  draftExpensesFromExtraction,
+  importExtractedExpenses,
+} from './chat-expenses.service';
+
 // Place Detection
 export {
   detectPlaces,
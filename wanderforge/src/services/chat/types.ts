@@ -3,7 +3,8 @@
 // TypeScript interfaces for real-time group chat with extraction
 // ============================================================
 
-import type { ChatExtractionResult } from '../ai/types';
+import type { ChatExtractionResult, ExtractedTask, MessageReference } from '../ai/types';
+import type { CurrencyCode, Expense, ExpenseSplit, ExpenseSplitMode } from '../money';
 
 // ==================== Database Types ====================
 // These match the Supabase schema for chat tables
@@ -51,7 +52,7 @@ export interface DbChatMessage {
   is_deleted: boolean;
 }
 
-export type MessageType = 'text' | 'image' | 'system' | 'recommendation';
+export type MessageType = 'text' | 'image' | 'system' | 'recommendation' | 'poll';
 
 export interface MediaMetadata {
   width: number;
@@ -88,6 +89,80 @@ export interface DbChatExtractionSnapshot {
   finalized_at: string | null;
 }
 
+export interface DbChatExpense {
+  id: string;
+  group_id: string;
+  description: string;
+  paid_by: string;
+  amount: number;
+  currency: CurrencyCode;
+  split_mode: ExpenseSplitMode;
+  splits: ExpenseSplit[];
+  category: string | null;
+  day: number | null;
+  source: 'manual' | 'extracted';
+  source_item: string | null; // Which extracted budget item this came from
+  created_by: string | null;
+  created_at: string;
+  is_deleted: boolean;
+}
+
+export type PollKind = 'general' | 'place' | 'dates' | 'budget';
+
+export interface PollOption {
+  id: string;
+  label: string;
+}
+
+export interface DbChatPoll {
+  id: string;
+  group_id: string;
+  message_id: string;
+  question: string;
+  options: PollOption[];
+  kind: PollKind; // What a winning option updates in the extraction
+  multi_choice: boolean;
+  anonymous: boolean;
+  deadline: string | null;
+  created_by: string | null;
+  created_at: string;
+  closed_at: string | null;
+  closed_by: string | null;
+}
+
+export interface DbChatPollVote {
+  id: string;
+  poll_id: string;
+  group_id: string;
+  member_id: string | null; // Not stored for anonymous polls
+  voter_key: string; // Dedupes votes: member_id, or a one-way hash in anonymous polls
+  option_id: string;
+  created_at: string;
+}
+
+export type ChatTaskStatus = ExtractedTask['status']; // Kanban columns
+
+export interface DbChatTask {
+  id: string;
+  group_id: string;
+  title: string;
+  task_key: string;
+  status: ChatTaskStatus;
+  priority: ExtractedTask['priority'] | null;
+  assignee_id: string | null;
+  assignee_name: string | null; // Name from the chat when it matches no member
+  due_date: string | null; // YYYY-MM-DD
+  source: 'manual' | 'extracted';
+  sources: MessageReference[] | null;
+  reminded_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  completed_by: string | null;
+  is_deleted: boolean;
+}
+
 // ==================== Insert Types ====================
 // Omit auto-generated fields for inserts
 
@@ -97,6 +172,13 @@ export type ChatMessageInsert = Omit<DbChatMessage, 'id' | 'created_at' | 'edite
 export type ChatReactionInsert = Omit<DbChatReaction, 'id' | 'created_at'>;
 export type ChatReadReceiptInsert = Omit<DbChatReadReceipt, 'id' | 'read_at'>;
 export type ChatExtractionSnapshotInsert = Omit<DbChatExtractionSnapshot, 'id' | 'created_at' | 'finalized_at'>;
+export type ChatExpenseInsert = Omit<DbChatExpense, 'id' | 'created_at' | 'is_deleted'>;
+export type ChatPollInsert = Omit<DbChatPoll, 'id' | 'created_at' | 'closed_at' | 'closed_by'>;
+export type ChatPollVoteInsert = Omit<DbChatPollVote, 'id' | 'created_at'>;
+export type ChatTaskInsert = Omit<
+  DbChatTask,
+  'id' | 'created_at' | 'updated_at' | 'completed_at' | 'completed_by' | 'reminded_at' | 'is_deleted'
+>;
 
 // ==================== UI Types ====================
 // Enhanced types for frontend use
@@ -123,6 +205,7 @@ export interface ChatMessage {
   mediaUrl: string | null;
   mediaMetadata: MediaMetadata | null;
   recommendationData?: RecommendationMessageData | null; // For AI recommendations
+  poll?: ChatPoll | null; // For poll messages
   reactions: MessageReaction[];
   readBy: string[]; // Member IDs who have read this message
   createdAt: Date;
@@ -151,6 +234,67 @@ export interface ChatGroup {
   settings: ChatGroupSettings;
 }
 
+export interface ChatExpense extends Expense {
+  source: 'manual' | 'extracted';
+  sourceItem: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface ChatPollOption extends PollOption {
+  votes: number;
+  voterIds: string[]; // Empty for anonymous polls
+}
+
+export interface ChatPoll {
+  id: string;
+  messageId: string;
+  question: string;
+  kind: PollKind;
+  options: ChatPollOption[];
+  multiChoice: boolean;
+  anonymous: boolean;
+  deadline: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+  closedAt: Date | null;
+  isClosed: boolean; // Closed by hand or past its deadline
+  totalVoters: number;
+  myVotes: string[]; // Option ids the current member picked
+}
+
+export interface ChatTask {
+  id: string;
+  title: string;
+  status: ChatTaskStatus;
+  priority: ExtractedTask['priority'] | null;
+  assigneeId: string | null;
+  assigneeName: string | null;
+  dueDate: string | null;
+  source: 'manual' | 'extracted';
+  sources: MessageReference[];
+  remindedAt: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  completedBy: string | null;
+}
+
+// A poll with every vote, for tallying (votes in anonymous polls carry no member)
+export interface PollResult {
+  poll: DbChatPoll;
+  votes: DbChatPollVote[];
+}
+
+export interface CreatePollInput {
+  question: string;
+  options: string[];
+  kind?: PollKind;
+  multiChoice?: boolean;
+  anonymous?: boolean;
+  deadline?: Date | null;
+}
+
 // ==================== Session Types ====================
 
 export interface ChatSession {
@@ -208,6 +352,7 @@ export interface LiveExtractionState {
   messagesSinceExtraction: number;
   extraction: ChatExtractionResult | null;
   confidence: number;
+  partialExtraction?: ChatExtractionResult | null; // Streaming preview while isExtracting
 }
 
 export interface ExtractionProgress {
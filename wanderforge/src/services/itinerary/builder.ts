@@ -8,18 +8,20 @@ import type {
   Coords,
   PlaceRecommendation,
   ItinerarySummary,
+  TravelInfo,
   TravelMode,
 } from './types';
 import type { PlaceKnowledge, ResearchProgress } from './place-research.types';
+import type { CurrencyCode } from '../money';
+import { convertMoney } from '../money';
 import {
   clusterPlacesByProximity,
   optimizeVisitOrder,
   calculateCentroid,
   getPlaceCoords,
   haversineDistance,
-  TRAVEL_SPEEDS,
-  getDefaultTravelMode,
 } from './route-optimizer';
+import { attachRoadGeometry, getTravel, prefetchTravelMatrices } from './travel-routing';
 import { assignTimeSlots, mapToPlaceCategory } from './time-optimizer';
 import {
   applyFatigueValues,
@@ -35,6 +37,10 @@ import {
 } from './recommendations';
 import { researchPlacesAutoRegion } from './research-pipeline';
 import { generateSmartItinerary } from './smart-builder';
+import { findClosureViolations, isClosedOn, moveClosedPlaces } from './opening-hours';
+import { getTripWeather, swapForRain, weatherTimePreferences, weatherWarnings } from './weather';
+import { DEFAULT_HOLIDAY_REGION } from './holiday-calendar';
+import { pinFixedTimes } from './edit-engine';
 
 /**
  * Calculate number of days between two date strings (inclusive)
@@ -75,17 +81,10 @@ function addMinutesToTime(timeStr: string, minutes: number): string {
 }
 
 /**
- * Calculate travel time between two coordinates
+ * Calculate travel time between two coordinates (road data when prefetched)
  */
-function calculateTravelTime(
-  from: Coords,
-  to: Coords,
-  mode?: TravelMode
-): { distance: number; duration: number; mode: TravelMode } {
-  const distance = haversineDistance(from.lat, from.lng, to.lat, to.lng);
-  const travelMode = mode || getDefaultTravelMode(distance);
-  const duration = Math.ceil((distance / TRAVEL_SPEEDS[travelMode]) * 60);
-  return { distance, duration, mode: travelMode };
+function calculateTravelTime(from: Coords, to: Coords, mode?: TravelMode): TravelInfo {
+  return getTravel(from, to, mode);
 }
 
 /**
@@ -130,6 +129,7 @@ function addTravelSegments(activities: ScheduledActivity[]): ScheduledActivity[]
                 distance: Math.round(travel.distance * 100) / 100,
                 duration: travel.duration,
                 mode: travel.mode,
+                source: travel.source,
               },
             });
           }
@@ -177,7 +177,7 @@ function calculateTravelDistance(activities: ScheduledActivity[]): number {
  * Fixed cost estimation with proper defaults
  */
 function estimateActivityCost(activity: ScheduledActivity, budget: ItineraryInput['budget'], numDays: number): number {
-  // Default costs in INR when no budget provided
+  // Default costs in INR when no budget provided (converted to the trip currency)
   const DEFAULT_COSTS: Record<string, number> = {
     accommodation: 2000,
     restaurant: 400,
@@ -192,6 +192,9 @@ function estimateActivityCost(activity: ScheduledActivity, budget: ItineraryInpu
     rest: 0,
   };
 
+  const defaultCost = (key: string): number =>
+    Math.round(convertMoney({ amount: DEFAULT_COSTS[key] ?? 0, currency: 'INR' }, budget?.currency ?? 'INR').amount);
+
   // For travel and rest, always return 0
   if (activity.type === 'travel' || activity.type === 'rest') {
     return 0;
@@ -200,17 +203,17 @@ function estimateActivityCost(activity: ScheduledActivity, budget: ItineraryInpu
   // For meals
   if (activity.type === 'meal') {
     if (budget) {
-      const dailyBudget = budget.total / Math.max(1, numDays);
+      const dailyBudget = budget.perPersonTotal / Math.max(1, numDays);
       return Math.round(dailyBudget * 0.1); // 10% per meal
     }
-    return DEFAULT_COSTS.meal;
+    return defaultCost('meal');
   }
 
   // For visits
   const category = mapToPlaceCategory(activity.place);
 
-  if (budget && budget.total > 0) {
-    const dailyBudget = budget.total / Math.max(1, numDays);
+  if (budget && budget.perPersonTotal > 0) {
+    const dailyBudget = budget.perPersonTotal / Math.max(1, numDays);
     const costRatios: Record<string, number> = {
       accommodation: 0.35,
       restaurant: 0.1,
@@ -225,7 +228,7 @@ function estimateActivityCost(activity: ScheduledActivity, budget: ItineraryInpu
     return Math.round(dailyBudget * ratio);
   }
 
-  return DEFAULT_COSTS[category] ?? 0;
+  return defaultCost(category);
 }
 
 /**
@@ -238,7 +241,7 @@ function applyCostEstimates(
 ): ScheduledActivity[] {
   return activities.map(a => ({
     ...a,
-    estimatedCost: estimateActivityCost(a, budget, numDays),
+    estimatedCost: { amount: estimateActivityCost(a, budget, numDays), currency: budget?.currency ?? 'INR' },
   }));
 }
 
@@ -346,7 +349,7 @@ function distributeAcrossDays(
 /**
  * Calculate summary statistics
  */
-function calculateSummary(days: DayItinerary[], route: Coords[]): ItinerarySummary {
+function calculateSummary(days: DayItinerary[], route: Coords[], currency: CurrencyCode): ItinerarySummary {
   const totalDays = days.length;
   const totalCost = days.reduce((sum, d) => sum + (d.totalCost || 0), 0);
   const placesVisited = days.reduce(
@@ -373,6 +376,7 @@ function calculateSummary(days: DayItinerary[], route: Coords[]): ItinerarySumma
   return {
     totalDays,
     totalCost,
+    currency,
     placesVisited,
     distanceTraveled,
     averageFatiguePerDay,
@@ -411,6 +415,7 @@ export async function generateItinerary(
       summary: {
         totalDays: numDays,
         totalCost: 0,
+        currency: input.budget?.currency ?? 'INR',
         placesVisited: 0,
         distanceTraveled: 0,
         averageFatiguePerDay: 0,
@@ -420,6 +425,9 @@ export async function generateItinerary(
     };
   }
 
+  // Road distances for everything below (short hops by bike, longer ones by car)
+  await prefetchTravelMatrices(geoPlaces.map(p => getPlaceCoords(p)!), ['bike', 'car']);
+
   // 3. Distribute places across days (better than clustering for small sets)
   let dayPlaces: ExtractedPlace[][];
 
@@ -437,39 +445,74 @@ export async function generateItinerary(
     dayPlaces.push([]);
   }
 
+  // Keep places off days they're closed (weekly closures, public holidays)
+  const tripDates = dayPlaces.map((_, i) => getDateForDay(input.dates.start, i + 1));
+  const holidayRegion = input.holidayRegion ?? DEFAULT_HOLIDAY_REGION;
+  const hoursOf = (p: ExtractedPlace) => input.stops?.[p.name]?.openingHours;
+  dayPlaces = moveClosedPlaces(dayPlaces, tripDates, hoursOf, holidayRegion);
+  const violations = findClosureViolations(
+    geoPlaces.map(p => ({ name: p.name, openingHours: hoursOf(p) })),
+    tripDates,
+    name => input.stops?.[name]?.mustVisit ?? false,
+    holidayRegion
+  );
+
+  // Weather where each day is spent; wet days trade outdoor places for a dry day's indoor ones
+  const tripCentroid = calculateCentroid(geoPlaces);
+  const weather = await getTripWeather(dayPlaces.map((places, i) => ({
+    date: tripDates[i],
+    point: places.length > 0 ? calculateCentroid(places) : tripCentroid,
+  })));
+  dayPlaces = swapForRain(
+    dayPlaces,
+    weather,
+    mapToPlaceCategory,
+    (place, _from, to) => !isClosedOn(hoursOf(place), tripDates[to], holidayRegion)
+  );
+
   // 4. Optimize visit order within each day (TSP)
   const optimizedDays = dayPlaces.map(places => {
     if (places.length === 0) return [];
-    const route = optimizeVisitOrder(places);
+    const route = optimizeVisitOrder(places, { stops: input.stops, travel: (a, b) => getTravel(a, b, 'bike') });
     return route.places;
   });
 
-  // 5. Assign time slots based on place type
+  // 5. Assign time slots based on place type and the day's weather
   const scheduledDays: DayItinerary[] = optimizedDays.map((places, i) => {
     const dayNumber = i + 1;
-    const activities = places.length > 0 ? assignTimeSlots(places, dayNumber) : [];
+    const activities = places.length > 0
+      ? assignTimeSlots(places, dayNumber, [], {
+          date: tripDates[i],
+          stops: input.stops,
+          holidayRegion,
+          preferences: weatherTimePreferences(weather[i]),
+        })
+      : [];
+    const warnings = weatherWarnings(weather[i]);
 
     return {
       day: dayNumber,
-      date: getDateForDay(input.dates.start, dayNumber),
+      date: tripDates[i],
       activities,
       totalFatigue: 0,
       totalCost: 0,
       travelDistance: 0,
       recommendations: [],
+      ...(weather[i] ? { weather: weather[i] } : {}),
+      ...(warnings.length > 0 ? { weatherWarnings: warnings } : {}),
     };
   });
 
-  // 6. Apply fatigue values to activities
+  // 6. Apply fatigue values to activities (heat makes exposed places harder going)
   const withFatigue = scheduledDays.map(day => ({
     ...day,
-    activities: day.activities.length > 0 ? applyFatigueValues(day.activities) : [],
+    activities: day.activities.length > 0 ? applyFatigueValues(day.activities, DEFAULT_FATIGUE_CONFIG, day.weather) : [],
   }));
 
   // 7. Insert rest breaks where needed
   const withRest = withFatigue.map(day => ({
     ...day,
-    activities: day.activities.length > 0 ? insertRestBreaks(day.activities) : [],
+    activities: day.activities.length > 0 ? insertRestBreaks(day.activities, DEFAULT_FATIGUE_CONFIG, day.weather) : [],
   }));
 
   // 8. Balance fatigue across days
@@ -493,13 +536,13 @@ export async function generateItinerary(
   // 12. Calculate day totals
   const withTotals = withCosts.map(day => ({
     ...day,
-    totalFatigue: calculateDayFatigue(day.activities),
-    totalCost: day.activities.reduce((sum, a) => sum + (a.estimatedCost ?? 0), 0),
+    totalFatigue: calculateDayFatigue(day.activities, DEFAULT_FATIGUE_CONFIG, day.weather),
+    totalCost: day.activities.reduce((sum, a) => sum + (a.estimatedCost?.amount ?? 0), 0),
     travelDistance: calculateTravelDistance(day.activities),
   }));
 
   // 13. Get recommendations for missing categories
-  const centroid = calculateCentroid(geoPlaces);
+  const centroid = tripCentroid;
   const { missing, variety } = getAllRecommendations(geoPlaces);
   const regionalCoverage = checkRegionalCoverage(geoPlaces);
 
@@ -535,18 +578,33 @@ export async function generateItinerary(
     };
   });
 
-  // 14. Build route polyline for map
+  // 14. Road geometry for travel legs, and the route polyline for the map
+  await attachRoadGeometry(withRecommendations);
   const route = buildRoutePolyline(withRecommendations);
 
   // 15. Calculate summary
-  const summary = calculateSummary(withRecommendations, route);
+  const summary = calculateSummary(withRecommendations, route, input.budget?.currency ?? 'INR');
 
-  return {
+  return withCommitments({
     days: withRecommendations,
     route,
     summary,
     generatedAt: new Date().toISOString(),
-  };
+    ...(violations.length > 0 ? { violations } : {}),
+  }, input);
+}
+
+/**
+ * Pin stops that already have a date and time (bookings, imported calendar events)
+ */
+function withCommitments(itinerary: GeneratedItinerary, input: ItineraryInput): GeneratedItinerary {
+  if (!input.stops || !Object.values(input.stops).some(s => s.fixedTime)) return itinerary;
+
+  const result = pinFixedTimes(itinerary, input.stops, input.places);
+  if (result.conflicts.length > 0) {
+    console.warn('[Builder] Fixed-time stops that could not be kept:', result.conflicts);
+  }
+  return result.itinerary;
 }
 
 /**
@@ -593,22 +651,28 @@ export function regenerateDay(
   dayNumber: number,
   places: ExtractedPlace[]
 ): DayItinerary {
+  const existingDay = itinerary.days.find(d => d.day === dayNumber);
+  const weather = existingDay?.weather;
+
   const route = optimizeVisitOrder(places);
-  const activities = assignTimeSlots(route.places, dayNumber);
-  const withFatigue = applyFatigueValues(activities);
-  const withRest = insertRestBreaks(withFatigue);
+  const activities = assignTimeSlots(route.places, dayNumber, [], existingDay && weather ? {
+    date: existingDay.date,
+    preferences: weatherTimePreferences(weather),
+  } : undefined);
+  const withFatigue = applyFatigueValues(activities, DEFAULT_FATIGUE_CONFIG, weather);
+  const withRest = insertRestBreaks(withFatigue, DEFAULT_FATIGUE_CONFIG, weather);
   const withTravel = addTravelSegments(withRest);
 
-  const existingDay = itinerary.days.find(d => d.day === dayNumber);
-
   return {
     day: dayNumber,
     date: existingDay?.date || new Date().toISOString().split('T')[0],
     activities: withTravel,
-    totalFatigue: calculateDayFatigue(withTravel),
+    totalFatigue: calculateDayFatigue(withTravel, DEFAULT_FATIGUE_CONFIG, weather),
     totalCost: 0,
     travelDistance: calculateTravelDistance(withTravel),
     recommendations: existingDay?.recommendations || [],
+    ...(weather ? { weather } : {}),
+    ...(existingDay?.weatherWarnings ? { weatherWarnings: existingDay.weatherWarnings } : {}),
   };
 }
 
@@ -634,13 +698,15 @@ export async function generateItineraryWithResearch(
 
   console.log(`[Builder] Research complete, ${knowledge.length} places researched`);
 
-  // 2. Generate smart itinerary using the knowledge
-  const itinerary = await generateSmartItinerary(
+  // 2. Generate smart itinerary using the knowledge, then pin bookings and imported events
+  const itinerary = withCommitments(await generateSmartItinerary(
     knowledge,
     input.dates,
     input.budget,
-    input.members
-  );
+    input.members,
+    input.intercityLegs,
+    { stops: input.stops, holidayRegion: input.holidayRegion }
+  ), input);
 
   console.log(`[Builder] Itinerary generated: ${itinerary.days.length} days, ${itinerary.summary.placesVisited} visits`);
 
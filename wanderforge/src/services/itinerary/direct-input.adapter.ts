@@ -5,6 +5,9 @@ import type { DirectTripInput, PlaceInput } from './direct-input.types';
 import type { ItineraryInput, PlaceCategory } from './types';
 import type { ExtractedPlace } from '../ai/types';
 import { searchPlace as geocodePlace } from '../ai/search/nominatim.service';
+import { normalizeBudget } from '../money';
+import { parseOpeningHours } from './opening-hours';
+import { holidayRegionFor } from './holiday-calendar';
 
 /**
  * Map PlaceInput type to ExtractedPlace type
@@ -82,12 +85,18 @@ export function adaptDirectInputToItinerary(input: DirectTripInput): ItineraryIn
       start: input.startDate,
       end: input.endDate,
     },
-    budget: {
-      total: input.budget.amount,
-      currency: input.budget.currency,
-      perPerson: input.budget.perPerson,
-    },
+    budget: normalizeBudget(input.budget, input.budget.perPerson, 1),
     members: ['User'], // Single user for direct input
+    stops: Object.fromEntries(
+      input.selectedPlaces
+        .filter(p => p.mustVisit || p.openingHours || p.fixedTime)
+        .map(p => [p.name, {
+          mustVisit: p.mustVisit,
+          openingHours: parseOpeningHours(p.openingHours),
+          ...(p.fixedTime ? { fixedTime: p.fixedTime, visitDuration: p.fixedTime.duration } : {}),
+        }])
+    ),
+    holidayRegion: holidayRegionFor(input.region),
   };
 }
 
@@ -1,14 +1,13 @@
 // Direct Trip Input Types - For the new Trip Planner page
 // Allows users to plan trips directly without chat extraction
 
-import type { Coords, PlaceCategory } from './types';
+import type { Coords, FixedTime, PlaceCategory } from './types';
+import type { Money } from '../money';
 
 /**
  * Budget configuration for the trip
  */
-export interface TripBudget {
-  amount: number;
-  currency: 'INR' | 'USD';
+export interface TripBudget extends Money {
   perPerson: boolean;
 }
 
@@ -33,6 +32,8 @@ export interface PlaceInput {
   mustVisit: boolean;        // User marked as must-visit
   suggestedByAI: boolean;    // Was this suggested by AI?
   confidence?: number;       // AI confidence score (0-100)
+  openingHours?: string;     // OSM opening_hours ("Sa-Th 06:00-18:00; Fr off") or text ("Closed on Mondays")
+  fixedTime?: FixedTime;     // Already booked/scheduled (imported calendar events): kept at this date and time
 }
 
 /**
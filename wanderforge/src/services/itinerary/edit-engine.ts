@@ -0,0 +1,564 @@
+// Edit Engine - apply user edits and re-schedule only the days they touch
+// Each edit returns a new itinerary, so the previous one can go on an undo stack. Affected days get
+// their times, travel legs, fatigue and totals rebuilt around the user's pins ("10:00 sharp"),
+// deadlines ("before sunset"), ordering rules ("after the fort") and locked days.
+import type {
+  ActivityConstraint,
+  Coords,
+  DayItinerary,
+  DayWeather,
+  EditConstraints,
+  GeneratedItinerary,
+  ItineraryEdit,
+  ScheduledActivity,
+  StopConstraint,
+  LegLookup,
+  TimeSlot,
+} from './types';
+import type { ExtractedPlace } from '../ai/types';
+import { getPlaceCoords } from './route-optimizer';
+import { getTravel } from './travel-routing';
+import { calculateActivityFatigue } from './fatigue-scheduler';
+import { getSunTimes } from './sun-times';
+
+const MIN_TRAVEL_MINUTES = 5;  // Shorter hops don't get a travel leg, as in the builder
+const DEFAULT_DAY_START = 8 * 60;
+const DEFAULT_SUNSET = 18 * 60;
+const MAX_HISTORY = 50;
+
+// Meals stay at mealtime when the morning frees up; they only move later
+const MEAL_TIMES: Array<[RegExp, number]> = [
+  [/breakfast/i, 7 * 60 + 30],
+  [/lunch/i, 12 * 60 + 30],
+  [/dinner/i, 19 * 60 + 30],
+];
+
+const NO_CONSTRAINTS: EditConstraints = { lockedDays: [], rules: [] };
+
+export interface EditResult {
+  itinerary: GeneratedItinerary;  // The input itself when the edit was rejected
+  affectedDays: number[];         // Days that were re-scheduled
+  conflicts: string[];            // Rules that couldn't be met, or why the edit was rejected
+}
+
+// ==================== Times ====================
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+function formatTime(minutes: number): string {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+function timeSlotAt(minutes: number): TimeSlot {
+  if (minutes < 12 * 60) return 'morning';
+  if (minutes < 17 * 60) return 'afternoon';
+  if (minutes < 21 * 60) return 'evening';
+  return 'night';
+}
+
+// ==================== Scheduling a Day ====================
+
+function travelActivity(
+  to: ScheduledActivity,
+  from: Coords,
+  coords: Coords,
+  start: number,
+  getLeg: LegLookup
+): ScheduledActivity | null {
+  const travel = getLeg(from, coords);
+  if (travel.duration <= MIN_TRAVEL_MINUTES) return null;
+
+  const activity: ScheduledActivity = {
+    id: `travel-${to.id}`,
+    place: {
+      name: `Travel to ${to.place.name}`,
+      type: 'destination',
+      coordinates: coords,
+      votes: 0,
+      status: 'confirmed',
+      mentionedBy: [],
+      source: 'heuristic',
+      confidence: 100,
+    },
+    day: to.day,
+    timeSlot: timeSlotAt(start),
+    startTime: formatTime(start),
+    endTime: formatTime(start + travel.duration),
+    duration: travel.duration,
+    type: 'travel',
+    travelFromPrev: {
+      distance: Math.round(travel.distance * 100) / 100,
+      duration: travel.duration,
+      mode: travel.mode,
+      source: travel.source,
+      ...(travel.polyline ? { polyline: travel.polyline } : {}),
+    },
+    fatigueImpact: 0,
+  };
+  return { ...activity, fatigueImpact: calculateActivityFatigue(activity) };
+}
+
+function pinnedTime(item: ScheduledActivity, rules: ActivityConstraint[]): number | null {
+  const pin = rules.find(r => r.kind === 'pin' && r.activityId === item.id);
+  if (pin?.kind === 'pin') return toMinutes(pin.startTime);
+  // Trains, buses and flights leave when they leave
+  return item.intercity ? toMinutes(item.startTime) : null;
+}
+
+/**
+ * Lay `items` out in order from the start of the day, with fresh travel legs between places.
+ * Visits are re-rated for fatigue at their new time, since the day's heat depends on it.
+ */
+function layOut(
+  items: ScheduledActivity[],
+  rules: ActivityConstraint[],
+  dayStart: number,
+  getLeg: LegLookup,
+  weather?: DayWeather
+): {
+  activities: ScheduledActivity[];
+  conflicts: string[];
+} {
+  const activities: ScheduledActivity[] = [];
+  const conflicts: string[] = [];
+  let cursor = dayStart;
+  let prevCoords: Coords | null = null;
+
+  for (const item of items) {
+    const coords = getPlaceCoords(item.place);
+    if (prevCoords && coords && !item.intercity) {
+      const travel = travelActivity(item, prevCoords, coords, cursor, getLeg);
+      if (travel) {
+        activities.push(travel);
+        cursor += travel.duration;
+      }
+    }
+
+    let start = cursor;
+    const fixed = pinnedTime(item, rules);
+    if (fixed !== null) {
+      if (fixed < cursor) {
+        conflicts.push(`${item.place.name} is fixed at ${formatTime(fixed)} but can't start before ${formatTime(cursor)}`);
+      }
+      start = Math.max(fixed, cursor);
+    } else if (item.type === 'meal') {
+      const mealTime = MEAL_TIMES.find(([pattern]) => pattern.test(item.place.name))?.[1];
+      if (mealTime !== undefined) start = Math.max(cursor, mealTime);
+    }
+
+    const placed: ScheduledActivity = {
+      ...item,
+      startTime: formatTime(start),
+      endTime: formatTime(start + item.duration),
+      timeSlot: timeSlotAt(start),
+    };
+    activities.push(
+      item.type === 'visit' ? { ...placed, fatigueImpact: calculateActivityFatigue(placed, undefined, weather) } : placed
+    );
+    cursor = start + item.duration;
+    if (coords) prevCoords = coords;
+  }
+
+  return { activities, conflicts };
+}
+
+function deadline(rule: Extract<ActivityConstraint, { kind: 'before' }>, day: DayItinerary, item: ScheduledActivity): {
+  minutes: number;
+  label: string;
+} {
+  if (rule.time !== 'sunset') {
+    return { minutes: toMinutes(rule.time), label: rule.time };
+  }
+  const coords = getPlaceCoords(item.place) ?? day.activities.map(a => getPlaceCoords(a.place)).find(Boolean);
+  const sun = coords ? getSunTimes(coords, day.date) : null;
+  const minutes = sun ? toMinutes(sun.sunset) : DEFAULT_SUNSET;
+  return { minutes, label: `sunset (${formatTime(minutes)})` };
+}
+
+function breaksOrder(items: ScheduledActivity[], rules: ActivityConstraint[]): boolean {
+  return rules.some(r => {
+    if (r.kind !== 'follows') return false;
+    const index = items.findIndex(a => a.id === r.activityId);
+    const after = items.findIndex(a => a.id === r.afterId);
+    return index !== -1 && after !== -1 && index < after;
+  });
+}
+
+/**
+ * Put each "must follow X" activity right after X when it came first
+ */
+function orderForFollows(items: ScheduledActivity[], rules: ActivityConstraint[]): ScheduledActivity[] {
+  const ordered = [...items];
+  // Repeat for chains (A after B after C); a cycle just stops changing after enough passes
+  for (let pass = 0; pass < rules.length && breaksOrder(ordered, rules); pass++) {
+    for (const rule of rules) {
+      if (rule.kind !== 'follows') continue;
+      const index = ordered.findIndex(a => a.id === rule.activityId);
+      const after = ordered.findIndex(a => a.id === rule.afterId);
+      if (index === -1 || after === -1 || index > after) continue;
+      const [item] = ordered.splice(index, 1);
+      ordered.splice(after, 0, item);  // `after` shifted down by one: lands right behind it
+    }
+  }
+  return ordered;
+}
+
+function endOf(activities: ScheduledActivity[], id: string): number {
+  const activity = activities.find(a => a.id === id);
+  return activity ? toMinutes(activity.startTime) + activity.duration : 0;
+}
+
+/**
+ * Re-schedule one day under the rules: times, travel legs, fatigue and totals
+ */
+export function rescheduleDay(
+  day: DayItinerary,
+  rules: ActivityConstraint[] = [],
+  getLeg: LegLookup = getTravel
+): {
+  day: DayItinerary;
+  conflicts: string[];
+} {
+  const dayRules = rules.filter(r => day.activities.some(a => a.id === r.activityId));
+  // A pin earlier than anything on the day (a sunrise visit, an early train) moves the start up
+  const starts = [
+    ...day.activities.map(a => toMinutes(a.startTime)),
+    ...dayRules.flatMap(r => (r.kind === 'pin' ? [toMinutes(r.startTime)] : [])),
+  ];
+  const dayStart = starts.length > 0 ? Math.min(...starts) : DEFAULT_DAY_START;
+
+  // Generated travel legs are rebuilt for the new order; intercity legs stay as booked
+  let items = orderForFollows(day.activities.filter(a => a.type !== 'travel' || a.intercity), dayRules);
+  let { activities, conflicts } = layOut(items, dayRules, dayStart, getLeg, day.weather);
+
+  // A deadline that's missed: move the activity up, as little as possible, without breaking the order rules
+  for (const rule of dayRules) {
+    if (rule.kind !== 'before') continue;
+    const index = items.findIndex(a => a.id === rule.activityId);
+    const { minutes } = deadline(rule, day, items[index]);
+    if (endOf(activities, rule.activityId) <= minutes) continue;
+
+    for (let position = index - 1; position >= 0; position--) {
+      const candidate = [...items];
+      const [item] = candidate.splice(index, 1);
+      candidate.splice(position, 0, item);
+      if (breaksOrder(candidate, dayRules)) continue;
+
+      const attempt = layOut(candidate, dayRules, dayStart, getLeg, day.weather);
+      if (endOf(attempt.activities, rule.activityId) <= minutes && attempt.conflicts.length <= conflicts.length) {
+        items = candidate;
+        ({ activities, conflicts } = attempt);
+        break;
+      }
+    }
+  }
+
+  for (const rule of dayRules) {
+    if (rule.kind !== 'before') continue;
+    const item = activities.find(a => a.id === rule.activityId)!;
+    const { minutes, label } = deadline(rule, day, item);
+    if (endOf(activities, rule.activityId) > minutes) {
+      conflicts.push(`${item.place.name} ends at ${item.endTime}, after ${label}`);
+    }
+  }
+
+  const travelDistance = activities.reduce((sum, a) => sum + (a.type === 'travel' ? a.travelFromPrev?.distance ?? 0 : 0), 0);
+  return {
+    day: {
+      ...day,
+      activities,
+      totalFatigue: activities.reduce((sum, a) => sum + a.fatigueImpact, 0),
+      totalCost: activities.reduce((sum, a) => sum + (a.estimatedCost?.amount ?? 0), 0),
+      travelDistance: Math.round(travelDistance * 100) / 100,
+    },
+    conflicts,
+  };
+}
+
+// ==================== Edits ====================
+
+function findActivity(days: DayItinerary[], activityId: string): { day: DayItinerary; index: number } | null {
+  for (const day of days) {
+    const index = day.activities.findIndex(a => a.id === activityId);
+    if (index !== -1) return { day, index };
+  }
+  return null;
+}
+
+/**
+ * Where an activity goes in a day when no position is given: by its start time
+ */
+function positionByTime(day: DayItinerary, startTime: string): number {
+  const index = day.activities.findIndex(a => a.startTime > startTime);
+  return index === -1 ? day.activities.length : index;
+}
+
+/**
+ * Summary and map route recomputed from the days
+ */
+function withTotals(itinerary: GeneratedItinerary): GeneratedItinerary {
+  const { days } = itinerary;
+  const visits = days.flatMap(d => d.activities.filter(a => a.type === 'visit'));
+
+  return {
+    ...itinerary,
+    route: visits.map(a => getPlaceCoords(a.place)).filter((c): c is Coords => c !== null),
+    summary: {
+      ...itinerary.summary,
+      totalDays: days.length,
+      totalCost: days.reduce((sum, d) => sum + d.totalCost, 0),
+      placesVisited: visits.length,
+      distanceTraveled: Math.round(days.reduce((sum, d) => sum + d.travelDistance, 0) * 10) / 10,
+      averageFatiguePerDay: days.length > 0
+        ? Math.round(days.reduce((sum, d) => sum + d.totalFatigue, 0) / days.length)
+        : 0,
+    },
+  };
+}
+
+/**
+ * Apply one edit and re-schedule the days it touches. Edits that would change a locked
+ * day are rejected: the result carries the unchanged itinerary and the reason.
+ * New travel legs come from `getLeg`, this device's routing cache by default.
+ */
+export function applyEdit(itinerary: GeneratedItinerary, edit: ItineraryEdit, getLeg: LegLookup = getTravel): EditResult {
+  const constraints = itinerary.constraints ?? NO_CONSTRAINTS;
+  const days = itinerary.days.map(d => ({ ...d, activities: [...d.activities] }));
+  const affected = new Set<number>();
+  let rules = constraints.rules;
+
+  const reject = (reason: string): EditResult => ({ itinerary, affectedDays: [], conflicts: [reason] });
+  const lockedDay = (...dayNumbers: number[]) => dayNumbers.find(d => constraints.lockedDays.includes(d));
+
+  switch (edit.type) {
+    case 'lock-day': {
+      const lockedDays = edit.locked
+        ? Array.from(new Set([...constraints.lockedDays, edit.day]))
+        : constraints.lockedDays.filter(d => d !== edit.day);
+      return { itinerary: { ...itinerary, constraints: { ...constraints, lockedDays } }, affectedDays: [], conflicts: [] };
+    }
+
+    case 'move': {
+      const found = findActivity(days, edit.activityId);
+      const target = days.find(d => d.day === edit.toDay);
+      if (!found || !target) return reject('That activity or day is no longer in the itinerary');
+      const locked = lockedDay(found.day.day, target.day);
+      if (locked !== undefined) return reject(`Day ${locked} is locked`);
+
+      const [activity] = found.day.activities.splice(found.index, 1);
+      const moved = { ...activity, day: target.day };
+      const index = edit.index ?? positionByTime(target, moved.startTime);
+      target.activities.splice(Math.max(0, Math.min(index, target.activities.length)), 0, moved);
+      affected.add(found.day.day).add(target.day);
+      break;
+    }
+
+    case 'remove': {
+      const found = findActivity(days, edit.activityId);
+      if (!found) return reject('That activity is no longer in the itinerary');
+      if (lockedDay(found.day.day) !== undefined) return reject(`Day ${found.day.day} is locked`);
+
+      found.day.activities.splice(found.index, 1);
+      rules = rules.filter(r => r.activityId !== edit.activityId && !(r.kind === 'follows' && r.afterId === edit.activityId));
+      affected.add(found.day.day);
+      break;
+    }
+
+    case 'duration': {
+      const found = findActivity(days, edit.activityId);
+      if (!found) return reject('That activity is no longer in the itinerary');
+      if (lockedDay(found.day.day) !== undefined) return reject(`Day ${found.day.day} is locked`);
+
+      const activity = { ...found.day.activities[found.index], duration: Math.max(5, Math.round(edit.duration)) };
+      // Longer visits tire more, and more so in the heat
+      found.day.activities[found.index] = {
+        ...activity,
+        fatigueImpact: calculateActivityFatigue(activity, undefined, found.day.weather),
+      };
+      affected.add(found.day.day);
+      break;
+    }
+
+    case 'constrain': {
+      const rule = edit.constraint;
+      const found = findActivity(days, rule.activityId);
+      if (!found) return reject('That activity is no longer in the itinerary');
+      if (lockedDay(found.day.day) !== undefined) return reject(`Day ${found.day.day} is locked`);
+
+      rules = [...rules.filter(r => !(r.activityId === rule.activityId && r.kind === rule.kind)), rule];
+      affected.add(found.day.day);
+
+      if (rule.kind === 'pin') {
+        // Slot it in where its new time falls
+        const [activity] = found.day.activities.splice(found.index, 1);
+        found.day.activities.splice(positionByTime(found.day, rule.startTime), 0, activity);
+      } else if (rule.kind === 'follows') {
+        const after = findActivity(days, rule.afterId);
+        if (!after) return reject('The activity it should follow is no longer in the itinerary');
+        // Following something on a later day means going to that day
+        if (after.day.day > found.day.day) {
+          if (lockedDay(after.day.day) !== undefined) return reject(`Day ${after.day.day} is locked`);
+          const [activity] = found.day.activities.splice(found.index, 1);
+          after.day.activities.splice(after.index + 1, 0, { ...activity, day: after.day.day });
+          affected.add(after.day.day);
+        }
+      }
+      break;
+    }
+
+    case 'unconstrain': {
+      const found = findActivity(days, edit.activityId);
+      rules = rules.filter(r => !(r.activityId === edit.activityId && r.kind === edit.kind));
+      if (found && lockedDay(found.day.day) === undefined) affected.add(found.day.day);
+      break;
+    }
+  }
+
+  const conflicts: string[] = [];
+  const rescheduled = days.map(day => {
+    if (!affected.has(day.day)) return day;
+    const result = rescheduleDay(day, rules, getLeg);
+    conflicts.push(...result.conflicts.map(c => `Day ${day.day}: ${c}`));
+    return result.day;
+  });
+
+  return {
+    itinerary: withTotals({ ...itinerary, days: rescheduled, constraints: { ...constraints, rules } }),
+    affectedDays: Array.from(affected).sort((a, b) => a - b),
+    conflicts,
+  };
+}
+
+// ==================== Commitments ====================
+
+/**
+ * Put stops that already have a date and time (bookings, imported calendar events) on their
+ * day, at their time, pinned there for later edits. Stops the planner left out are added.
+ */
+export function pinFixedTimes(
+  itinerary: GeneratedItinerary,
+  stops: Record<string, StopConstraint>,
+  places: ExtractedPlace[]
+): EditResult {
+  let current = itinerary;
+  const affected = new Set<number>();
+  const conflicts: string[] = [];
+
+  for (const [name, stop] of Object.entries(stops)) {
+    const fixed = stop.fixedTime;
+    if (!fixed) continue;
+
+    const day = current.days.find(d => d.date.slice(0, 10) === fixed.date);
+    if (!day) {
+      conflicts.push(`${name} is booked for ${fixed.date}, outside the trip dates`);
+      continue;
+    }
+
+    const key = name.toLowerCase();
+    let found = current.days
+      .flatMap(d => d.activities)
+      .find(a => a.type === 'visit' && a.place.name.toLowerCase() === key);
+
+    if (!found) {
+      const place = places.find(p => p.name.toLowerCase() === key) ?? {
+        name,
+        votes: 0,
+        status: 'confirmed' as const,
+        mentionedBy: [],
+        source: 'heuristic' as const,
+        confidence: 100,
+      };
+      const activity: ScheduledActivity = {
+        id: `fixed-${key.replace(/[^a-z0-9]+/g, '-')}`,
+        place,
+        day: day.day,
+        timeSlot: timeSlotAt(toMinutes(fixed.startTime)),
+        startTime: fixed.startTime,
+        endTime: formatTime(toMinutes(fixed.startTime) + fixed.duration),
+        duration: fixed.duration,
+        type: 'visit',
+        fatigueImpact: 0,
+      };
+      found = { ...activity, fatigueImpact: calculateActivityFatigue(activity, undefined, day.weather) };
+      const activities = [...day.activities];
+      activities.splice(positionByTime(day, fixed.startTime), 0, found);
+      current = { ...current, days: current.days.map(d => d.day === day.day ? { ...d, activities } : d) };
+    }
+
+    const edits: ItineraryEdit[] = [
+      ...(found.day !== day.day
+        ? [{ type: 'move' as const, activityId: found.id, toDay: day.day, index: positionByTime(day, fixed.startTime) }]
+        : []),
+      ...(found.duration !== fixed.duration ? [{ type: 'duration' as const, activityId: found.id, duration: fixed.duration }] : []),
+      { type: 'constrain', constraint: { kind: 'pin', activityId: found.id, startTime: fixed.startTime } },
+    ];
+    for (const edit of edits) {
+      const result = applyEdit(current, edit);
+      current = result.itinerary;
+      result.affectedDays.forEach(d => affected.add(d));
+    }
+  }
+
+  // Report what still clashes once every commitment is in place, not along the way
+  const rules = current.constraints?.rules ?? [];
+  for (const day of current.days) {
+    if (!affected.has(day.day)) continue;
+    conflicts.push(...rescheduleDay(day, rules).conflicts.map(c => `Day ${day.day}: ${c}`));
+  }
+
+  return {
+    itinerary: current,
+    affectedDays: Array.from(affected).sort((a, b) => a - b),
+    conflicts,
+  };
+}
+
+// ==================== Undo / Redo ====================
+
+export interface EditHistory {
+  past: GeneratedItinerary[];    // Most recent last
+  future: GeneratedItinerary[];  // Undone edits, most recent last
+}
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], future: [] };
+
+/**
+ * Remember the itinerary as it was before an edit (a new edit drops the redo stack)
+ */
+export function recordEdit(history: EditHistory, previous: GeneratedItinerary): EditHistory {
+  return { past: [...history.past, previous].slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * Step back one edit; null when there is nothing to undo
+ */
+export function undoEdit(
+  history: EditHistory,
+  current: GeneratedItinerary
+): { history: EditHistory; itinerary: GeneratedItinerary } | null {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, current] },
+    itinerary: previous,
+  };
+}
+
+/**
+ * Re-apply the last undone edit; null when there is nothing to redo
+ */
+export function redoEdit(
+  history: EditHistory,
+  current: GeneratedItinerary
+): { history: EditHistory; itinerary: GeneratedItinerary } | null {
+  const next = history.future[history.future.length - 1];
+  if (!next) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(0, -1) },
+    itinerary: next,
+  };
+}
@@ -3,9 +3,11 @@ import type { ExtractedPlace } from '../ai/types';
 import type {
   ScheduledActivity,
   DayItinerary,
+  DayWeather,
   FatigueConfig,
 } from './types';
 import { mapToPlaceCategory } from './time-optimizer';
+import { heatFatigue } from './weather';
 
 // Default fatigue configuration
 export const DEFAULT_FATIGUE_CONFIG: FatigueConfig = {
@@ -25,11 +27,12 @@ export const DEFAULT_FATIGUE_CONFIG: FatigueConfig = {
 };
 
 /**
- * Calculate fatigue impact for a single activity
+ * Calculate fatigue impact for a single activity (more for exposed places on a hot `weather` day)
  */
 export function calculateActivityFatigue(
   activity: ScheduledActivity,
-  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG
+  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG,
+  weather?: DayWeather
 ): number {
   // For meals and rest, use fixed values
   if (activity.type === 'meal') return 10;
@@ -46,7 +49,8 @@ export function calculateActivityFatigue(
   // Scale by duration (base is 60 min)
   const durationFactor = activity.duration / 60;
 
-  return Math.round(baseFatigue * durationFactor);
+  const [hours, minutes] = activity.startTime.split(':').map(Number);
+  return heatFatigue(Math.round(baseFatigue * durationFactor), category, (hours || 0) * 60 + (minutes || 0), weather);
 }
 
 /**
@@ -54,10 +58,11 @@ export function calculateActivityFatigue(
  */
 export function calculateDayFatigue(
   activities: ScheduledActivity[],
-  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG
+  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG,
+  weather?: DayWeather
 ): number {
   return activities.reduce((total, activity) => {
-    return total + calculateActivityFatigue(activity, config);
+    return total + calculateActivityFatigue(activity, config, weather);
   }, 0);
 }
 
@@ -66,11 +71,12 @@ export function calculateDayFatigue(
  */
 export function applyFatigueValues(
   activities: ScheduledActivity[],
-  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG
+  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG,
+  weather?: DayWeather
 ): ScheduledActivity[] {
   return activities.map(activity => ({
     ...activity,
-    fatigueImpact: calculateActivityFatigue(activity, config),
+    fatigueImpact: calculateActivityFatigue(activity, config, weather),
   }));
 }
 
@@ -90,14 +96,15 @@ export function isDayOverBudget(
  */
 export function insertRestBreaks(
   activities: ScheduledActivity[],
-  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG
+  config: FatigueConfig = DEFAULT_FATIGUE_CONFIG,
+  weather?: DayWeather
 ): ScheduledActivity[] {
   const result: ScheduledActivity[] = [];
   let cumulativeFatigue = 0;
   const FATIGUE_THRESHOLD = 70; // Insert rest when reaching 70%
 
   for (const activity of activities) {
-    const activityFatigue = calculateActivityFatigue(activity, config);
+    const activityFatigue = calculateActivityFatigue(activity, config, weather);
 
     // Check if we need a rest break before this activity
     if (cumulativeFatigue >= FATIGUE_THRESHOLD && activity.type === 'visit') {
@@ -143,7 +150,7 @@ export function balanceFatigueAcrossDays(
   const result = [...days];
 
   // Calculate fatigue for each day
-  const dayFatigue = result.map(day => calculateDayFatigue(day.activities, config));
+  const dayFatigue = result.map(day => calculateDayFatigue(day.activities, config, day.weather));
 
   // Check if any day is significantly over budget
   for (let i = 0; i < result.length; i++) {
@@ -168,8 +175,8 @@ export function balanceFatigueAcrossDays(
           result[lighterDayIdx].activities.splice(insertIdx, 0, activityToMove);
 
           // Recalculate fatigue
-          dayFatigue[i] = calculateDayFatigue(result[i].activities, config);
-          dayFatigue[lighterDayIdx] = calculateDayFatigue(result[lighterDayIdx].activities, config);
+          dayFatigue[i] = calculateDayFatigue(result[i].activities, config, result[i].weather);
+          dayFatigue[lighterDayIdx] = calculateDayFatigue(result[lighterDayIdx].activities, config, result[lighterDayIdx].weather);
         }
       }
     }
@@ -210,7 +217,7 @@ export function suggestAdjustments(
   config: FatigueConfig = DEFAULT_FATIGUE_CONFIG
 ): string[] {
   const suggestions: string[] = [];
-  const totalFatigue = calculateDayFatigue(day.activities, config);
+  const totalFatigue = calculateDayFatigue(day.activities, config, day.weather);
 
   if (totalFatigue > config.dailyBudget) {
     const overBy = totalFatigue - config.dailyBudget;
@@ -251,7 +258,7 @@ export function adjustFirstDayFatigue(
   if (days.length === 0) return days;
 
   const firstDay = days[0];
-  const firstDayFatigue = calculateDayFatigue(firstDay.activities, config);
+  const firstDayFatigue = calculateDayFatigue(firstDay.activities, config, firstDay.weather);
 
   // First day budget is 70% of normal (arrival fatigue)
   const firstDayBudget = config.dailyBudget * 0.7;
@@ -285,6 +292,6 @@ export function adjustFirstDayFatigue(
   // Update fatigue totals
   return days.map(day => ({
     ...day,
-    totalFatigue: calculateDayFatigue(day.activities, config),
+    totalFatigue: calculateDayFatigue(day.activities, config, day.weather),
   }));
 }
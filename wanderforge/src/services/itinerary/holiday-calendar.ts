@@ -0,0 +1,106 @@
+// Holiday Calendar - public holidays by region, for places that close (or change hours) on them
+// Regions are ISO 3166-2 codes ("IN-KA"); a region also observes its country's holidays ("IN").
+// Fixed-date holidays are built in. Festivals that follow the lunar calendar (Diwali, Holi, Eid...)
+// move every year, so they are added per year with addHolidays.
+
+export interface PublicHoliday {
+  date: string;   // "MM-DD" every year, or "YYYY-MM-DD" for one year only
+  name: string;
+}
+
+const BUILT_IN_HOLIDAYS: Record<string, PublicHoliday[]> = {
+  'IN': [
+    { date: '01-26', name: 'Republic Day' },
+    { date: '08-15', name: 'Independence Day' },
+    { date: '10-02', name: 'Gandhi Jayanti' },
+  ],
+  'IN-GA': [
+    { date: '05-30', name: 'Goa Statehood Day' },
+    { date: '12-19', name: 'Goa Liberation Day' },
+  ],
+  'IN-KA': [
+    { date: '11-01', name: 'Kannada Rajyotsava' },
+  ],
+  'IN-KL': [
+    { date: '11-01', name: 'Kerala Piravi' },
+  ],
+  'IN-MH': [
+    { date: '05-01', name: 'Maharashtra Day' },
+  ],
+  'IN-RJ': [
+    { date: '03-30', name: 'Rajasthan Day' },
+  ],
+  'IN-TN': [
+    { date: '04-14', name: 'Tamil New Year' },
+  ],
+};
+
+// Place names the planners know, to the region whose holidays apply there
+const REGION_CODES: Record<string, string> = {
+  'goa': 'IN-GA',
+  'hampi': 'IN-KA',
+  'coorg': 'IN-KA',
+  'kodagu': 'IN-KA',
+  'bangalore': 'IN-KA',
+  'bengaluru': 'IN-KA',
+  'mysore': 'IN-KA',
+  'mysuru': 'IN-KA',
+  'gokarna': 'IN-KA',
+  'kerala': 'IN-KL',
+  'mumbai': 'IN-MH',
+  'pune': 'IN-MH',
+  'jaipur': 'IN-RJ',
+  'udaipur': 'IN-RJ',
+  'chennai': 'IN-TN',
+  'delhi': 'IN-DL',
+  'agra': 'IN-UP',
+};
+
+export const DEFAULT_HOLIDAY_REGION = 'IN';
+
+const addedHolidays = new Map<string, PublicHoliday[]>();
+
+/**
+ * Add holidays for a region (e.g. this year's Diwali, or a local festival closure)
+ */
+export function addHolidays(region: string, holidays: PublicHoliday[]): void {
+  const code = region.toUpperCase();
+  addedHolidays.set(code, [...(addedHolidays.get(code) || []), ...holidays]);
+}
+
+/**
+ * The holiday region for a destination name ("Hampi" -> "IN-KA"), or the country default
+ */
+export function holidayRegionFor(destination: string): string {
+  const name = destination.trim().toLowerCase();
+  const match = Object.keys(REGION_CODES).find(key => name.includes(key));
+  return match ? REGION_CODES[match] : DEFAULT_HOLIDAY_REGION;
+}
+
+function regionChain(region: string): string[] {
+  const code = region.toUpperCase();
+  const country = code.split('-')[0];
+  return country === code ? [code] : [country, code];
+}
+
+/**
+ * The public holiday on `date` ("YYYY-MM-DD") in a region, if any
+ */
+export function holidayOn(date: string, region: string = DEFAULT_HOLIDAY_REGION): PublicHoliday | null {
+  const day = date.slice(0, 10);
+  const monthDay = day.slice(5);
+
+  for (const code of regionChain(region)) {
+    const holidays = [...(BUILT_IN_HOLIDAYS[code] || []), ...(addedHolidays.get(code) || [])];
+    const match = holidays.find(h => h.date === day || h.date === monthDay);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Whether `date` is a public holiday in the region
+ */
+export function isPublicHoliday(date: string, region: string = DEFAULT_HOLIDAY_REGION): boolean {
+  return holidayOn(date, region) !== null;
+}
@@ -1,6 +1,19 @@
 // Itinerary Service - Export all modules
 export * from './types';
 export * from './route-optimizer';
+export * from './travel-routing';
+export * from './intercity';
+export * from './opening-hours';
+export * from './holiday-calendar';
+export * from './sun-times';
+export * from './weather';
+export * from './edit-engine';
+export * from './trip-export';
+export * from './trip-import';
+export * from './itinerary-diff';
+export * from './itinerary-documents';
+export * from './itinerary-sync';
+export * from './itinerary-collaboration';
 export * from './time-optimizer';
 export * from './fatigue-scheduler';
 export * from './recommendations';
@@ -0,0 +1,481 @@
+// Intercity Legs - trains, buses and flights between the cities of a multi-city trip
+// Legs come from a local GTFS feed (stops/routes/trips/stop_times, optional calendar) or are
+// entered by hand. Each becomes a travel activity on its day, and that day is marked as a
+// transfer day: sightseeing has to fit before boarding or after arrival.
+import type { CurrencyCode } from '../money';
+import type { Coords, DayItinerary, IntercityLeg, IntercityMode, ScheduledActivity, TimeSlot } from './types';
+import { convertMoney } from '../money';
+import { haversineDistance } from './route-optimizer';
+import { DEFAULT_FATIGUE_CONFIG } from './fatigue-scheduler';
+
+// Minutes to be at the station/airport before departure, and to get out after arrival
+const BOARDING_BUFFER: Record<IntercityMode, number> = { flight: 120, train: 30, bus: 20 };
+const ARRIVAL_BUFFER: Record<IntercityMode, number> = { flight: 45, train: 20, bus: 15 };
+
+/**
+ * Minutes to be at the station/airport before a departure
+ */
+export function boardingBuffer(mode: IntercityMode): number {
+  return BOARDING_BUFFER[mode];
+}
+
+// Relative to road travel: a train berth is restful, a long bus ride isn't
+const FATIGUE_FACTOR: Record<IntercityMode, number> = { flight: 0.6, train: 0.5, bus: 1.2 };
+const FLIGHT_FATIGUE_OVERHEAD = 10;  // Security, boarding, baggage
+
+const GTFS_STOP_RADIUS_KM = 25;  // A city's stations/airport when matching by coordinates
+const DAY_MINUTES = 24 * 60;
+
+// ==================== Times ====================
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::\d{2})?$/;
+
+function toMinutes(time: string): number {
+  const match = time.trim().match(TIME_PATTERN);
+  if (!match) return NaN;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function formatTime(minutes: number): string {
+  const wrapped = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+function timeSlot(minutes: number): TimeSlot {
+  if (minutes < 12 * 60) return 'morning';
+  if (minutes < 17 * 60) return 'afternoon';
+  if (minutes < 21 * 60) return 'evening';
+  return 'night';
+}
+
+function dayOffset(startDate: string, date: string): number {
+  const [y1, m1, d1] = startDate.slice(0, 10).split('-').map(Number);
+  const [y2, m2, d2] = date.slice(0, 10).split('-').map(Number);
+  return Math.round((Date.UTC(y2, m2 - 1, d2) - Date.UTC(y1, m1 - 1, d1)) / 86_400_000);
+}
+
+/**
+ * Minutes from departure to arrival (arrival earlier than departure = next day)
+ */
+export function legDuration(leg: IntercityLeg): number {
+  const departure = toMinutes(leg.departureTime);
+  const arrival = toMinutes(leg.arrivalTime);
+  return arrival >= departure ? arrival - departure : arrival + DAY_MINUTES - departure;
+}
+
+/**
+ * Whether the leg arrives on the day after it departs
+ */
+export function isOvernight(leg: IntercityLeg): boolean {
+  return toMinutes(leg.arrivalTime) < toMinutes(leg.departureTime);
+}
+
+// ==================== Manual Legs ====================
+
+export type IntercityLegInput = Omit<IntercityLeg, 'id' | 'source' | 'bookingReference'> & {
+  bookingReference?: string | null;
+};
+
+/**
+ * Problems with a leg as entered (empty = valid)
+ */
+export function validateIntercityLeg(leg: IntercityLegInput): string[] {
+  const errors: string[] = [];
+  if (!leg.from.name.trim()) errors.push('Where does it leave from?');
+  if (!leg.to.name.trim()) errors.push('Where does it arrive?');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(leg.date)) errors.push('Pick a departure date');
+  if (isNaN(toMinutes(leg.departureTime))) errors.push('Departure time should look like 07:45');
+  if (isNaN(toMinutes(leg.arrivalTime))) errors.push('Arrival time should look like 13:10');
+  if (leg.cost && leg.cost.amount < 0) errors.push('Cost cannot be negative');
+  return errors;
+}
+
+/**
+ * A leg the user typed in; the booking reference stays a placeholder until they add it
+ */
+export function createManualLeg(input: IntercityLegInput): IntercityLeg {
+  return {
+    ...input,
+    id: `intercity-${Math.random().toString(36).substring(2, 9)}`,
+    bookingReference: input.bookingReference?.trim() || null,
+    source: 'manual',
+  };
+}
+
+// ==================== GTFS ====================
+
+export interface GtfsFiles {
+  stops: string;       // stops.txt
+  routes: string;      // routes.txt
+  trips: string;       // trips.txt
+  stopTimes: string;   // stop_times.txt
+  calendar?: string;   // calendar.txt - without it every trip is assumed to run daily
+  agency?: string;     // agency.txt - carrier names
+}
+
+interface GtfsStop {
+  id: string;
+  name: string;
+  coordinates: Coords;
+}
+
+interface GtfsStopTime {
+  stopId: string;
+  sequence: number;
+  arrival: number;    // minutes after the service day's midnight (can exceed 24h)
+  departure: number;
+}
+
+export interface GtfsFeed {
+  stops: Map<string, GtfsStop>;
+  routes: Map<string, { mode: IntercityMode | null; name: string; agencyId: string }>;
+  trips: Map<string, { routeId: string; serviceId: string; shortName: string }>;
+  stopTimes: Map<string, GtfsStopTime[]>;  // by trip, in stop order
+  calendar: Map<string, { weekdays: boolean[]; start: string; end: string }>;  // weekdays[0] = Sunday
+  agencies: Map<string, string>;
+}
+
+/**
+ * Parse CSV text into records keyed by the header row (quoted fields, "" escapes)
+ */
+function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(r => r.some(f => f.trim()));
+  if (!header) return [];
+  const keys = header.map(h => h.trim().replace(/^\uFEFF/, ''));
+  return records.map(r => Object.fromEntries(keys.map((k, i) => [k, (r[i] ?? '').trim()])));
+}
+
+/**
+ * GTFS route_type to an intercity mode (basic and extended types); null for local transit
+ */
+function routeMode(routeType: number): IntercityMode | null {
+  if (routeType === 2 || (routeType >= 100 && routeType < 200)) return 'train';
+  if (routeType === 3 || (routeType >= 200 && routeType < 300) || (routeType >= 700 && routeType < 800)) return 'bus';
+  if (routeType >= 1100 && routeType < 1200) return 'flight';
+  return null;
+}
+
+/**
+ * Index a GTFS feed's text files
+ */
+export function parseGtfsFeed(files: GtfsFiles): GtfsFeed {
+  const stops = new Map(parseCsv(files.stops).map(s => [s.stop_id, {
+    id: s.stop_id,
+    name: s.stop_name,
+    coordinates: { lat: Number(s.stop_lat), lng: Number(s.stop_lon) },
+  }]));
+
+  const routes = new Map(parseCsv(files.routes).map(r => [r.route_id, {
+    mode: routeMode(Number(r.route_type)),
+    name: r.route_short_name || r.route_long_name || r.route_id,
+    agencyId: r.agency_id || '',
+  }]));
+
+  const trips = new Map(parseCsv(files.trips).map(t => [t.trip_id, {
+    routeId: t.route_id,
+    serviceId: t.service_id,
+    shortName: t.trip_short_name || t.trip_headsign || '',
+  }]));
+
+  const stopTimes = new Map<string, GtfsStopTime[]>();
+  for (const st of parseCsv(files.stopTimes)) {
+    const arrival = toMinutes(st.arrival_time || st.departure_time);
+    const departure = toMinutes(st.departure_time || st.arrival_time);
+    if (isNaN(arrival) || isNaN(departure)) continue;  // Untimed intermediate stop
+    const list = stopTimes.get(st.trip_id) || [];
+    list.push({ stopId: st.stop_id, sequence: Number(st.stop_sequence), arrival, departure });
+    stopTimes.set(st.trip_id, list);
+  }
+  stopTimes.forEach(list => list.sort((a, b) => a.sequence - b.sequence));
+
+  const dayColumns = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  const calendar = new Map((files.calendar ? parseCsv(files.calendar) : []).map(c => [c.service_id, {
+    weekdays: dayColumns.map(d => c[d] === '1'),
+    start: c.start_date,
+    end: c.end_date,
+  }]));
+
+  const agencies = new Map((files.agency ? parseCsv(files.agency) : []).map(a => [a.agency_id || '', a.agency_name]));
+
+  return { stops, routes, trips, stopTimes, calendar, agencies };
+}
+
+/**
+ * Load a GTFS feed served as plain files (e.g. unzipped into public/gtfs)
+ */
+export async function loadGtfsFeed(baseUrl: string = '/gtfs'): Promise<GtfsFeed | null> {
+  const base = baseUrl.replace(/\/+$/, '');
+  const read = async (file: string): Promise<string | undefined> => {
+    const response = await fetch(`${base}/${file}`);
+    return response.ok ? response.text() : undefined;
+  };
+
+  try {
+    const [stops, routes, trips, stopTimes, calendar, agency] = await Promise.all(
+      ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt', 'calendar.txt', 'agency.txt'].map(read)
+    );
+    if (!stops || !routes || !trips || !stopTimes) {
+      console.warn('[Intercity] GTFS feed is missing required files at', base);
+      return null;
+    }
+    return parseGtfsFeed({ stops, routes, trips, stopTimes, calendar, agency });
+  } catch (error) {
+    console.error('[Intercity] Failed to load GTFS feed:', error);
+    return null;
+  }
+}
+
+/**
+ * Stops for a city: by name ("Hospet" matches "Hospet Junction") or near coordinates
+ */
+export function findGtfsStops(feed: GtfsFeed, place: { name: string; coordinates?: Coords }): string[] {
+  const name = place.name.trim().toLowerCase();
+  const ids: string[] = [];
+  feed.stops.forEach(stop => {
+    const byName = name.length > 2 && stop.name.toLowerCase().includes(name);
+    const byDistance = place.coordinates && haversineDistance(
+      place.coordinates.lat, place.coordinates.lng, stop.coordinates.lat, stop.coordinates.lng
+    ) <= GTFS_STOP_RADIUS_KM;
+    if (byName || byDistance) ids.push(stop.id);
+  });
+  return ids;
+}
+
+function runsOn(feed: GtfsFeed, serviceId: string, date: string): boolean {
+  const service = feed.calendar.get(serviceId);
+  if (!service) return feed.calendar.size === 0;  // No calendar.txt: assume daily
+  const compact = date.replace(/-/g, '');
+  if (compact < service.start || compact > service.end) return false;
+  const [y, m, d] = date.split('-').map(Number);
+  return service.weekdays[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+}
+
+/**
+ * Direct trains/buses/flights from one city to another on a date, earliest first
+ */
+export function findGtfsConnections(
+  feed: GtfsFeed,
+  from: { name: string; coordinates?: Coords },
+  to: { name: string; coordinates?: Coords },
+  date: string,
+  options?: { after?: string; modes?: IntercityMode[] }
+): IntercityLeg[] {
+  const fromStops = new Set(findGtfsStops(feed, from));
+  const toStops = new Set(findGtfsStops(feed, to));
+  if (fromStops.size === 0 || toStops.size === 0) return [];
+
+  const after = options?.after ? toMinutes(options.after) : 0;
+  const legs: Array<IntercityLeg & { order: number }> = [];
+
+  feed.stopTimes.forEach((times, tripId) => {
+    const trip = feed.trips.get(tripId);
+    const route = trip && feed.routes.get(trip.routeId);
+    if (!trip || !route?.mode) return;
+    if (options?.modes && !options.modes.includes(route.mode)) return;
+    if (!runsOn(feed, trip.serviceId, date)) return;
+
+    const board = times.find(t => fromStops.has(t.stopId));
+    const alight = board && times.find(t => t.sequence > board.sequence && toStops.has(t.stopId));
+    if (!board || !alight || board.departure < after) return;
+    // Departures past midnight belong to the next calendar day
+    if (board.departure >= DAY_MINUTES) return;
+
+    const fromStop = feed.stops.get(board.stopId)!;
+    const toStop = feed.stops.get(alight.stopId)!;
+    legs.push({
+      id: `gtfs-${tripId}-${board.stopId}-${alight.stopId}`,
+      mode: route.mode,
+      from: { name: fromStop.name, coordinates: fromStop.coordinates },
+      to: { name: toStop.name, coordinates: toStop.coordinates },
+      date,
+      departureTime: formatTime(board.departure),
+      arrivalTime: formatTime(alight.arrival),
+      carrier: feed.agencies.get(route.agencyId) || undefined,
+      serviceNumber: trip.shortName || route.name,
+      bookingReference: null,
+      source: 'gtfs',
+      order: board.departure,
+    });
+  });
+
+  return legs
+    .sort((a, b) => a.order - b.order || a.id.localeCompare(b.id))
+    .map(({ order: _order, ...leg }) => leg);
+}
+
+// ==================== Scheduling ====================
+
+/**
+ * The cities of a trip in order and which days are spent in each
+ * (a transfer day belongs to both the city left and the city reached)
+ */
+export function splitTripIntoStays(
+  startDate: string,
+  numDays: number,
+  legs: IntercityLeg[]
+): Array<{ city: IntercityLeg['from']; days: number[]; transferDays: number[] }> {
+  const ordered = [...legs].sort((a, b) =>
+    a.date.localeCompare(b.date) || toMinutes(a.departureTime) - toMinutes(b.departureTime)
+  );
+  const stays: Array<{ city: IntercityLeg['from']; days: number[]; transferDays: number[] }> = [];
+
+  let firstDay = 0;
+  let city = ordered[0]?.from ?? { name: '' };
+  for (const leg of ordered) {
+    const departDay = Math.min(Math.max(dayOffset(startDate, leg.date), 0), numDays - 1);
+    const days = range(firstDay, departDay);
+    stays.push({ city, days, transferDays: days.filter(d => d === firstDay && firstDay > 0 || d === departDay) });
+    firstDay = Math.min(departDay + (isOvernight(leg) ? 1 : 0), numDays - 1);
+    city = leg.to;
+  }
+  const lastDays = range(firstDay, numDays - 1);
+  stays.push({ city, days: lastDays, transferDays: ordered.length > 0 ? [firstDay] : [] });
+
+  return stays;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+}
+
+/**
+ * A leg as a travel activity on the itinerary
+ */
+export function intercityActivity(leg: IntercityLeg, dayNumber: number, currency: CurrencyCode = 'INR'): ScheduledActivity {
+  const duration = legDuration(leg);
+  const departure = toMinutes(leg.departureTime);
+  const distance = leg.from.coordinates && leg.to.coordinates
+    ? haversineDistance(leg.from.coordinates.lat, leg.from.coordinates.lng, leg.to.coordinates.lat, leg.to.coordinates.lng)
+    : 0;
+  const fatigue = Math.round(
+    Math.ceil(duration / 30) * DEFAULT_FATIGUE_CONFIG.travelFatiguePer30Min * FATIGUE_FACTOR[leg.mode] +
+    (leg.mode === 'flight' ? FLIGHT_FATIGUE_OVERHEAD : 0)
+  );
+
+  return {
+    id: `travel-${leg.id}`,
+    place: {
+      name: `${leg.mode === 'flight' ? 'Fly' : leg.mode === 'train' ? 'Train' : 'Bus'} to ${leg.to.name}`,
+      type: 'destination',
+      coordinates: leg.to.coordinates,
+      votes: 0,
+      status: 'confirmed',
+      mentionedBy: [],
+      source: 'heuristic',
+      confidence: 100,
+    },
+    day: dayNumber,
+    timeSlot: timeSlot(departure),
+    startTime: leg.departureTime,
+    endTime: leg.arrivalTime,
+    duration,
+    type: 'travel',
+    travelFromPrev: {
+      distance: Math.round(distance * 10) / 10,
+      duration,
+      mode: leg.mode,
+    },
+    fatigueImpact: fatigue,
+    bestTimeReason: leg.bookingReference ? `Booking ${leg.bookingReference}` : 'Not booked yet',
+    estimatedCost: leg.cost ? convertMoney(leg.cost, currency) : undefined,
+    intercity: leg,
+  };
+}
+
+function overlaps(activity: ScheduledActivity, from: number, to: number): boolean {
+  const start = toMinutes(activity.startTime);
+  const end = start + activity.duration;
+  return start < to && end > from;
+}
+
+/**
+ * Put each leg on its day, clear what clashes with boarding/arrival, and mark transfer days.
+ * Returns new day objects; days without legs are returned as they are.
+ */
+export function scheduleIntercityLegs(
+  days: DayItinerary[],
+  legs: IntercityLeg[],
+  startDate: string,
+  currency: CurrencyCode = 'INR'
+): DayItinerary[] {
+  const result = days.map(day => ({ ...day, activities: [...day.activities] }));
+
+  const removeBetween = (dayIndex: number, from: number, to: number) => {
+    const day = result[dayIndex];
+    if (!day) return;
+    const removed = day.activities.filter(a => !a.intercity && overlaps(a, from, to));
+    day.activities = day.activities.filter(a => !removed.includes(a));
+    day.totalCost -= removed.reduce((sum, a) => sum + (a.estimatedCost?.amount ?? 0), 0);
+    day.totalFatigue -= removed.reduce((sum, a) => sum + Math.max(0, a.fatigueImpact), 0);
+  };
+
+  for (const leg of legs) {
+    const dayIndex = dayOffset(startDate, leg.date);
+    const day = result[dayIndex];
+    if (!day) {
+      console.warn(`[Intercity] ${leg.from.name} → ${leg.to.name} on ${leg.date} is outside the trip dates`);
+      continue;
+    }
+
+    const departure = toMinutes(leg.departureTime);
+    const arrival = toMinutes(leg.arrivalTime);
+    const boardFrom = departure - BOARDING_BUFFER[leg.mode];
+    const freeFrom = arrival + ARRIVAL_BUFFER[leg.mode];
+
+    if (isOvernight(leg)) {
+      removeBetween(dayIndex, boardFrom, DAY_MINUTES * 2);
+      removeBetween(dayIndex + 1, 0, freeFrom);
+      if (result[dayIndex + 1]) {
+        result[dayIndex + 1].transfer = { from: leg.from.name, to: leg.to.name };
+      }
+    } else {
+      removeBetween(dayIndex, boardFrom, freeFrom);
+    }
+
+    const activity = intercityActivity(leg, day.day, currency);
+    const insertAt = day.activities.findIndex(a => toMinutes(a.startTime) > departure);
+    day.activities.splice(insertAt === -1 ? day.activities.length : insertAt, 0, activity);
+    day.totalCost += activity.estimatedCost?.amount ?? 0;
+    day.totalFatigue += activity.fatigueImpact;
+    day.travelDistance = Math.round((day.travelDistance + (activity.travelFromPrev?.distance ?? 0)) * 10) / 10;
+    day.transfer = { from: leg.from.name, to: leg.to.name };
+  }
+
+  return result;
+}
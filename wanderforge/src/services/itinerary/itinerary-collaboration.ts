@@ -0,0 +1,416 @@
+// Itinerary Collaboration - real-time group editing of a saved itinerary
+// Edits go into itinerary_ops and come back to everyone (the author included) in server order;
+// presence shares which day or activity each collaborator is looking at. Every edit also posts
+// a system message to the group chat.
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../../lib/supabase';
+import { sendSystemMessage } from '../chat/chat-messages.service';
+import type {
+  CollaboratorCursor,
+  DbItineraryComment,
+  DbItineraryDocument,
+  DbItineraryOp,
+  GeneratedItinerary,
+  ItineraryEdit,
+} from './types';
+import { describeOp } from './itinerary-sync';
+
+export interface CollaborationMember {
+  memberId: string;
+  name: string;
+  avatar: string;
+}
+
+// ==================== Session State ====================
+
+let session: { documentId: string; groupId: string; me: CollaborationMember } | null = null;
+let opsChannel: RealtimeChannel | null = null;
+let commentsChannel: RealtimeChannel | null = null;
+let documentChannel: RealtimeChannel | null = null;
+let presenceChannel: RealtimeChannel | null = null;
+let myCursor: CollaboratorCursor | null = null;
+
+// Callbacks
+let onOpInsert: ((op: DbItineraryOp) => void) | null = null;
+let onCommentChange: ((comment: DbItineraryComment) => void) | null = null;
+let onVersionChange: ((version: number) => void) | null = null;
+let onCursorsChange: ((cursors: CollaboratorCursor[]) => void) | null = null;
+
+// ==================== Session Management ====================
+
+/**
+ * Join a document's editing session. Resolves once the edit feed is live, so edits fetched
+ * afterwards (getOpsAfter) can't miss any; set the event handlers before calling.
+ */
+export async function startCollaboration(
+  documentId: string,
+  groupId: string,
+  me: CollaborationMember
+): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  if (session) {
+    await closeChannels();
+  }
+
+  console.log('[ItineraryCollab] Joining document:', documentId);
+  session = { documentId, groupId, me };
+  myCursor = { ...me };
+
+  const opsLive = subscribeToOps(documentId);
+  subscribeToComments(documentId);
+  subscribeToDocument(documentId);
+  subscribeToPresence(documentId, me.memberId);
+
+  if (!(await opsLive)) {
+    await stopCollaboration();
+    return false;
+  }
+  return true;
+}
+
+async function closeChannels(): Promise<void> {
+  for (const channel of [opsChannel, commentsChannel, documentChannel, presenceChannel]) {
+    if (channel) await channel.unsubscribe();
+  }
+  opsChannel = null;
+  commentsChannel = null;
+  documentChannel = null;
+  presenceChannel = null;
+}
+
+/**
+ * Leave the editing session
+ */
+export async function stopCollaboration(): Promise<void> {
+  await closeChannels();
+
+  session = null;
+  myCursor = null;
+  onOpInsert = null;
+  onCommentChange = null;
+  onVersionChange = null;
+  onCursorsChange = null;
+}
+
+// ==================== Channel Subscriptions ====================
+
+/**
+ * Resolves true once the channel is subscribed, false if it fails or times out
+ */
+function subscribeToOps(documentId: string): Promise<boolean> {
+  if (!supabase) return Promise.resolve(false);
+
+  let settle: (live: boolean) => void = () => {};
+  const live = new Promise<boolean>((resolve) => {
+    settle = resolve;
+  });
+
+  opsChannel = supabase
+    .channel(`itinerary_ops:${documentId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'itinerary_ops',
+        filter: `document_id=eq.${documentId}`,
+      },
+      (payload) => {
+        if (onOpInsert) {
+          onOpInsert(payload.new as DbItineraryOp);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log('[ItineraryCollab] Ops channel status:', status);
+      if (status === 'SUBSCRIBED') settle(true);
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') settle(false);
+    });
+
+  return live;
+}
+
+function subscribeToComments(documentId: string): void {
+  if (!supabase) return;
+
+  commentsChannel = supabase
+    .channel(`itinerary_comments:${documentId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'itinerary_comments',
+        filter: `document_id=eq.${documentId}`,
+      },
+      (payload) => {
+        if (payload.eventType !== 'DELETE' && onCommentChange) {
+          onCommentChange(payload.new as DbItineraryComment);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log('[ItineraryCollab] Comments channel status:', status);
+    });
+}
+
+/**
+ * A new saved version means everyone rebases onto it
+ */
+function subscribeToDocument(documentId: string): void {
+  if (!supabase) return;
+
+  documentChannel = supabase
+    .channel(`itinerary_documents:${documentId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'itinerary_documents',
+        filter: `id=eq.${documentId}`,
+      },
+      (payload) => {
+        const document = payload.new as DbItineraryDocument;
+        if (onVersionChange) {
+          onVersionChange(document.current_version);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log('[ItineraryCollab] Document channel status:', status);
+    });
+}
+
+function subscribeToPresence(documentId: string, myMemberId: string): void {
+  if (!supabase) return;
+
+  const channel = supabase.channel(`itinerary_presence:${documentId}`, {
+    config: {
+      presence: { key: myMemberId },
+    },
+  });
+  presenceChannel = channel
+    .on('presence', { event: 'sync' }, () => {
+      // Each member can have several tabs open; the latest one wins
+      const cursors = Object.entries(channel.presenceState<CollaboratorCursor>())
+        .filter(([memberId]) => memberId !== myMemberId)
+        .map(([, entries]) => entries[entries.length - 1])
+        .filter((cursor): cursor is NonNullable<typeof cursor> => !!cursor);
+      if (onCursorsChange) {
+        onCursorsChange(cursors);
+      }
+    })
+    .subscribe(async (status) => {
+      console.log('[ItineraryCollab] Presence channel status:', status);
+      if (status === 'SUBSCRIBED' && myCursor) {
+        await channel.track(myCursor);
+      }
+    });
+}
+
+// ==================== Event Handlers ====================
+
+/**
+ * Set handler for confirmed edits (including this client's own)
+ */
+export function onItineraryOp(handler: (op: DbItineraryOp) => void): void {
+  onOpInsert = handler;
+}
+
+/**
+ * Set handler for new, edited or deleted comments
+ */
+export function onItineraryComment(handler: (comment: DbItineraryComment) => void): void {
+  onCommentChange = handler;
+}
+
+/**
+ * Set handler for a newly saved version (called with its number)
+ */
+export function onItineraryVersion(handler: (version: number) => void): void {
+  onVersionChange = handler;
+}
+
+/**
+ * Set handler for other collaborators' cursors
+ */
+export function onCollaborators(handler: (cursors: CollaboratorCursor[]) => void): void {
+  onCursorsChange = handler;
+}
+
+// ==================== Edits ====================
+
+/**
+ * Send an edit to the group and post what it did to the chat.
+ * `itinerary` is the plan the edit was made on, for naming the activity in the message.
+ */
+export async function submitItineraryOp(
+  clientOpId: string,
+  op: ItineraryEdit,
+  itinerary: GeneratedItinerary
+): Promise<DbItineraryOp | null> {
+  if (!isSupabaseConfigured() || !supabase || !session) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_ops')
+      .insert({
+        document_id: session.documentId,
+        client_op_id: clientOpId,
+        member_id: session.me.memberId,
+        member_name: session.me.name,
+        op,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ItineraryCollab] Failed to send edit:', error);
+      return null;
+    }
+
+    await sendSystemMessage(session.groupId, describeOp(op, itinerary, session.me.name));
+    return data as DbItineraryOp;
+  } catch (error) {
+    console.error('[ItineraryCollab] Error sending edit:', error);
+    return null;
+  }
+}
+
+/**
+ * Edits after a saved version, in server order
+ */
+export async function getOpsAfter(documentId: string, seq: number): Promise<DbItineraryOp[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_ops')
+      .select()
+      .eq('document_id', documentId)
+      .gt('seq', seq)
+      .order('seq', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data as DbItineraryOp[];
+  } catch (error) {
+    console.error('[ItineraryCollab] Error getting edits:', error);
+    return [];
+  }
+}
+
+// ==================== Presence ====================
+
+/**
+ * Share which day and activity this collaborator is looking at
+ */
+export async function updateCursor(cursor: { day?: number; activityId?: string }): Promise<void> {
+  if (!presenceChannel || !session) return;
+  if (myCursor && myCursor.day === cursor.day && myCursor.activityId === cursor.activityId) return;
+
+  myCursor = { ...session.me, ...cursor };
+  await presenceChannel.track(myCursor);
+}
+
+// ==================== Comments ====================
+
+/**
+ * All comments on a document, oldest first
+ */
+export async function getItineraryComments(documentId: string): Promise<DbItineraryComment[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_comments')
+      .select()
+      .eq('document_id', documentId)
+      .eq('is_deleted', false)
+      .order('created_at', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data as DbItineraryComment[];
+  } catch (error) {
+    console.error('[ItineraryCollab] Error getting comments:', error);
+    return [];
+  }
+}
+
+/**
+ * Comment on an activity, keyed by its place (see commentKey)
+ */
+export async function addItineraryComment(
+  placeKey: string,
+  content: string
+): Promise<DbItineraryComment | null> {
+  if (!isSupabaseConfigured() || !supabase || !session) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_comments')
+      .insert({
+        document_id: session.documentId,
+        place_key: placeKey,
+        member_id: session.me.memberId,
+        member_name: session.me.name,
+        content: content.trim(),
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ItineraryCollab] Failed to add comment:', error);
+      return null;
+    }
+
+    return data as DbItineraryComment;
+  } catch (error) {
+    console.error('[ItineraryCollab] Error adding comment:', error);
+    return null;
+  }
+}
+
+/**
+ * Soft-delete a comment
+ */
+export async function deleteItineraryComment(commentId: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('itinerary_comments')
+      .update({ is_deleted: true })
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('[ItineraryCollab] Failed to delete comment:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ItineraryCollab] Error deleting comment:', error);
+    return false;
+  }
+}
@@ -0,0 +1,123 @@
+// Itinerary Diff - what changed between two versions of a trip
+// Activity ids are regenerated on every run, so stops are matched by place name. Only visits
+// and trains/buses/flights are compared; meals, rests and local travel follow from them.
+import type { CurrencyCode } from '../money';
+import type { GeneratedItinerary, ScheduledActivity } from './types';
+import { formatMoney } from '../money';
+
+export interface ItineraryDiff {
+  added: Array<{ name: string; day: number; startTime: string }>;
+  removed: Array<{ name: string; day: number }>;
+  moved: Array<{ name: string; fromDay: number; toDay: number; startTime: string }>;
+  retimed: Array<{ name: string; day: number; from: string; to: string }>;
+  resized: Array<{ name: string; day: number; from: number; to: number }>;  // Duration in minutes
+  dayCount: { from: number; to: number };
+  costDelta: number;      // per person, in the newer version's currency
+  distanceDelta: number;  // km
+}
+
+interface Stop {
+  name: string;
+  day: number;
+  startTime: string;
+  duration: number;
+}
+
+function comparedStops(itinerary: GeneratedItinerary): Map<string, Stop> {
+  const stops = new Map<string, Stop>();
+  for (const day of itinerary.days) {
+    for (const activity of day.activities) {
+      if (!isCompared(activity)) continue;
+      const key = activity.place.name.trim().toLowerCase();
+      // The first visit counts; a place visited twice is rare enough to not track separately
+      if (!stops.has(key)) {
+        stops.set(key, { name: activity.place.name, day: day.day, startTime: activity.startTime, duration: activity.duration });
+      }
+    }
+  }
+  return stops;
+}
+
+function isCompared(activity: ScheduledActivity): boolean {
+  return activity.type === 'visit' || !!activity.intercity;
+}
+
+/**
+ * Changes from `before` to `after`
+ */
+export function diffItineraries(before: GeneratedItinerary, after: GeneratedItinerary): ItineraryDiff {
+  const oldStops = comparedStops(before);
+  const newStops = comparedStops(after);
+  const diff: ItineraryDiff = {
+    added: [],
+    removed: [],
+    moved: [],
+    retimed: [],
+    resized: [],
+    dayCount: { from: before.days.length, to: after.days.length },
+    costDelta: Math.round(after.summary.totalCost - before.summary.totalCost),
+    distanceDelta: Math.round((after.summary.distanceTraveled - before.summary.distanceTraveled) * 10) / 10,
+  };
+
+  for (const [key, stop] of newStops) {
+    const old = oldStops.get(key);
+    if (!old) {
+      diff.added.push({ name: stop.name, day: stop.day, startTime: stop.startTime });
+      continue;
+    }
+    if (old.day !== stop.day) {
+      diff.moved.push({ name: stop.name, fromDay: old.day, toDay: stop.day, startTime: stop.startTime });
+    } else if (old.startTime !== stop.startTime) {
+      diff.retimed.push({ name: stop.name, day: stop.day, from: old.startTime, to: stop.startTime });
+    }
+    if (old.duration !== stop.duration) {
+      diff.resized.push({ name: stop.name, day: stop.day, from: old.duration, to: stop.duration });
+    }
+  }
+
+  for (const [key, stop] of oldStops) {
+    if (!newStops.has(key)) diff.removed.push({ name: stop.name, day: stop.day });
+  }
+
+  return diff;
+}
+
+/**
+ * Whether two versions differ in anything the diff tracks
+ */
+export function isEmptyDiff(diff: ItineraryDiff): boolean {
+  return diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.retimed.length === 0 &&
+    diff.resized.length === 0 &&
+    diff.dayCount.from === diff.dayCount.to &&
+    diff.costDelta === 0 &&
+    diff.distanceDelta === 0;
+}
+
+/**
+ * One line per change, for version history ("Added Vittala Temple on day 2 at 10:00")
+ */
+export function describeItineraryDiff(diff: ItineraryDiff, currency: CurrencyCode = 'INR'): string[] {
+  const lines: string[] = [];
+
+  if (diff.dayCount.from !== diff.dayCount.to) {
+    lines.push(`Trip is now ${diff.dayCount.to} days (was ${diff.dayCount.from})`);
+  }
+  for (const a of diff.added) lines.push(`Added ${a.name} on day ${a.day} at ${a.startTime}`);
+  for (const r of diff.removed) lines.push(`Removed ${r.name} (was day ${r.day})`);
+  for (const m of diff.moved) lines.push(`Moved ${m.name} from day ${m.fromDay} to day ${m.toDay}`);
+  for (const t of diff.retimed) lines.push(`${t.name} now starts at ${t.to} (was ${t.from})`);
+  for (const r of diff.resized) lines.push(`${r.name} now takes ${r.to} min (was ${r.from})`);
+
+  if (diff.costDelta !== 0) {
+    const sign = diff.costDelta > 0 ? '+' : '−';
+    lines.push(`Cost ${sign}${formatMoney({ amount: Math.abs(diff.costDelta), currency })} per person`);
+  }
+  if (diff.distanceDelta !== 0) {
+    lines.push(`Distance ${diff.distanceDelta > 0 ? '+' : '−'}${Math.abs(diff.distanceDelta).toFixed(1)} km`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,430 @@
+// Itinerary Documents - saved, versioned itineraries in Supabase
+// Each regeneration, saved edit, import or restore adds a version; share tokens give a read-only link
+
+import { supabase, isSupabaseConfigured } from '../../lib/supabase';
+import type {
+  DbItineraryDocument,
+  DbItineraryVersion,
+  GeneratedItinerary,
+  ItineraryVersionSource,
+} from './types';
+import { describeItineraryDiff, diffItineraries, isEmptyDiff } from './itinerary-diff';
+
+const SHARE_TOKEN_LENGTH = 32;
+
+export interface SaveVersionOptions {
+  source: ItineraryVersionSource;
+  createdBy?: string | null;
+  restoredFrom?: number;
+  mergedThrough?: number;  // Seq of the last collaborative edit the itinerary includes
+  force?: boolean;  // Save even when nothing changed since the latest version
+}
+
+// ==================== Documents ====================
+
+/**
+ * Title for a document nobody named ("3-day trip from 2026-11-02")
+ */
+export function defaultItineraryTitle(itinerary: GeneratedItinerary): string {
+  const start = itinerary.days[0]?.date.split('T')[0];
+  const length = `${itinerary.days.length}-day trip`;
+  return start ? `${length} from ${start}` : length;
+}
+
+/**
+ * Create a document for a chat group's trip, or a user's own (pass at least one of the two)
+ */
+export async function createItineraryDocument(
+  title: string,
+  owner: { groupId?: string | null; ownerId?: string | null }
+): Promise<DbItineraryDocument | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_documents')
+      .insert({
+        title,
+        group_id: owner.groupId || null,
+        owner_id: owner.ownerId || null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ItineraryDocs] Failed to create document:', error);
+      return null;
+    }
+
+    return data as DbItineraryDocument;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error creating document:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a document by id
+ */
+export async function getItineraryDocument(documentId: string): Promise<DbItineraryDocument | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_documents')
+      .select()
+      .eq('id', documentId)
+      .eq('is_deleted', false)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as DbItineraryDocument;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error getting document:', error);
+    return null;
+  }
+}
+
+/**
+ * Documents for a chat group, most recently updated first
+ */
+export async function getDocumentsForGroup(groupId: string): Promise<DbItineraryDocument[]> {
+  return listDocuments('group_id', groupId);
+}
+
+/**
+ * Documents a user (or guest device) owns, most recently updated first
+ */
+export async function getDocumentsForOwner(ownerId: string): Promise<DbItineraryDocument[]> {
+  return listDocuments('owner_id', ownerId);
+}
+
+async function listDocuments(column: 'group_id' | 'owner_id', value: string): Promise<DbItineraryDocument[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_documents')
+      .select()
+      .eq(column, value)
+      .eq('is_deleted', false)
+      .order('updated_at', { ascending: false });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data as DbItineraryDocument[];
+  } catch (error) {
+    console.error('[ItineraryDocs] Error listing documents:', error);
+    return [];
+  }
+}
+
+/**
+ * Soft-delete a document (its versions and share link go with it)
+ */
+export async function deleteItineraryDocument(documentId: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('itinerary_documents')
+      .update({ is_deleted: true, share_token: null })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('[ItineraryDocs] Failed to delete document:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error deleting document:', error);
+    return false;
+  }
+}
+
+// ==================== Versions ====================
+
+/**
+ * Save the itinerary as the document's next version, with what changed since the latest one.
+ * Returns the latest version unchanged when there is nothing new to save (unless `force`).
+ */
+export async function saveItineraryVersion(
+  documentId: string,
+  itinerary: GeneratedItinerary,
+  options: SaveVersionOptions
+): Promise<DbItineraryVersion | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const latest = await getLatestItineraryVersion(documentId);
+    let changeSummary: string[] = [];
+    if (latest) {
+      const diff = diffItineraries(latest.itinerary_data, itinerary);
+      if (isEmptyDiff(diff) && !options.force && (options.mergedThrough ?? 0) <= latest.merged_through) {
+        return latest;
+      }
+      changeSummary = describeItineraryDiff(diff, itinerary.summary.currency);
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    const { data, error } = await supabase
+      .from('itinerary_versions')
+      .insert({
+        document_id: documentId,
+        version,
+        itinerary_data: itinerary,
+        source: options.source,
+        change_summary: changeSummary,
+        restored_from: options.restoredFrom ?? null,
+        created_by: options.createdBy || null,
+        // Keep the edit log position when not saving from a collaborative session
+        merged_through: options.mergedThrough ?? latest?.merged_through ?? 0,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[ItineraryDocs] Failed to save version:', error);
+      return null;
+    }
+
+    await supabase
+      .from('itinerary_documents')
+      .update({ current_version: version, updated_at: new Date().toISOString() })
+      .eq('id', documentId);
+
+    console.log('[ItineraryDocs] Saved version', version, 'of', documentId);
+    return data as DbItineraryVersion;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error saving version:', error);
+    return null;
+  }
+}
+
+/**
+ * All versions of a document, newest first
+ */
+export async function getItineraryVersions(documentId: string): Promise<DbItineraryVersion[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_versions')
+      .select()
+      .eq('document_id', documentId)
+      .order('version', { ascending: false });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data as DbItineraryVersion[];
+  } catch (error) {
+    console.error('[ItineraryDocs] Error getting versions:', error);
+    return [];
+  }
+}
+
+/**
+ * One version of a document
+ */
+export async function getItineraryVersion(
+  documentId: string,
+  version: number
+): Promise<DbItineraryVersion | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_versions')
+      .select()
+      .eq('document_id', documentId)
+      .eq('version', version)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as DbItineraryVersion;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error getting version:', error);
+    return null;
+  }
+}
+
+/**
+ * The newest version of a document
+ */
+export async function getLatestItineraryVersion(documentId: string): Promise<DbItineraryVersion | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_versions')
+      .select()
+      .eq('document_id', documentId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as DbItineraryVersion;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error getting latest version:', error);
+    return null;
+  }
+}
+
+/**
+ * Restore an older version by saving a copy of it as the newest version; history is never rewritten
+ */
+export async function restoreItineraryVersion(
+  documentId: string,
+  version: number,
+  createdBy?: string | null
+): Promise<DbItineraryVersion | null> {
+  const old = await getItineraryVersion(documentId, version);
+  if (!old) {
+    return null;
+  }
+
+  return saveItineraryVersion(documentId, old.itinerary_data, {
+    source: 'restored',
+    createdBy,
+    restoredFrom: version,
+    force: true,
+  });
+}
+
+// ==================== Share Links ====================
+
+function generateShareToken(): string {
+  const bytes = new Uint8Array(SHARE_TOKEN_LENGTH / 2);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Turn on the public read-only link; returns the existing token if one is already set
+ */
+export async function enableShareLink(documentId: string): Promise<string | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const document = await getItineraryDocument(documentId);
+    if (!document) {
+      return null;
+    }
+    if (document.share_token) {
+      return document.share_token;
+    }
+
+    const token = generateShareToken();
+    const { error } = await supabase
+      .from('itinerary_documents')
+      .update({ share_token: token })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('[ItineraryDocs] Failed to enable share link:', error);
+      return null;
+    }
+
+    return token;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error enabling share link:', error);
+    return null;
+  }
+}
+
+/**
+ * Turn off the public link; the old URL stops working
+ */
+export async function disableShareLink(documentId: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('itinerary_documents')
+      .update({ share_token: null })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('[ItineraryDocs] Failed to disable share link:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error disabling share link:', error);
+    return false;
+  }
+}
+
+/**
+ * The document and its latest version behind a share token, for the public read-only page
+ */
+export async function getSharedItinerary(
+  token: string
+): Promise<{ document: DbItineraryDocument; version: DbItineraryVersion } | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('itinerary_documents')
+      .select()
+      .eq('share_token', token)
+      .eq('is_deleted', false)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    const document = data as DbItineraryDocument;
+    const version = await getLatestItineraryVersion(document.id);
+    return version ? { document, version } : null;
+  } catch (error) {
+    console.error('[ItineraryDocs] Error getting shared itinerary:', error);
+    return null;
+  }
+}
+
+/**
+ * Public URL for a share token
+ */
+export function shareUrl(token: string): string {
+  return `${window.location.origin}/shared/${token}`;
+}
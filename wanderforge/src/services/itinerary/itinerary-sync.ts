@@ -0,0 +1,119 @@
+// Itinerary Sync - merge everyone's edits into one itinerary
+// The database gives every edit a sequence number. Each client replays the confirmed edits in that
+// order on the same saved version, then its own unconfirmed edits on top, so all clients converge.
+// An edit whose activity is gone by the time it replays (removed by someone else first) is dropped;
+// two changes to the same activity resolve to whichever the server received last.
+// Travel legs come from the saved version or a straight-line estimate, never from this device's
+// routing cache, so a replay gives the same times everywhere.
+import type { Coords, GeneratedItinerary, ItineraryEdit, LegLookup, TravelInfo } from './types';
+import { applyEdit } from './edit-engine';
+import { estimateTravelTime, getPlaceCoords } from './route-optimizer';
+
+// An edit this client made that the server hasn't echoed back yet
+export interface PendingOp {
+  clientOpId: string;
+  op: ItineraryEdit;
+}
+
+export interface ReplayResult {
+  itinerary: GeneratedItinerary;
+  dropped: string[];  // Why edits didn't apply, e.g. "Day 2 is locked"
+}
+
+function legKey(from: Coords, to: Coords): string {
+  return `${from.lat.toFixed(5)},${from.lng.toFixed(5)}>${to.lat.toFixed(5)},${to.lng.toFixed(5)}`;
+}
+
+/**
+ * Travel legs everyone has: the ones in the saved version, else an estimate
+ */
+function sharedTravel(base: GeneratedItinerary): LegLookup {
+  const saved = new Map<string, TravelInfo>();
+
+  for (const day of base.days) {
+    let from: Coords | null = null;
+    let leg: TravelInfo | undefined;
+    for (const activity of day.activities) {
+      // A leg sits between the stop it leaves and the stop it reaches
+      if (activity.type === 'travel' && !activity.intercity) {
+        leg = activity.travelFromPrev;
+        continue;
+      }
+      const coords = getPlaceCoords(activity.place);
+      if (!coords) continue;
+      if (from && leg) saved.set(legKey(from, coords), leg);
+      from = coords;
+      leg = undefined;
+    }
+  }
+
+  return (from, to) => saved.get(legKey(from, to)) ?? { ...estimateTravelTime(from, to), source: 'estimate' };
+}
+
+/**
+ * Confirmed edits in server order, then pending ones in the order they were made
+ */
+export function replayOps(
+  base: GeneratedItinerary,
+  confirmed: Array<{ seq: number; op: ItineraryEdit }>,
+  pending: PendingOp[] = []
+): ReplayResult {
+  const ordered = [...confirmed].sort((a, b) => a.seq - b.seq).map(c => c.op);
+  const getLeg = sharedTravel(base);
+  let itinerary = base;
+  const dropped: string[] = [];
+
+  for (const op of [...ordered, ...pending.map(p => p.op)]) {
+    const result = applyEdit(itinerary, op, getLeg);
+    if (result.itinerary === itinerary) {
+      dropped.push(...result.conflicts);
+      continue;
+    }
+    itinerary = result.itinerary;
+  }
+
+  return { itinerary, dropped };
+}
+
+/**
+ * Place name an edit refers to, looked up before it applies
+ */
+function activityName(itinerary: GeneratedItinerary, activityId: string): string {
+  for (const day of itinerary.days) {
+    const activity = day.activities.find(a => a.id === activityId);
+    if (activity) return activity.place.name;
+  }
+  return 'an activity';
+}
+
+/**
+ * What an edit did, for the chat ("Asha moved Vittala Temple to day 2")
+ */
+export function describeOp(op: ItineraryEdit, itinerary: GeneratedItinerary, memberName: string): string {
+  switch (op.type) {
+    case 'move':
+      return `${memberName} moved ${activityName(itinerary, op.activityId)} to day ${op.toDay}`;
+    case 'remove':
+      return `${memberName} removed ${activityName(itinerary, op.activityId)} from the plan`;
+    case 'duration':
+      return `${memberName} set ${activityName(itinerary, op.activityId)} to ${op.duration} min`;
+    case 'lock-day':
+      return `${memberName} ${op.locked ? 'locked' : 'unlocked'} day ${op.day}`;
+    case 'constrain': {
+      const c = op.constraint;
+      const name = activityName(itinerary, c.activityId);
+      if (c.kind === 'pin') return `${memberName} pinned ${name} at ${c.startTime}`;
+      if (c.kind === 'before') return `${memberName} wants ${name} done before ${c.time}`;
+      return `${memberName} put ${name} after ${activityName(itinerary, c.afterId)}`;
+    }
+    case 'unconstrain':
+      return `${memberName} cleared the ${op.kind} rule on ${activityName(itinerary, op.activityId)}`;
+  }
+}
+
+/**
+ * Comment key for an activity; comments follow the place, since ids change on regeneration
+ */
+export function commentKey(placeName: string): string {
+  return placeName.trim().toLowerCase();
+}
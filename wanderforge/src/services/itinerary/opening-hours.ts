@@ -0,0 +1,350 @@
+// Opening Hours - parse weekly hours and closures, and check them against trip dates
+// Accepts OSM `opening_hours` syntax ("Sa-Th 06:00-18:00; Fr off; PH off") and the free text
+// found in place data ("9:30 AM - 4:30 PM (Closed on Mondays)", "Sunrise to Sunset").
+// Month/date-range OSM rules aren't modelled; those rules are skipped.
+import type { OpeningHours, TimeRange, Weekday } from './place-research.types';
+import type { ClosureViolation } from './types';
+import { DEFAULT_HOLIDAY_REGION, holidayOn } from './holiday-calendar';
+
+const WEEK: Weekday[] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_NAMES: Record<Weekday, string> = {
+  Mon: 'Monday', Tue: 'Tuesday', Wed: 'Wednesday', Thu: 'Thursday', Fri: 'Friday', Sat: 'Saturday', Sun: 'Sunday',
+};
+
+// Close enough across India all year; OSM's sunrise/sunset and "Sunrise to Sunset" signs
+const SUNRISE = '06:00';
+const SUNSET = '18:00';
+const ALL_DAY: TimeRange = { open: '00:00', close: '24:00' };
+
+type Hours = OpeningHours | TimeRange | null | undefined;
+
+// ==================== Times ====================
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+function pad(hours: number, minutes: number = 0): string {
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function weekdayOf(date: string): Weekday {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return WEEK[(new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7];
+}
+
+function previousDate(date: string): string {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d - 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Collapse per-day windows into OpeningHours (overall open/close plus the detail)
+ */
+function summarize(weekly: Record<Weekday, TimeRange[]>, holidays: TimeRange[] | undefined, raw: string): OpeningHours {
+  const days = WEEK.filter(d => weekly[d].length > 0);
+  const windows = days.flatMap(d => weekly[d]);
+  const open = windows.reduce((min, w) => w.open < min ? w.open : min, windows[0]?.open ?? '00:00');
+  // An overnight window's close (02:00) is the real end of the day
+  const overnight = windows.find(w => w.close < w.open);
+  const close = overnight?.close ?? windows.reduce((max, w) => w.close > max ? w.close : max, windows[0]?.close ?? '00:00');
+
+  return {
+    open,
+    close,
+    days,
+    weekly,
+    ...(holidays ? { holidays } : {}),
+    raw,
+  };
+}
+
+// ==================== Parsing ====================
+
+const OSM_DAYS: Record<string, Weekday> = { mo: 'Mon', tu: 'Tue', we: 'Wed', th: 'Thu', fr: 'Fri', sa: 'Sat', su: 'Sun' };
+const OSM_SELECTOR = /^((?:(?:mo|tu|we|th|fr|sa|su)(?:-(?:mo|tu|we|th|fr|sa|su))?|ph)(?:\s*,\s*(?:(?:mo|tu|we|th|fr|sa|su)(?:-(?:mo|tu|we|th|fr|sa|su))?|ph))*)(?:\s+|$)/i;
+const OSM_TIME = /^(\d{1,2}:\d{2}|sunrise|sunset)\s*-\s*(\d{1,2}:\d{2}|sunrise|sunset)$/i;
+
+function osmTime(token: string): string {
+  const lower = token.toLowerCase();
+  if (lower === 'sunrise') return SUNRISE;
+  if (lower === 'sunset') return SUNSET;
+  const [h, m] = lower.split(':').map(Number);
+  return pad(h, m);
+}
+
+function osmDays(selector: string): { days: Weekday[]; holiday: boolean } {
+  const days: Weekday[] = [];
+  let holiday = false;
+  for (const part of selector.toLowerCase().split(/\s*,\s*/)) {
+    if (part === 'ph') {
+      holiday = true;
+      continue;
+    }
+    const [from, to] = part.split('-').map(d => WEEK.indexOf(OSM_DAYS[d]));
+    // Ranges wrap around the week (Sa-Mo)
+    for (let i = from; ; i = (i + 1) % 7) {
+      days.push(WEEK[i]);
+      if (to === undefined || i === to) break;
+    }
+  }
+  return { days, holiday };
+}
+
+/**
+ * Parse an OSM `opening_hours` value. Later rules override earlier ones for the days they name.
+ * Returns null when no rule could be understood.
+ */
+export function parseOsmOpeningHours(text: string): OpeningHours | null {
+  const raw = text.trim();
+  if (!raw) return null;
+
+  const weekly = Object.fromEntries(WEEK.map(d => [d, [] as TimeRange[]])) as Record<Weekday, TimeRange[]>;
+  let holidays: TimeRange[] | undefined;
+  let understood = false;
+
+  for (const rule of raw.split(/\s*(?:;|\|\|)\s*/).filter(Boolean)) {
+    const body = rule.replace(/"[^"]*"/g, '').trim();  // Drop comments
+
+    if (/^24\/7$/.test(body)) {
+      WEEK.forEach(d => { weekly[d] = [ALL_DAY]; });
+      understood = true;
+      continue;
+    }
+
+    const selector = body.match(OSM_SELECTOR);
+    const { days, holiday } = selector ? osmDays(selector[1]) : { days: WEEK, holiday: false };
+    const rest = (selector ? body.slice(selector[0].length) : body).trim();
+
+    let windows: TimeRange[];
+    if (/^(off|closed)$/i.test(rest)) {
+      windows = [];
+    } else if (!rest || rest === '24/7') {
+      windows = [ALL_DAY];
+    } else {
+      const ranges = rest.split(/\s*,\s*/).map(r => r.match(OSM_TIME));
+      if (ranges.some(r => !r)) continue;  // Month/week selectors or other syntax we don't model
+      windows = ranges.map(r => ({ open: osmTime(r![1]), close: osmTime(r![2]) }));
+    }
+
+    if (holiday) holidays = windows;
+    days.forEach(d => { weekly[d] = windows; });
+    understood = true;
+  }
+
+  return understood ? summarize(weekly, holidays, raw) : null;
+}
+
+const TEXT_DAY = /(mon|tues|wednes|thurs|fri|satur|sun)days?/gi;
+const TEXT_DAY_PREFIX: Record<string, Weekday> = {
+  mon: 'Mon', tues: 'Tue', wednes: 'Wed', thurs: 'Thu', fri: 'Fri', satur: 'Sat', sun: 'Sun',
+};
+const TEXT_RANGE = /(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?\s*(?:-|–|to)\s*(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?/gi;
+
+function to24h(hours: number, minutes: number, meridiem: string | undefined): string {
+  let h = hours % 12;
+  if (meridiem?.toLowerCase() === 'pm') h += 12;
+  if (!meridiem) h = hours;
+  return pad(h, minutes);
+}
+
+/**
+ * Parse free-text timings like "9:30 AM - 4:30 PM (Closed on Mondays)",
+ * "5:00 AM - 12:30 PM, 4:00 PM - 10:00 PM", "Sunrise to Sunset" or "24 hours"
+ */
+export function parseTimingText(text: string): OpeningHours | null {
+  const raw = text.trim();
+  const lower = raw.toLowerCase();
+  if (!lower) return null;
+
+  const closedDays = new Set<Weekday>();
+  const closedClause = lower.match(/closed\s+(?:on\s+)?([a-z ,&]+)/);
+  if (closedClause) {
+    for (const match of closedClause[1].matchAll(TEXT_DAY)) {
+      closedDays.add(TEXT_DAY_PREFIX[match[1].toLowerCase()]);
+    }
+  }
+  const closedOnHolidays = /closed\s+(?:on\s+)?(?:[a-z ,&]+\s)?(?:public\s+|national\s+)?holidays/.test(lower);
+
+  let windows: TimeRange[] = [];
+  if (/24\s*hours|24\/7|open\s+all\s+day/.test(lower)) {
+    windows = [ALL_DAY];
+  } else if (/sunrise\s*(?:-|–|to)\s*sunset/.test(lower)) {
+    windows = [{ open: SUNRISE, close: SUNSET }];
+  } else {
+    for (const m of lower.replace(/\([^)]*\)/g, '').matchAll(TEXT_RANGE)) {
+      const closeMeridiem = m[6];
+      // "9 - 5 pm": the open time borrows the meridiem unless that puts it after closing
+      let openMeridiem = m[3];
+      if (!openMeridiem && closeMeridiem) {
+        openMeridiem = Number(m[1]) % 12 <= Number(m[4]) % 12 ? closeMeridiem : 'am';
+      }
+      windows.push({
+        open: to24h(Number(m[1]), Number(m[2] || 0), openMeridiem),
+        close: to24h(Number(m[4]), Number(m[5] || 0), closeMeridiem),
+      });
+    }
+  }
+
+  if (windows.length === 0 && closedDays.size === 0 && !closedOnHolidays) return null;
+  if (windows.length === 0) windows = [ALL_DAY];  // Only the closures are known
+
+  const weekly = Object.fromEntries(WEEK.map(d => [d, closedDays.has(d) ? [] : windows])) as Record<Weekday, TimeRange[]>;
+  return summarize(weekly, closedOnHolidays ? [] : undefined, raw);
+}
+
+/**
+ * Parse opening hours in either OSM syntax or free text
+ */
+export function parseOpeningHours(text: string | null | undefined): OpeningHours | null {
+  if (!text) return null;
+  return parseOsmOpeningHours(text) ?? parseTimingText(text);
+}
+
+// ==================== Checking Dates ====================
+
+/**
+ * The windows a date's own rule gives it, without the night before running past midnight
+ */
+function ownWindows(hours: Hours, date: string, region: string): TimeRange[] | null {
+  if (!hours) return null;
+  const detail = hours as Partial<OpeningHours>;
+
+  if (detail.holidays && holidayOn(date, region)) {
+    return detail.holidays;
+  }
+
+  const weekday = weekdayOf(date);
+  if (detail.weekly?.[weekday]) {
+    return detail.weekly[weekday]!;
+  }
+  // Hand-entered or LLM hours: "Monday", "mon" and "Mon" all count
+  const opensToday = !detail.days || detail.days.some(d => d.slice(0, 3).toLowerCase() === weekday.toLowerCase());
+  return opensToday ? [{ open: hours.open, close: hours.close }] : [];
+}
+
+/**
+ * Opening windows on a date ("YYYY-MM-DD"): [] when closed, null when the hours are unknown.
+ * The after-midnight part of the previous day's overnight window counts ("Mo-Fr 22:00-02:00"
+ * is open until 02:00 on Saturday).
+ */
+export function openingWindows(hours: Hours, date: string, region: string = DEFAULT_HOLIDAY_REGION): TimeRange[] | null {
+  const own = ownWindows(hours, date, region);
+  if (!own) return null;
+
+  const carried = (ownWindows(hours, previousDate(date), region) ?? [])
+    .filter(w => toMinutes(w.close) > 0 && toMinutes(w.close) < toMinutes(w.open))
+    .map(w => ({ open: '00:00', close: w.close }));
+  return carried.length > 0 ? [...carried, ...own] : own;
+}
+
+/**
+ * Whether a place with these hours is closed all day on `date`
+ */
+export function isClosedOn(hours: Hours, date: string, region: string = DEFAULT_HOLIDAY_REGION): boolean {
+  return openingWindows(hours, date, region)?.length === 0;
+}
+
+/**
+ * The whole day's span (first opening to last closing), e.g. for the route optimizer's time windows
+ */
+export function daySpan(hours: Hours, date: string, region: string = DEFAULT_HOLIDAY_REGION): TimeRange | null {
+  // Last night's after-midnight hours only matter when the day has none of its own
+  const own = ownWindows(hours, date, region);
+  const windows = own && own.length > 0 ? own : openingWindows(hours, date, region);
+  if (!windows || windows.length === 0) return null;
+  const sorted = [...windows].sort((a, b) => toMinutes(a.open) - toMinutes(b.open));
+  return { open: sorted[0].open, close: sorted[sorted.length - 1].close };
+}
+
+/**
+ * Earliest start (minutes from midnight) at or after `from` that fits a visit of `duration`
+ * inside one opening window. `from` itself when hours are unknown; null when it doesn't fit.
+ */
+export function fitVisit(
+  hours: Hours,
+  date: string,
+  from: number,
+  duration: number,
+  region: string = DEFAULT_HOLIDAY_REGION
+): number | null {
+  const windows = openingWindows(hours, date, region);
+  if (!windows) return from;
+
+  for (const window of [...windows].sort((a, b) => toMinutes(a.open) - toMinutes(b.open))) {
+    const open = toMinutes(window.open);
+    let close = toMinutes(window.close);
+    if (close <= open) close += 24 * 60;  // Past midnight
+    const start = Math.max(from, open);
+    if (start + duration <= close) return start;
+  }
+  return null;
+}
+
+/**
+ * Why a place is shut on `date` ("Closed on Fridays", "Closed on Republic Day"), or null if open
+ */
+export function closureReason(hours: Hours, date: string, region: string = DEFAULT_HOLIDAY_REGION): string | null {
+  if (!isClosedOn(hours, date, region)) return null;
+  const holiday = holidayOn(date, region);
+  if (holiday && (hours as Partial<OpeningHours>).holidays) {
+    return `Closed on ${holiday.name}`;
+  }
+  return `Closed on ${DAY_NAMES[weekdayOf(date)]}s`;
+}
+
+// ==================== Planning ====================
+
+/**
+ * Move places off days they're closed to the emptiest day they're open
+ * (`canMove` keeps a multi-city trip's places within their city). Places closed on every
+ * allowed day stay where they are; findClosureViolations reports the must-visits among them.
+ */
+export function moveClosedPlaces<T>(
+  days: T[][],
+  dates: string[],
+  hoursOf: (place: T) => Hours,
+  region: string = DEFAULT_HOLIDAY_REGION,
+  canMove: (from: number, to: number) => boolean = () => true
+): T[][] {
+  const result = days.map(d => [...d]);
+
+  result.forEach((places, i) => {
+    for (const place of [...places]) {
+      const hours = hoursOf(place);
+      if (!isClosedOn(hours, dates[i], region)) continue;
+
+      const target = dates
+        .map((_, j) => j)
+        .filter(j => j !== i && canMove(i, j) && !isClosedOn(hours, dates[j], region))
+        .sort((a, b) => result[a].length - result[b].length || Math.abs(a - i) - Math.abs(b - i))[0];
+      if (target === undefined) continue;
+
+      places.splice(places.indexOf(place), 1);
+      result[target].push(place);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Must-visit places that are closed on every trip date
+ */
+export function findClosureViolations(
+  places: Array<{ name: string; openingHours?: Hours }>,
+  dates: string[],
+  isMustVisit: (name: string) => boolean,
+  region: string = DEFAULT_HOLIDAY_REGION
+): ClosureViolation[] {
+  if (dates.length === 0) return [];
+
+  return places
+    .filter(p => isMustVisit(p.name) && dates.every(date => isClosedOn(p.openingHours, date, region)))
+    .map(p => ({
+      place: p.name,
+      closedDates: dates,
+      reason: Array.from(new Set(dates.map(date => closureReason(p.openingHours, date, region)!))).join(', '),
+    }));
+}
@@ -1,5 +1,5 @@
 // Place Research Service - Extracts rich knowledge from web search results
-import type { ExtractedPlace } from '../ai/types';
+import type { ExtractedPlace, LLMPrompt } from '../ai/types';
 import type {
   PlaceKnowledge,
   NearbyPlace,
@@ -10,6 +10,7 @@ import { searchPlace, searchNearbyFood } from './web-search';
 import { searchPlace as geocodePlace } from '../ai/search/nominatim.service';
 import { LLMProviderManager } from '../ai/providers';
 import { haversineDistance } from './route-optimizer';
+import { parseOpeningHours } from './opening-hours';
 
 /**
  * Map extracted place type to our PlaceCategory
@@ -54,7 +55,7 @@ async function extractPlaceInfoWithLLM(
 ): Promise<ExtractedPlaceInfo> {
   const llmManager = new LLMProviderManager();
 
-  const prompt = {
+  const prompt: LLMPrompt = {
     system: `You are a travel information extractor. Analyze search results and extract accurate travel data.
 Be conservative with ratings - only include if explicitly mentioned.
 Return valid JSON only.`,
@@ -70,6 +71,7 @@ Return JSON with exactly these fields (use null for unknown values):
   "bestTimeToVisit": "Morning for photography, evening for sunset views",
   "typicalDuration": 90,
   "openingHours": { "open": "09:00", "close": "18:00", "days": ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] },
+  "openingHoursOsm": "Sa-Th 09:00-18:00; Fr off; PH off",
   "entryFee": 100,
   "crowdPeakHours": ["10:00-12:00", "16:00-18:00"],
   "nearbyRestaurantNames": ["Restaurant 1", "Restaurant 2"],
@@ -83,8 +85,10 @@ Guidelines:
 - rating: 1-5 scale, null if not found
 - typicalDuration: time in MINUTES (60-180 typical)
 - openingHours: null if unknown or always open
+- openingHoursOsm: the same hours in OpenStreetMap opening_hours syntax, including weekly closures ("Mo off") and holiday closures ("PH off"); null if unknown
 - entryFee: in INR, null if free or unknown
-- crowdPeakHours: typical busy times`
+- crowdPeakHours: typical busy times`,
+    task: 'research',
   };
 
   try {
@@ -318,7 +322,7 @@ export async function researchSinglePlace(
     priceLevel: 2, // Default
 
     // Timing
-    openingHours: extractedInfo.openingHours,
+    openingHours: parseOpeningHours(extractedInfo.openingHoursOsm) ?? extractedInfo.openingHours,
     bestTimeToVisit: extractedInfo.bestTimeToVisit || getDefaultBestTime(placeType),
     typicalDuration: extractedInfo.typicalDuration || getDefaultDuration(placeType),
     crowdPeakHours: extractedInfo.crowdPeakHours || ['10:00-12:00', '16:00-18:00'],
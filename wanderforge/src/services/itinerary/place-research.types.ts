@@ -11,11 +11,22 @@ export interface NearbyPlace {
   priceLevel?: 1 | 2 | 3 | 4;
 }
 
-// Opening hours structure
-export interface OpeningHours {
+export type Weekday = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+// One opening window; close before open runs past midnight, "24:00" is end of day
+export interface TimeRange {
   open: string;    // "09:00"
   close: string;   // "18:00"
-  days: string[];  // ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
+}
+
+// Opening hours structure
+export interface OpeningHours {
+  open: string;    // "09:00" - earliest opening in the week
+  close: string;   // "18:00" - latest closing
+  days: string[];  // ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] - days it opens at all
+  weekly?: Partial<Record<Weekday, TimeRange[]>>;  // Per-day windows when they differ or split (lunch break)
+  holidays?: TimeRange[];  // Hours on public holidays; [] = closed. Absent = as on that weekday
+  raw?: string;    // The opening_hours / timing text this was parsed from
 }
 
 // Complete knowledge about a place from web research
@@ -79,6 +90,7 @@ export interface ExtractedPlaceInfo {
   bestTimeToVisit: string;
   typicalDuration: number;
   openingHours: OpeningHours | null;
+  openingHoursOsm?: string | null;  // OSM opening_hours, carries weekly closures and holidays
   entryFee: number | null;
   crowdPeakHours: string[];
   nearbyRestaurantNames: string[];
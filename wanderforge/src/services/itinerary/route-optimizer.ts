@@ -1,6 +1,6 @@
 // Route Optimization - Haversine, Clustering, TSP
 import type { ExtractedPlace } from '../ai/types';
-import type { Coords, TravelMode, PlaceCluster, OptimizedRoute } from './types';
+import type { Coords, TravelMode, PlaceCluster, OptimizedRoute, RouteOptions, TravelLookup } from './types';
 
 // Earth radius in km
 const EARTH_RADIUS_KM = 6371;
@@ -212,84 +212,286 @@ function calculateClusterDistance(places: ExtractedPlace[]): number {
   return total;
 }
 
+// ==================== Visit Order (TSP) ====================
+
+const DEFAULT_DEPART_MINUTES = 9 * 60;  // 09:00
+const DEFAULT_VISIT_MINUTES = 60;
+const LATE_PENALTY_KM_PER_MIN = 0.5;    // A minute past closing "costs" as much as 500m of travel
+const MUST_VISIT_PENALTY_FACTOR = 5;
+const WAIT_PENALTY_KM_PER_MIN = 0.02;   // Slight preference for not idling outside a closed gate
+const MAX_IMPROVEMENT_PASSES = 50;
+const MAX_OR_OPT_SEGMENT = 3;
+
+interface TravelLegs {
+  km: number[][];
+  minutes: number[][];
+}
+
+interface RouteProblem {
+  places: ExtractedPlace[];
+  legs: TravelLegs;                 // Between stops
+  fromStart: TravelLegs | null;     // Row 0: fixed start to each stop
+  toEnd: TravelLegs | null;         // Column 0: each stop to the fixed end
+  startToEnd: number;
+  windows: Array<{ open: number; close: number } | null>;
+  durations: number[];
+  lateWeights: number[];
+  departAt: number;                 // minutes after midnight
+}
+
+interface TourCost {
+  distance: number;
+  cost: number;
+  missed: number[];
+}
+
+function toMinutes(time: string): number {
+  const [hours, mins] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (mins || 0);
+}
+
 /**
- * Optimize visit order using Nearest Neighbor TSP heuristic
- * Simple but effective for small number of places
+ * Stand-in place for a start or end given only as coordinates
  */
-export function optimizeVisitOrder(
+function endpointPlace(name: string, coordinates: Coords): ExtractedPlace {
+  return { name, type: 'destination', coordinates, votes: 0, status: 'confirmed', mentionedBy: [], source: 'heuristic', confidence: 100 };
+}
+
+function isAccommodation(place: ExtractedPlace): boolean {
+  const name = place.name.toLowerCase();
+  return place.type === 'hotel' || name.includes('hotel') || name.includes('hostel');
+}
+
+function travelLegs(from: Coords[], to: Coords[], travel: TravelLookup): TravelLegs {
+  const legs = from.map(a => to.map(b => travel(a, b)));
+  return {
+    km: legs.map(row => row.map(l => l.distance)),
+    minutes: legs.map(row => row.map(l => l.duration)),
+  };
+}
+
+function buildProblem(
   places: ExtractedPlace[],
-  _startPoint?: Coords
-): OptimizedRoute {
-  if (places.length <= 1) {
-    return {
-      places,
-      totalDistance: 0,
-      segments: [],
-    };
-  }
+  start: Coords | null,
+  end: Coords | null,
+  travel: TravelLookup,
+  options: RouteOptions
+): RouteProblem {
+  const coords = places.map(p => getPlaceCoords(p)!);
 
-  const geoPlaces = places.filter(p => getPlaceCoords(p) !== null);
-  if (geoPlaces.length === 0) {
-    return { places, totalDistance: 0, segments: [] };
-  }
+  return {
+    places,
+    legs: travelLegs(coords, coords, travel),
+    fromStart: start ? travelLegs([start], coords, travel) : null,
+    toEnd: end ? travelLegs(coords, [end], travel) : null,
+    startToEnd: start && end ? travel(start, end).distance : 0,
+    windows: places.map(p => {
+      const hours = options.stops?.[p.name]?.openingHours;
+      if (!hours) return null;
+      const open = toMinutes(hours.open);
+      let close = toMinutes(hours.close);
+      if (close <= open) close += 24 * 60;  // Past midnight
+      return { open, close };
+    }),
+    durations: places.map(p => options.stops?.[p.name]?.visitDuration ?? DEFAULT_VISIT_MINUTES),
+    lateWeights: places.map(p =>
+      LATE_PENALTY_KM_PER_MIN * (options.stops?.[p.name]?.mustVisit ? MUST_VISIT_PENALTY_FACTOR : 1)
+    ),
+    departAt: options.departAt ? toMinutes(options.departAt) : DEFAULT_DEPART_MINUTES,
+  };
+}
 
-  // Start from accommodation or provided start point
-  const accommodation = geoPlaces.find(p =>
-    p.type === 'hotel' ||
-    p.name.toLowerCase().includes('hotel') ||
-    p.name.toLowerCase().includes('hostel')
-  );
+/**
+ * Walk the tour in order: distance, plus penalties for arriving too late for a full
+ * visit before closing (weighted up for must-visit stops) and for waiting until opening
+ */
+function evaluateTour(problem: RouteProblem, tour: number[]): TourCost {
+  if (tour.length === 0) return { distance: problem.startToEnd, cost: problem.startToEnd, missed: [] };
+
+  let distance = problem.fromStart ? problem.fromStart.km[0][tour[0]] : 0;
+  let clock = problem.departAt + (problem.fromStart ? problem.fromStart.minutes[0][tour[0]] : 0);
+  let penalty = 0;
+  const missed: number[] = [];
+
+  for (let i = 0; i < tour.length; i++) {
+    const stop = tour[i];
+    if (i > 0) {
+      distance += problem.legs.km[tour[i - 1]][stop];
+      clock += problem.legs.minutes[tour[i - 1]][stop];
+    }
 
-  const ordered: ExtractedPlace[] = [];
-  const remaining = [...geoPlaces];
-  const segments: OptimizedRoute['segments'] = [];
+    const window = problem.windows[stop];
+    if (window) {
+      if (clock < window.open) {
+        penalty += (window.open - clock) * WAIT_PENALTY_KM_PER_MIN;
+        clock = window.open;
+      }
+      const late = clock + problem.durations[stop] - window.close;
+      if (late > 0) {
+        penalty += late * problem.lateWeights[stop];
+        missed.push(stop);
+      }
+    }
+    clock += problem.durations[stop];
+  }
 
-  // Start with accommodation if exists, otherwise first place
-  let currentIdx = accommodation
-    ? remaining.indexOf(accommodation)
-    : 0;
+  if (problem.toEnd) distance += problem.toEnd.km[tour[tour.length - 1]][0];
+  return { distance, cost: distance + penalty, missed };
+}
 
-  if (currentIdx === -1) currentIdx = 0;
-  ordered.push(remaining.splice(currentIdx, 1)[0]);
+/**
+ * Nearest-neighbour tour from the fixed start (or the first stop)
+ */
+function greedyTour(problem: RouteProblem): number[] {
+  const remaining = problem.places.map((_, i) => i);
+  const tour: number[] = [];
 
-  // Greedy nearest neighbor
   while (remaining.length > 0) {
-    const current = ordered[ordered.length - 1];
-    const currentCoords = getPlaceCoords(current)!;
-
+    const last = tour[tour.length - 1];
     let nearestIdx = 0;
     let nearestDist = Infinity;
 
-    for (let i = 0; i < remaining.length; i++) {
-      const coords = getPlaceCoords(remaining[i]);
-      if (coords) {
-        const dist = haversineDistance(
-          currentCoords.lat,
-          currentCoords.lng,
-          coords.lat,
-          coords.lng
-        );
-        if (dist < nearestDist) {
-          nearestDist = dist;
+    if (last === undefined && !problem.fromStart) {
+      nearestIdx = 0;
+    } else {
+      for (let i = 0; i < remaining.length; i++) {
+        const d = last === undefined ? problem.fromStart!.km[0][remaining[i]] : problem.legs.km[last][remaining[i]];
+        if (d < nearestDist) {
+          nearestDist = d;
           nearestIdx = i;
         }
       }
     }
 
-    const next = remaining.splice(nearestIdx, 1)[0];
-    ordered.push(next);
+    tour.push(remaining.splice(nearestIdx, 1)[0]);
+  }
+
+  return tour;
+}
 
+/**
+ * 2-opt (reverse a stretch) and Or-opt (move a run of up to 3 stops) until neither
+ * finds a cheaper tour. First improvement in a fixed scan order, so the result is
+ * the same on every run for the same input.
+ */
+function improveTour(problem: RouteProblem, initial: number[]): number[] {
+  let tour = initial;
+  let best = evaluateTour(problem, tour).cost;
+  const n = tour.length;
+  const EPSILON = 1e-9;
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    // 2-opt
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const candidate = [...tour.slice(0, i), ...tour.slice(i, j + 1).reverse(), ...tour.slice(j + 1)];
+        const cost = evaluateTour(problem, candidate).cost;
+        if (cost < best - EPSILON) {
+          tour = candidate;
+          best = cost;
+          improved = true;
+        }
+      }
+    }
+
+    // Or-opt
+    for (let length = 1; length <= MAX_OR_OPT_SEGMENT; length++) {
+      for (let i = 0; i + length <= n; i++) {
+        const segment = tour.slice(i, i + length);
+        const rest = [...tour.slice(0, i), ...tour.slice(i + length)];
+        for (let k = 0; k <= rest.length; k++) {
+          if (k === i) continue;
+          const candidate = [...rest.slice(0, k), ...segment, ...rest.slice(k)];
+          const cost = evaluateTour(problem, candidate).cost;
+          if (cost < best - EPSILON) {
+            tour = candidate;
+            best = cost;
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return tour;
+}
+
+/**
+ * Optimize visit order: nearest-neighbour tour improved with 2-opt and Or-opt.
+ * The route starts at `options.start` (or the accommodation among the places) and
+ * can be pinned to an end point. With `options.stops` it keeps visits inside opening
+ * hours, favouring must-visit stops when not everything fits. Deterministic; fine
+ * in the browser for ~60 stops.
+ */
+export function optimizeVisitOrder(
+  places: ExtractedPlace[],
+  options: RouteOptions = {}
+): OptimizedRoute {
+  const empty = { totalDistance: 0, segments: [], greedyDistance: 0, improvementPercent: 0, missedWindows: [] };
+
+  if (places.length <= 1) {
+    return { places, ...empty };
+  }
+
+  const geoPlaces = places.filter(p => getPlaceCoords(p) !== null);
+  if (geoPlaces.length === 0) {
+    return { places, ...empty };
+  }
+
+  // The accommodation is the start unless an explicit start point was given
+  const accommodation = options.start ? undefined : geoPlaces.find(isAccommodation);
+  const stops = accommodation ? geoPlaces.filter(p => p !== accommodation) : geoPlaces;
+  const start = options.start ?? (accommodation ? getPlaceCoords(accommodation) : null);
+  const end = options.end === 'start' ? start : options.end ?? null;
+
+  const mode = options.mode || 'bike';
+  const travel = options.travel ?? ((from: Coords, to: Coords) => estimateTravelTime(from, to, mode));
+  const problem = buildProblem(stops, start, end, travel, options);
+  const greedy = greedyTour(problem);
+  const tour = improveTour(problem, greedy);
+
+  const greedyDistance = evaluateTour(problem, greedy).distance;
+  const result = evaluateTour(problem, tour);
+
+  const ordered = [...(accommodation ? [accommodation] : []), ...tour.map(i => stops[i])];
+
+  // Segments cover every leg in totalDistance, to and from the fixed endpoints too
+  const startPlace = accommodation ?? (start ? endpointPlace('Start', start) : null);
+  const endPlace = options.end === 'start' ? startPlace : end ? endpointPlace('End', end) : null;
+  const legs = [
+    ...(startPlace && !accommodation ? [startPlace] : []),
+    ...ordered,
+    ...(endPlace && (tour.length > 0 || endPlace !== startPlace) ? [endPlace] : []),
+  ];
+  const segments: OptimizedRoute['segments'] = [];
+  for (let i = 1; i < legs.length; i++) {
+    const leg = travel(getPlaceCoords(legs[i - 1])!, getPlaceCoords(legs[i])!);
     segments.push({
-      from: current,
-      to: next,
-      distance: nearestDist,
-      duration: Math.ceil((nearestDist / TRAVEL_SPEEDS.bike) * 60),
+      from: legs[i - 1],
+      to: legs[i],
+      distance: leg.distance,
+      duration: Math.ceil(leg.duration),
     });
   }
 
-  const totalDistance = segments.reduce((sum, s) => sum + s.distance, 0);
+  // Negative when opening hours call for a longer route than nearest-neighbour
+  const improvementPercent = greedyDistance > 0
+    ? Math.round(((greedyDistance - result.distance) / greedyDistance) * 1000) / 10
+    : 0;
 
-  return { places: ordered, totalDistance, segments };
+  return {
+    places: ordered,
+    totalDistance: result.distance,
+    segments,
+    greedyDistance,
+    improvementPercent,
+    missedWindows: result.missed.map(i => stops[i].name),
+  };
 }
 
 /**
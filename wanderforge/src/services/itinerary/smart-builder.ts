@@ -8,10 +8,20 @@ import type {
   Coords,
   PlaceRecommendation,
   TimeSlot,
+  IntercityLeg,
+  StopConstraint,
+  DayWeather,
 } from './types';
+import type { CurrencyCode, Money, NormalizedBudget } from '../money';
 // ExtractedPlace imported for knowledgeToExtractedPlace type compatibility
 import { haversineDistance, optimizeVisitOrder } from './route-optimizer';
+import { attachRoadGeometry, getTravel, prefetchTravelMatrices } from './travel-routing';
+import { scheduleIntercityLegs, splitTripIntoStays } from './intercity';
+import { daySpan, findClosureViolations, fitVisit, isClosedOn, moveClosedPlaces } from './opening-hours';
+import { DEFAULT_HOLIDAY_REGION } from './holiday-calendar';
+import { getTripWeather, heatFatigue, swapForRain, weatherAvoidSlots, weatherWarnings } from './weather';
 import { knowledgeToExtractedPlace } from './place-research';
+import { convertMoney, formatMoney } from '../money';
 
 // Time constants (in minutes from midnight)
 const BREAKFAST_TIME = 7 * 60 + 30;    // 07:30
@@ -25,7 +35,7 @@ const DINNER_TIME = 19 * 60 + 30;      // 19:30
 const NIGHT_START = 21 * 60;           // 21:00
 const DAY_END = 23 * 60;               // 23:00
 
-// Meal configuration
+// Meal configuration (costs in INR)
 const MEAL_CONFIG = {
   breakfast: { time: BREAKFAST_TIME, duration: 45, cost: 250, label: 'Breakfast', preferCafe: true },
   morningSnack: { time: MORNING_SNACK_TIME, duration: 20, cost: 100, label: 'Morning Tea', preferCafe: true },
@@ -36,6 +46,11 @@ const MEAL_CONFIG = {
 
 type MealType = keyof typeof MEAL_CONFIG;
 
+// Entry fees and meal prices are researched in rupees; a dollar trip shows dollars
+function fromInr(amount: number, currency: CurrencyCode): number {
+  return Math.round(convertMoney({ amount, currency: 'INR' }, currency).amount);
+}
+
 /**
  * Format minutes from midnight to HH:MM string
  */
@@ -97,20 +112,16 @@ function getOptimalTimeOfDay(place: PlaceKnowledge): 'morning' | 'afternoon' | '
 }
 
 /**
- * Check if a place is open at a given time
+ * Optimal time of day, moved out of slots the day's weather rules out (hot afternoons, storms)
  */
-function _isPlaceOpen(place: PlaceKnowledge, minutes: number): boolean {
-  if (!place.openingHours) return true; // Assume open if unknown
-
-  const openTime = parseTime(place.openingHours.open);
-  const closeTime = parseTime(place.openingHours.close);
-
-  // Handle overnight hours (e.g., bar open until 2 AM)
-  if (closeTime < openTime) {
-    return minutes >= openTime || minutes < closeTime;
+function getWeatherTimeOfDay(place: PlaceKnowledge, weather?: DayWeather): ReturnType<typeof getOptimalTimeOfDay> {
+  const optimal = getOptimalTimeOfDay(place);
+  const avoid = weatherAvoidSlots(place.type, weather);
+  if (avoid.length === 0 || (optimal !== 'flexible' && !avoid.includes(optimal))) {
+    return optimal;
   }
-
-  return minutes >= openTime && minutes < closeTime;
+  const slots: TimeSlot[] = ['morning', 'evening', 'afternoon', 'night'];
+  return slots.find(slot => !avoid.includes(slot)) ?? optimal;
 }
 
 /**
@@ -396,6 +407,12 @@ const EFFECTIVE_DAY_MINUTES = TOTAL_DAY_MINUTES - DAILY_BUFFER; // ~615 min = 10
  * Calculate travel time between two places in minutes
  */
 function calculateTravelTime(from: PlaceKnowledge, to: PlaceKnowledge, mode: keyof typeof TRAVEL_SPEEDS = 'autoRickshaw'): number {
+  // Road time when the routing backend has it
+  if (mode === 'autoRickshaw') {
+    const road = getTravel(from.coordinates, to.coordinates, 'auto');
+    if (road.source === 'road') return road.duration;
+  }
+
   const distance = haversineDistance(
     from.coordinates.lat,
     from.coordinates.lng,
@@ -734,19 +751,22 @@ function buildDaySchedule(
   dayNumber: number,
   dateStr: string,
   places: PlaceKnowledge[],
-  budget: { total: number; currency: string; perPerson: boolean } | null,
-  numDays: number
+  budget: NormalizedBudget | null,
+  numDays: number,
+  holidayRegion: string = DEFAULT_HOLIDAY_REGION,
+  weather?: DayWeather
 ): DayItinerary {
   const activities: ScheduledActivity[] = [];
   let currentTime = MORNING_START;
   let totalFatigue = 0;
   let totalCost = 0;
   let activityIndex = 0;
+  const currency = budget?.currency ?? 'INR';
 
-  // Sort places by optimal time
+  // Sort places by optimal time (for today's weather)
   const sorted = [...places].sort((a, b) => {
     const timeOrder = { morning: 0, afternoon: 1, evening: 2, night: 3, flexible: 1.5 };
-    return timeOrder[getOptimalTimeOfDay(a)] - timeOrder[getOptimalTimeOfDay(b)];
+    return timeOrder[getWeatherTimeOfDay(a, weather)] - timeOrder[getWeatherTimeOfDay(b, weather)];
   });
 
   for (const place of sorted) {
@@ -754,7 +774,7 @@ function buildDaySchedule(
     if (place.type === 'accommodation') continue;
 
     // Determine start time based on optimal time
-    const optimalTime = getOptimalTimeOfDay(place);
+    const optimalTime = getWeatherTimeOfDay(place, weather);
     let startTime = currentTime;
 
     if (optimalTime === 'afternoon' && currentTime < AFTERNOON_START) {
@@ -765,18 +785,21 @@ function buildDaySchedule(
       startTime = NIGHT_START;
     }
 
-    // Check if place is open
-    const openTime = place.openingHours ? parseTime(place.openingHours.open) : MORNING_START;
-    const closeTime = place.openingHours ? parseTime(place.openingHours.close) : DAY_END;
-
-    if (startTime < openTime) {
-      startTime = openTime;
+    // Morning ran long: wait out a hot or stormy afternoon rather than spend most of the visit in it
+    const avoid = weatherAvoidSlots(place.type, weather);
+    const midVisit = startTime + place.typicalDuration / 2;
+    if (startTime < EVENING_START && getTimeSlot(midVisit) === 'afternoon' &&
+        avoid.includes('afternoon') && !avoid.includes('evening')) {
+      startTime = EVENING_START;
     }
 
-    // Skip if we can't fit this visit before closing
-    if (startTime + place.typicalDuration > closeTime) {
+    // Fit the visit into one of today's opening windows (weekly closures and holidays
+    // leave none); skip it if it can't be done before closing
+    const openStart = fitVisit(place.openingHours, dateStr, startTime, place.typicalDuration, holidayRegion);
+    if (openStart === null || (!place.openingHours && openStart + place.typicalDuration > DAY_END)) {
       continue;
     }
+    startTime = openStart;
 
     // Skip if too late in the day (except nightlife)
     if (startTime >= DAY_END && place.type !== 'nightlife') {
@@ -793,7 +816,11 @@ function buildDaySchedule(
           place.coordinates.lat,
           place.coordinates.lng
         );
-        const travelTime = Math.max(15, Math.round(travelDistance * 3)); // ~20 km/h average
+        const travelMode = travelDistance > 5 ? 'car' : 'auto';
+        const road = getTravel(prevActivity.place.coordinates, place.coordinates, travelMode);
+        const travelTime = road.source === 'road'
+          ? Math.max(15, road.duration)
+          : Math.max(15, Math.round(travelDistance * 3)); // ~20 km/h average
         startTime = Math.max(startTime, currentTime + travelTime);
 
         // Add travel segment
@@ -814,9 +841,10 @@ function buildDaySchedule(
           type: 'travel',
           fatigueImpact: Math.round(travelTime / 10),
           travelFromPrev: {
-            distance: Math.round(travelDistance * 10) / 10,
+            distance: Math.round((road.source === 'road' ? road.distance : travelDistance) * 10) / 10,
             duration: travelTime,
-            mode: travelDistance > 5 ? 'car' : 'auto',
+            mode: travelMode,
+            source: road.source,
           },
         });
         totalFatigue += Math.round(travelTime / 10);
@@ -825,7 +853,10 @@ function buildDaySchedule(
 
     // Add the main activity
     const endTime = startTime + place.typicalDuration;
-    const activityCost = place.entryFee || estimateCostByType(place.type, budget, numDays);
+    const fatigue = heatFatigue(getFatigueByType(place.type), place.type, startTime, weather);
+    const activityCost = place.entryFee
+      ? fromInr(place.entryFee, currency)
+      : estimateCostByType(place.type, budget, numDays);
 
     activities.push({
       id: `visit-${dayNumber}-${activityIndex}`,
@@ -836,14 +867,14 @@ function buildDaySchedule(
       endTime: formatTime(endTime),
       duration: place.typicalDuration,
       type: 'visit',
-      fatigueImpact: getFatigueByType(place.type),
+      fatigueImpact: fatigue,
       crowdLevel: getCrowdLevel(startTime, place.crowdPeakHours),
       bestTimeReason: place.bestTimeToVisit,
-      estimatedCost: activityCost,
+      estimatedCost: { amount: activityCost, currency },
     });
 
     totalCost += activityCost;
-    totalFatigue += getFatigueByType(place.type);
+    totalFatigue += fatigue;
     currentTime = endTime + 15; // 15 min buffer
     activityIndex++;
   }
@@ -868,7 +899,8 @@ function buildDaySchedule(
   const recommendations = generateDayRecommendations(places, dateStr);
 
   // Insert all meals (breakfast, snacks, lunch, dinner)
-  const { activities: activitiesWithMeals, mealCost } = insertAllMeals(activities, dayNumber, places);
+  const { activities: activitiesWithMeals, mealCost } = insertAllMeals(activities, dayNumber, places, currency);
+  const warnings = weatherWarnings(weather);
 
   return {
     day: dayNumber,
@@ -878,6 +910,8 @@ function buildDaySchedule(
     totalCost: totalCost + mealCost,
     travelDistance: Math.round(travelDistance * 10) / 10,
     recommendations,
+    ...(weather ? { weather } : {}),
+    ...(warnings.length > 0 ? { weatherWarnings: warnings } : {}),
   };
 }
 
@@ -906,7 +940,7 @@ function createMealActivity(
   dayNumber: number,
   reason: string,
   duration: number = 60,
-  cost: number = 500
+  cost: Money = { amount: 500, currency: 'INR' }
 ): ScheduledActivity {
   return {
     id,
@@ -987,7 +1021,8 @@ function findInsertIndex(activities: ScheduledActivity[], mealTime: number): num
 function insertAllMeals(
   activities: ScheduledActivity[],
   dayNumber: number,
-  places: PlaceKnowledge[]
+  places: PlaceKnowledge[],
+  currency: CurrencyCode = 'INR'
 ): { activities: ScheduledActivity[]; mealCost: number } {
   const withMeals = [...activities];
   const usedRestaurants = new Set<string>();
@@ -1020,6 +1055,7 @@ function insertAllMeals(
   // Insert each meal
   for (const mealType of mealsToInsert) {
     const config = MEAL_CONFIG[mealType];
+    const cost = fromInr(config.cost, currency);
 
     // Find the best restaurant for this meal
     const restaurant = findBestRestaurantForMeal(
@@ -1037,7 +1073,7 @@ function insertAllMeals(
         dayNumber,
         config.label,
         config.duration,
-        config.cost
+        { amount: cost, currency }
       );
 
       // Find where to insert based on time
@@ -1046,7 +1082,7 @@ function insertAllMeals(
 
       // Track used restaurant and cost
       usedRestaurants.add(restaurant.name);
-      mealCost += config.cost;
+      mealCost += cost;
     }
   }
 
@@ -1061,9 +1097,10 @@ function insertAllMeals(
  */
 function estimateCostByType(
   type: string,
-  budget: { total: number } | null,
+  budget: NormalizedBudget | null,
   numDays: number
 ): number {
+  // INR; only used without a budget, so the trip is in rupees anyway
   const defaults: Record<string, number> = {
     beach: 0,
     fort: 100,
@@ -1075,7 +1112,7 @@ function estimateCostByType(
   };
 
   if (budget) {
-    const dailyBudget = budget.total / numDays;
+    const dailyBudget = budget.perPersonTotal / numDays;
     const typeMultipliers: Record<string, number> = {
       beach: 0,
       fort: 0.02,
@@ -1188,72 +1225,184 @@ function addDays(dateStr: string, days: number): string {
   return date.toISOString().split('T')[0];
 }
 
+/**
+ * The accommodation closest to a point (multi-city trips have one per city)
+ */
+function nearestStay(stays: PlaceKnowledge[], point: Coords): PlaceKnowledge | undefined {
+  let best: PlaceKnowledge | undefined;
+  let bestDistance = Infinity;
+  for (const stay of stays) {
+    const distance = haversineDistance(point.lat, point.lng, stay.coordinates.lat, stay.coordinates.lng);
+    if (distance < bestDistance) {
+      best = stay;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Multi-city trips: give each place to the nearest stop on the route and spread it over
+ * the days spent there. Transfer days only get places when a city has no other day.
+ */
+function distributeAcrossStays(
+  places: PlaceKnowledge[],
+  numDays: number,
+  startDate: string,
+  legs: IntercityLeg[]
+): PlaceKnowledge[][] {
+  const stays = splitTripIntoStays(startDate, numDays, legs).filter(s => s.days.length > 0);
+  const located = stays.filter(s => s.city.coordinates);
+  if (located.length === 0) return distributeByGeography(places, numDays);
+
+  const byStay = new Map(located.map(s => [s, [] as PlaceKnowledge[]]));
+  for (const place of places) {
+    const nearest = located.reduce((best, s) =>
+      haversineDistance(place.coordinates.lat, place.coordinates.lng, s.city.coordinates!.lat, s.city.coordinates!.lng) <
+      haversineDistance(place.coordinates.lat, place.coordinates.lng, best.city.coordinates!.lat, best.city.coordinates!.lng)
+        ? s : best
+    );
+    byStay.get(nearest)!.push(place);
+  }
+
+  const clusters: PlaceKnowledge[][] = Array.from({ length: numDays }, () => []);
+  byStay.forEach((stayPlaces, s) => {
+    const fullDays = s.days.filter(d => !s.transferDays.includes(d));
+    const usable = fullDays.length > 0 ? fullDays : s.days;
+    distributeByGeography(stayPlaces, usable.length).forEach((dayPlaces, i) => {
+      clusters[usable[i]].push(...dayPlaces);
+    });
+  });
+  return clusters;
+}
+
 /**
  * Main function: Generate smart itinerary from PlaceKnowledge
+ * Intercity legs (trains, buses, flights between cities) are scheduled as travel
+ * activities and the visits on those days planned around them.
  */
 export async function generateSmartItinerary(
   knowledge: PlaceKnowledge[],
   dates: { start: string; end: string },
-  budget: { total: number; currency: string; perPerson: boolean } | null,
-  _members: string[] = []
+  budget: NormalizedBudget | null,
+  _members: string[] = [],
+  intercityLegs: IntercityLeg[] = [],
+  options: { stops?: Record<string, StopConstraint>; holidayRegion?: string } = {}
 ): Promise<GeneratedItinerary> {
   console.log(`[SmartBuilder] Generating itinerary for ${knowledge.length} places, ${dates.start} to ${dates.end}`);
 
   const numDays = daysBetween(dates.start, dates.end);
+  const tripDates = Array.from({ length: numDays }, (_, i) => addDays(dates.start, i));
+  const holidayRegion = options.holidayRegion ?? DEFAULT_HOLIDAY_REGION;
 
   // Filter out accommodation from visit planning
   const visitablePlaces = knowledge.filter(p => p.type !== 'accommodation');
+  const stays = knowledge.filter(p => p.type === 'accommodation');
+
+  // Road distances for day planning and travel legs (autos in town, cars further out)
+  await prefetchTravelMatrices(knowledge.map(p => p.coordinates), ['auto', 'car']);
 
   // Distribute places across days using geography-aware algorithm
   // This ensures:
   // 1. Places that are close together are on the same day
   // 2. Days are balanced (no day with 6 places while another has 1)
   // 3. Travel distance within each day is minimized
-  const clusters = distributeByGeography(visitablePlaces, numDays);
+  const distributed = intercityLegs.length > 0
+    ? distributeAcrossStays(visitablePlaces, numDays, dates.start, intercityLegs)
+    : distributeByGeography(visitablePlaces, numDays);
+
+  // Nothing on a day it's closed (weekly closure, public holiday); stay within the city
+  const cityStays = intercityLegs.length > 0 ? splitTripIntoStays(dates.start, numDays, intercityLegs) : [];
+  const sameCity = (from: number, to: number) =>
+    cityStays.length === 0 || cityStays.some(s => s.days.includes(from) && s.days.includes(to));
+  const openClusters = moveClosedPlaces(distributed, tripDates, p => p.openingHours, holidayRegion, sameCity);
+  const violations = findClosureViolations(
+    visitablePlaces,
+    tripDates,
+    name => options.stops?.[name]?.mustVisit ?? false,
+    holidayRegion
+  );
+  violations.forEach(v => console.warn(`[SmartBuilder] Must-visit ${v.place} is closed every trip day: ${v.reason}`));
+
+  // Weather where each day is spent; wet days trade outdoor places for a dry day's indoor ones
+  const weather = await getTripWeather(openClusters.map((places, i) => ({
+    date: tripDates[i],
+    point: places.length > 0
+      ? getClusterCentroid(places)
+      : visitablePlaces.length > 0 ? getClusterCentroid(visitablePlaces) : null,
+  })));
+  const clusters = swapForRain(
+    openClusters,
+    weather,
+    p => p.type,
+    (place, from, to) => sameCity(from, to) && !isClosedOn(place.openingHours, tripDates[to], holidayRegion)
+  );
 
   // Build each day's schedule
-  const days: DayItinerary[] = [];
+  let days: DayItinerary[] = [];
 
   for (let i = 0; i < numDays; i++) {
     const dayNumber = i + 1;
-    const dateStr = addDays(dates.start, i);
+    const dateStr = tripDates[i];
     const dayPlaces = clusters[i] || [];
 
     // Optimize route within the day's places
     if (dayPlaces.length > 1) {
-      const optimizedRoute = optimizeVisitOrder(dayPlaces.map(knowledgeToExtractedPlace));
+      // Hotel to hotel (the one nearest the day's places), visiting inside opening hours
+      const stay = nearestStay(stays, dayPlaces[0].coordinates);
+      const optimizedRoute = optimizeVisitOrder(dayPlaces.map(knowledgeToExtractedPlace), {
+        travel: (a, b) => getTravel(a, b, 'auto'),
+        start: stay?.coordinates,
+        end: stay ? 'start' : undefined,
+        departAt: '08:00',
+        stops: Object.fromEntries(dayPlaces.map(k => [
+          k.name,
+          {
+            openingHours: daySpan(k.openingHours, dateStr, holidayRegion),
+            visitDuration: k.typicalDuration,
+            mustVisit: options.stops?.[k.name]?.mustVisit,
+          },
+        ])),
+      });
       const orderedKnowledge = optimizedRoute.places.map(ep =>
         dayPlaces.find(k => k.name === ep.name) || dayPlaces[0]
       );
-      const daySchedule = buildDaySchedule(dayNumber, dateStr, orderedKnowledge, budget, numDays);
+      const daySchedule = buildDaySchedule(dayNumber, dateStr, orderedKnowledge, budget, numDays, holidayRegion, weather[i]);
       days.push(daySchedule);
     } else {
-      const daySchedule = buildDaySchedule(dayNumber, dateStr, dayPlaces, budget, numDays);
+      const daySchedule = buildDaySchedule(dayNumber, dateStr, dayPlaces, budget, numDays, holidayRegion, weather[i]);
       days.push(daySchedule);
     }
   }
 
-  // Split budget equally among all visit activities
-  if (budget && budget.total > 0) {
+  // Trains, buses and flights between cities; sightseeing on those days makes way
+  days = scheduleIntercityLegs(days, intercityLegs, dates.start, budget?.currency ?? 'INR');
+
+  // Split each person's budget (less intercity fares) equally among all visit activities
+  if (budget && budget.perPersonTotal > 0) {
+    const fares = days.reduce(
+      (sum, d) => sum + d.activities.reduce((s, a) => s + (a.intercity ? a.estimatedCost?.amount ?? 0 : 0), 0),
+      0
+    );
     const totalVisitActivities = days.reduce(
       (sum, d) => sum + d.activities.filter(a => a.type === 'visit').length,
       0
     );
 
     if (totalVisitActivities > 0) {
-      const equalCostPerActivity = Math.round(budget.total / totalVisitActivities);
-      console.log(`[SmartBuilder] Splitting budget ₹${budget.total} equally: ₹${equalCostPerActivity} per activity (${totalVisitActivities} activities)`);
+      const equalCostPerActivity = Math.round(Math.max(0, budget.perPersonTotal - fares) / totalVisitActivities);
+      console.log(`[SmartBuilder] Splitting budget ${formatMoney({ amount: budget.perPersonTotal, currency: budget.currency })} equally: ${formatMoney({ amount: equalCostPerActivity, currency: budget.currency })} per activity (${totalVisitActivities} activities)`);
 
       // Update each activity's cost and recalculate day totals
       for (const day of days) {
         let dayTotalCost = 0;
         for (const activity of day.activities) {
           if (activity.type === 'visit') {
-            activity.estimatedCost = equalCostPerActivity;
+            activity.estimatedCost = { amount: equalCostPerActivity, currency: budget.currency };
             dayTotalCost += equalCostPerActivity;
-          } else if (activity.type === 'meal') {
-            // Keep meal costs as is (from MEAL_CONFIG)
-            dayTotalCost += activity.estimatedCost || 0;
+          } else if (activity.type === 'meal' || activity.intercity) {
+            // Keep meal costs (from MEAL_CONFIG) and fares as they are
+            dayTotalCost += activity.estimatedCost?.amount || 0;
           }
         }
         day.totalCost = dayTotalCost;
@@ -1261,6 +1410,9 @@ export async function generateSmartItinerary(
     }
   }
 
+  // Road geometry for the travel legs drawn on the map
+  await attachRoadGeometry(days);
+
   // Build route polyline from all visit coordinates
   const route: Coords[] = [];
   for (const day of days) {
@@ -1275,6 +1427,7 @@ export async function generateSmartItinerary(
   const summary: ItinerarySummary = {
     totalDays: numDays,
     totalCost: days.reduce((sum, d) => sum + d.totalCost, 0),
+    currency: budget?.currency ?? 'INR',
     placesVisited: days.reduce((sum, d) => sum + d.activities.filter(a => a.type === 'visit').length, 0),
     distanceTraveled: Math.round(days.reduce((sum, d) => sum + d.travelDistance, 0) * 10) / 10,
     averageFatiguePerDay: Math.round(days.reduce((sum, d) => sum + d.totalFatigue, 0) / numDays),
@@ -1288,6 +1441,7 @@ export async function generateSmartItinerary(
     route,
     summary,
     generatedAt: new Date().toISOString(),
+    ...(violations.length > 0 ? { violations } : {}),
   };
 }
 
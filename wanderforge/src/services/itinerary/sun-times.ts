@@ -0,0 +1,50 @@
+// Sun Times - sunrise and sunset for a place and date (NOAA approximation, within a minute or two)
+import type { Coords } from './types';
+
+// Trips are planned in India; pass another offset for places elsewhere
+export const IST_OFFSET_MINUTES = 330;
+
+const ZENITH = 90.833;  // Refraction and the sun's radius: the top edge touches the horizon
+
+function formatMinutes(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Local sunrise and sunset ("06:21", "18:02") on `date` ("YYYY-MM-DD"),
+ * or null where the sun doesn't rise or set that day (polar regions)
+ */
+export function getSunTimes(
+  coords: Coords,
+  date: string,
+  utcOffsetMinutes: number = IST_OFFSET_MINUTES
+): { sunrise: string; sunset: string } | null {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  const dayOfYear = Math.round((Date.UTC(y, m - 1, d) - Date.UTC(y, 0, 1)) / 86_400_000) + 1;
+  const rad = Math.PI / 180;
+
+  const gamma = (2 * Math.PI / 365) * (dayOfYear - 1);
+  const equationOfTime = 229.18 * (
+    0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma) -
+    0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma)
+  );
+  const declination =
+    0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma);
+
+  const lat = coords.lat * rad;
+  const cosHourAngle = Math.cos(ZENITH * rad) / (Math.cos(lat) * Math.cos(declination)) -
+    Math.tan(lat) * Math.tan(declination);
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+  const hourAngle = Math.acos(cosHourAngle) / rad;
+
+  const sunriseUtc = 720 - 4 * (coords.lng + hourAngle) - equationOfTime;
+  const sunsetUtc = 720 - 4 * (coords.lng - hourAngle) - equationOfTime;
+
+  return {
+    sunrise: formatMinutes(sunriseUtc + utcOffsetMinutes),
+    sunset: formatMinutes(sunsetUtc + utcOffsetMinutes),
+  };
+}
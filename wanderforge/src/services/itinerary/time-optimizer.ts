@@ -5,7 +5,9 @@ import type {
   TimePreference,
   PlaceCategory,
   ScheduledActivity,
+  StopConstraint,
 } from './types';
+import { fitVisit } from './opening-hours';
 
 // Time slot definitions (hours)
 export const TIME_SLOTS: Record<TimeSlot, { start: number; end: number }> = {
@@ -110,14 +112,17 @@ export function mapToPlaceCategory(place: ExtractedPlace): PlaceCategory {
 }
 
 /**
- * Get the best time slot for a place
+ * Get the best time slot for a place (pass weatherTimePreferences for the day's weather)
  */
-export function getBestTimeSlot(place: ExtractedPlace): {
+export function getBestTimeSlot(
+  place: ExtractedPlace,
+  preferences: Record<PlaceCategory, TimePreference> = PLACE_TIME_PREFERENCES
+): {
   slot: TimeSlot;
   reason: string;
 } {
   const category = mapToPlaceCategory(place);
-  const pref = PLACE_TIME_PREFERENCES[category];
+  const pref = preferences[category];
 
   return {
     slot: pref.best[0] || 'morning',
@@ -156,9 +161,25 @@ function generateId(): string {
 export function assignTimeSlots(
   places: ExtractedPlace[],
   dayNumber: number,
-  _travelTimes: number[] = []
+  _travelTimes: number[] = [],
+  schedule?: {
+    date: string;
+    stops?: Record<string, StopConstraint>;
+    holidayRegion?: string;
+    preferences?: Record<PlaceCategory, TimePreference>;  // Adjusted for the day's weather
+  }
 ): ScheduledActivity[] {
   const activities: ScheduledActivity[] = [];
+  const preferences = schedule?.preferences ?? PLACE_TIME_PREFERENCES;
+
+  // Start hour for a visit inside the place's opening hours on the day, or null to leave it out
+  const openAt = (place: ExtractedPlace, hour: number, duration: number): number | null => {
+    if (!schedule) return hour;
+    const hours = schedule.stops?.[place.name]?.openingHours;
+    if (!hours) return hour;
+    const start = fitVisit(hours, schedule.date, Math.round(hour * 60), duration, schedule.holidayRegion);
+    return start === null ? null : start / 60;
+  };
 
   // Separate by time preference
   const morningPlaces: ExtractedPlace[] = [];
@@ -170,7 +191,7 @@ export function assignTimeSlots(
   for (const place of places) {
     if (place === accommodation) continue;
 
-    const { slot } = getBestTimeSlot(place);
+    const { slot } = getBestTimeSlot(place, preferences);
     switch (slot) {
       case 'morning':
         morningPlaces.push(place);
@@ -209,7 +230,16 @@ export function assignTimeSlots(
   for (const place of morningPlaces) {
     const category = mapToPlaceCategory(place);
     const duration = DEFAULT_DURATIONS[category];
-    const { reason } = getBestTimeSlot(place);
+    // Morning is full and the weather rules out the afternoon (preferences differ from the defaults)
+    if (currentHour >= 12 && preferences[category] !== PLACE_TIME_PREFERENCES[category] &&
+        preferences[category].avoid.includes('afternoon')) {
+      eveningPlaces.push(place);
+      continue;
+    }
+    const { reason } = getBestTimeSlot(place, preferences);
+    const start = openAt(place, currentHour, duration);
+    if (start === null) continue;
+    currentHour = start;
 
     activities.push({
       id: generateId(),
@@ -248,7 +278,10 @@ export function assignTimeSlots(
   for (const place of afternoonPlaces) {
     const category = mapToPlaceCategory(place);
     const duration = DEFAULT_DURATIONS[category];
-    const { reason } = getBestTimeSlot(place);
+    const { reason } = getBestTimeSlot(place, preferences);
+    const start = openAt(place, currentHour, duration);
+    if (start === null) continue;
+    currentHour = start;
 
     activities.push({
       id: generateId(),
@@ -286,11 +319,12 @@ export function assignTimeSlots(
   for (const place of eveningPlaces) {
     const category = mapToPlaceCategory(place);
     const duration = DEFAULT_DURATIONS[category];
-    const { reason } = getBestTimeSlot(place);
+    const { reason } = getBestTimeSlot(place, preferences);
 
     // Beaches should be timed for sunset (around 6pm in Goa)
     const isBeach = category === 'beach';
-    const startHour = isBeach ? 17 : Math.max(currentHour, 17);
+    const startHour = openAt(place, isBeach ? 17 : Math.max(currentHour, 17), duration);
+    if (startHour === null) continue;
 
     activities.push({
       id: generateId(),
@@ -327,7 +361,10 @@ export function assignTimeSlots(
   for (const place of nightPlaces) {
     const category = mapToPlaceCategory(place);
     const duration = DEFAULT_DURATIONS[category];
-    const { reason } = getBestTimeSlot(place);
+    const { reason } = getBestTimeSlot(place, preferences);
+    const start = openAt(place, Math.max(currentHour, 21), duration);
+    if (start === null) continue;
+    currentHour = start;
 
     activities.push({
       id: generateId(),
@@ -0,0 +1,367 @@
+// Travel Routing - road-network distances, durations and geometry
+// Straight-line distance at a fixed speed badly underestimates ghat roads and river crossings
+// (Hampi to Anegundi is 5 km as the crow flies, far more by road). A routing backend answers
+// instead when one is configured: OSRM out of the box (self-hostable), others via setRoutingBackend.
+// Network calls happen up front (prefetchTravelMatrix / attachRoadGeometry); the planners then
+// read the cache synchronously through getTravel, which falls back to the haversine estimate.
+import type { Coords, DayItinerary, OptimizedRoute, RoadLeg, RoutingBackend, TravelInfo, TravelMatrix, TravelMode } from './types';
+import { fetchWithRetry } from '../ai/utils/retry-utils';
+import { estimateTravelTime, getDefaultTravelMode, getPlaceCoords, haversineDistance, TRAVEL_SPEEDS } from './route-optimizer';
+
+const MAX_CACHE_ENTRIES = 20000;
+const MAX_MATRIX_POINTS = 100;  // OSRM's default --max-table-size
+
+const RETRY_CONFIG = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 4000,
+};
+
+// ==================== Cache ====================
+
+const legCache = new Map<string, RoadLeg>();
+
+function pointKey(point: Coords): string {
+  return `${point.lat.toFixed(5)},${point.lng.toFixed(5)}`;
+}
+
+function legKey(from: Coords, to: Coords, mode: TravelMode): string {
+  return `${mode}|${pointKey(from)}|${pointKey(to)}`;
+}
+
+function cacheLeg(key: string, leg: RoadLeg): void {
+  // Keep geometry we already have when a matrix refreshes the numbers
+  const existing = legCache.get(key);
+  legCache.delete(key);
+  legCache.set(key, { ...leg, polyline: leg.polyline ?? existing?.polyline ?? null });
+
+  if (legCache.size > MAX_CACHE_ENTRIES) {
+    legCache.delete(legCache.keys().next().value!);
+  }
+}
+
+/**
+ * Forget all cached road legs (e.g. after switching backends)
+ */
+export function clearTravelCache(): void {
+  legCache.clear();
+}
+
+// ==================== OSRM Backend ====================
+
+export interface OsrmBackendConfig {
+  baseUrl: string;      // e.g. http://localhost:5000 or https://router.project-osrm.org
+  footUrl?: string;     // Separate osrm-routed instance for the foot profile, if any
+}
+
+// OSRM ships car, bike and foot profiles. Two-wheelers and autos ride the car network,
+// but slower than its free-flow car speeds, so they're scaled like the straight-line estimates.
+const OSRM_PROFILES: Record<TravelMode, 'driving' | 'foot'> = {
+  car: 'driving',
+  bike: 'driving',
+  auto: 'driving',
+  walk: 'foot',
+};
+
+function osrmDurationFactor(mode: TravelMode): number {
+  return OSRM_PROFILES[mode] === 'driving' ? TRAVEL_SPEEDS.car / TRAVEL_SPEEDS[mode] : 1;
+}
+
+/**
+ * Decode an encoded polyline (precision 5, as OSRM returns by default)
+ */
+export function decodePolyline(encoded: string, precision: number = 5): Coords[] {
+  const factor = Math.pow(10, precision);
+  const coords: Coords[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    coords.push({ lat: lat / factor, lng: lng / factor });
+  }
+
+  return coords;
+}
+
+/**
+ * Routing backend for any OSRM-compatible HTTP server
+ */
+export function createOsrmBackend(config: OsrmBackendConfig): RoutingBackend {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const footUrl = config.footUrl?.replace(/\/+$/, '');
+
+  const request = async <T>(service: 'table' | 'route', points: Coords[], mode: TravelMode, params: string): Promise<T> => {
+    const profile = OSRM_PROFILES[mode];
+    const host = profile === 'foot' && footUrl ? footUrl : baseUrl;
+    const coordinates = points.map(p => `${p.lng},${p.lat}`).join(';');
+
+    const response = await fetchWithRetry(`${host}/${service}/v1/${profile}/${coordinates}?${params}`, {
+      headers: { 'Accept': 'application/json' },
+    }, RETRY_CONFIG);
+    if (!response.ok) {
+      throw new Error(`OSRM error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.code !== 'Ok') {
+      throw new Error(`OSRM ${service} failed: ${data.code}${data.message ? ` - ${data.message}` : ''}`);
+    }
+    return data as T;
+  };
+
+  return {
+    name: 'osrm',
+
+    async matrix(points, mode) {
+      const data = await request<{ durations: Array<Array<number | null>>; distances: Array<Array<number | null>> }>(
+        'table', points, mode, 'annotations=duration,distance'
+      );
+      const factor = osrmDurationFactor(mode);
+
+      // null = no road between the two points; keep the estimate for those
+      return {
+        distances: data.distances.map((row, i) => row.map((m, j) =>
+          m === null ? estimateTravelTime(points[i], points[j], mode).distance : m / 1000
+        )),
+        durations: data.durations.map((row, i) => row.map((s, j) =>
+          s === null ? estimateTravelTime(points[i], points[j], mode).duration : Math.ceil((s / 60) * factor)
+        )),
+      };
+    },
+
+    async route(points, mode) {
+      const data = await request<{
+        routes: Array<{ legs: Array<{ distance: number; duration: number; steps: Array<{ geometry: string }> }> }>;
+      }>('route', points, mode, 'overview=false&steps=true&geometries=polyline');
+      const factor = osrmDurationFactor(mode);
+
+      return data.routes[0].legs.map(leg => ({
+        distance: leg.distance / 1000,
+        duration: Math.ceil((leg.duration / 60) * factor),
+        polyline: leg.steps.flatMap(step => decodePolyline(step.geometry)),
+      }));
+    },
+  };
+}
+
+// ==================== Backend Selection ====================
+
+let backend: RoutingBackend | null | undefined;
+
+function backendFromEnv(): RoutingBackend | null {
+  const baseUrl = import.meta.env.VITE_ROUTING_OSRM_URL;
+  if (!baseUrl) return null;
+  return createOsrmBackend({
+    baseUrl: String(baseUrl),
+    footUrl: import.meta.env.VITE_ROUTING_OSRM_FOOT_URL || undefined,
+  });
+}
+
+/**
+ * The routing backend in use, or null when travel is estimated from straight-line distance
+ */
+export function getRoutingBackend(): RoutingBackend | null {
+  if (backend === undefined) {
+    backend = backendFromEnv();
+  }
+  return backend;
+}
+
+/**
+ * Plug in a different backend (Valhalla, GraphHopper...), or null to use estimates only
+ */
+export function setRoutingBackend(next: RoutingBackend | null): void {
+  backend = next;
+  clearTravelCache();
+}
+
+// ==================== Public API ====================
+
+/**
+ * Prefetch matrices for several modes (e.g. bike for short hops, car for long ones)
+ */
+export async function prefetchTravelMatrices(points: Coords[], modes: TravelMode[]): Promise<void> {
+  for (const mode of modes) {
+    await prefetchTravelMatrix(points, mode);
+  }
+}
+
+/**
+ * Fetch road distances/durations between every pair of points into the cache.
+ * Returns the matrix, or null when there is no backend or it failed (estimates apply).
+ */
+export async function prefetchTravelMatrix(
+  points: Coords[],
+  mode: TravelMode = 'bike'
+): Promise<TravelMatrix | null> {
+  const routing = getRoutingBackend();
+  const unique = Array.from(new Map(points.map(p => [pointKey(p), p])).values());
+  if (!routing || unique.length < 2) return null;
+
+  if (unique.length > MAX_MATRIX_POINTS) {
+    console.warn(`[TravelRouting] ${unique.length} points exceed the matrix limit, using estimates`);
+    return null;
+  }
+
+  try {
+    const matrix = await routing.matrix(unique, mode);
+    unique.forEach((from, i) => unique.forEach((to, j) => {
+      if (i === j) return;
+      cacheLeg(legKey(from, to, mode), {
+        distance: matrix.distances[i][j],
+        duration: matrix.durations[i][j],
+        polyline: null,
+      });
+    }));
+    return matrix;
+  } catch (error) {
+    console.warn(`[TravelRouting] ${routing.name} matrix failed, using estimates:`, error);
+    return null;
+  }
+}
+
+/**
+ * Travel between two points: cached road data when available, otherwise the estimate.
+ * Without a mode, the mode is picked from the straight-line distance like estimateTravelTime.
+ */
+export function getTravel(from: Coords, to: Coords, mode?: TravelMode): TravelInfo {
+  const travelMode = mode || getDefaultTravelMode(haversineDistance(from.lat, from.lng, to.lat, to.lng));
+  const cached = legCache.get(legKey(from, to, travelMode));
+
+  if (cached) {
+    return {
+      distance: cached.distance,
+      duration: cached.duration,
+      mode: travelMode,
+      source: 'road',
+      ...(cached.polyline ? { polyline: cached.polyline } : {}),
+    };
+  }
+
+  return { ...estimateTravelTime(from, to, travelMode), source: 'estimate' };
+}
+
+/**
+ * Road legs along `points` in order (one per consecutive pair), with geometry.
+ * Falls back to estimates without geometry when there is no backend or it failed.
+ */
+export async function getRoadLegs(points: Coords[], mode: TravelMode = 'bike'): Promise<RoadLeg[]> {
+  if (points.length < 2) return [];
+
+  const estimates = (): RoadLeg[] => points.slice(1).map((to, i) => {
+    const { distance, duration } = estimateTravelTime(points[i], to, mode);
+    return { distance, duration, polyline: null };
+  });
+
+  const keys = points.slice(1).map((to, i) => legKey(points[i], to, mode));
+  if (keys.every(key => legCache.get(key)?.polyline)) {
+    return keys.map(key => legCache.get(key)!);
+  }
+
+  const routing = getRoutingBackend();
+  if (!routing) return estimates();
+
+  try {
+    const legs = await routing.route(points, mode);
+    legs.forEach((leg, i) => cacheLeg(keys[i], leg));
+    return legs;
+  } catch (error) {
+    console.warn(`[TravelRouting] ${routing.name} route failed, using estimates:`, error);
+    return estimates();
+  }
+}
+
+/**
+ * Give an optimized route's segments road distances, durations and geometry
+ */
+export async function routeSegments(route: OptimizedRoute, mode: TravelMode = 'bike'): Promise<OptimizedRoute> {
+  if (route.segments.length === 0) return route;
+
+  const points = [route.segments[0].from, ...route.segments.map(s => s.to)].map(p => getPlaceCoords(p)!);
+  const legs = await getRoadLegs(points, mode);
+
+  return {
+    ...route,
+    segments: route.segments.map((segment, i) => ({
+      ...segment,
+      distance: legs[i].distance,
+      duration: legs[i].duration,
+      ...(legs[i].polyline ? { polyline: legs[i].polyline } : {}),
+    })),
+  };
+}
+
+function isRoadMode(mode: TravelInfo['mode']): mode is TravelMode {
+  return mode in TRAVEL_SPEEDS;
+}
+
+/**
+ * Fill each travel activity's road geometry (one request per hop not already cached).
+ * Mutates the days' travel activities in place.
+ */
+export async function attachRoadGeometry(days: DayItinerary[]): Promise<void> {
+  if (!getRoutingBackend()) return;
+
+  for (const day of days) {
+    // Travel activities sit between the visits they connect
+    const hops: Array<{ from: Coords; to: Coords; mode: TravelMode; travel: TravelInfo }> = [];
+    let lastVisit: Coords | null = null;
+    let pending: TravelInfo | null = null;
+
+    for (const activity of day.activities) {
+      if (activity.intercity) {
+        // Trains, buses and flights aren't road-routed; the next visit is in another city
+        lastVisit = null;
+        pending = null;
+      } else if (activity.type === 'travel' && activity.travelFromPrev) {
+        pending = activity.travelFromPrev;
+      } else if (activity.type === 'visit') {
+        const coords = getPlaceCoords(activity.place);
+        if (!coords) continue;
+        if (lastVisit && pending && isRoadMode(pending.mode)) {
+          hops.push({ from: lastVisit, to: coords, mode: pending.mode, travel: pending });
+        }
+        lastVisit = coords;
+        pending = null;
+      }
+    }
+
+    for (const hop of hops) {
+      const [leg] = await getRoadLegs([hop.from, hop.to], hop.mode);
+      if (!leg?.polyline) continue;
+      hop.travel.polyline = leg.polyline;
+      hop.travel.source = 'road';
+    }
+  }
+}
+
+/**
+ * The path a day follows: road geometry where a travel leg has it, otherwise straight
+ * between the visits. Used for map polylines and exported tracks.
+ */
+export function dayTrack(day: DayItinerary): Coords[] {
+  const track: Coords[] = [];
+  for (const activity of day.activities) {
+    if (activity.type === 'travel' && activity.travelFromPrev?.polyline) {
+      track.push(...activity.travelFromPrev.polyline);
+    } else if (activity.type === 'visit' && activity.place.coordinates) {
+      track.push({ lat: activity.place.coordinates.lat, lng: activity.place.coordinates.lng });
+    }
+  }
+  return track;
+}
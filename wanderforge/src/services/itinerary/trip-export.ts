@@ -0,0 +1,582 @@
+// Trip Export - itinerary to calendar (iCalendar), navigation (GPX/KML) and a printable booklet
+// Everything is generated client-side from a GeneratedItinerary. Activity times are local
+// wall-clock times at the destination, so calendar events carry a TZID (IST by default) and
+// GPX timestamps are converted to UTC.
+import type { CurrencyCode } from '../money';
+import type { Coords, DayItinerary, GeneratedItinerary, ScheduledActivity } from './types';
+import { formatMoney } from '../money';
+import { getFatigueLevel } from './fatigue-scheduler';
+import { boardingBuffer } from './intercity';
+import { IST_OFFSET_MINUTES } from './sun-times';
+import { dayTrack } from './travel-routing';
+
+export interface ExportTimeZone {
+  tzid: string;              // IANA name, "Asia/Kolkata"
+  utcOffsetMinutes: number;  // Fixed offset; the zones the planners cover don't observe DST
+  abbreviation: string;      // "IST"
+}
+
+export const IST_TIME_ZONE: ExportTimeZone = {
+  tzid: 'Asia/Kolkata',
+  utcOffsetMinutes: IST_OFFSET_MINUTES,
+  abbreviation: 'IST',
+};
+
+export interface TripExportOptions {
+  tripName?: string;
+  timeZone?: ExportTimeZone;
+  includeTravel?: boolean;   // Calendar events for local travel legs (trains, buses and flights are always included)
+}
+
+const DEFAULT_TRIP_NAME = 'Wanderforge Trip';
+const LEAVE_REMINDER_SLACK = 10;  // Minutes of slack on top of the travel time in "time to leave" alarms
+
+// Same order as the map's day colours
+const DAY_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#06b6d4', '#f97316'];
+
+// ==================== Shared helpers ====================
+
+function dayColor(day: number): string {
+  return DAY_COLORS[(day - 1) % DAY_COLORS.length];
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+// Local wall-clock time on a trip day, as a UTC Date
+function localToUtc(date: string, minutes: number, zone: ExportTimeZone): Date {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d, 0, minutes) - zone.utcOffsetMinutes * 60_000);
+}
+
+function exportedActivities(day: DayItinerary, includeTravel: boolean): ScheduledActivity[] {
+  return day.activities.filter(a => a.type !== 'travel' || a.intercity || includeTravel);
+}
+
+function travelBefore(day: DayItinerary, activity: ScheduledActivity): ScheduledActivity | undefined {
+  const index = day.activities.indexOf(activity);
+  const previous = day.activities[index - 1];
+  return previous?.type === 'travel' && !previous.intercity ? previous : undefined;
+}
+
+function describeActivity(activity: ScheduledActivity): string[] {
+  const lines: string[] = [];
+  const leg = activity.intercity;
+  if (leg) {
+    lines.push(`${leg.from.name} → ${leg.to.name}`);
+    if (leg.carrier || leg.serviceNumber) lines.push([leg.carrier, leg.serviceNumber].filter(Boolean).join(' '));
+    lines.push(leg.bookingReference ? `Booking: ${leg.bookingReference}` : 'Not booked yet');
+  } else if (activity.type === 'travel' && activity.travelFromPrev) {
+    lines.push(`${activity.travelFromPrev.distance.toFixed(1)} km, about ${activity.travelFromPrev.duration} min by ${activity.travelFromPrev.mode}`);
+  } else if (activity.bestTimeReason) {
+    lines.push(activity.bestTimeReason);
+  }
+  if (activity.estimatedCost && activity.estimatedCost.amount > 0) {
+    lines.push(`Cost: ${formatMoney(activity.estimatedCost)} per person`);
+  }
+  if (activity.place.enrichedData?.website) lines.push(activity.place.enrichedData.website);
+  return lines;
+}
+
+// When the itinerary was generated, or now if that isn't a valid timestamp
+function generatedDate(itinerary: GeneratedItinerary): Date {
+  const generated = new Date(itinerary.generatedAt);
+  return isNaN(generated.getTime()) ? new Date() : generated;
+}
+
+function downloadName(tripName: string, extension: string): string {
+  const slug = tripName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'trip'}.${extension}`;
+}
+
+// ==================== iCalendar ====================
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 §3.1)
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsLocalDateTime(date: string, minutes: number): string {
+  // Minutes past midnight can run into the next day (overnight trains, late dinners)
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  const at = new Date(Date.UTC(y, m - 1, d, 0, minutes));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${at.getUTCFullYear()}${pad(at.getUTCMonth() + 1)}${pad(at.getUTCDate())}T${pad(at.getUTCHours())}${pad(at.getUTCMinutes())}00`;
+}
+
+function icsUtcDateTime(at: Date): string {
+  return at.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+function icsEvent(
+  day: DayItinerary,
+  activity: ScheduledActivity,
+  zone: ExportTimeZone,
+  stamp: string
+): string[] {
+  const start = toMinutes(activity.startTime);
+  const leg = activity.intercity;
+  const location = leg
+    ? leg.from.name
+    : activity.place.enrichedData?.formattedAddress || activity.place.name;
+  const coords = leg ? leg.from.coordinates : activity.place.coordinates;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${activity.id}-${day.date.slice(0, 10)}@wanderforge`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${zone.tzid}:${icsLocalDateTime(day.date, start)}`,
+    `DTEND;TZID=${zone.tzid}:${icsLocalDateTime(day.date, start + activity.duration)}`,
+    `SUMMARY:${escapeIcsText(activity.place.name)}`,
+    `LOCATION:${escapeIcsText(location)}`,
+    `CATEGORIES:${activity.type.toUpperCase()}`,
+  ];
+  const description = describeActivity(activity);
+  if (description.length > 0) lines.push(`DESCRIPTION:${escapeIcsText(description.join('\n'))}`);
+  if (coords) lines.push(`GEO:${coords.lat.toFixed(6)};${coords.lng.toFixed(6)}`);
+  // Local travel legs fill the gaps between stops; don't let them mark the calendar busy
+  if (activity.type === 'travel' && !leg) lines.push('TRANSP:TRANSPARENT');
+
+  // Remind when it's time to leave: the travel leg before a stop, or boarding for a train/bus/flight
+  const travel = travelBefore(day, activity);
+  const leadMinutes = leg
+    ? boardingBuffer(leg.mode)
+    : travel ? travel.duration + LEAVE_REMINDER_SLACK : 0;
+  if (leadMinutes > 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(leg ? `Be at ${leg.from.name} for ${activity.place.name}` : `Leave for ${activity.place.name}`)}`,
+      `TRIGGER:-PT${leadMinutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * The itinerary as an iCalendar (.ics) file: one event per activity, in the destination's
+ * time zone, with "time to leave" reminders that allow for the travel before each stop
+ */
+export function exportToICalendar(itinerary: GeneratedItinerary, options: TripExportOptions = {}): string {
+  const zone = options.timeZone ?? IST_TIME_ZONE;
+  const tripName = options.tripName ?? DEFAULT_TRIP_NAME;
+  const stamp = icsUtcDateTime(generatedDate(itinerary));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Wanderforge//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(tripName)}`,
+    `X-WR-TIMEZONE:${zone.tzid}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${zone.tzid}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${icsOffset(zone.utcOffsetMinutes)}`,
+    `TZOFFSETTO:${icsOffset(zone.utcOffsetMinutes)}`,
+    `TZNAME:${zone.abbreviation}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+
+  for (const day of itinerary.days) {
+    for (const activity of exportedActivities(day, options.includeTravel ?? true)) {
+      lines.push(...icsEvent(day, activity, zone, stamp));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ==================== GPX / KML ====================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function visitStops(day: DayItinerary): Array<{ activity: ScheduledActivity; coords: Coords }> {
+  return day.activities
+    .filter(a => a.type === 'visit' && a.place.coordinates)
+    .map(a => ({ activity: a, coords: a.place.coordinates! }));
+}
+
+/**
+ * The route as GPX 1.1: a waypoint per visit (timed, in UTC) and a track per day that
+ * follows road geometry where the routing backend provided it
+ */
+export function exportToGpx(itinerary: GeneratedItinerary, options: TripExportOptions = {}): string {
+  const zone = options.timeZone ?? IST_TIME_ZONE;
+  const tripName = escapeXml(options.tripName ?? DEFAULT_TRIP_NAME);
+
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+
+  for (const day of itinerary.days) {
+    for (const { activity, coords } of visitStops(day)) {
+      const time = localToUtc(day.date, toMinutes(activity.startTime), zone).toISOString();
+      const desc = [`Day ${day.day}, ${activity.startTime}-${activity.endTime}`, ...describeActivity(activity)];
+      waypoints.push(
+        `  <wpt lat="${coords.lat.toFixed(6)}" lon="${coords.lng.toFixed(6)}">`,
+        `    <time>${time}</time>`,
+        `    <name>${escapeXml(activity.place.name)}</name>`,
+        `    <desc>${escapeXml(desc.join('\n'))}</desc>`,
+        `    <type>${escapeXml(activity.place.type ?? 'visit')}</type>`,
+        '  </wpt>'
+      );
+    }
+
+    const track = dayTrack(day);
+    if (track.length < 2) continue;
+    tracks.push(
+      '  <trk>',
+      `    <name>Day ${day.day} (${escapeXml(day.date.slice(0, 10))})</name>`,
+      `    <number>${day.day}</number>`,
+      '    <trkseg>',
+      ...track.map(p => `      <trkpt lat="${p.lat.toFixed(6)}" lon="${p.lng.toFixed(6)}"/>`),
+      '    </trkseg>',
+      '  </trk>'
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Wanderforge" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${tripName}</name>`,
+    `    <time>${generatedDate(itinerary).toISOString()}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// KML colours are aabbggrr
+function kmlColor(hex: string): string {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `ff${b}${g}${r}`;
+}
+
+/**
+ * The route as KML (Google Earth, Google My Maps, Organic Maps): a folder per day with
+ * its stops as placemarks and its track as a line in the day's map colour
+ */
+export function exportToKml(itinerary: GeneratedItinerary, options: TripExportOptions = {}): string {
+  const zone = options.timeZone ?? IST_TIME_ZONE;
+  const tripName = escapeXml(options.tripName ?? DEFAULT_TRIP_NAME);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `  <name>${tripName}</name>`,
+  ];
+
+  for (const day of itinerary.days) {
+    lines.push(
+      `  <Style id="day-${day.day}">`,
+      `    <LineStyle><color>${kmlColor(dayColor(day.day))}</color><width>4</width></LineStyle>`,
+      `    <IconStyle><color>${kmlColor(dayColor(day.day))}</color></IconStyle>`,
+      '  </Style>'
+    );
+  }
+
+  for (const day of itinerary.days) {
+    lines.push('  <Folder>', `    <name>Day ${day.day} (${escapeXml(day.date.slice(0, 10))})</name>`);
+
+    visitStops(day).forEach(({ activity, coords }, i) => {
+      const desc = [`${activity.startTime}-${activity.endTime}`, ...describeActivity(activity)];
+      const start = toMinutes(activity.startTime);
+      lines.push(
+        '    <Placemark>',
+        `      <name>${i + 1}. ${escapeXml(activity.place.name)}</name>`,
+        `      <description>${escapeXml(desc.join('\n'))}</description>`,
+        `      <TimeSpan><begin>${localToUtc(day.date, start, zone).toISOString()}</begin><end>${localToUtc(day.date, start + activity.duration, zone).toISOString()}</end></TimeSpan>`,
+        `      <styleUrl>#day-${day.day}</styleUrl>`,
+        `      <Point><coordinates>${coords.lng.toFixed(6)},${coords.lat.toFixed(6)},0</coordinates></Point>`,
+        '    </Placemark>'
+      );
+    });
+
+    const track = dayTrack(day);
+    if (track.length >= 2) {
+      lines.push(
+        '    <Placemark>',
+        `      <name>Day ${day.day} route</name>`,
+        `      <styleUrl>#day-${day.day}</styleUrl>`,
+        '      <LineString>',
+        '        <tessellate>1</tessellate>',
+        `        <coordinates>${track.map(p => `${p.lng.toFixed(6)},${p.lat.toFixed(6)},0`).join(' ')}</coordinates>`,
+        '      </LineString>',
+        '    </Placemark>'
+      );
+    }
+
+    lines.push('  </Folder>');
+  }
+
+  lines.push('</Document>', '</kml>', '');
+  return lines.join('\n');
+}
+
+// ==================== Shared itinerary JSON ====================
+
+export const ITINERARY_JSON_FORMAT = 'wanderforge-itinerary';
+export const ITINERARY_JSON_VERSION = 1;
+
+// The file another planner imports; bump the version when the itinerary shape changes incompatibly
+export interface SharedItineraryFile {
+  format: typeof ITINERARY_JSON_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;    // ISO timestamp
+  timeZone: string;      // TZID the activity times are in
+  itinerary: GeneratedItinerary;
+}
+
+/**
+ * The itinerary as versioned JSON, with its edit constraints (pins, locks), for sharing
+ * with another planner or re-importing later
+ */
+export function exportToJson(itinerary: GeneratedItinerary, options: TripExportOptions = {}): string {
+  const file: SharedItineraryFile = {
+    format: ITINERARY_JSON_FORMAT,
+    version: ITINERARY_JSON_VERSION,
+    name: options.tripName ?? DEFAULT_TRIP_NAME,
+    exportedAt: new Date().toISOString(),
+    timeZone: (options.timeZone ?? IST_TIME_ZONE).tzid,
+    itinerary,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// ==================== Printable booklet ====================
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 320;
+const MAP_PADDING = 24;
+
+// A static map of the given days' tracks and stops, as inline SVG (prints without tiles or network)
+function routeMapSvg(days: DayItinerary[]): string {
+  const tracks = days.map(day => ({ day: day.day, points: dayTrack(day), stops: visitStops(day).map(s => s.coords) }));
+  const all = tracks.flatMap(t => [...t.points, ...t.stops]);
+  if (all.length === 0) return '';
+
+  // Equirectangular projection, shrinking longitude by the latitude so shapes aren't stretched
+  const midLat = all.reduce((sum, p) => sum + p.lat, 0) / all.length;
+  const xScale = Math.cos(midLat * Math.PI / 180);
+  const xs = all.map(p => p.lng * xScale);
+  const ys = all.map(p => p.lat);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const span = Math.max(maxX - minX, (maxY - minY) * (MAP_WIDTH / MAP_HEIGHT), 0.005);
+  const scale = (MAP_WIDTH - 2 * MAP_PADDING) / span;
+  const offsetX = (MAP_WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (MAP_HEIGHT - (maxY - minY) * scale) / 2;
+  const project = (p: Coords) =>
+    `${((p.lng * xScale - minX) * scale + offsetX).toFixed(1)},${(MAP_HEIGHT - ((p.lat - minY) * scale + offsetY)).toFixed(1)}`;
+
+  const shapes: string[] = [];
+  for (const track of tracks) {
+    const color = dayColor(track.day);
+    if (track.points.length >= 2) {
+      shapes.push(`<polyline points="${track.points.map(project).join(' ')}" fill="none" stroke="${color}" stroke-width="3" stroke-linejoin="round"/>`);
+    }
+    track.stops.forEach((stop, i) => {
+      const [x, y] = project(stop).split(',');
+      shapes.push(
+        `<circle cx="${x}" cy="${y}" r="9" fill="${color}" stroke="#fff" stroke-width="2"/>`,
+        `<text x="${x}" y="${y}" dy="4" text-anchor="middle" font-size="10" font-weight="bold" fill="#fff">${i + 1}</text>`
+      );
+    });
+  }
+
+  return `<svg class="map" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" xmlns="http://www.w3.org/2000/svg">` +
+    `<rect width="100%" height="100%" fill="#f1f5f9"/>${shapes.join('')}</svg>`;
+}
+
+const BOOKLET_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; margin: 0; padding: 32px; }
+  h1 { margin: 0 0 4px; font-size: 28px; }
+  h2 { margin: 0; font-size: 20px; }
+  .muted { color: #64748b; font-size: 13px; }
+  .stats { display: flex; gap: 24px; margin: 16px 0; font-size: 14px; }
+  .map { width: 100%; height: auto; border-radius: 8px; margin: 12px 0; }
+  .day { page-break-before: always; }
+  .day-header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 3px solid; padding-bottom: 6px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  td.time { white-space: nowrap; width: 90px; color: #475569; }
+  td.cost { text-align: right; white-space: nowrap; }
+  tr.travel td { color: #64748b; font-size: 12px; }
+  .fatigue { height: 8px; background: #e2e8f0; border-radius: 4px; overflow: hidden; width: 160px; display: inline-block; vertical-align: middle; }
+  .fatigue span { display: block; height: 100%; }
+  .warning { border: 1px solid #fca5a5; background: #fef2f2; padding: 8px 12px; border-radius: 6px; font-size: 13px; }
+  @media print { body { padding: 0; } }
+`;
+
+const FATIGUE_COLORS: Record<ReturnType<typeof getFatigueLevel>['level'], string> = {
+  light: '#10b981',
+  moderate: '#f59e0b',
+  heavy: '#f97316',
+  exhausting: '#ef4444',
+};
+
+function bookletDay(day: DayItinerary, currency: CurrencyCode): string {
+  const fatigue = getFatigueLevel(day.totalFatigue);
+  const rows = day.activities.map(activity => {
+    const cost = activity.estimatedCost && activity.estimatedCost.amount > 0 ? formatMoney(activity.estimatedCost) : '';
+    const details = describeActivity(activity).filter(line => !line.startsWith('Cost:'));
+    return `<tr class="${activity.type}">` +
+      `<td class="time">${escapeXml(activity.startTime)}–${escapeXml(activity.endTime)}</td>` +
+      `<td><strong>${escapeXml(activity.place.name)}</strong>` +
+      (details.length > 0 ? `<div class="muted">${details.map(escapeXml).join('<br>')}</div>` : '') +
+      `</td><td class="cost">${cost}</td></tr>`;
+  });
+
+  return `<section class="day">
+    <div class="day-header" style="border-color: ${dayColor(day.day)}">
+      <h2>Day ${day.day}${day.transfer ? ` · ${escapeXml(day.transfer.from)} → ${escapeXml(day.transfer.to)}` : ''}</h2>
+      <span class="muted">${escapeXml(day.date.slice(0, 10))}</span>
+    </div>
+    <div class="stats">
+      <span>Cost: <strong>${formatMoney({ amount: day.totalCost, currency })}</strong> per person</span>
+      <span>Distance: <strong>${day.travelDistance.toFixed(1)} km</strong></span>
+      <span>Fatigue: <span class="fatigue"><span style="width: ${Math.min(100, day.totalFatigue)}%; background: ${FATIGUE_COLORS[fatigue.level]}"></span></span> ${fatigue.level}</span>
+    </div>
+    ${routeMapSvg([day])}
+    <table>${rows.join('')}</table>
+  </section>`;
+}
+
+/**
+ * A self-contained, print-ready HTML booklet: an overview with the whole route and totals,
+ * then a page per day with its map, schedule, costs and fatigue
+ */
+export function buildTripBooklet(itinerary: GeneratedItinerary, options: TripExportOptions = {}): string {
+  const tripName = escapeXml(options.tripName ?? DEFAULT_TRIP_NAME);
+  const { summary } = itinerary;
+  const first = itinerary.days[0]?.date.slice(0, 10) ?? '';
+  const last = itinerary.days[itinerary.days.length - 1]?.date.slice(0, 10) ?? '';
+
+  const violations = itinerary.violations && itinerary.violations.length > 0
+    ? `<div class="warning"><strong>Closed during your trip:</strong> ${itinerary.violations
+      .map(v => `${escapeXml(v.place)} (${escapeXml(v.reason)})`).join(', ')}</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${tripName}</title>
+<style>${BOOKLET_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${tripName}</h1>
+    <div class="muted">${escapeXml(first)}${last && last !== first ? ` to ${escapeXml(last)}` : ''}</div>
+    <div class="stats">
+      <span><strong>${summary.totalDays}</strong> days</span>
+      <span><strong>${summary.placesVisited}</strong> places</span>
+      <span><strong>${summary.distanceTraveled.toFixed(1)} km</strong> travelled</span>
+      <span><strong>${formatMoney({ amount: summary.totalCost, currency: summary.currency })}</strong> per person</span>
+      <span>Average fatigue <strong>${getFatigueLevel(summary.averageFatiguePerDay).level}</strong></span>
+    </div>
+    ${violations}
+    ${routeMapSvg(itinerary.days)}
+  </header>
+  ${itinerary.days.map(day => bookletDay(day, itinerary.summary.currency)).join('\n')}
+</body>
+</html>
+`;
+}
+
+// ==================== Browser delivery ====================
+
+export type TripExportFormat = 'ics' | 'gpx' | 'kml' | 'json';
+
+const EXPORT_FORMATS: Record<TripExportFormat, { mime: string; build: typeof exportToICalendar }> = {
+  ics: { mime: 'text/calendar;charset=utf-8', build: exportToICalendar },
+  gpx: { mime: 'application/gpx+xml', build: exportToGpx },
+  kml: { mime: 'application/vnd.google-earth.kml+xml', build: exportToKml },
+  json: { mime: 'application/json', build: exportToJson },
+};
+
+/**
+ * Save the itinerary as a file in the given format
+ */
+export function downloadTripExport(
+  itinerary: GeneratedItinerary,
+  format: TripExportFormat,
+  options: TripExportOptions = {}
+): void {
+  const { mime, build } = EXPORT_FORMATS[format];
+  const blob = new Blob([build(itinerary, options)], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = downloadName(options.tripName ?? DEFAULT_TRIP_NAME, format);
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Open the booklet in a new window and bring up the print dialog ("Save as PDF" for a PDF).
+ * Returns false when a popup blocker stopped the window.
+ */
+export function printTripBooklet(itinerary: GeneratedItinerary, options: TripExportOptions = {}): boolean {
+  const blob = new Blob([buildTripBooklet(itinerary, options)], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const win = window.open(url, '_blank');
+  if (!win) {
+    URL.revokeObjectURL(url);
+    return false;
+  }
+
+  win.addEventListener('load', () => {
+    win.focus();
+    win.print();
+    URL.revokeObjectURL(url);
+  });
+  return true;
+}
@@ -0,0 +1,532 @@
+// Trip Import - bookings and saved places from calendars, map apps and shared itineraries
+// Reads iCalendar (.ics) events, GPX/KML waypoints and WanderForge itinerary JSON into PlaceInputs
+// for the trip planner. Timed events keep their date and time (fixedTime), so the generated
+// itinerary pins them instead of planning over them. UTC times and times with an IANA TZID are
+// converted to the destination's local time; floating times are taken as already local.
+import type { Coords, FixedTime, GeneratedItinerary, PlaceCategory } from './types';
+import type { PlaceInput } from './direct-input.types';
+import type { ExportTimeZone, SharedItineraryFile } from './trip-export';
+import { generatePlaceId } from './direct-input.types';
+import { IST_TIME_ZONE, ITINERARY_JSON_FORMAT, ITINERARY_JSON_VERSION } from './trip-export';
+
+export type TripImportFormat = 'ics' | 'gpx' | 'kml' | 'json';
+
+export interface TripImportResult {
+  format: TripImportFormat;
+  places: PlaceInput[];
+  dates: { start: string; end: string } | null;  // Span of the timed events, to pre-fill the trip dates
+  itinerary?: GeneratedItinerary;                // The shared itinerary itself, from JSON
+  name?: string;                                 // Calendar, track or trip name
+  warnings: string[];
+}
+
+export interface TripImportOptions {
+  timeZone?: ExportTimeZone;  // Destination time zone that UTC times are converted to
+  defaultDuration?: number;   // Minutes, for timed waypoints and events without an end
+}
+
+const DEFAULT_DURATION = 60;
+const MAX_FIXED_DURATION = 12 * 60;  // Longer events (hotel stays, "Goa trip") aren't visits
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+const PLACE_CATEGORIES: PlaceCategory[] = [
+  'accommodation', 'beach', 'landmark', 'fort', 'restaurant', 'nightlife', 'activity', 'destination',
+];
+
+// ==================== Shared helpers ====================
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// A UTC instant as local date and minutes past midnight in the destination's zone
+function utcToLocal(at: Date, zone: ExportTimeZone): { date: string; minutes: number } {
+  const local = new Date(at.getTime() + zone.utcOffsetMinutes * 60_000);
+  return {
+    date: `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`,
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+  };
+}
+
+// Minutes `timeZone` is ahead of UTC at `at` (throws RangeError for a zone Intl doesn't know)
+function zoneOffsetMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+  return Math.round((asUtc - Math.floor(at.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+// Wall-clock time in an IANA zone as a UTC instant; null when the zone is unknown
+function zonedToUtc(
+  parts: { y: number; mo: number; d: number; h: number; mi: number },
+  timeZone: string
+): Date | null {
+  const wall = Date.UTC(parts.y, parts.mo - 1, parts.d, parts.h, parts.mi);
+  try {
+    // Twice, in case the first guess lands on the other side of a DST change
+    const first = wall - zoneOffsetMinutes(new Date(wall), timeZone) * 60_000;
+    return new Date(wall - zoneOffsetMinutes(new Date(first), timeZone) * 60_000);
+  } catch {
+    return null;
+  }
+}
+
+function fixedTimeAt(date: string, minutes: number, duration: number): FixedTime {
+  return { date, startTime: `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`, duration };
+}
+
+function validCoords(lat: number, lng: number): Coords | undefined {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+    ? { lat, lng }
+    : undefined;
+}
+
+function categoryOf(type: string | undefined): PlaceCategory | undefined {
+  const value = type?.trim().toLowerCase();
+  return PLACE_CATEGORIES.find(c => c === value);
+}
+
+function importedPlace(
+  name: string,
+  fields: { coordinates?: Coords; description?: string; type?: PlaceCategory; fixedTime?: FixedTime }
+): PlaceInput {
+  return {
+    id: generatePlaceId(),
+    name,
+    ...(fields.type ? { type: fields.type } : {}),
+    ...(fields.coordinates ? { coordinates: fields.coordinates } : {}),
+    ...(fields.description ? { description: fields.description } : {}),
+    // Something already booked for a time is a commitment, not a maybe
+    mustVisit: fields.fixedTime !== undefined,
+    suggestedByAI: false,
+    ...(fields.fixedTime ? { fixedTime: fields.fixedTime } : {}),
+  };
+}
+
+// Keep the first of each name (a calendar and a saved list often repeat a place)
+function dedupePlaces(places: PlaceInput[]): PlaceInput[] {
+  const seen = new Set<string>();
+  return places.filter(p => {
+    const key = p.name.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function dateSpan(places: PlaceInput[]): TripImportResult['dates'] {
+  const dates = places.map(p => p.fixedTime?.date).filter((d): d is string => !!d).sort();
+  return dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null;
+}
+
+// ==================== iCalendar ====================
+
+interface IcsProperty {
+  value: string;
+  params: Record<string, string>;
+}
+
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+// Split "NAME;PARAM=X:value" (quoted parameter values may contain ':' and ';')
+function parseIcsLine(line: string): { name: string; property: IcsProperty } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), property: { value: line.slice(colon + 1), params } };
+}
+
+// ISO 8601 duration as used by iCalendar ("PT1H30M", "P1D")
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, , w, d, h, m] = match;
+  return (Number(w || 0) * 7 + Number(d || 0)) * 1440 + Number(h || 0) * 60 + Number(m || 0);
+}
+
+// A DTSTART/DTEND as local date and minutes, or date only for all-day values.
+// `unknownZone` is set when a TZID couldn't be converted and the time was kept as written.
+function parseIcsDateTime(
+  property: IcsProperty,
+  zone: ExportTimeZone
+): { date: string; minutes: number | null; unknownZone?: string } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, , utc] = match;
+  const date = `${y}-${mo}-${d}`;
+  if (h === undefined || property.params.VALUE === 'DATE') return { date, minutes: null };
+
+  const parts = { y: Number(y), mo: Number(mo), d: Number(d), h: Number(h), mi: Number(mi) };
+  if (utc) return utcToLocal(new Date(Date.UTC(parts.y, parts.mo - 1, parts.d, parts.h, parts.mi)), zone);
+
+  const tzid = property.params.TZID?.replace(/^\//, '');
+  if (tzid && tzid !== zone.tzid) {
+    const at = zonedToUtc(parts, tzid);
+    if (at) return utcToLocal(at, zone);
+    return { date, minutes: parts.h * 60 + parts.mi, unknownZone: tzid };
+  }
+  return { date, minutes: parts.h * 60 + parts.mi };
+}
+
+function minutesBetween(
+  start: { date: string; minutes: number | null },
+  end: { date: string; minutes: number | null }
+): number {
+  const dayDiff = Math.round((Date.parse(end.date) - Date.parse(start.date)) / 86_400_000);
+  return dayDiff * 1440 + (end.minutes ?? 0) - (start.minutes ?? 0);
+}
+
+/**
+ * Places from an iCalendar file: one per event, named after its location where it has one.
+ * Timed events become fixed-time visits; all-day and multi-day events (hotel stays) don't.
+ */
+export function parseICalendar(text: string, options: TripImportOptions = {}): TripImportResult {
+  const zone = options.timeZone ?? IST_TIME_ZONE;
+  const warnings: string[] = [];
+  // Continuation lines start with a space or tab (RFC 5545 §3.1)
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const events: Array<Record<string, IcsProperty>> = [];
+  let calendarName: string | undefined;
+  let event: Record<string, IcsProperty> | null = null;
+  let nested = 0;  // VALARM and friends inside an event
+
+  for (const raw of lines) {
+    const parsed = parseIcsLine(raw.trim());
+    if (!parsed) continue;
+    const { name, property } = parsed;
+
+    if (name === 'BEGIN') {
+      if (property.value === 'VEVENT') event = {};
+      else if (event) nested++;
+    } else if (name === 'END') {
+      if (property.value === 'VEVENT' && event) {
+        events.push(event);
+        event = null;
+      } else if (event) {
+        nested--;
+      }
+    } else if (event && nested === 0) {
+      event[name] ??= property;
+    } else if (!event && name === 'X-WR-CALNAME') {
+      calendarName = unescapeIcsText(property.value);
+    }
+  }
+
+  const places: PlaceInput[] = [];
+  const unknownZones = new Set<string>();
+  for (const e of events) {
+    if (e.STATUS?.value === 'CANCELLED') continue;
+
+    const summary = e.SUMMARY ? unescapeIcsText(e.SUMMARY.value).trim() : '';
+    const location = e.LOCATION ? unescapeIcsText(e.LOCATION.value).trim() : '';
+    // An address-style location ("Grande Island, Goa") names the place better than "Scuba dive"
+    const name = location && location !== summary ? location.split(',')[0].trim() : summary;
+    if (!name) continue;
+
+    const [lat, lng] = (e.GEO?.value ?? '').split(/[;,]/).map(Number);
+    const start = e.DTSTART ? parseIcsDateTime(e.DTSTART, zone) : null;
+    const end = e.DTEND ? parseIcsDateTime(e.DTEND, zone) : null;
+    for (const zoned of [start, end]) {
+      if (zoned?.unknownZone) unknownZones.add(zoned.unknownZone);
+    }
+
+    let fixedTime: FixedTime | undefined;
+    if (start && start.minutes !== null) {
+      const duration = end
+        ? minutesBetween(start, end)
+        : e.DURATION ? parseIcsDuration(e.DURATION.value) ?? DEFAULT_DURATION : options.defaultDuration ?? DEFAULT_DURATION;
+      if (duration > 0 && duration <= MAX_FIXED_DURATION) {
+        fixedTime = fixedTimeAt(start.date, start.minutes, duration);
+      } else {
+        warnings.push(`"${summary || name}" spans more than a visit; imported without a fixed time`);
+      }
+    }
+
+    places.push(importedPlace(name, {
+      coordinates: validCoords(lat, lng),
+      description: [summary !== name ? summary : '', location !== name ? location : '']
+        .filter(Boolean).join(' · ') || undefined,
+      fixedTime,
+    }));
+  }
+
+  for (const tzid of unknownZones) {
+    warnings.push(`Time zone "${tzid}" isn't recognised; its events keep the clock times in the file, read as ${zone.abbreviation}`);
+  }
+  if (events.length === 0) warnings.push('No events found in the calendar file');
+  const deduped = dedupePlaces(places);
+  return { format: 'ics', places: deduped, dates: dateSpan(deduped), name: calendarName, warnings };
+}
+
+// ==================== GPX / KML ====================
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Elements by tag name, ignoring namespace prefixes; returns [attributes, body] pairs
+function xmlElements(xml: string, tag: string): Array<{ attributes: string; body: string }> {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tag}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), m => ({ attributes: m[1], body: m[2] ?? '' }));
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  const [element] = xmlElements(xml, tag);
+  const text = element ? decodeXml(element.body).trim() : '';
+  return text || undefined;
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+}
+
+// A GPX/KML timestamp as a fixed time in the destination's zone
+function fixedTimeFromIso(value: string | undefined, zone: ExportTimeZone, duration: number): FixedTime | undefined {
+  if (!value) return undefined;
+  const at = new Date(value);
+  if (isNaN(at.getTime())) return undefined;
+  // A bare date ("2025-01-24") has no time to pin
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return undefined;
+  const local = utcToLocal(at, zone);
+  return fixedTimeAt(local.date, local.minutes, duration);
+}
+
+/**
+ * Places from a GPX file: its waypoints and route points (tracks are paths, not places).
+ * Waypoints with a <time> become fixed-time visits.
+ */
+export function parseGpx(text: string, options: TripImportOptions = {}): TripImportResult {
+  const zone = options.timeZone ?? IST_TIME_ZONE;
+  const duration = options.defaultDuration ?? DEFAULT_DURATION;
+  const warnings: string[] = [];
+
+  const points = [...xmlElements(text, 'wpt'), ...xmlElements(text, 'rtept')];
+  const places = points.flatMap(({ attributes, body }) => {
+    const name = xmlText(body, 'name');
+    const coordinates = validCoords(Number(xmlAttribute(attributes, 'lat')), Number(xmlAttribute(attributes, 'lon')));
+    if (!name || !coordinates) return [];
+    return [importedPlace(name, {
+      coordinates,
+      description: xmlText(body, 'desc') ?? xmlText(body, 'cmt'),
+      type: categoryOf(xmlText(body, 'type')),
+      fixedTime: fixedTimeFromIso(xmlText(body, 'time'), zone, duration),
+    })];
+  });
+
+  if (points.length === 0) {
+    warnings.push(xmlElements(text, 'trk').length > 0
+      ? 'The GPX file only has tracks; save the places as waypoints to import them'
+      : 'No waypoints found in the GPX file');
+  } else if (places.length < points.length) {
+    warnings.push(`${points.length - places.length} waypoints without a name or valid position were skipped`);
+  }
+
+  const [metadata] = xmlElements(text, 'metadata');
+  const deduped = dedupePlaces(places);
+  return {
+    format: 'gpx',
+    places: deduped,
+    dates: dateSpan(deduped),
+    name: metadata ? xmlText(metadata.body, 'name') : undefined,
+    warnings,
+  };
+}
+
+/**
+ * Places from a KML file (Google My Maps, Google Earth, Organic Maps): placemarks with a
+ * point. A <TimeStamp> or <TimeSpan> makes the visit fixed-time.
+ */
+export function parseKml(text: string, options: TripImportOptions = {}): TripImportResult {
+  const zone = options.timeZone ?? IST_TIME_ZONE;
+  const warnings: string[] = [];
+
+  const placemarks = xmlElements(text, 'Placemark');
+  const places = placemarks.flatMap(({ body }) => {
+    const [point] = xmlElements(body, 'Point');
+    // Exported stops are numbered in visit order ("2. Vittala")
+    const name = xmlText(body, 'name')?.replace(/^\d+\.\s+/, '');
+    if (!point || !name) return [];  // Lines and polygons are routes and areas, not places
+
+    // KML is lng,lat[,alt]
+    const [lng, lat] = (xmlText(point.body, 'coordinates') ?? '').split(',').map(Number);
+    const coordinates = validCoords(lat, lng);
+    if (!coordinates) return [];
+
+    const [span] = xmlElements(body, 'TimeSpan');
+    const begin = span ? xmlText(span.body, 'begin') : undefined;
+    const end = span ? xmlText(span.body, 'end') : undefined;
+    const spanMinutes = begin && end ? Math.round((Date.parse(end) - Date.parse(begin)) / 60_000) : NaN;
+    const duration = spanMinutes > 0 && spanMinutes <= MAX_FIXED_DURATION
+      ? spanMinutes
+      : options.defaultDuration ?? DEFAULT_DURATION;
+    const [stamp] = xmlElements(body, 'TimeStamp');
+    const when = begin ?? (stamp ? xmlText(stamp.body, 'when') : undefined);
+
+    return [importedPlace(name, {
+      coordinates,
+      // My Maps descriptions are often HTML
+      description: xmlText(body, 'description')?.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() || undefined,
+      fixedTime: fixedTimeFromIso(when, zone, duration),
+    })];
+  });
+
+  if (places.length === 0) warnings.push('No placemarks with a point found in the KML file');
+
+  const [documentElement] = xmlElements(text, 'Document');
+  const deduped = dedupePlaces(places);
+  return {
+    format: 'kml',
+    places: deduped,
+    dates: dateSpan(deduped),
+    name: documentElement ? xmlText(documentElement.body.split(/<(?:Folder|Placemark|Style)\b/)[0], 'name') : undefined,
+    warnings,
+  };
+}
+
+// ==================== Shared itinerary JSON ====================
+
+function isSharedItineraryFile(value: unknown): value is SharedItineraryFile {
+  if (!value || typeof value !== 'object') return false;
+  const file = value as Partial<SharedItineraryFile>;
+  return file.format === ITINERARY_JSON_FORMAT &&
+    typeof file.version === 'number' &&
+    !!file.itinerary && Array.isArray(file.itinerary.days);
+}
+
+/**
+ * A WanderForge itinerary shared as JSON: the itinerary itself, plus its visits as places.
+ * Pinned visits keep their date and time; the rest are free to be re-planned.
+ * Throws when the file isn't a WanderForge itinerary or comes from a newer version.
+ */
+export function parseItineraryJson(text: string): TripImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isSharedItineraryFile(parsed)) {
+    throw new Error('The file is not a WanderForge itinerary');
+  }
+  if (parsed.version > ITINERARY_JSON_VERSION) {
+    throw new Error(`This itinerary was saved by a newer version of WanderForge (format v${parsed.version}); update to import it`);
+  }
+
+  const { itinerary } = parsed;
+  const warnings: string[] = [];
+  const pins = new Map(
+    (itinerary.constraints?.rules ?? []).flatMap(r => (r.kind === 'pin' ? [[r.activityId, r.startTime] as const] : []))
+  );
+
+  const places = itinerary.days.flatMap(day => day.activities
+    .filter(a => a.type === 'visit')
+    .map(a => {
+      const pinned = pins.get(a.id);
+      return importedPlace(a.place.name, {
+        coordinates: a.place.coordinates,
+        description: a.bestTimeReason,
+        fixedTime: pinned ? { date: day.date.slice(0, 10), startTime: pinned, duration: a.duration } : undefined,
+      });
+    }));
+
+  const legs = itinerary.days.flatMap(d => d.activities.filter(a => a.intercity)).length;
+  if (legs > 0) warnings.push(`${legs} train, bus or flight legs are in the itinerary but not added as places`);
+
+  const first = itinerary.days[0]?.date.slice(0, 10);
+  const last = itinerary.days[itinerary.days.length - 1]?.date.slice(0, 10);
+  return {
+    format: 'json',
+    places: dedupePlaces(places),
+    dates: first && last ? { start: first, end: last } : null,
+    itinerary,
+    name: parsed.name,
+    warnings,
+  };
+}
+
+// ==================== Files ====================
+
+/**
+ * Which importer reads this file: by extension, then by content
+ */
+export function detectTripImportFormat(fileName: string, text: string): TripImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ics' || extension === 'ical' || extension === 'ifb') return 'ics';
+  if (extension === 'gpx' || extension === 'kml' || extension === 'json') return extension;
+
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('BEGIN:VCALENDAR')) return 'ics';
+  if (/<gpx\b/.test(head)) return 'gpx';
+  if (/<kml\b/.test(head)) return 'kml';
+  if (head.startsWith('{')) return 'json';
+  return null;
+}
+
+/**
+ * Parse text in the given format
+ */
+export function parseTripImport(text: string, format: TripImportFormat, options: TripImportOptions = {}): TripImportResult {
+  switch (format) {
+    case 'ics':
+      return parseICalendar(text, options);
+    case 'gpx':
+      return parseGpx(text, options);
+    case 'kml':
+      return parseKml(text, options);
+    case 'json':
+      return parseItineraryJson(text);
+  }
+}
+
+/**
+ * Read a dropped or picked file (.ics, .gpx, .kml or WanderForge .json).
+ * Throws with a message for the user when the file can't be imported.
+ */
+export async function importTripFile(file: File, options: TripImportOptions = {}): Promise<TripImportResult> {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new Error(`File is too large (${Math.round(file.size / 1024 / 1024)} MB); the limit is ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+  }
+  if (/\.kmz$/i.test(file.name)) {
+    throw new Error('KMZ files are zipped; unzip it and import the .kml inside');
+  }
+
+  const text = await file.text();
+  const format = detectTripImportFormat(file.name, text);
+  if (!format) {
+    throw new Error('Unsupported file. Import a calendar (.ics), GPX, KML or WanderForge itinerary (.json)');
+  }
+  return parseTripImport(text, format, options);
+}
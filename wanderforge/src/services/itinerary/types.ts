@@ -1,5 +1,7 @@
 // Itinerary Generator Types
 import type { ExtractedPlace } from '../ai/types';
+import type { CurrencyCode, Money, NormalizedBudget } from '../money';
+import type { OpeningHours, TimeRange } from './place-research.types';
 
 // Coordinates type
 export interface Coords {
@@ -14,12 +16,11 @@ export interface ItineraryInput {
     start: string;  // ISO date string "2025-01-24"
     end: string;
   };
-  budget: {
-    total: number;
-    currency: string;
-    perPerson: boolean;
-  } | null;
+  budget: NormalizedBudget | null;
   members: string[];
+  stops?: Record<string, StopConstraint>;  // Must-visit flags and opening hours, by place name
+  intercityLegs?: IntercityLeg[];          // Trains, buses and flights between cities
+  holidayRegion?: string;                  // "IN-KA" - whose public holidays close places; defaults to national
 }
 
 // Time slots for scheduling
@@ -42,6 +43,25 @@ export type PlaceCategory =
 // Travel mode options
 export type TravelMode = 'bike' | 'car' | 'walk' | 'auto';
 
+// Scheduled public transport between cities
+export type IntercityMode = 'train' | 'bus' | 'flight';
+
+// A train, bus or flight from one city to the next, from a GTFS feed or entered by hand
+export interface IntercityLeg {
+  id: string;
+  mode: IntercityMode;
+  from: { name: string; coordinates?: Coords };
+  to: { name: string; coordinates?: Coords };
+  date: string;                     // Departure date, YYYY-MM-DD
+  departureTime: string;            // "HH:MM"
+  arrivalTime: string;              // "HH:MM"; earlier than departure = arrives the next day
+  carrier?: string;                 // "KSRTC", "IndiGo"
+  serviceNumber?: string;           // Train/route/flight number
+  bookingReference: string | null;  // PNR once booked
+  cost?: Money;                     // per person
+  source: 'manual' | 'gtfs';
+}
+
 // Crowd level indicators
 export type CrowdLevel = 'low' | 'medium' | 'high';
 
@@ -49,9 +69,58 @@ export type CrowdLevel = 'low' | 'medium' | 'high';
 export interface TravelInfo {
   distance: number;     // km
   duration: number;     // minutes
-  mode: TravelMode;
+  mode: TravelMode | IntercityMode;
+  source?: 'road' | 'estimate';  // Routing backend, or straight-line distance at a fixed speed
+  polyline?: Coords[];           // Road geometry, when a routing backend provided one
+}
+
+// A drive/walk between two points as a routing backend reports it
+export interface RoadLeg {
+  distance: number;          // km
+  duration: number;          // minutes
+  polyline: Coords[] | null;
+}
+
+// Pairwise travel between points: [from][to]
+export interface TravelMatrix {
+  distances: number[][];     // km
+  durations: number[][];     // minutes
+}
+
+// Road routing engine (OSRM, Valhalla, GraphHopper...). Durations are for `mode`.
+export interface RoutingBackend {
+  name: string;
+  matrix(points: Coords[], mode: TravelMode): Promise<TravelMatrix>;
+  route(points: Coords[], mode: TravelMode): Promise<RoadLeg[]>;  // One leg per consecutive pair
+}
+
+// Sky and ground conditions for a day, simplified from WMO weather codes
+export type WeatherCondition = 'clear' | 'cloudy' | 'fog' | 'rain' | 'storm' | 'snow';
+
+// One trip day's weather: a forecast when the date is close enough, the month's climate normals otherwise
+export interface DayWeather {
+  date: string;              // YYYY-MM-DD
+  source: 'forecast' | 'climate';
+  tempMax: number;           // °C
+  tempMin: number;           // °C
+  precipitation: number;     // mm over the day (climate: the month's daily average)
+  rainChance: number;        // 0-1
+  condition: WeatherCondition;
+}
+
+// Forecast service (Open-Meteo, a paid API...). Only answers for dates within its horizon.
+export interface WeatherProvider {
+  name: string;
+  horizonDays: number;       // How many days ahead it forecasts
+  forecast(point: Coords, dates: string[]): Promise<DayWeather[]>;
 }
 
+// Travel between two points, for code that can't wait on the network
+export type TravelLookup = (from: Coords, to: Coords) => { distance: number; duration: number };
+
+// A whole leg (mode and source too), for laying out a day
+export type LegLookup = (from: Coords, to: Coords) => TravelInfo;
+
 // A scheduled activity in the itinerary
 export interface ScheduledActivity {
   id: string;
@@ -66,7 +135,8 @@ export interface ScheduledActivity {
   fatigueImpact: number;  // 0-100
   crowdLevel?: CrowdLevel;
   bestTimeReason?: string;  // "Sunset view", "Avoid crowds"
-  estimatedCost?: number;
+  estimatedCost?: Money;  // per person, in the trip currency
+  intercity?: IntercityLeg;  // Set on travel activities that are a train, bus or flight
 }
 
 // Place recommendation for missing categories
@@ -90,12 +160,16 @@ export interface DayItinerary {
   totalCost: number;
   travelDistance: number;  // total km traveled
   recommendations: PlaceRecommendation[];
+  transfer?: { from: string; to: string };  // Moving to the next city today
+  weather?: DayWeather;
+  weatherWarnings?: string[];  // "Rain likely (80%)...", shown on the day
 }
 
 // Summary statistics
 export interface ItinerarySummary {
   totalDays: number;
-  totalCost: number;
+  totalCost: number;          // per person
+  currency: CurrencyCode;     // of totalCost and every activity's estimatedCost
   placesVisited: number;
   distanceTraveled: number;  // km
   averageFatiguePerDay: number;
@@ -108,6 +182,35 @@ export interface GeneratedItinerary {
   route: Coords[];      // Full route for map polyline
   summary: ItinerarySummary;
   generatedAt: string;  // ISO timestamp
+  violations?: ClosureViolation[];  // Must-visit places the trip dates make impossible
+  constraints?: EditConstraints;    // Pins, locks and ordering rules added while editing
+}
+
+// A rule added while editing; kept through every later re-schedule
+export type ActivityConstraint =
+  | { kind: 'pin'; activityId: string; startTime: string }           // Starts exactly at "10:00"
+  | { kind: 'before'; activityId: string; time: string | 'sunset' }  // Over by then ("before sunset")
+  | { kind: 'follows'; activityId: string; afterId: string };        // Comes after another activity
+
+export interface EditConstraints {
+  lockedDays: number[];  // Days edits may not change
+  rules: ActivityConstraint[];
+}
+
+// One edit to a generated itinerary
+export type ItineraryEdit =
+  | { type: 'move'; activityId: string; toDay: number; index?: number }  // index = position in the day (drag-reorder)
+  | { type: 'remove'; activityId: string }
+  | { type: 'duration'; activityId: string; duration: number }
+  | { type: 'lock-day'; day: number; locked: boolean }
+  | { type: 'constrain'; constraint: ActivityConstraint }
+  | { type: 'unconstrain'; activityId: string; kind: ActivityConstraint['kind'] };
+
+// A must-visit place that is closed on every day of the trip
+export interface ClosureViolation {
+  place: string;
+  closedDates: string[];  // Every trip date, each closed (weekly closure or holiday)
+  reason: string;         // "Closed on Fridays", "Closed on Republic Day"...
 }
 
 // Time preference rules for place types
@@ -128,13 +231,41 @@ export interface FatigueConfig {
 // Route optimization result
 export interface OptimizedRoute {
   places: ExtractedPlace[];
-  totalDistance: number;
-  segments: Array<{
+  totalDistance: number;   // km, including legs from/to a fixed start or end point
+  segments: Array<{        // Every leg in totalDistance, from the start point to the end point
     from: ExtractedPlace;
     to: ExtractedPlace;
     distance: number;
     duration: number;
+    polyline?: Coords[];
   }>;
+  greedyDistance: number;      // km, nearest-neighbour tour over the same stops
+  improvementPercent: number;  // Distance saved versus greedy; negative when opening hours cost distance
+  missedWindows: string[];     // Stops reached after their opening hours allow a full visit
+}
+
+// Per-stop constraints for the route optimizer, keyed by place name
+export interface StopConstraint {
+  openingHours?: OpeningHours | TimeRange | null;  // "09:00"-"18:00"; close before open runs past midnight
+  visitDuration?: number;  // minutes spent at the stop
+  mustVisit?: boolean;     // Missing this stop's window costs much more than missing an optional one
+  fixedTime?: FixedTime;   // An existing commitment (a booking, a calendar event): pinned, not planned around
+}
+
+// A visit that already has a date and time
+export interface FixedTime {
+  date: string;       // YYYY-MM-DD
+  startTime: string;  // "HH:MM"
+  duration: number;   // minutes
+}
+
+export interface RouteOptions {
+  start?: Coords;          // Fixed start (hotel); defaults to the accommodation among the places
+  end?: Coords | 'start';  // Fixed end: 'start' returns to the start (hotel to hotel), or e.g. the airport
+  mode?: TravelMode;       // Defaults to bike
+  travel?: TravelLookup;   // Road distances/durations; defaults to the straight-line estimate for `mode`
+  departAt?: string;       // "09:00" - when the day's route begins, for time windows
+  stops?: Record<string, StopConstraint>;
 }
 
 // Cluster of places for a day
@@ -143,3 +274,74 @@ export interface PlaceCluster {
   centroid: Coords;
   totalDistance: number;
 }
+
+// ==================== Database Types ====================
+// Saved itineraries (itinerary_documents / itinerary_versions)
+
+export type ItineraryVersionSource = 'generated' | 'edited' | 'imported' | 'restored';
+
+export interface DbItineraryDocument {
+  id: string;
+  group_id: string | null;
+  owner_id: string | null;  // Signed-in user id, or device id for guests
+  title: string;
+  current_version: number;
+  share_token: string | null;
+  created_at: string;
+  updated_at: string;
+  is_deleted: boolean;
+}
+
+export interface DbItineraryVersion {
+  id: string;
+  document_id: string;
+  version: number;
+  itinerary_data: GeneratedItinerary;
+  source: ItineraryVersionSource;
+  change_summary: string[];
+  restored_from: number | null;
+  created_by: string | null;
+  created_at: string;
+  merged_through: number;  // Seq of the last collaborative edit folded into this version
+}
+
+export type ItineraryDocumentInsert = Omit<
+  DbItineraryDocument,
+  'id' | 'current_version' | 'share_token' | 'created_at' | 'updated_at' | 'is_deleted'
+>;
+export interface DbItineraryOp {
+  id: string;
+  seq: number;
+  document_id: string;
+  client_op_id: string;
+  member_id: string | null;
+  member_name: string;
+  op: ItineraryEdit;
+  created_at: string;
+}
+
+export interface DbItineraryComment {
+  id: string;
+  document_id: string;
+  place_key: string;
+  member_id: string | null;
+  member_name: string;
+  content: string;
+  created_at: string;
+  is_deleted: boolean;
+}
+
+export type ItineraryVersionInsert = Omit<DbItineraryVersion, 'id' | 'created_at'>;
+export type ItineraryOpInsert = Omit<DbItineraryOp, 'id' | 'seq' | 'created_at'>;
+export type ItineraryCommentInsert = Omit<DbItineraryComment, 'id' | 'created_at' | 'is_deleted'>;
+
+// ==================== Collaboration Types ====================
+
+// Where a collaborator is looking, shared over presence
+export interface CollaboratorCursor {
+  memberId: string;
+  name: string;
+  avatar: string;
+  day?: number;
+  activityId?: string;
+}
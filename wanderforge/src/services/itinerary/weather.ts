@@ -0,0 +1,472 @@
+// Weather - per-day conditions for planning around rain and heat
+// A forecast provider answers for the next couple of weeks when one is configured (Open-Meteo out
+// of the box, others via setWeatherProvider); further out, or without one, days get the month's
+// climate normals from the built-in dataset. The planners use the result to keep exposed places out
+// of hot afternoons, trade outdoor stops on wet days for indoor ones on dry days, and count heat
+// into fatigue; weatherWarnings says what to expect on each day.
+import type { Coords, DayWeather, PlaceCategory, TimePreference, TimeSlot, WeatherCondition, WeatherProvider } from './types';
+import { fetchWithRetry } from '../ai/utils/retry-utils';
+import { haversineDistance } from './route-optimizer';
+import { PLACE_TIME_PREFERENCES } from './time-optimizer';
+
+const RETRY_CONFIG = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 4000,
+};
+
+const HOT_DAY = 35;            // °C; exposed places stay out of the afternoon
+const VERY_HOT_DAY = 38;
+const RAINY_DAY = 0.6;         // Chance of rain above which outdoor stops move to drier days
+const FREEZING_NIGHT = 2;
+const MAX_CLIMATE_DISTANCE = 300;  // km from a climate station before its normals no longer apply
+
+// Out in the open whatever the weather; landmarks (temples, museums, churches) have a roof to go under
+const OUTDOOR: PlaceCategory[] = ['beach', 'fort', 'activity', 'destination'];
+const INDOOR: PlaceCategory[] = ['landmark', 'restaurant', 'nightlife'];
+// Temple complexes are a long walk in the sun even so
+const HEAT_EXPOSED: PlaceCategory[] = [...OUTDOOR, 'landmark'];
+
+// ==================== Climate Normals ====================
+
+// Monthly averages, January first
+export interface ClimateNormals {
+  name: string;
+  center: Coords;
+  tempMax: number[];     // °C
+  tempMin: number[];     // °C
+  rainfall: number[];    // mm over the month
+  rainyDays: number[];   // days with 2.5 mm or more
+}
+
+// Rounded normals for one station in each region the planner is used for most
+const BUILT_IN_NORMALS: ClimateNormals[] = [
+  {
+    name: 'Goa',
+    center: { lat: 15.49, lng: 73.83 },
+    tempMax: [32, 32, 33, 33, 33, 30, 29, 29, 30, 32, 33, 33],
+    tempMin: [20, 21, 23, 25, 27, 25, 24, 24, 24, 24, 23, 21],
+    rainfall: [0, 0, 1, 10, 100, 870, 1000, 600, 280, 120, 30, 10],
+    rainyDays: [0, 0, 0, 1, 4, 22, 27, 24, 14, 6, 2, 0],
+  },
+  {
+    name: 'Hampi',
+    center: { lat: 15.33, lng: 76.46 },
+    tempMax: [30, 33, 36, 38, 37, 32, 30, 30, 31, 31, 30, 29],
+    tempMin: [17, 19, 22, 25, 25, 23, 22, 22, 22, 21, 19, 17],
+    rainfall: [2, 3, 10, 30, 60, 70, 80, 90, 150, 110, 30, 5],
+    rainyDays: [0, 0, 1, 2, 4, 6, 8, 8, 9, 6, 2, 0],
+  },
+  {
+    name: 'Mumbai',
+    center: { lat: 19.08, lng: 72.88 },
+    tempMax: [31, 32, 33, 33, 34, 32, 30, 29, 30, 33, 34, 32],
+    tempMin: [17, 18, 21, 24, 27, 26, 25, 25, 24, 23, 21, 19],
+    rainfall: [0, 0, 0, 0, 15, 520, 840, 580, 340, 90, 15, 5],
+    rainyDays: [0, 0, 0, 0, 1, 14, 22, 20, 13, 3, 1, 0],
+  },
+  {
+    name: 'Kochi',
+    center: { lat: 9.93, lng: 76.27 },
+    tempMax: [31, 32, 33, 33, 32, 29, 29, 29, 30, 30, 31, 31],
+    tempMin: [23, 24, 25, 26, 26, 24, 24, 24, 24, 24, 24, 23],
+    rainfall: [20, 30, 50, 130, 290, 700, 580, 380, 280, 330, 170, 40],
+    rainyDays: [1, 2, 3, 8, 13, 24, 23, 19, 15, 15, 9, 3],
+  },
+  {
+    name: 'Chennai',
+    center: { lat: 13.08, lng: 80.27 },
+    tempMax: [29, 31, 33, 35, 38, 37, 35, 34, 34, 32, 29, 28],
+    tempMin: [21, 22, 24, 27, 28, 28, 26, 26, 25, 24, 23, 22],
+    rainfall: [25, 5, 5, 15, 50, 50, 90, 120, 120, 270, 350, 140],
+    rainyDays: [2, 1, 0, 1, 2, 4, 7, 9, 8, 11, 12, 6],
+  },
+  {
+    name: 'Jaipur',
+    center: { lat: 26.91, lng: 75.79 },
+    tempMax: [22, 26, 32, 38, 41, 39, 34, 32, 33, 33, 29, 24],
+    tempMin: [8, 11, 16, 22, 26, 28, 26, 25, 23, 19, 13, 9],
+    rainfall: [8, 8, 5, 4, 15, 65, 220, 220, 90, 15, 4, 3],
+    rainyDays: [1, 1, 1, 1, 2, 5, 12, 12, 6, 1, 0, 0],
+  },
+  {
+    name: 'Delhi',
+    center: { lat: 28.61, lng: 77.21 },
+    tempMax: [21, 24, 30, 36, 40, 39, 35, 34, 34, 33, 28, 23],
+    tempMin: [8, 10, 15, 21, 26, 28, 27, 27, 25, 19, 13, 9],
+    rainfall: [19, 20, 15, 10, 25, 70, 210, 240, 130, 15, 5, 8],
+    rainyDays: [2, 2, 2, 1, 2, 5, 11, 12, 6, 1, 0, 1],
+  },
+  {
+    name: 'Manali',
+    center: { lat: 32.24, lng: 77.19 },
+    tempMax: [9, 10, 15, 20, 24, 27, 26, 25, 24, 21, 16, 12],
+    tempMin: [-3, -2, 2, 6, 9, 12, 15, 15, 11, 5, 1, -2],
+    rainfall: [180, 200, 210, 120, 90, 90, 240, 230, 130, 40, 30, 70],
+    rainyDays: [6, 8, 9, 7, 6, 6, 12, 13, 7, 2, 2, 4],
+  },
+];
+
+const addedNormals: ClimateNormals[] = [];
+
+/**
+ * Add climate normals for a region the built-in dataset doesn't cover
+ */
+export function addClimateNormals(normals: ClimateNormals): void {
+  addedNormals.push(normals);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Typical weather on `date` ("YYYY-MM-DD") at a point, from the nearest climate station,
+ * or null when none is close enough to go by
+ */
+export function climateWeather(point: Coords, date: string): DayWeather | null {
+  const normals = [...addedNormals, ...BUILT_IN_NORMALS]
+    .map(n => ({ n, distance: haversineDistance(point.lat, point.lng, n.center.lat, n.center.lng) }))
+    .filter(({ distance }) => distance <= MAX_CLIMATE_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)[0]?.n;
+  if (!normals) return null;
+
+  // Interpolate between the middles of this month and the nearer neighbour
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const position = month - 1 + (day - 15) / daysInMonth(year, month);
+  const lower = Math.floor(position);
+  const t = position - lower;
+  const at = (values: number[]) => values[(lower + 12) % 12] * (1 - t) + values[(lower + 13) % 12] * t;
+
+  const days = daysInMonth(year, month);
+  const tempMax = Math.round(at(normals.tempMax));
+  const rainChance = Math.min(1, Math.round((at(normals.rainyDays) / days) * 100) / 100);
+
+  return {
+    date: date.slice(0, 10),
+    source: 'climate',
+    tempMax,
+    tempMin: Math.round(at(normals.tempMin)),
+    precipitation: Math.round(at(normals.rainfall) / days),
+    rainChance,
+    condition: rainChance >= 0.5 ? (tempMax <= 2 ? 'snow' : 'rain') : rainChance >= 0.25 ? 'cloudy' : 'clear',
+  };
+}
+
+// ==================== Open-Meteo Provider ====================
+
+export interface OpenMeteoProviderConfig {
+  baseUrl: string;       // https://api.open-meteo.com, or a self-hosted instance
+}
+
+/**
+ * Condition for a WMO weather code, as Open-Meteo reports them
+ */
+function conditionFromCode(code: number): WeatherCondition {
+  if (code >= 95) return 'storm';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 51) return 'rain';
+  if (code === 45 || code === 48) return 'fog';
+  if (code >= 2) return 'cloudy';
+  return 'clear';
+}
+
+/**
+ * Forecast provider for the Open-Meteo API (free, no key)
+ */
+export function createOpenMeteoProvider(config: OpenMeteoProviderConfig): WeatherProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'open-meteo',
+    horizonDays: 16,
+
+    async forecast(point, dates) {
+      if (dates.length === 0) return [];
+      const sorted = [...dates].sort();
+      const params = [
+        `latitude=${point.lat}`,
+        `longitude=${point.lng}`,
+        'daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max',
+        'timezone=auto',
+        `start_date=${sorted[0]}`,
+        `end_date=${sorted[sorted.length - 1]}`,
+      ].join('&');
+
+      const response = await fetchWithRetry(`${baseUrl}/v1/forecast?${params}`, {
+        headers: { 'Accept': 'application/json' },
+      }, RETRY_CONFIG);
+      if (!response.ok) {
+        throw new Error(`Open-Meteo error: ${response.status}`);
+      }
+
+      const { daily } = await response.json() as {
+        daily: {
+          time: string[];
+          weather_code: Array<number | null>;
+          temperature_2m_max: Array<number | null>;
+          temperature_2m_min: Array<number | null>;
+          precipitation_sum: Array<number | null>;
+          precipitation_probability_max: Array<number | null>;
+        };
+      };
+
+      return daily.time
+        .map((date, i) => ({ date, i }))
+        .filter(({ date, i }) => dates.includes(date) && daily.temperature_2m_max[i] !== null)
+        .map(({ date, i }) => ({
+          date,
+          source: 'forecast' as const,
+          tempMax: Math.round(daily.temperature_2m_max[i]!),
+          tempMin: Math.round(daily.temperature_2m_min[i] ?? daily.temperature_2m_max[i]!),
+          precipitation: Math.round(daily.precipitation_sum[i] ?? 0),
+          rainChance: (daily.precipitation_probability_max[i] ?? 0) / 100,
+          condition: conditionFromCode(daily.weather_code[i] ?? 0),
+        }));
+    },
+  };
+}
+
+// ==================== Provider Selection ====================
+
+let provider: WeatherProvider | null | undefined;
+
+function providerFromEnv(): WeatherProvider | null {
+  const baseUrl = import.meta.env.VITE_WEATHER_OPEN_METEO_URL;
+  if (!baseUrl) return null;
+  return createOpenMeteoProvider({ baseUrl: String(baseUrl) });
+}
+
+/**
+ * The forecast provider in use, or null when every day goes by climate normals
+ */
+export function getWeatherProvider(): WeatherProvider | null {
+  if (provider === undefined) {
+    provider = providerFromEnv();
+  }
+  return provider;
+}
+
+/**
+ * Plug in a different forecast provider, or null to use climate normals only
+ */
+export function setWeatherProvider(next: WeatherProvider | null): void {
+  provider = next;
+}
+
+// ==================== Public API ====================
+
+function daysFromToday(date: string): number {
+  const today = new Date();
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Math.round((Date.UTC(y, m - 1, d) - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / 86_400_000);
+}
+
+/**
+ * Weather for each trip day at that day's location: forecast within the provider's horizon,
+ * climate normals beyond it or when the provider fails. Undefined where neither is known.
+ */
+export async function getTripWeather(
+  days: Array<{ date: string; point: Coords | null }>
+): Promise<Array<DayWeather | undefined>> {
+  const result: Array<DayWeather | undefined> = days.map(() => undefined);
+  const forecaster = getWeatherProvider();
+
+  // One request per place (~10 km apart), covering all of its days
+  const byPoint = new Map<string, { point: Coords; indexes: number[] }>();
+  days.forEach(({ date, point }, i) => {
+    if (!point) return;
+    const ahead = daysFromToday(date);
+    if (!forecaster || ahead < 0 || ahead >= forecaster.horizonDays) return;
+    const key = `${point.lat.toFixed(1)},${point.lng.toFixed(1)}`;
+    const group = byPoint.get(key) ?? { point, indexes: [] };
+    group.indexes.push(i);
+    byPoint.set(key, group);
+  });
+
+  for (const { point, indexes } of byPoint.values()) {
+    try {
+      const forecast = await forecaster!.forecast(point, indexes.map(i => days[i].date));
+      for (const i of indexes) {
+        result[i] = forecast.find(w => w.date === days[i].date);
+      }
+    } catch (error) {
+      console.warn(`[Weather] ${forecaster!.name} forecast failed, using climate normals:`, error);
+    }
+  }
+
+  return result.map((weather, i) => {
+    const { date, point } = days[i];
+    return weather ?? (point ? climateWeather(point, date) ?? undefined : undefined);
+  });
+}
+
+function isHot(weather: DayWeather): boolean {
+  return weather.tempMax >= HOT_DAY;
+}
+
+/**
+ * Wet enough that outdoor stops are better on another day
+ */
+export function isRainyDay(weather: DayWeather | undefined): boolean {
+  if (!weather) return false;
+  return weather.condition === 'storm' ||
+    ((weather.condition === 'rain' || weather.condition === 'snow') && weather.rainChance >= RAINY_DAY);
+}
+
+// ==================== Planning ====================
+
+/**
+ * Time slots the weather rules out for a category (on top of its usual preferences)
+ */
+export function weatherAvoidSlots(category: PlaceCategory, weather: DayWeather | undefined): TimeSlot[] {
+  if (!weather) return [];
+  const avoid: TimeSlot[] = [];
+  if (isHot(weather) && HEAT_EXPOSED.includes(category)) {
+    avoid.push('afternoon');
+  }
+  // Monsoon thunderstorms build through the afternoon; beaches and water sports go first thing
+  if (weather.condition === 'storm' && (category === 'beach' || category === 'activity')) {
+    avoid.push('afternoon', 'evening');
+  }
+  return [...new Set(avoid)];
+}
+
+/**
+ * PLACE_TIME_PREFERENCES adjusted for a day's weather
+ */
+export function weatherTimePreferences(weather: DayWeather | undefined): Record<PlaceCategory, TimePreference> {
+  if (!weather) return PLACE_TIME_PREFERENCES;
+
+  const entries = (Object.keys(PLACE_TIME_PREFERENCES) as PlaceCategory[]).map(category => {
+    const preference = PLACE_TIME_PREFERENCES[category];
+    const avoid = weatherAvoidSlots(category, weather);
+    if (avoid.length === 0) return [category, preference] as const;
+
+    const best = preference.best.filter(slot => !avoid.includes(slot));
+    const reason = weather.condition === 'storm' && avoid.includes('evening')
+      ? 'Before the afternoon thunderstorms'
+      : `Out of the ${weather.tempMax}°C afternoon heat`;
+    return [category, {
+      best: best.length > 0 ? best : ['morning'],
+      avoid: [...new Set([...preference.avoid, ...avoid])],
+      reason,
+    }] as const;
+  });
+
+  return Object.fromEntries(entries) as Record<PlaceCategory, TimePreference>;
+}
+
+/**
+ * Trade outdoor places on rainy days for indoor ones on the nearest dry day
+ * (`canSwap` keeps places within their city and off days they're closed).
+ * Outdoor places with no indoor place to trade with stay put; the day's warning covers them.
+ */
+export function swapForRain<T>(
+  days: T[][],
+  weather: Array<DayWeather | undefined>,
+  categoryOf: (place: T) => PlaceCategory,
+  canSwap: (place: T, from: number, to: number) => boolean = () => true
+): T[][] {
+  const result = days.map(d => [...d]);
+
+  result.forEach((places, i) => {
+    if (!isRainyDay(weather[i])) return;
+
+    for (const outdoor of places.filter(p => OUTDOOR.includes(categoryOf(p)))) {
+      const dryDays = result
+        .map((_, j) => j)
+        .filter(j => j !== i && !isRainyDay(weather[j]) && canSwap(outdoor, i, j))
+        .sort((a, b) => Math.abs(a - i) - Math.abs(b - i));
+
+      for (const j of dryDays) {
+        const indoor = result[j].find(p => INDOOR.includes(categoryOf(p)) && canSwap(p, j, i));
+        if (!indoor) continue;
+
+        places.splice(places.indexOf(outdoor), 1, indoor);
+        result[j].splice(result[j].indexOf(indoor), 1, outdoor);
+        break;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Fatigue for a visit starting at `startMinutes`, raised for exposed places in the heat
+ */
+export function heatFatigue(
+  impact: number,
+  category: PlaceCategory,
+  startMinutes: number,
+  weather: DayWeather | undefined
+): number {
+  if (!weather || !isHot(weather) || impact <= 0 || !HEAT_EXPOSED.includes(category)) return impact;
+
+  const midday = startMinutes >= 11 * 60 && startMinutes < 16 * 60;
+  const factor = weather.tempMax >= VERY_HOT_DAY
+    ? (midday ? 1.5 : 1.25)
+    : (midday ? 1.3 : 1.1);
+  return Math.round(impact * factor);
+}
+
+/**
+ * What to expect on a day and how the plan allows for it
+ */
+export function weatherWarnings(weather: DayWeather | undefined): string[] {
+  if (!weather) return [];
+  const warnings: string[] = [];
+  const typical = weather.source === 'climate' ? ' (seasonal average)' : '';
+  const chance = `${Math.round(weather.rainChance * 100)}%`;
+
+  if (weather.condition === 'storm') {
+    warnings.push(`Thunderstorms forecast - beaches and water sports moved to the morning; keep off open ground when it breaks`);
+  } else if (weather.condition === 'snow' && weather.rainChance >= RAINY_DAY) {
+    warnings.push(`Snow likely (${chance})${typical} - check that roads and passes are open before heading out`);
+  } else if (isRainyDay(weather)) {
+    const amount = weather.source === 'climate' ? 'seasonal average' : `about ${weather.precipitation} mm`;
+    warnings.push(`Rain likely (${chance}, ${amount}) - outdoor stops traded for drier days where possible; carry rain gear`);
+  }
+
+  if (weather.tempMax >= VERY_HOT_DAY) {
+    warnings.push(`Very hot, up to ${weather.tempMax}°C${typical} - outdoor sights kept to the morning and evening; drink plenty of water`);
+  } else if (isHot(weather)) {
+    warnings.push(`Hot afternoon, up to ${weather.tempMax}°C${typical} - outdoor sights kept out of the midday sun`);
+  }
+
+  if (weather.tempMin <= FREEZING_NIGHT) {
+    warnings.push(`Near freezing at night (${weather.tempMin}°C)${typical} - pack warm layers`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Weather for the whole trip in a few lines, for the safety briefing
+ */
+export function describeTripWeather(days: DayWeather[]): string[] {
+  if (days.length === 0) return [];
+
+  const low = Math.min(...days.map(d => d.tempMin));
+  const high = Math.max(...days.map(d => d.tempMax));
+  const wet = days.filter(d => isRainyDay(d)).length;
+  const hot = days.filter(d => isHot(d)).length;
+  const source = days.every(d => d.source === 'forecast') ? 'Forecast' : 'Seasonal average';
+  const label = (d: DayWeather) => new Date(`${d.date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+  const lines = [
+    `${source}: ${low}-${high}°C${wet > 0 ? `, rain likely on ${wet} of ${days.length} days` : ', mostly dry'}`,
+  ];
+  if (hot > 0) {
+    lines.push(`Afternoons reach ${HOT_DAY}°C or more on ${hot} day${hot === 1 ? '' : 's'} - sightseeing is planned for mornings and evenings`);
+  }
+  const storms = days.filter(d => d.condition === 'storm');
+  if (storms.length > 0) {
+    lines.push(`Thunderstorms forecast on ${storms.map(label).join(', ')}`);
+  }
+  if (low <= FREEZING_NIGHT) {
+    lines.push(`Nights drop to ${low}°C - bring warm layers`);
+  }
+  return lines;
+}
@@ -3,6 +3,7 @@
 // NO CORS proxy dependencies - all APIs support direct browser access
 
 import type { WebSearchResult, PlaceSearchResults } from './place-research.types';
+import type { LLMPrompt } from '../ai/types';
 import { LLMProviderManager } from '../ai/providers';
 import { retryWithBackoff } from '../ai/utils/retry-utils';
 
@@ -307,7 +308,7 @@ async function searchGoogle(query: string): Promise<WebSearchResult[]> {
 async function getLLMKnowledge(placeName: string, region: string): Promise<WebSearchResult[]> {
   const llmManager = new LLMProviderManager();
 
-  const prompt = {
+  const prompt: LLMPrompt = {
     system: `You are a knowledgeable travel guide with extensive information about tourist destinations worldwide.
 Provide accurate, factual information about places. If you're not certain about specific details, indicate that.
 Return your response as a JSON object.`,
@@ -325,7 +326,8 @@ Return JSON with these exact fields:
   "nearbyRestaurants": "2-3 popular restaurants nearby",
   "crowdInfo": "When it gets crowded vs quiet times",
   "tips": "1-2 practical tips for visitors"
-}`
+}`,
+    task: 'research',
   };
 
   try {
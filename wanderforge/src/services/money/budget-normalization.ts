@@ -0,0 +1,57 @@
+// Budget Normalization - one budget, expressed per person and for the whole group
+// in the trip's base currency, so "$400 each" and "₹1.5 lakh total" can be compared.
+import type { CurrencyCode, Money, NormalizedBudget } from './types';
+import { convertMoney } from './exchange-rates';
+
+function round(amount: number, currency: CurrencyCode): number {
+  // Rupees and baht aren't budgeted in paise/satang
+  return currency === 'INR' || currency === 'THB' ? Math.round(amount) : Math.round(amount * 100) / 100;
+}
+
+/**
+ * Per-person and group figures for a stated amount. `members` below 1 is treated as 1.
+ */
+export function normalizeBudget(
+  money: Money,
+  perPerson: boolean,
+  members: number,
+  baseCurrency: CurrencyCode = money.currency
+): NormalizedBudget {
+  const headcount = Math.max(1, Math.round(members) || 1);
+  const converted = convertMoney(money, baseCurrency);
+  const perPersonTotal = perPerson ? converted.amount : converted.amount / headcount;
+  const groupTotal = perPerson ? converted.amount * headcount : converted.amount;
+
+  return {
+    currency: baseCurrency,
+    perPersonTotal: round(perPersonTotal, baseCurrency),
+    groupTotal: round(groupTotal, baseCurrency),
+    members: headcount,
+    statedPerPerson: perPerson,
+  };
+}
+
+/**
+ * Sum amounts in mixed currencies into one
+ */
+export function sumMoney(values: Money[], currency: CurrencyCode): Money {
+  const total = values.reduce((sum, value) => sum + convertMoney(value, currency).amount, 0);
+  return { amount: round(total, currency), currency };
+}
+
+/**
+ * The currency most of the amounts are in (ties go to the first seen); the trip's natural base
+ */
+export function dominantCurrency(values: Money[], fallback: CurrencyCode = 'INR'): CurrencyCode {
+  const counts = new Map<CurrencyCode, number>();
+  for (const value of values) counts.set(value.currency, (counts.get(value.currency) ?? 0) + 1);
+  let best: CurrencyCode = fallback;
+  let bestCount = 0;
+  for (const [currency, count] of counts) {
+    if (count > bestCount) {
+      best = currency;
+      bestCount = count;
+    }
+  }
+  return best;
+}
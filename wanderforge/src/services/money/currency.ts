@@ -0,0 +1,115 @@
+// Currency parsing and formatting
+// Handles the way groups actually write money: "₹15,000", "15k", "1.5 lakh total",
+// "2 cr", "$400 each", "300 euros", "1,50,000 rs".
+import type { CurrencyCode, CurrencyInfo, Money } from './types';
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  INR: { code: 'INR', symbol: '₹', name: 'Indian Rupee', locale: 'en-IN' },
+  USD: { code: 'USD', symbol: '$', name: 'US Dollar', locale: 'en-US' },
+  EUR: { code: 'EUR', symbol: '€', name: 'Euro', locale: 'en-IE' },
+  GBP: { code: 'GBP', symbol: '£', name: 'British Pound', locale: 'en-GB' },
+  AED: { code: 'AED', symbol: 'AED ', name: 'UAE Dirham', locale: 'en-AE' },
+  THB: { code: 'THB', symbol: '฿', name: 'Thai Baht', locale: 'th-TH' },
+  SGD: { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar', locale: 'en-SG' },
+};
+
+// Longer tokens first so "us$" / "s$" win over "$"
+const CURRENCY_TOKENS: Array<[string, CurrencyCode]> = [
+  ['us$', 'USD'], ['s$', 'SGD'], ['sgd', 'SGD'],
+  ['₹', 'INR'], ['rs.', 'INR'], ['rs', 'INR'], ['inr', 'INR'], ['rupees', 'INR'], ['rupee', 'INR'],
+  ['$', 'USD'], ['usd', 'USD'], ['dollars', 'USD'], ['dollar', 'USD'],
+  ['€', 'EUR'], ['eur', 'EUR'], ['euros', 'EUR'], ['euro', 'EUR'],
+  ['£', 'GBP'], ['gbp', 'GBP'], ['pounds', 'GBP'], ['pound', 'GBP'],
+  ['aed', 'AED'], ['dirhams', 'AED'], ['dirham', 'AED'], ['dhs', 'AED'],
+  ['฿', 'THB'], ['thb', 'THB'], ['baht', 'THB'],
+];
+
+const MULTIPLIERS: Array<[RegExp, number]> = [
+  [/^(?:k|thousand)$/, 1_000],
+  [/^(?:l|lac|lacs|lakh|lakhs)$/, 100_000],
+  [/^(?:cr|crore|crores)$/, 10_000_000],
+  [/^(?:mn|million)$/, 1_000_000],
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const TOKEN_SOURCE = CURRENCY_TOKENS.map(([token]) => escapeRegExp(token)).join('|');
+
+// [prefix currency] number [multiplier] [suffix currency]
+const MONEY_PATTERN = new RegExp(
+  `(${TOKEN_SOURCE})?\\s*(\\d[\\d,]*(?:\\.\\d+)?)(\\s*(?:k|thousand|lakhs?|lacs?|l|crores?|cr|mn|million))?(?![a-z])\\s*(${TOKEN_SOURCE})?(?![a-z])`,
+  'gi'
+);
+
+export function isCurrencyCode(value: string): value is CurrencyCode {
+  return value in CURRENCIES;
+}
+
+/**
+ * Currency named anywhere in the text ("$", "euros", "INR"), or null
+ */
+export function detectCurrency(text: string): CurrencyCode | null {
+  const lower = text.toLowerCase();
+  for (const [token, code] of CURRENCY_TOKENS) {
+    // Word tokens need word boundaries ("rs" inside "hours" is not rupees)
+    const pattern = /^[a-z.]+$/.test(token)
+      ? new RegExp(`(?:^|[^a-z])${escapeRegExp(token)}(?![a-z])`)
+      : new RegExp(escapeRegExp(token));
+    if (pattern.test(lower)) return code;
+  }
+  return null;
+}
+
+/**
+ * Scale a number by a lakh/crore/k style multiplier word
+ */
+export function applyMultiplier(value: number, multiplier?: string): number {
+  if (!multiplier) return value;
+  const word = multiplier.toLowerCase();
+  const match = MULTIPLIERS.find(([pattern]) => pattern.test(word));
+  return match ? value * match[1] : value;
+}
+
+/**
+ * The amount in the text: the first one written with a currency ("hotel for 2 nights 3000 rs"
+ * is ₹3,000), else the first number. Bare numbers take `defaultCurrency`.
+ */
+export function parseMoney(text: string, defaultCurrency: CurrencyCode = 'INR'): Money | null {
+  const matches = Array.from(text.toLowerCase().matchAll(MONEY_PATTERN));
+  const match = matches.find(m => m[1] || m[4]) ?? matches[0];
+  if (!match) return null;
+
+  const [, prefix, digits, written, suffix] = match;
+  const value = parseFloat(digits.replace(/,/g, ''));
+  if (isNaN(value)) return null;
+
+  const token = prefix || suffix;
+  const currency = token
+    ? CURRENCY_TOKENS.find(([t]) => t === token.toLowerCase())?.[1] ?? defaultCurrency
+    : defaultCurrency;
+
+  // A bare "l" is lakh written onto the number ("5L") or on an amount with a currency ("₹5 L");
+  // "5 l water" is litres
+  const multiplier = written?.trim();
+  const isLakh = multiplier !== 'l' || !/^\s/.test(written!) || Boolean(token);
+
+  return { amount: applyMultiplier(value, isLakh ? multiplier : undefined), currency };
+}
+
+/**
+ * Display form. Large rupee amounts use lakh/crore ("₹1.5L"), as the group would write them.
+ */
+export function formatMoney(money: Money, options: { compact?: boolean } = {}): string {
+  const { symbol, locale } = CURRENCIES[money.currency];
+  const compact = options.compact ?? true;
+
+  if (compact && money.currency === 'INR') {
+    if (money.amount >= 10_000_000) return `${symbol}${(money.amount / 10_000_000).toFixed(1)}Cr`;
+    if (money.amount >= 100_000) return `${symbol}${(money.amount / 100_000).toFixed(1)}L`;
+  }
+
+  const digits = Number.isInteger(money.amount) ? 0 : 2;
+  return `${symbol}${money.amount.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: 2 })}`;
+}
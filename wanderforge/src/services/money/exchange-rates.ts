@@ -0,0 +1,102 @@
+// Exchange Rates - local table, no network calls
+// Ships with approximate rates and can be updated (e.g. from a settings screen or a
+// rates API the deployment trusts); updates persist in localStorage.
+import type { CurrencyCode, ExchangeRateTable, Money } from './types';
+
+const RATES_KEY = 'wanderforge_exchange_rates';
+const RATES_VERSION = 1; // Increment when the stored shape changes
+
+// Units per 1 USD, early December 2024
+const DEFAULT_RATES: ExchangeRateTable = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    INR: 84.7,
+    EUR: 0.95,
+    GBP: 0.79,
+    AED: 3.67,
+    THB: 34.2,
+    SGD: 1.34,
+  },
+  updatedAt: '2024-12-01T00:00:00.000Z',
+};
+
+interface StoredRates {
+  version: number;
+  table: ExchangeRateTable;
+}
+
+let table: ExchangeRateTable | null = null;
+
+function hasStorage(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+export function getExchangeRates(): ExchangeRateTable {
+  if (table) return table;
+  table = DEFAULT_RATES;
+  if (!hasStorage()) return table;
+
+  try {
+    const stored = localStorage.getItem(RATES_KEY);
+    if (stored) {
+      const parsed: StoredRates = JSON.parse(stored);
+      if (parsed.version === RATES_VERSION) {
+        // Currencies added since the table was saved fall back to the defaults
+        table = { ...parsed.table, rates: { ...DEFAULT_RATES.rates, ...parsed.table.rates } };
+      }
+    }
+  } catch (error) {
+    console.warn('[Money] Error reading exchange rates:', error);
+  }
+  return table;
+}
+
+/**
+ * Update some or all rates. `rates` are units per 1 unit of `base` (default: the table's base).
+ */
+export function setExchangeRates(
+  rates: Partial<Record<CurrencyCode, number>>,
+  options: { base?: CurrencyCode; updatedAt?: string } = {}
+): ExchangeRateTable {
+  const current = getExchangeRates();
+  const base = options.base ?? current.base;
+  // Re-express the incoming rates against the table's base
+  const scale = base === current.base ? 1 : current.rates[base];
+
+  const merged = { ...current.rates };
+  for (const [code, rate] of Object.entries(rates) as Array<[CurrencyCode, number]>) {
+    if (rate > 0) merged[code] = rate * scale;
+  }
+
+  table = { base: current.base, rates: merged, updatedAt: options.updatedAt ?? new Date().toISOString() };
+
+  if (hasStorage()) {
+    try {
+      const stored: StoredRates = { version: RATES_VERSION, table };
+      localStorage.setItem(RATES_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('[Money] Error saving exchange rates:', error);
+    }
+  }
+  return table;
+}
+
+export function resetExchangeRates(): void {
+  table = DEFAULT_RATES;
+  if (!hasStorage()) return;
+  try {
+    localStorage.removeItem(RATES_KEY);
+  } catch (error) {
+    console.warn('[Money] Error clearing exchange rates:', error);
+  }
+}
+
+/**
+ * Convert between currencies via the table's base. Rounded to 2 decimals.
+ */
+export function convertMoney(money: Money, to: CurrencyCode, rates: ExchangeRateTable = getExchangeRates()): Money {
+  if (money.currency === to) return money;
+  const inBase = money.amount / rates.rates[money.currency];
+  return { amount: Math.round(inBase * rates.rates[to] * 100) / 100, currency: to };
+}
@@ -0,0 +1,214 @@
+// Expense Ledger - who paid what, who owes whom, and the fewest transfers to square up
+// Amounts are split in minor units (paise/cents) so shares always add back up to the total.
+import type {
+  CurrencyCode,
+  DaySpend,
+  Expense,
+  MemberBalance,
+  SettlementTransfer,
+  SpendComparison,
+} from './types';
+import { convertMoney } from './exchange-rates';
+import { formatMoney } from './currency';
+
+function toMinor(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromMinor(minor: number): number {
+  return minor / 100;
+}
+
+/**
+ * Problems that would make the split meaningless; empty when the expense is fine
+ */
+export function validateExpense(expense: Expense): string[] {
+  const errors: string[] = [];
+
+  if (!expense.description.trim()) {
+    errors.push('Please describe the expense');
+  }
+  if (!(expense.money.amount > 0)) {
+    errors.push('Amount must be more than zero');
+  }
+  if (!expense.paidBy) {
+    errors.push('Please pick who paid');
+  }
+  if (expense.splits.length === 0) {
+    errors.push('Pick at least one person to split with');
+  }
+
+  const memberIds = expense.splits.map(s => s.memberId);
+  if (new Set(memberIds).size !== memberIds.length) {
+    errors.push('Each person can only appear once in a split');
+  }
+
+  if (expense.splitMode === 'shares' && expense.splits.some(s => (s.shares ?? 1) <= 0)) {
+    errors.push('Shares must be positive');
+  }
+
+  if (expense.splitMode === 'exact') {
+    const splitTotal = expense.splits.reduce((sum, s) => sum + toMinor(s.amount ?? 0), 0);
+    if (splitTotal !== toMinor(expense.money.amount)) {
+      errors.push(
+        `Split amounts add up to ${formatMoney({ amount: fromMinor(splitTotal), currency: expense.money.currency }, { compact: false })}, ` +
+        `not ${formatMoney(expense.money, { compact: false })}`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Each member's share of one expense, in the expense currency.
+ * Leftover paise from uneven splits go to the first members listed.
+ */
+export function splitExpense(expense: Expense): Map<string, number> {
+  const shares = new Map<string, number>();
+  if (expense.splits.length === 0) return shares;
+
+  if (expense.splitMode === 'exact') {
+    for (const split of expense.splits) {
+      shares.set(split.memberId, split.amount ?? 0);
+    }
+    return shares;
+  }
+
+  const weights = expense.splits.map(s => (expense.splitMode === 'shares' ? Math.max(0, s.shares ?? 1) : 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return shares;
+
+  const totalMinor = toMinor(expense.money.amount);
+  const minorShares = weights.map(w => Math.floor((totalMinor * w) / totalWeight));
+  let leftover = totalMinor - minorShares.reduce((sum, s) => sum + s, 0);
+  for (let i = 0; leftover > 0; i = (i + 1) % minorShares.length) {
+    if (weights[i] === 0) continue;
+    minorShares[i]++;
+    leftover--;
+  }
+
+  expense.splits.forEach((split, i) => {
+    shares.set(split.memberId, fromMinor(minorShares[i]));
+  });
+  return shares;
+}
+
+/**
+ * What everyone paid and owes across the ledger, in one currency.
+ * `memberIds` lists members who should appear even with nothing recorded.
+ */
+export function computeBalances(
+  expenses: Expense[],
+  currency: CurrencyCode,
+  memberIds: string[] = []
+): MemberBalance[] {
+  const paid = new Map<string, number>(memberIds.map(id => [id, 0]));
+  const owed = new Map<string, number>(memberIds.map(id => [id, 0]));
+
+  for (const expense of expenses) {
+    const converted = convertMoney(expense.money, currency).amount;
+    paid.set(expense.paidBy, (paid.get(expense.paidBy) ?? 0) + toMinor(converted));
+    owed.set(expense.paidBy, owed.get(expense.paidBy) ?? 0);
+
+    for (const [memberId, share] of splitExpense(expense)) {
+      const convertedShare = convertMoney({ amount: share, currency: expense.money.currency }, currency).amount;
+      owed.set(memberId, (owed.get(memberId) ?? 0) + toMinor(convertedShare));
+      paid.set(memberId, paid.get(memberId) ?? 0);
+    }
+  }
+
+  return Array.from(paid.keys()).map(memberId => {
+    const paidMinor = paid.get(memberId) ?? 0;
+    const owedMinor = owed.get(memberId) ?? 0;
+    return {
+      memberId,
+      paid: fromMinor(paidMinor),
+      owed: fromMinor(owedMinor),
+      net: fromMinor(paidMinor - owedMinor),
+    };
+  });
+}
+
+/**
+ * Transfers that square everyone up. Exact matches (someone owes precisely what another
+ * is owed) settle first, then the largest debtor pays the largest creditor. That needs at
+ * most n-1 transfers and is usually the true minimum, which is NP-hard to guarantee.
+ */
+export function settleUp(balances: MemberBalance[], currency: CurrencyCode): SettlementTransfer[] {
+  // Conversion rounding can leave a paisa or two; don't ask anyone to send that
+  const DUST = 1;
+  const creditors = balances
+    .map(b => ({ memberId: b.memberId, minor: toMinor(b.net) }))
+    .filter(b => b.minor > DUST);
+  const debtors = balances
+    .map(b => ({ memberId: b.memberId, minor: -toMinor(b.net) }))
+    .filter(b => b.minor > DUST);
+
+  const transfers: SettlementTransfer[] = [];
+  const transfer = (from: string, to: string, minor: number) => {
+    transfers.push({ from, to, money: { amount: fromMinor(minor), currency } });
+  };
+
+  for (const debtor of debtors) {
+    const match = creditors.find(c => c.minor === debtor.minor);
+    if (!match) continue;
+    transfer(debtor.memberId, match.memberId, debtor.minor);
+    debtor.minor = 0;
+    match.minor = 0;
+  }
+
+  for (;;) {
+    const debtor = debtors.filter(d => d.minor > DUST).sort((a, b) => b.minor - a.minor)[0];
+    const creditor = creditors.filter(c => c.minor > DUST).sort((a, b) => b.minor - a.minor)[0];
+    if (!debtor || !creditor) break;
+
+    const amount = Math.min(debtor.minor, creditor.minor);
+    transfer(debtor.memberId, creditor.memberId, amount);
+    debtor.minor -= amount;
+    creditor.minor -= amount;
+  }
+
+  return transfers;
+}
+
+/**
+ * Actual spend against the itinerary's plan. Itinerary costs are per person, so the
+ * planned side is scaled up to the whole group.
+ */
+export function compareSpendToPlan(
+  expenses: Expense[],
+  plan: { days: Array<{ day: number; totalCost: number }>; currency: CurrencyCode; members: number },
+  currency: CurrencyCode = plan.currency
+): SpendComparison {
+  const headcount = Math.max(1, plan.members);
+  const byDay = new Map<number, DaySpend>();
+
+  for (const day of plan.days) {
+    const planned = convertMoney({ amount: day.totalCost * headcount, currency: plan.currency }, currency).amount;
+    byDay.set(day.day, { day: day.day, planned: fromMinor(toMinor(planned)), actual: 0 });
+  }
+
+  let unassigned = 0;
+  for (const expense of expenses) {
+    const amount = convertMoney(expense.money, currency).amount;
+    const entry = expense.day != null ? byDay.get(expense.day) : undefined;
+    if (entry) {
+      entry.actual = fromMinor(toMinor(entry.actual + amount));
+    } else {
+      unassigned += amount;
+    }
+  }
+
+  const days = Array.from(byDay.values()).sort((a, b) => a.day - b.day);
+  const planned = days.reduce((sum, d) => sum + d.planned, 0);
+  const actual = days.reduce((sum, d) => sum + d.actual, 0) + unassigned;
+
+  return {
+    currency,
+    planned: fromMinor(toMinor(planned)),
+    actual: fromMinor(toMinor(actual)),
+    unassigned: fromMinor(toMinor(unassigned)),
+    byDay: days,
+  };
+}
@@ -0,0 +1,7 @@
+// Money - currency-aware amounts, conversion and budget normalization
+
+export * from './types';
+export * from './currency';
+export * from './exchange-rates';
+export * from './budget-normalization';
+export * from './expense-ledger';
@@ -0,0 +1,82 @@
+// Money Types - amounts that always carry their currency
+
+export type CurrencyCode = 'INR' | 'USD' | 'EUR' | 'GBP' | 'AED' | 'THB' | 'SGD';
+
+export interface Money {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  symbol: string;
+  name: string;
+  locale: string;  // Digit grouping (en-IN gives 1,50,000); always a '.' decimal so parseMoney can read it back
+}
+
+// Units of each currency per 1 unit of `base`
+export interface ExchangeRateTable {
+  base: CurrencyCode;
+  rates: Record<CurrencyCode, number>;
+  updatedAt: string;  // ISO timestamp of the rates, not of the last save
+}
+
+// A budget expressed both ways, in the trip's base currency
+export interface NormalizedBudget {
+  currency: CurrencyCode;
+  perPersonTotal: number;
+  groupTotal: number;
+  members: number;
+  statedPerPerson: boolean;  // How the group said it ("15k each" vs "60k total")
+}
+
+// ==================== Expense Ledger ====================
+
+// equal: everyone listed pays the same; shares: by weight (2 shares pays double); exact: amounts given
+export type ExpenseSplitMode = 'equal' | 'shares' | 'exact';
+
+export interface ExpenseSplit {
+  memberId: string;
+  shares?: number;  // 'shares' mode (default 1)
+  amount?: number;  // 'exact' mode, in the expense currency
+}
+
+export interface Expense {
+  id: string;
+  description: string;
+  paidBy: string;           // member id
+  money: Money;
+  splitMode: ExpenseSplitMode;
+  splits: ExpenseSplit[];   // who shares this expense
+  day?: number | null;      // itinerary day it was spent on, when known
+  category?: string;        // Stay / Transport / Food / Activities / ...
+}
+
+// Positive `net`: the group owes this member; negative: they owe the group
+export interface MemberBalance {
+  memberId: string;
+  paid: number;
+  owed: number;
+  net: number;
+}
+
+export interface SettlementTransfer {
+  from: string;  // member id
+  to: string;
+  money: Money;
+}
+
+export interface DaySpend {
+  day: number;
+  planned: number;
+  actual: number;
+}
+
+// Group-wide planned (itinerary) vs actual (ledger) spend
+export interface SpendComparison {
+  currency: CurrencyCode;
+  planned: number;
+  actual: number;
+  unassigned: number;  // actual spend not tied to a day
+  byDay: DaySpend[];
+}
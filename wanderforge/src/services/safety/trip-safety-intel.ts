@@ -2,8 +2,11 @@
 // Generates AI-powered safety briefings for travel destinations
 
 import { LLMProviderManager } from '../ai/providers';
+import { s, type Infer } from '../ai/schema';
+import type { LLMPrompt } from '../ai/types';
 import { getEmergencyNumbers, findEmergencyServices, type EmergencyResources } from './emergency-locator';
-import type { Coords } from '../itinerary/types';
+import type { Coords, DayWeather } from '../itinerary/types';
+import { describeTripWeather, getTripWeather } from '../itinerary/weather';
 
 export interface SafetyTip {
   category: 'general' | 'health' | 'transport' | 'scam' | 'weather' | 'local';
@@ -52,10 +55,25 @@ const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 // LLM Manager instance
 const llmManager = new LLMProviderManager();
 
+// Expected LLM response; unknown categories/priorities fall back instead of failing the briefing
+const SAFETY_BRIEFING_SCHEMA = s.object({
+  safetyTips: s.array(s.object({
+    category: s.enumOf(['general', 'health', 'transport', 'scam', 'weather', 'local'], { fallback: 'general' }),
+    title: s.string().default('Safety Tip'),
+    description: s.string().default(''),
+    priority: s.enumOf(['high', 'medium', 'low'], { fallback: 'medium' }),
+  })),
+  commonScams: s.array(s.string()),
+  healthAdvisories: s.array(s.string()),
+  weatherConsiderations: s.array(s.string()),
+  riskLevel: s.enumOf(['low', 'medium', 'high'], { fallback: 'medium' }),
+  riskSummary: s.string().optional(),
+});
+
 /**
  * Generate safety briefing prompt for LLM
  */
-function getSafetyBriefingPrompt(destination: string, dates?: { start: string; end: string }) {
+function getSafetyBriefingPrompt(destination: string, dates?: { start: string; end: string }): LLMPrompt {
   const dateContext = dates
     ? `Travel dates: ${dates.start} to ${dates.end}.`
     : 'Travel dates not specified.';
@@ -87,6 +105,8 @@ Focus on:
 6. Weather-related precautions
 
 Respond with JSON only, no additional text.`,
+    schema: SAFETY_BRIEFING_SCHEMA,
+    task: 'safety',
   };
 }
 
@@ -264,11 +284,7 @@ export async function generateSafetyBriefing(
 
   try {
     const prompt = getSafetyBriefingPrompt(destination, options?.dates);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const response = await llmManager.executeWithFallback<any>({
-      system: prompt.system,
-      user: prompt.user,
-    });
+    const response = await llmManager.executeWithFallback<Infer<typeof SAFETY_BRIEFING_SCHEMA>>(prompt);
 
     if (response.success && response.data) {
       aiResponse = parseSafetyResponse(response.data);
@@ -288,6 +304,22 @@ export async function generateSafetyBriefing(
     }
   }
 
+  // Forecast or seasonal averages for the trip, ahead of the AI's general advice
+  let weatherFacts: string[] = [];
+  if (options?.coordinates && options.dates) {
+    const dates: string[] = [];
+    for (
+      let d = new Date(`${options.dates.start.slice(0, 10)}T00:00:00Z`);
+      d <= new Date(`${options.dates.end.slice(0, 10)}T00:00:00Z`) && dates.length < 60;
+      d.setUTCDate(d.getUTCDate() + 1)
+    ) {
+      dates.push(d.toISOString().slice(0, 10));
+    }
+    const point = options.coordinates;
+    const days = await getTripWeather(dates.map(date => ({ date, point })));
+    weatherFacts = describeTripWeather(days.filter((w): w is DayWeather => !!w));
+  }
+
   // Build final briefing
   const briefing: TripSafetyBriefing = {
     destination,
@@ -310,13 +342,13 @@ export async function generateSafetyBriefing(
           'Carry basic medications and a first-aid kit',
           'Be cautious with street food - choose busy stalls with high turnover',
         ],
-    weatherConsiderations: aiResponse.weatherConsiderations?.length
+    weatherConsiderations: [...weatherFacts, ...(aiResponse.weatherConsiderations?.length
       ? aiResponse.weatherConsiderations
       : [
           'Check weather forecast before outdoor activities',
           'Carry sunscreen and stay hydrated in hot weather',
           'Be prepared for sudden weather changes in hilly areas',
-        ],
+        ])],
     riskLevel: aiResponse.riskLevel || 'medium',
     riskSummary:
       aiResponse.riskSummary ||
@@ -11,8 +11,10 @@ import type {
   ChatSession,
   LiveExtractionState,
   DbChatGroup,
+  ChatExpense,
+  ChatTask,
 } from '../services/chat/types';
-import type { ChatExtractionResult } from '../services/ai/types';
+import type { ChatExtractionResult, MessageReference } from '../services/ai/types';
 
 // ==================== Types ====================
 
@@ -41,6 +43,13 @@ export interface ChatState {
   // Extraction
   liveExtraction: LiveExtractionState | null;
   showExtractionPanel: boolean;
+  highlightedSources: MessageReference[] | null; // Messages behind the extracted item the user clicked
+
+  // Expense Ledger
+  expenses: ChatExpense[];
+
+  // Task Board
+  tasks: ChatTask[];
 
   // Recent Groups (for quick rejoin)
   recentGroups: DbChatGroup[];
@@ -82,6 +91,17 @@ export interface ChatState {
   setLiveExtraction: (extraction: LiveExtractionState | null) => void;
   updateExtraction: (extraction: ChatExtractionResult) => void;
   addRecommendedPlace: (place: { name: string; type: string }) => void;
+  setHighlightedSources: (sources: MessageReference[] | null) => void;
+
+  // Actions - Expenses
+  setExpenses: (expenses: ChatExpense[]) => void;
+  upsertExpense: (expense: ChatExpense) => void;
+  removeExpense: (expenseId: string) => void;
+
+  // Actions - Tasks
+  setTasks: (tasks: ChatTask[]) => void;
+  upsertTask: (task: ChatTask) => void;
+  removeTask: (taskId: string) => void;
 
   // Actions - User
   setUserName: (name: string) => void;
@@ -110,6 +130,9 @@ const initialState = {
   replyingTo: null,
   liveExtraction: null,
   showExtractionPanel: true,
+  highlightedSources: null as MessageReference[] | null,
+  expenses: [] as ChatExpense[],
+  tasks: [] as ChatTask[],
   recentGroups: [] as DbChatGroup[],
   userName: 'Traveler',
 };
@@ -137,6 +160,8 @@ export const useChatStore = create<ChatState>()(
           setupMode: null,
           messages: [],
           hasMoreMessages: true,
+          expenses: [],
+          tasks: [],
         }),
 
       endSession: () =>
@@ -149,6 +174,9 @@ export const useChatStore = create<ChatState>()(
           typingMembers: [],
           replyingTo: null,
           liveExtraction: null,
+          highlightedSources: null,
+          expenses: [],
+          tasks: [],
         }),
 
       // UI Actions
@@ -337,6 +365,45 @@ export const useChatStore = create<ChatState>()(
           };
         }),
 
+      setHighlightedSources: (sources) =>
+        set({ highlightedSources: sources && sources.length > 0 ? sources : null }),
+
+      // Expense Actions
+      setExpenses: (expenses) => set({ expenses }),
+
+      upsertExpense: (expense) =>
+        set((state) => {
+          const exists = state.expenses.some((e) => e.id === expense.id);
+          return {
+            expenses: exists
+              ? state.expenses.map((e) => (e.id === expense.id ? expense : e))
+              : [...state.expenses, expense],
+          };
+        }),
+
+      removeExpense: (expenseId) =>
+        set((state) => ({
+          expenses: state.expenses.filter((e) => e.id !== expenseId),
+        })),
+
+      // Task Actions
+      setTasks: (tasks) => set({ tasks }),
+
+      upsertTask: (task) =>
+        set((state) => {
+          const exists = state.tasks.some((t) => t.id === task.id);
+          return {
+            tasks: exists
+              ? state.tasks.map((t) => (t.id === task.id ? task : t))
+              : [...state.tasks, task],
+          };
+        }),
+
+      removeTask: (taskId) =>
+        set((state) => ({
+          tasks: state.tasks.filter((t) => t.id !== taskId),
+        })),
+
       // User Actions
       setUserName: (name) => set({ userName: name }),
 
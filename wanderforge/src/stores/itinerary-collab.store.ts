@@ -0,0 +1,274 @@
+// Itinerary Collaboration Zustand Store
+// Group editing session for the itinerary page: merges everyone's edits and feeds the result
+// into useItineraryStore, whose edit actions send to the group while a session is open
+
+import { create } from 'zustand';
+import type {
+  CollaboratorCursor,
+  DbItineraryComment,
+  DbItineraryOp,
+  GeneratedItinerary,
+  ItineraryEdit,
+} from '../services/itinerary/types';
+import type { PendingOp } from '../services/itinerary/itinerary-sync';
+import { replayOps } from '../services/itinerary/itinerary-sync';
+import { EMPTY_EDIT_HISTORY } from '../services/itinerary/edit-engine';
+import {
+  addItineraryComment,
+  deleteItineraryComment,
+  getItineraryComments,
+  getOpsAfter,
+  onCollaborators,
+  onItineraryComment,
+  onItineraryOp,
+  onItineraryVersion,
+  startCollaboration,
+  stopCollaboration,
+  submitItineraryOp,
+  updateCursor,
+} from '../services/itinerary/itinerary-collaboration';
+import { getItineraryVersion, getLatestItineraryVersion } from '../services/itinerary/itinerary-documents';
+import { getMyMembership } from '../services/chat';
+import { useItineraryStore } from './itinerary.store';
+import { itineraryDocumentKey, useItineraryDocumentsStore } from './itinerary-documents.store';
+
+interface ItineraryCollabState {
+  isCollaborating: boolean;
+  isJoining: boolean;
+  documentId: string | null;
+  groupId: string | null;
+
+  // Saved version everyone replays edits on
+  base: GeneratedItinerary | null;
+  baseVersion: number;
+  mergedThrough: number;
+
+  confirmedOps: DbItineraryOp[];
+  pendingOps: PendingOp[];
+  lastChange: DbItineraryOp | null;  // For "Asha moved ..." toasts
+
+  collaborators: CollaboratorCursor[];
+  comments: DbItineraryComment[];
+  error: string | null;
+
+  join: (groupId: string) => Promise<void>;
+  leave: () => Promise<void>;
+  edit: (op: ItineraryEdit) => void;
+  saveMerged: () => Promise<void>;
+  setCursor: (cursor: { day?: number; activityId?: string }) => void;
+  addComment: (placeKey: string, content: string) => Promise<void>;
+  deleteComment: (commentId: string) => Promise<void>;
+}
+
+/**
+ * Known edits plus new ones, once each, in server order (none already in the saved version)
+ */
+function mergeOps(known: DbItineraryOp[], incoming: DbItineraryOp[], mergedThrough: number): DbItineraryOp[] {
+  const bySeq = new Map(known.map((o) => [o.seq, o]));
+  for (const op of incoming) {
+    if (op.seq > mergedThrough) bySeq.set(op.seq, op);
+  }
+  return [...bySeq.values()].sort((a, b) => a.seq - b.seq);
+}
+
+const initialState = {
+  isCollaborating: false,
+  isJoining: false,
+  documentId: null,
+  groupId: null,
+  base: null,
+  baseVersion: 0,
+  mergedThrough: 0,
+  confirmedOps: [] as DbItineraryOp[],
+  pendingOps: [] as PendingOp[],
+  lastChange: null,
+  collaborators: [] as CollaboratorCursor[],
+  comments: [] as DbItineraryComment[],
+  error: null,
+};
+
+export const useItineraryCollabStore = create<ItineraryCollabState>((set, get) => {
+  /**
+   * Replay the log and show the result on the itinerary page
+   */
+  const publish = () => {
+    const { base, confirmedOps, pendingOps, isCollaborating } = get();
+    if (!base || !isCollaborating) return;
+
+    const { itinerary } = replayOps(base, confirmedOps, pendingOps);
+    useItineraryStore.setState({ generatedItinerary: itinerary, editConflicts: [] });
+  };
+
+  /**
+   * Rebase onto a saved version: edits it already contains stop replaying
+   */
+  const rebase = async (version: number) => {
+    const { documentId, baseVersion } = get();
+    if (!documentId || version <= baseVersion) return;
+
+    const saved = await getItineraryVersion(documentId, version);
+    if (!saved) return;
+
+    set((state) => ({
+      base: saved.itinerary_data,
+      baseVersion: saved.version,
+      mergedThrough: saved.merged_through,
+      confirmedOps: state.confirmedOps.filter((o) => o.seq > saved.merged_through),
+    }));
+    publish();
+  };
+
+  return {
+    ...initialState,
+
+    join: async (groupId) => {
+      if (get().isCollaborating && get().groupId === groupId) return;
+      await get().leave();
+
+      set({ isJoining: true, error: null });
+      const key = itineraryDocumentKey('itinerary', groupId);
+      const documents = useItineraryDocumentsStore.getState();
+      await documents.loadDocument(key, groupId);
+      const documentId = useItineraryDocumentsStore.getState().documentIds[key];
+      const membership = await getMyMembership(groupId);
+
+      if (!documentId || !membership) {
+        set({
+          isJoining: false,
+          error: membership ? 'Save the itinerary before editing it together' : 'Join the group chat to edit together',
+        });
+        return;
+      }
+
+      const latest = await getLatestItineraryVersion(documentId);
+      if (!latest) {
+        set({ isJoining: false, error: 'Save the itinerary before editing it together' });
+        return;
+      }
+
+      set({
+        documentId,
+        groupId,
+        base: latest.itinerary_data,
+        baseVersion: latest.version,
+        mergedThrough: latest.merged_through,
+        confirmedOps: [],
+        pendingOps: [],
+      });
+
+      // Handlers first: edits arriving while the backlog loads are kept and merged with it
+      onItineraryOp((op) => {
+        set((state) => ({
+          confirmedOps: mergeOps(state.confirmedOps, [op], state.mergedThrough),
+          pendingOps: state.pendingOps.filter((p) => p.clientOpId !== op.client_op_id),
+          lastChange: op.member_id === membership.id || state.confirmedOps.some((o) => o.seq === op.seq)
+            ? state.lastChange
+            : op,
+        }));
+        publish();
+      });
+      onItineraryComment((comment) => {
+        set((state) => {
+          const others = state.comments.filter((c) => c.id !== comment.id);
+          return { comments: comment.is_deleted ? others : [...others, comment] };
+        });
+      });
+      onItineraryVersion((version) => {
+        rebase(version);
+      });
+      onCollaborators((collaborators) => set({ collaborators }));
+
+      const started = await startCollaboration(documentId, groupId, {
+        memberId: membership.id,
+        name: membership.name,
+        avatar: membership.avatar,
+      });
+      if (!started) {
+        set({ ...initialState, error: 'Could not connect to the group' });
+        return;
+      }
+
+      // The feed is live, so the backlog can't miss anything; whatever came in meanwhile stays
+      const [ops, comments] = await Promise.all([
+        getOpsAfter(documentId, latest.merged_through),
+        getItineraryComments(documentId),
+      ]);
+
+      set((state) => ({
+        isCollaborating: true,
+        isJoining: false,
+        confirmedOps: mergeOps(state.confirmedOps, ops, state.mergedThrough),
+        comments: [
+          ...comments.filter((c) => !state.comments.some((live) => live.id === c.id)),
+          ...state.comments,
+        ].filter((c) => !c.is_deleted),
+      }));
+      // Edits made on the page now go to the group instead of the local undo stack
+      useItineraryStore.setState({ collaborativeEdit: get().edit, editHistory: EMPTY_EDIT_HISTORY });
+      publish();
+    },
+
+    leave: async () => {
+      if (!get().isCollaborating && !get().isJoining) return;
+      await stopCollaboration();
+      useItineraryStore.setState({ collaborativeEdit: null });
+      set({ ...initialState });
+    },
+
+    edit: (op) => {
+      const current = useItineraryStore.getState().generatedItinerary;
+      if (!current || !get().isCollaborating) return;
+
+      const clientOpId = crypto.randomUUID();
+      set((state) => ({ pendingOps: [...state.pendingOps, { clientOpId, op }] }));
+      publish();
+
+      submitItineraryOp(clientOpId, op, current).then((saved) => {
+        if (saved) return;
+        // Not sent: take the edit back out
+        set((state) => ({
+          pendingOps: state.pendingOps.filter((p) => p.clientOpId !== clientOpId),
+          error: 'Your last change could not be shared with the group',
+        }));
+        publish();
+      });
+    },
+
+    saveMerged: async () => {
+      const { groupId, base, confirmedOps, mergedThrough } = get();
+      if (!groupId || !base) return;
+
+      // Only edits the server has ordered; pending ones replay on top of the new version
+      const { itinerary } = replayOps(base, confirmedOps);
+      const sourceGroup = useItineraryStore.getState().sourceGroup;
+      const lastSeq = confirmedOps.reduce((max, o) => Math.max(max, o.seq), mergedThrough);
+      await useItineraryDocumentsStore.getState().saveVersion(
+        itineraryDocumentKey('itinerary', groupId),
+        itinerary,
+        { title: sourceGroup?.name ?? 'Group trip', groupId, source: 'edited', mergedThrough: lastSeq }
+      );
+    },
+
+    setCursor: (cursor) => {
+      if (get().isCollaborating) updateCursor(cursor);
+    },
+
+    addComment: async (placeKey, content) => {
+      if (!content.trim()) return;
+      const comment = await addItineraryComment(placeKey, content);
+      if (!comment) {
+        set({ error: 'Could not post the comment' });
+        return;
+      }
+      set((state) => ({
+        comments: state.comments.some((c) => c.id === comment.id) ? state.comments : [...state.comments, comment],
+      }));
+    },
+
+    deleteComment: async (commentId) => {
+      if (await deleteItineraryComment(commentId)) {
+        set((state) => ({ comments: state.comments.filter((c) => c.id !== commentId) }));
+      }
+    },
+  };
+});
@@ -0,0 +1,181 @@
+// Itinerary Documents Zustand Store
+// Which saved document each planner writes to, its version history and share link
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type {
+  DbItineraryVersion,
+  GeneratedItinerary,
+  ItineraryVersionSource,
+} from '../services/itinerary/types';
+import {
+  createItineraryDocument,
+  disableShareLink,
+  enableShareLink,
+  getDocumentsForGroup,
+  getItineraryDocument,
+  getItineraryVersions,
+  restoreItineraryVersion,
+  saveItineraryVersion,
+} from '../services/itinerary/itinerary-documents';
+import { getDeviceId } from '../services/chat';
+import { useAuthStore } from './auth.store';
+
+/**
+ * Document key for a planner page: 'group:<id>' for a chat group's trip, otherwise the page itself
+ */
+export function itineraryDocumentKey(page: 'itinerary' | 'trip-planner', groupId?: string | null): string {
+  return groupId ? `group:${groupId}` : page;
+}
+
+interface SaveOptions {
+  title: string;
+  groupId?: string | null;
+  source: ItineraryVersionSource;
+  mergedThrough?: number;  // Last group edit the itinerary includes (see itinerary-collab.store)
+}
+
+interface ItineraryDocumentsState {
+  documentIds: Record<string, string>;  // Document key -> itinerary_documents.id
+  versions: Record<string, DbItineraryVersion[]>;  // Newest first
+  shareTokens: Record<string, string | null>;
+  isSaving: boolean;
+  error: string | null;
+
+  saveVersion: (key: string, itinerary: GeneratedItinerary, options: SaveOptions) => Promise<DbItineraryVersion | null>;
+  loadDocument: (key: string, groupId?: string | null) => Promise<void>;
+  restoreVersion: (key: string, version: number) => Promise<GeneratedItinerary | null>;
+  share: (key: string) => Promise<string | null>;
+  unshare: (key: string) => Promise<void>;
+  forgetDocument: (key: string) => void;
+}
+
+/**
+ * Signed-in user id, or this device's id for guests
+ */
+function currentOwnerId(): string {
+  return useAuthStore.getState().user?.id ?? getDeviceId();
+}
+
+export const useItineraryDocumentsStore = create<ItineraryDocumentsState>()(
+  persist(
+    (set, get) => ({
+      documentIds: {},
+      versions: {},
+      shareTokens: {},
+      isSaving: false,
+      error: null,
+
+      saveVersion: async (key, itinerary, options) => {
+        set({ isSaving: true, error: null });
+        try {
+          let documentId: string | undefined = get().documentIds[key];
+          if (!documentId && options.groupId) {
+            // Everyone in a group shares the group's latest document
+            documentId = (await getDocumentsForGroup(options.groupId))[0]?.id;
+          }
+          if (!documentId) {
+            const document = await createItineraryDocument(options.title, {
+              groupId: options.groupId,
+              ownerId: currentOwnerId(),
+            });
+            documentId = document?.id;
+          }
+          if (!documentId) {
+            set({ isSaving: false, error: 'Could not save the itinerary' });
+            return null;
+          }
+
+          const version = await saveItineraryVersion(documentId, itinerary, {
+            source: options.source,
+            createdBy: currentOwnerId(),
+            mergedThrough: options.mergedThrough,
+          });
+          set((state) => ({
+            documentIds: { ...state.documentIds, [key]: documentId },
+            isSaving: false,
+            error: version ? null : 'Could not save the itinerary',
+          }));
+          if (version) await get().loadDocument(key);
+          return version;
+        } catch (error) {
+          console.error('[ItineraryDocs] Failed to save version:', error);
+          set({ isSaving: false, error: 'Could not save the itinerary' });
+          return null;
+        }
+      },
+
+      loadDocument: async (key, groupId) => {
+        let documentId: string | undefined = get().documentIds[key];
+        if (!documentId && groupId) {
+          documentId = (await getDocumentsForGroup(groupId))[0]?.id;
+          if (documentId) set((state) => ({ documentIds: { ...state.documentIds, [key]: documentId! } }));
+        }
+        if (!documentId) return;
+
+        const [document, versions] = await Promise.all([
+          getItineraryDocument(documentId),
+          getItineraryVersions(documentId),
+        ]);
+        if (!document) {
+          // Deleted elsewhere: the next save starts a new document
+          get().forgetDocument(key);
+          return;
+        }
+        set((state) => ({
+          versions: { ...state.versions, [key]: versions },
+          shareTokens: { ...state.shareTokens, [key]: document.share_token },
+        }));
+      },
+
+      restoreVersion: async (key, version) => {
+        const documentId = get().documentIds[key];
+        if (!documentId) return null;
+
+        set({ isSaving: true, error: null });
+        const restored = await restoreItineraryVersion(documentId, version, currentOwnerId());
+        set({ isSaving: false, error: restored ? null : `Could not restore version ${version}` });
+        if (!restored) return null;
+
+        await get().loadDocument(key);
+        return restored.itinerary_data;
+      },
+
+      share: async (key) => {
+        const documentId = get().documentIds[key];
+        if (!documentId) return null;
+
+        const token = await enableShareLink(documentId);
+        set((state) => ({
+          shareTokens: { ...state.shareTokens, [key]: token },
+          error: token ? null : 'Could not create a share link',
+        }));
+        return token;
+      },
+
+      unshare: async (key) => {
+        const documentId = get().documentIds[key];
+        if (!documentId) return;
+
+        if (await disableShareLink(documentId)) {
+          set((state) => ({ shareTokens: { ...state.shareTokens, [key]: null } }));
+        }
+      },
+
+      forgetDocument: (key) => {
+        set((state) => {
+          const { [key]: _id, ...documentIds } = state.documentIds;
+          const { [key]: _versions, ...versions } = state.versions;
+          const { [key]: _token, ...shareTokens } = state.shareTokens;
+          return { documentIds, versions, shareTokens };
+        });
+      },
+    }),
+    {
+      name: 'wanderforge-itinerary-documents',
+      partialize: (state) => ({
+        documentIds: state.documentIds,
+      }),
+    }
+  )
+);
@@ -1,10 +1,12 @@
 // Itinerary Zustand Store (V3 with Research Pipeline)
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import type { ChatExtractionResult } from '../services/ai/types';
 import type {
+  ActivityConstraint,
   GeneratedItinerary,
+  ItineraryEdit,
   ItineraryInput,
-  ScheduledActivity,
 } from '../services/itinerary/types';
 import type { PlaceKnowledge, ResearchProgress } from '../services/itinerary/place-research.types';
 import {
@@ -13,11 +15,61 @@ import {
   regenerateDay,
   generateItineraryWithResearch,
 } from '../services/itinerary/builder';
+import { normalizeExtractedBudget, pickTripDateRange } from '../services/ai/heuristics';
+import type { EditHistory } from '../services/itinerary/edit-engine';
+import { applyEdit, EMPTY_EDIT_HISTORY, recordEdit, redoEdit, undoEdit } from '../services/itinerary/edit-engine';
+import { defaultItineraryTitle } from '../services/itinerary/itinerary-documents';
+import { itineraryDocumentKey, useItineraryDocumentsStore } from './itinerary-documents.store';
+
+/**
+ * Trip dates from the chat's resolved ISO range; today + 2 days when nothing resolved
+ */
+function tripDatesFromExtraction(extraction: ChatExtractionResult): ItineraryInput['dates'] {
+  const range = pickTripDateRange(extraction.dates);
+  if (range) return { start: range.startDate, end: range.endDate };
+  return {
+    start: new Date().toISOString().split('T')[0],
+    end: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  };
+}
+
+/**
+ * The chat's agreed budget per person and for the group; null while it's still being argued over
+ */
+function tripBudgetFromExtraction(extraction: ChatExtractionResult): ItineraryInput['budget'] {
+  // Extractions saved before budgets were normalized only carry the display strings
+  const budget = extraction.budget?.normalized
+    ? extraction.budget
+    : normalizeExtractedBudget(extraction.budget, extraction.stats.importStats?.senders);
+  return budget?.normalized ?? null;
+}
+
+/**
+ * Save a freshly generated itinerary as the next version of this page's document
+ */
+function saveGeneratedVersion(itinerary: GeneratedItinerary, sourceGroup: SourceGroup | null): void {
+  void useItineraryDocumentsStore.getState().saveVersion(
+    itineraryDocumentKey('itinerary', sourceGroup?.id),
+    itinerary,
+    {
+      title: sourceGroup?.name ?? defaultItineraryTitle(itinerary),
+      groupId: sourceGroup?.id,
+      source: 'generated',
+    }
+  );
+}
+
+// Chat group the extraction came from; its trip is saved to the group's document
+interface SourceGroup {
+  id: string;
+  name: string;
+}
 
 interface ItineraryState {
-  // Source data from Signal-Cleanse
+  // Source data from Signal-Cleanse or a Trip Chat group
   extractionSource: ChatExtractionResult | null;
-  setExtractionSource: (extraction: ChatExtractionResult | null) => void;
+  sourceGroup: SourceGroup | null;
+  setExtractionSource: (extraction: ChatExtractionResult | null, sourceGroup?: SourceGroup | null) => void;
 
   // Generated itinerary
   generatedItinerary: GeneratedItinerary | null;
@@ -55,380 +107,392 @@ interface ItineraryState {
   setMapView: (view: 'route' | 'cluster') => void;
   setUseResearchPipeline: (use: boolean) => void; // NEW - V3
 
-  // Editing actions
-  moveActivity: (activityId: string, toDay: number) => void;
+  // Editing (each edit re-schedules the days it touches and can be undone)
+  // While editing with the group, edits go to everyone instead and there is no undo
+  collaborativeEdit: ((edit: ItineraryEdit) => void) | null;
+  editHistory: EditHistory;
+  editConflicts: string[];  // Why the last edit was rejected, or rules it couldn't meet
+  editItinerary: (edit: ItineraryEdit) => void;
+  moveActivity: (activityId: string, toDay: number, index?: number) => void;
   removeActivity: (activityId: string) => void;
   updateActivityDuration: (activityId: string, newDuration: number) => void;
+  pinActivity: (activityId: string, startTime: string | null) => void;
+  addConstraint: (constraint: ActivityConstraint) => void;
+  removeConstraint: (activityId: string, kind: ActivityConstraint['kind']) => void;
+  lockDay: (dayNumber: number, locked: boolean) => void;
+  undo: () => void;
+  redo: () => void;
   regenerateDayItinerary: (dayNumber: number) => void;
+  restoreItinerary: (itinerary: GeneratedItinerary) => void;
 
   // Reset
   reset: () => void;
 }
 
-export const useItineraryStore = create<ItineraryState>((set, get) => ({
-  // Initial state
-  extractionSource: null,
-  setExtractionSource: (extraction) => {
-    set({ extractionSource: extraction });
-    // Auto-update estimate when source changes
-    if (extraction) {
-      get().updateEstimate();
-    }
-  },
+export const useItineraryStore = create<ItineraryState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      extractionSource: null,
+      sourceGroup: null,
+      setExtractionSource: (extraction, sourceGroup = null) => {
+        if (extraction === get().extractionSource) return;
+        // A new source replaces the saved trip; the next visit to the page regenerates it
+        set({
+          extractionSource: extraction,
+          sourceGroup,
+          generatedItinerary: null,
+          editHistory: EMPTY_EDIT_HISTORY,
+          editConflicts: [],
+        });
+        // Auto-update estimate when source changes
+        if (extraction) {
+          get().updateEstimate();
+        }
+      },
 
-  generatedItinerary: null,
+      generatedItinerary: null,
 
-  // Research state (NEW - V3)
-  researchedPlaces: [],
-  isResearching: false,
-  researchProgress: null,
-  useResearchPipeline: true, // Default to research pipeline
+      // Research state (NEW - V3)
+      researchedPlaces: [],
+      isResearching: false,
+      researchProgress: null,
+      useResearchPipeline: true, // Default to research pipeline
 
-  isGenerating: false,
-  generationStage: '',
-  generationProgress: 0,
+      isGenerating: false,
+      generationStage: '',
+      generationProgress: 0,
 
-  selectedDay: undefined,
-  selectedActivityId: null,
-  mapView: 'route',
+      selectedDay: undefined,
+      selectedActivityId: null,
+      mapView: 'route',
 
-  estimate: null,
+      estimate: null,
 
-  // Toggle research pipeline
-  setUseResearchPipeline: (use) => set({ useResearchPipeline: use }),
+      collaborativeEdit: null,
+      editHistory: EMPTY_EDIT_HISTORY,
+      editConflicts: [],
 
-  // Actions - Legacy generation (fast, no research)
-  generateFromExtraction: async () => {
-    const { extractionSource, useResearchPipeline } = get();
-    if (!extractionSource) return;
+      // Toggle research pipeline
+      setUseResearchPipeline: (use) => set({ useResearchPipeline: use }),
 
-    // If research pipeline is enabled, use that instead
-    if (useResearchPipeline) {
-      return get().generateWithResearch();
-    }
+      // Actions - Legacy generation (fast, no research)
+      generateFromExtraction: async () => {
+        const { extractionSource, useResearchPipeline } = get();
+        if (!extractionSource) return;
 
-    set({
-      isGenerating: true,
-      generationStage: 'Preparing data...',
-      generationProgress: 10,
-    });
-
-    try {
-      // Build input from extraction
-      const input: ItineraryInput = {
-        places: extractionSource.places,
-        dates: {
-          start: extractionSource.dates[0]?.value || new Date().toISOString().split('T')[0],
-          end: extractionSource.dates[1]?.value ||
-            extractionSource.dates[0]?.value ||
-            new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        },
-        budget: extractionSource.budget
-          ? {
-              total: extractionSource.budget.amount,
-              currency: extractionSource.budget.currency,
-              perPerson: extractionSource.budget.perPerson,
-            }
-          : null,
-        members: extractionSource.members,
-      };
+        // If research pipeline is enabled, use that instead
+        if (useResearchPipeline) {
+          return get().generateWithResearch();
+        }
+
+        set({
+          isGenerating: true,
+          generationStage: 'Preparing data...',
+          generationProgress: 10,
+        });
 
-      set({
-        generationStage: 'Clustering places...',
-        generationProgress: 30,
-      });
+        try {
+          // Build input from extraction
+          const input: ItineraryInput = {
+            places: extractionSource.places,
+            dates: tripDatesFromExtraction(extractionSource),
+            budget: tripBudgetFromExtraction(extractionSource),
+            members: extractionSource.members,
+          };
+
+          set({
+            generationStage: 'Clustering places...',
+            generationProgress: 30,
+          });
 
-      await new Promise(r => setTimeout(r, 300));
+          await new Promise(r => setTimeout(r, 300));
 
-      set({
-        generationStage: 'Optimizing routes...',
-        generationProgress: 50,
-      });
+          set({
+            generationStage: 'Optimizing routes...',
+            generationProgress: 50,
+          });
 
-      await new Promise(r => setTimeout(r, 300));
+          await new Promise(r => setTimeout(r, 300));
 
-      set({
-        generationStage: 'Scheduling activities...',
-        generationProgress: 70,
-      });
+          set({
+            generationStage: 'Scheduling activities...',
+            generationProgress: 70,
+          });
 
-      // Generate the itinerary
-      const itinerary = await generateItinerary(input);
+          // Generate the itinerary
+          const itinerary = await generateItinerary(input);
 
-      set({
-        generationStage: 'Finalizing...',
-        generationProgress: 90,
-      });
+          set({
+            generationStage: 'Finalizing...',
+            generationProgress: 90,
+          });
 
-      await new Promise(r => setTimeout(r, 200));
+          await new Promise(r => setTimeout(r, 200));
 
-      set({
-        generatedItinerary: itinerary,
-        isGenerating: false,
-        generationStage: 'Complete',
-        generationProgress: 100,
-      });
-    } catch (error) {
-      console.error('Failed to generate itinerary:', error);
-      set({
-        isGenerating: false,
-        generationStage: 'Error generating itinerary',
-        generationProgress: 0,
-      });
-    }
-  },
-
-  // NEW V3: Generate with research pipeline
-  generateWithResearch: async () => {
-    const { extractionSource } = get();
-    if (!extractionSource) return;
-
-    set({
-      isGenerating: true,
-      isResearching: true,
-      generationStage: 'Starting research...',
-      generationProgress: 5,
-      researchProgress: null,
-    });
-
-    try {
-      // Build input from extraction
-      const input: ItineraryInput = {
-        places: extractionSource.places,
-        dates: {
-          start: extractionSource.dates[0]?.value || new Date().toISOString().split('T')[0],
-          end: extractionSource.dates[1]?.value ||
-            extractionSource.dates[0]?.value ||
-            new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        },
-        budget: extractionSource.budget
-          ? {
-              total: extractionSource.budget.amount,
-              currency: extractionSource.budget.currency,
-              perPerson: extractionSource.budget.perPerson,
-            }
-          : null,
-        members: extractionSource.members,
-      };
-
-      // Generate with research pipeline - provides progress callbacks
-      const { itinerary, knowledge } = await generateItineraryWithResearch(
-        input,
-        (progress: ResearchProgress) => {
-          // Update UI with research progress
           set({
-            researchProgress: progress,
-            generationStage: progress.message,
-            generationProgress: Math.min(80, 5 + progress.percent * 0.75), // 5-80% for research
+            generatedItinerary: itinerary,
+            editHistory: EMPTY_EDIT_HISTORY,
+            editConflicts: [],
+            isGenerating: false,
+            generationStage: 'Complete',
+            generationProgress: 100,
+          });
+          saveGeneratedVersion(itinerary, get().sourceGroup);
+        } catch (error) {
+          console.error('Failed to generate itinerary:', error);
+          set({
+            isGenerating: false,
+            generationStage: 'Error generating itinerary',
+            generationProgress: 0,
           });
         }
-      );
+      },
 
-      set({
-        isResearching: false,
-        generationStage: 'Building itinerary...',
-        generationProgress: 85,
-      });
+      // NEW V3: Generate with research pipeline
+      generateWithResearch: async () => {
+        const { extractionSource } = get();
+        if (!extractionSource) return;
+
+        set({
+          isGenerating: true,
+          isResearching: true,
+          generationStage: 'Starting research...',
+          generationProgress: 5,
+          researchProgress: null,
+        });
 
-      await new Promise(r => setTimeout(r, 200));
+        try {
+          // Build input from extraction
+          const input: ItineraryInput = {
+            places: extractionSource.places,
+            dates: tripDatesFromExtraction(extractionSource),
+            budget: tripBudgetFromExtraction(extractionSource),
+            members: extractionSource.members,
+          };
 
-      set({
-        generationStage: 'Finalizing...',
-        generationProgress: 95,
-      });
+          // Generate with research pipeline - provides progress callbacks
+          const { itinerary, knowledge } = await generateItineraryWithResearch(
+            input,
+            (progress: ResearchProgress) => {
+              // Update UI with research progress
+              set({
+                researchProgress: progress,
+                generationStage: progress.message,
+                generationProgress: Math.min(80, 5 + progress.percent * 0.75), // 5-80% for research
+              });
+            }
+          );
 
-      await new Promise(r => setTimeout(r, 200));
+          set({
+            isResearching: false,
+            generationStage: 'Building itinerary...',
+            generationProgress: 85,
+          });
 
-      set({
-        generatedItinerary: itinerary,
-        researchedPlaces: knowledge,
-        isGenerating: false,
-        isResearching: false,
-        generationStage: 'Complete',
-        generationProgress: 100,
-        researchProgress: null,
-      });
+          await new Promise(r => setTimeout(r, 200));
 
-      console.log(`[Store] Itinerary generated with ${knowledge.length} researched places`);
-    } catch (error) {
-      console.error('Failed to generate itinerary with research:', error);
-      set({
-        isGenerating: false,
-        isResearching: false,
-        generationStage: 'Error during research',
-        generationProgress: 0,
-        researchProgress: null,
-      });
-    }
-  },
+          set({
+            generationStage: 'Finalizing...',
+            generationProgress: 95,
+          });
 
-  updateEstimate: () => {
-    const { extractionSource } = get();
-    if (!extractionSource) {
-      set({ estimate: null });
-      return;
-    }
+          await new Promise(r => setTimeout(r, 200));
 
-    const input: ItineraryInput = {
-      places: extractionSource.places,
-      dates: {
-        start: extractionSource.dates[0]?.value || new Date().toISOString().split('T')[0],
-        end: extractionSource.dates[1]?.value ||
-          extractionSource.dates[0]?.value ||
-          new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+          set({
+            generatedItinerary: itinerary,
+            editHistory: EMPTY_EDIT_HISTORY,
+            editConflicts: [],
+            researchedPlaces: knowledge,
+            isGenerating: false,
+            isResearching: false,
+            generationStage: 'Complete',
+            generationProgress: 100,
+            researchProgress: null,
+          });
+
+          console.log(`[Store] Itinerary generated with ${knowledge.length} researched places`);
+          saveGeneratedVersion(itinerary, get().sourceGroup);
+        } catch (error) {
+          console.error('Failed to generate itinerary with research:', error);
+          set({
+            isGenerating: false,
+            isResearching: false,
+            generationStage: 'Error during research',
+            generationProgress: 0,
+            researchProgress: null,
+          });
+        }
       },
-      budget: extractionSource.budget
-        ? {
-            total: extractionSource.budget.amount,
-            currency: extractionSource.budget.currency,
-            perPerson: extractionSource.budget.perPerson,
+
+      updateEstimate: () => {
+        const { extractionSource } = get();
+        if (!extractionSource) {
+          set({ estimate: null });
+          return;
+        }
+
+        const input: ItineraryInput = {
+          places: extractionSource.places,
+          dates: tripDatesFromExtraction(extractionSource),
+          budget: tripBudgetFromExtraction(extractionSource),
+          members: extractionSource.members,
+        };
+
+        const estimate = estimateItinerary(input);
+        set({ estimate });
+      },
+
+      selectDay: (day) => set({ selectedDay: day }),
+      selectActivity: (activityId) => set({ selectedActivityId: activityId }),
+      setMapView: (view) => set({ mapView: view }),
+
+      // Editing actions
+      editItinerary: (edit) => {
+        const { generatedItinerary, editHistory, collaborativeEdit } = get();
+        if (!generatedItinerary) return;
+
+        if (collaborativeEdit) {
+          // Check it applies here first, so a locked day is reported without bothering the group
+          const check = applyEdit(generatedItinerary, edit);
+          if (check.itinerary === generatedItinerary) {
+            set({ editConflicts: check.conflicts });
+          } else {
+            collaborativeEdit(edit);
           }
-        : null,
-      members: extractionSource.members,
-    };
-
-    const estimate = estimateItinerary(input);
-    set({ estimate });
-  },
-
-  selectDay: (day) => set({ selectedDay: day }),
-  selectActivity: (activityId) => set({ selectedActivityId: activityId }),
-  setMapView: (view) => set({ mapView: view }),
-
-  // Editing actions
-  moveActivity: (activityId, toDay) => {
-    const { generatedItinerary } = get();
-    if (!generatedItinerary) return;
-
-    const newDays = generatedItinerary.days.map(day => ({
-      ...day,
-      activities: [...day.activities],
-    }));
-
-    // Find and remove activity from source day
-    let movedActivity: ScheduledActivity | null = null;
-    for (const day of newDays) {
-      const idx = day.activities.findIndex(a => a.id === activityId);
-      if (idx !== -1) {
-        movedActivity = day.activities.splice(idx, 1)[0];
-        break;
-      }
-    }
+          return;
+        }
 
-    if (movedActivity) {
-      // Add to target day
-      const targetDay = newDays.find(d => d.day === toDay);
-      if (targetDay) {
-        movedActivity.day = toDay;
-        targetDay.activities.push(movedActivity);
-
-        // Re-sort by time
-        targetDay.activities.sort((a, b) => {
-          const timeA = parseInt(a.startTime.replace(':', ''));
-          const timeB = parseInt(b.startTime.replace(':', ''));
-          return timeA - timeB;
+        const result = applyEdit(generatedItinerary, edit);
+        if (result.itinerary === generatedItinerary) {
+          set({ editConflicts: result.conflicts });
+          return;
+        }
+
+        set({
+          generatedItinerary: result.itinerary,
+          editHistory: recordEdit(editHistory, generatedItinerary),
+          editConflicts: result.conflicts,
         });
-      }
-    }
+      },
 
-    set({
-      generatedItinerary: {
-        ...generatedItinerary,
-        days: newDays,
+      moveActivity: (activityId, toDay, index) => {
+        get().editItinerary({ type: 'move', activityId, toDay, index });
       },
-    });
-  },
-
-  removeActivity: (activityId) => {
-    const { generatedItinerary } = get();
-    if (!generatedItinerary) return;
-
-    const newDays = generatedItinerary.days.map(day => ({
-      ...day,
-      activities: day.activities.filter(a => a.id !== activityId),
-    }));
-
-    set({
-      generatedItinerary: {
-        ...generatedItinerary,
-        days: newDays,
+
+      removeActivity: (activityId) => {
+        get().editItinerary({ type: 'remove', activityId });
       },
-    });
-  },
-
-  updateActivityDuration: (activityId, newDuration) => {
-    const { generatedItinerary } = get();
-    if (!generatedItinerary) return;
-
-    const newDays = generatedItinerary.days.map(day => ({
-      ...day,
-      activities: day.activities.map(activity => {
-        if (activity.id === activityId) {
-          // Calculate new end time
-          const startMinutes = parseInt(activity.startTime.split(':')[0]) * 60 +
-                               parseInt(activity.startTime.split(':')[1]);
-          const endMinutes = startMinutes + newDuration;
-          const endHours = Math.floor(endMinutes / 60) % 24;
-          const endMins = endMinutes % 60;
-          const newEndTime = `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
-
-          return {
-            ...activity,
-            duration: newDuration,
-            endTime: newEndTime,
-          };
-        }
-        return activity;
-      }),
-    }));
 
-    set({
-      generatedItinerary: {
-        ...generatedItinerary,
-        days: newDays,
+      updateActivityDuration: (activityId, newDuration) => {
+        get().editItinerary({ type: 'duration', activityId, duration: newDuration });
       },
-    });
-  },
 
-  regenerateDayItinerary: (dayNumber) => {
-    const { generatedItinerary } = get();
-    if (!generatedItinerary) return;
+      pinActivity: (activityId, startTime) => {
+        get().editItinerary(startTime
+          ? { type: 'constrain', constraint: { kind: 'pin', activityId, startTime } }
+          : { type: 'unconstrain', activityId, kind: 'pin' });
+      },
 
-    const day = generatedItinerary.days.find(d => d.day === dayNumber);
-    if (!day) return;
+      addConstraint: (constraint) => {
+        get().editItinerary({ type: 'constrain', constraint });
+      },
 
-    // Get places from this day's visits
-    const places = day.activities
-      .filter(a => a.type === 'visit')
-      .map(a => a.place);
+      removeConstraint: (activityId, kind) => {
+        get().editItinerary({ type: 'unconstrain', activityId, kind });
+      },
 
-    // Regenerate just this day
-    const newDay = regenerateDay(generatedItinerary, dayNumber, places);
+      lockDay: (dayNumber, locked) => {
+        get().editItinerary({ type: 'lock-day', day: dayNumber, locked });
+      },
 
-    const newDays = generatedItinerary.days.map(d =>
-      d.day === dayNumber ? newDay : d
-    );
+      undo: () => {
+        const { generatedItinerary, editHistory } = get();
+        const step = generatedItinerary && undoEdit(editHistory, generatedItinerary);
+        if (step) set({ generatedItinerary: step.itinerary, editHistory: step.history, editConflicts: [] });
+      },
 
-    set({
-      generatedItinerary: {
-        ...generatedItinerary,
-        days: newDays,
+      redo: () => {
+        const { generatedItinerary, editHistory } = get();
+        const step = generatedItinerary && redoEdit(editHistory, generatedItinerary);
+        if (step) set({ generatedItinerary: step.itinerary, editHistory: step.history, editConflicts: [] });
       },
-    });
-  },
-
-  reset: () => set({
-    extractionSource: null,
-    generatedItinerary: null,
-    researchedPlaces: [],
-    isResearching: false,
-    researchProgress: null,
-    isGenerating: false,
-    generationStage: '',
-    generationProgress: 0,
-    selectedDay: undefined,
-    selectedActivityId: null,
-    mapView: 'route',
-    estimate: null,
-  }),
-}));
+
+      regenerateDayItinerary: (dayNumber) => {
+        const { generatedItinerary } = get();
+        if (!generatedItinerary) return;
+
+        const day = generatedItinerary.days.find(d => d.day === dayNumber);
+        if (!day) return;
+        if (get().collaborativeEdit) {
+          set({ editConflicts: ['Regenerating a day isn\'t available while editing with the group'] });
+          return;
+        }
+        if (generatedItinerary.constraints?.lockedDays.includes(dayNumber)) {
+          set({ editConflicts: [`Day ${dayNumber} is locked`] });
+          return;
+        }
+
+        // Get places from this day's visits
+        const places = day.activities
+          .filter(a => a.type === 'visit')
+          .map(a => a.place);
+
+        // Regenerate just this day
+        const newDay = regenerateDay(generatedItinerary, dayNumber, places);
+
+        const newDays = generatedItinerary.days.map(d =>
+          d.day === dayNumber ? newDay : d
+        );
+
+        set({
+          generatedItinerary: {
+            ...generatedItinerary,
+            days: newDays,
+          },
+          editHistory: recordEdit(get().editHistory, generatedItinerary),
+          editConflicts: [],
+        });
+      },
+
+      // A version restored from history; like an edit, it can be undone
+      restoreItinerary: (itinerary) => {
+        const { generatedItinerary, editHistory, collaborativeEdit } = get();
+        set({
+          generatedItinerary: itinerary,
+          editHistory: generatedItinerary && !collaborativeEdit ? recordEdit(editHistory, generatedItinerary) : EMPTY_EDIT_HISTORY,
+          editConflicts: [],
+        });
+      },
+
+      reset: () => set({
+        extractionSource: null,
+        sourceGroup: null,
+        generatedItinerary: null,
+        researchedPlaces: [],
+        isResearching: false,
+        researchProgress: null,
+        isGenerating: false,
+        generationStage: '',
+        generationProgress: 0,
+        selectedDay: undefined,
+        selectedActivityId: null,
+        mapView: 'route',
+        estimate: null,
+        editHistory: EMPTY_EDIT_HISTORY,
+        editConflicts: [],
+      }),
+    }),
+    {
+      name: 'wanderforge-itinerary',
+      // The trip survives a reload; generation progress and undo history don't
+      partialize: (state) => ({
+        extractionSource: state.extractionSource,
+        sourceGroup: state.sourceGroup,
+        generatedItinerary: state.generatedItinerary,
+        useResearchPipeline: state.useResearchPipeline,
+        selectedDay: state.selectedDay,
+      }),
+    }
+  )
+);
@@ -1,19 +1,32 @@
 // Signal-Cleanse Zustand Store
 import { create } from 'zustand';
-import type { ChatExtractionResult, LLMProviderName } from '../services/ai/types';
+import type {
+  ChatExtractionResult,
+  ImportedChat,
+  LLMProviderName,
+  MessageReference,
+  RawChatMessage,
+} from '../services/ai/types';
 
 interface SignalCleanseState {
   // Input
   chatInput: string;
   setChatInput: (input: string) => void;
 
+  // Uploaded export (kept so attachments/replies survive the textarea round-trip)
+  importedChat: ImportedChat | null;
+  setImportedChat: (chat: ImportedChat, transcript: string) => void;
+
   // Processing state
   isProcessing: boolean;
   processingStage: string;
   processingProgress: number;
+  partialResult: ChatExtractionResult | null;  // Streamed preview while processing
 
   // Results
   extractionResult: ChatExtractionResult | null;
+  sourceMessages: RawChatMessage[];              // Messages the result's provenance links point into
+  highlightedSources: MessageReference[] | null; // Sources of the result item the user clicked
 
   // Provider info
   activeProvider: LLMProviderName | null;
@@ -22,7 +35,9 @@ interface SignalCleanseState {
   // Actions
   startProcessing: () => void;
   updateProgress: (stage: string, progress: number) => void;
-  setResult: (result: ChatExtractionResult) => void;
+  setPartialResult: (partial: ChatExtractionResult) => void;
+  setResult: (result: ChatExtractionResult, sourceMessages: RawChatMessage[]) => void;
+  setHighlightedSources: (sources: MessageReference[] | null) => void;
   setActiveProvider: (provider: LLMProviderName) => void;
   addFallback: (provider: LLMProviderName) => void;
   reset: () => void;
@@ -31,13 +46,20 @@ interface SignalCleanseState {
 export const useSignalCleanseStore = create<SignalCleanseState>((set) => ({
   // Initial state
   chatInput: '',
-  setChatInput: (input) => set({ chatInput: input }),
+  // Editing the text by hand invalidates the uploaded export
+  setChatInput: (input) => set({ chatInput: input, importedChat: null }),
+
+  importedChat: null,
+  setImportedChat: (chat, transcript) => set({ importedChat: chat, chatInput: transcript }),
 
   isProcessing: false,
   processingStage: '',
   processingProgress: 0,
+  partialResult: null,
 
   extractionResult: null,
+  sourceMessages: [],
+  highlightedSources: null,
 
   activeProvider: null,
   fallbacksUsed: [],
@@ -48,7 +70,10 @@ export const useSignalCleanseStore = create<SignalCleanseState>((set) => ({
     processingStage: 'Initializing...',
     processingProgress: 0,
     fallbacksUsed: [],
+    partialResult: null,
     extractionResult: null,
+    sourceMessages: [],
+    highlightedSources: null,
   }),
 
   updateProgress: (stage, progress) => set({
@@ -56,12 +81,20 @@ export const useSignalCleanseStore = create<SignalCleanseState>((set) => ({
     processingProgress: progress,
   }),
 
-  setResult: (result) => set({
+  setPartialResult: (partial) => set({ partialResult: partial }),
+
+  setResult: (result, sourceMessages) => set({
+    partialResult: null,
     extractionResult: result,
+    sourceMessages,
     isProcessing: false,
     processingProgress: 100,
   }),
 
+  setHighlightedSources: (sources) => set({
+    highlightedSources: sources && sources.length > 0 ? sources : null,
+  }),
+
   setActiveProvider: (provider) => set({ activeProvider: provider }),
 
   addFallback: (provider) => set((state) => ({
@@ -70,10 +103,14 @@ export const useSignalCleanseStore = create<SignalCleanseState>((set) => ({
 
   reset: () => set({
     chatInput: '',
+    importedChat: null,
     isProcessing: false,
     processingStage: '',
     processingProgress: 0,
+    partialResult: null,
     extractionResult: null,
+    sourceMessages: [],
+    highlightedSources: null,
     activeProvider: null,
     fallbacksUsed: [],
   }),
@@ -2,6 +2,7 @@
 // Manages state for the direct trip planning feature
 
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import type {
   DirectTripInput,
   PlaceInput,
@@ -19,7 +20,12 @@ import {
   generatePlaceId,
   calculateTripDays,
 } from '../services/itinerary/direct-input.types';
-import type { GeneratedItinerary } from '../services/itinerary/types';
+import type {
+  ActivityConstraint,
+  GeneratedItinerary,
+  ItineraryEdit,
+  ItineraryVersionSource,
+} from '../services/itinerary/types';
 import type { ResearchProgress } from '../services/itinerary/place-research.types';
 import {
   getRegionSuggestions,
@@ -34,6 +40,22 @@ import {
   validateDirectInput,
 } from '../services/itinerary/direct-input.adapter';
 import { generateItineraryWithResearch } from '../services/itinerary/builder';
+import type { EditHistory } from '../services/itinerary/edit-engine';
+import { applyEdit, EMPTY_EDIT_HISTORY, recordEdit, redoEdit, undoEdit } from '../services/itinerary/edit-engine';
+import { importTripFile } from '../services/itinerary/trip-import';
+import { defaultItineraryTitle } from '../services/itinerary/itinerary-documents';
+import { itineraryDocumentKey, useItineraryDocumentsStore } from './itinerary-documents.store';
+
+/**
+ * Save a generated or imported itinerary as the next version of the planner's document
+ */
+function saveVersion(itinerary: GeneratedItinerary, title: string | undefined, source: ItineraryVersionSource): void {
+  void useItineraryDocumentsStore.getState().saveVersion(
+    itineraryDocumentKey('trip-planner'),
+    itinerary,
+    { title: title || defaultItineraryTitle(itinerary), source }
+  );
+}
 
 interface TripPlannerState {
   // Stage
@@ -57,6 +79,10 @@ interface TripPlannerState {
   // Selected places
   selectedPlaces: PlaceInput[];
 
+  // Imported calendars, GPX/KML and shared itineraries
+  isImporting: boolean;
+  importMessages: string[];  // What was imported, and anything skipped
+
   // Place search
   searchQuery: string;
   searchResults: PlaceSuggestion[];
@@ -100,6 +126,7 @@ interface TripPlannerState {
   addPlaceFromSuggestion: (suggestion: PlaceSuggestion) => void;
   removePlace: (placeId: string) => void;
   toggleMustVisit: (placeId: string) => void;
+  importPlaces: (file: File) => Promise<void>;
 
   // Actions - AI Suggestions
   loadPopularPlaces: () => Promise<void>;
@@ -117,448 +144,31 @@ interface TripPlannerState {
   goToPlanning: () => void;
   goToResult: () => void;
 
-  // Actions - Edit Itinerary
+  // Actions - Edit Itinerary (each edit re-schedules the days it touches and can be undone)
+  editHistory: EditHistory;
+  editConflicts: string[];
+  editItinerary: (edit: ItineraryEdit) => void;
+  moveActivity: (activityId: string, toDay: number, index?: number) => void;
   removeActivity: (activityId: string) => void;
   updateActivityDuration: (activityId: string, newDuration: number) => void;
+  pinActivity: (activityId: string, startTime: string | null) => void;
+  addConstraint: (constraint: ActivityConstraint) => void;
+  removeConstraint: (activityId: string, kind: ActivityConstraint['kind']) => void;
+  lockDay: (dayNumber: number, locked: boolean) => void;
+  undo: () => void;
+  redo: () => void;
+  restoreItinerary: (itinerary: GeneratedItinerary) => void;
 
   // Actions - Reset
   reset: () => void;
 }
 
-export const useTripPlannerStore = create<TripPlannerState>((set, get) => ({
-  // Initial state
-  stage: 'planning',
-
-  region: '',
-  regionCoordinates: null,
-  startDate: '',
-  endDate: '',
-  budget: { ...DEFAULT_TRIP_INPUT.budget },
-  timings: { ...DEFAULT_TRIP_INPUT.timings },
-  travelMode: 'moderate',
-  interests: [],
-  customInterests: [],
-
-  regionSuggestions: [],
-  isLoadingRegionSuggestions: false,
-
-  selectedPlaces: [],
-
-  searchQuery: '',
-  searchResults: [],
-  isSearching: false,
-
-  aiSuggestedPlaces: [],
-  isLoadingAISuggestions: false,
-
-  generatedItinerary: null,
-  isGenerating: false,
-  generationProgress: null,
-  generationError: null,
-
-  tripSummary: null,
-
-  missedRecommendations: [],
-  isLoadingMissedRecommendations: false,
-
-  // Computed values - these are now functions that must be called
-  tripDays: 0, // Will be updated reactively
-  placeCoverage: { sufficient: true, recommended: 0, current: 0, message: '' }, // Will be updated reactively
-
-  // ==================== Input Actions ====================
-
-  setRegion: async (region) => {
-    set({ region });
-
-    // Load region suggestions (debounced in component)
-    if (region.length >= 2) {
-      set({ isLoadingRegionSuggestions: true });
-      try {
-        const suggestions = await getRegionSuggestions(region);
-        set({ regionSuggestions: suggestions, isLoadingRegionSuggestions: false });
-      } catch {
-        set({ isLoadingRegionSuggestions: false });
-      }
-    } else {
-      set({ regionSuggestions: [] });
-    }
-  },
-
-  selectRegionSuggestion: (suggestion) => {
-    set({
-      region: suggestion.name,
-      regionCoordinates: suggestion.coordinates || null,
-      regionSuggestions: [],
-    });
-
-    // Load popular places for this region
-    get().loadPopularPlaces();
-  },
-
-  setDates: (start, end) => {
-    const tripDays = calculateTripDays(start, end);
-    set({ startDate: start, endDate: end, tripDays });
-  },
-
-  setBudget: (budget) => {
-    set((state) => ({
-      budget: { ...state.budget, ...budget },
-    }));
-  },
-
-  setTimings: (timings) => {
-    set((state) => ({
-      timings: { ...state.timings, ...timings },
-    }));
-  },
-
-  setTravelMode: (mode) => {
-    set({ travelMode: mode });
-  },
-
-  toggleInterest: (interest) => {
-    set((state) => {
-      const interests = state.interests.includes(interest)
-        ? state.interests.filter((i) => i !== interest)
-        : [...state.interests, interest];
-
-      // Reload popular places when interests change
-      if (state.region) {
-        setTimeout(() => get().loadPopularPlaces(), 100);
-      }
-
-      return { interests };
-    });
-  },
-
-  addCustomInterest: (interest) => {
-    const trimmed = interest.trim();
-    if (trimmed && !get().customInterests.includes(trimmed)) {
-      set((state) => ({
-        customInterests: [...state.customInterests, trimmed],
-      }));
-    }
-  },
-
-  removeCustomInterest: (interest) => {
-    set((state) => ({
-      customInterests: state.customInterests.filter((i) => i !== interest),
-    }));
-  },
-
-  // ==================== Place Actions ====================
-
-  searchPlaces: async (query) => {
-    set({ searchQuery: query, isSearching: true });
-
-    if (query.length < 2) {
-      set({ searchResults: [], isSearching: false });
-      return;
-    }
-
-    try {
-      const results = await searchPlacesInRegion(query, get().region);
-      set({ searchResults: results, isSearching: false });
-    } catch {
-      set({ searchResults: [], isSearching: false });
-    }
-  },
-
-  addPlace: (place) => {
-    set((state) => {
-      // Check if already added
-      if (state.selectedPlaces.some((p) => p.name.toLowerCase() === place.name.toLowerCase())) {
-        return state;
-      }
-      return {
-        selectedPlaces: [...state.selectedPlaces, place],
-        searchQuery: '',
-        searchResults: [],
-      };
-    });
-  },
-
-  addPlaceFromSuggestion: (suggestion) => {
-    const place: PlaceInput = {
-      id: suggestion.id || generatePlaceId(),
-      name: suggestion.name,
-      type: suggestion.type,
-      coordinates: suggestion.coordinates,
-      description: suggestion.description,
-      mustVisit: false,
-      suggestedByAI: true,
-      confidence: suggestion.confidence,
-    };
-    get().addPlace(place);
-  },
-
-  removePlace: (placeId) => {
-    set((state) => ({
-      selectedPlaces: state.selectedPlaces.filter((p) => p.id !== placeId),
-    }));
-  },
-
-  toggleMustVisit: (placeId) => {
-    set((state) => ({
-      selectedPlaces: state.selectedPlaces.map((p) =>
-        p.id === placeId ? { ...p, mustVisit: !p.mustVisit } : p
-      ),
-    }));
-  },
-
-  // ==================== AI Suggestion Actions ====================
-
-  loadPopularPlaces: async () => {
-    const { region, interests } = get();
-    if (!region) return;
-
-    set({ isLoadingAISuggestions: true });
-    try {
-      const places = await getPopularPlacesInRegion(region, interests);
-
-      // Filter out already selected places
-      const selectedNames = get().selectedPlaces.map((p) => p.name.toLowerCase());
-      const filtered = places.filter(
-        (p) => !selectedNames.includes(p.name.toLowerCase())
-      );
-
-      set({ aiSuggestedPlaces: filtered, isLoadingAISuggestions: false });
-    } catch {
-      set({ isLoadingAISuggestions: false });
-    }
-  },
-
-  acceptAISuggestion: (suggestion) => {
-    get().addPlaceFromSuggestion(suggestion);
-
-    // Remove from suggestions
-    set((state) => ({
-      aiSuggestedPlaces: state.aiSuggestedPlaces.filter((s) => s.id !== suggestion.id),
-    }));
-  },
-
-  dismissAISuggestion: (suggestionId) => {
-    set((state) => ({
-      aiSuggestedPlaces: state.aiSuggestedPlaces.filter((s) => s.id !== suggestionId),
-    }));
-  },
-
-  // ==================== Generation Actions ====================
-
-  generateItinerary: async () => {
-    const state = get();
-
-    // Validate input
-    const validation = validateDirectInput({
-      region: state.region,
-      regionCoordinates: state.regionCoordinates || undefined,
-      startDate: state.startDate,
-      endDate: state.endDate,
-      budget: state.budget,
-      timings: state.timings,
-      travelMode: state.travelMode,
-      interests: state.interests,
-      customInterests: state.customInterests,
-      selectedPlaces: state.selectedPlaces,
-    });
-
-    if (!validation.valid) {
-      set({ generationError: validation.errors.join('. ') });
-      return;
-    }
-
-    set({
-      stage: 'generating',
-      isGenerating: true,
-      generationError: null,
-      generationProgress: null,
-    });
-
-    try {
-      // Enrich places with coordinates
-      const directInput: DirectTripInput = {
-        region: state.region,
-        regionCoordinates: state.regionCoordinates || undefined,
-        startDate: state.startDate,
-        endDate: state.endDate,
-        budget: state.budget,
-        timings: state.timings,
-        travelMode: state.travelMode,
-        interests: state.interests,
-        customInterests: state.customInterests,
-        selectedPlaces: state.selectedPlaces,
-      };
-
-      const enrichedInput = await enrichPlacesWithCoordinates(directInput);
-
-      // Convert to itinerary input
-      const itineraryInput = adaptDirectInputToItinerary(enrichedInput);
-
-      // Generate itinerary with research
-      const result = await generateItineraryWithResearch(
-        itineraryInput,
-        (progress) => {
-          set({ generationProgress: progress });
-        }
-      );
-
-      // Generate trip summary
-      const summary = await generateTripSummary(
-        state.region,
-        calculateTripDays(state.startDate, state.endDate),
-        state.interests,
-        state.selectedPlaces.map((p) => p.name)
-      );
-
-      set({
-        generatedItinerary: result.itinerary,
-        tripSummary: summary,
-        isGenerating: false,
-        stage: 'result',
-      });
-
-      // Load missed recommendations in background
-      get().loadMissedRecommendations();
-    } catch (error) {
-      console.error('Failed to generate itinerary:', error);
-      set({
-        isGenerating: false,
-        generationError: 'Failed to generate itinerary. Please try again.',
-        stage: 'planning',
-      });
-    }
-  },
-
-  loadMissedRecommendations: async () => {
-    const state = get();
-    if (!state.region || state.selectedPlaces.length === 0) return;
-
-    set({ isLoadingMissedRecommendations: true });
-
-    try {
-      const recommendations = await getMissedRecommendations(
-        state.region,
-        state.selectedPlaces.map((p) => p.name),
-        state.interests
-      );
-
-      set({
-        missedRecommendations: recommendations,
-        isLoadingMissedRecommendations: false,
-      });
-    } catch {
-      set({ isLoadingMissedRecommendations: false });
-    }
-  },
-
-  acceptMissedRecommendation: (id) => {
-    set((state) => {
-      const rec = state.missedRecommendations.find((r) => r.id === id);
-      if (!rec) return state;
-
-      // Add to selected places
-      const newPlace: PlaceInput = {
-        id: generatePlaceId(),
-        name: rec.name,
-        type: rec.type,
-        coordinates: rec.coordinates,
-        description: rec.description,
-        mustVisit: false,
-        suggestedByAI: true,
-      };
-
-      return {
-        selectedPlaces: [...state.selectedPlaces, newPlace],
-        missedRecommendations: state.missedRecommendations.map((r) =>
-          r.id === id ? { ...r, status: 'accepted' as const } : r
-        ),
-      };
-    });
-  },
-
-  rejectMissedRecommendation: (id) => {
-    set((state) => ({
-      missedRecommendations: state.missedRecommendations.map((r) =>
-        r.id === id ? { ...r, status: 'rejected' as const } : r
-      ),
-    }));
-  },
-
-  regenerateWithAccepted: async () => {
-    // Just regenerate - accepted places are already in selectedPlaces
-    await get().generateItinerary();
-  },
-
-  // ==================== Navigation Actions ====================
-
-  goToPlanning: () => {
-    set({ stage: 'planning' });
-  },
-
-  goToResult: () => {
-    if (get().generatedItinerary) {
-      set({ stage: 'result' });
-    }
-  },
-
-  // ==================== Edit Itinerary ====================
-
-  removeActivity: (activityId) => {
-    const { generatedItinerary } = get();
-    if (!generatedItinerary) return;
-
-    const newDays = generatedItinerary.days.map(day => ({
-      ...day,
-      activities: day.activities.filter(a => a.id !== activityId),
-    }));
-
-    set({
-      generatedItinerary: {
-        ...generatedItinerary,
-        days: newDays,
-      },
-    });
-  },
-
-  updateActivityDuration: (activityId, newDuration) => {
-    const { generatedItinerary } = get();
-    if (!generatedItinerary) return;
-
-    const newDays = generatedItinerary.days.map(day => ({
-      ...day,
-      activities: day.activities.map(activity => {
-        if (activity.id === activityId) {
-          // Calculate new end time
-          const startMinutes = parseInt(activity.startTime.split(':')[0]) * 60 +
-                               parseInt(activity.startTime.split(':')[1]);
-          const endMinutes = startMinutes + newDuration;
-          const endHours = Math.floor(endMinutes / 60) % 24;
-          const endMins = endMinutes % 60;
-          const newEndTime = `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
-
-          return {
-            ...activity,
-            duration: newDuration,
-            endTime: newEndTime,
-          };
-        }
-        return activity;
-      }),
-    }));
-
-    set({
-      generatedItinerary: {
-        ...generatedItinerary,
-        days: newDays,
-      },
-    });
-  },
-
-  // ==================== Reset ====================
-
-  reset: () => {
-    set({
+export const useTripPlannerStore = create<TripPlannerState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
       stage: 'planning',
+
       region: '',
       regionCoordinates: null,
       startDate: '',
@@ -568,21 +178,563 @@ export const useTripPlannerStore = create<TripPlannerState>((set, get) => ({
       travelMode: 'moderate',
       interests: [],
       customInterests: [],
+
       regionSuggestions: [],
       isLoadingRegionSuggestions: false,
+
       selectedPlaces: [],
+
+      isImporting: false,
+      importMessages: [],
+
       searchQuery: '',
       searchResults: [],
       isSearching: false,
+
       aiSuggestedPlaces: [],
       isLoadingAISuggestions: false,
+
       generatedItinerary: null,
       isGenerating: false,
       generationProgress: null,
       generationError: null,
+
+      editHistory: EMPTY_EDIT_HISTORY,
+      editConflicts: [],
+
       tripSummary: null,
+
       missedRecommendations: [],
       isLoadingMissedRecommendations: false,
-    });
-  },
-}));
+
+      // Computed values - these are now functions that must be called
+      tripDays: 0, // Will be updated reactively
+      placeCoverage: { sufficient: true, recommended: 0, current: 0, message: '' }, // Will be updated reactively
+
+      // ==================== Input Actions ====================
+
+      setRegion: async (region) => {
+        set({ region });
+
+        // Load region suggestions (debounced in component)
+        if (region.length >= 2) {
+          set({ isLoadingRegionSuggestions: true });
+          try {
+            const suggestions = await getRegionSuggestions(region);
+            set({ regionSuggestions: suggestions, isLoadingRegionSuggestions: false });
+          } catch {
+            set({ isLoadingRegionSuggestions: false });
+          }
+        } else {
+          set({ regionSuggestions: [] });
+        }
+      },
+
+      selectRegionSuggestion: (suggestion) => {
+        set({
+          region: suggestion.name,
+          regionCoordinates: suggestion.coordinates || null,
+          regionSuggestions: [],
+        });
+
+        // Load popular places for this region
+        get().loadPopularPlaces();
+      },
+
+      setDates: (start, end) => {
+        const tripDays = calculateTripDays(start, end);
+        set({ startDate: start, endDate: end, tripDays });
+      },
+
+      setBudget: (budget) => {
+        set((state) => ({
+          budget: { ...state.budget, ...budget },
+        }));
+      },
+
+      setTimings: (timings) => {
+        set((state) => ({
+          timings: { ...state.timings, ...timings },
+        }));
+      },
+
+      setTravelMode: (mode) => {
+        set({ travelMode: mode });
+      },
+
+      toggleInterest: (interest) => {
+        set((state) => {
+          const interests = state.interests.includes(interest)
+            ? state.interests.filter((i) => i !== interest)
+            : [...state.interests, interest];
+
+          // Reload popular places when interests change
+          if (state.region) {
+            setTimeout(() => get().loadPopularPlaces(), 100);
+          }
+
+          return { interests };
+        });
+      },
+
+      addCustomInterest: (interest) => {
+        const trimmed = interest.trim();
+        if (trimmed && !get().customInterests.includes(trimmed)) {
+          set((state) => ({
+            customInterests: [...state.customInterests, trimmed],
+          }));
+        }
+      },
+
+      removeCustomInterest: (interest) => {
+        set((state) => ({
+          customInterests: state.customInterests.filter((i) => i !== interest),
+        }));
+      },
+
+      // ==================== Place Actions ====================
+
+      searchPlaces: async (query) => {
+        set({ searchQuery: query, isSearching: true });
+
+        if (query.length < 2) {
+          set({ searchResults: [], isSearching: false });
+          return;
+        }
+
+        try {
+          const results = await searchPlacesInRegion(query, get().region);
+          set({ searchResults: results, isSearching: false });
+        } catch {
+          set({ searchResults: [], isSearching: false });
+        }
+      },
+
+      addPlace: (place) => {
+        set((state) => {
+          // Check if already added
+          if (state.selectedPlaces.some((p) => p.name.toLowerCase() === place.name.toLowerCase())) {
+            return state;
+          }
+          return {
+            selectedPlaces: [...state.selectedPlaces, place],
+            searchQuery: '',
+            searchResults: [],
+          };
+        });
+      },
+
+      importPlaces: async (file) => {
+        set({ isImporting: true, importMessages: [] });
+
+        try {
+          const result = await importTripFile(file);
+          if (result.itinerary) {
+            saveVersion(result.itinerary, result.name, 'imported');
+          }
+
+          set((state) => {
+            // Places already in the list pick up the imported time and position
+            const byName = new Map(result.places.map((p) => [p.name.toLowerCase(), p]));
+            const merged = state.selectedPlaces.map((p) => {
+              const imported = byName.get(p.name.toLowerCase());
+              if (!imported) return p;
+              byName.delete(p.name.toLowerCase());
+              return {
+                ...p,
+                coordinates: p.coordinates ?? imported.coordinates,
+                fixedTime: imported.fixedTime ?? p.fixedTime,
+                mustVisit: p.mustVisit || imported.mustVisit,
+              };
+            });
+            const added = Array.from(byName.values());
+            const fixed = result.places.filter((p) => p.fixedTime).length;
+
+            // Fill the dates from the bookings if none are set yet
+            const dates = !state.startDate && !state.endDate && result.dates ? result.dates : null;
+
+            return {
+              selectedPlaces: [...merged, ...added],
+              ...(dates ? { startDate: dates.start, endDate: dates.end, tripDays: calculateTripDays(dates.start, dates.end) } : {}),
+              // A shared itinerary opens as it was planned
+              ...(result.itinerary ? {
+                stage: 'result' as const,
+                generatedItinerary: result.itinerary,
+                editHistory: EMPTY_EDIT_HISTORY,
+                editConflicts: [],
+              } : {}),
+              isImporting: false,
+              importMessages: [
+                `Imported ${added.length} new place${added.length === 1 ? '' : 's'}${fixed > 0 ? `, ${fixed} at a fixed time` : ''} from ${file.name}`,
+                ...result.warnings,
+              ],
+            };
+          });
+        } catch (error) {
+          console.error('Failed to import trip file:', error);
+          set({
+            isImporting: false,
+            importMessages: [error instanceof Error ? error.message : 'Could not import that file'],
+          });
+        }
+      },
+
+      addPlaceFromSuggestion: (suggestion) => {
+        const place: PlaceInput = {
+          id: suggestion.id || generatePlaceId(),
+          name: suggestion.name,
+          type: suggestion.type,
+          coordinates: suggestion.coordinates,
+          description: suggestion.description,
+          mustVisit: false,
+          suggestedByAI: true,
+          confidence: suggestion.confidence,
+        };
+        get().addPlace(place);
+      },
+
+      removePlace: (placeId) => {
+        set((state) => ({
+          selectedPlaces: state.selectedPlaces.filter((p) => p.id !== placeId),
+        }));
+      },
+
+      toggleMustVisit: (placeId) => {
+        set((state) => ({
+          selectedPlaces: state.selectedPlaces.map((p) =>
+            p.id === placeId ? { ...p, mustVisit: !p.mustVisit } : p
+          ),
+        }));
+      },
+
+      // ==================== AI Suggestion Actions ====================
+
+      loadPopularPlaces: async () => {
+        const { region, interests } = get();
+        if (!region) return;
+
+        set({ isLoadingAISuggestions: true });
+        try {
+          const places = await getPopularPlacesInRegion(region, interests);
+
+          // Filter out already selected places
+          const selectedNames = get().selectedPlaces.map((p) => p.name.toLowerCase());
+          const filtered = places.filter(
+            (p) => !selectedNames.includes(p.name.toLowerCase())
+          );
+
+          set({ aiSuggestedPlaces: filtered, isLoadingAISuggestions: false });
+        } catch {
+          set({ isLoadingAISuggestions: false });
+        }
+      },
+
+      acceptAISuggestion: (suggestion) => {
+        get().addPlaceFromSuggestion(suggestion);
+
+        // Remove from suggestions
+        set((state) => ({
+          aiSuggestedPlaces: state.aiSuggestedPlaces.filter((s) => s.id !== suggestion.id),
+        }));
+      },
+
+      dismissAISuggestion: (suggestionId) => {
+        set((state) => ({
+          aiSuggestedPlaces: state.aiSuggestedPlaces.filter((s) => s.id !== suggestionId),
+        }));
+      },
+
+      // ==================== Generation Actions ====================
+
+      generateItinerary: async () => {
+        const state = get();
+
+        // Validate input
+        const validation = validateDirectInput({
+          region: state.region,
+          regionCoordinates: state.regionCoordinates || undefined,
+          startDate: state.startDate,
+          endDate: state.endDate,
+          budget: state.budget,
+          timings: state.timings,
+          travelMode: state.travelMode,
+          interests: state.interests,
+          customInterests: state.customInterests,
+          selectedPlaces: state.selectedPlaces,
+        });
+
+        if (!validation.valid) {
+          set({ generationError: validation.errors.join('. ') });
+          return;
+        }
+
+        set({
+          stage: 'generating',
+          isGenerating: true,
+          generationError: null,
+          generationProgress: null,
+        });
+
+        try {
+          // Enrich places with coordinates
+          const directInput: DirectTripInput = {
+            region: state.region,
+            regionCoordinates: state.regionCoordinates || undefined,
+            startDate: state.startDate,
+            endDate: state.endDate,
+            budget: state.budget,
+            timings: state.timings,
+            travelMode: state.travelMode,
+            interests: state.interests,
+            customInterests: state.customInterests,
+            selectedPlaces: state.selectedPlaces,
+          };
+
+          const enrichedInput = await enrichPlacesWithCoordinates(directInput);
+
+          // Convert to itinerary input
+          const itineraryInput = adaptDirectInputToItinerary(enrichedInput);
+
+          // Generate itinerary with research
+          const result = await generateItineraryWithResearch(
+            itineraryInput,
+            (progress) => {
+              set({ generationProgress: progress });
+            }
+          );
+
+          // Generate trip summary
+          const summary = await generateTripSummary(
+            state.region,
+            calculateTripDays(state.startDate, state.endDate),
+            state.interests,
+            state.selectedPlaces.map((p) => p.name)
+          );
+
+          set({
+            generatedItinerary: result.itinerary,
+            editHistory: EMPTY_EDIT_HISTORY,
+            editConflicts: [],
+            tripSummary: summary,
+            isGenerating: false,
+            stage: 'result',
+          });
+          saveVersion(result.itinerary, summary?.title || state.region, 'generated');
+
+          // Load missed recommendations in background
+          get().loadMissedRecommendations();
+        } catch (error) {
+          console.error('Failed to generate itinerary:', error);
+          set({
+            isGenerating: false,
+            generationError: 'Failed to generate itinerary. Please try again.',
+            stage: 'planning',
+          });
+        }
+      },
+
+      loadMissedRecommendations: async () => {
+        const state = get();
+        if (!state.region || state.selectedPlaces.length === 0) return;
+
+        set({ isLoadingMissedRecommendations: true });
+
+        try {
+          const recommendations = await getMissedRecommendations(
+            state.region,
+            state.selectedPlaces.map((p) => p.name),
+            state.interests
+          );
+
+          set({
+            missedRecommendations: recommendations,
+            isLoadingMissedRecommendations: false,
+          });
+        } catch {
+          set({ isLoadingMissedRecommendations: false });
+        }
+      },
+
+      acceptMissedRecommendation: (id) => {
+        set((state) => {
+          const rec = state.missedRecommendations.find((r) => r.id === id);
+          if (!rec) return state;
+
+          // Add to selected places
+          const newPlace: PlaceInput = {
+            id: generatePlaceId(),
+            name: rec.name,
+            type: rec.type,
+            coordinates: rec.coordinates,
+            description: rec.description,
+            mustVisit: false,
+            suggestedByAI: true,
+          };
+
+          return {
+            selectedPlaces: [...state.selectedPlaces, newPlace],
+            missedRecommendations: state.missedRecommendations.map((r) =>
+              r.id === id ? { ...r, status: 'accepted' as const } : r
+            ),
+          };
+        });
+      },
+
+      rejectMissedRecommendation: (id) => {
+        set((state) => ({
+          missedRecommendations: state.missedRecommendations.map((r) =>
+            r.id === id ? { ...r, status: 'rejected' as const } : r
+          ),
+        }));
+      },
+
+      regenerateWithAccepted: async () => {
+        // Just regenerate - accepted places are already in selectedPlaces
+        await get().generateItinerary();
+      },
+
+      // ==================== Navigation Actions ====================
+
+      goToPlanning: () => {
+        set({ stage: 'planning' });
+      },
+
+      goToResult: () => {
+        if (get().generatedItinerary) {
+          set({ stage: 'result' });
+        }
+      },
+
+      // ==================== Edit Itinerary ====================
+
+      editItinerary: (edit) => {
+        const { generatedItinerary, editHistory } = get();
+        if (!generatedItinerary) return;
+
+        const result = applyEdit(generatedItinerary, edit);
+        if (result.itinerary === generatedItinerary) {
+          set({ editConflicts: result.conflicts });
+          return;
+        }
+
+        set({
+          generatedItinerary: result.itinerary,
+          editHistory: recordEdit(editHistory, generatedItinerary),
+          editConflicts: result.conflicts,
+        });
+      },
+
+      moveActivity: (activityId, toDay, index) => {
+        get().editItinerary({ type: 'move', activityId, toDay, index });
+      },
+
+      removeActivity: (activityId) => {
+        get().editItinerary({ type: 'remove', activityId });
+      },
+
+      updateActivityDuration: (activityId, newDuration) => {
+        get().editItinerary({ type: 'duration', activityId, duration: newDuration });
+      },
+
+      pinActivity: (activityId, startTime) => {
+        get().editItinerary(startTime
+          ? { type: 'constrain', constraint: { kind: 'pin', activityId, startTime } }
+          : { type: 'unconstrain', activityId, kind: 'pin' });
+      },
+
+      addConstraint: (constraint) => {
+        get().editItinerary({ type: 'constrain', constraint });
+      },
+
+      removeConstraint: (activityId, kind) => {
+        get().editItinerary({ type: 'unconstrain', activityId, kind });
+      },
+
+      lockDay: (dayNumber, locked) => {
+        get().editItinerary({ type: 'lock-day', day: dayNumber, locked });
+      },
+
+      undo: () => {
+        const { generatedItinerary, editHistory } = get();
+        const step = generatedItinerary && undoEdit(editHistory, generatedItinerary);
+        if (step) set({ generatedItinerary: step.itinerary, editHistory: step.history, editConflicts: [] });
+      },
+
+      redo: () => {
+        const { generatedItinerary, editHistory } = get();
+        const step = generatedItinerary && redoEdit(editHistory, generatedItinerary);
+        if (step) set({ generatedItinerary: step.itinerary, editHistory: step.history, editConflicts: [] });
+      },
+
+      // A version restored from history; like an edit, it can be undone
+      restoreItinerary: (itinerary) => {
+        const { generatedItinerary, editHistory } = get();
+        set({
+          generatedItinerary: itinerary,
+          editHistory: generatedItinerary ? recordEdit(editHistory, generatedItinerary) : EMPTY_EDIT_HISTORY,
+          editConflicts: [],
+          stage: 'result',
+        });
+      },
+
+      // ==================== Reset ====================
+
+      reset: () => {
+        // Start over with a new document; the old one stays in the database
+        useItineraryDocumentsStore.getState().forgetDocument(itineraryDocumentKey('trip-planner'));
+        set({
+          stage: 'planning',
+          region: '',
+          regionCoordinates: null,
+          startDate: '',
+          endDate: '',
+          budget: { ...DEFAULT_TRIP_INPUT.budget },
+          timings: { ...DEFAULT_TRIP_INPUT.timings },
+          travelMode: 'moderate',
+          interests: [],
+          customInterests: [],
+          regionSuggestions: [],
+          isLoadingRegionSuggestions: false,
+          selectedPlaces: [],
+          isImporting: false,
+          importMessages: [],
+          searchQuery: '',
+          searchResults: [],
+          isSearching: false,
+          aiSuggestedPlaces: [],
+          isLoadingAISuggestions: false,
+          generatedItinerary: null,
+          isGenerating: false,
+          generationProgress: null,
+          generationError: null,
+          editHistory: EMPTY_EDIT_HISTORY,
+          editConflicts: [],
+          tripSummary: null,
+          missedRecommendations: [],
+          isLoadingMissedRecommendations: false,
+        });
+      },
+    }),
+    {
+      name: 'wanderforge-trip-planner',
+      // Inputs and the finished trip survive a reload; searches and in-flight generation don't
+      partialize: (state) => ({
+        stage: state.stage === 'generating' ? 'planning' : state.stage,
+        region: state.region,
+        regionCoordinates: state.regionCoordinates,
+        startDate: state.startDate,
+        endDate: state.endDate,
+        budget: state.budget,
+        timings: state.timings,
+        travelMode: state.travelMode,
+        interests: state.interests,
+        customInterests: state.customInterests,
+        selectedPlaces: state.selectedPlaces,
+        generatedItinerary: state.generatedItinerary,
+        tripSummary: state.tripSummary,
+        missedRecommendations: state.missedRecommendations,
+        tripDays: state.tripDays,
+      }),
+    }
+  )
+);
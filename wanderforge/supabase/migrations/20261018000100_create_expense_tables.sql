@@ -0,0 +1,45 @@
+-- ============================================================
+-- TRIP CHAT - Expense Ledger Migration
+-- Who paid what within a chat group, and how it is split
+-- ============================================================
+
+-- Chat Expenses Table
+CREATE TABLE IF NOT EXISTS chat_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES chat_groups(id) ON DELETE CASCADE,
+  description VARCHAR(200) NOT NULL,
+  paid_by UUID NOT NULL REFERENCES chat_members(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  split_mode VARCHAR(10) NOT NULL DEFAULT 'equal' CHECK (split_mode IN ('equal', 'shares', 'exact')),
+  splits JSONB NOT NULL DEFAULT '[]'::jsonb,
+  category VARCHAR(30),
+  day INTEGER,
+  source VARCHAR(20) DEFAULT 'manual' CHECK (source IN ('manual', 'extracted')),
+  source_item TEXT,
+  created_by UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  is_deleted BOOLEAN DEFAULT FALSE
+);
+
+-- ============================================================
+-- Indexes for Performance
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_chat_expenses_group ON chat_expenses(group_id, is_deleted);
+CREATE INDEX IF NOT EXISTS idx_chat_expenses_paid_by ON chat_expenses(paid_by);
+
+-- ============================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================
+
+ALTER TABLE chat_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Same open policy as the other chat tables
+CREATE POLICY "Allow all on chat_expenses" ON chat_expenses FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================================
+-- Enable Realtime
+-- ============================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_expenses;
@@ -0,0 +1,165 @@
+-- ============================================================
+-- TRIP CHAT - Polls Migration
+-- Structured votes posted into a chat group
+-- ============================================================
+
+-- Poll messages live in chat_messages alongside text and images
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_message_type_check;
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'system', 'poll'));
+
+-- Chat Polls Table
+CREATE TABLE IF NOT EXISTS chat_polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES chat_groups(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES chat_messages(id) ON DELETE CASCADE,
+  question VARCHAR(300) NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, label }]
+  kind VARCHAR(10) NOT NULL DEFAULT 'general' CHECK (kind IN ('general', 'place', 'dates', 'budget')),
+  multi_choice BOOLEAN DEFAULT FALSE,
+  anonymous BOOLEAN DEFAULT FALSE,
+  deadline TIMESTAMPTZ,
+  created_by UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  UNIQUE(message_id)
+);
+
+-- Chat Poll Votes Table
+-- Anonymous polls store no member: voter_key is a hash only the voter's device can recompute,
+-- and chat_poll_ballots holds the one-per-member check. Written only through toggle_poll_vote.
+CREATE TABLE IF NOT EXISTS chat_poll_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES chat_polls(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES chat_groups(id) ON DELETE CASCADE,
+  member_id UUID REFERENCES chat_members(id) ON DELETE CASCADE, -- NULL in anonymous polls
+  voter_key VARCHAR(64) NOT NULL, -- member_id in named polls
+  option_id VARCHAR(20) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(poll_id, voter_key, option_id)
+);
+
+-- Chat Poll Ballots Table
+-- One row per member who voted in an anonymous poll, so a second device can't vote again.
+-- Only toggle_poll_vote touches it: no client can read it, and it has no timestamp to line up
+-- against the votes feed, so who voted never pairs with what they picked.
+CREATE TABLE IF NOT EXISTS chat_poll_ballots (
+  poll_id UUID NOT NULL REFERENCES chat_polls(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES chat_members(id) ON DELETE CASCADE,
+  PRIMARY KEY(poll_id, member_id)
+);
+
+-- ============================================================
+-- Indexes for Performance
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_chat_polls_group ON chat_polls(group_id);
+CREATE INDEX IF NOT EXISTS idx_chat_polls_message ON chat_polls(message_id);
+CREATE INDEX IF NOT EXISTS idx_chat_poll_votes_poll ON chat_poll_votes(poll_id);
+
+-- ============================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================
+
+ALTER TABLE chat_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_poll_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_poll_ballots ENABLE ROW LEVEL SECURITY;
+
+-- Same open policy as the other chat tables
+CREATE POLICY "Allow all on chat_polls" ON chat_polls FOR ALL USING (true) WITH CHECK (true);
+-- Votes are read-only to clients; toggle_poll_vote writes them together with the ballot
+CREATE POLICY "Read chat_poll_votes" ON chat_poll_votes FOR SELECT USING (true);
+-- No policy on chat_poll_ballots: RLS alone keeps every client out
+REVOKE ALL ON chat_poll_ballots FROM anon, authenticated;
+
+-- ============================================================
+-- Voting
+-- ============================================================
+
+-- Vote for an option, or take the vote back when it is already picked. Single-choice polls
+-- replace the member's earlier pick. In anonymous polls the first pick claims the member's
+-- ballot in the same transaction, and a member whose ballot is held by another key
+-- (another device) gets 'voted_elsewhere'.
+-- Returns 'voted', 'removed', 'voted_elsewhere', 'closed', 'invalid' or 'not_found'.
+CREATE OR REPLACE FUNCTION toggle_poll_vote(
+  p_poll_id UUID,
+  p_member_id UUID,
+  p_voter_key VARCHAR,
+  p_option_id VARCHAR
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_poll chat_polls%ROWTYPE;
+  v_key VARCHAR;
+  v_mine INTEGER;
+  v_picked BOOLEAN;
+BEGIN
+  SELECT * INTO v_poll FROM chat_polls WHERE id = p_poll_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+  IF v_poll.closed_at IS NOT NULL OR (v_poll.deadline IS NOT NULL AND v_poll.deadline <= NOW()) THEN
+    RETURN 'closed';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM jsonb_array_elements(v_poll.options) o WHERE o->>'id' = p_option_id)
+     OR NOT EXISTS (SELECT 1 FROM chat_members WHERE id = p_member_id AND group_id = v_poll.group_id) THEN
+    RETURN 'invalid';
+  END IF;
+
+  -- Named polls key votes by member
+  v_key := CASE WHEN v_poll.anonymous THEN p_voter_key ELSE p_member_id::TEXT END;
+
+  SELECT COUNT(*), COALESCE(BOOL_OR(option_id = p_option_id), FALSE) INTO v_mine, v_picked
+  FROM chat_poll_votes
+  WHERE poll_id = p_poll_id AND voter_key = v_key;
+
+  IF v_picked THEN
+    DELETE FROM chat_poll_votes
+    WHERE poll_id = p_poll_id AND voter_key = v_key AND option_id = p_option_id;
+    -- Taking back the last pick frees the ballot for a fresh vote
+    IF v_poll.anonymous AND v_mine = 1 THEN
+      DELETE FROM chat_poll_ballots WHERE poll_id = p_poll_id AND member_id = p_member_id;
+    END IF;
+    RETURN 'removed';
+  END IF;
+
+  IF v_poll.anonymous AND v_mine = 0 THEN
+    INSERT INTO chat_poll_ballots (poll_id, member_id) VALUES (p_poll_id, p_member_id)
+    ON CONFLICT DO NOTHING;
+    IF NOT FOUND THEN
+      RETURN 'voted_elsewhere';
+    END IF;
+  END IF;
+
+  IF NOT v_poll.multi_choice THEN
+    DELETE FROM chat_poll_votes WHERE poll_id = p_poll_id AND voter_key = v_key;
+  END IF;
+
+  INSERT INTO chat_poll_votes (poll_id, group_id, member_id, voter_key, option_id)
+  VALUES (
+    p_poll_id,
+    v_poll.group_id,
+    CASE WHEN v_poll.anonymous THEN NULL ELSE p_member_id END,
+    v_key,
+    p_option_id
+  );
+  RETURN 'voted';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION toggle_poll_vote(UUID, UUID, VARCHAR, VARCHAR) TO anon, authenticated;
+
+-- ============================================================
+-- Enable Realtime
+-- ============================================================
+
+-- Votes are deleted when changed, so DELETE events need the full old row
+-- (which carries no member for anonymous polls). Ballots are never published.
+ALTER TABLE chat_poll_votes REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_polls;
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_poll_votes;
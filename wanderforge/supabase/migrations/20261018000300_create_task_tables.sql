@@ -0,0 +1,49 @@
+-- ============================================================
+-- TRIP CHAT - Task Board Migration
+-- Persistent to-dos per chat group, seeded from extraction
+-- ============================================================
+
+-- Chat Tasks Table
+CREATE TABLE IF NOT EXISTS chat_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES chat_groups(id) ON DELETE CASCADE,
+  title VARCHAR(300) NOT NULL,
+  task_key VARCHAR(60) NOT NULL, -- Normalized title, so re-extraction doesn't add copies
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in-progress', 'done')),
+  priority VARCHAR(10) CHECK (priority IN ('low', 'medium', 'high')),
+  assignee_id UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  assignee_name VARCHAR(100), -- Name from the chat when it matches no member
+  due_date DATE,
+  source VARCHAR(20) DEFAULT 'manual' CHECK (source IN ('manual', 'extracted')),
+  sources JSONB, -- Messages the task was extracted from
+  reminded_at TIMESTAMPTZ,
+  created_by UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  is_deleted BOOLEAN DEFAULT FALSE,
+  UNIQUE(group_id, task_key)
+);
+
+-- ============================================================
+-- Indexes for Performance
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_chat_tasks_group ON chat_tasks(group_id, is_deleted);
+CREATE INDEX IF NOT EXISTS idx_chat_tasks_due ON chat_tasks(due_date) WHERE status != 'done';
+
+-- ============================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================
+
+ALTER TABLE chat_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Same open policy as the other chat tables
+CREATE POLICY "Allow all on chat_tasks" ON chat_tasks FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================================
+-- Enable Realtime
+-- ============================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_tasks;
@@ -0,0 +1,52 @@
+-- ============================================================
+-- ITINERARIES - Saved Documents Migration
+-- Generated itineraries as versioned documents, owned by a chat group or a user,
+-- with an optional read-only share link
+-- ============================================================
+
+-- Itinerary Documents Table (one per trip plan)
+CREATE TABLE IF NOT EXISTS itinerary_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID REFERENCES chat_groups(id) ON DELETE CASCADE,
+  owner_id VARCHAR(100), -- Signed-in user id, or device id for guests
+  title VARCHAR(200) NOT NULL,
+  current_version INTEGER NOT NULL DEFAULT 0,
+  share_token VARCHAR(32) UNIQUE, -- Set while a public read-only link is enabled
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  is_deleted BOOLEAN DEFAULT FALSE,
+  CHECK (group_id IS NOT NULL OR owner_id IS NOT NULL)
+);
+
+-- Itinerary Versions Table (every regeneration, saved edit or restore adds one)
+CREATE TABLE IF NOT EXISTS itinerary_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES itinerary_documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  itinerary_data JSONB NOT NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'generated' CHECK (source IN ('generated', 'edited', 'imported', 'restored')),
+  change_summary JSONB NOT NULL DEFAULT '[]'::jsonb, -- What changed since the previous version, one line each
+  restored_from INTEGER, -- Version this one restores
+  created_by VARCHAR(100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(document_id, version)
+);
+
+-- ============================================================
+-- Indexes for Performance
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_documents_group ON itinerary_documents(group_id, is_deleted);
+CREATE INDEX IF NOT EXISTS idx_itinerary_documents_owner ON itinerary_documents(owner_id, is_deleted);
+CREATE INDEX IF NOT EXISTS idx_itinerary_versions_document ON itinerary_versions(document_id, version DESC);
+
+-- ============================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================
+
+ALTER TABLE itinerary_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE itinerary_versions ENABLE ROW LEVEL SECURITY;
+
+-- Same open policy as the chat tables; share links are read-only in the app
+CREATE POLICY "Allow all on itinerary_documents" ON itinerary_documents FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Allow all on itinerary_versions" ON itinerary_versions FOR ALL USING (true) WITH CHECK (true);
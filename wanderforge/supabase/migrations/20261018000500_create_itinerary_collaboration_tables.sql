@@ -0,0 +1,59 @@
+-- ============================================================
+-- ITINERARIES - Collaborative Editing Migration
+-- Edits from everyone in a group as one ordered log on top of the saved version,
+-- and comments on single activities
+-- ============================================================
+
+-- Itinerary Ops Table (one row per move, remove, duration change, pin or lock)
+CREATE TABLE IF NOT EXISTS itinerary_ops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seq BIGSERIAL UNIQUE, -- Server order every client replays edits in
+  document_id UUID NOT NULL REFERENCES itinerary_documents(id) ON DELETE CASCADE,
+  client_op_id VARCHAR(64) NOT NULL UNIQUE, -- Lets the author match the echo to its pending edit
+  member_id UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  member_name VARCHAR(50) NOT NULL,
+  op JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Versions record the last op folded into them; later ops replay on top
+ALTER TABLE itinerary_versions ADD COLUMN IF NOT EXISTS merged_through BIGINT NOT NULL DEFAULT 0;
+
+-- Itinerary Comments Table (keyed by place so they survive regeneration)
+CREATE TABLE IF NOT EXISTS itinerary_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES itinerary_documents(id) ON DELETE CASCADE,
+  place_key VARCHAR(200) NOT NULL, -- Lower-cased place name
+  member_id UUID REFERENCES chat_members(id) ON DELETE SET NULL,
+  member_name VARCHAR(50) NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  is_deleted BOOLEAN DEFAULT FALSE
+);
+
+-- ============================================================
+-- Indexes for Performance
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_ops_document ON itinerary_ops(document_id, seq);
+CREATE INDEX IF NOT EXISTS idx_itinerary_comments_document ON itinerary_comments(document_id, place_key);
+
+-- ============================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================
+
+ALTER TABLE itinerary_ops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE itinerary_comments ENABLE ROW LEVEL SECURITY;
+
+-- Same open policy as the chat tables
+CREATE POLICY "Allow all on itinerary_ops" ON itinerary_ops FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Allow all on itinerary_comments" ON itinerary_comments FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================================
+-- Enable Realtime
+-- ============================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE itinerary_ops;
+ALTER PUBLICATION supabase_realtime ADD TABLE itinerary_comments;
+-- New versions bump current_version; everyone rebases onto them
+ALTER PUBLICATION supabase_realtime ADD TABLE itinerary_documents;